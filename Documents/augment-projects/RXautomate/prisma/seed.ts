@@ -42,6 +42,7 @@ async function main() {
       phoneNumber: '020 1234 5678',
       email: 'pharmacy@testpharmacy.co.uk',
       nhsContractNumber: 'NHS123456',
+      odsCode: 'FA565', // Matches the mock CIS2 server's test identities
       organizationId: organization.id,
     },
   });
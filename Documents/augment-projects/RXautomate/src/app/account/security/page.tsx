@@ -0,0 +1,390 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { signOut, useSession } from 'next-auth/react';
+import Layout from '@/components/Layout';
+
+interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface SessionRow {
+  id: string;
+  provider: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-nhs-blue focus:border-nhs-blue sm:text-sm';
+
+// Enough of the user agent to tell devices apart
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('en-GB', {
+  day: 'numeric',
+  month: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+export default function AccountSecurityPage() {
+  const { data: session, update } = useSession();
+  const router = useRouter();
+  const [mfa, setMfa] = useState<MfaStatus | null>(null);
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  // The secret while enrolling, and the recovery codes once, right after they're made
+  const [enrolment, setEnrolment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isCis2User = session?.user?.isCis2User;
+  const mustEnrol = session?.user?.mfaEnrollmentRequired;
+
+  useEffect(() => {
+    fetchMfa();
+    fetchSessions();
+  }, []);
+
+  const fetchMfa = async () => {
+    try {
+      const response = await fetch('/api/account/mfa');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch two-factor authentication status');
+      }
+
+      setMfa(await response.json());
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/account/sessions');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch sessions');
+      }
+
+      setSessions((await response.json()).sessions);
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const mfaAction = async (action: string, body: Record<string, string> = {}) => {
+    setBusy(true);
+    try {
+      const response = await fetch('/api/account/mfa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...body }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Something went wrong');
+      }
+
+      setError(null);
+      setCode('');
+      return data;
+    } catch (err) {
+      setError(err.message);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const data = await mfaAction('start');
+    if (data) {
+      setEnrolment(data);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = await mfaAction('confirm', { code });
+    if (data) {
+      setEnrolment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      await fetchMfa();
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const data = await mfaAction('regenerate-recovery-codes', { code });
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      await fetchMfa();
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Turn off two-factor authentication? Your account will only be protected by your password.')) {
+      return;
+    }
+
+    if (await mfaAction('disable', { code })) {
+      setNotice('Two-factor authentication is off');
+      await fetchMfa();
+    }
+  };
+
+  const handleRecoveryCodesSaved = async () => {
+    setRecoveryCodes(null);
+
+    // Clears the flag that keeps users who had to enrol on this page
+    if (mustEnrol) {
+      await update({ mfaEnrolled: true });
+      router.push('/');
+    }
+  };
+
+  const handleRevoke = async (row: SessionRow) => {
+    try {
+      const response = await fetch(`/api/account/sessions/${row.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to sign out the session');
+      }
+
+      if (row.current) {
+        await signOut({ callbackUrl: '/auth/login' });
+        return;
+      }
+
+      setNotice(`Signed out ${describeDevice(row.userAgent)}`);
+      await fetchSessions();
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      const response = await fetch('/api/account/sessions', { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to sign out other sessions');
+      }
+
+      const { revoked } = await response.json();
+      setNotice(`Signed out ${revoked} other session${revoked === 1 ? '' : 's'}`);
+      await fetchSessions();
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-3xl mx-auto">
+        <h1 className="text-2xl font-bold mb-6">Sign-in & Security</h1>
+
+        {mustEnrol && (
+          <div className="mb-4 p-3 bg-yellow-100 border border-yellow-300 text-yellow-800 rounded-md">
+            Your organization requires two-factor authentication. Set it up to carry on using RXautomate.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+            <p className="font-medium">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {notice && (
+          <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-800 rounded-md">
+            {notice}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-lg font-medium text-gray-900">Two-factor authentication</h2>
+
+          {isCis2User ? (
+            <p className="text-sm text-gray-600 mt-2">
+              You signed in with your NHS smartcard, which already counts as a second factor.
+            </p>
+          ) : recoveryCodes ? (
+            <div className="mt-4">
+              <p className="text-sm text-gray-600">
+                Keep these recovery codes somewhere safe. Each one signs you in once if you don't have your phone. They won't be shown again.
+              </p>
+              <ul className="mt-4 grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <li key={recoveryCode} className="px-3 py-2 bg-gray-50 border border-gray-200 rounded">{recoveryCode}</li>
+                ))}
+              </ul>
+              <button
+                className="mt-4 px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue"
+                onClick={handleRecoveryCodesSaved}
+              >
+                I've saved my recovery codes
+              </button>
+            </div>
+          ) : enrolment ? (
+            <form onSubmit={handleConfirm} className="mt-4 space-y-4">
+              <p className="text-sm text-gray-600">
+                Add RXautomate to an authenticator app such as Microsoft Authenticator or Google Authenticator by entering this key:
+              </p>
+              <p className="font-mono text-lg tracking-wider break-all">
+                {enrolment.secret.match(/.{1,4}/g)!.join(' ')}
+              </p>
+              <p className="text-sm">
+                <a href={enrolment.otpauthUri} className="text-nhs-blue hover:text-nhs-dark-blue">
+                  Open in an authenticator app on this device
+                </a>
+              </p>
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                  Enter the 6-digit code the app shows
+                </label>
+                <input
+                  id="code"
+                  className={`mt-1 max-w-xs ${inputClassName}`}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                disabled={busy}
+              >
+                {busy ? 'Checking...' : 'Turn on'}
+              </button>
+            </form>
+          ) : mfa?.enabled ? (
+            <div className="mt-2">
+              <p className="text-sm text-gray-600">
+                On since {new Date(mfa.enabledAt!).toLocaleDateString('en-GB')}. {mfa.recoveryCodesRemaining} recovery code{mfa.recoveryCodesRemaining === 1 ? '' : 's'} left.
+              </p>
+              <div className="mt-4 flex flex-wrap items-end gap-3">
+                <div>
+                  <label htmlFor="current-code" className="block text-sm font-medium text-gray-700">
+                    Code from your app
+                  </label>
+                  <input
+                    id="current-code"
+                    className={`mt-1 ${inputClassName}`}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                </div>
+                <button
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  onClick={handleRegenerate}
+                  disabled={busy || !code}
+                >
+                  New recovery codes
+                </button>
+                {!mfa.required && (
+                  <button
+                    className="px-4 py-2 border border-red-300 rounded-md text-red-700 hover:bg-red-50 disabled:opacity-50"
+                    onClick={handleDisable}
+                    disabled={busy || !code}
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : mfa ? (
+            <div className="mt-2">
+              <p className="text-sm text-gray-600">
+                {mfa.required
+                  ? 'Your organization requires a code from an authenticator app as well as your password.'
+                  : 'Protect your account with a code from an authenticator app as well as your password.'}
+              </p>
+              <button
+                className="mt-4 px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                onClick={handleStart}
+                disabled={busy}
+              >
+                Set up
+              </button>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="p-6 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Your active sessions</h2>
+              <p className="text-sm text-gray-600 mt-1">Sign out anywhere you don't recognise or no longer use.</p>
+            </div>
+            {sessions.some((row) => !row.current) && (
+              <button className="text-sm font-medium text-red-600 hover:text-red-800" onClick={handleRevokeOthers}>
+                Sign out all other sessions
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-gray-200 border-t">
+            {sessions.map((row) => (
+              <li key={row.id} className="px-6 py-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {describeDevice(row.userAgent)}
+                    {row.current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">This device</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {row.provider === 'cis2' ? 'Smartcard' : 'Password'} · {row.ipAddress || 'Unknown address'} · signed in {formatDateTime(row.createdAt)} · last active {formatDateTime(row.lastActiveAt)}
+                  </p>
+                </div>
+                <button className="text-sm font-medium text-red-600 hover:text-red-800" onClick={() => handleRevoke(row)}>
+                  Sign out
+                </button>
+              </li>
+            ))}
+            {sessions.length === 0 && (
+              <li className="px-6 py-4 text-center text-gray-500">No sessions recorded.</li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../../providers/auth-provider';
+
+interface ConsentNotice {
+  id: string;
+  consentType: string;
+  version: number;
+  title: string;
+  text: string;
+  publishedById: string | null;
+  publishedAt: string;
+}
+
+const CONSENT_TYPE_LABELS: Record<string, string> = {
+  MARKETING: 'Marketing',
+  REMINDER: 'Reminders',
+  DATA_SHARING: 'Data sharing',
+  VACCINATION: 'Vaccinations',
+};
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-nhs-blue focus:border-nhs-blue sm:text-sm';
+
+export default function ConsentNoticesPage() {
+  const { session } = useAuth();
+  const [notices, setNotices] = useState<ConsentNotice[]>([]);
+  const [selectedType, setSelectedType] = useState('');
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchNotices();
+  }, []);
+
+  // Newest version first within each type
+  const versions = notices.filter((notice) => notice.consentType === selectedType);
+  const current = versions[0];
+
+  // Load the current wording into the form
+  useEffect(() => {
+    setTitle(current?.title || '');
+    setText(current?.text || '');
+  }, [selectedType, notices]);
+
+  const fetchNotices = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/consent-notices');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch consent notices');
+      }
+
+      applyNotices((await response.json()).notices);
+      setError(null);
+    } catch (err) {
+      setError(err.message || 'An error occurred while fetching consent notices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyNotices = (rows: ConsentNotice[]) => {
+    setNotices(rows);
+    if (!selectedType && rows.length > 0) {
+      setSelectedType(rows[0].consentType);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!current) {
+      return;
+    }
+
+    if (!window.confirm(
+      `Publish this as version ${current.version + 1}? Consents given to earlier wording stay in force, ` +
+      'but those patients will be shown as needing to be asked again.'
+    )) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/consent-notices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ consentType: selectedType, title, text }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to publish consent notice');
+      }
+
+      applyNotices(data.notices);
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const types = Array.from(new Set(notices.map((notice) => notice.consentType)));
+  const changed = Boolean(current) && (title.trim() !== current.title || text.trim() !== current.text);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">Consent Notices</h2>
+        <p className="text-gray-600 mt-1">
+          What patients of {session?.user?.organizationName || 'your organization'} are shown when asked for consent.
+          Every consent records the version the patient answered, so published wording can&apos;t be edited; changes are published as a new version.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+          <p className="font-medium">Error</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden lg:flex">
+        <div className="lg:w-72 border-b lg:border-b-0 lg:border-r">
+          <ul className="divide-y divide-gray-200">
+            {types.map((type) => {
+              const latest = notices.find((notice) => notice.consentType === type)!;
+
+              return (
+                <li key={type}>
+                  <button
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                      type === selectedType ? 'bg-gray-100' : ''
+                    }`}
+                    onClick={() => setSelectedType(type)}
+                  >
+                    <div className="text-sm font-medium text-gray-900">{CONSENT_TYPE_LABELS[type] || type}</div>
+                    <div className="text-sm text-gray-500">
+                      Version {latest.version} · {new Date(latest.publishedAt).toLocaleDateString('en-GB')}
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {!loading && types.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No consent notices found.
+            </div>
+          )}
+        </div>
+
+        {current && (
+          <div className="flex-1 p-6">
+            <div className="mb-4">
+              <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+                Title
+              </label>
+              <input
+                id="title"
+                className={`mt-1 ${inputClassName}`}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+
+            <div className="mb-4">
+              <label htmlFor="text" className="block text-sm font-medium text-gray-700">
+                Wording
+              </label>
+              <textarea
+                id="text"
+                rows={6}
+                className={`mt-1 ${inputClassName}`}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                onClick={handlePublish}
+                disabled={saving || loading || !changed}
+              >
+                {saving ? 'Publishing...' : `Publish as Version ${current.version + 1}`}
+              </button>
+            </div>
+
+            {versions.length > 1 && (
+              <div className="mt-6 border-t pt-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Earlier Versions</h3>
+                <ul className="space-y-3">
+                  {versions.slice(1).map((notice) => (
+                    <li key={notice.id} className="text-sm">
+                      <p className="text-gray-500">
+                        Version {notice.version}, published {new Date(notice.publishedAt).toLocaleDateString('en-GB')}
+                      </p>
+                      <p className="font-medium text-gray-800">{notice.title}</p>
+                      <p className="text-gray-600 whitespace-pre-line">{notice.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
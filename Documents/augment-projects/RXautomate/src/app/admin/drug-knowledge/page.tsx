@@ -0,0 +1,458 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../../providers/auth-provider';
+
+type RuleKind = 'interaction' | 'contraindication' | 'allergen' | 'therapeuticClass';
+
+interface KnowledgeDataset {
+  id: string;
+  version: string;
+  source: string;
+  isActive: boolean;
+  importedAt: string;
+}
+
+interface LocalRules {
+  interactions: any[];
+  contraindications: any[];
+  allergens: any[];
+  therapeuticClasses: any[];
+}
+
+const emptyRule = {
+  drugCode: '',
+  drugName: '',
+  interactingDrugCode: '',
+  interactingDrugName: '',
+  conditionCode: '',
+  conditionName: '',
+  allergenClass: '',
+  therapeuticClass: '',
+  classCode: '',
+  severity: 'HIGH',
+  description: '',
+};
+
+const ruleKindLabels: Record<RuleKind, string> = {
+  interaction: 'Drug interaction',
+  contraindication: 'Contraindication',
+  allergen: 'Allergen class',
+  therapeuticClass: 'Therapeutic class',
+};
+
+const inputClassName = 'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-nhs-blue focus:border-nhs-blue sm:text-sm';
+
+export default function DrugKnowledgePage() {
+  const { session } = useAuth();
+  const [datasets, setDatasets] = useState<KnowledgeDataset[]>([]);
+  const [localRules, setLocalRules] = useState<LocalRules>({ interactions: [], contraindications: [], allergens: [], therapeuticClasses: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [newRuleKind, setNewRuleKind] = useState<RuleKind>('interaction');
+  const [newRule, setNewRule] = useState(emptyRule);
+
+  useEffect(() => {
+    fetchKnowledgeBase();
+  }, []);
+
+  const fetchKnowledgeBase = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/drug-knowledge');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch drug knowledge rules');
+      }
+
+      const data = await response.json();
+      setDatasets(data.datasets);
+      setLocalRules(data.localRules);
+      setError(null);
+    } catch (err) {
+      setError(err.message || 'An error occurred while fetching drug knowledge rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Handle form input changes
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setNewRule({
+      ...newRule,
+      [name]: value,
+    });
+  };
+
+  // Only send the fields that belong to the selected kind of rule
+  const buildRule = () => {
+    const codes = (value: string) => value || undefined;
+
+    switch (newRuleKind) {
+      case 'interaction':
+        return {
+          drugCode: codes(newRule.drugCode),
+          drugName: newRule.drugName,
+          interactingDrugCode: codes(newRule.interactingDrugCode),
+          interactingDrugName: newRule.interactingDrugName,
+          severity: newRule.severity,
+          description: newRule.description,
+        };
+      case 'contraindication':
+        return {
+          drugCode: codes(newRule.drugCode),
+          drugName: newRule.drugName,
+          conditionCode: codes(newRule.conditionCode),
+          conditionName: newRule.conditionName,
+          severity: newRule.severity,
+          description: newRule.description,
+        };
+      case 'allergen':
+        return {
+          drugCode: codes(newRule.drugCode),
+          drugName: newRule.drugName,
+          allergenClass: newRule.allergenClass,
+        };
+      case 'therapeuticClass':
+        return {
+          drugCode: codes(newRule.drugCode),
+          drugName: newRule.drugName,
+          therapeuticClass: newRule.therapeuticClass,
+          classCode: codes(newRule.classCode),
+        };
+    }
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch('/api/admin/drug-knowledge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind: newRuleKind, rule: buildRule() }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || data.error || 'Failed to add rule');
+      }
+
+      setNewRule(emptyRule);
+      setShowAddModal(false);
+      await fetchKnowledgeBase();
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  // Deactivate a local rule
+  const handleDeactivate = async (kind: RuleKind, id: string) => {
+    try {
+      const response = await fetch(`/api/admin/drug-knowledge/${id}?kind=${kind}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to deactivate rule');
+      }
+
+      await fetchKnowledgeBase();
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const activeDataset = datasets.find((dataset) => dataset.isActive);
+
+  const rows = [
+    ...localRules.interactions.map((rule) => ({
+      kind: 'interaction' as RuleKind,
+      id: rule.id,
+      drug: rule.drugName,
+      detail: `Interacts with ${rule.interactingDrugName}`,
+      severity: rule.severity,
+      description: rule.description,
+    })),
+    ...localRules.contraindications.map((rule) => ({
+      kind: 'contraindication' as RuleKind,
+      id: rule.id,
+      drug: rule.drugName,
+      detail: `Contraindicated in ${rule.conditionName}`,
+      severity: rule.severity,
+      description: rule.description,
+    })),
+    ...localRules.allergens.map((rule) => ({
+      kind: 'allergen' as RuleKind,
+      id: rule.id,
+      drug: rule.drugName,
+      detail: `Allergen class: ${rule.allergenClass}`,
+      severity: 'CRITICAL',
+      description: '',
+    })),
+    ...localRules.therapeuticClasses.map((rule) => ({
+      kind: 'therapeuticClass' as RuleKind,
+      id: rule.id,
+      drug: rule.drugName,
+      detail: `Therapeutic class: ${rule.therapeuticClass}${rule.classCode ? ` (BNF ${rule.classCode})` : ''}`,
+      severity: 'MEDIUM',
+      description: '',
+    })),
+  ];
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Drug Knowledge Base</h2>
+          <p className="text-gray-600 mt-1">
+            {activeDataset
+              ? `Active dataset: ${activeDataset.version} (${activeDataset.source})`
+              : 'No dataset imported. Run npm run kb:import to load one.'}
+          </p>
+        </div>
+        <button
+          className="mt-4 sm:mt-0 px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue"
+          onClick={() => setShowAddModal(true)}
+        >
+          Add Local Rule
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+          <p className="font-medium">Error</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b">
+          <h3 className="text-lg font-medium text-gray-900">Local Rules</h3>
+          <p className="text-sm text-gray-500">
+            Applied to every pharmacy in {session?.user?.organizationName || 'your organization'} alongside the active dataset
+          </p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Drug
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rule
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Severity
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map((row) => (
+                <tr key={`${row.kind}-${row.id}`} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{row.drug}</div>
+                    <div className="text-sm text-gray-500">{ruleKindLabels[row.kind]}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-gray-900">{row.detail}</div>
+                    {row.description && <div className="text-sm text-gray-500">{row.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      row.severity === 'CRITICAL' || row.severity === 'HIGH'
+                        ? 'bg-red-100 text-red-800'
+                        : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {row.severity}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      className="text-nhs-blue hover:text-nhs-dark-blue"
+                      onClick={() => handleDeactivate(row.kind, row.id)}
+                    >
+                      Deactivate
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {!loading && rows.length === 0 && (
+          <div className="px-6 py-4 text-center text-gray-500">
+            No local rules have been added.
+          </div>
+        )}
+      </div>
+
+      {/* Add Rule Modal */}
+      {showAddModal && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+              <div className="absolute inset-0 bg-gray-500 opacity-75"></div>
+            </div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <form onSubmit={handleSubmit}>
+                <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">Add Local Rule</h3>
+                  <div className="mt-4 space-y-4">
+                    <div>
+                      <label htmlFor="kind" className="block text-sm font-medium text-gray-700">
+                        Rule Type
+                      </label>
+                      <select
+                        id="kind"
+                        className={inputClassName}
+                        value={newRuleKind}
+                        onChange={(e) => setNewRuleKind(e.target.value as RuleKind)}
+                      >
+                        <option value="interaction">Drug interaction</option>
+                        <option value="contraindication">Contraindication</option>
+                        <option value="allergen">Allergen class</option>
+                        <option value="therapeuticClass">Therapeutic class</option>
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="drugName" className="block text-sm font-medium text-gray-700">
+                          Drug Name
+                        </label>
+                        <input type="text" name="drugName" id="drugName" className={inputClassName} value={newRule.drugName} onChange={handleInputChange} required />
+                      </div>
+                      <div>
+                        <label htmlFor="drugCode" className="block text-sm font-medium text-gray-700">
+                          dm+d Code
+                        </label>
+                        <input type="text" name="drugCode" id="drugCode" className={inputClassName} value={newRule.drugCode} onChange={handleInputChange} />
+                      </div>
+                    </div>
+
+                    {newRuleKind === 'interaction' && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="interactingDrugName" className="block text-sm font-medium text-gray-700">
+                            Interacting Drug
+                          </label>
+                          <input type="text" name="interactingDrugName" id="interactingDrugName" className={inputClassName} value={newRule.interactingDrugName} onChange={handleInputChange} required />
+                        </div>
+                        <div>
+                          <label htmlFor="interactingDrugCode" className="block text-sm font-medium text-gray-700">
+                            dm+d Code
+                          </label>
+                          <input type="text" name="interactingDrugCode" id="interactingDrugCode" className={inputClassName} value={newRule.interactingDrugCode} onChange={handleInputChange} />
+                        </div>
+                      </div>
+                    )}
+
+                    {newRuleKind === 'contraindication' && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="conditionName" className="block text-sm font-medium text-gray-700">
+                            Condition
+                          </label>
+                          <input type="text" name="conditionName" id="conditionName" className={inputClassName} value={newRule.conditionName} onChange={handleInputChange} required />
+                        </div>
+                        <div>
+                          <label htmlFor="conditionCode" className="block text-sm font-medium text-gray-700">
+                            SNOMED Code
+                          </label>
+                          <input type="text" name="conditionCode" id="conditionCode" className={inputClassName} value={newRule.conditionCode} onChange={handleInputChange} />
+                        </div>
+                      </div>
+                    )}
+
+                    {newRuleKind === 'therapeuticClass' && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="therapeuticClass" className="block text-sm font-medium text-gray-700">
+                            Therapeutic Class
+                          </label>
+                          <input type="text" name="therapeuticClass" id="therapeuticClass" className={inputClassName} value={newRule.therapeuticClass} onChange={handleInputChange} required />
+                        </div>
+                        <div>
+                          <label htmlFor="classCode" className="block text-sm font-medium text-gray-700">
+                            BNF Section
+                          </label>
+                          <input type="text" name="classCode" id="classCode" className={inputClassName} value={newRule.classCode} onChange={handleInputChange} />
+                        </div>
+                      </div>
+                    )}
+
+                    {newRuleKind === 'allergen' && (
+                      <div>
+                        <label htmlFor="allergenClass" className="block text-sm font-medium text-gray-700">
+                          Allergen Class
+                        </label>
+                        <input type="text" name="allergenClass" id="allergenClass" className={inputClassName} value={newRule.allergenClass} onChange={handleInputChange} required />
+                      </div>
+                    )}
+
+                    {(newRuleKind === 'interaction' || newRuleKind === 'contraindication') && (
+                      <>
+                        <div>
+                          <label htmlFor="severity" className="block text-sm font-medium text-gray-700">
+                            Severity
+                          </label>
+                          <select name="severity" id="severity" className={inputClassName} value={newRule.severity} onChange={handleInputChange}>
+                            <option value="CRITICAL">Critical</option>
+                            <option value="HIGH">High</option>
+                            <option value="MEDIUM">Medium</option>
+                            <option value="LOW">Low</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                            Description
+                          </label>
+                          <textarea
+                            name="description"
+                            id="description"
+                            rows={3}
+                            className={inputClassName}
+                            value={newRule.description}
+                            onChange={handleInputChange}
+                            required={newRuleKind === 'interaction'}
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                  <button
+                    type="submit"
+                    className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-nhs-blue text-base font-medium text-white hover:bg-nhs-dark-blue focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-nhs-blue sm:ml-3 sm:w-auto sm:text-sm"
+                  >
+                    Add Rule
+                  </button>
+                  <button
+                    type="button"
+                    className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-nhs-blue sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+                    onClick={() => setShowAddModal(false)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -239,6 +239,107 @@ export default function AdminLayout({
                   </svg>
                   NHS API Monitor
                 </Link>
+
+
+                <Link
+                  href="/admin/drug-knowledge"
+                  className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                    isActive('/admin/drug-knowledge')
+                      ? 'bg-nhs-blue text-white'
+                      : 'text-white hover:bg-nhs-blue'
+                  }`}
+                  onClick={() => setSidebarOpen(false)}
+                >
+                  <svg
+                    className="w-5 h-5 mr-3"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"
+                    />
+                  </svg>
+                  Drug Knowledge Base
+                </Link>
+
+                <Link
+                  href="/admin/validation-rules"
+                  className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                    isActive('/admin/validation-rules')
+                      ? 'bg-nhs-blue text-white'
+                      : 'text-white hover:bg-nhs-blue'
+                  }`}
+                  onClick={() => setSidebarOpen(false)}
+                >
+                  <svg
+                    className="w-5 h-5 mr-3"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                    />
+                  </svg>
+                  Validation Rules
+                </Link>
+
+                <Link
+                  href="/admin/message-templates"
+                  className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                    isActive('/admin/message-templates')
+                      ? 'bg-nhs-blue text-white'
+                      : 'text-white hover:bg-nhs-blue'
+                  }`}
+                  onClick={() => setSidebarOpen(false)}
+                >
+                  <svg
+                    className="w-5 h-5 mr-3"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                    />
+                  </svg>
+                  Message Templates
+                </Link>
+
+                <Link
+                  href="/admin/consent-notices"
+                  className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                    isActive('/admin/consent-notices')
+                      ? 'bg-nhs-blue text-white'
+                      : 'text-white hover:bg-nhs-blue'
+                  }`}
+                  onClick={() => setSidebarOpen(false)}
+                >
+                  <svg
+                    className="w-5 h-5 mr-3"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  Consent Notices
+                </Link>
               </nav>
             </div>
           </div>
@@ -422,6 +523,103 @@ export default function AdminLayout({
               </svg>
               NHS API Monitor
             </Link>
+
+
+            <Link
+              href="/admin/drug-knowledge"
+              className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                isActive('/admin/drug-knowledge')
+                  ? 'bg-nhs-blue text-white'
+                  : 'text-white hover:bg-nhs-blue'
+              }`}
+            >
+              <svg
+                className="w-5 h-5 mr-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"
+                />
+              </svg>
+              Drug Knowledge Base
+            </Link>
+
+            <Link
+              href="/admin/validation-rules"
+              className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                isActive('/admin/validation-rules')
+                  ? 'bg-nhs-blue text-white'
+                  : 'text-white hover:bg-nhs-blue'
+              }`}
+            >
+              <svg
+                className="w-5 h-5 mr-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                />
+              </svg>
+              Validation Rules
+            </Link>
+
+            <Link
+              href="/admin/message-templates"
+              className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                isActive('/admin/message-templates')
+                  ? 'bg-nhs-blue text-white'
+                  : 'text-white hover:bg-nhs-blue'
+              }`}
+            >
+              <svg
+                className="w-5 h-5 mr-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+                />
+              </svg>
+              Message Templates
+            </Link>
+
+            <Link
+              href="/admin/consent-notices"
+              className={`flex items-center px-4 py-2 text-sm font-medium rounded-md ${
+                isActive('/admin/consent-notices')
+                  ? 'bg-nhs-blue text-white'
+                  : 'text-white hover:bg-nhs-blue'
+              }`}
+            >
+              <svg
+                className="w-5 h-5 mr-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                />
+              </svg>
+              Consent Notices
+            </Link>
           </nav>
         </div>
       </div>
@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../../providers/auth-provider';
+
+interface MessageTemplateRow {
+  purpose: string;
+  channel: string;
+  subject: string | null;
+  body: string;
+  placeholders: string[];
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+const PURPOSE_LABELS: Record<string, string> = {
+  PRESCRIPTION_READY: 'Prescription ready',
+  PRESCRIPTION_REMINDER: 'Repeat prescription reminder',
+  OWING_READY: 'Owing ready',
+  APPOINTMENT_REMINDER: 'Appointment reminder',
+  ADHERENCE_REMINDER: 'Refill reminder',
+  CONSENT_REQUEST: 'Consent request',
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  SMS: 'SMS',
+  EMAIL: 'Email',
+  LETTER: 'Letter',
+};
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-nhs-blue focus:border-nhs-blue sm:text-sm';
+
+const templateKey = (template: { purpose: string; channel: string }) => `${template.purpose}:${template.channel}`;
+
+export default function MessageTemplatesPage() {
+  const { session } = useAuth();
+  const [templates, setTemplates] = useState<MessageTemplateRow[]>([]);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const selected = templates.find((template) => templateKey(template) === selectedKey);
+
+  // Load the selected template into the form
+  useEffect(() => {
+    setSubject(selected?.subject || '');
+    setBody(selected?.body || '');
+  }, [selectedKey, templates]);
+
+  const fetchTemplates = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/message-templates');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch message templates');
+      }
+
+      applyTemplates((await response.json()).templates);
+      setError(null);
+    } catch (err) {
+      setError(err.message || 'An error occurred while fetching message templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyTemplates = (rows: MessageTemplateRow[]) => {
+    setTemplates(rows);
+    if (!selectedKey && rows.length > 0) {
+      setSelectedKey(templateKey(rows[0]));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/message-templates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          purpose: selected.purpose,
+          channel: selected.channel,
+          subject: selected.channel === 'SMS' ? null : subject,
+          body,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to save message template');
+      }
+
+      applyTemplates(data.templates);
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selected) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(
+        `/api/admin/message-templates?purpose=${selected.purpose}&channel=${selected.channel}`,
+        { method: 'DELETE' }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to reset message template');
+      }
+
+      applyTemplates(data.templates);
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">Message Templates</h2>
+        <p className="text-gray-600 mt-1">
+          Wording of the messages {session?.user?.organizationName || 'your organization'} sends to patients.
+          Patients are messaged on their preferred channel, then SMS, email and letter until one gets through.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+          <p className="font-medium">Error</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden lg:flex">
+        <div className="lg:w-72 border-b lg:border-b-0 lg:border-r">
+          <ul className="divide-y divide-gray-200">
+            {templates.map((template) => (
+              <li key={templateKey(template)}>
+                <button
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                    templateKey(template) === selectedKey ? 'bg-gray-100' : ''
+                  }`}
+                  onClick={() => setSelectedKey(templateKey(template))}
+                >
+                  <div className="text-sm font-medium text-gray-900">{PURPOSE_LABELS[template.purpose] || template.purpose}</div>
+                  <div className="text-sm text-gray-500">
+                    {CHANNEL_LABELS[template.channel] || template.channel}
+                    {template.isDefault ? ' · Default' : ' · Customised'}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {!loading && templates.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No message templates found.
+            </div>
+          )}
+        </div>
+
+        {selected && (
+          <div className="flex-1 p-6">
+            {selected.channel !== 'SMS' && (
+              <div className="mb-4">
+                <label htmlFor="subject" className="block text-sm font-medium text-gray-700">
+                  {selected.channel === 'EMAIL' ? 'Subject' : 'Heading'}
+                </label>
+                <input
+                  id="subject"
+                  className={`mt-1 ${inputClassName}`}
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label htmlFor="body" className="block text-sm font-medium text-gray-700">
+                Message
+              </label>
+              <textarea
+                id="body"
+                rows={selected.channel === 'SMS' ? 4 : 10}
+                className={`mt-1 ${inputClassName}`}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+              />
+              {selected.channel === 'SMS' && (
+                <p className="mt-1 text-sm text-gray-500">
+                  {body.length} characters; messages over 160 characters are charged as more than one text
+                </p>
+              )}
+            </div>
+
+            <p className="text-sm text-gray-500 mb-4">
+              Placeholders: {selected.placeholders.map((name) => `((${name}))`).join(', ')}
+            </p>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                onClick={handleReset}
+                disabled={saving || loading || selected.isDefault}
+              >
+                Reset to Default
+              </button>
+              <button
+                className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                onClick={handleSave}
+                disabled={saving || loading}
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
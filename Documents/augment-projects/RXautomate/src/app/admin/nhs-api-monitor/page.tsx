@@ -16,7 +16,7 @@ interface AuditLogEntry {
 }
 
 export default function NHSApiMonitorPage() {
-  const { data: session, status } = useSession();
+  const { status } = useSession();
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -30,11 +30,6 @@ export default function NHSApiMonitorPage() {
     redirect('/auth/signin');
   }
 
-  // Redirect if not an admin
-  if (session?.user && !['SUPER_ADMIN', 'ORG_ADMIN'].includes(session.user.role as string)) {
-    redirect('/dashboard');
-  }
-
   useEffect(() => {
     fetchAuditLogs();
   }, [filter, dateRange, page]);
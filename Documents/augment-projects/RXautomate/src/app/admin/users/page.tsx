@@ -0,0 +1,555 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../../providers/auth-provider';
+import { PHARMACY_ROLES } from '../../../lib/permissions';
+
+interface PharmacyOption {
+  id: string;
+  name: string;
+}
+
+interface UserPharmacy {
+  pharmacyId: string;
+  role: string;
+  pharmacy: { name: string };
+}
+
+interface UserRow {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  status: 'INVITED' | 'ACTIVE' | 'DEACTIVATED';
+  lastLogin: string | null;
+  mfaEnabledAt: string | null;
+  lockedUntil: string | null;
+  pharmacies: UserPharmacy[];
+}
+
+interface MfaPolicy {
+  mfaRequired: boolean;
+  mfaRequiredRoles: string[];
+  platformRequiredRoles: string[];
+}
+
+interface UserForm {
+  email: string;
+  name: string;
+  role: string;
+  // pharmacyId -> PharmacyRole, for the pharmacies the user works at
+  pharmacies: Record<string, string>;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  SUPER_ADMIN: 'Super admin',
+  ORG_ADMIN: 'Organization admin',
+  PHARMACY_ADMIN: 'Pharmacy admin',
+  PHARMACY_STAFF: 'Pharmacy staff',
+};
+
+const PHARMACY_ROLE_LABELS: Record<string, string> = {
+  ADMIN: 'Admin',
+  PHARMACIST: 'Pharmacist',
+  TECHNICIAN: 'Technician',
+  STAFF: 'Staff',
+};
+
+const STATUS_STYLES: Record<UserRow['status'], string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  INVITED: 'bg-yellow-100 text-yellow-800',
+  DEACTIVATED: 'bg-red-100 text-red-800',
+};
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-nhs-blue focus:border-nhs-blue sm:text-sm';
+
+const emptyForm: UserForm = { email: '', name: '', role: 'PHARMACY_STAFF', pharmacies: {} };
+
+export default function UsersPage() {
+  const { session } = useAuth();
+  const isSuperAdmin = session?.user?.role === 'SUPER_ADMIN';
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [pharmacies, setPharmacies] = useState<PharmacyOption[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  // null: no form open, '': inviting, otherwise the id of the user being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<UserForm>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [mfaPolicy, setMfaPolicy] = useState<MfaPolicy | null>(null);
+
+  useEffect(() => {
+    fetchUsers();
+    fetchPharmacies();
+    fetchMfaPolicy();
+  }, []);
+
+  const fetchUsers = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/users');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch users');
+      }
+
+      setUsers((await response.json()).users);
+      setError(null);
+    } catch (err) {
+      setError(err.message || 'An error occurred while fetching users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPharmacies = async () => {
+    try {
+      const response = await fetch('/api/admin/pharmacies');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch pharmacies');
+      }
+
+      const data = await response.json();
+      setPharmacies(data.pharmacies);
+    } catch (err) {
+      setError(err.message || 'An error occurred while fetching pharmacies');
+    }
+  };
+
+  const fetchMfaPolicy = async () => {
+    try {
+      const response = await fetch('/api/admin/security');
+
+      // Super admins without an organization have no policy of their own to set
+      if (response.ok) {
+        setMfaPolicy(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching MFA policy:', err);
+    }
+  };
+
+  const saveMfaPolicy = async (policy: MfaPolicy) => {
+    try {
+      const response = await fetch('/api/admin/security', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mfaRequired: policy.mfaRequired, mfaRequiredRoles: policy.mfaRequiredRoles }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to save security settings');
+      }
+
+      setMfaPolicy(data);
+      setNotice('Two-factor authentication settings saved');
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const toggleMfaRole = (role: string, checked: boolean) => {
+    const roles = mfaPolicy!.mfaRequiredRoles.filter((r) => r !== role);
+    saveMfaPolicy({ ...mfaPolicy!, mfaRequiredRoles: checked ? [...roles, role] : roles });
+  };
+
+  const isLocked = (user: UserRow) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+  const filteredUsers = users.filter((user) =>
+    user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    user.email.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const openInvite = () => {
+    setForm(emptyForm);
+    setEditingId('');
+  };
+
+  const openEdit = (user: UserRow) => {
+    setForm({
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      pharmacies: Object.fromEntries(user.pharmacies.map((assignment) => [assignment.pharmacyId, assignment.role])),
+    });
+    setEditingId(user.id);
+  };
+
+  const togglePharmacy = (pharmacyId: string, checked: boolean) => {
+    const next = { ...form.pharmacies };
+    if (checked) {
+      next[pharmacyId] = 'STAFF';
+    } else {
+      delete next[pharmacyId];
+    }
+    setForm({ ...form, pharmacies: next });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const assignments = Object.entries(form.pharmacies).map(([pharmacyId, role]) => ({ pharmacyId, role }));
+
+    setSaving(true);
+    try {
+      const response = editingId
+        ? await fetch(`/api/admin/users/${editingId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: form.name, role: form.role, pharmacies: assignments }),
+        })
+        : await fetch('/api/admin/users', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email: form.email, name: form.name, role: form.role, pharmacies: assignments }),
+        });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to save user');
+      }
+
+      setNotice(editingId ? `Saved ${data.user.name}` : `Invitation sent to ${data.user.email}`);
+      setEditingId(null);
+      setError(null);
+      await fetchUsers();
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAction = async (user: UserRow, action: string) => {
+    if (action === 'deactivate' && !confirm(`Deactivate ${user.name}? They'll be signed out straight away.`)) {
+      return;
+    }
+    if (action === 'reset-mfa' && !confirm(`Reset two-factor authentication for ${user.name}? Only do this once you've confirmed who they are.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `Failed to ${action} user`);
+      }
+
+      setNotice({
+        deactivate: `${user.name} has been deactivated`,
+        reactivate: `${user.name} can sign in again`,
+        'reset-password': `Password reset link sent to ${user.email}`,
+        'resend-invitation': `Invitation sent to ${user.email}`,
+        unlock: `${user.name} can try signing in again`,
+        'reset-mfa': `${user.name} will set up two-factor authentication again if it's required`,
+      }[action] || null);
+      setError(null);
+      await fetchUsers();
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const assignableRoles = isSuperAdmin
+    ? Object.keys(ROLE_LABELS)
+    : Object.keys(ROLE_LABELS).filter((role) => role !== 'SUPER_ADMIN');
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Users</h2>
+          <p className="text-gray-600 mt-1">
+            Invite staff to {session?.user?.organizationName || 'your organization'} and choose what they can do at each pharmacy
+          </p>
+        </div>
+        <button
+          className="mt-4 sm:mt-0 px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue"
+          onClick={openInvite}
+        >
+          Invite User
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+          <p className="font-medium">Error</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-800 rounded-md">
+          {notice}
+        </div>
+      )}
+
+      {mfaPolicy && (
+        <div className="mb-6 bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Users signing in with a password need a code from an authenticator app. Smartcard users are already covered.
+          </p>
+          <label className="flex items-center mt-4 text-sm text-gray-900">
+            <input
+              type="checkbox"
+              className="mr-3"
+              checked={mfaPolicy.mfaRequired}
+              onChange={(e) => saveMfaPolicy({ ...mfaPolicy, mfaRequired: e.target.checked })}
+            />
+            Require it of everyone
+          </label>
+          {!mfaPolicy.mfaRequired && (
+            <div className="mt-2 flex flex-wrap gap-x-6 gap-y-2">
+              {assignableRoles.map((role) => (
+                <label key={role} className="flex items-center text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={mfaPolicy.platformRequiredRoles.includes(role) || mfaPolicy.mfaRequiredRoles.includes(role)}
+                    disabled={mfaPolicy.platformRequiredRoles.includes(role)}
+                    onChange={(e) => toggleMfaRole(role, e.target.checked)}
+                  />
+                  {ROLE_LABELS[role]}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="mb-6 bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            {editingId ? `Edit ${form.name}` : 'Invite a user'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                className={`mt-1 ${inputClassName}`}
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                disabled={!!editingId}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                Name
+              </label>
+              <input
+                type="text"
+                id="name"
+                className={`mt-1 ${inputClassName}`}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                Role
+              </label>
+              <select
+                id="role"
+                className={`mt-1 ${inputClassName}`}
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value })}
+              >
+                {assignableRoles.map((role) => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <p className="block text-sm font-medium text-gray-700 mb-2">Pharmacies</p>
+            <div className="divide-y divide-gray-200 border rounded-md">
+              {pharmacies.map((pharmacy) => (
+                <div key={pharmacy.id} className="flex items-center justify-between px-4 py-2">
+                  <label className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      className="mr-3"
+                      checked={pharmacy.id in form.pharmacies}
+                      onChange={(e) => togglePharmacy(pharmacy.id, e.target.checked)}
+                    />
+                    {pharmacy.name}
+                  </label>
+                  {pharmacy.id in form.pharmacies && (
+                    <select
+                      aria-label={`Role at ${pharmacy.name}`}
+                      className="border border-gray-300 rounded-md py-1 px-2 sm:text-sm"
+                      value={form.pharmacies[pharmacy.id]}
+                      onChange={(e) => setForm({ ...form, pharmacies: { ...form.pharmacies, [pharmacy.id]: e.target.value } })}
+                    >
+                      {PHARMACY_ROLES.map((role) => (
+                        <option key={role} value={role}>{PHARMACY_ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ))}
+              {pharmacies.length === 0 && (
+                <p className="px-4 py-2 text-sm text-gray-500">No pharmacies found.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end">
+            <button
+              type="button"
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 mr-3"
+              onClick={() => setEditingId(null)}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : editingId ? 'Save' : 'Send Invitation'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b">
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="Search users..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pharmacies
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredUsers.map((user) => (
+                <tr key={user.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                    <div className="text-sm text-gray-500">{user.email}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-900">{ROLE_LABELS[user.role] || user.role}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    {user.pharmacies.map((assignment) => (
+                      <div key={assignment.pharmacyId} className="text-sm text-gray-900">
+                        {assignment.pharmacy.name}
+                        <span className="text-gray-500"> · {PHARMACY_ROLE_LABELS[assignment.role] || assignment.role}</span>
+                      </div>
+                    ))}
+                    {user.pharmacies.length === 0 && (
+                      <div className="text-sm text-gray-500">None</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[user.status]}`}>
+                      {user.status === 'ACTIVE' ? 'Active' : user.status === 'INVITED' ? 'Invited' : 'Deactivated'}
+                    </span>
+                    {isLocked(user) && (
+                      <span className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                        Locked until {new Date(user.lockedUntil!).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    )}
+                    <div className="text-sm text-gray-500 mt-1">
+                      {user.lastLogin ? `Last signed in ${new Date(user.lastLogin).toLocaleDateString('en-GB')}` : 'Never signed in'}
+                      {user.mfaEnabledAt && ' · 2FA on'}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {user.id !== session?.user?.id && (
+                      <>
+                        <button className="text-nhs-blue hover:text-nhs-dark-blue mr-4" onClick={() => openEdit(user)}>
+                          Edit
+                        </button>
+                        {user.status === 'INVITED' && (
+                          <button className="text-nhs-blue hover:text-nhs-dark-blue mr-4" onClick={() => handleAction(user, 'resend-invitation')}>
+                            Resend invitation
+                          </button>
+                        )}
+                        {user.status === 'ACTIVE' && (
+                          <button className="text-nhs-blue hover:text-nhs-dark-blue mr-4" onClick={() => handleAction(user, 'reset-password')}>
+                            Reset password
+                          </button>
+                        )}
+                        {isLocked(user) && (
+                          <button className="text-nhs-blue hover:text-nhs-dark-blue mr-4" onClick={() => handleAction(user, 'unlock')}>
+                            Unlock
+                          </button>
+                        )}
+                        {user.mfaEnabledAt && (
+                          <button className="text-nhs-blue hover:text-nhs-dark-blue mr-4" onClick={() => handleAction(user, 'reset-mfa')}>
+                            Reset 2FA
+                          </button>
+                        )}
+                        {user.status === 'DEACTIVATED' ? (
+                          <button className="text-nhs-blue hover:text-nhs-dark-blue" onClick={() => handleAction(user, 'reactivate')}>
+                            Reactivate
+                          </button>
+                        ) : (
+                          <button className="text-red-600 hover:text-red-800" onClick={() => handleAction(user, 'deactivate')}>
+                            Deactivate
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!loading && filteredUsers.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No users found.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
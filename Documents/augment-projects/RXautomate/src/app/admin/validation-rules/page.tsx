@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../../providers/auth-provider';
+
+interface RuleOverride {
+  enabled: boolean | null;
+  severity: string | null;
+}
+
+interface ValidationRuleRow {
+  id: string;
+  name: string;
+  description: string;
+  defaultSeverity: string;
+  enabledByDefault: boolean;
+  organization: RuleOverride | null;
+  pharmacy: RuleOverride | null;
+  effective: { enabled: boolean; severity?: string };
+}
+
+interface ThresholdConfig {
+  organization: number | null;
+  pharmacy: number | null;
+  default: number;
+  effective: number;
+}
+
+interface PharmacyOption {
+  id: string;
+  name: string;
+}
+
+const SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const inputClassName = 'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-nhs-blue focus:border-nhs-blue sm:text-sm';
+
+export default function ValidationRulesPage() {
+  const { session } = useAuth();
+  const [pharmacies, setPharmacies] = useState<PharmacyOption[]>([]);
+  const [pharmacyId, setPharmacyId] = useState('');
+  const [rules, setRules] = useState<ValidationRuleRow[]>([]);
+  const [edits, setEdits] = useState<Record<string, RuleOverride>>({});
+  const [threshold, setThreshold] = useState<ThresholdConfig | null>(null);
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPharmacies();
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [pharmacyId]);
+
+  const fetchPharmacies = async () => {
+    try {
+      const response = await fetch('/api/admin/pharmacies');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch pharmacies');
+      }
+
+      const data = await response.json();
+      setPharmacies(data.pharmacies);
+    } catch (err) {
+      setError(err.message || 'An error occurred while fetching pharmacies');
+    }
+  };
+
+  const fetchRules = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/validation-rules${pharmacyId ? `?pharmacyId=${pharmacyId}` : ''}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch validation rules');
+      }
+
+      applyConfig(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err.message || 'An error occurred while fetching validation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load the overrides for the selected scope into the form
+  const applyConfig = (data: { rules: ValidationRuleRow[]; aiConfidenceThreshold: ThresholdConfig }) => {
+    setRules(data.rules);
+    setThreshold(data.aiConfidenceThreshold);
+
+    const scopeThreshold = pharmacyId ? data.aiConfidenceThreshold.pharmacy : data.aiConfidenceThreshold.organization;
+    setThresholdInput(scopeThreshold === null ? '' : String(scopeThreshold));
+
+    setEdits(Object.fromEntries(data.rules.map((rule) => {
+      const override = pharmacyId ? rule.pharmacy : rule.organization;
+      return [rule.id, { enabled: override?.enabled ?? null, severity: override?.severity ?? null }];
+    })));
+  };
+
+  const updateEdit = (ruleId: string, field: keyof RuleOverride, value: string) => {
+    setEdits({
+      ...edits,
+      [ruleId]: {
+        ...edits[ruleId],
+        [field]: value === '' ? null : field === 'enabled' ? value === 'true' : value,
+      },
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/validation-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pharmacyId: pharmacyId || undefined,
+          rules: rules.map((rule) => ({ ruleId: rule.id, ...edits[rule.id] })),
+          aiConfidenceThreshold: thresholdInput === '' ? null : Number(thresholdInput),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to save validation rules');
+      }
+
+      applyConfig(data);
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inheritedLabel = pharmacyId ? 'Inherit from organization' : 'Rule default';
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Validation Rules</h2>
+          <p className="text-gray-600 mt-1">
+            {pharmacyId
+              ? 'Pharmacy settings override the organization settings'
+              : `Settings for every pharmacy in ${session?.user?.organizationName || 'your organization'}`}
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:w-64">
+          <select
+            className={inputClassName}
+            value={pharmacyId}
+            onChange={(e) => setPharmacyId(e.target.value)}
+          >
+            <option value="">Whole organization</option>
+            {pharmacies.map((pharmacy) => (
+              <option key={pharmacy.id} value={pharmacy.id}>{pharmacy.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+          <p className="font-medium">Error</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rule
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Enabled
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Severity
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Effective
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.map((rule) => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                    <div className="text-sm text-gray-500">{rule.description}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <select
+                      className={inputClassName}
+                      value={edits[rule.id]?.enabled === null || edits[rule.id]?.enabled === undefined ? '' : String(edits[rule.id].enabled)}
+                      onChange={(e) => updateEdit(rule.id, 'enabled', e.target.value)}
+                    >
+                      <option value="">{inheritedLabel}</option>
+                      <option value="true">On</option>
+                      <option value="false">Off</option>
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <select
+                      className={inputClassName}
+                      value={edits[rule.id]?.severity || ''}
+                      onChange={(e) => updateEdit(rule.id, 'severity', e.target.value)}
+                    >
+                      <option value="">{inheritedLabel}</option>
+                      {SEVERITIES.map((severity) => (
+                        <option key={severity} value={severity}>{severity}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rule.effective.enabled ? 'On' : 'Off'}
+                    {' · '}
+                    {rule.effective.severity || `Graded by rule (default ${rule.defaultSeverity})`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {!loading && rules.length === 0 && (
+          <div className="px-6 py-4 text-center text-gray-500">
+            No validation rules are registered.
+          </div>
+        )}
+
+        <div className="p-4 border-t flex flex-col sm:flex-row sm:items-end sm:justify-between">
+          <div className="sm:w-64">
+            <label htmlFor="aiConfidenceThreshold" className="block text-sm font-medium text-gray-700">
+              AI confidence threshold (0-1)
+            </label>
+            <input
+              id="aiConfidenceThreshold"
+              type="number"
+              min="0"
+              max="1"
+              step="0.05"
+              className={`mt-1 ${inputClassName}`}
+              placeholder={threshold ? `${inheritedLabel}: ${pharmacyId ? threshold.organization ?? threshold.default : threshold.default}` : ''}
+              value={thresholdInput}
+              onChange={(e) => setThresholdInput(e.target.value)}
+            />
+            {threshold && (
+              <p className="mt-1 text-sm text-gray-500">
+                AI issues below {threshold.effective} confidence are not reported
+              </p>
+            )}
+          </div>
+          <button
+            className="mt-4 sm:mt-0 px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+            onClick={handleSave}
+            disabled={saving || loading}
+          >
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MfaService from '@/services/MfaService';
+import { requireSignedIn } from '@/middleware/require-permission';
+
+/**
+ * GET /api/account/mfa
+ *
+ * The signed-in user's two-factor authentication status
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireSignedIn();
+    if (error) {
+      return error;
+    }
+
+    const status = await MfaService.getStatus(session.user.id);
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error fetching MFA status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch two-factor authentication status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/account/mfa
+ *
+ * Two-factor authentication actions for the signed-in user:
+ * - start: get a new secret to add to an authenticator app
+ * - confirm: turn it on with a code from the app; returns recovery codes
+ * - regenerate-recovery-codes: replace the recovery codes
+ * - disable: turn it off, if not required
+ * Body: { action, code? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { session, error } = await requireSignedIn();
+    if (error) {
+      return error;
+    }
+
+    if (session.user.isCis2User) {
+      return NextResponse.json(
+        { error: 'Smartcard users sign in with CIS2 and don\'t need an authenticator app' },
+        { status: 400 }
+      );
+    }
+
+    const { action, code } = await request.json();
+
+    try {
+      switch (action) {
+        case 'start':
+          return NextResponse.json(await MfaService.startEnrolment(session.user.id));
+
+        case 'confirm':
+          return NextResponse.json(await MfaService.confirmEnrolment(session.user.id, code));
+
+        case 'regenerate-recovery-codes':
+          return NextResponse.json(await MfaService.regenerateRecoveryCodes(session.user.id, code));
+
+        case 'disable':
+          await MfaService.disable(session.user.id, code);
+          return NextResponse.json({ success: true });
+
+        default:
+          return NextResponse.json(
+            { error: `Unknown action: ${action}` },
+            { status: 400 }
+          );
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to update two-factor authentication', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating MFA:', error);
+    return NextResponse.json(
+      { error: 'Failed to update two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
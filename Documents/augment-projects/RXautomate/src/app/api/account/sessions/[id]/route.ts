@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import AuthenticationService from '@/services/AuthenticationService';
+import { requireSignedIn } from '@/middleware/require-permission';
+
+/**
+ * DELETE /api/account/sessions/[id]
+ *
+ * Sign one of the signed-in user's sessions out
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { session, error } = await requireSignedIn();
+    if (error) {
+      return error;
+    }
+
+    try {
+      await AuthenticationService.revokeSession(session.user.id, params.id);
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 404 });
+    }
+  } catch (error) {
+    console.error(`Error signing out session ${params.id}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to sign out session' },
+      { status: 500 }
+    );
+  }
+}
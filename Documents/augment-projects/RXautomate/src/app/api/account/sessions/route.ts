@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import AuthenticationService from '@/services/AuthenticationService';
+import { requireSignedIn } from '@/middleware/require-permission';
+
+/**
+ * GET /api/account/sessions
+ *
+ * Where the signed-in user is signed in; this session is marked current
+ */
+export async function GET() {
+  try {
+    const { session, error } = await requireSignedIn();
+    if (error) {
+      return error;
+    }
+
+    const sessions = await AuthenticationService.listSessions(session.user.id, session.user.sessionId);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/account/sessions
+ *
+ * Sign out everywhere except this session
+ */
+export async function DELETE() {
+  try {
+    const { session, error } = await requireSignedIn();
+    if (error) {
+      return error;
+    }
+
+    const revoked = await AuthenticationService.revokeOtherSessions(session.user.id, session.user.sessionId);
+    return NextResponse.json({ revoked });
+  } catch (error) {
+    console.error('Error signing out other sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out other sessions' },
+      { status: 500 }
+    );
+  }
+}
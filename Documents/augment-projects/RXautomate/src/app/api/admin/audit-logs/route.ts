@@ -1,28 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth/authOptions';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * API endpoint to fetch audit logs with filtering and pagination
+ * Users see their own organization's logs; super admins see every organization's
  */
 export async function GET(request: NextRequest) {
   try {
-    // Verify authentication
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // Verify admin role
-    if (!['SUPER_ADMIN', 'ORG_ADMIN'].includes(session.user.role as string)) {
-      return NextResponse.json(
-        { error: 'Forbidden - Admin access required' },
-        { status: 403 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('audit.read');
+    if (error) {
+      return error;
     }
 
     // Get query parameters
@@ -91,22 +80,16 @@ export async function GET(request: NextRequest) {
       where.action = action;
     }
 
-    // For organization admins, limit to their organization's data
-    if (session.user.role === 'ORG_ADMIN' && session.user.organizationId) {
-      // This is a simplified approach - in a real implementation, you would need to join
-      // with users, patients, or prescriptions to filter by organization
-      where.OR = [
-        {
-          userId: {
-            in: await getUserIdsForOrganization(session.user.organizationId as string),
-          },
-        },
-        {
-          patientId: {
-            in: await getPatientIdsForOrganization(session.user.organizationId as string),
-          },
-        },
-      ];
+    // Only super admins see beyond their own organization, and may narrow to one with ?organizationId=
+    if (session.user.role === 'SUPER_ADMIN') {
+      const organizationId = searchParams.get('organizationId');
+      if (organizationId) {
+        where.organizationId = organizationId;
+      }
+    } else if (session.user.organizationId) {
+      where.organizationId = session.user.organizationId;
+    } else {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
     // Count total logs for pagination
@@ -138,37 +121,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-/**
- * Helper function to get all user IDs for an organization
- */
-async function getUserIdsForOrganization(organizationId: string): Promise<string[]> {
-  const users = await prisma.user.findMany({
-    where: { organizationId },
-    select: { id: true },
-  });
-  return users.map(user => user.id);
-}
-
-/**
- * Helper function to get all patient IDs for an organization
- */
-async function getPatientIdsForOrganization(organizationId: string): Promise<string[]> {
-  const pharmacies = await prisma.pharmacy.findMany({
-    where: { organizationId },
-    select: { id: true },
-  });
-  
-  const pharmacyIds = pharmacies.map(pharmacy => pharmacy.id);
-  
-  const patients = await prisma.patient.findMany({
-    where: {
-      pharmacyId: {
-        in: pharmacyIds,
-      },
-    },
-    select: { id: true },
-  });
-  
-  return patients.map(patient => patient.id);
-}
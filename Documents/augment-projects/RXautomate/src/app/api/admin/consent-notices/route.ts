@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ConsentService from '../../../../services/ConsentService';
+import type { ConsentType } from '../../../../services/OutboundPolicyService';
+import { runWithTenant } from '../../../../lib/db/tenant';
+import { requirePermission } from '../../../../middleware/require-permission';
+
+/**
+ * Org admins can only publish their own organization's notices
+ */
+function resolveOrganizationId(session: any, organizationId?: string | null): string {
+  return session.user.role === 'SUPER_ADMIN' && organizationId
+    ? organizationId
+    : session.user.organizationId;
+}
+
+/**
+ * Run in the organization being edited, which for a super admin may not be their own
+ */
+function inOrganization<T>(session: any, organizationId: string, fn: () => Promise<T>): Promise<T> {
+  return runWithTenant({ organizationId, userId: session.user.id }, fn);
+}
+
+/**
+ * GET /api/admin/consent-notices?organizationId=
+ *
+ * Every version of the organization's consent notices, newest first within each type
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('consent_notice.manage');
+    if (error) {
+      return error;
+    }
+
+    const organizationId = resolveOrganizationId(session, request.nextUrl.searchParams.get('organizationId'));
+    const notices = await inOrganization(session, organizationId, () => ConsentService.getNoticeHistory(organizationId));
+
+    return NextResponse.json({ organizationId, notices });
+  } catch (error) {
+    console.error('Error fetching consent notices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch consent notices' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/consent-notices
+ *
+ * Publish new wording for a consent type as its next version
+ * Body: { consentType, title, text, organizationId? }
+ * Patients who consented to earlier wording are then due to be asked again
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('consent_notice.manage');
+    if (error) {
+      return error;
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const organizationId = resolveOrganizationId(session, body.organizationId);
+
+    try {
+      await inOrganization(session, organizationId, () => ConsentService.publishNotice(
+        organizationId,
+        body.consentType as ConsentType,
+        { title: body.title, text: body.text },
+        session.user.id
+      ));
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid consent notice', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const notices = await inOrganization(session, organizationId, () => ConsentService.getNoticeHistory(organizationId));
+
+    return NextResponse.json({ organizationId, notices }, { status: 201 });
+  } catch (error) {
+    console.error('Error publishing consent notice:', error);
+    return NextResponse.json(
+      { error: 'Failed to publish consent notice' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantPrisma } from '../../../../../lib/db/tenant';
+import AuditService from '../../../../../services/AuditService';
+import { DrugKnowledgeBaseService, KnowledgeRuleKind } from '../../../../../services/DrugKnowledgeBaseService';
+import { requirePermission } from '../../../../../middleware/require-permission';
+import { withAdmin } from '../../../../../middleware/tenant-context';
+
+const RULE_KINDS: KnowledgeRuleKind[] = ['interaction', 'contraindication', 'allergen', 'therapeuticClass'];
+
+/**
+ * DELETE /api/admin/drug-knowledge/:id?kind=interaction
+ *
+ * Deactivate a local rule
+ * The rule is kept so earlier validation results can still be explained
+ */
+export const DELETE = withAdmin(async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('drug_knowledge.manage');
+    if (error) {
+      return error;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const kind = searchParams.get('kind') as KnowledgeRuleKind;
+
+    if (!RULE_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: 'kind must be interaction, contraindication, allergen or therapeuticClass' },
+        { status: 400 }
+      );
+    }
+
+    const organizationId = session.user.role === 'SUPER_ADMIN'
+      ? searchParams.get('organizationId') || session.user.organizationId
+      : session.user.organizationId;
+
+    const knowledgeBase = new DrugKnowledgeBaseService(tenantPrisma);
+    const deactivated = await knowledgeBase.deactivateLocalRule(kind, params.id, organizationId);
+
+    if (!deactivated) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    // Log activity
+    await AuditService.logAction({
+      action: 'DEACTIVATE_DRUG_KNOWLEDGE_RULE' as any,
+      category: 'ADMIN' as any,
+      userId: session.user.id,
+      details: {
+        kind,
+        ruleId: params.id,
+        organizationId,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deactivating drug knowledge rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to deactivate drug knowledge rule' },
+      { status: 500 }
+    );
+  }
+});
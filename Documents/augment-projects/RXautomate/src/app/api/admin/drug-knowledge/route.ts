@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantPrisma } from '../../../../lib/db/tenant';
+import AuditService from '../../../../services/AuditService';
+import { DrugKnowledgeBaseService, KnowledgeRuleKind } from '../../../../services/DrugKnowledgeBaseService';
+import { requirePermission } from '../../../../middleware/require-permission';
+import { withAdmin } from '../../../../middleware/tenant-context';
+
+const RULE_KINDS: KnowledgeRuleKind[] = ['interaction', 'contraindication', 'allergen', 'therapeuticClass'];
+
+/**
+ * GET /api/admin/drug-knowledge
+ *
+ * Get the imported knowledge datasets and the organization's local rules
+ * Super admins can pass an organizationId to see another organization's rules
+ */
+export const GET = withAdmin(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('drug_knowledge.manage');
+    if (error) {
+      return error;
+    }
+
+    const organizationId = session.user.role === 'SUPER_ADMIN'
+      ? request.nextUrl.searchParams.get('organizationId') || session.user.organizationId
+      : session.user.organizationId;
+
+    const knowledgeBase = new DrugKnowledgeBaseService(tenantPrisma);
+    const [datasets, localRules] = await Promise.all([
+      knowledgeBase.listDatasets(),
+      knowledgeBase.listLocalRules(organizationId),
+    ]);
+
+    return NextResponse.json({ datasets, localRules });
+  } catch (error) {
+    console.error('Error fetching drug knowledge rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch drug knowledge rules' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/drug-knowledge
+ *
+ * Add a local interaction, contraindication, allergen or therapeutic class rule
+ * Local rules apply to every pharmacy in the organization
+ */
+export const POST = withAdmin(async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('drug_knowledge.manage');
+    if (error) {
+      return error;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    if (!RULE_KINDS.includes(body.kind) || !body.rule) {
+      return NextResponse.json(
+        { error: 'kind (interaction, contraindication, allergen or therapeuticClass) and rule are required' },
+        { status: 400 }
+      );
+    }
+
+    const organizationId = session.user.role === 'SUPER_ADMIN' && body.organizationId
+      ? body.organizationId
+      : session.user.organizationId;
+
+    const knowledgeBase = new DrugKnowledgeBaseService(tenantPrisma);
+
+    let rule;
+    try {
+      rule = await knowledgeBase.addLocalRule(body.kind, body.rule, organizationId, session.user.id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid rule', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    // Log activity
+    await AuditService.logAction({
+      action: 'CREATE_DRUG_KNOWLEDGE_RULE' as any,
+      category: 'ADMIN' as any,
+      userId: session.user.id,
+      details: {
+        kind: body.kind,
+        ruleId: rule.id,
+        organizationId,
+      },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating drug knowledge rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create drug knowledge rule' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MessagingService, { MessageChannel, MessagePurpose } from '../../../../services/MessagingService';
+import { runWithTenant } from '../../../../lib/db/tenant';
+import { requirePermission } from '../../../../middleware/require-permission';
+
+/**
+ * Org admins can only edit their own organization's templates
+ */
+function resolveOrganizationId(session: any, organizationId?: string | null): string {
+  return session.user.role === 'SUPER_ADMIN' && organizationId
+    ? organizationId
+    : session.user.organizationId;
+}
+
+/**
+ * Run in the organization being edited, which for a super admin may not be their own
+ */
+function inOrganization<T>(session: any, organizationId: string, fn: () => Promise<T>): Promise<T> {
+  return runWithTenant({ organizationId, userId: session.user.id }, fn);
+}
+
+/**
+ * GET /api/admin/message-templates?organizationId=
+ *
+ * Get the organization's patient message templates, with the defaults for any it hasn't changed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('message_template.manage');
+    if (error) {
+      return error;
+    }
+
+    const organizationId = resolveOrganizationId(session, request.nextUrl.searchParams.get('organizationId'));
+    const templates = await inOrganization(session, organizationId, () => MessagingService.getTemplates(organizationId));
+
+    return NextResponse.json({ organizationId, templates });
+  } catch (error) {
+    console.error('Error fetching message templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch message templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/message-templates
+ *
+ * Change the wording for one purpose and channel
+ * Body: { purpose, channel, subject?, body, organizationId? }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('message_template.manage');
+    if (error) {
+      return error;
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const organizationId = resolveOrganizationId(session, body.organizationId);
+
+    try {
+      await inOrganization(session, organizationId, () => MessagingService.saveTemplate(
+        organizationId,
+        body.purpose as MessagePurpose,
+        body.channel as MessageChannel,
+        { subject: body.subject, body: body.body },
+        session.user.id
+      ));
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid message template', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    const templates = await inOrganization(session, organizationId, () => MessagingService.getTemplates(organizationId));
+
+    return NextResponse.json({ organizationId, templates });
+  } catch (error) {
+    console.error('Error updating message template:', error);
+    return NextResponse.json(
+      { error: 'Failed to update message template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/message-templates?purpose=&channel=&organizationId=
+ *
+ * Go back to the default wording for one purpose and channel
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('message_template.manage');
+    if (error) {
+      return error;
+    }
+
+    const { searchParams } = request.nextUrl;
+    const purpose = searchParams.get('purpose') as MessagePurpose | null;
+    const channel = searchParams.get('channel') as MessageChannel | null;
+
+    if (!purpose || !channel) {
+      return NextResponse.json({ error: 'purpose and channel are required' }, { status: 400 });
+    }
+
+    const organizationId = resolveOrganizationId(session, searchParams.get('organizationId'));
+    await inOrganization(session, organizationId, () =>
+      MessagingService.resetTemplate(organizationId, purpose, channel, session.user.id)
+    );
+
+    const templates = await inOrganization(session, organizationId, () => MessagingService.getTemplates(organizationId));
+
+    return NextResponse.json({ organizationId, templates });
+  } catch (error) {
+    console.error('Error resetting message template:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset message template' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '../../../auth/[...nextauth]/route';
-import { prisma } from '../../../../../lib/db/prisma';
+import { tenantPrisma } from '../../../../../lib/db/tenant';
 import AuditService from '../../../../../services/AuditService';
+import { validatePolicy } from '../../../../../services/OutboundPolicyService';
+import { requirePermission } from '../../../../../middleware/require-permission';
+import { withAdmin } from '../../../../../middleware/tenant-context';
 
 /**
  * GET /api/admin/pharmacies/:id
  *
  * Get a specific pharmacy by ID
  */
-export async function GET(
+export const GET = withAdmin(async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Get user session
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('pharmacy.manage');
+    if (error) {
+      return error;
     }
 
     // Get pharmacy
-    const pharmacy = await prisma.pharmacy.findUnique({
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({
       where: {
         id: params.id,
       },
@@ -67,27 +67,26 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/admin/pharmacies/:id
  *
  * Update a specific pharmacy
  */
-export async function PUT(
+export const PUT = withAdmin(async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Get user session
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('pharmacy.manage');
+    if (error) {
+      return error;
     }
 
     // Get existing pharmacy
-    const existingPharmacy = await prisma.pharmacy.findUnique({
+    const existingPharmacy = await tenantPrisma.pharmacy.findUnique({
       where: {
         id: params.id,
       },
@@ -116,6 +115,20 @@ export async function PUT(
       );
     }
 
+    // Quiet hours and weekly cap for patient messages; omitted fields are left alone
+    const policy = {
+      quietHoursStart: body.quietHoursStart !== undefined ? body.quietHoursStart || null : existingPharmacy.quietHoursStart,
+      quietHoursEnd: body.quietHoursEnd !== undefined ? body.quietHoursEnd || null : existingPharmacy.quietHoursEnd,
+      maxMessagesPerWeek: body.maxMessagesPerWeek !== undefined ? body.maxMessagesPerWeek ?? null : existingPharmacy.maxMessagesPerWeek,
+    };
+    const policyErrors = validatePolicy(policy);
+    if (policyErrors.length > 0) {
+      return NextResponse.json(
+        { error: policyErrors.join('; ') },
+        { status: 400 }
+      );
+    }
+
     // Check if organization is being changed
     if (body.organizationId && body.organizationId !== existingPharmacy.organizationId) {
       // Only super admins can change organization
@@ -127,7 +140,7 @@ export async function PUT(
       }
 
       // Check if pharmacy with same slug exists in the new organization
-      const conflictingPharmacy = await prisma.pharmacy.findFirst({
+      const conflictingPharmacy = await tenantPrisma.pharmacy.findFirst({
         where: {
           organizationId: body.organizationId,
           slug: body.slug,
@@ -143,7 +156,7 @@ export async function PUT(
       }
     } else if (body.slug !== existingPharmacy.slug) {
       // Check if pharmacy with same slug exists in the same organization
-      const conflictingPharmacy = await prisma.pharmacy.findFirst({
+      const conflictingPharmacy = await tenantPrisma.pharmacy.findFirst({
         where: {
           organizationId: existingPharmacy.organizationId,
           slug: body.slug,
@@ -160,7 +173,7 @@ export async function PUT(
     }
 
     // Update pharmacy
-    const pharmacy = await prisma.pharmacy.update({
+    const pharmacy = await tenantPrisma.pharmacy.update({
       where: {
         id: params.id,
       },
@@ -172,6 +185,8 @@ export async function PUT(
         phoneNumber: body.phoneNumber,
         email: body.email,
         nhsContractNumber: body.nhsContractNumber,
+        odsCode: body.odsCode || null,
+        ...policy,
         isActive: body.isActive !== undefined ? body.isActive : existingPharmacy.isActive,
         organizationId: body.organizationId || existingPharmacy.organizationId,
       },
@@ -197,7 +212,7 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/admin/pharmacies/:id
@@ -205,25 +220,20 @@ export async function PUT(
  * Delete a specific pharmacy
  * This is a soft delete that sets isActive to false
  */
-export async function DELETE(
+export const DELETE = withAdmin(async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Get user session
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('pharmacy.manage');
+    if (error) {
+      return error;
     }
 
     // Only super admins and org admins can delete pharmacies
-    if (session.user.role !== 'SUPER_ADMIN' && session.user.role !== 'ORG_ADMIN') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
-
     // Get existing pharmacy
-    const existingPharmacy = await prisma.pharmacy.findUnique({
+    const existingPharmacy = await tenantPrisma.pharmacy.findUnique({
       where: {
         id: params.id,
       },
@@ -242,7 +252,7 @@ export async function DELETE(
     }
 
     // Soft delete by setting isActive to false
-    const pharmacy = await prisma.pharmacy.update({
+    const pharmacy = await tenantPrisma.pharmacy.update({
       where: {
         id: params.id,
       },
@@ -270,4 +280,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
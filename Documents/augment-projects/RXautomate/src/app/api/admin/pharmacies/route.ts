@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '../../auth/[...nextauth]/route';
-import { prisma } from '../../../../lib/db/prisma';
+import { tenantPrisma } from '../../../../lib/db/tenant';
 import AuditService from '../../../../services/AuditService';
+import { requirePermission } from '../../../../middleware/require-permission';
+import { withAdmin } from '../../../../middleware/tenant-context';
 
 /**
  * GET /api/admin/pharmacies
@@ -10,13 +10,12 @@ import AuditService from '../../../../services/AuditService';
  * Get all pharmacies for the current user's organization
  * Super admins can see all pharmacies or filter by organization
  */
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async function GET(request: NextRequest) {
   try {
-    // Get user session
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('pharmacy.manage');
+    if (error) {
+      return error;
     }
 
     // Parse query parameters
@@ -54,7 +53,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get pharmacies
-    const pharmacies = await prisma.pharmacy.findMany({
+    const pharmacies = await tenantPrisma.pharmacy.findMany({
       where,
       include: {
         organization: {
@@ -88,7 +87,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/admin/pharmacies
@@ -97,20 +96,15 @@ export async function GET(request: NextRequest) {
  * Super admins can create for any organization
  * Org admins can only create for their organization
  */
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async function POST(request: NextRequest) {
   try {
-    // Get user session
-    const session = await getServerSession(authOptions);
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('pharmacy.manage');
+    if (error) {
+      return error;
     }
 
     // Only super admins and org admins can create pharmacies
-    if (session.user.role !== 'SUPER_ADMIN' && session.user.role !== 'ORG_ADMIN') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
-
     // Parse request body
     const body = await request.json();
 
@@ -131,7 +125,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if pharmacy with same slug exists in the organization
-    const existingPharmacy = await prisma.pharmacy.findFirst({
+    const existingPharmacy = await tenantPrisma.pharmacy.findFirst({
       where: {
         organizationId: body.organizationId,
         slug: body.slug,
@@ -146,7 +140,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create pharmacy
-    const pharmacy = await prisma.pharmacy.create({
+    const pharmacy = await tenantPrisma.pharmacy.create({
       data: {
         name: body.name,
         slug: body.slug,
@@ -155,6 +149,7 @@ export async function POST(request: NextRequest) {
         phoneNumber: body.phoneNumber,
         email: body.email,
         nhsContractNumber: body.nhsContractNumber,
+        odsCode: body.odsCode || null,
         isActive: body.isActive !== undefined ? body.isActive : true,
         organizationId: body.organizationId,
       },
@@ -180,4 +175,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MfaService from '@/services/MfaService';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/admin/security
+ *
+ * The organization's two-factor authentication policy
+ * Super admins pass ?organizationId=; others get their own organization's
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('organization.settings');
+    if (error) {
+      return error;
+    }
+
+    const organizationId = session.user.role === 'SUPER_ADMIN'
+      ? request.nextUrl.searchParams.get('organizationId') || session.user.organizationId
+      : session.user.organizationId;
+
+    if (!organizationId) {
+      return NextResponse.json({ error: 'organizationId is required' }, { status: 400 });
+    }
+
+    try {
+      const policy = await MfaService.getPolicy(organizationId);
+      return NextResponse.json(policy);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Error fetching MFA policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch security settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/security
+ *
+ * Require two-factor authentication of every password user, or of some roles
+ * Body: { mfaRequired, mfaRequiredRoles, organizationId? }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('organization.settings');
+    if (error) {
+      return error;
+    }
+
+    const body = await request.json();
+    const organizationId = session.user.role === 'SUPER_ADMIN'
+      ? body.organizationId || session.user.organizationId
+      : session.user.organizationId;
+
+    if (!organizationId) {
+      return NextResponse.json({ error: 'organizationId is required' }, { status: 400 });
+    }
+
+    try {
+      const policy = await MfaService.setPolicy(
+        organizationId,
+        { mfaRequired: body.mfaRequired, mfaRequiredRoles: body.mfaRequiredRoles || [] },
+        session.user.id
+      );
+      return NextResponse.json(policy);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to update security settings', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating MFA policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to update security settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import UserManagementService from '../../../../../services/UserManagementService';
+import { requirePermission } from '../../../../../middleware/require-permission';
+
+/**
+ * GET /api/admin/users/:id
+ *
+ * Get a user with their pharmacy roles
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('user.manage');
+    if (error) {
+      return error;
+    }
+
+    try {
+      const user = await UserManagementService.getUser(session.user, params.id);
+      return NextResponse.json({ user });
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch user' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/users/:id
+ *
+ * Change a user's name, user role or pharmacies
+ * Body: { name?, role?, pharmacies?: [{ pharmacyId, role }] }
+ * pharmacies replaces every assignment; leave it out to keep them
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('user.manage');
+    if (error) {
+      return error;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    try {
+      if (body.name !== undefined || body.role !== undefined) {
+        await UserManagementService.updateUser(params.id, { name: body.name, role: body.role }, session.user);
+      }
+
+      if (Array.isArray(body.pharmacies)) {
+        await UserManagementService.setPharmacies(params.id, body.pharmacies, session.user);
+      }
+
+      const user = await UserManagementService.getUser(session.user, params.id);
+      return NextResponse.json({ user });
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to update user', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/users/:id
+ *
+ * User actions:
+ * - deactivate: stop the user signing in and end their sessions
+ * - reactivate: let a deactivated user sign in again
+ * - reset-password: email the user a link to choose a new password
+ * - resend-invitation: email a new invitation link
+ * - unlock: let a user locked out by failed sign-ins try again
+ * - reset-mfa: turn off two-factor authentication for a user who's lost their device
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('user.manage');
+    if (error) {
+      return error;
+    }
+
+    const { action } = await request.json();
+
+    try {
+      switch (action) {
+        case 'deactivate': {
+          const result = await UserManagementService.deactivateUser(params.id, session.user);
+          return NextResponse.json(result);
+        }
+
+        case 'reactivate': {
+          const user = await UserManagementService.reactivateUser(params.id, session.user);
+          return NextResponse.json({ user });
+        }
+
+        case 'reset-password':
+          await UserManagementService.sendPasswordReset(params.id, session.user);
+          return NextResponse.json({ success: true });
+
+        case 'resend-invitation':
+          await UserManagementService.resendInvitation(params.id, session.user);
+          return NextResponse.json({ success: true });
+
+        case 'unlock': {
+          const user = await UserManagementService.unlockUser(params.id, session.user);
+          return NextResponse.json({ user });
+        }
+
+        case 'reset-mfa': {
+          const user = await UserManagementService.resetMfa(params.id, session.user);
+          return NextResponse.json({ user });
+        }
+
+        default:
+          return NextResponse.json(
+            { error: `Unknown action: ${action}` },
+            { status: 400 }
+          );
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Failed to ${action} user`, message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error processing user action:', error);
+    return NextResponse.json(
+      { error: 'Failed to process user action' },
+      { status: 500 }
+    );
+  }
+}
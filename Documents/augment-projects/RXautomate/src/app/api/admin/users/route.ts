@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import UserManagementService from '../../../../services/UserManagementService';
+import { requirePermission } from '../../../../middleware/require-permission';
+
+/**
+ * GET /api/admin/users?organizationId=
+ *
+ * Get the organization's users with their pharmacy roles and onboarding status
+ * Super admins can pass an organizationId, or leave it out to see everyone
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('user.manage');
+    if (error) {
+      return error;
+    }
+
+    const users = await UserManagementService.listUsers(
+      session.user,
+      request.nextUrl.searchParams.get('organizationId')
+    );
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/users
+ *
+ * Invite a user by email
+ * Body: { email, name, role, pharmacies: [{ pharmacyId, role }], organizationId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('user.manage');
+    if (error) {
+      return error;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    try {
+      const user = await UserManagementService.inviteUser({
+        email: body.email,
+        name: body.name,
+        role: body.role,
+        organizationId: body.organizationId,
+        pharmacies: Array.isArray(body.pharmacies) ? body.pharmacies : [],
+      }, session.user);
+
+      return NextResponse.json({ user }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to invite user', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error inviting user:', error);
+    return NextResponse.json(
+      { error: 'Failed to invite user' },
+      { status: 500 }
+    );
+  }
+}
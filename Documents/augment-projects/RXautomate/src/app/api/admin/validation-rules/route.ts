@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantPrisma } from '../../../../lib/db/tenant';
+import AuditService from '../../../../services/AuditService';
+import { RuleConfigScope, ValidationRuleConfigService } from '../../../../services/ValidationRuleConfigService';
+import { requirePermission } from '../../../../middleware/require-permission';
+import { withAdmin } from '../../../../middleware/tenant-context';
+
+/**
+ * Work out which organization or pharmacy the request is configuring
+ * Org admins can only configure their own organization and its pharmacies
+ */
+async function resolveScope(
+  session: any,
+  pharmacyId?: string | null,
+  organizationId?: string | null
+): Promise<RuleConfigScope | NextResponse> {
+  if (pharmacyId) {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({
+      where: { id: pharmacyId },
+      select: { organizationId: true },
+    });
+
+    if (!pharmacy) {
+      return NextResponse.json({ error: 'Pharmacy not found' }, { status: 404 });
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' && pharmacy.organizationId !== session.user.organizationId) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return { type: 'pharmacy', id: pharmacyId };
+  }
+
+  return {
+    type: 'organization',
+    id: session.user.role === 'SUPER_ADMIN' && organizationId
+      ? organizationId
+      : session.user.organizationId,
+  };
+}
+
+/**
+ * GET /api/admin/validation-rules?pharmacyId=
+ *
+ * Get the validation rules with the organization's overrides and, when a
+ * pharmacyId is given, that pharmacy's overrides
+ */
+export const GET = withAdmin(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('validation_rule.manage');
+    if (error) {
+      return error;
+    }
+
+    const scope = await resolveScope(
+      session,
+      request.nextUrl.searchParams.get('pharmacyId'),
+      request.nextUrl.searchParams.get('organizationId')
+    );
+
+    if (scope instanceof NextResponse) {
+      return scope;
+    }
+
+    const ruleConfigService = new ValidationRuleConfigService(tenantPrisma);
+    const config = await ruleConfigService.getRuleConfig(scope);
+
+    return NextResponse.json({ scope, ...config });
+  } catch (error) {
+    console.error('Error fetching validation rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch validation rules' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/admin/validation-rules
+ *
+ * Override rules and the AI confidence threshold for the organization or a pharmacy
+ * Body: { pharmacyId?, rules?: [{ ruleId, enabled, severity }], aiConfidenceThreshold? }
+ * A null field inherits from the organization (or the rule default)
+ */
+export const PUT = withAdmin(async function PUT(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('validation_rule.manage');
+    if (error) {
+      return error;
+    }
+
+    // Parse request body
+    const body = await request.json();
+
+    if (body.rules !== undefined && !Array.isArray(body.rules)) {
+      return NextResponse.json({ error: 'rules must be an array' }, { status: 400 });
+    }
+
+    const scope = await resolveScope(session, body.pharmacyId, body.organizationId);
+
+    if (scope instanceof NextResponse) {
+      return scope;
+    }
+
+    const ruleConfigService = new ValidationRuleConfigService(tenantPrisma);
+
+    try {
+      for (const rule of body.rules || []) {
+        await ruleConfigService.setRuleConfig(
+          scope,
+          rule.ruleId,
+          { enabled: rule.enabled, severity: rule.severity },
+          session.user.id
+        );
+      }
+
+      if (body.aiConfidenceThreshold !== undefined) {
+        await ruleConfigService.setAIConfidenceThreshold(scope, body.aiConfidenceThreshold);
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid validation rule configuration', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
+    // Log activity
+    await AuditService.logAction({
+      action: 'UPDATE_VALIDATION_RULES' as any,
+      category: 'ADMIN' as any,
+      userId: session.user.id,
+      details: {
+        scope,
+        rules: body.rules,
+        aiConfidenceThreshold: body.aiConfidenceThreshold,
+      },
+    });
+
+    const config = await ruleConfigService.getRuleConfig(scope);
+
+    return NextResponse.json({ scope, ...config });
+  } catch (error) {
+    console.error('Error updating validation rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to update validation rules' },
+      { status: 500 }
+    );
+  }
+});
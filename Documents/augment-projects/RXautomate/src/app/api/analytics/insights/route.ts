@@ -4,6 +4,8 @@ import { BusinessIntelligenceService } from '@/services/BusinessIntelligenceServ
 import { PatientAdherenceService } from '@/services/PatientAdherenceService';
 import { NotificationService } from '@/services/NotificationService';
 import { EPSService } from '@/services/EPSService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 const prisma = new PrismaClient();
 const notificationService = new NotificationService();
@@ -11,8 +13,14 @@ const epsService = new EPSService(prisma);
 const adherenceService = new PatientAdherenceService(prisma, notificationService, epsService);
 const biService = new BusinessIntelligenceService(prisma, adherenceService);
 
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
+    // Check permission
+    const { error } = await requirePermission('analytics.read');
+    if (error) {
+      return error;
+    }
+
     const { searchParams } = new URL(request.url);
     const pharmacyId = searchParams.get('pharmacyId');
 
@@ -36,4 +44,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
-import { prisma } from '@/lib/db/prisma';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * GET /api/analytics/prescriptions
@@ -9,15 +9,12 @@ import { prisma } from '@/lib/db/prisma';
  * Retrieves prescription analytics data
  * Requires authentication and appropriate permissions
  */
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('analytics.read');
+    if (error) {
+      return error;
     }
 
     // Extract query parameters
@@ -47,12 +44,11 @@ export async function GET(request: NextRequest) {
 
     // Query the database for actual analytics data
     try {
-      // Get user's pharmacy ID from session
-      const user = session.user as any;
-      const pharmacyId = user.pharmacyId;
+      // The selected pharmacy, which tenantPrisma also limits every query to
+      const pharmacyId = session.user.selectedPharmacyId;
 
       // Get total prescriptions count
-      const totalPrescriptions = await prisma.prescription.count({
+      const totalPrescriptions = await tenantPrisma.prescription.count({
         where: {
           pharmacyId,
           issuedDate: {
@@ -63,7 +59,7 @@ export async function GET(request: NextRequest) {
       });
 
       // Get dispensed prescriptions count
-      const dispensedPrescriptions = await prisma.prescription.count({
+      const dispensedPrescriptions = await tenantPrisma.prescription.count({
         where: {
           pharmacyId,
           status: 'COLLECTED',
@@ -75,7 +71,7 @@ export async function GET(request: NextRequest) {
       });
 
       // Get pending prescriptions count
-      const pendingPrescriptions = await prisma.prescription.count({
+      const pendingPrescriptions = await tenantPrisma.prescription.count({
         where: {
           pharmacyId,
           status: 'PENDING',
@@ -87,7 +83,7 @@ export async function GET(request: NextRequest) {
       });
 
       // Get cancelled prescriptions count
-      const cancelledPrescriptions = await prisma.prescription.count({
+      const cancelledPrescriptions = await tenantPrisma.prescription.count({
         where: {
           pharmacyId,
           status: 'CANCELLED',
@@ -104,7 +100,7 @@ export async function GET(request: NextRequest) {
         : 0;
 
       // Get average processing time
-      const completedPrescriptions = await prisma.prescription.findMany({
+      const completedPrescriptions = await tenantPrisma.prescription.findMany({
         where: {
           pharmacyId,
           status: 'COLLECTED',
@@ -146,7 +142,7 @@ export async function GET(request: NextRequest) {
           const dayEnd = new Date(date);
           dayEnd.setHours(23, 59, 59, 999);
 
-          const total = await prisma.prescription.count({
+          const total = await tenantPrisma.prescription.count({
             where: {
               pharmacyId,
               issuedDate: {
@@ -156,7 +152,7 @@ export async function GET(request: NextRequest) {
             },
           });
 
-          const dispensed = await prisma.prescription.count({
+          const dispensed = await tenantPrisma.prescription.count({
             where: {
               pharmacyId,
               status: 'COLLECTED',
@@ -167,7 +163,7 @@ export async function GET(request: NextRequest) {
             },
           });
 
-          const cancelled = await prisma.prescription.count({
+          const cancelled = await tenantPrisma.prescription.count({
             where: {
               pharmacyId,
               status: 'CANCELLED',
@@ -188,7 +184,7 @@ export async function GET(request: NextRequest) {
       );
 
       // Get status distribution
-      const statusCounts = await prisma.prescription.groupBy({
+      const statusCounts = await tenantPrisma.prescription.groupBy({
         by: ['status'],
         where: {
           pharmacyId,
@@ -208,7 +204,7 @@ export async function GET(request: NextRequest) {
       }));
 
       // Get prescription types distribution
-      const typeCounts = await prisma.prescription.groupBy({
+      const typeCounts = await tenantPrisma.prescription.groupBy({
         by: ['prescriptionType'],
         where: {
           pharmacyId,
@@ -306,4 +302,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
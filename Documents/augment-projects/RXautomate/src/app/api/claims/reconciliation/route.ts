@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ClaimService, { getClaimPeriod } from '@/services/ClaimService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/claims/reconciliation?period=YYYY-MM
+ *
+ * Compares expected against paid amounts for a month of claims
+ * Defaults to the current month
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('claim.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const claimPeriod = url.searchParams.get('period') || getClaimPeriod(new Date());
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(claimPeriod)) {
+      return NextResponse.json(
+        { error: 'period must be in the form YYYY-MM' },
+        { status: 400 }
+      );
+    }
+
+    const reconciliation = await ClaimService.getMonthlyReconciliation(pharmacyId, claimPeriod);
+
+    return NextResponse.json(reconciliation);
+  } catch (error: any) {
+    console.error('Error reconciling prescription claims:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile prescription claims',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ClaimService, { CLAIM_STATUSES, ClaimStatus } from '@/services/ClaimService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/claims
+ *
+ * Lists the selected pharmacy's NHSBSA prescription claims
+ * Optional filters: ?period=YYYY-MM&status=REJECTED
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('claim.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const claimPeriod = url.searchParams.get('period') || undefined;
+    const status = url.searchParams.get('status') || undefined;
+
+    if (status && !CLAIM_STATUSES.includes(status as ClaimStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const claims = await ClaimService.getClaims(pharmacyId, {
+      claimPeriod,
+      status: status as ClaimStatus | undefined,
+    });
+
+    return NextResponse.json({ claims });
+  } catch (error: any) {
+    console.error('Error fetching prescription claims:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch prescription claims',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/claims
+ *
+ * Claim actions for the selected pharmacy:
+ * - submit: send pending claims to NHSBSA
+ * - refresh: fetch the latest claim statuses from NHSBSA
+ * - resubmit: queue a rejected claim ({ claimId }) for the next submission
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('claim.submit');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, claimId } = body;
+
+    switch (action) {
+      case 'submit': {
+        const result = await ClaimService.submitPendingClaims(pharmacyId, session.user.id);
+        return NextResponse.json(result);
+      }
+
+      case 'refresh': {
+        const updated = await ClaimService.refreshClaimStatuses(pharmacyId);
+        return NextResponse.json({ updated });
+      }
+
+      case 'resubmit': {
+        if (!claimId) {
+          return NextResponse.json(
+            { error: 'claimId is required' },
+            { status: 400 }
+          );
+        }
+
+        try {
+          const claim = await ClaimService.resubmitClaim(claimId, session.user.id);
+          return NextResponse.json({ claim });
+        } catch (error: any) {
+          return NextResponse.json(
+            { error: 'Failed to resubmit claim', message: error.message },
+            { status: 400 }
+          );
+        }
+      }
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error: any) {
+    console.error('Error processing prescription claims:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process prescription claims',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
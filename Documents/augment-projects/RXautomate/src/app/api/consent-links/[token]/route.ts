@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ConsentService from '@/services/ConsentService';
+
+/**
+ * The patient consent page is served separately (CONSENT_PORTAL_URL), so it
+ * calls these routes cross-origin
+ */
+function withCors(response: NextResponse): NextResponse {
+  const origin = new URL(process.env.CONSENT_PORTAL_URL || 'http://localhost:3000').origin;
+
+  response.headers.set('Access-Control-Allow-Origin', origin);
+  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.headers.set('Access-Control-Allow-Headers', 'Content-Type');
+  response.headers.set('Vary', 'Origin');
+
+  return response;
+}
+
+export async function OPTIONS() {
+  return withCors(new NextResponse(null, { status: 204 }));
+}
+
+/**
+ * GET /api/consent-links/[token]
+ *
+ * What a consent link asks the patient: the pharmacy, each notice's wording
+ * and the patient's current answer
+ * Public: the signed token in the link is the credential
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const link = await ConsentService.getLink(params.token);
+
+    if (!link) {
+      return withCors(NextResponse.json(
+        { error: 'This link is invalid, has expired or has already been used' },
+        { status: 404 }
+      ));
+    }
+
+    return withCors(NextResponse.json({ link }));
+  } catch (error: any) {
+    console.error('Error fetching consent link:', error);
+
+    return withCors(NextResponse.json(
+      {
+        error: 'Failed to fetch consent link',
+        message: error.message
+      },
+      { status: 500 }
+    ));
+  }
+}
+
+/**
+ * POST /api/consent-links/[token]
+ *
+ * Record the patient's answers
+ * Body: { choices: [{ consentType, given, noticeId }] }
+ * The link stops working once used
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { choices } = await request.json();
+
+    try {
+      const result = await ConsentService.submitLink(params.token, choices);
+      return withCors(NextResponse.json(result));
+    } catch (error: any) {
+      return withCors(NextResponse.json(
+        { error: 'Failed to record consent', message: error.message },
+        { status: 400 }
+      ));
+    }
+  } catch (error: any) {
+    console.error('Error recording consent from link:', error);
+
+    return withCors(NextResponse.json(
+      {
+        error: 'Failed to record consent',
+        message: error.message
+      },
+      { status: 500 }
+    ));
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ControlledDrugService, { ControlledDrugRegisterNotFoundError } from '@/services/ControlledDrugService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * POST /api/controlled-drugs/[id]/entries
+ *
+ * Appends an entry to a controlled drug register. Supplies are written by the
+ * dispensing flow; this endpoint handles the manual entry types:
+ * - RECEIPT: stock received from a wholesaler order
+ * - DESTRUCTION: witnessed destruction of stock
+ * - RECONCILIATION: physical count, writing a DISCREPANCY entry if it differs
+ * - CORRECTION: annotation of an earlier entry made in error
+ *
+ * Entries can never be edited or deleted, so there is no PUT or DELETE handler.
+ */
+export const POST = withTenant(async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('controlled_drug.record');
+    if (error) {
+      return error;
+    }
+
+    const register = await ControlledDrugService.getRegister(params.id);
+
+    // Check the register belongs to the user's pharmacy
+    if (register.pharmacyId !== session.user.selectedPharmacyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized to access this register' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { type } = body;
+    const recordedById = session.user.id;
+
+    switch (type) {
+      case 'RECEIPT': {
+        if (!body.quantity || !body.supplierName || !body.invoiceNumber) {
+          return NextResponse.json(
+            { error: 'quantity, supplierName and invoiceNumber are required' },
+            { status: 400 }
+          );
+        }
+
+        const entry = await ControlledDrugService.recordReceipt(register.id, {
+          quantity: body.quantity,
+          supplierName: body.supplierName,
+          invoiceNumber: body.invoiceNumber,
+          wholesalerOrderId: body.wholesalerOrderId,
+          recordedById,
+        });
+        return NextResponse.json({ entry }, { status: 201 });
+      }
+
+      case 'DESTRUCTION': {
+        if (!body.quantity || !body.witnessName || !body.witnessRole || !body.reason) {
+          return NextResponse.json(
+            { error: 'quantity, witnessName, witnessRole and reason are required' },
+            { status: 400 }
+          );
+        }
+
+        const entry = await ControlledDrugService.recordDestruction(register.id, {
+          quantity: body.quantity,
+          witnessName: body.witnessName,
+          witnessRole: body.witnessRole,
+          reason: body.reason,
+          recordedById,
+        });
+        return NextResponse.json({ entry }, { status: 201 });
+      }
+
+      case 'RECONCILIATION': {
+        if (body.countedBalance === undefined) {
+          return NextResponse.json(
+            { error: 'countedBalance is required' },
+            { status: 400 }
+          );
+        }
+
+        const reconciliation = await ControlledDrugService.reconcile(register.id, {
+          countedBalance: body.countedBalance,
+          reason: body.reason,
+          recordedById,
+        });
+        return NextResponse.json(reconciliation, { status: reconciliation.entry ? 201 : 200 });
+      }
+
+      case 'CORRECTION': {
+        if (!body.correctsEntryId || body.quantity === undefined || !body.reason) {
+          return NextResponse.json(
+            { error: 'correctsEntryId, quantity and reason are required' },
+            { status: 400 }
+          );
+        }
+
+        const entry = await ControlledDrugService.recordCorrection(register.id, {
+          correctsEntryId: body.correctsEntryId,
+          quantity: body.quantity,
+          reason: body.reason,
+          recordedById,
+        });
+        return NextResponse.json({ entry }, { status: 201 });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid entry type' },
+          { status: 400 }
+        );
+    }
+  } catch (error: any) {
+    if (error instanceof ControlledDrugRegisterNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Error recording controlled drug entry:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to record controlled drug entry',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
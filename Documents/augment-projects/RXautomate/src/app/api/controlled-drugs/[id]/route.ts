@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ControlledDrugService, { ControlledDrugRegisterNotFoundError } from '@/services/ControlledDrugService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/controlled-drugs/[id]
+ *
+ * Retrieves a controlled drug register and its entries
+ * Optional `from` and `to` query parameters limit the entries by date
+ */
+export const GET = withTenant(async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('controlled_drug.read');
+    if (error) {
+      return error;
+    }
+
+    const register = await ControlledDrugService.getRegister(params.id);
+
+    // Check the register belongs to the user's pharmacy
+    if (register.pharmacyId !== session.user.selectedPharmacyId) {
+      return NextResponse.json(
+        { error: 'Unauthorized to access this register' },
+        { status: 403 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+
+    const entries = await ControlledDrugService.getEntries(
+      register.id,
+      from ? new Date(from) : undefined,
+      to ? new Date(to) : undefined
+    );
+
+    return NextResponse.json({ register, entries });
+  } catch (error: any) {
+    if (error instanceof ControlledDrugRegisterNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Error fetching controlled drug register:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch controlled drug register',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
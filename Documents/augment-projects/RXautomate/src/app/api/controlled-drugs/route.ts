@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantPrisma } from '@/lib/db/tenant';
+import ControlledDrugService from '@/services/ControlledDrugService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/controlled-drugs
+ *
+ * Lists the controlled drug registers for the selected pharmacy
+ * Requires authentication and a selected pharmacy
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('controlled_drug.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const registers = await ControlledDrugService.getRegisters(pharmacyId);
+
+    return NextResponse.json({ registers });
+  } catch (error: any) {
+    console.error('Error fetching controlled drug registers:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch controlled drug registers',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/controlled-drugs
+ *
+ * Opens a register for a Schedule 2/3 inventory item, using the item's
+ * current stock as the opening balance
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('controlled_drug.record');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { inventoryItemId, strength, form } = body;
+
+    if (!inventoryItemId || !strength || !form) {
+      return NextResponse.json(
+        { error: 'inventoryItemId, strength and form are required' },
+        { status: 400 }
+      );
+    }
+
+    const inventoryItem = await tenantPrisma.inventoryItem.findUnique({
+      where: { id: inventoryItemId },
+    });
+
+    if (!inventoryItem || inventoryItem.pharmacyId !== pharmacyId) {
+      return NextResponse.json(
+        { error: 'Inventory item not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!inventoryItem.cdSchedule) {
+      return NextResponse.json(
+        { error: 'Inventory item is not a Schedule 2 or 3 controlled drug' },
+        { status: 400 }
+      );
+    }
+
+    const register = await ControlledDrugService.openRegister(
+      pharmacyId,
+      {
+        drugName: inventoryItem.name,
+        strength,
+        form,
+        schedule: inventoryItem.cdSchedule,
+        inventoryItemId: inventoryItem.id,
+      },
+      inventoryItem.currentStock,
+      session.user.id
+    );
+
+    return NextResponse.json({ register }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error opening controlled drug register:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to open controlled drug register',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
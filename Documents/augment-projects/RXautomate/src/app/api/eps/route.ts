@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
 import NHSSpineService from '@/services/NHSSpineService';
 import BSAService from '@/services/BSAService';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * Consolidated API routes for EPS-related functionality
@@ -20,6 +19,12 @@ import BSAService from '@/services/BSAService';
  */
 export async function POST(request: NextRequest) {
   try {
+    // Check permission
+    const { error } = await requirePermission('patient.read');
+    if (error) {
+      return error;
+    }
+
     // Get the path to determine the action
     const url = new URL(request.url);
     const path = url.pathname;
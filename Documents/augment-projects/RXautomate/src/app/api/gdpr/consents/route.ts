@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ConsentService from '@/services/ConsentService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/gdpr/consents?search=
+ *
+ * Find patients to manage consent for, by NHS number or name
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('patient.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const search = request.nextUrl.searchParams.get('search') || '';
+    const patients = await ConsentService.searchPatients(pharmacyId, search);
+
+    return NextResponse.json({ patients });
+  } catch (error: any) {
+    console.error('Error searching patients for consent:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to search patients',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ConsentService, { CONSENT_TYPES } from '@/services/ConsentService';
+import type { ConsentType } from '@/services/OutboundPolicyService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/gdpr/reconsent
+ *
+ * How many of the pharmacy's patients consented to wording that has since changed, per consent type
+ */
+export const GET = withTenant(async function GET() {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('patient.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await ConsentService.getReconsentSummary(pharmacyId);
+
+    return NextResponse.json({ summary });
+  } catch (error: any) {
+    console.error('Error fetching re-consent summary:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch re-consent summary',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/gdpr/reconsent
+ *
+ * Send those patients a consent link showing the new wording
+ * Body: { consentType }
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('message.send');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { consentType } = await request.json();
+
+    if (!CONSENT_TYPES.includes(consentType as ConsentType)) {
+      return NextResponse.json(
+        { error: `Invalid consent type: ${consentType}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await ConsentService.sendReconsentLinks(pharmacyId, consentType, session.user.id);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error sending re-consent links:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to send re-consent links',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import DataSubjectRequestService from '@/services/DataSubjectRequestService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/gdpr/requests/[id]/export
+ *
+ * Downloads everything held about the patient for a subject access request
+ * ?format=json (default) for the machine-readable bundle, or ?format=pdf for
+ * a copy to print or email. Each download is audited.
+ */
+export const GET = withTenant(async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('data_request.manage');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const format = new URL(request.url).searchParams.get('format') || 'json';
+    if (format !== 'json' && format !== 'pdf') {
+      return NextResponse.json(
+        { error: `Invalid format: ${format}` },
+        { status: 400 }
+      );
+    }
+
+    const filename = `subject-access-${params.id}.${format}`;
+
+    try {
+      if (format === 'pdf') {
+        const pdf = await DataSubjectRequestService.buildExportPdf(params.id, pharmacyId, session.user.id);
+        return new NextResponse(pdf, {
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+        });
+      }
+
+      const bundle = await DataSubjectRequestService.buildExport(params.id, pharmacyId, session.user.id);
+      return new NextResponse(JSON.stringify(bundle, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to export data', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error exporting data for request ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to export data',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
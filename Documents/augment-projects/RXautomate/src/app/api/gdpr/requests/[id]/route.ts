@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import DataSubjectRequestService from '@/services/DataSubjectRequestService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * POST /api/gdpr/requests/[id]
+ *
+ * Data subject request actions:
+ * - verify-identity: the requester has shown who they are; work can start
+ * - extend: { reason } give two more months for a complex request
+ * - refuse: { reason } refuse the request
+ * - complete: { outcome } close a subject access request once the data has been sent
+ * - rectify: { corrections, outcome } correct the patient's details and close the request
+ * - erase: { outcome } erase the patient's data under the erasure policy and close the request
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('data_request.manage');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { action, reason, outcome, corrections } = await request.json();
+    const userId = session.user.id;
+
+    try {
+      switch (action) {
+        case 'verify-identity':
+          return NextResponse.json({ request: await DataSubjectRequestService.verifyIdentity(params.id, pharmacyId, userId) });
+        case 'extend':
+          return NextResponse.json({ request: await DataSubjectRequestService.extendRequest(params.id, pharmacyId, reason, userId) });
+        case 'refuse':
+          return NextResponse.json({ request: await DataSubjectRequestService.refuseRequest(params.id, pharmacyId, reason, userId) });
+        case 'complete':
+          return NextResponse.json({ request: await DataSubjectRequestService.completeAccessRequest(params.id, pharmacyId, outcome, userId) });
+        case 'rectify':
+          return NextResponse.json({ request: await DataSubjectRequestService.rectify(params.id, pharmacyId, corrections, outcome, userId) });
+        case 'erase':
+          return NextResponse.json(await DataSubjectRequestService.erase(params.id, pharmacyId, outcome, userId));
+        default:
+          return NextResponse.json(
+            { error: `Unknown action: ${action}` },
+            { status: 400 }
+          );
+      }
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Failed to ${action} request`, message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error processing data subject request ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process request',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import DataSubjectRequestService, {
+  DATA_SUBJECT_REQUEST_STATUSES,
+  DataSubjectRequestStatus,
+} from '@/services/DataSubjectRequestService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/gdpr/requests
+ *
+ * Lists the selected pharmacy's subject access, erasure and rectification
+ * requests, soonest due first
+ * Optional filter: ?status=OPEN for those not yet answered, or a single status
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('data_request.manage');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') || undefined;
+
+    if (status && status !== 'OPEN' && !DATA_SUBJECT_REQUEST_STATUSES.includes(status as DataSubjectRequestStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const requests = await DataSubjectRequestService.getRequests(pharmacyId, status as DataSubjectRequestStatus | 'OPEN' | undefined);
+
+    return NextResponse.json({ requests });
+  } catch (error: any) {
+    console.error('Error fetching data subject requests:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch data subject requests',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/gdpr/requests
+ *
+ * Logs a request for the patient with the given ID or NHS number
+ * Body: { type: 'ACCESS' | 'ERASURE' | 'RECTIFICATION', patientId?, nhsNumber?,
+ *         requesterName?, details?, receivedAt? }
+ * The due date is worked out from when it was received (default: now).
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('data_request.manage');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const input = await request.json();
+
+    try {
+      const created = await DataSubjectRequestService.createRequest(pharmacyId, input, session.user.id);
+      return NextResponse.json({ request: created }, { status: 201 });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to log request', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error logging data subject request:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to log request',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
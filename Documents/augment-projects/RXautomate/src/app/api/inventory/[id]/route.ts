@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
-import { prisma } from '@/lib/db/prisma';
+import { tenantPrisma } from '@/lib/db/tenant';
 import AuditService from '@/services/AuditService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 interface RouteParams {
   params: {
@@ -16,22 +16,18 @@ interface RouteParams {
  * Retrieves a specific inventory item by ID
  * Requires authentication and appropriate permissions
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withTenant(async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('inventory.read');
+    if (error) {
+      return error;
     }
     
     const { id } = params;
     
-    // Get user's pharmacy ID from session
-    const user = session.user as any;
-    const pharmacyId = user.pharmacyId;
+    // The selected pharmacy, which tenantPrisma also limits every query to
+    const pharmacyId = session.user.selectedPharmacyId;
     
     if (!pharmacyId) {
       return NextResponse.json(
@@ -41,7 +37,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
     
     // Get inventory item
-    const inventoryItem = await prisma.inventoryItem.findUnique({
+    const inventoryItem = await tenantPrisma.inventoryItem.findUnique({
       where: {
         id,
       },
@@ -83,7 +79,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/inventory/[id]
@@ -91,22 +87,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * Updates a specific inventory item by ID
  * Requires authentication and appropriate permissions
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withTenant(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('inventory.adjust');
+    if (error) {
+      return error;
     }
     
     const { id } = params;
     
-    // Get user's pharmacy ID from session
-    const user = session.user as any;
-    const pharmacyId = user.pharmacyId;
+    // The selected pharmacy, which tenantPrisma also limits every query to
+    const pharmacyId = session.user.selectedPharmacyId;
     
     if (!pharmacyId) {
       return NextResponse.json(
@@ -116,7 +108,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
     
     // Check if item exists and belongs to user's pharmacy
-    const existingItem = await prisma.inventoryItem.findUnique({
+    const existingItem = await tenantPrisma.inventoryItem.findUnique({
       where: {
         id,
       },
@@ -140,7 +132,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const data = await request.json();
     
     // Update inventory item
-    const updatedItem = await prisma.inventoryItem.update({
+    const updatedItem = await tenantPrisma.inventoryItem.update({
       where: {
         id,
       },
@@ -182,7 +174,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/inventory/[id]
@@ -190,22 +182,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * Deletes a specific inventory item by ID
  * Requires authentication and appropriate permissions
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withTenant(async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('inventory.adjust');
+    if (error) {
+      return error;
     }
     
     const { id } = params;
     
-    // Get user's pharmacy ID from session
-    const user = session.user as any;
-    const pharmacyId = user.pharmacyId;
+    // The selected pharmacy, which tenantPrisma also limits every query to
+    const pharmacyId = session.user.selectedPharmacyId;
     
     if (!pharmacyId) {
       return NextResponse.json(
@@ -215,7 +203,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
     
     // Check if item exists and belongs to user's pharmacy
-    const existingItem = await prisma.inventoryItem.findUnique({
+    const existingItem = await tenantPrisma.inventoryItem.findUnique({
       where: {
         id,
       },
@@ -236,7 +224,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
     
     // Delete inventory item
-    await prisma.inventoryItem.delete({
+    await tenantPrisma.inventoryItem.delete({
       where: {
         id,
       },
@@ -263,4 +251,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+});
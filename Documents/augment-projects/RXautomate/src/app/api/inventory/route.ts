@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
-import { prisma } from '@/lib/db/prisma';
+import { tenantPrisma } from '@/lib/db/tenant';
 import AuditService from '@/services/AuditService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * GET /api/inventory
@@ -10,15 +10,12 @@ import AuditService from '@/services/AuditService';
  * Retrieves inventory items with optional filtering
  * Requires authentication and appropriate permissions
  */
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('inventory.read');
+    if (error) {
+      return error;
     }
 
     // Extract query parameters
@@ -28,9 +25,8 @@ export async function GET(request: NextRequest) {
     const lowStock = url.searchParams.get('lowStock') === 'true';
     const search = url.searchParams.get('search');
     
-    // Get user's pharmacy ID from session
-    const user = session.user as any;
-    const pharmacyId = user.pharmacyId;
+    // The selected pharmacy, which tenantPrisma also limits every query to
+    const pharmacyId = session.user.selectedPharmacyId;
     
     if (!pharmacyId) {
       return NextResponse.json(
@@ -61,7 +57,7 @@ export async function GET(request: NextRequest) {
     }
     
     // Get inventory items
-    const inventoryItems = await prisma.inventoryItem.findMany({
+    const inventoryItems = await tenantPrisma.inventoryItem.findMany({
       where: filters,
       orderBy: {
         name: 'asc',
@@ -74,12 +70,12 @@ export async function GET(request: NextRequest) {
       : inventoryItems;
     
     // Get unique categories and suppliers for filtering options
-    const categories = await prisma.inventoryItem.groupBy({
+    const categories = await tenantPrisma.inventoryItem.groupBy({
       by: ['category'],
       where: { pharmacyId },
     });
     
-    const suppliers = await prisma.inventoryItem.groupBy({
+    const suppliers = await tenantPrisma.inventoryItem.groupBy({
       by: ['supplier'],
       where: { pharmacyId },
     });
@@ -110,7 +106,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/inventory
@@ -118,20 +114,16 @@ export async function GET(request: NextRequest) {
  * Creates a new inventory item
  * Requires authentication and appropriate permissions
  */
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('inventory.adjust');
+    if (error) {
+      return error;
     }
     
-    // Get user's pharmacy ID from session
-    const user = session.user as any;
-    const pharmacyId = user.pharmacyId;
+    // The selected pharmacy, which tenantPrisma also limits every query to
+    const pharmacyId = session.user.selectedPharmacyId;
     
     if (!pharmacyId) {
       return NextResponse.json(
@@ -154,7 +146,7 @@ export async function POST(request: NextRequest) {
     }
     
     // Create new inventory item
-    const newItem = await prisma.inventoryItem.create({
+    const newItem = await tenantPrisma.inventoryItem.create({
       data: {
         productCode: data.productCode,
         name: data.name,
@@ -192,4 +184,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import UserManagementService from '@/services/UserManagementService';
+
+/**
+ * GET /api/invitations/[token]
+ *
+ * Who an invitation is for, so the accept page can greet them
+ * Public: the token in the emailed link is the credential
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const invitation = await UserManagementService.getInvitation(params.token);
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ invitation });
+  } catch (error: any) {
+    console.error('Error fetching invitation:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch invitation',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invitations/[token]
+ *
+ * Accept an invitation by setting a password ({ password })
+ * The link stops working once used
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { password } = await request.json();
+
+    try {
+      const result = await UserManagementService.acceptInvitation(params.token, password);
+      return NextResponse.json(result);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to accept invitation', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error accepting invitation:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to accept invitation',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MessagingService from '@/services/MessagingService';
+import { runAsSystem } from '@/lib/db/tenant';
+import { requirePermission } from '@/middleware/require-permission';
+import { withTenant } from '@/middleware/tenant-context';
+
+/**
+ * POST /api/messages/deferred/release
+ *
+ * Sends the patient messages held back for quiet hours once the quiet hours
+ * are over. Meant to be called by a scheduler with
+ * `Authorization: Bearer $CRON_SECRET`, which releases every pharmacy's;
+ * signed-in users release their selected pharmacy's.
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isScheduler = Boolean(cronSecret)
+      && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+    if (isScheduler) {
+      // Held messages for every pharmacy
+      const result = await runAsSystem(() => MessagingService.releaseDeferred());
+      return NextResponse.json(result);
+    }
+
+    // Check permission
+    const { session, error } = await requirePermission('message.send');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    // Only the selected pharmacy's held messages
+    const result = await MessagingService.releaseDeferred();
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error releasing deferred messages:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to release deferred messages',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
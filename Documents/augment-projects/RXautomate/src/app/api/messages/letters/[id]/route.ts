@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MessagingService from '@/services/MessagingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * POST /api/messages/letters/[id]
+ *
+ * Letter actions:
+ * - printed: the letter has been printed for posting and leaves the queue
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('message.send');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { action } = await request.json();
+
+    if (action !== 'printed') {
+      return NextResponse.json(
+        { error: `Unknown action: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const letter = await MessagingService.markLetterPrinted(params.id, pharmacyId, session.user.id);
+      return NextResponse.json({ letter });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to mark letter printed', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error processing letter ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process letter',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
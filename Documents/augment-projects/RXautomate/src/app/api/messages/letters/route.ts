@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MessagingService from '@/services/MessagingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/messages/letters
+ *
+ * Lists the letters waiting to be printed for the selected pharmacy, oldest first
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('message.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const letters = await MessagingService.getLetterQueue(pharmacyId);
+
+    return NextResponse.json({ letters });
+  } catch (error: any) {
+    console.error('Error fetching letter queue:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch letter queue',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MessagingService, {
+  MESSAGE_CHANNELS,
+  MESSAGE_STATUSES,
+  MessageChannel,
+  MessageStatus,
+} from '@/services/MessagingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/messages
+ *
+ * Lists the selected pharmacy's patient messages, newest first, with their delivery status
+ * Optional filters: ?patientId=&status=FAILED&channel=SMS
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('message.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const patientId = url.searchParams.get('patientId') || undefined;
+    const status = url.searchParams.get('status') || undefined;
+    const channel = url.searchParams.get('channel') || undefined;
+
+    if (status && !MESSAGE_STATUSES.includes(status as MessageStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    if (channel && !MESSAGE_CHANNELS.includes(channel as MessageChannel)) {
+      return NextResponse.json(
+        { error: `Invalid channel: ${channel}` },
+        { status: 400 }
+      );
+    }
+
+    const messages = await MessagingService.getMessages(pharmacyId, {
+      patientId,
+      status: status as MessageStatus | undefined,
+      channel: channel as MessageChannel | undefined,
+    });
+
+    return NextResponse.json({ messages });
+  } catch (error: any) {
+    console.error('Error fetching patient messages:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch patient messages',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import StaffNotificationService from '@/services/StaffNotificationService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/notifications/[id]
+ *
+ * One notification, if it is for the signed-in user
+ */
+export const GET = withTenant(async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('notification.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const notification = await StaffNotificationService.getNotification(params.id, session.user.id, pharmacyId);
+    if (!notification) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(notification);
+  } catch (error: any) {
+    console.error(`Error fetching notification ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch notification',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/notifications/[id]
+ *
+ * Notification actions for the signed-in user:
+ * - read: mark it read
+ * - dismiss: remove it from their inbox
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('notification.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { action } = await request.json();
+
+    if (action !== 'read' && action !== 'dismiss') {
+      return NextResponse.json(
+        { error: `Unknown action: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const receipt = action === 'read'
+        ? await StaffNotificationService.markAsRead(params.id, session.user.id, pharmacyId)
+        : await StaffNotificationService.dismiss(params.id, session.user.id, pharmacyId);
+
+      return NextResponse.json({ receipt });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Failed to ${action} notification`, message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error processing notification ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process notification',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
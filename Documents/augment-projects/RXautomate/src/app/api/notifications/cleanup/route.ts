@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import StaffNotificationService from '@/services/StaffNotificationService';
+import { runAsSystem } from '@/lib/db/tenant';
+import { requirePermission } from '@/middleware/require-permission';
+import { withTenant } from '@/middleware/tenant-context';
+
+/**
+ * POST /api/notifications/cleanup
+ *
+ * Deletes notifications past the retention period or their expiry date.
+ * Meant to be called by a scheduler with `Authorization: Bearer $CRON_SECRET`,
+ * which cleans up every pharmacy's; admins clean up their selected pharmacy's.
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isScheduler = Boolean(cronSecret)
+      && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+    if (isScheduler) {
+      // Old notifications for every pharmacy
+      const result = await runAsSystem(() => StaffNotificationService.cleanup());
+      return NextResponse.json(result);
+    }
+
+    // Check permission
+    const { session, error } = await requirePermission('notification.manage');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    // Only the selected pharmacy's notifications
+    const result = await StaffNotificationService.cleanup();
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error cleaning up notifications:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to clean up notifications',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import StaffNotificationService from '@/services/StaffNotificationService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * POST /api/notifications/read-all
+ *
+ * Marks all of the signed-in user's notifications at the selected pharmacy read
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('notification.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const marked = await StaffNotificationService.markAllAsRead(session.user.id, pharmacyId);
+
+    return NextResponse.json({ marked });
+  } catch (error: any) {
+    console.error('Error marking notifications read:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to mark notifications read',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
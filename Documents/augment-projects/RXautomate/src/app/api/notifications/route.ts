@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PharmacyRole } from '@prisma/client';
+import StaffNotificationService from '@/services/StaffNotificationService';
+import PrescriptionEventService from '@/services/PrescriptionEventService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+/**
+ * GET /api/notifications?unreadOnly=&limit=
+ *
+ * The signed-in user's notifications at the selected pharmacy, newest first,
+ * with their unread count
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('notification.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const limit = url.searchParams.get('limit');
+
+    const result = await StaffNotificationService.getNotifications(session.user.id, pharmacyId, {
+      unreadOnly: url.searchParams.get('unreadOnly') === 'true',
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch notifications',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/notifications
+ *
+ * Sends a message to the selected pharmacy's team, or to one pharmacy role
+ * (`pharmacyRole`) or user (`userId`) there
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('notification.send');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { title, message, priority, pharmacyRole, userId, action } = await request.json();
+
+    if (!title || !message) {
+      return NextResponse.json(
+        { error: 'Title and message are required' },
+        { status: 400 }
+      );
+    }
+
+    if (priority && !PRIORITIES.includes(priority)) {
+      return NextResponse.json(
+        { error: `Priority must be one of: ${PRIORITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (pharmacyRole && !Object.values(PharmacyRole).includes(pharmacyRole)) {
+      return NextResponse.json(
+        { error: `Unknown pharmacy role: ${pharmacyRole}` },
+        { status: 400 }
+      );
+    }
+
+    const pharmacyOdsCode = await PrescriptionEventService.getPharmacyOdsCode(pharmacyId);
+    const notification = await PrescriptionEventService.notifyTeam(
+      pharmacyId,
+      pharmacyOdsCode,
+      { type: 'system', category: 'system', title, message, priority, action },
+      { userId, pharmacyRole, createdById: session.user.id }
+    );
+
+    return NextResponse.json({ notification }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error sending notification:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to send notification',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
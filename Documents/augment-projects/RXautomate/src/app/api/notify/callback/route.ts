@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MessagingService from '@/services/MessagingService';
+import { runAsSystem } from '@/lib/db/tenant';
+
+/**
+ * POST /api/notify/callback
+ *
+ * Delivery receipts from GOV.UK Notify. Notify sends the bearer token set as
+ * the service's callback token, which must match NOTIFY_CALLBACK_TOKEN.
+ * A failed delivery moves the message on to the patient's next channel.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const callbackToken = process.env.NOTIFY_CALLBACK_TOKEN;
+    if (!callbackToken || request.headers.get('authorization') !== `Bearer ${callbackToken}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const receipt = await request.json();
+
+    if (!receipt?.id || !receipt?.status) {
+      return NextResponse.json(
+        { error: 'id and status are required' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      // Notify doesn't say whose message it is; the receipt is matched on Notify's ID
+      const message = await runAsSystem(() => MessagingService.handleDeliveryReceipt(receipt));
+      return NextResponse.json({ id: message.id, status: message.status });
+    } catch (error: any) {
+      // A receipt for a message we don't know about won't succeed on retry
+      return NextResponse.json(
+        { error: 'Failed to record delivery receipt', message: error.message },
+        { status: 404 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error handling Notify callback:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to handle delivery receipt',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
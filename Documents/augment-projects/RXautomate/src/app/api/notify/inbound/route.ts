@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import OutboundPolicyService from '@/services/OutboundPolicyService';
+
+/**
+ * POST /api/notify/inbound
+ *
+ * Text messages patients send back, forwarded by GOV.UK Notify with the same
+ * bearer token as delivery receipts (NOTIFY_CALLBACK_TOKEN). A STOP reply
+ * opts the number out of further messages; START opts it back in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const callbackToken = process.env.NOTIFY_CALLBACK_TOKEN;
+    if (!callbackToken || request.headers.get('authorization') !== `Bearer ${callbackToken}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const reply = await request.json();
+
+    if (!reply?.source_number || typeof reply?.message !== 'string') {
+      return NextResponse.json(
+        { error: 'source_number and message are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await OutboundPolicyService.recordReply(reply.source_number, reply.message);
+
+    return NextResponse.json({ id: reply.id, result });
+  } catch (error: any) {
+    console.error('Error handling Notify inbound message:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to handle inbound message',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
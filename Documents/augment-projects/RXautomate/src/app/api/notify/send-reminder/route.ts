@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import NotificationService from '@/services/NotificationService';
-import { prisma } from '@/lib/db/prisma';
+import MessagingService from '@/services/MessagingService';
+import { SUPPRESSION_REASONS, SuppressionReason } from '@/services/OutboundPolicyService';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
+    // Check permission
+    const { error } = await requirePermission('message.send');
+    if (error) {
+      return error;
+    }
+
     const { patientId, prescriptionId, type } = await request.json();
 
     if (!patientId) {
@@ -21,7 +30,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get patient details
-    const patient = await prisma.patient.findUnique({
+    const patient = await tenantPrisma.patient.findUnique({
       where: { id: patientId },
       include: {
         pharmacy: true,
@@ -35,39 +44,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if patient has a phone number
-    if (!patient.phoneNumber) {
-      return NextResponse.json(
-        { error: 'Patient does not have a phone number' },
-        { status: 400 }
-      );
-    }
-
-    // Check for GDPR consent
-    const consent = await prisma.consent.findFirst({
-      where: {
-        patientId: patientId,
-        consentType: 'REMINDER',
-        consentGiven: true,
-        expiryDate: {
-          gt: new Date(),
-        },
-      },
-    });
-
-    if (!consent) {
-      return NextResponse.json(
-        { error: 'Patient has not given consent for reminders' },
-        { status: 403 }
-      );
-    }
-
     let notificationResult;
 
     // Send appropriate reminder based on type
     if (type === 'prescription' && prescriptionId) {
       // Get prescription details
-      const prescription = await prisma.prescription.findUnique({
+      const prescription = await tenantPrisma.prescription.findUnique({
         where: { id: prescriptionId },
         include: {
           pharmacy: true,
@@ -82,10 +64,10 @@ export async function POST(request: NextRequest) {
       }
 
       // Send prescription reminder
-      notificationResult = await NotificationService.sendPrescriptionReminder(patient, prescription);
+      notificationResult = await MessagingService.sendPrescriptionReminder(patient, prescription);
     } else if (type === 'appointment') {
       // Get upcoming appointment
-      const appointment = await prisma.appointment.findFirst({
+      const appointment = await tenantPrisma.appointment.findFirst({
         where: {
           patientId: patientId,
           date: {
@@ -109,7 +91,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Send appointment reminder
-      notificationResult = await NotificationService.sendAppointmentReminder(patient, appointment);
+      notificationResult = await MessagingService.sendAppointmentReminder(patient, appointment);
     } else {
       return NextResponse.json(
         { error: 'Invalid reminder type' },
@@ -117,10 +99,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Consent, a STOP reply or the weekly cap stopped the message
+    if (notificationResult.status === 'SUPPRESSED') {
+      return NextResponse.json(
+        {
+          error: SUPPRESSION_REASONS[notificationResult.suppressionReason as SuppressionReason],
+          reason: notificationResult.suppressionReason,
+        },
+        { status: 403 }
+      );
+    }
+
+    // Every channel refused the message
+    if (notificationResult.status === 'FAILED') {
+      return NextResponse.json(
+        { error: 'Patient could not be reached by SMS, email or letter' },
+        { status: 400 }
+      );
+    }
+
+    let message = 'Reminder sent successfully';
+    if (notificationResult.status === 'DEFERRED') {
+      message = `Reminder will be sent at ${new Date(notificationResult.scheduledFor).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/London' })}, after quiet hours`;
+    } else if (notificationResult.channel === 'LETTER') {
+      message = 'Reminder queued for printing';
+    }
+
     return NextResponse.json({
       success: true,
       notification: notificationResult,
-      message: 'Reminder sent successfully'
+      message
     });
   } catch (error: any) {
     console.error('Error sending reminder:', error);
@@ -133,4 +141,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import OwingService from '@/services/OwingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * POST /api/owings/[id]
+ *
+ * Owing actions:
+ * - fulfil: hand over the balance and record the claim ({ claim } as for dispensing)
+ * - cancel: the patient no longer needs the balance
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('owing.manage');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { action, claim } = await request.json();
+
+    if (action !== 'fulfil' && action !== 'cancel') {
+      return NextResponse.json(
+        { error: `Unknown action: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      if (action === 'fulfil') {
+        const result = await OwingService.fulfilOwing(params.id, pharmacyId, session.user.id, claim);
+        return NextResponse.json(result);
+      }
+
+      const owing = await OwingService.cancelOwing(params.id, pharmacyId, session.user.id);
+      return NextResponse.json({ owing });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Failed to ${action} owing`, message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error processing owing ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process owing',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import OwingService from '@/services/OwingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * POST /api/owings/orders/[id]
+ *
+ * Books in a wholesaler delivery ({ receivedQuantity, invoiceNumber? }), adds it
+ * to stock (and to the CD register for a controlled drug) and marks the owings
+ * it covers as ready, notifying the patients
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('owing.manage');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { receivedQuantity, invoiceNumber } = await request.json();
+
+    if (receivedQuantity === undefined) {
+      return NextResponse.json(
+        { error: 'receivedQuantity is required' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const result = await OwingService.receiveWholesalerOrder(
+        params.id,
+        pharmacyId,
+        Number(receivedQuantity),
+        session.user.id,
+        invoiceNumber
+      );
+
+      return NextResponse.json(result);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to receive wholesaler order', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error receiving wholesaler order ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to receive wholesaler order',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import OwingService from '@/services/OwingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/owings/orders
+ *
+ * Lists the selected pharmacy's wholesaler orders that haven't been delivered,
+ * with the owings waiting on each
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('owing.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const orders = await OwingService.getOpenWholesalerOrders(pharmacyId);
+
+    return NextResponse.json({ orders });
+  } catch (error: any) {
+    console.error('Error fetching wholesaler orders:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch wholesaler orders',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
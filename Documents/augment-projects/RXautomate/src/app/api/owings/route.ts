@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import OwingService, { OWING_STATUSES, OwingStatus } from '@/services/OwingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/owings
+ *
+ * Lists the selected pharmacy's owings, soonest promise first
+ * Optional filter: ?status=OUTSTANDING
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('owing.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') || undefined;
+
+    if (status && !OWING_STATUSES.includes(status as OwingStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const owings = await OwingService.getOwings(pharmacyId, status as OwingStatus | undefined);
+
+    return NextResponse.json({ owings });
+  } catch (error: any) {
+    console.error('Error fetching owings:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch owings',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import UserManagementService from '@/services/UserManagementService';
+
+/**
+ * POST /api/password-reset/[token]
+ *
+ * Choose a new password from a reset link ({ password })
+ * Public: the token in the emailed link is the credential. The user is
+ * signed out of every other session.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { password } = await request.json();
+
+    try {
+      const result = await UserManagementService.resetPassword(params.token, password);
+      return NextResponse.json(result);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to reset password', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error resetting password:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to reset password',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,29 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/db/prisma';
+import { tenantPrisma } from '@/lib/db/tenant';
 import { EPSService } from '@/services/EPSService';
 import { NotificationService } from '@/services/NotificationService';
 import { PatientAdherenceService } from '@/services/PatientAdherenceService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * API handler for getting a patient's adherence data
  * GET /api/patients/[id]/adherence
  */
-export async function GET(
+export const GET = withTenant(async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession();
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { error } = await requirePermission('patient.read');
+    if (error) {
+      return error;
     }
 
     const patientId = params.id;
     
     // Check if patient exists
-    const patient = await prisma.patient.findUnique({
+    const patient = await tenantPrisma.patient.findUnique({
       where: { id: patientId },
     });
 
@@ -62,21 +64,21 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * API handler for recording an adherence intervention
  * POST /api/patients/[id]/adherence/intervention
  */
-export async function POST(
+export const POST = withTenant(async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession();
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('patient.write');
+    if (error) {
+      return error;
     }
 
     const patientId = params.id;
@@ -93,7 +95,7 @@ export async function POST(
     }
     
     // Check if patient exists
-    const patient = await prisma.patient.findUnique({
+    const patient = await tenantPrisma.patient.findUnique({
       where: { id: patientId },
     });
 
@@ -133,4 +135,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
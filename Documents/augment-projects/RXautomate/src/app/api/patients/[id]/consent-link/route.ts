@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ConsentService from '@/services/ConsentService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * POST /api/patients/[id]/consent-link
+ *
+ * Create a one-time link for the patient to give or withdraw consent themselves
+ * Body: { consentTypes?: ConsentType[], send?: boolean }
+ * With send, the link is messaged to the patient on their usual channel;
+ * otherwise its address is returned to hand over
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('patient.write');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { consentTypes, send } = await request.json();
+
+    try {
+      const result = await ConsentService.createLink(params.id, pharmacyId, session.user.id, {
+        consentTypes,
+        send: Boolean(send),
+      });
+      return NextResponse.json(result, { status: 201 });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to create consent link', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error creating consent link for patient ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create consent link',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
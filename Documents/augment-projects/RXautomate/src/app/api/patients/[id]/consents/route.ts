@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ConsentService from '@/services/ConsentService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/patients/[id]/consents
+ *
+ * The patient's consents against the current notices, and every consent recorded
+ */
+export const GET = withTenant(async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('patient.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      return NextResponse.json(await ConsentService.getPatientConsents(params.id, pharmacyId));
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to fetch consents', message: error.message },
+        { status: 404 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error fetching consents for patient ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch consents',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/patients/[id]/consents
+ *
+ * Record answers the patient gave in person
+ * Body: { choices: [{ consentType, given, noticeId, expiryDate? }] }
+ * Each answer names the notice version the patient was shown; answers to
+ * wording that has since changed are rejected
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('patient.write');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { choices } = await request.json();
+
+    try {
+      await ConsentService.recordInPerson(params.id, pharmacyId, choices, session.user.id);
+      return NextResponse.json(await ConsentService.getPatientConsents(params.id, pharmacyId));
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to record consent', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error recording consent for patient ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to record consent',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
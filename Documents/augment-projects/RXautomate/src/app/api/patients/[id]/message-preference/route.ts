@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import MessagingService, { MESSAGE_CHANNELS, MessageChannel } from '@/services/MessagingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * PUT /api/patients/[id]/message-preference
+ *
+ * Set the channel the patient is messaged on first
+ * Body: { preferredChannel: 'SMS' | 'EMAIL' | 'LETTER' | null }
+ * null goes back to SMS, then email, then letter
+ */
+export const PUT = withTenant(async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('patient.write');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const { preferredChannel } = await request.json();
+
+    if (preferredChannel !== null && !MESSAGE_CHANNELS.includes(preferredChannel as MessageChannel)) {
+      return NextResponse.json(
+        { error: `Invalid channel: ${preferredChannel}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const patient = await MessagingService.setPreferredChannel(
+        params.id,
+        pharmacyId,
+        preferredChannel,
+        session.user.id
+      );
+      return NextResponse.json({ patientId: patient.id, preferredChannel: patient.preferredChannel });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: 'Failed to update message preference', message: error.message },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error(`Error updating message preference for patient ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update message preference',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
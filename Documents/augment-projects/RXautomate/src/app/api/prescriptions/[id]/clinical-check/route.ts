@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ClinicalCheckService from '@/services/ClinicalCheckService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * API handler for getting the latest clinical check for a prescription
+ * GET /api/prescriptions/[id]/clinical-check
+ */
+export const GET = withTenant(async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
+    }
+
+    const clinicalCheck = await ClinicalCheckService.getLatestCheck(params.id);
+
+    if (!clinicalCheck) {
+      return NextResponse.json(
+        { error: `Prescription ${params.id} has not been validated` },
+        { status: 404 }
+      );
+    }
+
+    const dispenseCheck = await ClinicalCheckService.checkReadyToDispense(params.id);
+
+    return NextResponse.json({ clinicalCheck, readyToDispense: dispenseCheck.allowed });
+  } catch (error) {
+    console.error('Error fetching clinical check:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch clinical check', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * API handler for a pharmacist signing off a clinical check
+ * POST /api/prescriptions/[id]/clinical-check
+ *
+ * Body: { clinicalCheckId, decisions: [{ issueIndex, decision, overrideReason?, notes? }] }
+ */
+export const POST = withTenant(async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('prescription.clinical_check');
+    if (error) {
+      return error;
+    }
+
+    const { clinicalCheckId, decisions } = await request.json();
+
+    if (!clinicalCheckId || !Array.isArray(decisions)) {
+      return NextResponse.json(
+        { error: 'clinicalCheckId and decisions are required' },
+        { status: 400 }
+      );
+    }
+
+    const latestCheck = await ClinicalCheckService.getLatestCheck(params.id);
+
+    if (!latestCheck || latestCheck.id !== clinicalCheckId) {
+      return NextResponse.json(
+        { error: 'Only the latest clinical check for this prescription can be signed off' },
+        { status: 409 }
+      );
+    }
+
+    if (!(await ClinicalCheckService.isPharmacist(session.user.id, latestCheck.pharmacyId))) {
+      return NextResponse.json(
+        { error: 'Only a pharmacist can sign off a clinical check' },
+        { status: 403 }
+      );
+    }
+
+    try {
+      const clinicalCheck = await ClinicalCheckService.signOff(clinicalCheckId, session.user.id, decisions);
+      return NextResponse.json({ clinicalCheck });
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to sign off clinical check', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error signing off clinical check:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign off clinical check', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+});
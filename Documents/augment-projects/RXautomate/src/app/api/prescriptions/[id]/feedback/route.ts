@@ -1,27 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { prisma } from '@/lib/db/prisma';
+import { tenantPrisma } from '@/lib/db/tenant';
 import axios from 'axios';
+import ValidationRunService from '@/services/ValidationRunService';
+import AuditService from '@/services/AuditService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * API handler for submitting feedback on AI validation results
  * POST /api/prescriptions/[id]/feedback
  */
-export async function POST(
+export const POST = withTenant(async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession();
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('prescription.clinical_check');
+    if (error) {
+      return error;
     }
 
     const prescriptionId = params.id;
     
     // Check if prescription exists
-    const prescription = await prisma.prescription.findUnique({
+    const prescription = await tenantPrisma.prescription.findUnique({
       where: { id: prescriptionId },
     });
 
@@ -34,7 +37,7 @@ export async function POST(
 
     // Parse request body
     const body = await request.json();
-    const { issueId, isPositive, validationResultId } = body;
+    const { issueId, isPositive, validationResultId, comment } = body;
 
     if (!issueId) {
       return NextResponse.json(
@@ -43,20 +46,35 @@ export async function POST(
       );
     }
 
+    if (typeof isPositive !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isPositive must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    // Store the verdict against the persisted issue for AI metrics
+    let issueFeedback;
+    try {
+      issueFeedback = await ValidationRunService.recordFeedback({
+        prescriptionId,
+        issueId,
+        reviewerId: session.user.id,
+        isTruePositive: isPositive,
+        comment
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to record feedback', message: (error as Error).message },
+        { status: 400 }
+      );
+    }
+
     // Log the feedback in the audit trail
-    await prisma.auditLog.create({
-      data: {
-        action: 'AI_VALIDATION_FEEDBACK',
-        category: 'PRESCRIPTION',
-        prescriptionId: prescriptionId,
-        userId: session.user.id || undefined,
-        details: JSON.stringify({
-          issueId,
-          isPositive,
-          validationResultId,
-          timestamp: new Date().toISOString()
-        })
-      }
+    await AuditService.logPrescriptionAction('AI_VALIDATION_FEEDBACK', prescriptionId, session.user.id, {
+      issueId,
+      isPositive,
+      validationResultId,
     });
 
     // If AI API URL is configured, send the feedback to the AI model
@@ -69,6 +87,7 @@ export async function POST(
             issueId,
             isPositive,
             validationResultId,
+            comment,
             timestamp: new Date().toISOString(),
             userId: session.user.id
           },
@@ -89,6 +108,7 @@ export async function POST(
     // Return success response
     return NextResponse.json({
       success: true,
+      feedbackId: issueFeedback.id,
       message: 'Feedback submitted successfully'
     });
   } catch (error) {
@@ -98,4 +118,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
 import EPSService from '@/services/EPSService';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * GET /api/prescriptions/[id]/history
@@ -14,13 +13,10 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
     }
 
     // Extract prescription ID from params
@@ -1,8 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
 import EPSService from '@/services/EPSService';
-import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import DispensingService, { DispenseBlockedError } from '@/services/DispensingService';
+import PrescriptionEventService from '@/services/PrescriptionEventService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * Dispense a prescription through the shared dispense pipeline
+ * @returns The dispense result, or why it was refused
+ */
+async function completePrescription(session: any, id: string, body: any) {
+  try {
+    const result = await DispensingService.dispense(id, {
+      pharmacyId: session.user.selectedPharmacyId,
+      pharmacyOdsCode: body.pharmacyOdsCode,
+      userId: session.user.id,
+      claim: body.claim
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    if (!(error instanceof DispenseBlockedError)) {
+      throw error;
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Cannot dispense prescription',
+        message: error.message,
+        ...error.details
+      },
+      { status: error.statusCode }
+    );
+  }
+}
 
 /**
  * GET /api/prescriptions/[id]
@@ -10,18 +41,15 @@ import InventoryPrescriptionService from '@/services/InventoryPrescriptionServic
  * Retrieves a specific prescription by ID
  * Requires authentication and appropriate permissions
  */
-export async function GET(
+export const GET = withTenant(async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
     }
 
     // Extract prescription ID from params
@@ -48,7 +76,7 @@ export async function GET(
       { status: error.statusCode || 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/prescriptions/[id]
@@ -56,18 +84,15 @@ export async function GET(
  * Updates a prescription status
  * Requires authentication and appropriate permissions
  */
-export async function PUT(
+export const PUT = withTenant(async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('prescription.dispense');
+    if (error) {
+      return error;
     }
 
     // Extract prescription ID from params
@@ -101,36 +126,8 @@ export async function PUT(
       return NextResponse.json(updatedPrescription);
     } 
     else if (action === 'complete') {
-      // Handle completion
-      
-      // Get prescription details
-      const prescription = await EPSService.getPrescription(id);
-      
-      // Check stock before dispensing
-      const stockCheckResult = await InventoryPrescriptionService.checkPrescriptionStock(prescription);
-      
-      // If any items are out of stock, return an error
-      if (stockCheckResult.anyOutOfStock) {
-        return NextResponse.json(
-          {
-            error: 'Cannot dispense prescription',
-            message: 'Some items are out of stock',
-            stockCheckResult
-          },
-          { status: 400 }
-        );
-      }
-      
-      // Complete the prescription
-      const updatedPrescription = await EPSService.completePrescription(id);
-      
-      // Update inventory after dispensing
-      const inventoryUpdate = await InventoryPrescriptionService.updateInventoryAfterDispensing(updatedPrescription);
-      
-      return NextResponse.json({
-        prescription: updatedPrescription,
-        inventoryUpdate
-      });
+      // Handle completion, as the selected pharmacy
+      return await completePrescription(session, id, body);
     }
     else {
       // Regular status update
@@ -141,6 +138,15 @@ export async function PUT(
         );
       }
       
+      // A dispense has to pass the clinical check, the repeat schedule and the
+      // CD register, so it only goes through the dispense pipeline
+      if (status === 'completed') {
+        return NextResponse.json(
+          { error: 'Use the complete action to dispense a prescription' },
+          { status: 400 }
+        );
+      }
+
       // Update the prescription
       const updatedPrescription = await EPSService.updatePrescriptionStatus(id, status, statusReason);
       
@@ -157,26 +163,23 @@ export async function PUT(
       { status: error.statusCode || 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/prescriptions/[id]
  * 
- * Handles various prescription actions (cancel, complete, etc.)
+ * Handles various prescription actions (cancel, complete, return, withdraw)
  * Requires authentication and appropriate permissions
  */
-export async function POST(
+export const POST = withTenant(async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('prescription.dispense');
+    if (error) {
+      return error;
     }
 
     // Extract prescription ID from params
@@ -211,39 +214,43 @@ export async function POST(
         }
         
         // Cancel the prescription
+        const { status: oldStatus } = await EPSService.getPrescription(id);
         const updatedPrescription = await EPSService.cancelPrescription(id, reason);
+
+        await PrescriptionEventService.publishStatusChange(session.user.selectedPharmacyId, updatedPrescription, oldStatus);
         
         return NextResponse.json(updatedPrescription);
       }
       
       case 'complete': {
-        // Get prescription details
-        const prescription = await EPSService.getPrescription(id);
-        
-        // Check stock before dispensing
-        const stockCheckResult = await InventoryPrescriptionService.checkPrescriptionStock(prescription);
-        
-        // If any items are out of stock, return an error
-        if (stockCheckResult.anyOutOfStock) {
+        return await completePrescription(session, id, body);
+      }
+      
+      case 'return':
+      case 'withdraw': {
+        const { reason, dispenseNotificationId } = body;
+
+        if (!reason || !reason.code || !reason.display) {
           return NextResponse.json(
-            {
-              error: 'Cannot dispense prescription',
-              message: 'Some items are out of stock',
-              stockCheckResult
-            },
+            { error: `${action === 'return' ? 'Return' : 'Withdraw'} reason is required` },
             { status: 400 }
           );
         }
-        
-        // Complete the prescription
-        const updatedPrescription = await EPSService.completePrescription(id);
-        
-        // Update inventory after dispensing
-        const inventoryUpdate = await InventoryPrescriptionService.updateInventoryAfterDispensing(updatedPrescription);
-        
+
+        // Only the selected pharmacy can return or withdraw its dispense
+        const pharmacyOdsCode = await DispensingService.resolvePharmacyOdsCode(session.user.selectedPharmacyId, body.pharmacyOdsCode);
+
+        const { status: oldStatus } = await EPSService.getPrescription(id);
+        const outcome = action === 'return'
+          ? await EPSService.returnPrescription(id, pharmacyOdsCode, reason)
+          : await EPSService.withdrawDispenseNotification(id, pharmacyOdsCode, reason, dispenseNotificationId);
+
+        const prescription = await EPSService.getPrescription(id);
+        await PrescriptionEventService.publishStatusChange(session.user.selectedPharmacyId, prescription, oldStatus);
+
         return NextResponse.json({
-          prescription: updatedPrescription,
-          inventoryUpdate
+          prescription,
+          outcome
         });
       }
       
@@ -259,9 +266,10 @@ export async function POST(
     return NextResponse.json(
       { 
         error: 'Failed to process prescription action',
-        message: error.message 
+        message: error.message,
+        validationErrors: error.validationErrors
       },
       { status: error.statusCode || 500 }
     );
   }
-}
+});
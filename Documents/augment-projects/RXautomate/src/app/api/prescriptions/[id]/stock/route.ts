@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
 import EPSService from '@/services/EPSService';
 import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * GET /api/prescriptions/[id]/stock
@@ -10,18 +10,15 @@ import InventoryPrescriptionService from '@/services/InventoryPrescriptionServic
  * Checks if all medications in a prescription are in stock
  * Requires authentication and appropriate permissions
  */
-export async function GET(
+export const GET = withTenant(async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
     }
 
     // Extract prescription ID from params
@@ -51,4 +48,4 @@ export async function GET(
       { status: error.statusCode || 500 }
     );
   }
-}
+});
@@ -1,30 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { prisma } from '@/lib/db/prisma';
+import { tenantPrisma } from '@/lib/db/tenant';
 import { EPSService } from '@/services/EPSService';
 import { NotificationService } from '@/services/NotificationService';
 import { PrescriptionValidationService } from '@/services/PrescriptionValidationService';
 import { AIPrescriptionValidationService } from '@/services/AIPrescriptionValidationService';
+import ClinicalCheckService from '@/services/ClinicalCheckService';
+import ValidationRunService from '@/services/ValidationRunService';
+import AuditService from '@/services/AuditService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * API handler for validating a prescription
  * POST /api/prescriptions/[id]/validate
  */
-export async function POST(
+export const POST = withTenant(async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession();
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { session, error } = await requirePermission('prescription.clinical_check');
+    if (error) {
+      return error;
     }
 
     const prescriptionId = params.id;
     
     // Check if prescription exists
-    const prescription = await prisma.prescription.findUnique({
+    const prescription = await tenantPrisma.prescription.findUnique({
       where: { id: prescriptionId },
     });
 
@@ -36,12 +40,12 @@ export async function POST(
     }
 
     // Initialize services
-    const epsService = new EPSService(prisma);
-    const notificationService = new NotificationService(prisma);
+    const epsService = new EPSService(tenantPrisma);
+    const notificationService = new NotificationService(tenantPrisma);
     
     // Use the AI-powered validation service instead of the base service
     const validationService = new AIPrescriptionValidationService(
-      prisma,
+      tenantPrisma,
       epsService,
       notificationService
     );
@@ -49,22 +53,36 @@ export async function POST(
     // Validate the prescription
     const validationResult = await validationService.validatePrescription(prescriptionId);
 
+    // Keep the run and its issues so reviewers can give feedback on each issue
+    const validationRun = await ValidationRunService.recordRun(
+      prescription.pharmacyId,
+      validationResult,
+      session.user.id
+    );
+
+    // Record the result as a clinical check awaiting the pharmacist's decisions
+    const clinicalCheck = await ClinicalCheckService.createCheck(
+      prescription.pharmacyId,
+      validationResult,
+      session.user.id
+    );
+
     // Log the validation attempt in the audit trail
-    await prisma.auditLog.create({
-      data: {
-        action: 'PRESCRIPTION_VALIDATION_API',
-        category: 'PRESCRIPTION',
-        prescriptionId: prescriptionId,
-        userId: session.user.id || undefined,
-        details: JSON.stringify({
-          validationResult,
-          timestamp: new Date().toISOString()
-        })
-      }
+    await AuditService.logPrescriptionAction('PRESCRIPTION_VALIDATION_API', prescriptionId, session.user.id, {
+      validationResult
     });
 
     // Return the validation result
-    return NextResponse.json(validationResult);
+    return NextResponse.json({
+      ...validationResult,
+      id: validationRun.id,
+      issues: validationResult.issues.map((issue, index) => ({
+        ...issue,
+        id: validationRun.issues[index].id
+      })),
+      clinicalCheckId: clinicalCheck.id,
+      clinicalCheckStatus: clinicalCheck.status
+    });
   } catch (error) {
     console.error('Error validating prescription:', error);
     return NextResponse.json(
@@ -72,58 +90,27 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * API handler for getting validation history for a prescription
  * GET /api/prescriptions/[id]/validate
  */
-export async function GET(
+export const GET = withTenant(async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession();
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Check permission
+    const { error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
     }
 
     const prescriptionId = params.id;
     
-    // Get validation history from audit logs
-    const validationLogs = await prisma.auditLog.findMany({
-      where: {
-        category: 'PRESCRIPTION',
-        prescriptionId: prescriptionId,
-        action: {
-          in: ['PRESCRIPTION_VALIDATION', 'PRESCRIPTION_VALIDATION_API']
-        }
-      },
-      orderBy: {
-        timestamp: 'desc'
-      }
-    });
-
-    // Parse the details from each log
-    const validationHistory = validationLogs.map(log => {
-      try {
-        const details = JSON.parse(log.details || '{}');
-        return {
-          id: log.id,
-          timestamp: log.timestamp,
-          userId: log.userId,
-          result: details.validationResult || details
-        };
-      } catch (e) {
-        return {
-          id: log.id,
-          timestamp: log.timestamp,
-          userId: log.userId,
-          result: { error: 'Failed to parse validation details' }
-        };
-      }
-    });
+    // Get validation runs with their issues and reviewer feedback
+    const validationHistory = await ValidationRunService.getHistory(prescriptionId);
 
     return NextResponse.json(validationHistory);
   } catch (error) {
@@ -133,4 +120,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
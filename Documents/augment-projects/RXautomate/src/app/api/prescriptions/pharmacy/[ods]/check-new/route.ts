@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import PrescriptionEventService from '@/services/PrescriptionEventService';
+import { requirePermission } from '@/middleware/require-permission';
+import { withTenant } from '@/middleware/tenant-context';
+
+/**
+ * GET /api/prescriptions/pharmacy/[ods]/check-new?since=
+ *
+ * Prescriptions written since the cursor and those that started expiring
+ * since it. Only the signed-in user's selected pharmacy can be checked.
+ */
+export const GET = withTenant(async function GET(
+  request: NextRequest,
+  { params }: { params: { ods: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const pharmacyOdsCode = await PrescriptionEventService.getPharmacyOdsCode(pharmacyId);
+    if (!pharmacyOdsCode || pharmacyOdsCode.toUpperCase() !== params.ods.toUpperCase()) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const since = new Date(request.nextUrl.searchParams.get('since') || '');
+    if (isNaN(since.getTime())) {
+      return NextResponse.json(
+        { error: 'A valid since date is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await PrescriptionEventService.checkNew(pharmacyOdsCode, since);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error checking for new prescriptions:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to check for new prescriptions',
+        message: error.message
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import PrescriptionEventService, { PrescriptionEvent } from '@/services/PrescriptionEventService';
+import { requirePermission } from '@/middleware/require-permission';
+import { withTenant } from '@/middleware/tenant-context';
+
+// Streams must never be cached or prerendered
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * GET /api/prescriptions/pharmacy/[ods]/events
+ *
+ * Server-sent events stream of new, expiring and updated prescriptions for the
+ * signed-in user's selected pharmacy. `prescriptions` events carry the cursor
+ * as their id, so a reconnecting browser catches up from Last-Event-ID (or
+ * `?since=` on first connect).
+ */
+export const GET = withTenant(async function GET(
+  request: NextRequest,
+  { params }: { params: { ods: string } }
+) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const pharmacyOdsCode = await PrescriptionEventService.getPharmacyOdsCode(pharmacyId);
+    if (!pharmacyOdsCode || pharmacyOdsCode.toUpperCase() !== params.ods.toUpperCase()) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const lastEventId = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('since');
+    const since = lastEventId ? new Date(lastEventId) : null;
+
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The stream has already closed
+            cleanup?.();
+          }
+        };
+
+        const send = (event: PrescriptionEvent) => {
+          const id = event.type === 'prescriptions' ? `id: ${event.data.cursor}\n` : '';
+          write(`${id}event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        };
+
+        const unsubscribe = PrescriptionEventService.subscribe(pharmacyOdsCode, send);
+        const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          cleanup = null;
+        };
+
+        request.signal.addEventListener('abort', () => {
+          cleanup?.();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        write('retry: 5000\n\n');
+
+        // Catch up on anything missed while disconnected
+        if (since && !isNaN(since.getTime())) {
+          try {
+            const result = await PrescriptionEventService.checkNew(pharmacyOdsCode, since);
+            send({ type: 'prescriptions', data: result });
+          } catch (error) {
+            console.error('Error catching up on prescriptions:', error);
+          }
+        }
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error opening prescription event stream:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to open prescription event stream',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import PrescriptionEventService from '@/services/PrescriptionEventService';
+import { requirePermission } from '@/middleware/require-permission';
+import { withTenant } from '@/middleware/tenant-context';
+
+/**
+ * GET /api/prescriptions/pharmacy
+ *
+ * The selected pharmacy's ODS code, which EPS prescriptions are fetched by
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const pharmacyOdsCode = await PrescriptionEventService.getPharmacyOdsCode(pharmacyId);
+
+    return NextResponse.json({ pharmacyId, pharmacyOdsCode });
+  } catch (error: any) {
+    console.error('Error fetching pharmacy:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch pharmacy',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
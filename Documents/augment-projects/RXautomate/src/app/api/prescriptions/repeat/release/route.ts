@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import RepeatDispensingService from '@/services/RepeatDispensingService';
+import { runAsSystem } from '@/lib/db/tenant';
+import { requirePermission } from '@/middleware/require-permission';
+import { withTenant } from '@/middleware/tenant-context';
+
+/**
+ * POST /api/prescriptions/repeat/release
+ *
+ * Releases repeat dispensing issues that have reached their earliest release
+ * date and reminds the patients. Meant to be called by a scheduler with
+ * `Authorization: Bearer $CRON_SECRET`, which releases every pharmacy's;
+ * signed-in users release their selected pharmacy's.
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isScheduler = Boolean(cronSecret)
+      && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+    if (isScheduler) {
+      // Due issues for every pharmacy
+      const result = await runAsSystem(() => RepeatDispensingService.releaseDueIssues());
+      return NextResponse.json(result);
+    }
+
+    // Check permission
+    const { session, error } = await requirePermission('prescription.update');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    // Only the selected pharmacy's due issues
+    const result = await RepeatDispensingService.releaseDueIssues(new Date(), pharmacyId);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error releasing repeat dispensing issues:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to release repeat dispensing issues',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import RepeatDispensingService from '@/services/RepeatDispensingService';
+import DispensingService, { DispenseBlockedError } from '@/services/DispensingService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
+
+/**
+ * GET /api/prescriptions/repeat
+ *
+ * The selected pharmacy's repeat dispensing (eRD) issues due this week,
+ * including any released earlier and not yet dispensed
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const issues = await RepeatDispensingService.getDueThisWeek(pharmacyId);
+
+    return NextResponse.json({ issues });
+  } catch (error: any) {
+    console.error('Error fetching repeat dispensing queue:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch repeat dispensing queue',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/prescriptions/repeat
+ *
+ * Repeat dispensing actions for the selected pharmacy:
+ * - create: set up a REPEAT prescription ({ prescriptionId, authorisedIssues, issueIntervalDays, firstReleaseDate? })
+ * - dispense: dispense an issue in EPS ({ issueId, claim? }) as the selected pharmacy and schedule the next
+ * - cancel: cancel the remaining issues ({ scheduleId })
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    // Check permission; dispensing an issue needs the same permission as any other dispense
+    const { session, error } = await requirePermission(
+      action === 'dispense' ? 'prescription.dispense' : 'prescription.update'
+    );
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      switch (action) {
+        case 'create': {
+          if (!body.prescriptionId) {
+            return NextResponse.json(
+              { error: 'prescriptionId is required' },
+              { status: 400 }
+            );
+          }
+
+          const schedule = await RepeatDispensingService.createSchedule(body.prescriptionId, pharmacyId, {
+            authorisedIssues: Number(body.authorisedIssues),
+            issueIntervalDays: Number(body.issueIntervalDays),
+            firstReleaseDate: body.firstReleaseDate ? new Date(body.firstReleaseDate) : undefined,
+            userId: session.user.id
+          });
+          return NextResponse.json({ schedule }, { status: 201 });
+        }
+
+        case 'dispense': {
+          if (!body.issueId) {
+            return NextResponse.json(
+              { error: 'issueId is required' },
+              { status: 400 }
+            );
+          }
+
+          // The same checks, Dispense Notification, stock deduction and claim as any other dispense
+          const result = await DispensingService.dispenseRepeatIssue(body.issueId, {
+            pharmacyId,
+            pharmacyOdsCode: body.pharmacyOdsCode,
+            userId: session.user.id,
+            claim: body.claim
+          });
+          return NextResponse.json(result);
+        }
+
+        case 'cancel': {
+          if (!body.scheduleId) {
+            return NextResponse.json(
+              { error: 'scheduleId is required' },
+              { status: 400 }
+            );
+          }
+
+          const schedule = await RepeatDispensingService.cancelSchedule(body.scheduleId, pharmacyId, session.user.id);
+          return NextResponse.json({ schedule });
+        }
+
+        default:
+          return NextResponse.json(
+            { error: `Unknown action: ${action}` },
+            { status: 400 }
+          );
+      }
+    } catch (error: any) {
+      // Only a refused dispense is the caller's to fix
+      if (action === 'dispense' && !(error instanceof DispenseBlockedError)) {
+        throw error;
+      }
+
+      return NextResponse.json(
+        { error: `Failed to ${action} repeat dispensing`, message: error.message, ...error.details },
+        { status: error.statusCode || 400 }
+      );
+    }
+  } catch (error: any) {
+    console.error('Error processing repeat dispensing request:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process repeat dispensing request',
+        message: error.message
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
 import EPSService, { PrescriptionSearchParams } from '@/services/EPSService';
-import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import DispensingService, { DispenseBlockedError } from '@/services/DispensingService';
+import PrescriptionEventService from '@/services/PrescriptionEventService';
+import { withTenant } from '@/middleware/tenant-context';
+import { requirePermission } from '@/middleware/require-permission';
 
 /**
  * Consolidated API routes for prescriptions
@@ -19,15 +20,12 @@ import InventoryPrescriptionService from '@/services/InventoryPrescriptionServic
  * Retrieves prescriptions with optional filters
  * Requires authentication and appropriate permissions
  */
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check permission
+    const { session, error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
     }
 
     // Extract query parameters
@@ -58,6 +56,14 @@ export async function GET(request: NextRequest) {
 
     // Fetch prescriptions based on provided parameters
     if (pharmacyOdsCode) {
+      // Only the selected pharmacy's prescriptions can be listed
+      const selectedOdsCode = session.user.selectedPharmacyId
+        ? await PrescriptionEventService.getPharmacyOdsCode(session.user.selectedPharmacyId)
+        : null;
+      if (!selectedOdsCode || selectedOdsCode.toUpperCase() !== pharmacyOdsCode.toUpperCase()) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+
       // Fetch prescriptions for a pharmacy
       const prescriptions = await EPSService.getPharmacyPrescriptions(pharmacyOdsCode, searchParams);
       return NextResponse.json(prescriptions);
@@ -83,7 +89,7 @@ export async function GET(request: NextRequest) {
       { status: error.statusCode || 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/prescriptions/search
@@ -91,21 +97,20 @@ export async function GET(request: NextRequest) {
  * Advanced search for prescriptions with multiple parameters
  * Requires authentication and appropriate permissions
  */
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
     // Get the path to determine the action
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // Check permission; batch actions dispense, search only reads
+    const { session, error } = await requirePermission(
+      path.endsWith('/batch') ? 'prescription.dispense' : 'prescription.read'
+    );
+    if (error) {
+      return error;
+    }
+
     // Handle different actions based on the path
     if (path.endsWith('/search')) {
       // Advanced search
@@ -126,7 +131,7 @@ export async function POST(request: NextRequest) {
     else if (path.endsWith('/batch')) {
       // Batch processing
       const body = await request.json();
-      const { action, prescriptionIds, reason } = body;
+      const { action, prescriptionIds, reason, pharmacyOdsCode, claims, owings } = body;
 
       // Validate request
       if (!action) {
@@ -154,37 +159,62 @@ export async function POST(request: NextRequest) {
       const results = [];
       const errors = [];
       const inventoryUpdates = [];
+      const claimErrors = [];
 
       for (const prescriptionId of prescriptionIds) {
         try {
-          let result;
-
           if (action === 'dispense') {
-            // Get prescription details
-            const prescription = await EPSService.getPrescription(prescriptionId);
+            // Supply what's in stock and owe the balance; the claim waits until the owing is fulfilled
+            const dispensed = await DispensingService.dispense(prescriptionId, {
+              pharmacyId: session.user.selectedPharmacyId,
+              pharmacyOdsCode,
+              userId: session.user.id,
+              claim: claims?.[prescriptionId],
+              allowPartial: true,
+              promisedDate: owings?.[prescriptionId]?.promisedDate
+                ? new Date(owings[prescriptionId].promisedDate)
+                : undefined
+            });
 
-            // Check stock before dispensing
-            const stockCheckResult = await InventoryPrescriptionService.checkPrescriptionStock(prescription);
+            if ('inventoryUpdates' in dispensed) {
+              inventoryUpdates.push(...dispensed.inventoryUpdates);
+            } else if (dispensed.inventoryUpdate) {
+              inventoryUpdates.push(dispensed.inventoryUpdate);
+            }
+
+            // The prescription is dispensed in EPS by now, so a claim failure is reported rather than failing the item
+            if ('claimError' in dispensed && dispensed.claimError) {
+              claimErrors.push({ id: prescriptionId, error: dispensed.claimError });
+            }
 
-            // If any items are out of stock, skip this prescription
-            if (stockCheckResult.anyOutOfStock) {
-              errors.push({
+            if ('owings' in dispensed) {
+              results.push({
                 id: prescriptionId,
-                success: false,
-                error: 'Some items are out of stock'
+                success: true,
+                status: 'partial',
+                owings: dispensed.owings.map(owing => ({
+                  owingId: owing.id,
+                  medicationName: owing.medicationName,
+                  quantitySupplied: owing.quantitySupplied,
+                  quantityOwed: owing.quantityOwed,
+                  promisedDate: owing.promisedDate
+                }))
+              });
+            } else {
+              results.push({
+                id: prescriptionId,
+                success: true,
+                status: dispensed.prescription.status
               });
-              continue;
             }
+            continue;
+          }
 
-            // Complete the prescription
-            result = await EPSService.completePrescription(prescriptionId);
+          const oldStatus = (await EPSService.getPrescription(prescriptionId)).status;
+          const result = await EPSService.cancelPrescription(prescriptionId, reason!);
 
-            // Update inventory after dispensing
-            const inventoryUpdate = await InventoryPrescriptionService.updateInventoryAfterDispensing(result);
-            inventoryUpdates.push(inventoryUpdate);
-          } else {
-            result = await EPSService.cancelPrescription(prescriptionId, reason!);
-          }
+          // Update every open terminal
+          await PrescriptionEventService.publishStatusChange(session.user.selectedPharmacyId, result, oldStatus);
 
           results.push({
             id: prescriptionId,
@@ -197,7 +227,8 @@ export async function POST(request: NextRequest) {
           errors.push({
             id: prescriptionId,
             success: false,
-            error: error.message || 'Unknown error'
+            error: error.message || 'Unknown error',
+            ...(error instanceof DispenseBlockedError ? error.details : {})
           });
         }
       }
@@ -207,6 +238,7 @@ export async function POST(request: NextRequest) {
         results,
         errors,
         inventoryUpdates: action === 'dispense' ? inventoryUpdates : undefined,
+        claimErrors: action === 'dispense' ? claimErrors : undefined,
         timestamp: new Date().toISOString()
       });
     }
@@ -228,4 +260,4 @@ export async function POST(request: NextRequest) {
       { status: error.statusCode || 500 }
     );
   }
-}
+});
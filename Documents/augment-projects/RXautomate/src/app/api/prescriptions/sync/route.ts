@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import PrescriptionSyncService from '@/services/PrescriptionSyncService';
+import { runAsSystem } from '@/lib/db/tenant';
+import { requirePermission } from '@/middleware/require-permission';
+import { withTenant } from '@/middleware/tenant-context';
+
+/**
+ * GET /api/prescriptions/sync
+ *
+ * Where the selected pharmacy's nominated prescription sync got to, and the
+ * prescriptions it has given up retrying
+ */
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    // Check permission
+    const { session, error } = await requirePermission('prescription.read');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const cursor = await PrescriptionSyncService.getCursor(pharmacyId);
+    const deadLetters = await PrescriptionSyncService.getDeadLetters(pharmacyId);
+
+    return NextResponse.json({ cursor, deadLetters });
+  } catch (error: any) {
+    console.error('Error fetching prescription sync status:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch prescription sync status',
+        message: error.message
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/prescriptions/sync
+ *
+ * Pulls new and changed nominated prescriptions from EPS into the local tables.
+ * A scheduler calling with `Authorization: Bearer $CRON_SECRET` syncs every
+ * pharmacy; a signed-in user syncs their selected pharmacy.
+ */
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`) {
+      // Every pharmacy, across organisations
+      const results = await runAsSystem(() => PrescriptionSyncService.syncAllPharmacies());
+      return NextResponse.json({ results });
+    }
+
+    // Check permission
+    const { session, error } = await requirePermission('prescription.update');
+    if (error) {
+      return error;
+    }
+
+    const pharmacyId = session.user.selectedPharmacyId;
+    if (!pharmacyId) {
+      return NextResponse.json(
+        { error: 'No pharmacy selected' },
+        { status: 400 }
+      );
+    }
+
+    const result = await PrescriptionSyncService.syncPharmacy(pharmacyId);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error syncing prescriptions:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to sync prescriptions',
+        message: error.message
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import SetPasswordForm from '@/components/auth/SetPasswordForm';
+
+interface Invitation {
+  name: string;
+  email: string;
+  organizationName: string | null;
+}
+
+export default function AcceptInvitePage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'This invitation is invalid or has expired');
+          return;
+        }
+
+        setInvitation(data.invitation);
+      } catch (err) {
+        setError('Failed to load your invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      fetchInvitation();
+    } else {
+      setError('This invitation link is incomplete');
+      setLoading(false);
+    }
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="max-w-md w-full p-6 bg-white rounded-lg shadow-md">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-nhs-blue">Welcome to RXautomate</h1>
+          {invitation && (
+            <p className="text-gray-600 mt-2">
+              {invitation.name}, choose a password for {invitation.email}
+              {invitation.organizationName ? ` at ${invitation.organizationName}` : ''}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-nhs-blue" />
+          </div>
+        ) : error ? (
+          <div className="text-center">
+            <p className="text-red-600 mb-4">{error}</p>
+            <p className="text-sm text-gray-600">
+              Ask your administrator to send you a new invitation, or{' '}
+              <Link href="/auth/login" className="text-nhs-blue underline-offset-4 hover:underline">
+                sign in
+              </Link>{' '}
+              if you've already set your password.
+            </p>
+          </div>
+        ) : (
+          <SetPasswordForm
+            action={`/api/invitations/${encodeURIComponent(token)}`}
+            submitLabel="Set password and sign in"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,12 +5,14 @@ import { useSearchParams } from 'next/navigation';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CreditCard, User } from 'lucide-react';
 import LoginForm from '@/components/auth/LoginForm';
-import SmartcardLogin from '@/components/auth/SmartcardLogin';
+import Cis2Login from '@/components/auth/Cis2Login';
 
 export default function LoginPage() {
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get('callbackUrl') || '/';
-  const [activeTab, setActiveTab] = useState<string>('credentials');
+  const error = searchParams.get('error');
+  // Failed CIS2 sign-ins come back here with an error, so show them on the smartcard tab
+  const [activeTab, setActiveTab] = useState<string>(error ? 'smartcard' : 'credentials');
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -39,7 +41,7 @@ export default function LoginPage() {
           </TabsContent>
 
           <TabsContent value="smartcard">
-            <SmartcardLogin callbackUrl={callbackUrl} />
+            <Cis2Login callbackUrl={callbackUrl} error={error} />
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,38 @@
+'use client';
+
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import SetPasswordForm from '@/components/auth/SetPasswordForm';
+
+export default function ResetPasswordPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="max-w-md w-full p-6 bg-white rounded-lg shadow-md">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-nhs-blue">Reset your password</h1>
+          <p className="text-gray-600 mt-2">
+            You'll be signed out everywhere else once it's changed
+          </p>
+        </div>
+
+        {token ? (
+          <SetPasswordForm
+            action={`/api/password-reset/${encodeURIComponent(token)}`}
+            submitLabel="Reset password and sign in"
+          />
+        ) : (
+          <p className="text-center text-sm text-gray-600">
+            This reset link is incomplete. Ask your administrator for a new one, or{' '}
+            <Link href="/auth/login" className="text-nhs-blue underline-offset-4 hover:underline">
+              go back to sign in
+            </Link>
+            .
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
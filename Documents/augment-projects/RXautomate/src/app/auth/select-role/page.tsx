@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { signOut, useSession } from 'next-auth/react';
+import { Loader2 } from 'lucide-react';
+
+const PHARMACY_ROLE_LABELS: Record<string, string> = {
+  ADMIN: 'Admin',
+  PHARMACIST: 'Pharmacist',
+  TECHNICIAN: 'Technician',
+  STAFF: 'Staff',
+};
+
+export default function SelectRolePage() {
+  const { data: session, update } = useSession();
+  const router = useRouter();
+  const [selecting, setSelecting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const roles = session?.user?.cis2Roles || [];
+
+  const handleSelectRole = async (roleId: string) => {
+    try {
+      setSelecting(roleId);
+      setError(null);
+
+      const updated = await update({ cis2RoleId: roleId });
+      if (updated?.user?.cis2RoleId !== roleId) {
+        throw new Error('Role not selected');
+      }
+
+      router.push('/');
+    } catch (error) {
+      console.error('Error selecting role:', error);
+      setError('Failed to select role. Please try again.');
+      setSelecting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h1 className="text-center text-3xl font-extrabold text-nhs-blue">
+            Select a Role
+          </h1>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Your smartcard holds more than one role. Choose the one you're working in this session.
+          </p>
+        </div>
+
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {error && (
+            <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-4">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {roles.map((role) => (
+              <button
+                key={role.roleId}
+                className="w-full flex items-center p-4 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-nhs-blue"
+                onClick={() => handleSelectRole(role.roleId)}
+                disabled={selecting !== null}
+              >
+                <div className="flex-1 text-left">
+                  <h3 className="text-lg font-medium text-gray-900">{role.roleName}</h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {role.pharmacyName} ({role.odsCode})
+                  </p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Works here as: {PHARMACY_ROLE_LABELS[role.pharmacyRole] || role.pharmacyRole}
+                  </p>
+                </div>
+                {selecting === role.roleId && (
+                  <Loader2 className="h-5 w-5 animate-spin text-nhs-blue" />
+                )}
+              </button>
+            ))}
+            {session && roles.length === 0 && (
+              <p className="text-center text-gray-500">None of your roles give access to a pharmacy here.</p>
+            )}
+          </div>
+
+          <div className="mt-6 text-center text-sm">
+            <button
+              className="font-medium text-nhs-blue hover:text-nhs-dark-blue"
+              onClick={() => signOut({ callbackUrl: '/auth/login' })}
+            >
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Layout from '@/components/Layout';
+
+type ClaimStatus = 'PENDING' | 'SUBMITTED' | 'ACCEPTED' | 'REJECTED' | 'PAID';
+
+interface Claim {
+  id: string;
+  prescriptionId: string;
+  dispensedAt: string;
+  exemptionCategory: string | null;
+  chargesCollected: number;
+  expectedAmount: number;
+  paidAmount: number | null;
+  status: ClaimStatus;
+  rejectionReason: string | null;
+  items: { id: string; medicationName: string; quantity: number; unit: string | null; endorsements: string[] }[];
+}
+
+interface Reconciliation {
+  claimPeriod: string;
+  expectedTotal: number;
+  paidTotal: number;
+  variance: number;
+  outstandingTotal: number;
+  unclaimedCount: number;
+  byStatus: Record<ClaimStatus, { count: number; expected: number; paid: number }>;
+  underpaid: { id: string }[];
+}
+
+const STATUS_STYLES: Record<ClaimStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  SUBMITTED: 'bg-blue-100 text-blue-800',
+  ACCEPTED: 'bg-indigo-100 text-indigo-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  PAID: 'bg-green-100 text-green-800',
+};
+
+// Format currency
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+  }).format(amount);
+};
+
+export default function ClaimsPage() {
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [period]);
+
+  const fetchClaims = async () => {
+    setLoading(true);
+    try {
+      const [claimsResponse, reconciliationResponse] = await Promise.all([
+        fetch(`/api/claims?period=${period}`),
+        fetch(`/api/claims/reconciliation?period=${period}`),
+      ]);
+
+      if (!claimsResponse.ok || !reconciliationResponse.ok) {
+        throw new Error('Failed to fetch claims');
+      }
+
+      setClaims((await claimsResponse.json()).claims);
+      setReconciliation(await reconciliationResponse.json());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while fetching claims');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (body: Record<string, string>) => {
+    setWorking(true);
+    try {
+      const response = await fetch('/api/claims', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Claim action failed');
+      }
+
+      if (body.action === 'submit') {
+        const submitted = data.batches.reduce((sum: number, batch: { claimCount: number }) => sum + batch.claimCount, 0);
+        setMessage(`Submitted ${submitted} claim(s)${data.errors.length ? `; ${data.errors.length} batch(es) failed` : ''}`);
+      } else if (body.action === 'refresh') {
+        setMessage(`${data.updated} claim(s) updated`);
+      } else {
+        setMessage('Claim queued for resubmission');
+      }
+
+      setError(null);
+      await fetchClaims();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const underpaidIds = new Set(reconciliation?.underpaid.map(claim => claim.id) || []);
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6">
+          <h1 className="text-2xl font-bold">NHSBSA Claims</h1>
+          <div className="mt-4 sm:mt-0 flex items-center space-x-2">
+            <input
+              type="month"
+              className="px-3 py-2 border rounded-md"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+            />
+            <button
+              className="px-4 py-2 border border-nhs-blue text-nhs-blue rounded-md hover:bg-gray-50 disabled:opacity-50"
+              onClick={() => runAction({ action: 'refresh' })}
+              disabled={working}
+            >
+              Refresh Statuses
+            </button>
+            <button
+              className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+              onClick={() => runAction({ action: 'submit' })}
+              disabled={working}
+            >
+              Submit Pending Claims
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+            <p className="font-medium">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-800 rounded-md">
+            {message}
+          </div>
+        )}
+
+        {reconciliation && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-white p-4 rounded-lg shadow-md">
+              <p className="text-sm text-gray-500">Expected</p>
+              <p className="text-2xl font-semibold">{formatCurrency(reconciliation.expectedTotal)}</p>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-md">
+              <p className="text-sm text-gray-500">Paid</p>
+              <p className="text-2xl font-semibold">{formatCurrency(reconciliation.paidTotal)}</p>
+              <p className={`text-sm ${reconciliation.variance < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                Variance {formatCurrency(reconciliation.variance)}
+              </p>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-md">
+              <p className="text-sm text-gray-500">Outstanding</p>
+              <p className="text-2xl font-semibold">{formatCurrency(reconciliation.outstandingTotal)}</p>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-md">
+              <p className="text-sm text-gray-500">Not yet claimed</p>
+              <p className="text-2xl font-semibold">{reconciliation.unclaimedCount}</p>
+              <p className="text-sm text-gray-500">{reconciliation.byStatus.REJECTED.count} rejected</p>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Dispensed
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Items
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Exemption / Charge
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expected / Paid
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {claims.map((claim) => (
+                  <tr key={claim.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(claim.dispensedAt).toLocaleDateString('en-GB')}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {claim.items.map((item) => (
+                        <div key={item.id}>
+                          {item.medicationName} × {item.quantity}{item.unit ? ` ${item.unit}` : ''}
+                          {item.endorsements.length > 0 && (
+                            <span className="ml-2 text-xs text-gray-500">{item.endorsements.join(', ')}</span>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {claim.exemptionCategory ? `Exempt (${claim.exemptionCategory})` : formatCurrency(claim.chargesCollected)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(claim.expectedAmount)}
+                      {' / '}
+                      <span className={underpaidIds.has(claim.id) ? 'text-red-600 font-medium' : ''}>
+                        {claim.paidAmount === null ? '—' : formatCurrency(claim.paidAmount)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[claim.status]}`}>
+                        {claim.status}
+                      </span>
+                      {claim.status === 'REJECTED' && (
+                        <div className="mt-1">
+                          <p className="text-gray-600">{claim.rejectionReason}</p>
+                          <button
+                            className="text-nhs-blue hover:underline disabled:opacity-50"
+                            onClick={() => runAction({ action: 'resubmit', claimId: claim.id })}
+                            disabled={working}
+                          >
+                            Resubmit
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!loading && claims.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No claims for this month.
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
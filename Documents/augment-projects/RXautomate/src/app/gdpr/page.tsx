@@ -1,191 +1,252 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import Layout from '@/components/Layout';
-import ConsentForm from '@/components/ConsentForm';
-import { ConsentType } from '@prisma/client';
-
-// Mock data for demonstration
-const mockPatients = [
-  {
-    id: '1',
-    name: 'John Smith',
-    nhsNumber: '1234567890',
-    dateOfBirth: new Date('1980-05-15'),
-    consents: [
-      {
-        type: 'MARKETING' as ConsentType,
-        given: true,
-        date: new Date('2023-01-10'),
-        expiry: new Date('2025-01-10'),
-      },
-      {
-        type: 'REMINDER' as ConsentType,
-        given: true,
-        date: new Date('2023-01-10'),
-        expiry: new Date('2025-01-10'),
-      },
-      {
-        type: 'DATA_SHARING' as ConsentType,
-        given: false,
-        date: null,
-        expiry: null,
-      },
-      {
-        type: 'VACCINATION' as ConsentType,
-        given: true,
-        date: new Date('2023-01-10'),
-        expiry: new Date('2025-01-10'),
-      },
-    ],
-  },
-  {
-    id: '2',
-    name: 'Emma Johnson',
-    nhsNumber: '0987654321',
-    dateOfBirth: new Date('1975-08-22'),
-    consents: [
-      {
-        type: 'MARKETING' as ConsentType,
-        given: false,
-        date: null,
-        expiry: null,
-      },
-      {
-        type: 'REMINDER' as ConsentType,
-        given: true,
-        date: new Date('2022-11-05'),
-        expiry: new Date('2024-11-05'),
-      },
-      {
-        type: 'DATA_SHARING' as ConsentType,
-        given: true,
-        date: new Date('2022-11-05'),
-        expiry: new Date('2024-11-05'),
-      },
-      {
-        type: 'VACCINATION' as ConsentType,
-        given: false,
-        date: null,
-        expiry: null,
-      },
-    ],
-  },
-  {
-    id: '3',
-    name: 'David Williams',
-    nhsNumber: '5678901234',
-    dateOfBirth: new Date('1990-03-10'),
-    consents: [
-      {
-        type: 'MARKETING' as ConsentType,
-        given: true,
-        date: new Date('2023-02-15'),
-        expiry: new Date('2025-02-15'),
-      },
-      {
-        type: 'REMINDER' as ConsentType,
-        given: true,
-        date: new Date('2023-02-15'),
-        expiry: new Date('2025-02-15'),
-      },
-      {
-        type: 'DATA_SHARING' as ConsentType,
-        given: true,
-        date: new Date('2023-02-15'),
-        expiry: new Date('2025-02-15'),
-      },
-      {
-        type: 'VACCINATION' as ConsentType,
-        given: true,
-        date: new Date('2023-02-15'),
-        expiry: new Date('2025-02-15'),
-      },
-    ],
-  },
-];
+import ConsentForm, { ConsentChoice, ConsentSummary } from '@/components/ConsentForm';
+
+interface PatientResult {
+  id: string;
+  firstName: string;
+  lastName: string;
+  nhsNumber: string;
+  dateOfBirth: string;
+}
+
+interface PatientConsents {
+  patient: { id: string; firstName: string; lastName: string; nhsNumber: string };
+  consents: ConsentSummary[];
+}
+
+interface ReconsentSummary {
+  consentType: string;
+  notice: { version: number; title: string };
+  patients: number;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  SMS: 'SMS',
+  EMAIL: 'email',
+  LETTER: 'letter',
+};
 
 export default function GDPRPage() {
-  const [patients, setPatients] = useState(mockPatients);
+  const [patients, setPatients] = useState<PatientResult[]>([]);
   const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PatientConsents | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [reconsent, setReconsent] = useState<ReconsentSummary[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReconsentSummary();
+  }, []);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => fetchPatients(searchTerm), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    if (selectedPatientId) {
+      fetchConsents(selectedPatientId);
+    } else {
+      setSelected(null);
+    }
+  }, [selectedPatientId]);
+
+  const fetchPatients = async (search: string) => {
+    try {
+      const response = await fetch(`/api/gdpr/consents?search=${encodeURIComponent(search)}`);
 
-  // Get selected patient
-  const selectedPatient = selectedPatientId
-    ? patients.find(patient => patient.id === selectedPatientId)
-    : null;
+      if (!response.ok) {
+        throw new Error('Failed to search patients');
+      }
 
-  // Handle patient selection
-  const handlePatientSelect = (id: string) => {
-    setSelectedPatientId(id);
+      setPatients((await response.json()).patients);
+    } catch (err: any) {
+      setError(err.message);
+    }
   };
 
-  // Handle consent update
-  const handleSaveConsent = (patientId: string, consentType: ConsentType, given: boolean, expiryDate: Date | null) => {
-    setPatients(prev =>
-      prev.map(patient => {
-        if (patient.id === patientId) {
-          const updatedConsents = patient.consents.map(consent => {
-            if (consent.type === consentType) {
-              return {
-                ...consent,
-                given,
-                date: given ? new Date() : null,
-                expiry: expiryDate,
-              };
-            }
-            return consent;
-          });
-          
-          return {
-            ...patient,
-            consents: updatedConsents,
-          };
-        }
-        return patient;
-      })
-    );
-    
-    alert(`Consent updated for ${selectedPatient?.name}`);
+  const fetchConsents = async (patientId: string) => {
+    try {
+      const response = await fetch(`/api/patients/${patientId}/consents`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to fetch consents');
+      }
+
+      setSelected(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
   };
 
-  // Filter patients by search term
-  const filteredPatients = patients.filter(patient =>
-    patient.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    patient.nhsNumber.includes(searchTerm)
-  );
+  const fetchReconsentSummary = async () => {
+    try {
+      const response = await fetch('/api/gdpr/reconsent');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch re-consent summary');
+      }
 
-  // Get consent status label
-  const getConsentStatusLabel = (given: boolean) => {
-    return given ? 'Consented' : 'Not Consented';
+      setReconsent((await response.json()).summary);
+    } catch (err: any) {
+      setError(err.message);
+    }
   };
 
-  // Get consent type label
-  const getConsentTypeLabel = (type: ConsentType) => {
-    switch (type) {
-      case 'MARKETING':
-        return 'Marketing';
-      case 'REMINDER':
-        return 'Reminders';
-      case 'DATA_SHARING':
-        return 'Data Sharing';
-      case 'VACCINATION':
-        return 'Vaccinations';
-      default:
-        return type;
+  // Record an answer the patient gave in person
+  const handleRecord = async (choice: ConsentChoice) => {
+    if (!selected) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/patients/${selected.patient.id}/consents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ choices: [choice] }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to record consent');
+      }
+
+      setSelected(data);
+      setNotice(`Consent recorded for ${data.patient.firstName} ${data.patient.lastName}`);
+      setError(null);
+      fetchReconsentSummary();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
     }
   };
 
+  // Message the patient a link to answer for themselves
+  const handleSendLink = async () => {
+    if (!selected) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/patients/${selected.patient.id}/consent-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ send: true }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to create consent link');
+      }
+
+      setNotice(
+        data.link.channel
+          ? `Consent link sent by ${CHANNEL_LABELS[data.link.channel] || data.link.channel}`
+          : `The link couldn't be sent (${(data.message?.status || 'no contact details').toLowerCase()}). Give the patient this address instead: ${data.url}`
+      );
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Ask everyone who consented to earlier wording again
+  const handleSendReconsent = async (summary: ReconsentSummary) => {
+    if (!window.confirm(`Send a consent link to ${summary.patients} patient(s) about "${summary.notice.title}"?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/gdpr/reconsent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ consentType: summary.consentType }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to send re-consent links');
+      }
+
+      setNotice(
+        `${data.sent} link(s) sent, ${data.notSent} couldn't be sent` +
+        (data.alreadyAsked ? `, ${data.alreadyAsked} already asked` : '')
+      );
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const outstanding = reconsent.filter(summary => summary.patients > 0);
+
   return (
     <Layout>
       <div className="max-w-6xl mx-auto">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-2xl font-bold">GDPR Compliance</h1>
-          <button className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue">
-            Export Consent Report
-          </button>
+          <div className="flex space-x-2">
+            <Link href="/gdpr/requests" className="px-4 py-2 border border-nhs-blue text-nhs-blue rounded-md hover:bg-gray-50">
+              Data Subject Requests
+            </Link>
+            <button className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue">
+              Export Consent Report
+            </button>
+          </div>
         </div>
 
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {notice && (
+          <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-800 rounded-md break-words">
+            {notice}
+          </div>
+        )}
+
+        {outstanding.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="font-medium mb-2">Consent Wording Has Changed</h2>
+            <ul className="divide-y divide-gray-200">
+              {outstanding.map((summary) => (
+                <li key={summary.consentType} className="py-2 flex justify-between items-center">
+                  <span className="text-sm text-gray-700">
+                    {summary.patients} patient(s) consented to an earlier version of &quot;{summary.notice.title}&quot;
+                    {' '}(now version {summary.notice.version})
+                  </span>
+                  <button
+                    className="px-3 py-1 text-sm bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                    onClick={() => handleSendReconsent(summary)}
+                    disabled={saving}
+                  >
+                    Send Links
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-1">
             <div className="bg-white rounded-lg shadow-md p-4 mb-4">
@@ -200,38 +261,27 @@ export default function GDPRPage() {
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
-            
+
             <div className="bg-white rounded-lg shadow-md overflow-hidden">
               <h2 className="bg-gray-50 px-4 py-2 font-medium">Patient List</h2>
-              {filteredPatients.length > 0 ? (
+              {patients.length > 0 ? (
                 <ul className="divide-y divide-gray-200">
-                  {filteredPatients.map((patient) => (
+                  {patients.map((patient) => (
                     <li
                       key={patient.id}
                       className={`p-4 cursor-pointer hover:bg-gray-50 ${
                         selectedPatientId === patient.id ? 'bg-blue-50' : ''
                       }`}
-                      onClick={() => handlePatientSelect(patient.id)}
+                      onClick={() => {
+                        setSelectedPatientId(patient.id);
+                        setNotice(null);
+                      }}
                     >
-                      <h3 className="font-medium">{patient.name}</h3>
+                      <h3 className="font-medium">{patient.firstName} {patient.lastName}</h3>
                       <p className="text-sm text-gray-600">NHS: {patient.nhsNumber}</p>
                       <p className="text-sm text-gray-600">
-                        DOB: {patient.dateOfBirth.toLocaleDateString()}
+                        DOB: {new Date(patient.dateOfBirth).toLocaleDateString('en-GB')}
                       </p>
-                      <div className="mt-2 flex flex-wrap gap-1">
-                        {patient.consents.map((consent, index) => (
-                          <span
-                            key={index}
-                            className={`px-2 py-0.5 rounded-full text-xs ${
-                              consent.given
-                                ? 'bg-green-100 text-green-800'
-                                : 'bg-red-100 text-red-800'
-                            }`}
-                          >
-                            {getConsentTypeLabel(consent.type)}: {getConsentStatusLabel(consent.given)}
-                          </span>
-                        ))}
-                      </div>
                     </li>
                   ))}
                 </ul>
@@ -242,14 +292,15 @@ export default function GDPRPage() {
               )}
             </div>
           </div>
-          
+
           <div className="lg:col-span-2">
-            {selectedPatient ? (
+            {selected ? (
               <ConsentForm
-                patientId={selectedPatient.id}
-                patientName={selectedPatient.name}
-                existingConsents={selectedPatient.consents}
-                onSaveConsent={handleSaveConsent}
+                patientName={`${selected.patient.firstName} ${selected.patient.lastName}`}
+                consents={selected.consents}
+                saving={saving}
+                onRecord={handleRecord}
+                onSendLink={handleSendLink}
               />
             ) : (
               <div className="bg-white rounded-lg shadow-md p-6 text-center">
@@ -0,0 +1,432 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+
+type RequestType = 'ACCESS' | 'ERASURE' | 'RECTIFICATION';
+type RequestStatus = 'RECEIVED' | 'IN_PROGRESS' | 'COMPLETED' | 'REFUSED';
+
+interface DataSubjectRequest {
+  id: string;
+  type: RequestType;
+  status: RequestStatus;
+  patient: { id: string; firstName: string; lastName: string; nhsNumber: string | null; erasedAt: string | null } | null;
+  requesterName: string | null;
+  details: string | null;
+  receivedAt: string;
+  dueAt: string;
+  extendedAt: string | null;
+  extensionReason: string | null;
+  identityVerifiedAt: string | null;
+  exportedAt: string | null;
+  erasureSummary: string | null;
+  outcome: string | null;
+  closedAt: string | null;
+  overdue: boolean;
+}
+
+interface ErasureSummary {
+  patient: { action: string; reason: string };
+  categories: { category: string; action: string; reason: string; count: number }[];
+}
+
+const TYPE_LABELS: Record<RequestType, string> = {
+  ACCESS: 'Subject access',
+  ERASURE: 'Erasure',
+  RECTIFICATION: 'Rectification',
+};
+
+const STATUS_STYLES: Record<RequestStatus, string> = {
+  RECEIVED: 'bg-yellow-100 text-yellow-800',
+  IN_PROGRESS: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  REFUSED: 'bg-gray-100 text-gray-800',
+};
+
+const CORRECTABLE_FIELDS: { field: string; label: string; type?: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'dateOfBirth', label: 'Date of birth', type: 'date' },
+  { field: 'address', label: 'Address' },
+  { field: 'postcode', label: 'Postcode' },
+  { field: 'phoneNumber', label: 'Phone number' },
+  { field: 'email', label: 'Email', type: 'email' },
+];
+
+const EMPTY_FORM = { type: 'ACCESS' as RequestType, nhsNumber: '', requesterName: '', receivedAt: '', details: '' };
+
+// Format date
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB');
+
+export default function DataSubjectRequestsPage() {
+  const [status, setStatus] = useState<RequestStatus | 'OPEN' | ''>('OPEN');
+  const [requests, setRequests] = useState<DataSubjectRequest[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [correcting, setCorrecting] = useState<string | null>(null);
+  const [corrections, setCorrections] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [status]);
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/gdpr/requests${status ? `?status=${status}` : ''}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch requests');
+      }
+
+      setRequests((await response.json()).requests);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while fetching requests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const post = async (url: string, body: Record<string, unknown>, success: string) => {
+    setWorking(true);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Request failed');
+      }
+
+      setMessage(success);
+      setError(null);
+      await fetchRequests();
+      return true;
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const logRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const logged = await post('/api/gdpr/requests', {
+      ...form,
+      receivedAt: form.receivedAt || undefined,
+    }, `${TYPE_LABELS[form.type]} request logged`);
+
+    if (logged) {
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const act = (request: DataSubjectRequest, action: string, body: Record<string, unknown>, success: string) =>
+    post(`/api/gdpr/requests/${request.id}`, { action, ...body }, success);
+
+  const withReason = (request: DataSubjectRequest, action: 'extend' | 'refuse') => {
+    const reason = window.prompt(action === 'extend'
+      ? 'Why does this request need more time? The patient must be told within the first month.'
+      : 'Why is this request being refused? This is what the patient will be told.');
+
+    if (reason) {
+      act(request, action, { reason }, action === 'extend' ? 'Deadline extended by two months' : 'Request refused');
+    }
+  };
+
+  const complete = (request: DataSubjectRequest) => {
+    const outcome = window.prompt('How was the data sent to the patient?', 'Sent by email');
+    if (outcome !== null) {
+      act(request, 'complete', { outcome }, 'Request closed');
+    }
+  };
+
+  const erase = (request: DataSubjectRequest) => {
+    if (!window.confirm(
+      'Erase this patient\'s data? Consents, appointments, adherence records and reminders are deleted and messages are anonymised. ' +
+      'Prescriptions, controlled drug register entries and the audit log are kept, as the law requires, and the patient record is anonymised. This can\'t be undone.'
+    )) {
+      return;
+    }
+
+    act(request, 'erase', {}, 'Patient data erased');
+  };
+
+  const rectify = async (request: DataSubjectRequest) => {
+    const changed = Object.fromEntries(Object.entries(corrections).filter(([, value]) => value.trim() !== ''));
+
+    if (await act(request, 'rectify', { corrections: changed }, 'Patient details corrected')) {
+      setCorrecting(null);
+      setCorrections({});
+    }
+  };
+
+  const patientName = (request: DataSubjectRequest) => {
+    if (!request.patient) {
+      return 'Record deleted';
+    }
+    return request.patient.erasedAt ? 'Erased patient' : `${request.patient.firstName} ${request.patient.lastName}`;
+  };
+
+  const isOpen = (request: DataSubjectRequest) => request.status === 'RECEIVED' || request.status === 'IN_PROGRESS';
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold">Data Subject Requests</h1>
+            <p className="text-sm text-gray-600">
+              Subject access, erasure and rectification requests must be answered within a month of receipt.
+              {' '}<Link href="/gdpr" className="text-nhs-blue hover:underline">Back to GDPR</Link>
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <select
+              className="px-3 py-2 border rounded-md"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as RequestStatus | 'OPEN' | '')}
+            >
+              <option value="OPEN">Open</option>
+              <option value="">All</option>
+              <option value="COMPLETED">Completed</option>
+              <option value="REFUSED">Refused</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+            <p className="font-medium">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-800 rounded-md">
+            {message}
+          </div>
+        )}
+
+        <form onSubmit={logRequest} className="bg-white rounded-lg shadow-md p-4 mb-6">
+          <h2 className="font-medium mb-3">Log a Request</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <select
+              className="px-3 py-2 border rounded-md"
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as RequestType })}
+            >
+              {(Object.keys(TYPE_LABELS) as RequestType[]).map(type => (
+                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              className="px-3 py-2 border rounded-md"
+              placeholder="Patient's NHS number"
+              value={form.nhsNumber}
+              onChange={(e) => setForm({ ...form, nhsNumber: e.target.value })}
+              required
+            />
+            <input
+              className="px-3 py-2 border rounded-md"
+              placeholder="Made on their behalf by (optional)"
+              value={form.requesterName}
+              onChange={(e) => setForm({ ...form, requesterName: e.target.value })}
+            />
+            <input
+              type="date"
+              className="px-3 py-2 border rounded-md"
+              title="Date received (default: today)"
+              value={form.receivedAt}
+              onChange={(e) => setForm({ ...form, receivedAt: e.target.value })}
+            />
+            <textarea
+              className="md:col-span-3 px-3 py-2 border rounded-md"
+              placeholder="What they asked for; for rectification, what is wrong"
+              rows={2}
+              value={form.details}
+              onChange={(e) => setForm({ ...form, details: e.target.value })}
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+              disabled={working}
+            >
+              Log Request
+            </button>
+          </div>
+        </form>
+
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {requests.map((request) => {
+              const summary: ErasureSummary | null = request.erasureSummary ? JSON.parse(request.erasureSummary) : null;
+
+              return (
+                <li key={request.id} className="px-6 py-4">
+                  <div className="flex flex-col md:flex-row md:justify-between">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        {TYPE_LABELS[request.type]} · {patientName(request)}
+                        {request.patient?.nhsNumber && <span className="text-gray-500"> · {request.patient.nhsNumber}</span>}
+                      </p>
+                      <p className="text-gray-500">
+                        Received {formatDate(request.receivedAt)}
+                        {request.requesterName && ` from ${request.requesterName}`}
+                        {' · '}
+                        <span className={request.overdue ? 'text-red-600 font-medium' : ''}>
+                          {request.overdue ? 'Overdue since' : 'Due'} {formatDate(request.dueAt)}
+                        </span>
+                        {request.extendedAt && ` (extended: ${request.extensionReason})`}
+                      </p>
+                      {request.details && <p className="text-gray-700 mt-1">{request.details}</p>}
+                      {request.outcome && <p className="text-gray-700 mt-1">Outcome: {request.outcome}</p>}
+                    </div>
+                    <div className="mt-2 md:mt-0 text-sm md:text-right">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[request.status]}`}>
+                        {request.status.replace('_', ' ')}
+                      </span>
+                      {request.identityVerifiedAt && (
+                        <p className="text-xs text-gray-500">Identity checked {formatDate(request.identityVerifiedAt)}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  {isOpen(request) && (
+                    <div className="mt-2 flex flex-wrap gap-3 text-sm">
+                      {!request.identityVerifiedAt && (
+                        <button
+                          className="text-nhs-blue hover:underline disabled:opacity-50"
+                          onClick={() => act(request, 'verify-identity', {}, 'Identity recorded as checked')}
+                          disabled={working}
+                        >
+                          Identity Checked
+                        </button>
+                      )}
+                      {request.identityVerifiedAt && request.type === 'ACCESS' && (
+                        <>
+                          <a className="text-nhs-blue hover:underline" href={`/api/gdpr/requests/${request.id}/export?format=json`}>
+                            Download JSON
+                          </a>
+                          <a className="text-nhs-blue hover:underline" href={`/api/gdpr/requests/${request.id}/export?format=pdf`}>
+                            Download PDF
+                          </a>
+                          <button
+                            className="text-nhs-blue hover:underline disabled:opacity-50"
+                            onClick={() => complete(request)}
+                            disabled={working}
+                          >
+                            Mark Sent
+                          </button>
+                        </>
+                      )}
+                      {request.identityVerifiedAt && request.type === 'RECTIFICATION' && (
+                        <button
+                          className="text-nhs-blue hover:underline disabled:opacity-50"
+                          onClick={() => setCorrecting(correcting === request.id ? null : request.id)}
+                          disabled={working}
+                        >
+                          Correct Details
+                        </button>
+                      )}
+                      {request.identityVerifiedAt && request.type === 'ERASURE' && (
+                        <button
+                          className="text-red-600 hover:underline disabled:opacity-50"
+                          onClick={() => erase(request)}
+                          disabled={working}
+                        >
+                          Erase Data
+                        </button>
+                      )}
+                      {!request.extendedAt && (
+                        <button
+                          className="text-nhs-blue hover:underline disabled:opacity-50"
+                          onClick={() => withReason(request, 'extend')}
+                          disabled={working}
+                        >
+                          Extend
+                        </button>
+                      )}
+                      <button
+                        className="text-red-600 hover:underline disabled:opacity-50"
+                        onClick={() => withReason(request, 'refuse')}
+                        disabled={working}
+                      >
+                        Refuse
+                      </button>
+                    </div>
+                  )}
+
+                  {correcting === request.id && (
+                    <div className="mt-3 p-3 bg-gray-50 rounded-md">
+                      <p className="text-sm text-gray-600 mb-2">Fill in only the details that are wrong.</p>
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                        {CORRECTABLE_FIELDS.map(({ field, label, type }) => (
+                          <input
+                            key={field}
+                            type={type || 'text'}
+                            className="px-3 py-2 border rounded-md text-sm"
+                            placeholder={label}
+                            title={label}
+                            value={corrections[field] || ''}
+                            onChange={(e) => setCorrections({ ...corrections, [field]: e.target.value })}
+                          />
+                        ))}
+                      </div>
+                      <button
+                        className="mt-2 px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                        onClick={() => rectify(request)}
+                        disabled={working}
+                      >
+                        Save Corrections
+                      </button>
+                    </div>
+                  )}
+
+                  {summary && (
+                    <table className="mt-3 text-xs text-gray-700">
+                      <tbody>
+                        <tr>
+                          <td className="pr-4 font-medium">Patient record</td>
+                          <td className="pr-4">{summary.patient.action}</td>
+                          <td />
+                          <td>{summary.patient.reason}</td>
+                        </tr>
+                        {summary.categories.map(category => (
+                          <tr key={category.category}>
+                            <td className="pr-4 font-medium">{category.category}</td>
+                            <td className="pr-4">{category.action}</td>
+                            <td className="pr-4">{category.count}</td>
+                            <td>{category.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {!loading && requests.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No requests.
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
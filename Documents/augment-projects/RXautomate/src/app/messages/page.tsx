@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Layout from '@/components/Layout';
+
+type MessageStatus = 'PENDING' | 'SENDING' | 'DELIVERED' | 'FAILED' | 'QUEUED' | 'PRINTED' | 'DEFERRED' | 'SUPPRESSED';
+
+interface PatientMessage {
+  id: string;
+  purpose: string;
+  channel: 'SMS' | 'EMAIL' | 'LETTER' | null;
+  status: MessageStatus;
+  recipient: string;
+  subject: string | null;
+  body: string | null;
+  failureReason: string | null;
+  suppressionReason: string | null;
+  scheduledFor: string | null;
+  fallbackFromId: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+  patient: { id: string; firstName: string; lastName: string; nhsNumber: string | null };
+}
+
+const STATUS_STYLES: Record<MessageStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  SENDING: 'bg-yellow-100 text-yellow-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  QUEUED: 'bg-blue-100 text-blue-800',
+  PRINTED: 'bg-green-100 text-green-800',
+  DEFERRED: 'bg-purple-100 text-purple-800',
+  SUPPRESSED: 'bg-gray-100 text-gray-800',
+};
+
+const SUPPRESSION_LABELS: Record<string, string> = {
+  NO_CONSENT: 'No consent',
+  CONSENT_WITHDRAWN: 'Consent withdrawn',
+  CONSENT_EXPIRED: 'Consent expired',
+  OPTED_OUT: 'Replied STOP',
+  NO_CONTACT_DETAILS: 'No contact details',
+  FREQUENCY_CAP: 'Weekly limit reached',
+};
+
+// Format date and time
+const formatDateTime = (date: string) => new Date(date).toLocaleString('en-GB');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export default function MessagesPage() {
+  const [status, setStatus] = useState<MessageStatus | ''>('');
+  const [messages, setMessages] = useState<PatientMessage[]>([]);
+  const [letters, setLetters] = useState<PatientMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [status]);
+
+  const fetchMessages = async () => {
+    setLoading(true);
+    try {
+      const [messagesResponse, lettersResponse] = await Promise.all([
+        fetch(`/api/messages${status ? `?status=${status}` : ''}`),
+        fetch('/api/messages/letters'),
+      ]);
+
+      if (!messagesResponse.ok || !lettersResponse.ok) {
+        throw new Error('Failed to fetch messages');
+      }
+
+      setMessages((await messagesResponse.json()).messages);
+      setLetters((await lettersResponse.json()).letters);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while fetching messages');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Print the letter, then take it off the queue
+  const printLetter = async (letter: PatientMessage) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Allow pop-ups to print letters');
+      return;
+    }
+
+    printWindow.document.write(`
+      <html>
+        <head><title>${escapeHtml(letter.subject || 'Letter')}</title></head>
+        <body style="font-family: Arial, sans-serif; padding: 2cm;">
+          <p style="white-space: pre-line;">${escapeHtml(letter.recipient)}</p>
+          <p>${new Date().toLocaleDateString('en-GB')}</p>
+          <h2>${escapeHtml(letter.subject || '')}</h2>
+          <p style="white-space: pre-line;">${escapeHtml(letter.body || '')}</p>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.print();
+
+    if (!window.confirm('Did the letter print?')) {
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const response = await fetch(`/api/messages/letters/${letter.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'printed' }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to mark letter printed');
+      }
+
+      setError(null);
+      await fetchMessages();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6">
+          <h1 className="text-2xl font-bold">Patient Messages</h1>
+          <div className="mt-4 sm:mt-0">
+            <select
+              className="px-3 py-2 border rounded-md"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as MessageStatus | '')}
+            >
+              <option value="">All</option>
+              <option value="SENDING">Sending</option>
+              <option value="DELIVERED">Delivered</option>
+              <option value="FAILED">Failed</option>
+              <option value="QUEUED">Letter queued</option>
+              <option value="PRINTED">Letter printed</option>
+              <option value="DEFERRED">Held for quiet hours</option>
+              <option value="SUPPRESSED">Not sent</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+            <p className="font-medium">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        <h2 className="text-xl font-semibold mb-4">Letters to Print</h2>
+        <div className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
+          <ul className="divide-y divide-gray-200">
+            {letters.map((letter) => (
+              <li key={letter.id} className="px-6 py-4 flex justify-between items-center">
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900">
+                    {letter.patient.firstName} {letter.patient.lastName} · {letter.subject}
+                  </p>
+                  <p className="text-gray-500">
+                    Queued {formatDateTime(letter.createdAt)}
+                    {letter.fallbackFromId && ' · SMS and email could not be delivered'}
+                  </p>
+                </div>
+                <button
+                  className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                  onClick={() => printLetter(letter)}
+                  disabled={working}
+                >
+                  Print
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {!loading && letters.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No letters waiting to be printed.
+            </div>
+          )}
+        </div>
+
+        <h2 className="text-xl font-semibold mb-4">Recent Messages</h2>
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Patient
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Message
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Channel
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {messages.map((message) => (
+                  <tr key={message.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {message.patient.firstName} {message.patient.lastName}
+                      {message.patient.nhsNumber && <div className="text-xs text-gray-500">{message.patient.nhsNumber}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {message.subject || message.body || message.purpose.replace(/_/g, ' ').toLowerCase()}
+                      <div className="text-xs text-gray-500">{formatDateTime(message.createdAt)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {message.channel || '—'}
+                      {message.fallbackFromId && <div className="text-xs text-gray-500">Fallback</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[message.status]}`}>
+                        {message.status}
+                      </span>
+                      {message.suppressionReason && (
+                        <p className="text-xs text-gray-500">
+                          {SUPPRESSION_LABELS[message.suppressionReason] || message.suppressionReason}
+                        </p>
+                      )}
+                      {message.scheduledFor && (
+                        <p className="text-xs text-gray-500">Sends {formatDateTime(message.scheduledFor)}</p>
+                      )}
+                      {message.failureReason && (
+                        <p className="text-xs text-gray-500">{message.failureReason}</p>
+                      )}
+                      {message.deliveredAt && (
+                        <p className="text-xs text-gray-500">{formatDateTime(message.deliveredAt)}</p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!loading && messages.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No messages.
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
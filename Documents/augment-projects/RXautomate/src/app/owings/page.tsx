@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Layout from '@/components/Layout';
+
+type OwingStatus = 'OUTSTANDING' | 'READY' | 'FULFILLED' | 'CANCELLED';
+
+interface Owing {
+  id: string;
+  prescriptionId: string;
+  patientName: string | null;
+  nhsNumber: string | null;
+  medicationName: string;
+  quantityPrescribed: number;
+  quantitySupplied: number;
+  quantityOwed: number;
+  unit: string | null;
+  promisedDate: string;
+  status: OwingStatus;
+  notifiedAt: string | null;
+}
+
+interface WholesalerOrder {
+  id: string;
+  wholesaler: string | null;
+  orderReference: string | null;
+  quantity: number;
+  status: 'PENDING' | 'PLACED';
+  expectedDeliveryDate: string | null;
+  inventoryItem: { name: string; productCode: string | null };
+  owings: { id: string }[];
+}
+
+const STATUS_STYLES: Record<OwingStatus, string> = {
+  OUTSTANDING: 'bg-yellow-100 text-yellow-800',
+  READY: 'bg-green-100 text-green-800',
+  FULFILLED: 'bg-gray-100 text-gray-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+// Format date
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB');
+
+export default function OwingsPage() {
+  const [status, setStatus] = useState<OwingStatus | ''>('OUTSTANDING');
+  const [owings, setOwings] = useState<Owing[]>([]);
+  const [orders, setOrders] = useState<WholesalerOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOwings();
+  }, [status]);
+
+  const fetchOwings = async () => {
+    setLoading(true);
+    try {
+      const [owingsResponse, ordersResponse] = await Promise.all([
+        fetch(`/api/owings${status ? `?status=${status}` : ''}`),
+        fetch('/api/owings/orders'),
+      ]);
+
+      if (!owingsResponse.ok || !ordersResponse.ok) {
+        throw new Error('Failed to fetch owings');
+      }
+
+      setOwings((await owingsResponse.json()).owings);
+      setOrders((await ordersResponse.json()).orders);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while fetching owings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const post = async (url: string, body: Record<string, unknown>, success: (data: any) => string) => {
+    setWorking(true);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Request failed');
+      }
+
+      setMessage(success(data));
+      setError(null);
+      await fetchOwings();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const receiveOrder = (order: WholesalerOrder) => {
+    const input = window.prompt(`Quantity of ${order.inventoryItem.name} received`, String(order.quantity));
+    if (!input) {
+      return;
+    }
+
+    post(`/api/owings/orders/${order.id}`, { receivedQuantity: Number(input) },
+      (data) => `Delivery booked in; ${data.readyOwings.length} owing(s) ready to collect`);
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6">
+          <h1 className="text-2xl font-bold">Owings</h1>
+          <div className="mt-4 sm:mt-0">
+            <select
+              className="px-3 py-2 border rounded-md"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as OwingStatus | '')}
+            >
+              <option value="">All</option>
+              <option value="OUTSTANDING">Outstanding</option>
+              <option value="READY">Ready to collect</option>
+              <option value="FULFILLED">Fulfilled</option>
+              <option value="CANCELLED">Cancelled</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+            <p className="font-medium">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-800 rounded-md">
+            {message}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Patient
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Medication
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Supplied / Owed
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Promised
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {owings.map((owing) => (
+                  <tr key={owing.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {owing.patientName || '—'}
+                      {owing.nhsNumber && <div className="text-xs text-gray-500">{owing.nhsNumber}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{owing.medicationName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {owing.quantitySupplied} / {owing.quantityOwed}{owing.unit ? ` ${owing.unit}` : ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(owing.promisedDate)}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[owing.status]}`}>
+                        {owing.status}
+                      </span>
+                      {owing.notifiedAt && (
+                        <p className="text-xs text-gray-500">Patient told {formatDate(owing.notifiedAt)}</p>
+                      )}
+                      {(owing.status === 'OUTSTANDING' || owing.status === 'READY') && (
+                        <div className="mt-1 space-x-2">
+                          <button
+                            className="text-nhs-blue hover:underline disabled:opacity-50"
+                            onClick={() => post(`/api/owings/${owing.id}`, { action: 'fulfil' }, () => 'Owing fulfilled')}
+                            disabled={working}
+                          >
+                            Fulfil
+                          </button>
+                          <button
+                            className="text-red-600 hover:underline disabled:opacity-50"
+                            onClick={() => post(`/api/owings/${owing.id}`, { action: 'cancel' }, () => 'Owing cancelled')}
+                            disabled={working}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!loading && owings.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No owings.
+            </div>
+          )}
+        </div>
+
+        <h2 className="text-xl font-semibold mb-4">Wholesaler Orders</h2>
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <ul className="divide-y divide-gray-200">
+            {orders.map((order) => (
+              <li key={order.id} className="px-6 py-4 flex justify-between items-center">
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900">
+                    {order.inventoryItem.name} × {order.quantity}
+                  </p>
+                  <p className="text-gray-500">
+                    {order.wholesaler || 'No wholesaler'} · {order.status}
+                    {order.expectedDeliveryDate && ` · due ${formatDate(order.expectedDeliveryDate)}`}
+                    {` · ${order.owings.length} owing(s) waiting`}
+                  </p>
+                </div>
+                <button
+                  className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                  onClick={() => receiveOrder(order)}
+                  disabled={working}
+                >
+                  Book In Delivery
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {!loading && orders.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No open wholesaler orders.
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
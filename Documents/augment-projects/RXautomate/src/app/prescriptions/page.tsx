@@ -82,7 +82,7 @@ export default function PrescriptionsPage() {
   const [prescriptions, setPrescriptions] = useState(mockPrescriptions);
   const [filterStatus, setFilterStatus] = useState<PrescriptionStatus | 'ALL'>('ALL');
   const [filterType, setFilterType] = useState<PrescriptionType | 'ALL'>('ALL');
-  const [pharmacyOdsCode, setPharmacyOdsCode] = useState<string>('F1234'); // Default for testing
+  const [pharmacyOdsCode, setPharmacyOdsCode] = useState<string | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -91,14 +91,17 @@ export default function PrescriptionsPage() {
     }
   }, [status]);
 
-  // Fetch pharmacy ODS code
+  // Fetch the selected pharmacy's ODS code
   useEffect(() => {
-    if (session?.user?.id) {
-      // In a real app, this would fetch the user's pharmacy ODS code from the API
-      // For now, we'll use a default value
-      setPharmacyOdsCode('F1234');
+    if (!session?.user?.selectedPharmacyId) {
+      return;
     }
-  }, [session]);
+
+    fetch('/api/prescriptions/pharmacy')
+      .then(response => response.ok ? response.json() : { pharmacyOdsCode: null })
+      .then(data => setPharmacyOdsCode(data.pharmacyOdsCode))
+      .catch(error => console.error('Error fetching pharmacy ODS code:', error));
+  }, [session?.user?.selectedPharmacyId]);
 
   // Handle status change
   const handleStatusChange = (id: string, status: PrescriptionStatus) => {
@@ -161,6 +164,12 @@ export default function PrescriptionsPage() {
             >
               Check Patient Status
             </a>
+            <a
+              href="/prescriptions/repeat"
+              className="px-4 py-2 border border-nhs-blue text-nhs-blue rounded-md hover:bg-gray-50"
+            >
+              Repeat Dispensing
+            </a>
             <button
               className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue"
               onClick={handleCheckForNewPrescriptions}
@@ -298,7 +307,13 @@ export default function PrescriptionsPage() {
 
           <TabsContent value="eps">
             <div className="bg-white p-6 rounded-lg shadow-md">
-              <EPSPrescriptionList pharmacyOdsCode={pharmacyOdsCode} />
+              {pharmacyOdsCode ? (
+                <EPSPrescriptionList pharmacyOdsCode={pharmacyOdsCode} />
+              ) : (
+                <p className="text-gray-500 text-center">
+                  Set your pharmacy&apos;s ODS code in Admin &gt; Pharmacies to see EPS prescriptions.
+                </p>
+              )}
             </div>
           </TabsContent>
         </Tabs>
@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Layout from '@/components/Layout';
+
+interface RepeatIssue {
+  id: string;
+  issueNumber: number;
+  earliestReleaseDate: string;
+  status: 'SCHEDULED' | 'AVAILABLE';
+  notifiedAt: string | null;
+  schedule: {
+    id: string;
+    authorisedIssues: number;
+    issueIntervalDays: number;
+    prescription: {
+      prescriptionNumber: string | null;
+      patient: { firstName: string; lastName: string; nhsNumber: string | null };
+      items: { id: string; medicationName: string; quantity: number }[];
+    };
+  };
+}
+
+// Format date
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+});
+
+export default function RepeatDispensingPage() {
+  const [issues, setIssues] = useState<RepeatIssue[]>([]);
+  const [pharmacyOdsCode, setPharmacyOdsCode] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQueue();
+
+    // Issues are dispensed in EPS from the selected pharmacy
+    fetch('/api/prescriptions/pharmacy')
+      .then(response => response.ok ? response.json() : { pharmacyOdsCode: null })
+      .then(data => setPharmacyOdsCode(data.pharmacyOdsCode))
+      .catch(error => console.error('Error fetching pharmacy ODS code:', error));
+  }, []);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/prescriptions/repeat');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch repeat dispensing queue');
+      }
+
+      setIssues((await response.json()).issues);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while fetching the queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const post = async (url: string, body: Record<string, unknown>, success: (data: any) => string) => {
+    setWorking(true);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Request failed');
+      }
+
+      setMessage(success(data));
+      setError(null);
+      await fetchQueue();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const dispense = (issue: RepeatIssue) => post('/api/prescriptions/repeat', { action: 'dispense', issueId: issue.id, pharmacyOdsCode }, (data) =>
+    data.repeatIssueError
+      ? `Issue ${issue.issueNumber} dispensed, but the schedule could not be updated: ${data.repeatIssueError}`
+      : data.repeatIssue?.nextIssue
+      ? `Issue ${issue.issueNumber} dispensed; issue ${data.repeatIssue.nextIssue.issueNumber} due ${formatDate(data.repeatIssue.nextIssue.earliestReleaseDate)}`
+      : `Issue ${issue.issueNumber} dispensed; no further issues`);
+
+  const now = new Date();
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6">
+          <h1 className="text-2xl font-bold">Repeat Dispensing Due This Week</h1>
+          <button
+            className="mt-4 sm:mt-0 px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+            onClick={() => post('/api/prescriptions/repeat/release', {}, (data) =>
+              `${data.released} issue(s) released; ${data.reminded} patient(s) reminded`)}
+            disabled={working}
+          >
+            Release Due Issues
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-800 rounded-md">
+            <p className="font-medium">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-800 rounded-md">
+            {message}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Due
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Patient
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Items
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Issue
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {issues.map((issue) => {
+                  const { prescription } = issue.schedule;
+                  const releasable = new Date(issue.earliestReleaseDate) <= now;
+
+                  return (
+                    <tr key={issue.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(issue.earliestReleaseDate)}
+                        {issue.status === 'AVAILABLE' && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                            Available
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {prescription.patient.firstName} {prescription.patient.lastName}
+                        {prescription.patient.nhsNumber && (
+                          <div className="text-xs text-gray-500">{prescription.patient.nhsNumber}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {prescription.items.map((item) => (
+                          <div key={item.id}>{item.medicationName} × {item.quantity}</div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {issue.issueNumber} of {issue.schedule.authorisedIssues}
+                        <div className="text-xs text-gray-500">every {issue.schedule.issueIntervalDays} days</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          className="text-nhs-blue hover:underline disabled:opacity-50 disabled:no-underline"
+                          onClick={() => dispense(issue)}
+                          disabled={working || !releasable || !pharmacyOdsCode}
+                          title={releasable ? undefined : 'Not yet due for release'}
+                        >
+                          Dispense
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {!loading && issues.length === 0 && (
+            <div className="px-6 py-4 text-center text-gray-500">
+              No repeat dispensing issues due this week.
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
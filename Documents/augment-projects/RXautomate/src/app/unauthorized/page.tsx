@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import Layout from '@/components/Layout';
+
+export default function UnauthorizedPage() {
+  return (
+    <Layout>
+      <div className="max-w-xl mx-auto">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h1 className="text-2xl font-bold mb-2">You don't have access to this page</h1>
+          <p className="text-gray-600 mb-6">
+            Your role at the selected pharmacy doesn't include the permission this page needs.
+            Ask your pharmacy or organization administrator if you think it should.
+          </p>
+          <div className="flex gap-4">
+            <Link href="/dashboard" className="text-nhs-blue font-medium hover:underline">
+              Go to the dashboard
+            </Link>
+            <Link href="/select-pharmacy" className="text-nhs-blue font-medium hover:underline">
+              Switch pharmacy
+            </Link>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -116,7 +116,10 @@ const BusinessIntelligenceDashboard: React.FC<BusinessIntelligenceDashboardProps
           aiAccuracy: 94.2,
           timeSavedByAI: 62.4,
           flaggedPrescriptions: 89,
-          falsePositives: 12
+          falsePositives: 12,
+          precision: 94.2,
+          recall: 88.5,
+          reviewedIssues: 207
         }
       };
 
@@ -530,6 +533,14 @@ const BusinessIntelligenceDashboard: React.FC<BusinessIntelligenceDashboardProps
                   <span>False Positives</span>
                   <span>{metrics?.aiMetrics.falsePositives}</span>
                 </div>
+                <div className="flex justify-between text-sm">
+                  <span>AI Precision</span>
+                  <span>{metrics?.aiMetrics.precision?.toFixed(1)}%</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>AI Recall</span>
+                  <span>{metrics?.aiMetrics.recall?.toFixed(1)}%</span>
+                </div>
               </CardContent>
             </Card>
 
@@ -1,135 +1,149 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ConsentType } from '@prisma/client';
 
+export type ConsentStatus = 'NONE' | 'GIVEN' | 'WITHDRAWN' | 'EXPIRED' | 'RECONSENT_NEEDED';
+
+export interface ConsentSummary {
+  consentType: ConsentType;
+  notice: { id: string; version: number; title: string; text: string };
+  latest: {
+    consentGiven: boolean;
+    consentDate: string;
+    expiryDate: string | null;
+    captureMethod: string | null;
+    notice: { version: number } | null;
+  } | null;
+  status: ConsentStatus;
+}
+
+export interface ConsentChoice {
+  consentType: ConsentType;
+  given: boolean;
+  noticeId: string;
+  expiryDate: string | null;
+}
+
 interface ConsentFormProps {
-  patientId: string;
   patientName: string;
-  existingConsents: {
-    type: ConsentType;
-    given: boolean;
-    date: Date | null;
-    expiry: Date | null;
-  }[];
-  onSaveConsent: (patientId: string, consentType: ConsentType, given: boolean, expiryDate: Date | null) => void;
+  consents: ConsentSummary[];
+  saving: boolean;
+  onRecord: (choice: ConsentChoice) => void;
+  onSendLink: () => void;
+}
+
+const STATUS_STYLES: Record<ConsentStatus, { label: string; className: string }> = {
+  NONE: { label: 'Not asked', className: 'bg-gray-100 text-gray-800' },
+  GIVEN: { label: 'Consented', className: 'bg-green-100 text-green-800' },
+  WITHDRAWN: { label: 'Not consented', className: 'bg-red-100 text-red-800' },
+  EXPIRED: { label: 'Expired', className: 'bg-yellow-100 text-yellow-800' },
+  RECONSENT_NEEDED: { label: 'Wording changed: ask again', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const CAPTURE_METHOD_LABELS: Record<string, string> = {
+  IN_PERSON: 'in person',
+  WEB: 'online',
+  SMS_LINK: 'by SMS link',
+};
+
+// Get default expiry date (2 years from now)
+function getDefaultExpiryDate(): string {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() + 2);
+  return date.toISOString().split('T')[0];
 }
 
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB');
+
 const ConsentForm: React.FC<ConsentFormProps> = ({
-  patientId,
   patientName,
-  existingConsents,
-  onSaveConsent,
+  consents,
+  saving,
+  onRecord,
+  onSendLink,
 }) => {
-  const [consents, setConsents] = useState<Record<ConsentType, boolean>>({
-    MARKETING: existingConsents.find(c => c.type === 'MARKETING')?.given || false,
-    REMINDER: existingConsents.find(c => c.type === 'REMINDER')?.given || false,
-    DATA_SHARING: existingConsents.find(c => c.type === 'DATA_SHARING')?.given || false,
-    VACCINATION: existingConsents.find(c => c.type === 'VACCINATION')?.given || false,
-  });
-  
-  const [expiryDates, setExpiryDates] = useState<Record<ConsentType, string>>({
-    MARKETING: existingConsents.find(c => c.type === 'MARKETING')?.expiry 
-      ? new Date(existingConsents.find(c => c.type === 'MARKETING')?.expiry as Date).toISOString().split('T')[0]
-      : getDefaultExpiryDate(),
-    REMINDER: existingConsents.find(c => c.type === 'REMINDER')?.expiry
-      ? new Date(existingConsents.find(c => c.type === 'REMINDER')?.expiry as Date).toISOString().split('T')[0]
-      : getDefaultExpiryDate(),
-    DATA_SHARING: existingConsents.find(c => c.type === 'DATA_SHARING')?.expiry
-      ? new Date(existingConsents.find(c => c.type === 'DATA_SHARING')?.expiry as Date).toISOString().split('T')[0]
-      : getDefaultExpiryDate(),
-    VACCINATION: existingConsents.find(c => c.type === 'VACCINATION')?.expiry
-      ? new Date(existingConsents.find(c => c.type === 'VACCINATION')?.expiry as Date).toISOString().split('T')[0]
-      : getDefaultExpiryDate(),
-  });
-
-  // Get default expiry date (2 years from now)
-  function getDefaultExpiryDate(): string {
-    const date = new Date();
-    date.setFullYear(date.getFullYear() + 2);
-    return date.toISOString().split('T')[0];
-  }
-
-  // Handle consent toggle
-  const handleConsentToggle = (type: ConsentType) => {
-    setConsents(prev => ({
-      ...prev,
-      [type]: !prev[type]
-    }));
-  };
+  const [given, setGiven] = useState<Record<string, boolean>>({});
+  const [expiryDates, setExpiryDates] = useState<Record<string, string>>({});
 
-  // Handle expiry date change
-  const handleExpiryDateChange = (type: ConsentType, date: string) => {
-    setExpiryDates(prev => ({
-      ...prev,
-      [type]: date
-    }));
-  };
+  // Start from the patient's current answers
+  useEffect(() => {
+    setGiven(Object.fromEntries(consents.map(consent => [consent.consentType, consent.status === 'GIVEN' || consent.status === 'RECONSENT_NEEDED'])));
+    setExpiryDates(Object.fromEntries(consents.map(consent => [
+      consent.consentType,
+      consent.latest?.expiryDate && consent.status !== 'EXPIRED'
+        ? consent.latest.expiryDate.split('T')[0]
+        : getDefaultExpiryDate(),
+    ])));
+  }, [consents]);
 
   // Handle save button click
-  const handleSave = (type: ConsentType) => {
-    const expiryDate = expiryDates[type] ? new Date(expiryDates[type]) : null;
-    onSaveConsent(patientId, type, consents[type], expiryDate);
+  const handleSave = (consent: ConsentSummary) => {
+    onRecord({
+      consentType: consent.consentType,
+      given: Boolean(given[consent.consentType]),
+      noticeId: consent.notice.id,
+      expiryDate: given[consent.consentType] ? expiryDates[consent.consentType] || null : null,
+    });
   };
 
-  // Get consent type label
-  const getConsentTypeLabel = (type: ConsentType) => {
-    switch (type) {
-      case 'MARKETING':
-        return 'Marketing Communications';
-      case 'REMINDER':
-        return 'Prescription & Appointment Reminders';
-      case 'DATA_SHARING':
-        return 'Data Sharing with NHS & Healthcare Providers';
-      case 'VACCINATION':
-        return 'Vaccination Campaigns';
-      default:
-        return type;
+  // What the patient last said, and through what
+  const describeLatest = (consent: ConsentSummary) => {
+    const latest = consent.latest;
+    if (!latest) {
+      return null;
     }
-  };
 
-  // Get consent description
-  const getConsentDescription = (type: ConsentType) => {
-    switch (type) {
-      case 'MARKETING':
-        return 'I consent to receive marketing communications about products, services, and health information from the pharmacy.';
-      case 'REMINDER':
-        return 'I consent to receive SMS and email reminders about my prescriptions and appointments.';
-      case 'DATA_SHARING':
-        return 'I consent to my data being shared with NHS services and other healthcare providers for the purpose of my care.';
-      case 'VACCINATION':
-        return 'I consent to being contacted about vaccination campaigns that I may be eligible for.';
-      default:
-        return '';
-    }
+    const method = latest.captureMethod ? ` ${CAPTURE_METHOD_LABELS[latest.captureMethod] || latest.captureMethod}` : '';
+    const version = latest.notice ? `version ${latest.notice.version} of the wording` : 'wording from before notices were versioned';
+
+    return `${latest.consentGiven ? 'Consented' : 'Declined'} on ${formatDate(latest.consentDate)}${method}, to ${version}`;
   };
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
-      <div className="mb-4">
-        <h2 className="text-xl font-semibold">GDPR Consent Form</h2>
-        <p className="text-gray-600">Patient: {patientName}</p>
+      <div className="mb-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold">GDPR Consent Form</h2>
+          <p className="text-gray-600">Patient: {patientName}</p>
+        </div>
+        <button
+          className="px-4 py-2 border border-nhs-blue text-nhs-blue rounded-md hover:bg-gray-50 disabled:opacity-50"
+          onClick={onSendLink}
+          disabled={saving}
+        >
+          Send Consent Link
+        </button>
       </div>
-      
+
       <div className="space-y-6">
-        {(Object.keys(consents) as ConsentType[]).map((type) => (
-          <div key={type} className="border-b pb-4">
+        {consents.map((consent) => (
+          <div key={consent.consentType} className="border-b pb-4">
             <div className="flex items-start mb-2">
               <div className="flex items-center h-5">
                 <input
-                  id={`consent-${type}`}
+                  id={`consent-${consent.consentType}`}
                   type="checkbox"
                   className="h-4 w-4 rounded border-gray-300 text-nhs-blue focus:ring-nhs-blue"
-                  checked={consents[type]}
-                  onChange={() => handleConsentToggle(type)}
+                  checked={Boolean(given[consent.consentType])}
+                  onChange={() => setGiven(prev => ({ ...prev, [consent.consentType]: !prev[consent.consentType] }))}
                 />
               </div>
-              <div className="ml-3">
-                <label htmlFor={`consent-${type}`} className="font-medium">
-                  {getConsentTypeLabel(type)}
-                </label>
-                <p className="text-sm text-gray-600">{getConsentDescription(type)}</p>
+              <div className="ml-3 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <label htmlFor={`consent-${consent.consentType}`} className="font-medium">
+                    {consent.notice.title}
+                  </label>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[consent.status].className}`}>
+                    {STATUS_STYLES[consent.status].label}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 whitespace-pre-line">{consent.notice.text}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Version {consent.notice.version}
+                  {describeLatest(consent) && ` · ${describeLatest(consent)}`}
+                </p>
               </div>
             </div>
-            
+
             <div className="ml-7 grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -138,25 +152,27 @@ const ConsentForm: React.FC<ConsentFormProps> = ({
                 <input
                   type="date"
                   className="w-full px-3 py-2 border rounded-md"
-                  value={expiryDates[type]}
-                  onChange={(e) => handleExpiryDateChange(type, e.target.value)}
+                  value={expiryDates[consent.consentType] || ''}
+                  onChange={(e) => setExpiryDates(prev => ({ ...prev, [consent.consentType]: e.target.value }))}
                   min={new Date().toISOString().split('T')[0]}
+                  disabled={!given[consent.consentType]}
                 />
               </div>
-              
+
               <div className="flex items-end">
                 <button
-                  className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue"
-                  onClick={() => handleSave(type)}
+                  className="px-4 py-2 bg-nhs-blue text-white rounded-md hover:bg-nhs-dark-blue disabled:opacity-50"
+                  onClick={() => handleSave(consent)}
+                  disabled={saving}
                 >
-                  Save {getConsentTypeLabel(type)}
+                  Record Answer Given in Person
                 </button>
               </div>
             </div>
           </div>
         ))}
       </div>
-      
+
       <div className="mt-6 pt-4 border-t">
         <p className="text-sm text-gray-600">
           Under the General Data Protection Regulation (GDPR), we need your explicit consent to process your personal data for specific purposes. You can withdraw your consent at any time by contacting us.
@@ -99,6 +99,24 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 >
                   Inventory
                 </Link>
+                <Link
+                  href="/owings"
+                  className={`hover:text-nhs-pale-blue ${isActive('/owings') ? 'font-medium border-b-2 border-white pb-1' : ''}`}
+                >
+                  Owings
+                </Link>
+                <Link
+                  href="/messages"
+                  className={`hover:text-nhs-pale-blue ${isActive('/messages') ? 'font-medium border-b-2 border-white pb-1' : ''}`}
+                >
+                  Messages
+                </Link>
+                <Link
+                  href="/claims"
+                  className={`hover:text-nhs-pale-blue ${isActive('/claims') ? 'font-medium border-b-2 border-white pb-1' : ''}`}
+                >
+                  Claims
+                </Link>
                 <Link
                   href="/private"
                   className={`hover:text-nhs-pale-blue ${isActive('/private') ? 'font-medium border-b-2 border-white pb-1' : ''}`}
@@ -165,6 +183,13 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                         >
                           Your Profile
                         </Link>
+                        <Link
+                          href="/account/security"
+                          className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                          onClick={() => setUserMenuOpen(false)}
+                        >
+                          Sign-in & Security
+                        </Link>
                         {(session.user?.role === 'SUPER_ADMIN' || session.user?.role === 'ORG_ADMIN') && (
                           <Link
                             href="/admin"
@@ -234,6 +259,39 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               >
                 Inventory
               </Link>
+              <Link
+                href="/owings"
+                className={`block px-3 py-2 rounded-md ${
+                  isActive('/owings')
+                    ? 'bg-nhs-blue text-white'
+                    : 'text-white hover:bg-nhs-blue'
+                }`}
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Owings
+              </Link>
+              <Link
+                href="/messages"
+                className={`block px-3 py-2 rounded-md ${
+                  isActive('/messages')
+                    ? 'bg-nhs-blue text-white'
+                    : 'text-white hover:bg-nhs-blue'
+                }`}
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Messages
+              </Link>
+              <Link
+                href="/claims"
+                className={`block px-3 py-2 rounded-md ${
+                  isActive('/claims')
+                    ? 'bg-nhs-blue text-white'
+                    : 'text-white hover:bg-nhs-blue'
+                }`}
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Claims
+              </Link>
               <Link
                 href="/private"
                 className={`block px-3 py-2 rounded-md ${
@@ -39,6 +39,7 @@ const PharmacyForm: React.FC<PharmacyFormProps> = ({
     phoneNumber: '',
     email: '',
     nhsContractNumber: '',
+    odsCode: '',
     organizationId: '',
     isActive: true,
   });
@@ -85,6 +86,7 @@ const PharmacyForm: React.FC<PharmacyFormProps> = ({
               phoneNumber: data.phoneNumber,
               email: data.email,
               nhsContractNumber: data.nhsContractNumber || '',
+              odsCode: data.odsCode || '',
               organizationId: data.organizationId,
               isActive: data.isActive,
             });
@@ -373,6 +375,22 @@ const PharmacyForm: React.FC<PharmacyFormProps> = ({
           />
         </div>
         
+        {/* ODS Code */}
+        <div>
+          <label htmlFor="odsCode" className="block text-sm font-medium text-gray-700 mb-1">
+            ODS Code
+          </label>
+          <input
+            type="text"
+            id="odsCode"
+            name="odsCode"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-nhs-blue focus:border-nhs-blue"
+            value={formData.odsCode}
+            onChange={handleChange}
+          />
+          <p className="mt-1 text-xs text-gray-500">Used to sync prescriptions nominated to this pharmacy from EPS</p>
+        </div>
+        
         {/* Active Status */}
         <div className="flex items-center">
           <input
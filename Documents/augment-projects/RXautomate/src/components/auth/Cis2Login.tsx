@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import { signIn } from 'next-auth/react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, CreditCard, Loader2 } from 'lucide-react';
+
+// Reasons Cis2Service.signIn turns a user away, and NextAuth's own OAuth errors
+const ERROR_MESSAGES: Record<string, string> = {
+  Cis2NoPharmacy: 'None of your smartcard roles are at a pharmacy using RXautomate. Ask your Registration Authority to check your roles.',
+  Cis2Deactivated: 'Your RXautomate account has been deactivated. Please contact your organization administrator.',
+  Cis2OtherOrganization: 'Your email address is registered to another organization. Please contact your organization administrator.',
+  OAuthSignin: 'Could not reach NHS Care Identity Service. Please try again.',
+  OAuthCallback: 'NHS Care Identity Service sign-in failed. Please try again.',
+  AccessDenied: 'Access denied.',
+};
+
+interface Cis2LoginProps {
+  callbackUrl?: string;
+  error?: string | null;
+}
+
+export default function Cis2Login({ callbackUrl = '/', error }: Cis2LoginProps) {
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const handleSignIn = async () => {
+    setIsLoading(true);
+    // Redirects to CIS2, where the user authenticates with their smartcard
+    await signIn('cis2', { callbackUrl });
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-center">NHS Smartcard Login</CardTitle>
+        <CardDescription className="text-center">
+          Sign in through NHS Care Identity Service with your smartcard
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{ERROR_MESSAGES[error] || 'Sign-in failed. Please try again.'}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-center mb-6">
+          <CreditCard className="h-16 w-16 text-nhs-blue" />
+        </div>
+
+        <Button
+          className="w-full bg-nhs-blue hover:bg-nhs-dark-blue"
+          onClick={handleSignIn}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Redirecting...
+            </>
+          ) : (
+            'Sign in with NHS CIS2'
+          )}
+        </Button>
+      </CardContent>
+      <CardFooter className="flex flex-col space-y-2">
+        <div className="text-xs text-gray-500 text-center">
+          <p>If you hold more than one role you'll be asked which one you're working in.</p>
+          <p>If you have issues with your smartcard, please contact your local Registration Authority.</p>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -15,9 +15,20 @@ interface LoginFormProps {
   callbackUrl?: string;
 }
 
+// Sign-in refusals from AuthenticationService, which come back as result.error
+const ERROR_MESSAGES: Record<string, string> = {
+  InvalidCredentials: 'The email address or password is wrong.',
+  InvalidMfaCode: 'That code isn\'t right. Enter the current code from your app, or a recovery code.',
+  AccountLocked: 'Too many failed attempts. Your account is locked for a few minutes; ask an administrator if you need in sooner.',
+  AccountDeactivated: 'Your account has been deactivated. Contact your administrator.',
+};
+
 export default function LoginForm({ callbackUrl = '/' }: LoginFormProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  // Asked for once the password is right, for users with two-factor authentication on
+  const [code, setCode] = useState('');
+  const [needsCode, setNeedsCode] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
@@ -38,10 +49,18 @@ export default function LoginForm({ callbackUrl = '/' }: LoginFormProps) {
         redirect: false,
         email,
         password,
+        ...(needsCode ? { code } : {}),
       });
 
+      if (result?.error === 'MfaRequired') {
+        setNeedsCode(true);
+        setIsLoading(false);
+        return;
+      }
+
       if (result?.error) {
-        setError(`Authentication error: ${result.error}`);
+        setError(ERROR_MESSAGES[result.error] || `Authentication error: ${result.error}`);
+        setCode('');
         setIsLoading(false);
         return;
       }
@@ -103,6 +122,22 @@ export default function LoginForm({ callbackUrl = '/' }: LoginFormProps) {
               required
             />
           </div>
+
+          {needsCode && (
+            <div className="space-y-2">
+              <Label htmlFor="code">Authentication code</Label>
+              <Input
+                id="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code or recovery code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoFocus
+                required
+              />
+            </div>
+          )}
           
           <Button
             type="submit"
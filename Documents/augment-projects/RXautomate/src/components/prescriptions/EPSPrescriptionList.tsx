@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Prescription, PrescriptionBundle, PrescriptionSearchParams } from '@/services/EPSService';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -11,6 +11,7 @@ import BatchProcessingModal from './BatchProcessingModal';
 import PrescriptionDetailModal from './PrescriptionDetailModal';
 import PrescriptionItem from './PrescriptionItem';
 import { StockCheckResult } from '@/services/InventoryPrescriptionService';
+import NotificationService, { InAppNotification } from '@/services/NotificationService';
 
 interface EPSPrescriptionListProps {
   pharmacyOdsCode: string;
@@ -27,12 +28,34 @@ export default function EPSPrescriptionList({ pharmacyOdsCode }: EPSPrescription
   const [selectedPrescriptionId, setSelectedPrescriptionId] = useState<string | null>(null);
   const [searchParams, setSearchParams] = useState<SearchParams>({});
   const [isSearching, setIsSearching] = useState<boolean>(false);
+  const searchParamsRef = useRef<SearchParams>({});
 
   // Fetch prescriptions on component mount or when search params change
   useEffect(() => {
     fetchPrescriptions();
   }, [pharmacyOdsCode]);
 
+  // Refresh when another terminal dispenses or a new prescription arrives
+  useEffect(() => {
+    if (!pharmacyOdsCode) {
+      return;
+    }
+
+    const handleNotification = (notification: InAppNotification) => {
+      if (notification.type === 'new' || notification.type === 'update') {
+        fetchPrescriptions(searchParamsRef.current);
+      }
+    };
+
+    NotificationService.addListener(handleNotification);
+    NotificationService.connect(pharmacyOdsCode);
+
+    return () => {
+      NotificationService.removeListener(handleNotification);
+      NotificationService.disconnect();
+    };
+  }, [pharmacyOdsCode]);
+
   const fetchPrescriptions = async (params: SearchParams = {}) => {
     try {
       setLoading(true);
@@ -106,9 +129,10 @@ export default function EPSPrescriptionList({ pharmacyOdsCode }: EPSPrescription
 
       const stockData: StockCheckResult = await stockResponse.json();
 
-      // If any items are out of stock, show error and abort
-      if (stockData.anyOutOfStock) {
-        setError('Cannot dispense prescription: Some items are out of stock.');
+      // Short on stock: supply what we have and owe the balance
+      if (!stockData.allInStock) {
+        await dispenseBatch([prescriptionId]);
+        setError(null);
         return;
       }
 
@@ -179,69 +203,50 @@ export default function EPSPrescriptionList({ pharmacyOdsCode }: EPSPrescription
     }
   };
 
-  // Batch processing handlers
-  const handleBatchDispense = async () => {
-    try {
-      const prescriptionIds = selectedPrescriptions.map(p => p.id);
-
-      // Check stock for all prescriptions in the batch
-      const stockCheckResults: { [id: string]: StockCheckResult } = {};
-      const outOfStockPrescriptions: string[] = [];
-
-      // Check stock for each prescription
-      for (const prescriptionId of prescriptionIds) {
-        const stockResponse = await fetch(`/api/prescriptions/${prescriptionId}/stock`);
-
-        if (!stockResponse.ok) {
-          throw new Error(`Error checking stock for prescription ${prescriptionId}`);
-        }
-
-        const stockData: StockCheckResult = await stockResponse.json();
-        stockCheckResults[prescriptionId] = stockData;
-
-        if (stockData.anyOutOfStock) {
-          outOfStockPrescriptions.push(prescriptionId);
-        }
-      }
-
-      // If any prescriptions are out of stock, abort
-      if (outOfStockPrescriptions.length > 0) {
-        throw new Error(`Cannot dispense batch: ${outOfStockPrescriptions.length} prescription(s) have items out of stock`);
-      }
+  // Dispense through the batch endpoint, which owes the balance of anything short on stock
+  const dispenseBatch = async (prescriptionIds: string[]) => {
+    const response = await fetch('/api/prescriptions/batch', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        action: 'dispense',
+        prescriptionIds,
+        pharmacyOdsCode,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Error processing batch: ${response.statusText}`);
+    }
 
-      // If all stock is available, proceed with batch dispensing
-      const response = await fetch('/api/prescriptions/batch', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'dispense',
-          prescriptionIds,
-        }),
-      });
+    const result = await response.json();
 
-      if (!response.ok) {
-        throw new Error(`Error processing batch: ${response.statusText}`);
-      }
+    // Partially dispensed prescriptions stay active until the owing is fulfilled
+    const completedIds = result.results
+      .filter((item: { status: string }) => item.status === 'completed')
+      .map((item: { id: string }) => item.id);
 
-      const result = await response.json();
+    setPrescriptions(prevPrescriptions =>
+      prevPrescriptions.map(prescription =>
+        completedIds.includes(prescription.id)
+          ? { ...prescription, status: 'completed' }
+          : prescription
+      )
+    );
 
-      if (!result.success) {
-        throw new Error(`Batch processing completed with ${result.errorCount} errors`);
-      }
+    setSelectedPrescriptions(prev => prev.filter(p => !prescriptionIds.includes(p.id)));
 
-      // Update the local state to reflect the changes
-      setPrescriptions(prevPrescriptions =>
-        prevPrescriptions.map(prescription =>
-          prescriptionIds.includes(prescription.id)
-            ? { ...prescription, status: 'completed' }
-            : prescription
-        )
-      );
+    if (result.errors.length > 0) {
+      throw new Error(`Batch processing completed with ${result.errors.length} errors`);
+    }
+  };
 
-      // Clear selected prescriptions
-      setSelectedPrescriptions([]);
+  // Batch processing handlers
+  const handleBatchDispense = async () => {
+    try {
+      await dispenseBatch(selectedPrescriptions.map(p => p.id));
     } catch (err: any) {
       console.error('Failed to process batch:', err);
       throw new Error(err.message || 'Failed to process batch. Please try again.');
@@ -323,6 +328,7 @@ export default function EPSPrescriptionList({ pharmacyOdsCode }: EPSPrescription
   // Search handlers
   const handleSearch = (params: SearchParams) => {
     setSearchParams(params);
+    searchParamsRef.current = params;
     setIsSearching(true);
     fetchPrescriptions(params);
   };
@@ -1,54 +1,97 @@
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
-import { Bell, CheckCircle } from 'lucide-react';
+import { Bell, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useState, useEffect } from 'react';
-import { PrescriptionNotification } from '@prisma/client';
+import { useSession } from 'next-auth/react';
+import NotificationService, { InAppNotification } from '@/services/NotificationService';
 
-interface PrescriptionNotificationsProps {
-  userId: string;
-}
-
-const PrescriptionNotifications: React.FC<PrescriptionNotificationsProps> = ({ userId }) => {
+const PrescriptionNotifications: React.FC = () => {
+  const { data: session } = useSession();
+  const pharmacyId = session?.user?.selectedPharmacyId;
   const [isOpen, setIsOpen] = useState(false);
-  const [notifications, setNotifications] = useState<PrescriptionNotification[]>([]);
+  const [notifications, setNotifications] = useState<InAppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (!response.ok) {
+        throw new Error('Failed to fetch notifications');
+      }
+      const data = await response.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load the inbox, then keep it up to date as notifications arrive
   useEffect(() => {
-    const fetchNotifications = async () => {
-      setIsLoading(true);
-      try {
-        const response = await fetch(`/api/notifications?userId=${userId}`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch notifications');
+    if (!pharmacyId) {
+      return;
+    }
+
+    let cancelled = false;
+    let connected = false;
+    const handleNotification = () => fetchNotifications();
+
+    fetchNotifications();
+    NotificationService.addListener(handleNotification);
+
+    fetch('/api/prescriptions/pharmacy')
+      .then(response => response.ok ? response.json() : { pharmacyOdsCode: null })
+      .then(({ pharmacyOdsCode }) => {
+        if (pharmacyOdsCode && !cancelled) {
+          NotificationService.connect(pharmacyOdsCode);
+          connected = true;
         }
-        const data = await response.json();
-        setNotifications(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred');
-      } finally {
-        setIsLoading(false);
+      })
+      .catch(err => console.error('Error connecting to notifications:', err));
+
+    return () => {
+      cancelled = true;
+      NotificationService.removeListener(handleNotification);
+      if (connected) {
+        NotificationService.disconnect();
       }
     };
+  }, [pharmacyId]);
 
-    if (isOpen) {
-      fetchNotifications();
+  const postAction = async (url: string, body?: object) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      throw new Error('Failed to update notification');
     }
-  }, [isOpen, userId]);
-
-  const handleMarkAsRead = async (notificationId: string) => {
-    console.log(`Marking notification ${notificationId} as read`);
-    setNotifications(prev => prev.filter(n => n.id !== notificationId));
+    await fetchNotifications();
   };
 
+  const handleMarkAsRead = (notificationId: string) =>
+    postAction(`/api/notifications/${notificationId}`, { action: 'read' }).catch(err => setError(err.message));
+
+  const handleDismiss = (notificationId: string) =>
+    postAction(`/api/notifications/${notificationId}`, { action: 'dismiss' }).catch(err => setError(err.message));
+
+  const handleMarkAllAsRead = () =>
+    postAction('/api/notifications/read-all').catch(err => setError(err.message));
+
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
         <Button variant="ghost" size="icon" className="relative">
           <Bell className="h-5 w-5" />
-          {notifications.filter(n => !n.isRead).length > 0 && (
+          {unreadCount > 0 && (
             <span className="absolute top-0 right-0 inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-red-100 transform translate-x-1/2 -translate-y-1/2 bg-red-600 rounded-full">
-              {notifications.filter(n => !n.isRead).length}
+              {unreadCount}
             </span>
           )}
         </Button>
@@ -56,12 +99,19 @@ const PrescriptionNotifications: React.FC<PrescriptionNotificationsProps> = ({ u
       <PopoverContent className="w-80">
         <div className="grid gap-4">
           <div className="space-y-2">
-            <h4 className="font-medium leading-none">Notifications</h4>
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium leading-none">Notifications</h4>
+              {unreadCount > 0 && (
+                <Button variant="link" size="sm" onClick={handleMarkAllAsRead} className="h-auto p-0">
+                  Mark all as read
+                </Button>
+              )}
+            </div>
             <p className="text-sm text-muted-foreground">
-              You have {notifications.filter(n => !n.isRead).length} unread messages.
+              You have {unreadCount} unread messages.
             </p>
           </div>
-          <div className="grid gap-2">
+          <div className="grid gap-2 max-h-96 overflow-y-auto">
             {isLoading && <p>Loading notifications...</p>}
             {error && <p className="text-red-500">Error: {error}</p>}
             {!isLoading && !error && notifications.length === 0 && (
@@ -70,9 +120,9 @@ const PrescriptionNotifications: React.FC<PrescriptionNotificationsProps> = ({ u
             {!isLoading && !error && notifications.map((notification) => (
               <div
                 key={notification.id}
-                className="mb-2 grid grid-cols-[25px_1fr] items-start pb-4 last:mb-0 last:pb-0"
+                className="mb-2 grid grid-cols-[25px_1fr_20px] items-start pb-4 last:mb-0 last:pb-0"
               >
-                <span className="flex h-2 w-2 translate-y-1 rounded-full bg-sky-500" />
+                <span className={`flex h-2 w-2 translate-y-1 rounded-full ${notification.read ? 'bg-gray-300' : 'bg-sky-500'}`} />
                 <div className="grid gap-1">
                   <p className="text-sm font-medium leading-none">
                     {notification.title || 'Notification'}
@@ -81,14 +131,26 @@ const PrescriptionNotifications: React.FC<PrescriptionNotificationsProps> = ({ u
                     {notification.message}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    {new Date(notification.createdAt).toLocaleString()}
+                    {new Date(notification.timestamp).toLocaleString()}
                   </p>
-                  {!notification.isRead && (
+                  {notification.action && (
+                    <a href={notification.action.url} className="text-sm text-nhs-blue hover:underline">
+                      {notification.action.label}
+                    </a>
+                  )}
+                  {!notification.read && (
                     <Button variant="outline" size="sm" onClick={() => handleMarkAsRead(notification.id)} className="mt-1">
                       Mark as read
                     </Button>
                   )}
                 </div>
+                <button
+                  className="text-gray-400 hover:text-gray-600"
+                  onClick={() => handleDismiss(notification.id)}
+                  aria-label="Dismiss notification"
+                >
+                  <X className="h-4 w-4" />
+                </button>
               </div>
             ))}
           </div>
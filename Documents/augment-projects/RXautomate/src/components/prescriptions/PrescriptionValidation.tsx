@@ -12,8 +12,7 @@ interface PrescriptionValidationProps {
 }
 
 interface AiValidationIssue extends ValidationIssue {
-  aiGenerated?: boolean;
-  confidence?: number;
+  id?: string;
 }
 
 interface AiValidationResult extends ValidationResult {
@@ -68,7 +67,7 @@ export default function PrescriptionValidation({ prescriptionId, onValidationCom
       [issueId]: isPositive
     }));
 
-    // Send feedback to the server to improve the AI model
+    // Send feedback to the server; it feeds AI precision/recall and model training
     try {
       const response = await fetch(`/api/prescriptions/${prescriptionId}/feedback`, {
         method: 'POST',
@@ -165,7 +164,7 @@ export default function PrescriptionValidation({ prescriptionId, onValidationCom
           {validationResult.issues.map((issue, index) => {
             const isAIGenerated = issue.aiGenerated === true;
             const confidenceScore = isAIGenerated && issue.confidence !== undefined ? issue.confidence : null;
-            const issueId = `issue-${index}`;
+            const issueId = issue.id ?? `issue-${index}`;
             
             return (
               <div 
@@ -196,7 +195,7 @@ export default function PrescriptionValidation({ prescriptionId, onValidationCom
                     )}
                   </div>
                   
-                  {isAIGenerated && (
+                  {issue.id && (
                     <div className="flex items-center space-x-2">
                       <Button 
                         variant="ghost" 
@@ -312,6 +311,8 @@ function getIssueTypeLabel(type: string): string {
       return 'Allergy Risk';
     case 'CONTRAINDICATION':
       return 'Contraindication';
+    case 'DUPLICATE_THERAPY':
+      return 'Duplicate Therapy';
     default:
       return type.replace(/_/g, ' ');
   }
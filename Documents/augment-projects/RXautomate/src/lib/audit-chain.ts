@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+
+// The chain for audit entries that don't belong to an organization
+export const PLATFORM_CHAIN = 'platform';
+
+// Bumped if the hashed fields ever change, so older entries still verify
+export const AUDIT_HASH_VERSION = 1;
+
+/**
+ * The fields of an audit entry that are hashed
+ * `details` is hashed as stored, i.e. the JSON string.
+ */
+export interface ChainedAuditFields {
+  chain: string;
+  sequence: number;
+  previousHash: string | null;
+  timestamp: Date;
+  action: string;
+  category: string;
+  organizationId?: string | null;
+  userId?: string | null;
+  patientId?: string | null;
+  nhsNumber?: string | null;
+  prescriptionId?: string | null;
+  details?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface CheckpointFields {
+  chain: string;
+  sequence: number;
+  hash: string;
+  createdAt: Date;
+}
+
+/**
+ * The chain an entry belongs in
+ * @param organizationId - The organization the entry is about, if any
+ * @returns The chain
+ */
+export function chainFor(organizationId?: string | null): string {
+  return organizationId || PLATFORM_CHAIN;
+}
+
+/**
+ * The hash of an audit entry, covering its content and the hash before it
+ * The fields go in a fixed-order array so the same entry always hashes the same.
+ * @param entry - The entry
+ * @returns The SHA-256 hash, hex encoded
+ */
+export function hashAuditEntry(entry: ChainedAuditFields): string {
+  const canonical = JSON.stringify([
+    AUDIT_HASH_VERSION,
+    entry.chain,
+    entry.sequence,
+    entry.previousHash ?? null,
+    entry.timestamp.toISOString(),
+    entry.action,
+    entry.category,
+    entry.organizationId ?? null,
+    entry.userId ?? null,
+    entry.patientId ?? null,
+    entry.nhsNumber ?? null,
+    entry.prescriptionId ?? null,
+    entry.details ?? null,
+    entry.ipAddress ?? null,
+    entry.userAgent ?? null,
+  ]);
+
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+// Env vars hold PEM keys on one line with \n escapes
+function readKey(value: string): string {
+  return value.replace(/\\n/g, '\n');
+}
+
+/**
+ * The key checkpoints are signed with, from AUDIT_SIGNING_KEY (an Ed25519 private key in PEM)
+ * @returns The key, or null if none is configured
+ */
+export function checkpointSigningKey(): crypto.KeyObject | null {
+  const configured = process.env.AUDIT_SIGNING_KEY;
+  return configured ? crypto.createPrivateKey(readKey(configured)) : null;
+}
+
+/**
+ * The key checkpoints are checked with
+ * AUDIT_VERIFY_KEY lets auditors verify without the private key; otherwise
+ * the public half of AUDIT_SIGNING_KEY is used.
+ * @returns The key, or null if none is configured
+ */
+export function checkpointVerifyKey(): crypto.KeyObject | null {
+  const configured = process.env.AUDIT_VERIFY_KEY;
+  if (configured) {
+    return crypto.createPublicKey(readKey(configured));
+  }
+
+  const signingKey = checkpointSigningKey();
+  return signingKey ? crypto.createPublicKey(signingKey) : null;
+}
+
+/**
+ * A short fingerprint of a public key, stored with each checkpoint
+ * @param key - The public or private key
+ * @returns The first 16 hex characters of the SHA-256 of the public key
+ */
+export function keyId(key: crypto.KeyObject): string {
+  const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+function checkpointPayload(checkpoint: CheckpointFields): Buffer {
+  return Buffer.from(JSON.stringify([
+    AUDIT_HASH_VERSION,
+    checkpoint.chain,
+    checkpoint.sequence,
+    checkpoint.hash,
+    checkpoint.createdAt.toISOString(),
+  ]));
+}
+
+/**
+ * Sign a checkpoint
+ * @param checkpoint - Where the chain had got to
+ * @param key - The Ed25519 private key
+ * @returns The signature, base64 encoded
+ */
+export function signCheckpoint(checkpoint: CheckpointFields, key: crypto.KeyObject): string {
+  return crypto.sign(null, checkpointPayload(checkpoint), key).toString('base64');
+}
+
+/**
+ * Check a checkpoint's signature
+ * @param checkpoint - The checkpoint
+ * @param signature - Its signature, base64 encoded
+ * @param key - The Ed25519 public key
+ * @returns True if the signature is good
+ */
+export function verifyCheckpointSignature(checkpoint: CheckpointFields, signature: string, key: crypto.KeyObject): boolean {
+  try {
+    return crypto.verify(null, checkpointPayload(checkpoint), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,96 @@
+import type { NextAuthOptions } from 'next-auth';
+import type { JWT } from 'next-auth/jwt';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { prisma } from '@/lib/db/prisma';
+import { Cis2Profile, Cis2Provider, CIS2_PROVIDER_ID } from '@/lib/cis2';
+import AuthenticationService, { requestInfo, SESSION_MAX_AGE_HOURS } from '@/services/AuthenticationService';
+import Cis2Service from '@/services/Cis2Service';
+
+/**
+ * Put a password user and their pharmacies in the JWT
+ * Users who work at one pharmacy start in it; others pick one.
+ */
+async function withPasswordUser(token: JWT, user: any): Promise<JWT> {
+  const assignments = await prisma.userPharmacy.findMany({
+    where: { userId: user.id },
+    select: { pharmacyId: true, role: true, pharmacy: { select: { name: true } } },
+  });
+
+  token.id = user.id;
+  token.role = user.role;
+  token.organizationId = user.organizationId;
+  token.organizationName = user.organizationName;
+  token.pharmacies = assignments.map((assignment: any) => ({
+    id: assignment.pharmacyId,
+    name: assignment.pharmacy.name,
+    role: assignment.role,
+  }));
+
+  const only = token.pharmacies.length === 1 ? token.pharmacies[0] : null;
+  token.selectedPharmacyId = only?.id || null;
+  token.selectedPharmacyName = only?.name || null;
+
+  return token;
+}
+
+/**
+ * NextAuth configuration: the sign-in providers, and the callbacks that keep
+ * the user, their pharmacies and their CIS2 role in the JWT and session
+ */
+export const authOptions: NextAuthOptions = {
+  session: { strategy: 'jwt', maxAge: SESSION_MAX_AGE_HOURS * 60 * 60 },
+  pages: {
+    signIn: '/auth/login',
+    error: '/auth/login',
+  },
+  providers: [
+    CredentialsProvider({
+      credentials: { email: {}, password: {}, code: {} },
+      // Throws a SignInError whose message the login form shows, e.g. MfaRequired
+      authorize: (credentials, req) => AuthenticationService.authorize(credentials || {}, requestInfo(req?.headers)),
+    }),
+    Cis2Provider(),
+  ],
+  callbacks: {
+    async signIn({ account, profile }) {
+      return account?.provider === CIS2_PROVIDER_ID ? Cis2Service.signIn(profile as Cis2Profile) : true;
+    },
+
+    async jwt({ token, user, account, profile, trigger, session }) {
+      token = await Cis2Service.jwt(token, { account, profile, trigger, session });
+
+      if (user && account?.provider === 'credentials') {
+        token = await withPasswordUser(token, user);
+      }
+
+      // CIS2 users change pharmacy by changing role; everyone else picks one of theirs
+      if (trigger === 'update' && !token.isCis2User && session?.selectedPharmacyId) {
+        const pharmacy = (token.pharmacies || []).find(p => p.id === session.selectedPharmacyId);
+        if (pharmacy) {
+          token.selectedPharmacyId = pharmacy.id;
+          token.selectedPharmacyName = pharmacy.name;
+        }
+      }
+
+      // Records the sign-in's session, and turns away sessions that have been signed out
+      return AuthenticationService.jwt(token, { user, account, trigger, session });
+    },
+
+    async session({ session, token }) {
+      session.user.id = token.id;
+      session.user.role = token.role;
+      session.user.organizationId = token.organizationId;
+      session.user.organizationName = token.organizationName;
+      session.user.pharmacies = token.pharmacies;
+      session.user.selectedPharmacyId = token.selectedPharmacyId;
+      session.user.selectedPharmacyName = token.selectedPharmacyName;
+      session.user.isCis2User = token.isCis2User;
+      session.user.cis2Roles = token.cis2Roles;
+      session.user.cis2RoleId = token.cis2RoleId;
+      session.user.sessionId = token.sessionId;
+      session.user.mfaEnrollmentRequired = token.mfaEnrollmentRequired;
+
+      return session;
+    },
+  },
+};
@@ -0,0 +1 @@
+export { authOptions } from './auth-options';
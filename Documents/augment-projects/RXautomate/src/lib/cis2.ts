@@ -0,0 +1,177 @@
+import type { OAuthConfig } from 'next-auth/providers/oauth';
+import type { TokenSet } from 'openid-client';
+import { PHARMACY_ROLES, PharmacyRole } from './permissions';
+
+export const CIS2_PROVIDER_ID = 'cis2';
+
+/**
+ * A national RBAC role from the nhsid_nrbac_roles claim
+ */
+export interface Cis2RbacRole {
+  person_roleid: string; // Identifies this role assignment; what selected_roleid refers to
+  person_orgid?: string;
+  org_code: string; // ODS code of the organisation the role is held at
+  role_name?: string; // e.g. "Clinical":"Clinical Provision":"Health Professional Access Role"
+  role_code: string; // e.g. S8000:G8000:R8003; the last part is the job role code
+  activities?: string[];
+  activity_codes?: string[]; // e.g. B0572 (manage pharmacy activities)
+}
+
+/**
+ * The claims we use from the CIS2 ID token and userinfo
+ */
+export interface Cis2Profile {
+  sub: string;
+  uid?: string; // The user's UUID, printed on their smartcard
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  email?: string;
+  nhsid_nrbac_roles?: Cis2RbacRole[];
+  selected_roleid?: string; // The role picked at CIS2, when the selectedrole scope was asked for
+}
+
+/**
+ * A CIS2 role a user can act in here, mapped to our pharmacy role
+ */
+export interface Cis2Role {
+  roleId: string;
+  roleCode: string;
+  roleName: string;
+  odsCode: string;
+  activityCodes: string[];
+  pharmacyRole: PharmacyRole;
+}
+
+/**
+ * Which pharmacy role each national RBAC job role code gets
+ */
+export type Cis2RoleMap = Record<string, PharmacyRole>;
+
+/**
+ * Conservative defaults: clinical and health professional access roles act
+ * as pharmacists, support and student roles as staff. Codes not listed give
+ * no access, so technicians and local admins need their codes adding.
+ */
+export const DEFAULT_CIS2_ROLE_MAP: Cis2RoleMap = {
+  R8000: 'PHARMACIST', // Clinical Practitioner Access Role
+  R8003: 'PHARMACIST', // Health Professional Access Role
+  R8004: 'STAFF', // Healthcare Student Access Role
+  R8008: 'STAFF', // Admin/Clinical Support Access Role
+};
+
+/**
+ * Apply overrides to the default role map
+ * `{"R8008": "TECHNICIAN", "R8004": null}` makes support roles technicians
+ * and stops students signing in. Unknown pharmacy roles are rejected.
+ * @param overrides - The overrides, as JSON or already parsed
+ * @returns The role map
+ */
+export function buildCis2RoleMap(overrides?: string | Record<string, unknown> | null): Cis2RoleMap {
+  if (!overrides) {
+    return DEFAULT_CIS2_ROLE_MAP;
+  }
+
+  const parsed = typeof overrides === 'string' ? JSON.parse(overrides) : overrides;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('CIS2 role map overrides must be an object of job role code to pharmacy role');
+  }
+
+  const roleMap: Cis2RoleMap = { ...DEFAULT_CIS2_ROLE_MAP };
+
+  for (const [code, role] of Object.entries(parsed)) {
+    if (role === null) {
+      delete roleMap[code];
+      continue;
+    }
+    if (!PHARMACY_ROLES.includes(role as PharmacyRole)) {
+      throw new Error(`Unknown pharmacy role for ${code} in CIS2 role map: ${role}`);
+    }
+    roleMap[code] = role as PharmacyRole;
+  }
+
+  return roleMap;
+}
+
+export const cis2RoleMap = buildCis2RoleMap(process.env.CIS2_ROLE_MAP);
+
+/**
+ * The job role code from a full role code
+ * @param roleCode - e.g. S8000:G8000:R8003
+ * @returns e.g. R8003
+ */
+export function jobRoleCode(roleCode: string): string {
+  const parts = (roleCode || '').split(':');
+  return parts[parts.length - 1];
+}
+
+/**
+ * The user's CIS2 roles that map to a pharmacy role
+ * @param profile - The CIS2 claims
+ * @param roleMap - Job role code to pharmacy role
+ * @returns The usable roles, in the order CIS2 listed them
+ */
+export function cis2Roles(profile: Cis2Profile, roleMap: Cis2RoleMap = cis2RoleMap): Cis2Role[] {
+  return (profile.nhsid_nrbac_roles || [])
+    .filter(role => role.person_roleid && role.org_code && roleMap[jobRoleCode(role.role_code)])
+    .map(role => ({
+      roleId: role.person_roleid,
+      roleCode: role.role_code,
+      roleName: (role.role_name || jobRoleCode(role.role_code)).split(':').pop()!.replace(/"/g, ''),
+      odsCode: role.org_code.toUpperCase(),
+      activityCodes: role.activity_codes || [],
+      pharmacyRole: roleMap[jobRoleCode(role.role_code)],
+    }));
+}
+
+export interface Cis2ProviderOptions {
+  issuer?: string;
+  clientId?: string;
+  clientSecret?: string;
+  acrValues?: string; // Authentication assurance to ask for; AAL3_ANY needs a smartcard or equivalent
+}
+
+/**
+ * NextAuth provider for NHS Care Identity Service 2
+ * Register it in authOptions.providers. The ID token is validated as usual
+ * and the userinfo claims, which carry the RBAC roles, are merged into the
+ * profile handed to the signIn and jwt callbacks.
+ * @param options - Defaults come from the CIS2_* environment variables
+ * @returns The provider
+ */
+export function Cis2Provider(options: Cis2ProviderOptions = {}): OAuthConfig<Cis2Profile> {
+  const issuer = (options.issuer || process.env.CIS2_ISSUER || '').replace(/\/$/, '');
+
+  return {
+    id: CIS2_PROVIDER_ID,
+    name: 'NHS Care Identity Service 2',
+    type: 'oauth',
+    wellKnown: `${issuer}/.well-known/openid-configuration`,
+    issuer,
+    clientId: options.clientId || process.env.CIS2_CLIENT_ID,
+    clientSecret: options.clientSecret || process.env.CIS2_CLIENT_SECRET,
+    client: { token_endpoint_auth_method: 'client_secret_post' },
+    authorization: {
+      params: {
+        scope: 'openid profile email nationalrbacaccess selectedrole',
+        acr_values: options.acrValues || process.env.CIS2_ACR_VALUES || 'AAL3_ANY',
+      },
+    },
+    idToken: true,
+    checks: ['pkce', 'state', 'nonce'],
+    userinfo: {
+      async request({ client, tokens }) {
+        // NextAuth passes the validated TokenSet here, though it's typed as its parameters
+        const tokenSet = tokens as TokenSet;
+        return { ...tokenSet.claims(), ...(await client.userinfo(tokenSet)) } as any;
+      },
+    },
+    profile(profile) {
+      return {
+        id: profile.sub,
+        name: profile.name || [profile.given_name, profile.family_name].filter(Boolean).join(' ') || profile.sub,
+        email: profile.email || null,
+      };
+    },
+  };
+}
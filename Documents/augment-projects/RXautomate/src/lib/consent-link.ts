@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+
+// How long a patient has to use a consent link
+export const CONSENT_LINK_EXPIRY_DAYS = Number(process.env.CONSENT_LINK_EXPIRY_DAYS || 14);
+
+export interface ConsentLinkClaims {
+  linkId: string;
+  expiresAt: Date;
+}
+
+/**
+ * The secret consent link tokens are signed with, from CONSENT_LINK_SECRET
+ * @returns The secret
+ */
+function linkSecret(): string {
+  const secret = process.env.CONSENT_LINK_SECRET;
+  if (!secret) {
+    throw new Error('CONSENT_LINK_SECRET must be set to send patients consent links');
+  }
+  return secret;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * The token for a consent link: the link's ID and expiry, signed
+ * Signing means a token can't be made up or altered; the ConsentLink row
+ * makes it work only once.
+ * @param claims - The link's ID and expiry
+ * @param secret - The signing secret
+ * @returns The token, safe to put in a URL
+ */
+export function createConsentLinkToken(claims: ConsentLinkClaims, secret: string = linkSecret()): string {
+  const payload = Buffer.from(JSON.stringify([claims.linkId, Math.floor(claims.expiresAt.getTime() / 1000)])).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Check a consent link token
+ * @param token - The token from the link
+ * @param now - The time to check expiry against
+ * @param secret - The signing secret
+ * @returns The link's ID and expiry, or null if the token is forged, altered or expired
+ */
+export function verifyConsentLinkToken(
+  token: string,
+  now: Date = new Date(),
+  secret: string = linkSecret()
+): ConsentLinkClaims | null {
+  const [payload, signature, ...rest] = (token || '').split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return null;
+  }
+
+  try {
+    const [linkId, expires] = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const expiresAt = new Date(expires * 1000);
+
+    if (typeof linkId !== 'string' || isNaN(expiresAt.getTime()) || expiresAt <= now) {
+      return null;
+    }
+
+    return { linkId, expiresAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The address patients open a consent link at
+ * CONSENT_PORTAL_URL is the patient consent page (the frontend app).
+ * @param token - The link's token
+ * @returns The URL
+ */
+export function consentLinkUrl(token: string): string {
+  const base = (process.env.CONSENT_PORTAL_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${base}/?token=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,218 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * Whose data a query may touch
+ * Set per request from the session; `system` is for scheduled jobs and
+ * super admin tools that work across tenants on purpose.
+ */
+export interface TenantContext {
+  organizationId?: string | null;
+  pharmacyId?: string | null;
+  userId?: string;
+  system?: boolean;
+}
+
+/**
+ * Thrown instead of running a query that isn't scoped to a tenant
+ */
+export class TenantIsolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantIsolationError';
+  }
+}
+
+type TenantScope = 'pharmacy' | 'organization';
+
+// Models holding one tenant's data, and the column that says whose it is
+export const TENANT_SCOPED_MODELS: Record<string, TenantScope> = {
+  Patient: 'pharmacy',
+  Prescription: 'pharmacy',
+  InventoryItem: 'pharmacy',
+  Appointment: 'pharmacy',
+  Consent: 'pharmacy',
+  Transaction: 'pharmacy',
+  PharmacyIntegration: 'pharmacy',
+  ClinicalCheck: 'pharmacy',
+  ValidationRun: 'pharmacy',
+  ControlledDrugRegister: 'pharmacy',
+  PrescriptionClaim: 'pharmacy',
+  ClaimBatch: 'pharmacy',
+  Owing: 'pharmacy',
+  WholesalerOrder: 'pharmacy',
+  PrescriptionSyncCursor: 'pharmacy',
+  PrescriptionSyncFailure: 'pharmacy',
+  RepeatSchedule: 'pharmacy',
+  StaffNotification: 'pharmacy',
+  PatientMessage: 'pharmacy',
+  DataSubjectRequest: 'pharmacy',
+  ConsentLink: 'pharmacy',
+  Pharmacy: 'organization',
+  MessageTemplate: 'organization',
+  ConsentNotice: 'organization',
+};
+
+const SCOPE_FIELDS: Record<TenantScope, { field: string; relation: string }> = {
+  pharmacy: { field: 'pharmacyId', relation: 'pharmacy' },
+  organization: { field: 'organizationId', relation: 'organization' },
+};
+
+const WHERE_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+  'upsert',
+];
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Run code with a tenant context; every tenant-scoped query inside it is limited to that tenant
+ * @param context - The tenant
+ * @param fn - The code to run
+ * @returns What fn returns
+ */
+export function runWithTenant<T>(context: TenantContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run code that reads or writes across tenants, such as a scheduled job
+ * @param fn - The code to run
+ * @returns What fn returns
+ */
+export function runAsSystem<T>(fn: () => T): T {
+  return storage.run({ system: true }, fn);
+}
+
+/**
+ * The tenant context the current code is running in
+ * @returns The context, or null outside runWithTenant and runAsSystem
+ */
+export function getTenantContext(): TenantContext | null {
+  return storage.getStore() || null;
+}
+
+/**
+ * The tenant a signed-in user is working in: their organisation and selected pharmacy
+ * @param session - The NextAuth session
+ * @returns The tenant context
+ */
+export function tenantFromSession(session: {
+  user: { id?: string; organizationId?: string | null; selectedPharmacyId?: string | null };
+}): TenantContext {
+  return {
+    organizationId: session.user.organizationId || null,
+    pharmacyId: session.user.selectedPharmacyId || null,
+    userId: session.user.id,
+  };
+}
+
+/**
+ * Run an admin tool for a signed-in user: super admins manage every
+ * organisation on purpose, everyone else stays in their own tenant
+ * @param session - The NextAuth session
+ * @param fn - The code to run
+ * @returns What fn returns
+ */
+export function runAsAdmin<T>(
+  session: { user: { id?: string; role?: string; organizationId?: string | null; selectedPharmacyId?: string | null } },
+  fn: () => T
+): T {
+  return session.user.role === 'SUPER_ADMIN' ? runAsSystem(fn) : runWithTenant(tenantFromSession(session), fn);
+}
+
+/**
+ * Limit a query's arguments to the current tenant
+ * The tenant filter is ANDed with the caller's, so asking for another
+ * tenant's rows finds nothing. Creates must be for the current tenant, and
+ * updates can't move a row to another one. Relations loaded with include
+ * aren't filtered; load tenant data from its own model.
+ * @param model - The Prisma model name, e.g. InventoryItem
+ * @param operation - The Prisma operation, e.g. findMany
+ * @param args - The query arguments
+ * @param context - The current tenant context
+ * @returns The arguments to run the query with
+ */
+export function scopeQuery(model: string | undefined, operation: string, args: any, context: TenantContext | null): any {
+  const scope = model ? TENANT_SCOPED_MODELS[model] : undefined;
+  if (!scope || context?.system) {
+    return args;
+  }
+
+  const { field, relation } = SCOPE_FIELDS[scope];
+  const tenantId = scope === 'pharmacy' ? context?.pharmacyId : context?.organizationId;
+
+  if (!tenantId) {
+    throw new TenantIsolationError(
+      `${model}.${operation} needs a ${scope === 'pharmacy' ? 'selected pharmacy' : 'organization'}; run it with runWithTenant or runAsSystem`
+    );
+  }
+
+  const checkData = (data: any, filling: boolean) => {
+    if (!data) {
+      return data;
+    }
+
+    const given = data[field] ?? data[relation]?.connect?.id;
+    if (given !== undefined && given !== tenantId) {
+      throw new TenantIsolationError(`${model}.${operation} can't write to another tenant's ${relation}`);
+    }
+
+    return filling && given === undefined ? { ...data, [field]: tenantId } : data;
+  };
+
+  const scoped = { ...args };
+
+  if (WHERE_OPERATIONS.includes(operation)) {
+    const where = args?.where || {};
+    const and = where.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+    scoped.where = { ...where, AND: [...and, { [field]: tenantId }] };
+  }
+
+  if (operation === 'create') {
+    scoped.data = checkData(args?.data, true);
+  } else if (operation === 'createMany' || operation === 'createManyAndReturn') {
+    scoped.data = Array.isArray(args?.data)
+      ? args.data.map((data: any) => checkData(data, true))
+      : checkData(args?.data, true);
+  } else if (operation === 'update' || operation === 'updateMany') {
+    scoped.data = checkData(args?.data, false);
+  } else if (operation === 'upsert') {
+    scoped.create = checkData(args?.create, true);
+    scoped.update = checkData(args?.update, false);
+  }
+
+  return scoped;
+}
+
+/**
+ * Prisma client extension applying the current tenant to every query on a tenant-scoped model
+ */
+export const tenantIsolation = Prisma.defineExtension({
+  name: 'tenantIsolation',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        return query(scopeQuery(model, operation, args, getTenantContext()));
+      },
+    },
+  },
+});
+
+/**
+ * The Prisma client for request handling: tenant-scoped models only ever
+ * return the current tenant's rows, and fail without a tenant context
+ */
+export const tenantPrisma = prisma.$extends(tenantIsolation);
@@ -0,0 +1,103 @@
+// A4 in points, with 50pt margins
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+const FONT_SIZE = 10;
+const HEADING_SIZE = 12;
+const LEADING = 14;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+// Helvetica averages about half an em, so this fits the width at 10pt
+export const PDF_LINE_LENGTH = 95;
+
+export type PdfLine = string | { text: string; heading?: boolean };
+
+/**
+ * Break a line at spaces so it fits the page, keeping its indent
+ * @param text - The line
+ * @param width - The most characters per line
+ * @returns The wrapped lines
+ */
+export function wrapLine(text: string, width: number = PDF_LINE_LENGTH): string[] {
+  if (text.length <= width) {
+    return [text];
+  }
+
+  const indent = text.match(/^\s*/)![0];
+  const lines: string[] = [];
+  let rest = text;
+
+  while (rest.length > width) {
+    const space = rest.lastIndexOf(' ', width);
+    const cut = space > indent.length ? space : width;
+    lines.push(rest.slice(0, cut));
+    rest = indent + rest.slice(cut).trimStart();
+  }
+
+  return [...lines, rest];
+}
+
+// PDF strings escape backslashes and brackets; the standard fonts only have Latin-1
+function pdfString(text: string): string {
+  const latin1 = Array.from(text, char => (char.charCodeAt(0) > 255 ? '?' : char)).join('');
+  return `(${latin1.replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+/**
+ * A plain text PDF, for documents people need to print or keep rather than read on screen
+ * Uses the built-in Helvetica fonts, so nothing is embedded; text outside
+ * Latin-1 comes out as '?'.
+ * @param lines - The lines, in order; headings are set in bold
+ * @returns The PDF file
+ */
+export function textPdf(lines: PdfLine[]): Buffer {
+  const wrapped = lines.flatMap(line => {
+    const { text, heading } = typeof line === 'string' ? { text: line, heading: false } : line;
+    return wrapLine(text).map(part => ({ text: part, heading: Boolean(heading) }));
+  });
+
+  const pages: (typeof wrapped)[] = [];
+  for (let i = 0; i < wrapped.length || pages.length === 0; i += LINES_PER_PAGE) {
+    pages.push(wrapped.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and its content
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((page, i) => {
+    const content = [
+      'BT',
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...page.map(line => `/${line.heading ? 'F2' : 'F1'} ${line.heading ? HEADING_SIZE : FONT_SIZE} Tf ${pdfString(line.text)} Tj T*`),
+      `/F1 8 Tf ${pdfString(`Page ${i + 1} of ${pages.length}`)} Tj`,
+      'ET',
+    ].join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,252 @@
+/**
+ * Named permissions checked by API routes and pages
+ */
+export const PERMISSIONS = {
+  'prescription.read': 'View prescriptions and their history',
+  'prescription.update': 'Update prescriptions, sync from EPS and manage repeat schedules',
+  'prescription.dispense': 'Dispense and cancel prescriptions',
+  'prescription.clinical_check': 'Run validation and record clinical checks',
+  'inventory.read': 'View stock levels',
+  'inventory.adjust': 'Add, adjust and remove stock',
+  'owing.read': 'View owings and wholesaler orders',
+  'owing.manage': 'Fulfil owings and receive wholesaler orders',
+  'controlled_drug.read': 'View the controlled drug register',
+  'controlled_drug.record': 'Record controlled drug register entries',
+  'claim.read': 'View NHSBSA claims and reconciliation',
+  'claim.submit': 'Submit NHSBSA claims',
+  'patient.read': 'View patients, adherence and appointments',
+  'patient.write': 'Update patient details, preferences and interventions',
+  'patient.export': 'Export patient data',
+  'data_request.manage': 'Log and answer subject access, erasure and rectification requests',
+  'message.read': 'View patient messages and the letter queue',
+  'message.send': 'Send reminders, print letters and release deferred messages',
+  'notification.read': 'Receive and read staff notifications',
+  'notification.send': 'Send notifications to pharmacy staff',
+  'notification.manage': 'Clear out expired notifications',
+  'analytics.read': 'View analytics and business insights',
+  'audit.read': 'View the audit log',
+  'admin.access': 'Open the admin area',
+  'organization.manage': 'Create and manage organizations',
+  'organization.settings': 'Manage the organization\'s own settings',
+  'pharmacy.manage': 'Create and manage pharmacies',
+  'user.manage': 'Invite users, assign them to pharmacies and deactivate them',
+  'billing.manage': 'Manage billing',
+  'settings.manage': 'Manage system settings',
+  'message_template.manage': 'Edit patient message templates',
+  'consent_notice.manage': 'Publish new wording for consent notices',
+  'validation_rule.manage': 'Configure prescription validation rules',
+  'drug_knowledge.manage': 'Manage local drug knowledge rules',
+  'nhs_api.monitor': 'Monitor NHS API usage',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type UserRole = 'SUPER_ADMIN' | 'ORG_ADMIN' | 'PHARMACY_ADMIN' | 'PHARMACY_STAFF';
+
+export type PharmacyRole = 'ADMIN' | 'PHARMACIST' | 'TECHNICIAN' | 'STAFF';
+
+export const USER_ROLES: UserRole[] = ['SUPER_ADMIN', 'ORG_ADMIN', 'PHARMACY_ADMIN', 'PHARMACY_STAFF'];
+
+export const PHARMACY_ROLES: PharmacyRole[] = ['ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF'];
+
+/**
+ * One way of holding a permission
+ * A grant matches when the user's role is in `roles` and their role at the
+ * selected pharmacy is in `pharmacyRoles`; leaving either out matches any.
+ * A grant with `pharmacyRoles` never matches without a selected pharmacy.
+ */
+export interface PermissionGrant {
+  roles?: UserRole[];
+  pharmacyRoles?: PharmacyRole[];
+}
+
+/**
+ * Who holds each permission; a user holds it if any of its grants match
+ */
+export type PermissionMatrix = Record<Permission, PermissionGrant[]>;
+
+/**
+ * The signed-in user as far as permissions are concerned; a session user or JWT
+ */
+export interface PermissionSubject {
+  role?: string | null;
+  pharmacies?: Array<{ id: string; role: string }>;
+  selectedPharmacyId?: string | null;
+}
+
+const ADMINS: PermissionGrant = { roles: ['SUPER_ADMIN', 'ORG_ADMIN'] };
+const SUPER_ADMINS: PermissionGrant = { roles: ['SUPER_ADMIN'] };
+const pharmacy = (...pharmacyRoles: PharmacyRole[]): PermissionGrant => ({ pharmacyRoles });
+
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+  'prescription.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF')],
+  'prescription.update': [pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN')],
+  'prescription.dispense': [pharmacy('PHARMACIST', 'TECHNICIAN')],
+  'prescription.clinical_check': [pharmacy('PHARMACIST')],
+  'inventory.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF')],
+  'inventory.adjust': [pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN')],
+  'owing.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF')],
+  'owing.manage': [pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN')],
+  'controlled_drug.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN')],
+  'controlled_drug.record': [pharmacy('PHARMACIST')],
+  'claim.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST')],
+  'claim.submit': [pharmacy('ADMIN', 'PHARMACIST')],
+  'patient.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF')],
+  'patient.write': [pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN')],
+  'patient.export': [ADMINS, pharmacy('ADMIN')],
+  'data_request.manage': [ADMINS, pharmacy('ADMIN')],
+  'message.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF')],
+  'message.send': [pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF')],
+  'notification.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST', 'TECHNICIAN', 'STAFF')],
+  'notification.send': [ADMINS, pharmacy('ADMIN', 'PHARMACIST')],
+  'notification.manage': [ADMINS],
+  'analytics.read': [ADMINS, pharmacy('ADMIN', 'PHARMACIST')],
+  'audit.read': [ADMINS],
+  'admin.access': [ADMINS],
+  'organization.manage': [SUPER_ADMINS],
+  'organization.settings': [ADMINS],
+  'pharmacy.manage': [ADMINS],
+  'user.manage': [ADMINS],
+  'billing.manage': [ADMINS],
+  'settings.manage': [SUPER_ADMINS],
+  'message_template.manage': [ADMINS],
+  'consent_notice.manage': [ADMINS],
+  'validation_rule.manage': [ADMINS],
+  'drug_knowledge.manage': [ADMINS],
+  'nhs_api.monitor': [ADMINS],
+};
+
+/**
+ * Apply overrides to the default matrix
+ * Each permission in the overrides replaces that permission's grants, so
+ * `{"inventory.adjust": [{"pharmacyRoles": ["PHARMACIST"]}]}` limits stock
+ * adjustments to pharmacists. Unknown permissions and roles are rejected
+ * rather than ignored, so a typo can't quietly open or close access.
+ * @param overrides - The overrides, as JSON or already parsed
+ * @returns The matrix to check permissions against
+ */
+export function buildPermissionMatrix(overrides?: string | Record<string, unknown> | null): PermissionMatrix {
+  if (!overrides) {
+    return DEFAULT_PERMISSION_MATRIX;
+  }
+
+  const parsed = typeof overrides === 'string' ? JSON.parse(overrides) : overrides;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Permission overrides must be an object of permission to grants');
+  }
+
+  const matrix: PermissionMatrix = { ...DEFAULT_PERMISSION_MATRIX };
+
+  for (const [permission, grants] of Object.entries(parsed)) {
+    if (!Object.prototype.hasOwnProperty.call(PERMISSIONS, permission)) {
+      throw new Error(`Unknown permission in overrides: ${permission}`);
+    }
+    if (!Array.isArray(grants)) {
+      throw new Error(`Grants for ${permission} must be an array`);
+    }
+
+    matrix[permission as Permission] = grants.map((grant: any) => {
+      const unknownRole = (grant?.roles || []).find((role: any) => !USER_ROLES.includes(role));
+      const unknownPharmacyRole = (grant?.pharmacyRoles || []).find((role: any) => !PHARMACY_ROLES.includes(role));
+
+      if (unknownRole || unknownPharmacyRole) {
+        throw new Error(`Unknown role in grants for ${permission}: ${unknownRole || unknownPharmacyRole}`);
+      }
+
+      return {
+        ...(grant.roles ? { roles: grant.roles } : {}),
+        ...(grant.pharmacyRoles ? { pharmacyRoles: grant.pharmacyRoles } : {}),
+      };
+    });
+  }
+
+  return matrix;
+}
+
+/**
+ * The matrix in force: the defaults with any PERMISSION_MATRIX overrides applied
+ */
+export const permissionMatrix = buildPermissionMatrix(process.env.PERMISSION_MATRIX);
+
+/**
+ * The user's role at their selected pharmacy
+ * @param user - The session user or JWT
+ * @returns The pharmacy role, or null without a selected pharmacy
+ */
+export function selectedPharmacyRole(user: PermissionSubject): string | null {
+  if (!user.selectedPharmacyId) {
+    return null;
+  }
+
+  return (user.pharmacies || []).find(pharmacy => pharmacy.id === user.selectedPharmacyId)?.role || null;
+}
+
+/**
+ * Check whether a user holds a permission
+ * @param user - The session user or JWT
+ * @param permission - The permission
+ * @param matrix - The matrix to check against
+ * @returns True if any of the permission's grants match the user
+ */
+export function hasPermission(
+  user: PermissionSubject | null | undefined,
+  permission: Permission,
+  matrix: PermissionMatrix = permissionMatrix
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  const pharmacyRole = selectedPharmacyRole(user);
+
+  return (matrix[permission] || []).some(grant =>
+    (!grant.roles || grant.roles.includes(user.role as UserRole)) &&
+    (!grant.pharmacyRoles || (pharmacyRole !== null && grant.pharmacyRoles.includes(pharmacyRole as PharmacyRole)))
+  );
+}
+
+/**
+ * Every permission a user holds
+ * @param user - The session user or JWT
+ * @param matrix - The matrix to check against
+ * @returns The permissions
+ */
+export function permissionsFor(user: PermissionSubject | null | undefined, matrix: PermissionMatrix = permissionMatrix): Permission[] {
+  return (Object.keys(PERMISSIONS) as Permission[]).filter(permission => hasPermission(user, permission, matrix));
+}
+
+// Pages and the permission needed to open them, most specific first
+export const PAGE_PERMISSIONS: Array<[string, Permission]> = [
+  ['/admin/organizations', 'organization.manage'],
+  ['/admin/organization', 'organization.settings'],
+  ['/admin/users', 'user.manage'],
+  ['/admin/settings', 'settings.manage'],
+  ['/admin/pharmacies', 'pharmacy.manage'],
+  ['/admin/billing', 'billing.manage'],
+  ['/admin/message-templates', 'message_template.manage'],
+  ['/admin/consent-notices', 'consent_notice.manage'],
+  ['/admin/validation-rules', 'validation_rule.manage'],
+  ['/admin/drug-knowledge', 'drug_knowledge.manage'],
+  ['/admin/nhs-api-monitor', 'nhs_api.monitor'],
+  ['/admin', 'admin.access'],
+  ['/prescriptions/analytics', 'analytics.read'],
+  ['/prescriptions', 'prescription.read'],
+  ['/mobile', 'prescription.read'],
+  ['/inventory', 'inventory.read'],
+  ['/owings', 'owing.read'],
+  ['/claims', 'claim.read'],
+  ['/messages', 'message.read'],
+  ['/vaccinations', 'patient.read'],
+  ['/gdpr/requests', 'data_request.manage'],
+  ['/gdpr', 'patient.write'],
+];
+
+/**
+ * The permission needed to open a page
+ * @param pathname - The page path
+ * @returns The permission, or null if any signed-in user can open it
+ */
+export function pagePermission(pathname: string): Permission | null {
+  const match = PAGE_PERMISSIONS.find(([path]) => pathname === path || pathname.startsWith(`${path}/`));
+  return match ? match[1] : null;
+}
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+
+// RFC 6238 defaults, which every authenticator app supports
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as unpadded base32, the form authenticator apps take secrets in
+ * @param buffer - The bytes
+ * @returns The base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ * @param input - The base32 string
+ * @returns The bytes
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * A new random secret
+ * @returns 160 bits, base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * The time step a moment falls in
+ * @param time - Milliseconds since the epoch
+ * @returns The step
+ */
+export function totpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * The code for a time step
+ * @param secret - The base32 secret
+ * @param step - The time step
+ * @returns The zero-padded code
+ */
+export function totpCode(secret: string, step: number = totpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step % 0x100000000, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Check a code, allowing for a clock a step either way out
+ * @param secret - The base32 secret
+ * @param code - The code the user entered
+ * @param time - Milliseconds since the epoch
+ * @param window - How many steps either side to accept
+ * @returns The time step the code is for, or null if it doesn't match
+ */
+export function verifyTotp(secret: string, code: string, time: number = Date.now(), window = 1): number | null {
+  const entered = (code || '').replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(entered)) {
+    return null;
+  }
+
+  const current = totpStep(time);
+
+  for (let step = current - window; step <= current + window; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(entered))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The otpauth:// URI authenticator apps scan from a QR code
+ * @param secret - The base32 secret
+ * @param accountName - Shown in the app, usually the email address
+ * @param issuer - Shown in the app above the account name
+ * @returns The URI
+ */
+export function otpauthUri(secret: string, accountName: string, issuer = 'RXautomate'): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
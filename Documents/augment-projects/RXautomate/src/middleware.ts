@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
 import { nhsApiRateLimiter } from './middleware/nhs-api-rate-limiter';
+import { hasPermission, pagePermission } from './lib/permissions';
 
 // Paths that don't require authentication
 const publicPaths = [
@@ -11,28 +12,30 @@ const publicPaths = [
   "/auth/reset-password",
   "/auth/verify-request",
   "/auth/error",
+  "/auth/accept-invite",
   "/api/auth",
+  "/api/invitations",
+  "/api/password-reset",
+  "/api/consent-links",
 ];
 
-// Paths that require super admin access
-const superAdminPaths = [
-  "/admin/organizations",
-  "/admin/users",
-  "/admin/settings",
-];
-
-// Paths that require organization admin access
-const orgAdminPaths = [
-  "/admin/organization",
-  "/admin/pharmacies",
-  "/admin/billing",
+// Paths called by other systems and schedulers without a session; each route
+// checks its own bearer secret, and falls back to requirePermission for users
+const secretPaths = [
+  "/api/notify/callback",
+  "/api/notify/inbound",
+  "/api/messages/deferred/release",
+  "/api/prescriptions/repeat/release",
+  "/api/prescriptions/sync",
+  "/api/notifications/cleanup",
 ];
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Check if the path is public
-  if (publicPaths.some(path => pathname.startsWith(path))) {
+  if (publicPaths.some(path => pathname.startsWith(path)) ||
+      secretPaths.some(path => pathname.startsWith(path))) {
     return NextResponse.next();
   }
 
@@ -49,25 +52,37 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url);
   }
 
-  // Check for super admin paths
-  if (superAdminPaths.some(path => pathname.startsWith(path)) && token.role !== "SUPER_ADMIN") {
-    return NextResponse.redirect(new URL("/unauthorized", request.url));
+  // Password users who have to use two-factor authentication set it up first
+  if (token.mfaEnrollmentRequired &&
+      !pathname.startsWith("/account/security") &&
+      !pathname.startsWith("/api")) {
+    return NextResponse.redirect(new URL("/account/security", request.url));
   }
 
-  // Check for org admin paths
-  if (orgAdminPaths.some(path => pathname.startsWith(path)) &&
-      token.role !== "SUPER_ADMIN" && token.role !== "ORG_ADMIN") {
-    return NextResponse.redirect(new URL("/unauthorized", request.url));
+  // CIS2 users holding several roles choose which one to act in first
+  if (token.isCis2User && !token.cis2RoleId &&
+      !pathname.startsWith("/auth/select-role") &&
+      !pathname.startsWith("/api")) {
+    return NextResponse.redirect(new URL("/auth/select-role", request.url));
   }
 
   // If user has no selected pharmacy and is trying to access pharmacy-specific pages
   if (!token.selectedPharmacyId &&
       !pathname.startsWith("/admin") &&
       !pathname.startsWith("/select-pharmacy") &&
+      !pathname.startsWith("/auth/select-role") &&
+      !pathname.startsWith("/account") &&
       !pathname.startsWith("/api")) {
     return NextResponse.redirect(new URL("/select-pharmacy", request.url));
   }
 
+  // Check the page's permission against the user's roles; API routes check
+  // their own with requirePermission
+  const permission = pathname.startsWith("/api") ? null : pagePermission(pathname);
+  if (permission && !hasPermission(token, permission)) {
+    return NextResponse.redirect(new URL("/unauthorized", request.url));
+  }
+
   // Apply rate limiting to NHS API routes
   if (pathname.startsWith('/api/eps/') || pathname.startsWith('/api/nhs/')) {
     // Determine which NHS API is being used
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { runAsAdmin, runWithTenant, tenantFromSession } from '@/lib/db/tenant';
+
+/**
+ * Run an API route handler in the signed-in user's tenant context
+ * Queries through tenantPrisma inside the handler are limited to the user's
+ * organisation and selected pharmacy. Without a session the handler runs
+ * with no tenant, so it can answer 401 itself, and any tenant-scoped query
+ * fails.
+ */
+export function withTenant<Args extends any[]>(
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+) {
+  return async (request: NextRequest, ...args: Args): Promise<Response> => {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return handler(request, ...args);
+    }
+
+    return runWithTenant(tenantFromSession(session), () => handler(request, ...args));
+  };
+}
+
+/**
+ * Run an admin API route handler for the signed-in user
+ * Like withTenant, except super admins run across every organisation; see
+ * runAsAdmin.
+ */
+export function withAdmin<Args extends any[]>(
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+) {
+  return async (request: NextRequest, ...args: Args): Promise<Response> => {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return handler(request, ...args);
+    }
+
+    return runAsAdmin(session, () => handler(request, ...args));
+  };
+}
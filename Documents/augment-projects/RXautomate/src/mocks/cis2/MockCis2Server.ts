@@ -0,0 +1,396 @@
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { MockCis2Identity, defaultIdentities, userinfoClaims } from './identities';
+
+export const CONTROL_PATH = '/_mock';
+
+export interface MockCis2ServerOptions {
+  clientId?: string; // Only this client may sign in (default rxautomate)
+  clientSecret?: string; // Checked at the token endpoint (default rxautomate-secret)
+  identities?: MockCis2Identity[];
+}
+
+/**
+ * An authorization code waiting to be exchanged
+ */
+interface PendingCode {
+  identity: MockCis2Identity;
+  selectedRoleId: string | null;
+  clientId: string;
+  redirectUri: string;
+  nonce: string | null;
+  codeChallenge: string | null;
+  scope: string;
+  expiresAt: number;
+}
+
+interface IssuedToken {
+  identity: MockCis2Identity;
+  selectedRoleId: string | null;
+  scope: string;
+  expiresAt: number;
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Local stand-in for NHS Care Identity Service 2
+ *
+ * A small OpenID Connect provider with discovery, JWKS, authorize, token and
+ * userinfo endpoints, signing RS256 ID tokens with a key made at startup.
+ * The authorize page lists the test identities and, for those with several
+ * roles, lets the tester pick one at CIS2 (selected_roleid) or leave the
+ * choice to the app. Passing login_hint=<uid> skips the page.
+ */
+export class MockCis2Server {
+  private server: http.Server | null = null;
+  private baseUrl: string | null = null;
+  private options: Required<Omit<MockCis2ServerOptions, 'identities'>>;
+  private identities = new Map<string, MockCis2Identity>();
+  private codes = new Map<string, PendingCode>();
+  private tokens = new Map<string, IssuedToken>();
+  private keyId = crypto.randomUUID();
+  private keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  constructor(options: MockCis2ServerOptions = {}) {
+    this.options = {
+      clientId: options.clientId || 'rxautomate',
+      clientSecret: options.clientSecret || 'rxautomate-secret',
+    };
+    (options.identities || defaultIdentities()).forEach(identity => this.addIdentity(identity));
+  }
+
+  /**
+   * Start listening
+   * @param port - Port to listen on; 0 picks a free port
+   * @param host - Interface to bind
+   * @returns The issuer URL
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      return this.baseUrl!;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('Mock CIS2 server error:', error);
+        this.sendJson(res, 500, { error: 'server_error', error_description: (error as Error).message });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${host}:${address.port}`;
+
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * The issuer, to use as CIS2_ISSUER
+   */
+  get issuer(): string | null {
+    return this.baseUrl;
+  }
+
+  addIdentity(identity: MockCis2Identity): void {
+    this.identities.set(identity.uid, identity);
+  }
+
+  getIdentities(): MockCis2Identity[] {
+    return Array.from(this.identities.values());
+  }
+
+  /**
+   * Back to the default identities, forgetting codes and tokens
+   */
+  reset(): void {
+    this.identities.clear();
+    this.codes.clear();
+    this.tokens.clear();
+    defaultIdentities().forEach(identity => this.addIdentity(identity));
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const body = await this.readBody(req);
+
+    if (url.pathname.startsWith(CONTROL_PATH)) {
+      return this.handleControl(method, url, body, res);
+    }
+
+    switch (`${method} ${url.pathname}`) {
+      case 'GET /.well-known/openid-configuration':
+        return this.sendJson(res, 200, this.discovery());
+      case 'GET /jwks':
+        return this.sendJson(res, 200, { keys: [{ ...this.keys.publicKey.export({ format: 'jwk' }), kid: this.keyId, use: 'sig', alg: 'RS256' }] });
+      case 'GET /authorize':
+        return this.handleAuthorize(url.searchParams, res);
+      case 'POST /token':
+        return this.handleToken(req, new URLSearchParams(body), res);
+      case 'GET /userinfo':
+      case 'POST /userinfo':
+        return this.handleUserinfo(req, res);
+    }
+
+    this.sendJson(res, 404, { error: 'not_found', error_description: `No route for ${method} ${url.pathname}` });
+  }
+
+  private discovery() {
+    return {
+      issuer: this.baseUrl,
+      authorization_endpoint: `${this.baseUrl}/authorize`,
+      token_endpoint: `${this.baseUrl}/token`,
+      userinfo_endpoint: `${this.baseUrl}/userinfo`,
+      jwks_uri: `${this.baseUrl}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'profile', 'email', 'nationalrbacaccess', 'selectedrole'],
+      acr_values_supported: ['AAL3_ANY', 'AAL2_OR_AAL3_ANY'],
+      claims_supported: ['sub', 'uid', 'name', 'given_name', 'family_name', 'email', 'nhsid_nrbac_roles', 'selected_roleid'],
+    };
+  }
+
+  /**
+   * Show the identity picker, or issue a code once an identity is chosen
+   */
+  private handleAuthorize(params: URLSearchParams, res: http.ServerResponse): void {
+    const clientId = params.get('client_id');
+    const redirectUri = params.get('redirect_uri');
+
+    if (clientId !== this.options.clientId || !redirectUri) {
+      return this.sendJson(res, 400, { error: 'invalid_client', error_description: 'Unknown client_id or missing redirect_uri' });
+    }
+    if (params.get('response_type') !== 'code') {
+      return this.redirectError(res, redirectUri, params.get('state'), 'unsupported_response_type');
+    }
+
+    const identity = this.identities.get(params.get('login_hint') || params.get('identity') || '');
+    if (!identity) {
+      return this.sendHtml(res, this.pickerPage(params));
+    }
+
+    const selectedRoleId = params.get('role');
+    if (selectedRoleId && !identity.roles.some(role => role.person_roleid === selectedRoleId)) {
+      return this.redirectError(res, redirectUri, params.get('state'), 'invalid_request');
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      identity,
+      selectedRoleId,
+      clientId,
+      redirectUri,
+      nonce: params.get('nonce'),
+      codeChallenge: params.get('code_challenge'),
+      scope: params.get('scope') || 'openid',
+      expiresAt: Date.now() + 60 * 1000,
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    if (params.get('state')) {
+      location.searchParams.set('state', params.get('state')!);
+    }
+    location.searchParams.set('iss', this.baseUrl!);
+
+    res.writeHead(302, { Location: location.toString() });
+    res.end();
+  }
+
+  private handleToken(req: http.IncomingMessage, params: URLSearchParams, res: http.ServerResponse): void {
+    const [basicId, basicSecret] = /^Basic (.+)$/.test(req.headers.authorization || '')
+      ? Buffer.from(req.headers.authorization!.slice(6), 'base64').toString('utf8').split(':').map(decodeURIComponent)
+      : [];
+    const clientId = params.get('client_id') || basicId;
+    const clientSecret = params.get('client_secret') || basicSecret;
+
+    if (clientId !== this.options.clientId || clientSecret !== this.options.clientSecret) {
+      return this.sendJson(res, 401, { error: 'invalid_client' });
+    }
+    if (params.get('grant_type') !== 'authorization_code') {
+      return this.sendJson(res, 400, { error: 'unsupported_grant_type' });
+    }
+
+    const code = params.get('code') || '';
+    const pending = this.codes.get(code);
+    this.codes.delete(code);
+
+    if (!pending || pending.expiresAt < Date.now() || pending.clientId !== clientId || pending.redirectUri !== params.get('redirect_uri')) {
+      return this.sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown, used or expired code' });
+    }
+
+    if (pending.codeChallenge) {
+      const challenge = base64url(crypto.createHash('sha256').update(params.get('code_verifier') || '').digest());
+      if (challenge !== pending.codeChallenge) {
+        return this.sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      }
+    }
+
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    const expiresIn = 3600;
+    this.tokens.set(accessToken, {
+      identity: pending.identity,
+      selectedRoleId: pending.selectedRoleId,
+      scope: pending.scope,
+      expiresAt: Date.now() + expiresIn * 1000,
+    });
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = this.sign({
+      iss: this.baseUrl,
+      sub: pending.identity.uid,
+      aud: clientId,
+      iat: now,
+      auth_time: now,
+      exp: now + expiresIn,
+      acr: 'AAL3_ANY',
+      ...(pending.nonce ? { nonce: pending.nonce } : {}),
+      ...(pending.selectedRoleId ? { selected_roleid: pending.selectedRoleId } : {}),
+    });
+
+    this.sendJson(res, 200, {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+      scope: pending.scope,
+      id_token: idToken,
+    });
+  }
+
+  private handleUserinfo(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const accessToken = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const issued = this.tokens.get(accessToken);
+
+    if (!issued || issued.expiresAt < Date.now()) {
+      return this.sendJson(res, 401, { error: 'invalid_token' });
+    }
+
+    const claims: Record<string, unknown> = userinfoClaims(issued.identity, issued.selectedRoleId);
+    if (!issued.scope.split(' ').includes('nationalrbacaccess')) {
+      delete claims.nhsid_nrbac_roles;
+    }
+
+    this.sendJson(res, 200, claims);
+  }
+
+  /**
+   * Test hooks: identities
+   */
+  private handleControl(method: string, url: URL, body: string, res: http.ServerResponse): void {
+    const action = url.pathname.slice(CONTROL_PATH.length);
+
+    try {
+      if (action === '/identities' && method === 'GET') {
+        return this.sendJson(res, 200, this.getIdentities());
+      }
+
+      if (action === '/identities' && method === 'POST') {
+        const payload = JSON.parse(body || '{}');
+        (Array.isArray(payload) ? payload : [payload]).forEach(identity => this.addIdentity(identity));
+        return this.sendJson(res, 200, { identities: this.identities.size });
+      }
+
+      if (action === '/reset' && method === 'POST') {
+        this.reset();
+        return this.sendJson(res, 200, { reset: true });
+      }
+    } catch (error) {
+      return this.sendJson(res, 400, { error: (error as Error).message });
+    }
+
+    this.sendJson(res, 404, { error: `No control route for ${method} ${url.pathname}` });
+  }
+
+  private pickerPage(params: URLSearchParams): string {
+    const link = (extra: Record<string, string>) => {
+      const next = new URLSearchParams(params);
+      Object.entries(extra).forEach(([key, value]) => next.set(key, value));
+      return `/authorize?${escapeHtml(next.toString())}`;
+    };
+
+    const rows = this.getIdentities().map(identity => {
+      const roleLinks = identity.roles.length > 1
+        ? identity.roles.map(role =>
+          `<li><a href="${link({ identity: identity.uid, role: role.person_roleid })}">As ${escapeHtml(role.role_code)} at ${escapeHtml(role.org_code)}</a></li>`
+        ).join('')
+        : '';
+
+      return `<li><a href="${link({ identity: identity.uid })}">${escapeHtml(identity.name)}</a> (${identity.uid})`
+        + `${roleLinks ? `<ul>${roleLinks}</ul>` : ''}</li>`;
+    }).join('');
+
+    return `<!doctype html><html><head><title>Mock CIS2</title></head><body>`
+      + `<h1>Mock NHS CIS2</h1><p>Choose who to sign in as. Picking a role here sends selected_roleid.</p>`
+      + `<ul>${rows}</ul></body></html>`;
+  }
+
+  private sign(claims: Record<string, unknown>): string {
+    const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: this.keyId }));
+    const payload = base64url(JSON.stringify(claims));
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), this.keys.privateKey);
+
+    return `${header}.${payload}.${base64url(signature)}`;
+  }
+
+  private redirectError(res: http.ServerResponse, redirectUri: string, state: string | null, error: string): void {
+    const location = new URL(redirectUri);
+    location.searchParams.set('error', error);
+    if (state) {
+      location.searchParams.set('state', state);
+    }
+
+    res.writeHead(302, { Location: location.toString() });
+    res.end();
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private sendHtml(res: http.ServerResponse, html: string): void {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent || res.destroyed) {
+      return;
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
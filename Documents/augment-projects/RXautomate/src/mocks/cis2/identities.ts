@@ -0,0 +1,90 @@
+import type { Cis2RbacRole } from '../../lib/cis2';
+
+/**
+ * A smartcard holder the stub can sign in as
+ */
+export interface MockCis2Identity {
+  uid: string; // UUID on the smartcard; the sub claim
+  name: string;
+  givenName: string;
+  familyName: string;
+  email?: string;
+  roles: Cis2RbacRole[];
+}
+
+const role = (personRoleId: string, odsCode: string, roleCode: string, roleName: string, activityCodes: string[] = []): Cis2RbacRole => ({
+  person_roleid: personRoleId,
+  person_orgid: `${personRoleId}-org`,
+  org_code: odsCode,
+  role_code: roleCode,
+  role_name: roleName,
+  activity_codes: activityCodes,
+});
+
+/**
+ * Test identities; FA565 is the seeded Main Pharmacy
+ */
+export const defaultIdentities = (): MockCis2Identity[] => [
+  {
+    uid: '555000000001',
+    name: 'Sam Patel',
+    givenName: 'Sam',
+    familyName: 'Patel',
+    email: 'sam.patel@nhs.net',
+    roles: [
+      role('555000000101', 'FA565', 'S8000:G8000:R8003', '"Clinical":"Clinical Provision":"Health Professional Access Role"', ['B0572', 'B0068']),
+    ],
+  },
+  {
+    uid: '555000000002',
+    name: 'Alex Morgan',
+    givenName: 'Alex',
+    familyName: 'Morgan',
+    email: 'alex.morgan@nhs.net',
+    roles: [
+      role('555000000201', 'FA565', 'S8000:G8000:R8003', '"Clinical":"Clinical Provision":"Health Professional Access Role"', ['B0572']),
+      role('555000000202', 'FA565', 'S8000:G8001:R8008', '"Admin & Clerical":"Admin and Clerical":"Admin/Clinical Support Access Role"', ['B0264']),
+    ],
+  },
+  {
+    uid: '555000000003',
+    name: 'Jo Evans',
+    givenName: 'Jo',
+    familyName: 'Evans',
+    email: 'jo.evans@nhs.net',
+    roles: [
+      role('555000000301', 'FA565', 'S8000:G8001:R8008', '"Admin & Clerical":"Admin and Clerical":"Admin/Clinical Support Access Role"', ['B0264']),
+    ],
+  },
+  {
+    // Only holds a role at a GP practice, so can't sign in
+    uid: '555000000004',
+    name: 'Chris Lee',
+    givenName: 'Chris',
+    familyName: 'Lee',
+    email: 'chris.lee@nhs.net',
+    roles: [
+      role('555000000401', 'Y12345', 'S8000:G8000:R8000', '"Clinical":"Clinical Provision":"Clinical Practitioner Access Role"', ['B0380']),
+    ],
+  },
+];
+
+/**
+ * The claims CIS2 userinfo returns for an identity
+ * @param identity - The smartcard holder
+ * @param selectedRoleId - The role picked at CIS2, if any
+ * @returns The claims
+ */
+export function userinfoClaims(identity: MockCis2Identity, selectedRoleId: string | null = null) {
+  return {
+    sub: identity.uid,
+    uid: identity.uid,
+    name: identity.name,
+    given_name: identity.givenName,
+    family_name: identity.familyName,
+    ...(identity.email ? { email: identity.email } : {}),
+    nhsid_useruid: identity.uid,
+    nhsid_nrbac_roles: identity.roles,
+    ...(selectedRoleId ? { selected_roleid: selectedRoleId } : {}),
+  };
+}
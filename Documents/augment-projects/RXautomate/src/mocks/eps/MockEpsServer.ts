@@ -0,0 +1,778 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import type { Prescription, PrescriptionStatus } from '../../services/EPSService';
+import { defaultMedicationRequests } from './fixtures';
+
+export const FHIR_BASE_PATH = '/electronic-prescriptions/FHIR/R4';
+export const TOKEN_PATH = '/oauth2/token';
+export const CONTROL_PATH = '/_mock';
+
+/**
+ * A fault to return instead of (or before) the normal response
+ */
+export interface MockEpsFault {
+  status?: number; // HTTP status to return, e.g. 429, 500, 503
+  delayMs?: number; // Hold the response this long; longer than the client timeout simulates a timeout
+  retryAfter?: number; // Retry-After header in seconds
+  method?: string; // Only fault requests with this method
+  path?: string; // Only fault requests whose path contains this
+  times?: number; // Number of requests to fault (default 1)
+  persistent?: boolean; // Keep faulting until the faults are cleared
+}
+
+export interface MockEpsServerOptions {
+  fixtures?: Prescription[];
+  requireAuth?: boolean; // Require a token from the token endpoint (default true)
+  tokenExpiresIn?: number; // Seconds
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  faultStatus?: number;
+  delayedMs?: number;
+  timestamp: string;
+}
+
+type StoredPrescription = Prescription & {
+  meta?: { versionId: string; lastUpdated: string };
+  statusReason?: any;
+};
+
+/**
+ * Which pharmacy a prescription has been released to and the Dispense Notifications it has sent
+ */
+export interface MockDispenseState {
+  owner: string; // ODS code of the dispensing pharmacy
+  dispenseNotifications: string[]; // Message identifiers, oldest first
+}
+
+interface PendingFault extends MockEpsFault {
+  remaining: number;
+}
+
+const STATUSES: PrescriptionStatus[] = [
+  'active', 'on-hold', 'cancelled', 'completed', 'entered-in-error', 'stopped', 'draft', 'unknown',
+];
+
+// Statuses a prescription can't move out of
+const FINAL_STATUSES: PrescriptionStatus[] = ['cancelled', 'completed', 'entered-in-error', 'stopped'];
+
+/**
+ * Build a FHIR OperationOutcome for an error response
+ */
+function operationOutcome(code: string, diagnostics: string, severity = 'error') {
+  return {
+    resourceType: 'OperationOutcome',
+    issue: [{
+      severity,
+      code,
+      diagnostics,
+    }],
+  };
+}
+
+/**
+ * Error raised while handling a dispensing message, sent back as an OperationOutcome
+ */
+class MockEpsError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Local stand-in for the EPS FHIR R4 API and the NHS OAuth token endpoint
+ *
+ * Serves MedicationRequest search, read and status update from in-memory
+ * fixtures, plus the dispensing messages: release, Dispense Notification,
+ * Return and Withdraw. Faults (error statuses and slow responses) can be queued from
+ * code or over HTTP on /_mock so retry and timeout handling can be exercised
+ * against a real socket.
+ */
+export class MockEpsServer {
+  private server: http.Server | null = null;
+  private baseUrl: string | null = null;
+  private options: Required<Omit<MockEpsServerOptions, 'fixtures'>>;
+  private fixtures: Prescription[];
+  private prescriptions = new Map<string, StoredPrescription>();
+  private dispensing = new Map<string, MockDispenseState>();
+  private processedMessages = new Set<string>();
+  private tokens = new Set<string>();
+  private faults: PendingFault[] = [];
+  private requests: RecordedRequest[] = [];
+  private timers = new Set<NodeJS.Timeout>();
+
+  constructor(options: MockEpsServerOptions = {}) {
+    this.options = {
+      requireAuth: options.requireAuth ?? true,
+      tokenExpiresIn: options.tokenExpiresIn ?? 3600,
+    };
+    this.fixtures = options.fixtures ?? defaultMedicationRequests();
+    this.seed(this.fixtures, { replace: true });
+  }
+
+  /**
+   * Start listening
+   * @param port - Port to listen on; 0 picks a free port
+   * @param host - Interface to bind
+   * @returns The server's base URL, to use as NHS_API_BASE_URL
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      return this.baseUrl!;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('Mock EPS server error:', error);
+        this.sendJson(res, 500, operationOutcome('exception', (error as Error).message));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${host}:${address.port}`;
+
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening and drop any responses still being held by a fault
+   */
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  get url(): string | null {
+    return this.baseUrl;
+  }
+
+  get tokenUrl(): string | null {
+    return this.baseUrl ? `${this.baseUrl}${TOKEN_PATH}` : null;
+  }
+
+  /**
+   * Add prescriptions to the store
+   * @param prescriptions - MedicationRequest resources
+   * @param options - replace: drop the existing prescriptions first
+   */
+  seed(prescriptions: Prescription[], options: { replace?: boolean } = {}): void {
+    if (options.replace) {
+      this.prescriptions.clear();
+      this.dispensing.clear();
+      this.processedMessages.clear();
+    }
+
+    for (const prescription of prescriptions) {
+      if (prescription.resourceType !== 'MedicationRequest' || !prescription.id) {
+        throw new Error('Fixtures must be MedicationRequest resources with an id');
+      }
+
+      this.prescriptions.set(prescription.id, {
+        ...JSON.parse(JSON.stringify(prescription)),
+        meta: { versionId: '1', lastUpdated: new Date().toISOString() },
+      });
+    }
+  }
+
+  /**
+   * Restore the fixtures and clear faults, tokens and the request log
+   */
+  reset(): void {
+    this.seed(this.fixtures, { replace: true });
+    this.tokens.clear();
+    this.faults = [];
+    this.requests = [];
+  }
+
+  /**
+   * Queue a fault; faults are matched in the order they were added
+   */
+  injectFault(fault: MockEpsFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  getPrescription(id: string): StoredPrescription | undefined {
+    return this.prescriptions.get(id);
+  }
+
+  /**
+   * Release and Dispense Notification state; undefined until the prescription is released
+   */
+  getDispenseState(id: string): MockDispenseState | undefined {
+    const state = this.dispensing.get(id);
+    return state ? { ...state, dispenseNotifications: [...state.dispenseNotifications] } : undefined;
+  }
+
+  /**
+   * Requests received on the EPS and token endpoints, oldest first
+   */
+  getRequests(): RecordedRequest[] {
+    return [...this.requests];
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const body = await this.readBody(req);
+
+    if (url.pathname.startsWith(CONTROL_PATH)) {
+      return this.handleControl(method, url, body, res);
+    }
+
+    const recorded: RecordedRequest = {
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      timestamp: new Date().toISOString(),
+    };
+    this.requests.push(recorded);
+
+    const fault = this.takeFault(method, url.pathname);
+    if (fault?.delayMs) {
+      recorded.delayedMs = fault.delayMs;
+      await this.delay(fault.delayMs);
+      if (res.destroyed) {
+        return;
+      }
+    }
+
+    if (fault?.status) {
+      recorded.faultStatus = fault.status;
+      const headers = fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : undefined;
+      return this.sendJson(res, fault.status, operationOutcome(
+        fault.status === 429 ? 'throttled' : 'transient',
+        `Injected fault: HTTP ${fault.status}`
+      ), headers);
+    }
+
+    if (url.pathname === TOKEN_PATH && method === 'POST') {
+      return this.handleToken(body, res);
+    }
+
+    if (!url.pathname.startsWith(`${FHIR_BASE_PATH}/`)) {
+      return this.sendJson(res, 404, operationOutcome('not-supported', `No route for ${method} ${url.pathname}`));
+    }
+
+    if (this.options.requireAuth && !this.isAuthorised(req)) {
+      return this.sendJson(res, 401, operationOutcome('login', 'Missing or invalid access token'));
+    }
+
+    const messageHandlers: Record<string, (payload: any) => unknown> = {
+      [`${FHIR_BASE_PATH}/Task/$release`]: payload => this.release(payload),
+      [`${FHIR_BASE_PATH}/$process-message`]: payload => this.processMessage(payload),
+      [`${FHIR_BASE_PATH}/Task`]: payload => this.processTask(payload),
+    };
+
+    const messageHandler = messageHandlers[url.pathname];
+    if (messageHandler && method === 'POST') {
+      return this.handleMessage(body, messageHandler, res);
+    }
+
+    if (!url.pathname.startsWith(`${FHIR_BASE_PATH}/MedicationRequest`)) {
+      return this.sendJson(res, 404, operationOutcome('not-supported', `No route for ${method} ${url.pathname}`));
+    }
+
+    const id = url.pathname.slice(`${FHIR_BASE_PATH}/MedicationRequest`.length).replace(/^\//, '');
+
+    if (!id && method === 'GET') {
+      return this.sendJson(res, 200, this.search(url));
+    }
+
+    if (id && method === 'GET') {
+      const prescription = this.prescriptions.get(id);
+      return prescription
+        ? this.sendJson(res, 200, prescription)
+        : this.sendJson(res, 404, operationOutcome('not-found', `MedicationRequest ${id} not found`));
+    }
+
+    if (id && method === 'PUT') {
+      return this.updateStatus(id, body, res);
+    }
+
+    this.sendJson(res, 405, operationOutcome('not-supported', `${method} is not supported on MedicationRequest`));
+  }
+
+  /**
+   * OAuth client credentials grant
+   */
+  private handleToken(body: string, res: http.ServerResponse): void {
+    const params = new URLSearchParams(body);
+
+    if (params.get('grant_type') !== 'client_credentials') {
+      return this.sendJson(res, 400, { error: 'unsupported_grant_type' });
+    }
+
+    if (!params.get('client_id')) {
+      return this.sendJson(res, 401, { error: 'invalid_client' });
+    }
+
+    const accessToken = uuidv4();
+    this.tokens.add(accessToken);
+
+    this.sendJson(res, 200, {
+      access_token: accessToken,
+      expires_in: this.options.tokenExpiresIn,
+      token_type: 'Bearer',
+      scope: params.get('scope') || '',
+    });
+  }
+
+  /**
+   * MedicationRequest search with the parameters EPSService sends
+   */
+  private search(url: URL) {
+    const query = url.searchParams;
+    const endsWithCode = (reference: string | undefined, code: string) =>
+      Boolean(reference) && (reference === code || reference!.endsWith(`/${code}`));
+
+    let results = Array.from(this.prescriptions.values());
+
+    const performer = query.get('performer');
+    if (performer) {
+      results = results.filter(p =>
+        p.performer?.some(perf => endsWithCode(perf.actor.reference, performer)) ||
+        endsWithCode(p.dispenseRequest?.performer?.reference, performer)
+      );
+    }
+
+    const subject = query.get('subject');
+    if (subject) {
+      results = results.filter(p => endsWithCode(p.subject.reference, subject));
+    }
+
+    const requester = query.get('requester');
+    if (requester) {
+      results = results.filter(p => endsWithCode(p.requester.reference, requester));
+    }
+
+    const identifier = query.get('identifier');
+    if (identifier) {
+      results = results.filter(p => p.id === identifier);
+    }
+
+    const status = query.get('status');
+    if (status) {
+      const statuses = status.split(',');
+      results = results.filter(p => statuses.includes(p.status));
+    }
+
+    const dateWritten = query.get('dateWritten');
+    if (dateWritten) {
+      results = results.filter(p => p.authoredOn.startsWith(dateWritten));
+    }
+
+    const dateFrom = query.get('dateWritten:ge');
+    if (dateFrom) {
+      results = results.filter(p => p.authoredOn.slice(0, 10) >= dateFrom.slice(0, 10));
+    }
+
+    const dateTo = query.get('dateWritten:le');
+    if (dateTo) {
+      results = results.filter(p => p.authoredOn.slice(0, 10) <= dateTo.slice(0, 10));
+    }
+
+    // _sort=dateWritten:desc (as EPSService sends it) or -dateWritten
+    const sort = query.get('_sort');
+    if (sort && /dateWritten|authoredOn/.test(sort)) {
+      const descending = sort.startsWith('-') || sort.endsWith(':desc');
+      results.sort((a, b) => descending
+        ? b.authoredOn.localeCompare(a.authoredOn)
+        : a.authoredOn.localeCompare(b.authoredOn));
+    }
+
+    const total = results.length;
+    const count = Number(query.get('_count'));
+    if (count > 0) {
+      results = results.slice(0, count);
+    }
+
+    return {
+      resourceType: 'Bundle',
+      id: uuidv4(),
+      type: 'searchset',
+      total,
+      link: [{ relation: 'self', url: `${this.baseUrl}${url.pathname}${url.search}` }],
+      entry: results.map(resource => ({
+        fullUrl: `${this.baseUrl}${FHIR_BASE_PATH}/MedicationRequest/${resource.id}`,
+        resource,
+        search: { mode: 'match' },
+      })),
+    };
+  }
+
+  /**
+   * Update a prescription's status; final statuses can't be changed
+   */
+  private updateStatus(id: string, body: string, res: http.ServerResponse): void {
+    const prescription = this.prescriptions.get(id);
+    if (!prescription) {
+      return this.sendJson(res, 404, operationOutcome('not-found', `MedicationRequest ${id} not found`));
+    }
+
+    let update: any;
+    try {
+      update = JSON.parse(body);
+    } catch {
+      return this.sendJson(res, 400, operationOutcome('structure', 'Request body is not valid JSON'));
+    }
+
+    if (update.resourceType !== 'MedicationRequest' || update.id !== id) {
+      return this.sendJson(res, 400, operationOutcome('invalid', 'Body must be the MedicationRequest being updated'));
+    }
+
+    if (!STATUSES.includes(update.status)) {
+      return this.sendJson(res, 400, operationOutcome('value', `Unknown status "${update.status}"`));
+    }
+
+    if (FINAL_STATUSES.includes(prescription.status) && update.status !== prescription.status) {
+      return this.sendJson(res, 409, operationOutcome(
+        'business-rule',
+        `MedicationRequest ${id} is already ${prescription.status}`
+      ));
+    }
+
+    const updated: StoredPrescription = {
+      ...prescription,
+      status: update.status,
+      ...(update.statusReason ? { statusReason: update.statusReason } : {}),
+      meta: {
+        versionId: String(Number(prescription.meta?.versionId || '1') + 1),
+        lastUpdated: new Date().toISOString(),
+      },
+    };
+    this.prescriptions.set(id, updated);
+
+    this.sendJson(res, 200, updated);
+  }
+
+  /**
+   * Parse a dispensing message and send the handler's result or error
+   */
+  private handleMessage(body: string, handler: (payload: any) => unknown, res: http.ServerResponse): void {
+    let payload: any;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return this.sendJson(res, 400, operationOutcome('structure', 'Request body is not valid JSON'));
+    }
+
+    try {
+      this.sendJson(res, 200, handler(payload));
+    } catch (error) {
+      if (error instanceof MockEpsError) {
+        return this.sendJson(res, error.status, operationOutcome(error.code, error.message));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Task/$release: release one prescription, or everything nominated to the pharmacy
+   */
+  private release(parameters: any) {
+    const find = (name: string) => parameters.parameter?.find((p: any) => p.name === name);
+    const owner: string | undefined = find('owner')?.valueIdentifier?.value;
+    const prescriptionId: string | undefined = find('group-identifier')?.valueIdentifier?.value;
+
+    if (parameters.resourceType !== 'Parameters' || !owner) {
+      throw new MockEpsError(400, 'invalid', 'Release requires Parameters with an owner');
+    }
+
+    let released: StoredPrescription[];
+
+    if (prescriptionId) {
+      const prescription = this.requirePrescription(prescriptionId);
+      const state = this.dispensing.get(prescriptionId);
+
+      if (prescription.status !== 'active') {
+        throw new MockEpsError(409, 'business-rule', `MedicationRequest ${prescriptionId} is ${prescription.status}`);
+      }
+      if (state && state.owner !== owner) {
+        throw new MockEpsError(409, 'business-rule', `MedicationRequest ${prescriptionId} is with dispenser ${state.owner}`);
+      }
+
+      released = [prescription];
+    } else {
+      // Nominated release only returns prescriptions not yet with a dispenser
+      released = Array.from(this.prescriptions.values()).filter(p =>
+        p.status === 'active' &&
+        !this.dispensing.has(p.id) &&
+        (p.performer?.some(perf => perf.actor.reference.endsWith(`/${owner}`)) ||
+          Boolean(p.dispenseRequest?.performer?.reference.endsWith(`/${owner}`)))
+      );
+    }
+
+    for (const prescription of released) {
+      if (!this.dispensing.has(prescription.id)) {
+        this.dispensing.set(prescription.id, { owner, dispenseNotifications: [] });
+      }
+    }
+
+    return {
+      resourceType: 'Bundle',
+      id: uuidv4(),
+      type: 'searchset',
+      total: released.length,
+      entry: released.map(resource => ({
+        fullUrl: `urn:uuid:${uuidv4()}`,
+        resource: {
+          resourceType: 'Bundle',
+          id: uuidv4(),
+          type: 'message',
+          entry: [{ fullUrl: `urn:uuid:${resource.id}`, resource }],
+        },
+      })),
+    };
+  }
+
+  /**
+   * $process-message: apply a Dispense Notification
+   */
+  private processMessage(bundle: any) {
+    const header = bundle.entry?.[0]?.resource;
+    const messageId: string | undefined = bundle.identifier?.value || bundle.id;
+    const sender: string | undefined = header?.sender?.identifier?.value;
+
+    if (bundle.resourceType !== 'Bundle' || bundle.type !== 'message' || header?.resourceType !== 'MessageHeader' || !messageId) {
+      throw new MockEpsError(400, 'invalid', 'Expected a message Bundle starting with a MessageHeader');
+    }
+    if (header.eventCoding?.code !== 'dispense-notification') {
+      throw new MockEpsError(400, 'not-supported', `Unsupported message event "${header.eventCoding?.code}"`);
+    }
+
+    // Retried messages have already been applied
+    if (this.processedMessages.has(messageId)) {
+      return operationOutcome('informational', `Message ${messageId} already processed`, 'information');
+    }
+
+    const dispenses = (bundle.entry as any[])
+      .map(entry => entry.resource)
+      .filter(resource => resource?.resourceType === 'MedicationDispense');
+
+    if (dispenses.length === 0) {
+      throw new MockEpsError(400, 'required', 'Dispense Notification has no MedicationDispense');
+    }
+
+    // Check every item before changing anything
+    const items = dispenses.map(dispense => {
+      const id = String(dispense.authorizingPrescription?.[0]?.reference || '').replace(/^MedicationRequest\//, '');
+      const prescription = this.requirePrescription(id);
+      const state = this.dispensing.get(id);
+
+      if (!state || state.owner !== sender) {
+        throw new MockEpsError(409, 'business-rule', `MedicationRequest ${id} has not been released to ${sender}`);
+      }
+      if (prescription.status !== 'active') {
+        throw new MockEpsError(409, 'business-rule', `MedicationRequest ${id} is ${prescription.status}`);
+      }
+
+      return { prescription, state, complete: dispense.status === 'completed' };
+    });
+
+    for (const { prescription, state, complete } of items) {
+      state.dispenseNotifications.push(messageId);
+      if (complete) {
+        this.setStatus(prescription, 'completed');
+      }
+    }
+    this.processedMessages.add(messageId);
+
+    return operationOutcome('informational', `Dispense Notification ${messageId} accepted`, 'information');
+  }
+
+  /**
+   * Task: Return (status rejected) or Withdraw (status in-progress)
+   */
+  private processTask(task: any) {
+    const id: string | undefined = task.groupIdentifier?.value;
+    const owner: string | undefined = task.owner?.identifier?.value;
+
+    if (task.resourceType !== 'Task' || !id || !owner) {
+      throw new MockEpsError(400, 'invalid', 'Task requires a groupIdentifier and an owner');
+    }
+
+    const prescription = this.requirePrescription(id);
+    const state = this.dispensing.get(id);
+
+    if (!state || state.owner !== owner) {
+      throw new MockEpsError(409, 'business-rule', `MedicationRequest ${id} is not with dispenser ${owner}`);
+    }
+
+    if (task.status === 'rejected') {
+      if (state.dispenseNotifications.length > 0) {
+        throw new MockEpsError(409, 'business-rule', `MedicationRequest ${id} has been dispensed; withdraw the Dispense Notification first`);
+      }
+
+      this.dispensing.delete(id);
+      return operationOutcome('informational', `MedicationRequest ${id} returned`, 'information');
+    }
+
+    if (task.status === 'in-progress') {
+      const withdrawId: string | undefined = task.focus?.identifier?.value;
+      const lastId = state.dispenseNotifications[state.dispenseNotifications.length - 1];
+
+      if (!lastId) {
+        throw new MockEpsError(409, 'business-rule', `MedicationRequest ${id} has no Dispense Notification to withdraw`);
+      }
+      if (withdrawId && withdrawId !== lastId) {
+        throw new MockEpsError(409, 'business-rule', 'Only the last Dispense Notification can be withdrawn');
+      }
+
+      state.dispenseNotifications.pop();
+      if (prescription.status === 'completed') {
+        this.setStatus(prescription, 'active');
+      }
+      return operationOutcome('informational', `Dispense Notification ${lastId} withdrawn`, 'information');
+    }
+
+    throw new MockEpsError(400, 'value', `Unsupported Task status "${task.status}"`);
+  }
+
+  private requirePrescription(id: string): StoredPrescription {
+    const prescription = this.prescriptions.get(id);
+    if (!prescription) {
+      throw new MockEpsError(404, 'not-found', `MedicationRequest ${id} not found`);
+    }
+    return prescription;
+  }
+
+  private setStatus(prescription: StoredPrescription, status: PrescriptionStatus): void {
+    this.prescriptions.set(prescription.id, {
+      ...prescription,
+      status,
+      meta: {
+        versionId: String(Number(prescription.meta?.versionId || '1') + 1),
+        lastUpdated: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Scripting endpoints for tests and tools running in another process
+   */
+  private handleControl(method: string, url: URL, body: string, res: http.ServerResponse): void {
+    const action = url.pathname.slice(CONTROL_PATH.length);
+
+    try {
+      if (action === '/reset' && method === 'POST') {
+        this.reset();
+        return this.sendJson(res, 200, { reset: true });
+      }
+
+      if (action === '/seed' && method === 'POST') {
+        const payload = JSON.parse(body || '[]');
+        const resources: Prescription[] = payload.resourceType === 'Bundle'
+          ? (payload.entry || []).map((entry: any) => entry.resource)
+          : Array.isArray(payload) ? payload : [payload];
+
+        this.seed(resources, { replace: url.searchParams.get('replace') === 'true' });
+        return this.sendJson(res, 200, { seeded: resources.length, total: this.prescriptions.size });
+      }
+
+      if (action === '/faults' && method === 'POST') {
+        const payload = JSON.parse(body || '{}');
+        (Array.isArray(payload) ? payload : [payload]).forEach(fault => this.injectFault(fault));
+        return this.sendJson(res, 200, { pending: this.faults.length });
+      }
+
+      if (action === '/faults' && method === 'DELETE') {
+        this.clearFaults();
+        return this.sendJson(res, 200, { pending: 0 });
+      }
+
+      if (action === '/requests' && method === 'GET') {
+        return this.sendJson(res, 200, this.getRequests());
+      }
+    } catch (error) {
+      return this.sendJson(res, 400, { error: (error as Error).message });
+    }
+
+    this.sendJson(res, 404, { error: `No control route for ${method} ${url.pathname}` });
+  }
+
+  /**
+   * Take the first queued fault that matches a request
+   */
+  private takeFault(method: string, path: string): MockEpsFault | undefined {
+    const index = this.faults.findIndex(fault =>
+      (!fault.method || fault.method.toUpperCase() === method) &&
+      (!fault.path || path.includes(fault.path))
+    );
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    const fault = this.faults[index];
+    if (!fault.persistent) {
+      fault.remaining--;
+      if (fault.remaining <= 0) {
+        this.faults.splice(index, 1);
+      }
+    }
+
+    return fault;
+  }
+
+  private isAuthorised(req: http.IncomingMessage): boolean {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+    return Boolean(match && this.tokens.has(match[1]));
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.add(timer);
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    if (res.headersSent || res.destroyed) {
+      return;
+    }
+
+    // FHIR resources use the FHIR media type; OAuth and control responses are plain JSON
+    res.writeHead(status, {
+      'Content-Type': 'resourceType' in (body as object) ? 'application/fhir+json' : 'application/json',
+      ...headers,
+    });
+    res.end(JSON.stringify(body));
+  }
+}
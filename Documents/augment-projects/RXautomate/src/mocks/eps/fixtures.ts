@@ -0,0 +1,129 @@
+import type { Prescription } from '../../services/EPSService';
+
+// Test pharmacies and patients used by the default fixtures
+export const MOCK_PHARMACY_ODS_CODE = 'FA565';
+export const MOCK_OTHER_PHARMACY_ODS_CODE = 'FCG71';
+export const MOCK_PATIENT_NHS_NUMBER = '9449304130';
+export const MOCK_SECOND_PATIENT_NHS_NUMBER = '9449310475';
+
+interface FixtureInput {
+  id: string;
+  status: Prescription['status'];
+  medication: { code: string; display: string };
+  nhsNumber: string;
+  patientName: string;
+  odsCode: string;
+  authoredOn: string;
+  dosage: string;
+  quantity: number;
+  unit: string;
+}
+
+/**
+ * Build a MedicationRequest in the shape EPS returns
+ */
+export function buildMedicationRequest(input: FixtureInput): Prescription {
+  return {
+    resourceType: 'MedicationRequest',
+    id: input.id,
+    status: input.status,
+    intent: 'order',
+    medicationCodeableConcept: {
+      coding: [{
+        system: 'http://snomed.info/sct',
+        code: input.medication.code,
+        display: input.medication.display,
+      }],
+    },
+    subject: {
+      reference: `Patient/${input.nhsNumber}`,
+      display: input.patientName,
+    },
+    authoredOn: input.authoredOn,
+    requester: {
+      reference: 'Practitioner/G8133438',
+      display: 'Dr C Bloggs',
+    },
+    performer: [{
+      actor: {
+        reference: `Organization/${input.odsCode}`,
+      },
+    }],
+    dosageInstruction: [{ text: input.dosage }],
+    dispenseRequest: {
+      validityPeriod: {
+        start: input.authoredOn.split('T')[0],
+        end: '2027-12-31',
+      },
+      quantity: {
+        value: input.quantity,
+        unit: input.unit,
+        system: 'http://snomed.info/sct',
+        code: '428673006',
+      },
+      performer: {
+        reference: `Organization/${input.odsCode}`,
+      },
+    },
+    substitution: {
+      allowedBoolean: false,
+    },
+  };
+}
+
+/**
+ * Prescriptions the mock EPS server starts with
+ * Returns fresh copies so one test's status updates don't leak into the next
+ */
+export function defaultMedicationRequests(): Prescription[] {
+  return [
+    buildMedicationRequest({
+      id: 'a54219b8-f741-4c47-b662-e4f8dfa49ab6',
+      status: 'active',
+      medication: { code: '39732311000001104', display: 'Amoxicillin 500mg capsules' },
+      nhsNumber: MOCK_PATIENT_NHS_NUMBER,
+      patientName: 'Ms Jane Smith',
+      odsCode: MOCK_PHARMACY_ODS_CODE,
+      authoredOn: '2026-09-01T09:00:00+00:00',
+      dosage: 'One capsule three times a day',
+      quantity: 21,
+      unit: 'capsule',
+    }),
+    buildMedicationRequest({
+      id: '0d4c1e1f-3c41-4d3e-9b6c-3a1f5e0c7b21',
+      status: 'active',
+      medication: { code: '39113911000001106', display: 'Omeprazole 20mg gastro-resistant capsules' },
+      nhsNumber: MOCK_PATIENT_NHS_NUMBER,
+      patientName: 'Ms Jane Smith',
+      odsCode: MOCK_PHARMACY_ODS_CODE,
+      authoredOn: '2026-09-03T11:30:00+00:00',
+      dosage: 'One capsule once a day',
+      quantity: 28,
+      unit: 'capsule',
+    }),
+    buildMedicationRequest({
+      id: '5f3e9a60-8d2b-4c9a-a4a4-6f0d2b8e1c55',
+      status: 'completed',
+      medication: { code: '42108311000001101', display: 'Atorvastatin 20mg tablets' },
+      nhsNumber: MOCK_SECOND_PATIENT_NHS_NUMBER,
+      patientName: 'Mr John Jones',
+      odsCode: MOCK_PHARMACY_ODS_CODE,
+      authoredOn: '2026-08-15T14:10:00+00:00',
+      dosage: 'One tablet at night',
+      quantity: 28,
+      unit: 'tablet',
+    }),
+    buildMedicationRequest({
+      id: 'c8b1d4e2-27f6-4a8e-9f0b-91d3e7a6b402',
+      status: 'active',
+      medication: { code: '41946511000001108', display: 'Ramipril 5mg capsules' },
+      nhsNumber: MOCK_SECOND_PATIENT_NHS_NUMBER,
+      patientName: 'Mr John Jones',
+      odsCode: MOCK_OTHER_PHARMACY_ODS_CODE,
+      authoredOn: '2026-09-05T08:45:00+00:00',
+      dosage: 'One capsule once a day',
+      quantity: 28,
+      unit: 'capsule',
+    }),
+  ];
+}
@@ -0,0 +1,394 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+
+export const API_PATH = '/v2';
+export const CONTROL_PATH = '/_mock';
+
+export type MockNotifyStatus =
+  | 'created'
+  | 'sending'
+  | 'delivered'
+  | 'permanent-failure'
+  | 'temporary-failure'
+  | 'technical-failure';
+
+/**
+ * What happens to messages for a recipient
+ */
+export interface MockNotifyOutcome {
+  recipient: string; // Phone number or email address
+  reject?: number; // Refuse the send with this HTTP status, e.g. 400
+  message?: string; // Error message for a refused send
+  status?: MockNotifyStatus; // Status the delivery receipt reports (default delivered)
+}
+
+export interface MockNotifyServerOptions {
+  callbackUrl?: string; // Where delivery receipts are POSTed
+  callbackToken?: string; // Sent as the receipts' bearer token
+  autoDeliver?: boolean; // Send each receipt as soon as the message is accepted (default false)
+  requireAuth?: boolean; // Require a bearer token on API requests (default true)
+}
+
+/**
+ * A message the stub has accepted
+ */
+export interface MockNotifyNotification {
+  id: string;
+  reference: string | null;
+  type: 'sms' | 'email';
+  to: string;
+  templateId: string;
+  personalisation: Record<string, string>;
+  status: MockNotifyStatus;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * Build a Notify API error response
+ */
+function notifyError(statusCode: number, error: string, message: string) {
+  return {
+    status_code: statusCode,
+    errors: [{ error, message }],
+  };
+}
+
+/**
+ * Local stand-in for the GOV.UK Notify API
+ *
+ * Accepts SMS and email sends and records each message so tests can inspect
+ * it. Delivery receipts are POSTed to the callback URL when a message is
+ * delivered, from code or over HTTP on /_mock, so the receipt and fallback
+ * handling can be run without Notify.
+ */
+export class MockNotifyServer {
+  private server: http.Server | null = null;
+  private baseUrl: string | null = null;
+  private options: Required<Omit<MockNotifyServerOptions, 'callbackUrl' | 'callbackToken'>> &
+    Pick<MockNotifyServerOptions, 'callbackUrl' | 'callbackToken'>;
+  private notifications = new Map<string, MockNotifyNotification>();
+  private outcomes = new Map<string, MockNotifyOutcome>();
+
+  constructor(options: MockNotifyServerOptions = {}) {
+    this.options = {
+      callbackUrl: options.callbackUrl,
+      callbackToken: options.callbackToken,
+      autoDeliver: options.autoDeliver ?? false,
+      requireAuth: options.requireAuth ?? true,
+    };
+  }
+
+  /**
+   * Start listening
+   * @param port - Port to listen on; 0 picks a free port
+   * @param host - Interface to bind
+   * @returns The server's base URL
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      return this.baseUrl!;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('Mock Notify server error:', error);
+        this.sendJson(res, 500, notifyError(500, 'Exception', (error as Error).message));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${host}:${address.port}`;
+
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  get url(): string | null {
+    return this.baseUrl;
+  }
+
+  /**
+   * The base URL to use as NOTIFY_API_BASE_URL
+   */
+  get apiUrl(): string | null {
+    return this.baseUrl ? `${this.baseUrl}${API_PATH}/` : null;
+  }
+
+  /**
+   * Set where delivery receipts go
+   */
+  setCallback(callbackUrl: string, callbackToken?: string): void {
+    this.options.callbackUrl = callbackUrl;
+    this.options.callbackToken = callbackToken;
+  }
+
+  /**
+   * Decide what happens to messages for a recipient
+   */
+  setOutcome(outcome: MockNotifyOutcome): void {
+    this.outcomes.set(outcome.recipient, outcome);
+  }
+
+  clearOutcomes(): void {
+    this.outcomes.clear();
+  }
+
+  /**
+   * Forget messages and outcomes
+   */
+  reset(): void {
+    this.notifications.clear();
+    this.outcomes.clear();
+  }
+
+  /**
+   * Messages accepted so far, oldest first
+   */
+  getNotifications(): MockNotifyNotification[] {
+    return Array.from(this.notifications.values()).map(notification => ({ ...notification }));
+  }
+
+  /**
+   * Settle a message and send its delivery receipt
+   * @param id - The Notify notification ID
+   * @param status - The final status; defaults to the recipient's outcome, or delivered
+   * @returns The receipt that was sent
+   */
+  async deliver(id: string, status?: MockNotifyStatus) {
+    const notification = this.notifications.get(id);
+    if (!notification) {
+      throw new Error(`Notification ${id} not found`);
+    }
+
+    notification.status = status || this.outcomes.get(notification.to)?.status || 'delivered';
+    notification.completedAt = new Date().toISOString();
+
+    const receipt = {
+      id: notification.id,
+      reference: notification.reference,
+      to: notification.to,
+      status: notification.status,
+      created_at: notification.createdAt,
+      completed_at: notification.completedAt,
+      sent_at: notification.createdAt,
+      notification_type: notification.type,
+      template_id: notification.templateId,
+      template_version: 1,
+    };
+
+    if (this.options.callbackUrl) {
+      await axios.post(this.options.callbackUrl, receipt, {
+        headers: this.options.callbackToken ? { Authorization: `Bearer ${this.options.callbackToken}` } : {},
+      });
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Settle every message still sending
+   * @returns The receipts that were sent
+   */
+  async deliverAll() {
+    const pending = Array.from(this.notifications.values()).filter(n => n.status === 'sending');
+    const receipts = [];
+
+    for (const notification of pending) {
+      receipts.push(await this.deliver(notification.id));
+    }
+
+    return receipts;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const body = await this.readBody(req);
+
+    if (url.pathname.startsWith(CONTROL_PATH)) {
+      return this.handleControl(method, url, body, res);
+    }
+
+    if (!url.pathname.startsWith(`${API_PATH}/notifications`)) {
+      return this.sendJson(res, 404, notifyError(404, 'NotFoundError', `No route for ${method} ${url.pathname}`));
+    }
+
+    if (this.options.requireAuth && !/^Bearer .+/.test(req.headers.authorization || '')) {
+      return this.sendJson(res, 403, notifyError(403, 'AuthError', 'Unauthorized: authentication token must be provided'));
+    }
+
+    const path = url.pathname.slice(`${API_PATH}/notifications`.length);
+
+    if ((path === '/sms' || path === '/email') && method === 'POST') {
+      return this.handleSend(path === '/sms' ? 'sms' : 'email', body, res);
+    }
+
+    if (path.startsWith('/') && method === 'GET') {
+      const notification = this.notifications.get(path.slice(1));
+      return notification
+        ? this.sendJson(res, 200, this.toNotifyNotification(notification))
+        : this.sendJson(res, 404, notifyError(404, 'NoResultFound', 'No result found'));
+    }
+
+    this.sendJson(res, 405, notifyError(405, 'MethodNotAllowed', `${method} is not supported on ${url.pathname}`));
+  }
+
+  private async handleSend(type: 'sms' | 'email', body: string, res: http.ServerResponse): Promise<void> {
+    let payload: any;
+    try {
+      payload = JSON.parse(body || '{}');
+    } catch {
+      return this.sendJson(res, 400, notifyError(400, 'BadRequestError', 'Invalid JSON'));
+    }
+
+    const to = type === 'sms' ? payload.phone_number : payload.email_address;
+    if (!to) {
+      const field = type === 'sms' ? 'phone_number' : 'email_address';
+      return this.sendJson(res, 400, notifyError(400, 'ValidationError', `${field} is a required property`));
+    }
+    if (!payload.template_id) {
+      return this.sendJson(res, 400, notifyError(400, 'ValidationError', 'template_id is a required property'));
+    }
+
+    const outcome = this.outcomes.get(to);
+    if (outcome?.reject) {
+      return this.sendJson(res, outcome.reject, notifyError(
+        outcome.reject,
+        'BadRequestError',
+        outcome.message || `Can't send to this recipient`
+      ));
+    }
+
+    const notification: MockNotifyNotification = {
+      id: uuidv4(),
+      reference: payload.reference || null,
+      type,
+      to,
+      templateId: payload.template_id,
+      personalisation: payload.personalisation || {},
+      status: 'sending',
+      createdAt: new Date().toISOString(),
+      completedAt: null,
+    };
+    this.notifications.set(notification.id, notification);
+
+    const personalisation = notification.personalisation;
+    this.sendJson(res, 201, {
+      id: notification.id,
+      reference: notification.reference,
+      content: type === 'sms'
+        ? { body: personalisation.body || '', from_number: 'RXautomate' }
+        : { body: personalisation.body || '', subject: personalisation.subject || '', from_email: 'rxautomate@notifications.service.gov.uk' },
+      uri: `${this.baseUrl}${API_PATH}/notifications/${notification.id}`,
+      template: {
+        id: notification.templateId,
+        version: 1,
+        uri: `${this.baseUrl}${API_PATH}/template/${notification.templateId}`,
+      },
+    });
+
+    if (this.options.autoDeliver) {
+      this.deliver(notification.id).catch(error => console.error('Mock Notify callback failed:', error.message));
+    }
+  }
+
+  /**
+   * Test hooks: scripted outcomes and delivery receipts
+   */
+  private async handleControl(method: string, url: URL, body: string, res: http.ServerResponse): Promise<void> {
+    const action = url.pathname.slice(CONTROL_PATH.length);
+
+    try {
+      if (action === '/reset' && method === 'POST') {
+        this.reset();
+        return this.sendJson(res, 200, { reset: true });
+      }
+
+      if (action === '/outcomes' && method === 'POST') {
+        const payload = JSON.parse(body || '{}');
+        (Array.isArray(payload) ? payload : [payload]).forEach(outcome => this.setOutcome(outcome));
+        return this.sendJson(res, 200, { outcomes: this.outcomes.size });
+      }
+
+      if (action === '/outcomes' && method === 'DELETE') {
+        this.clearOutcomes();
+        return this.sendJson(res, 200, { outcomes: 0 });
+      }
+
+      if (action === '/deliver' && method === 'POST') {
+        return this.sendJson(res, 200, await this.deliverAll());
+      }
+
+      if (action.startsWith('/deliver/') && method === 'POST') {
+        const { status } = JSON.parse(body || '{}');
+        return this.sendJson(res, 200, await this.deliver(action.slice('/deliver/'.length), status));
+      }
+
+      if (action === '/notifications' && method === 'GET') {
+        return this.sendJson(res, 200, this.getNotifications());
+      }
+    } catch (error) {
+      return this.sendJson(res, 400, { error: (error as Error).message });
+    }
+
+    this.sendJson(res, 404, { error: `No control route for ${method} ${url.pathname}` });
+  }
+
+  private toNotifyNotification(notification: MockNotifyNotification) {
+    return {
+      id: notification.id,
+      reference: notification.reference,
+      type: notification.type,
+      status: notification.status,
+      ...(notification.type === 'sms'
+        ? { phone_number: notification.to }
+        : { email_address: notification.to }),
+      template: { id: notification.templateId, version: 1 },
+      personalisation: notification.personalisation,
+      created_at: notification.createdAt,
+      completed_at: notification.completedAt,
+    };
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    if (res.headersSent || res.destroyed) {
+      return;
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
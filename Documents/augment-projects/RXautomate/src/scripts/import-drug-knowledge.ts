@@ -0,0 +1,105 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Drug Knowledge Base Importer
+ *
+ * This script imports a versioned drug knowledge dataset (interactions,
+ * contraindications and allergen classes, keyed by dm+d codes where known)
+ * into the database and makes it the active dataset used by prescription validation.
+ *
+ * Usage:
+ *   npm run kb:import -- --file=datasets/kb-2024-06.json
+ *   npm run kb:import -- --dir=datasets/kb-2024-06 --version=2024.06 --source="dm+d"
+ *
+ * Options:
+ *   --file=path     JSON dataset with version, source, interactions, contraindications, allergens,
+ *                   doseRanges and therapeuticClasses
+ *   --dir=path      Directory containing interactions.csv, contraindications.csv, allergens.csv,
+ *                   dose-ranges.csv and therapeutic-classes.csv
+ *   --version=x     Dataset version (required with --dir)
+ *   --source=x      Dataset publisher (default: dm+d)
+ *   --no-activate   Import without making the dataset active
+ */
+
+import { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import {
+  DrugKnowledgeBaseService,
+  DrugKnowledgeDatasetFile,
+  buildDatasetFromCsv,
+} from '../services/DrugKnowledgeBaseService';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Parse command line arguments
+const args = process.argv.slice(2).reduce((acc, arg) => {
+  const [key, value] = arg.replace('--', '').split('=');
+  acc[key] = value || true;
+  return acc;
+}, {} as Record<string, any>);
+
+/**
+ * Read the dataset from a JSON file or a directory of CSV files
+ */
+function readDataset(): DrugKnowledgeDatasetFile {
+  if (args.file) {
+    const dataset = JSON.parse(fs.readFileSync(path.resolve(args.file), 'utf8'));
+    return {
+      interactions: [],
+      contraindications: [],
+      allergens: [],
+      ...dataset,
+    };
+  }
+
+  if (args.dir) {
+    if (!args.version) {
+      throw new Error('--version is required when importing from CSV files');
+    }
+
+    const readCsv = (name: string) => {
+      const filePath = path.join(path.resolve(args.dir), name);
+      return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+    };
+
+    return buildDatasetFromCsv(args.version, args.source || 'dm+d', {
+      interactions: readCsv('interactions.csv'),
+      contraindications: readCsv('contraindications.csv'),
+      allergens: readCsv('allergens.csv'),
+      doseRanges: readCsv('dose-ranges.csv'),
+      therapeuticClasses: readCsv('therapeutic-classes.csv'),
+    });
+  }
+
+  throw new Error('Specify a dataset with --file=<json> or --dir=<csv directory>');
+}
+
+// Main function
+async function importKnowledgeBase() {
+  try {
+    const dataset = readDataset();
+    console.log(`Importing drug knowledge dataset ${dataset.version} from ${dataset.source}...`);
+
+    const knowledgeBase = new DrugKnowledgeBaseService(prisma);
+    const result = await knowledgeBase.importDataset(dataset, undefined, !args['no-activate']);
+
+    console.log(`Imported ${result.interactionCount} interactions, ${result.contraindicationCount} contraindications, ${result.allergenCount} allergen rules, ${result.doseRangeCount} dose ranges and ${result.therapeuticClassCount} therapeutic classes.`);
+    console.log(result.isActive ? `Dataset ${result.version} is now active.` : `Dataset ${result.version} imported but not activated.`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+importKnowledgeBase().then(() => {
+  process.exit(0);
+}).catch((error) => {
+  console.error('Error importing drug knowledge dataset:', error);
+  process.exit(1);
+});
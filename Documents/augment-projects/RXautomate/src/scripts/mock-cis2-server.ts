@@ -0,0 +1,66 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Mock CIS2 Server
+ *
+ * Runs a local stand-in for NHS Care Identity Service 2 so smartcard sign-in,
+ * RBAC role mapping and role selection can be run offline.
+ *
+ * Usage:
+ *   npm run mock:cis2
+ *   npm run mock:cis2 -- --port=9200
+ *
+ * Then point the app at it:
+ *   CIS2_ISSUER=http://127.0.0.1:9200
+ *   CIS2_CLIENT_ID=rxautomate
+ *   CIS2_CLIENT_SECRET=rxautomate-secret
+ *
+ * Options:
+ *   --port=n          Port to listen on (default: 9200)
+ *   --host=x          Interface to bind (default: 127.0.0.1)
+ *   --client-id=x     Client allowed to sign in (default: CIS2_CLIENT_ID or rxautomate)
+ *   --client-secret=x Its secret (default: CIS2_CLIENT_SECRET or rxautomate-secret)
+ *
+ * While it runs, identities can be managed over HTTP:
+ *   GET  /_mock/identities
+ *   POST /_mock/identities  {"uid":"555000000009","name":"...","givenName":"...","familyName":"...","roles":[...]}
+ *   POST /_mock/reset
+ */
+
+import { MockCis2Server } from '../mocks/cis2/MockCis2Server';
+
+// Parse command line arguments
+const args = process.argv.slice(2).reduce((acc, arg) => {
+  const [key, value] = arg.replace('--', '').split('=');
+  acc[key] = value || true;
+  return acc;
+}, {} as Record<string, any>);
+
+async function main() {
+  const server = new MockCis2Server({
+    clientId: args['client-id'] || process.env.CIS2_CLIENT_ID,
+    clientSecret: args['client-secret'] || process.env.CIS2_CLIENT_SECRET,
+  });
+
+  const url = await server.start(Number(args.port || 9200), args.host || '127.0.0.1');
+
+  console.log(`Mock CIS2 server listening on ${url}`);
+  console.log(`  CIS2_ISSUER=${server.issuer}`);
+  console.log('  Test identities:');
+  server.getIdentities().forEach(identity => {
+    console.log(`    ${identity.uid}  ${identity.name}  ${identity.roles.map(role => `${role.role_code}@${role.org_code}`).join(', ')}`);
+  });
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start mock CIS2 server:', error);
+  process.exit(1);
+});
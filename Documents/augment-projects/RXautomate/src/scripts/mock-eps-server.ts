@@ -0,0 +1,84 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Mock EPS Server
+ *
+ * Runs a local stand-in for the EPS FHIR R4 API and the NHS OAuth token
+ * endpoint so the dispensing flow can be run offline.
+ *
+ * Usage:
+ *   npm run mock:eps
+ *   npm run mock:eps -- --port=9000 --fixtures=fixtures/eps.json
+ *
+ * Then point the app at it:
+ *   NHS_API_BASE_URL=http://127.0.0.1:9000
+ *   NHS_AUTH_URL=http://127.0.0.1:9000/oauth2/token
+ *
+ * Options:
+ *   --port=n          Port to listen on (default: 9000)
+ *   --host=x          Interface to bind (default: 127.0.0.1)
+ *   --fixtures=path   JSON array or Bundle of MedicationRequests to use instead of the defaults
+ *   --no-auth         Accept requests without a token from the token endpoint
+ *
+ * Release (Task/$release), Dispense Notifications ($process-message) and
+ * Return/Withdraw Tasks (POST /Task) are supported, so dispensing can be run
+ * end to end.
+ *
+ * While it runs, faults and fixtures can be scripted over HTTP:
+ *   POST   /_mock/faults    {"status":503,"times":2,"path":"MedicationRequest"}
+ *   DELETE /_mock/faults
+ *   POST   /_mock/seed      JSON array or Bundle (?replace=true to drop existing)
+ *   POST   /_mock/reset
+ *   GET    /_mock/requests
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MockEpsServer } from '../mocks/eps/MockEpsServer';
+
+// Parse command line arguments
+const args = process.argv.slice(2).reduce((acc, arg) => {
+  const [key, value] = arg.replace('--', '').split('=');
+  acc[key] = value || true;
+  return acc;
+}, {} as Record<string, any>);
+
+/**
+ * Read fixtures from a JSON array or Bundle
+ */
+function readFixtures() {
+  if (!args.fixtures) {
+    return undefined;
+  }
+
+  const payload = JSON.parse(fs.readFileSync(path.resolve(args.fixtures), 'utf8'));
+  return payload.resourceType === 'Bundle'
+    ? payload.entry.map((entry: any) => entry.resource)
+    : payload;
+}
+
+async function main() {
+  const server = new MockEpsServer({
+    fixtures: readFixtures(),
+    requireAuth: !args['no-auth'],
+  });
+
+  const url = await server.start(Number(args.port || 9000), args.host || '127.0.0.1');
+
+  console.log(`Mock EPS server listening on ${url}`);
+  console.log(`  NHS_API_BASE_URL=${url}`);
+  console.log(`  NHS_AUTH_URL=${server.tokenUrl}`);
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start mock EPS server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Mock Notify Server
+ *
+ * Runs a local stand-in for the GOV.UK Notify API so patient messaging,
+ * delivery receipts and channel fallback can be run offline.
+ *
+ * Usage:
+ *   npm run mock:notify
+ *   npm run mock:notify -- --port=9100 --callback=http://localhost:3000/api/notify/callback --auto-deliver
+ *
+ * Then point the app at it:
+ *   NOTIFY_API_BASE_URL=http://127.0.0.1:9100/v2/
+ *
+ * Options:
+ *   --port=n          Port to listen on (default: 9100)
+ *   --host=x          Interface to bind (default: 127.0.0.1)
+ *   --callback=url    Where to POST delivery receipts
+ *   --token=x         Bearer token for the receipts (default: NOTIFY_CALLBACK_TOKEN)
+ *   --auto-deliver    Send each receipt as soon as the message is accepted
+ *
+ * While it runs, outcomes and receipts can be scripted over HTTP:
+ *   POST   /_mock/outcomes       {"recipient":"07700900001","status":"permanent-failure"}
+ *                                {"recipient":"bad@example.com","reject":400,"message":"Not a valid email address"}
+ *   DELETE /_mock/outcomes
+ *   POST   /_mock/deliver        Send receipts for every message still sending
+ *   POST   /_mock/deliver/:id    {"status":"temporary-failure"}
+ *   GET    /_mock/notifications
+ *   POST   /_mock/reset
+ */
+
+import { MockNotifyServer } from '../mocks/notify/MockNotifyServer';
+
+// Parse command line arguments
+const args = process.argv.slice(2).reduce((acc, arg) => {
+  const [key, value] = arg.replace('--', '').split('=');
+  acc[key] = value || true;
+  return acc;
+}, {} as Record<string, any>);
+
+async function main() {
+  const server = new MockNotifyServer({
+    callbackUrl: args.callback,
+    callbackToken: args.token || process.env.NOTIFY_CALLBACK_TOKEN,
+    autoDeliver: Boolean(args['auto-deliver']),
+  });
+
+  const url = await server.start(Number(args.port || 9100), args.host || '127.0.0.1');
+
+  console.log(`Mock Notify server listening on ${url}`);
+  console.log(`  NOTIFY_API_BASE_URL=${server.apiUrl}`);
+  if (args.callback) {
+    console.log(`  Delivery receipts go to ${args.callback}`);
+  }
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start mock Notify server:', error);
+  process.exit(1);
+});
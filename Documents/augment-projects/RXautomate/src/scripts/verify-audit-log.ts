@@ -0,0 +1,115 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Audit Log Verifier
+ *
+ * This script walks each organization's hash-chained audit log and reports
+ * entries that have been changed, deleted or inserted since they were written,
+ * and checkpoints that don't match. With --checkpoint it then signs a new
+ * checkpoint at the end of each chain that verified cleanly; run it that way
+ * on a schedule (see docs/CRON_SETUP.md).
+ *
+ * Usage:
+ *   npm run audit:verify
+ *   npm run audit:verify -- --checkpoint
+ *
+ * Options:
+ *   --chain=x      Only verify one chain (an organization ID, or "platform")
+ *   --checkpoint   Sign a checkpoint for each clean chain (needs AUDIT_SIGNING_KEY)
+ *   --json         Print the reports as JSON
+ *
+ * Exits with status 1 if any chain has a break.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import { AuditIntegrityService, ChainReport } from '../services/AuditIntegrityService';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Parse command line arguments
+const args = process.argv.slice(2).reduce((acc, arg) => {
+  const [key, value] = arg.replace('--', '').split('=');
+  acc[key] = value || true;
+  return acc;
+}, {} as Record<string, any>);
+
+/**
+ * Print one chain's result
+ */
+function printReport(report: ChainReport) {
+  const label = report.chain === 'platform' ? 'platform' : `organization ${report.chain}`;
+  const status = report.breaks.length === 0 ? 'OK' : `${report.breaks.length} BREAK(S)`;
+
+  console.log(`\n${label}: ${status}`);
+  console.log(`  ${report.entries} entries, last sequence ${report.lastSequence}, ${report.checkpoints} checkpoint(s)`);
+
+  for (const chainBreak of report.breaks) {
+    console.log(`  [${chainBreak.type}] ${chainBreak.message}${chainBreak.entryId ? ` (entry ${chainBreak.entryId})` : ''}`);
+  }
+  for (const warning of report.warnings) {
+    console.log(`  warning: ${warning}`);
+  }
+}
+
+// Main function
+async function verifyAuditLog() {
+  try {
+    const integrity = new AuditIntegrityService(prisma);
+
+    let reports: ChainReport[];
+    let unchained = 0;
+
+    if (args.chain) {
+      reports = [await integrity.verifyChain(String(args.chain))];
+    } else {
+      ({ reports, unchained } = await integrity.verifyAll());
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify({ reports, unchained }, null, 2));
+    } else {
+      console.log(`Verified ${reports.length} audit chain(s).`);
+      reports.forEach(printReport);
+
+      if (unchained > 0) {
+        console.log(`\n${unchained} entries were written before hash chaining and can't be verified.`);
+      }
+    }
+
+    const broken = reports.filter(report => report.breaks.length > 0);
+
+    if (args.checkpoint) {
+      for (const report of reports) {
+        if (report.breaks.length > 0) {
+          console.log(`Not checkpointing ${report.chain}: it has breaks.`);
+          continue;
+        }
+
+        const checkpoint = await integrity.createCheckpoint(report);
+        if (checkpoint) {
+          console.log(`Checkpointed ${report.chain} at entry ${checkpoint.sequence}.`);
+        }
+      }
+    }
+
+    return broken.length === 0;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+verifyAuditLog().then((ok) => {
+  if (!ok) {
+    console.error('\nThe audit log has been tampered with or damaged; see the breaks above.');
+  }
+  process.exit(ok ? 0 : 1);
+}).catch((error) => {
+  console.error('Error verifying audit log:', error);
+  process.exit(1);
+});
@@ -2,6 +2,8 @@ import { PrismaClient } from '@prisma/client';
 import { ValidationResult, ValidationIssue, ValidationSeverity, PrescriptionValidationService } from './PrescriptionValidationService';
 import { EPSService } from './EPSService';
 import { NotificationService } from './NotificationService';
+import AuditService from './AuditService';
+import { applySettingsToAIIssues } from './ValidationRuleConfigService';
 import axios from 'axios';
 
 /**
@@ -49,6 +51,9 @@ export class AIPrescriptionValidationService extends PrescriptionValidationServi
               medications: true,
               conditions: true,
             }
+          },
+          pharmacy: {
+            select: { organizationId: true }
           }
         }
       });
@@ -106,9 +111,12 @@ export class AIPrescriptionValidationService extends PrescriptionValidationServi
               aiGenerated: true
             }));
 
-            // Filter out low confidence AI issues (below 0.7 threshold)
-            const highConfidenceAiIssues = aiIssues.filter(issue => 
-              !('confidence' in issue) || issue.confidence >= 0.7
+            // Apply the pharmacy's confidence threshold and rule settings to the AI issues
+            const settings = await this.getValidationSettings(prescription);
+            const highConfidenceAiIssues = applySettingsToAIIssues(
+              aiIssues,
+              this.ruleRegistry.list(),
+              settings
             );
 
             // Combine issues and recalculate severity
@@ -135,17 +143,8 @@ export class AIPrescriptionValidationService extends PrescriptionValidationServi
         } catch (aiError) {
           console.error('AI validation error:', aiError);
           // Log the error but continue with base validation
-          await this.prisma.auditLog.create({
-            data: {
-              action: 'AI_VALIDATION_ERROR',
-              entityType: 'Prescription',
-              entityId: prescriptionId,
-              userId: 'SYSTEM',
-              details: JSON.stringify({
-                error: aiError.message,
-                timestamp: new Date().toISOString()
-              })
-            }
+          await AuditService.logPrescriptionAction('AI_VALIDATION_ERROR', prescriptionId, 'SYSTEM', {
+            error: aiError.message
           });
         }
       }
@@ -201,31 +200,12 @@ export class AIPrescriptionValidationService extends PrescriptionValidationServi
       );
 
       // Log feedback sent
-      await this.prisma.auditLog.create({
-        data: {
-          action: 'AI_FEEDBACK_SENT',
-          entityType: 'Prescription',
-          entityId: prescriptionId,
-          userId: 'SYSTEM',
-          details: JSON.stringify({
-            timestamp: new Date().toISOString()
-          })
-        }
-      });
+      await AuditService.logPrescriptionAction('AI_FEEDBACK_SENT', prescriptionId, 'SYSTEM');
     } catch (error) {
       console.error('Error sending feedback to AI model:', error);
       // Log the error but continue
-      await this.prisma.auditLog.create({
-        data: {
-          action: 'AI_FEEDBACK_ERROR',
-          entityType: 'Prescription',
-          entityId: prescriptionId,
-          userId: 'SYSTEM',
-          details: JSON.stringify({
-            error: error.message,
-            timestamp: new Date().toISOString()
-          })
-        }
+      await AuditService.logPrescriptionAction('AI_FEEDBACK_ERROR', prescriptionId, 'SYSTEM', {
+        error: error.message
       });
     }
   }
@@ -0,0 +1,304 @@
+import { PrismaClient } from '@prisma/client';
+import type { KeyObject } from 'crypto';
+import {
+  checkpointSigningKey,
+  checkpointVerifyKey,
+  hashAuditEntry,
+  keyId,
+  signCheckpoint,
+  verifyCheckpointSignature,
+  ChainedAuditFields,
+} from '../lib/audit-chain';
+
+// Entries are read a batch at a time so long chains don't have to fit in memory
+const VERIFY_BATCH_SIZE = 1000;
+
+export type ChainBreakType =
+  | 'entry_changed'       // The entry's content no longer matches its hash
+  | 'link_broken'         // The entry doesn't point at the hash of the one before it
+  | 'entries_missing'     // Sequence numbers are missing
+  | 'checkpoint_mismatch' // The entry a checkpoint signed for has a different hash now
+  | 'chain_truncated'     // The chain ends before a checkpoint it had reached
+  | 'checkpoint_invalid'; // A checkpoint's signature doesn't verify
+
+export interface ChainBreak {
+  type: ChainBreakType;
+  sequence: number;
+  entryId?: string;
+  checkpointId?: string;
+  message: string;
+}
+
+export interface ChainPosition {
+  sequence: number;
+  hash: string | null;
+}
+
+export interface ChainedAuditEntry extends ChainedAuditFields {
+  id: string;
+  hash: string;
+}
+
+export interface ChainReport {
+  chain: string;
+  organizationId: string | null;
+  entries: number;
+  lastSequence: number;
+  lastHash: string | null;
+  checkpoints: number;
+  breaks: ChainBreak[];
+  warnings: string[];
+}
+
+/**
+ * Check a run of entries from one chain, in sequence order
+ * Each problem is reported once: after a changed or missing entry the walk
+ * carries on from the stored hash, so later entries aren't flagged too.
+ * @param entries - The entries
+ * @param after - Where the previous run ended; the start of the chain by default
+ * @returns The breaks found, and where this run ended
+ */
+export function verifyEntries(
+  entries: ChainedAuditEntry[],
+  after: ChainPosition = { sequence: 0, hash: null }
+): { breaks: ChainBreak[]; position: ChainPosition } {
+  const breaks: ChainBreak[] = [];
+  let position = after;
+
+  for (const entry of entries) {
+    const expected = position.sequence + 1;
+
+    if (entry.sequence > expected) {
+      breaks.push({
+        type: 'entries_missing',
+        sequence: expected,
+        entryId: entry.id,
+        message: entry.sequence === expected + 1
+          ? `Entry ${expected} is missing`
+          : `Entries ${expected} to ${entry.sequence - 1} are missing`,
+      });
+    } else if ((entry.previousHash ?? null) !== position.hash) {
+      breaks.push({
+        type: 'link_broken',
+        sequence: entry.sequence,
+        entryId: entry.id,
+        message: `Entry ${entry.sequence} doesn't follow entry ${position.sequence}; an entry has been replaced or inserted`,
+      });
+    }
+
+    if (hashAuditEntry(entry) !== entry.hash) {
+      breaks.push({
+        type: 'entry_changed',
+        sequence: entry.sequence,
+        entryId: entry.id,
+        message: `Entry ${entry.sequence} has been changed since it was written`,
+      });
+    }
+
+    position = { sequence: entry.sequence, hash: entry.hash };
+  }
+
+  return { breaks, position };
+}
+
+/**
+ * Service for proving the audit log hasn't been edited
+ *
+ * AuditService chains each organization's entries by hash. This walks the
+ * chains to find changed, missing or inserted entries, and signs checkpoints
+ * recording how far each chain had got, which also catches entries deleted
+ * from the end of a chain or a chain rebuilt with fresh hashes.
+ */
+export class AuditIntegrityService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Every chain with entries or checkpoints
+   * @returns The chains and their organizations
+   */
+  async listChains(): Promise<{ chain: string; organizationId: string | null }[]> {
+    const [logged, checkpointed] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where: { chain: { not: null } },
+        distinct: ['chain'],
+        select: { chain: true, organizationId: true },
+      }),
+      // A chain whose entries have all been deleted only shows up here
+      this.prisma.auditCheckpoint.findMany({
+        distinct: ['chain'],
+        select: { chain: true, organizationId: true },
+      }),
+    ]);
+
+    const chains = new Map<string, string | null>();
+    for (const { chain, organizationId } of [...logged, ...checkpointed]) {
+      if (chain && !chains.has(chain)) {
+        chains.set(chain, organizationId ?? null);
+      }
+    }
+
+    return Array.from(chains, ([chain, organizationId]) => ({ chain, organizationId }));
+  }
+
+  /**
+   * Walk one chain and check its checkpoints
+   * @param chain - The chain, an organization ID or 'platform'
+   * @param key - The public key checkpoints are checked with
+   * @returns What was found
+   */
+  async verifyChain(chain: string, key: KeyObject | null = checkpointVerifyKey()): Promise<ChainReport> {
+    const checkpoints = await this.prisma.auditCheckpoint.findMany({
+      where: { chain },
+      orderBy: { sequence: 'asc' },
+    });
+
+    const report: ChainReport = {
+      chain,
+      organizationId: checkpoints[0]?.organizationId ?? null,
+      entries: 0,
+      lastSequence: 0,
+      lastHash: null,
+      checkpoints: checkpoints.length,
+      breaks: [],
+      warnings: [],
+    };
+
+    const currentKeyId = key ? keyId(key) : null;
+    const bySequence = new Map<number, typeof checkpoints>();
+
+    for (const checkpoint of checkpoints) {
+      if (!key) {
+        report.warnings.push(`Checkpoint at entry ${checkpoint.sequence} not checked: set AUDIT_VERIFY_KEY or AUDIT_SIGNING_KEY`);
+      } else if (checkpoint.keyId !== currentKeyId) {
+        report.warnings.push(`Checkpoint at entry ${checkpoint.sequence} was signed with key ${checkpoint.keyId}; check it with that key`);
+      } else if (!verifyCheckpointSignature(checkpoint, checkpoint.signature, key)) {
+        report.breaks.push({
+          type: 'checkpoint_invalid',
+          sequence: checkpoint.sequence,
+          checkpointId: checkpoint.id,
+          message: `The checkpoint at entry ${checkpoint.sequence} isn't signed by our key`,
+        });
+        continue;
+      }
+
+      bySequence.set(checkpoint.sequence, [...(bySequence.get(checkpoint.sequence) || []), checkpoint]);
+    }
+
+    let position: ChainPosition = { sequence: 0, hash: null };
+
+    for (;;) {
+      const entries = await this.prisma.auditLog.findMany({
+        where: { chain, sequence: { gt: position.sequence } },
+        orderBy: { sequence: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+      });
+
+      if (entries.length === 0) {
+        break;
+      }
+
+      const result = verifyEntries(entries as ChainedAuditEntry[], position);
+      report.breaks.push(...result.breaks);
+
+      for (const entry of entries) {
+        report.organizationId = report.organizationId ?? entry.organizationId ?? null;
+
+        for (const checkpoint of bySequence.get(entry.sequence!) || []) {
+          if (checkpoint.hash !== entry.hash) {
+            report.breaks.push({
+              type: 'checkpoint_mismatch',
+              sequence: entry.sequence!,
+              entryId: entry.id,
+              checkpointId: checkpoint.id,
+              message: `Entry ${entry.sequence} isn't the entry checkpointed on ${checkpoint.createdAt.toISOString()}`,
+            });
+          }
+        }
+      }
+
+      report.entries += entries.length;
+      position = result.position;
+    }
+
+    report.lastSequence = position.sequence;
+    report.lastHash = position.hash;
+
+    // Checkpoints with bad signatures are already reported and don't count here
+    const furthest = Math.max(0, ...Array.from(bySequence.keys()));
+    if (furthest > position.sequence) {
+      report.breaks.push({
+        type: 'chain_truncated',
+        sequence: position.sequence + 1,
+        message: `The chain ends at entry ${position.sequence} but was checkpointed at entry ${furthest}`,
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Verify every chain
+   * @returns A report per chain, and how many entries predate chaining
+   */
+  async verifyAll() {
+    const key = checkpointVerifyKey();
+    const chains = await this.listChains();
+    const reports: ChainReport[] = [];
+
+    for (const { chain } of chains) {
+      reports.push(await this.verifyChain(chain, key));
+    }
+
+    const unchained = await this.prisma.auditLog.count({ where: { chain: null } });
+
+    return { reports, unchained };
+  }
+
+  /**
+   * Sign a checkpoint at the end of a chain
+   * Only checkpoint a chain that has just verified cleanly.
+   * @param report - The chain's verification report
+   * @param key - The Ed25519 private key
+   * @returns The checkpoint, or null if the chain hasn't moved since the last one
+   */
+  async createCheckpoint(report: ChainReport, key: KeyObject | null = checkpointSigningKey()) {
+    if (!key) {
+      throw new Error('AUDIT_SIGNING_KEY must be set to sign audit checkpoints');
+    }
+    if (report.breaks.length > 0) {
+      throw new Error(`The ${report.chain} audit chain has breaks; it can't be checkpointed`);
+    }
+    if (!report.lastHash) {
+      return null;
+    }
+
+    const latest = await this.prisma.auditCheckpoint.findFirst({
+      where: { chain: report.chain },
+      orderBy: { sequence: 'desc' },
+    });
+
+    if (latest && latest.sequence >= report.lastSequence) {
+      return null;
+    }
+
+    const checkpoint = {
+      chain: report.chain,
+      sequence: report.lastSequence,
+      hash: report.lastHash,
+      createdAt: new Date(),
+    };
+
+    return this.prisma.auditCheckpoint.create({
+      data: {
+        ...checkpoint,
+        organizationId: report.organizationId,
+        signature: signCheckpoint(checkpoint, key),
+        keyId: keyId(key),
+      },
+    });
+  }
+}
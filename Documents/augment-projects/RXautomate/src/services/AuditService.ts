@@ -1,4 +1,9 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
+import { ChainedAuditFields, chainFor, hashAuditEntry } from '@/lib/audit-chain';
+
+// How many times to retry when another entry takes the next place in the chain first
+const CHAIN_APPEND_ATTEMPTS = 5;
 
 export type AuditAction =
   | 'GET_PATIENT'
@@ -9,11 +14,82 @@ export type AuditAction =
   | 'GET_PATIENT_PRESCRIPTIONS'
   | 'UPDATE_PRESCRIPTION'
   | 'SEARCH_PRESCRIPTIONS'
+  | 'RELEASE_PRESCRIPTIONS'
+  | 'DISPENSE_NOTIFICATION_PRESCRIPTION'
+  | 'RETURN_PRESCRIPTION'
+  | 'WITHDRAW_DISPENSE_PRESCRIPTION'
+  | 'SUBMIT_CLAIMS'
+  | 'CLAIM_STATUS_UPDATE'
+  | 'OWING_CREATED'
+  | 'OWING_READY'
+  | 'OWING_FULFILLED'
+  | 'OWING_CANCELLED'
+  | 'REPEAT_SCHEDULE_CREATED'
+  | 'REPEAT_ISSUE_AVAILABLE'
+  | 'REPEAT_ISSUE_DISPENSED'
+  | 'REPEAT_SCHEDULE_CANCELLED'
+  | 'PRESCRIPTION_SYNC'
+  | 'PRESCRIPTION_SYNC_DEAD_LETTERED'
   | 'SEND_NOTIFICATION'
+  | 'NEW_PRESCRIPTIONS_NOTIFICATION'
+  | 'EXPIRING_PRESCRIPTIONS_NOTIFICATION'
+  | 'PRESCRIPTION_STATUS_UPDATE_NOTIFICATION'
+  | 'PATIENT_MESSAGE_SENT'
+  | 'PATIENT_MESSAGE_DELIVERED'
+  | 'PATIENT_MESSAGE_FAILED'
+  | 'PATIENT_MESSAGE_DEFERRED'
+  | 'PATIENT_MESSAGE_SUPPRESSED'
+  | 'LETTER_PRINTED'
+  | 'MESSAGE_TEMPLATE_UPDATED'
+  | 'UPDATE_MESSAGE_PREFERENCE'
+  | 'MESSAGE_OPT_OUT'
+  | 'MESSAGE_OPT_IN'
+  | 'USER_INVITED'
+  | 'USER_INVITATION_ACCEPTED'
+  | 'USER_UPDATED'
+  | 'USER_PHARMACIES_UPDATED'
+  | 'USER_DEACTIVATED'
+  | 'USER_REACTIVATED'
+  | 'PASSWORD_RESET_REQUESTED'
+  | 'PASSWORD_RESET'
+  | 'CIS2_SIGN_IN'
+  | 'CIS2_SIGN_IN_DENIED'
+  | 'CIS2_ROLE_SELECTED'
+  | 'SIGN_IN'
+  | 'SIGN_IN_FAILED'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_UNLOCKED'
+  | 'SESSION_REVOKED'
+  | 'MFA_ENROLLED'
+  | 'MFA_DISABLED'
+  | 'MFA_RESET'
+  | 'MFA_RECOVERY_CODE_USED'
+  | 'MFA_RECOVERY_CODES_REGENERATED'
+  | 'MFA_POLICY_UPDATED'
   | 'API_ERROR'
   | 'AUTHENTICATION'
   | 'CACHE_OPERATION'
-  | 'SYSTEM_EVENT';
+  | 'SYSTEM_EVENT'
+  | 'CONTROLLED_DRUG_ENTRY'
+  | 'CONTROLLED_DRUG_BALANCE_CHECK'
+  | 'PRESCRIPTION_VALIDATION'
+  | 'PRESCRIPTION_VALIDATION_API'
+  | 'AI_VALIDATION_ERROR'
+  | 'AI_FEEDBACK_SENT'
+  | 'AI_FEEDBACK_ERROR'
+  | 'CLINICAL_CHECK_SIGN_OFF'
+  | 'AI_VALIDATION_FEEDBACK'
+  | 'DATA_SUBJECT_REQUEST_LOGGED'
+  | 'DATA_SUBJECT_IDENTITY_VERIFIED'
+  | 'DATA_SUBJECT_REQUEST_EXTENDED'
+  | 'DATA_SUBJECT_REQUEST_REFUSED'
+  | 'DATA_SUBJECT_REQUEST_COMPLETED'
+  | 'DATA_SUBJECT_EXPORT_GENERATED'
+  | 'PATIENT_RECORD_RECTIFIED'
+  | 'PATIENT_DATA_ERASED'
+  | 'CONSENT_NOTICE_PUBLISHED'
+  | 'CONSENT_RECORDED'
+  | 'CONSENT_LINK_CREATED';
 
 export type AuditCategory =
   | 'NHS_API'
@@ -22,6 +98,9 @@ export type AuditCategory =
   | 'AUTHENTICATION'
   | 'SYSTEM';
 
+// An entry's fields before it has a place in a chain
+type UnchainedAuditFields = Omit<ChainedAuditFields, 'chain' | 'sequence' | 'previousHash' | 'timestamp'>;
+
 export interface AuditLogEntry {
   action: AuditAction;
   category: AuditCategory;
@@ -32,11 +111,15 @@ export interface AuditLogEntry {
   details?: any;
   ipAddress?: string;
   userAgent?: string;
+  organizationId?: string | null; // Defaults to the user's organization
 }
 
 /**
  * Service for handling audit logging throughout the application
  * Provides a consistent interface for logging actions for compliance and debugging
+ *
+ * Entries are hash chained per organization (see AuditIntegrityService for
+ * verification), so they should only ever be written through logAction.
  */
 export class AuditService {
   /**
@@ -49,20 +132,22 @@ export class AuditService {
       // Sanitize details to ensure no sensitive information is logged
       const sanitizedDetails = this.sanitizeDetails(entry.details);
 
+      const organizationId = entry.organizationId !== undefined
+        ? entry.organizationId
+        : await this.findOrganizationId(entry.userId);
+
       // Create the audit log entry in the database
-      const auditLog = await prisma.auditLog.create({
-        data: {
-          action: entry.action,
-          category: entry.category || this.determineCategoryFromAction(entry.action),
-          userId: entry.userId,
-          patientId: entry.patientId,
-          nhsNumber: entry.nhsNumber ? this.maskNhsNumber(entry.nhsNumber) : undefined,
-          prescriptionId: entry.prescriptionId,
-          details: sanitizedDetails ? JSON.stringify(sanitizedDetails) : null,
-          ipAddress: entry.ipAddress,
-          userAgent: entry.userAgent,
-          timestamp: new Date(),
-        },
+      const auditLog = await this.appendToChain({
+        action: entry.action,
+        category: entry.category || this.determineCategoryFromAction(entry.action),
+        organizationId,
+        userId: entry.userId,
+        patientId: entry.patientId,
+        nhsNumber: entry.nhsNumber ? this.maskNhsNumber(entry.nhsNumber) : undefined,
+        prescriptionId: entry.prescriptionId,
+        details: sanitizedDetails ? JSON.stringify(sanitizedDetails) : null,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
       });
 
       return auditLog;
@@ -157,6 +242,66 @@ export class AuditService {
     });
   }
 
+  /**
+   * Add an entry to the end of its organization's chain
+   * The previous entry is read and the new one written in one transaction;
+   * the unique chain and sequence turn a concurrent append into a retry
+   * rather than a fork.
+   * @param data - The entry's fields
+   * @returns The created audit log record
+   */
+  private async appendToChain(data: UnchainedAuditFields) {
+    const chain = chainFor(data.organizationId);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+          const previous = await tx.auditLog.findFirst({
+            where: { chain },
+            orderBy: { sequence: 'desc' },
+            select: { sequence: true, hash: true },
+          });
+
+          const chained: ChainedAuditFields = {
+            ...data,
+            organizationId: data.organizationId ?? null,
+            chain,
+            sequence: (previous?.sequence ?? 0) + 1,
+            previousHash: previous?.hash ?? null,
+            timestamp: new Date(),
+          };
+
+          return tx.auditLog.create({
+            data: { ...chained, hash: hashAuditEntry(chained) },
+          });
+        });
+      } catch (error) {
+        const isChainConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!isChainConflict || attempt >= CHAIN_APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * The organization an entry belongs to when the caller didn't say
+   * @param userId - The user who performed the action
+   * @returns Their organization, or null for the platform chain
+   */
+  private async findOrganizationId(userId?: string): Promise<string | null> {
+    if (!userId || userId === 'SYSTEM') {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { organizationId: true },
+    });
+
+    return user?.organizationId ?? null;
+  }
+
   /**
    * Determine the category based on the action
    * @param action - The action to categorize
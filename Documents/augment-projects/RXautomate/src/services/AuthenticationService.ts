@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import type { JWT } from 'next-auth/jwt';
+import { prisma } from '@/lib/db/prisma';
+import AuditService from './AuditService';
+import MfaService, { isMfaRequired, MfaMethod } from './MfaService';
+
+export const MAX_FAILED_SIGN_INS = Number(process.env.MAX_FAILED_SIGN_INS || 5);
+export const LOCKOUT_MINUTES = Number(process.env.LOCKOUT_MINUTES || 15);
+export const SESSION_MAX_AGE_HOURS = Number(process.env.SESSION_MAX_AGE_HOURS || 12);
+
+// How often a session's last activity is written back; every request would be too many writes
+const ACTIVITY_INTERVAL_MS = 5 * 60 * 1000;
+
+// Compared against when the email is unknown, so the response takes as long as a wrong password
+const DUMMY_HASH = '$2b$12$p4S34AGZLvxlpolIx03ep.8ziga4/ARZcvej2Yj3mLNsvL2h8Awdy';
+
+export type SignInErrorCode =
+  | 'InvalidCredentials'
+  | 'MfaRequired'
+  | 'InvalidMfaCode'
+  | 'AccountLocked'
+  | 'AccountDeactivated';
+
+/**
+ * Why a password sign-in failed
+ * The message is the code, which NextAuth hands back to the login form as
+ * `result.error`; the reason is only for the audit log.
+ */
+export class SignInError extends Error {
+  constructor(public code: SignInErrorCode, public reason: string) {
+    super(code);
+    this.name = 'SignInError';
+  }
+}
+
+export interface SignInCredentials {
+  email?: string;
+  password?: string;
+  code?: string; // TOTP or recovery code, sent once the form has asked for it
+}
+
+/**
+ * Where a sign-in came from
+ */
+export interface RequestInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * The client's address and browser from request headers
+ * @param headers - The request headers, as NextAuth passes them to authorize
+ * @returns The IP address and user agent
+ */
+export function requestInfo(headers?: Record<string, any> | Headers | null): RequestInfo {
+  const get = (name: string): string | undefined => {
+    if (!headers) {
+      return undefined;
+    }
+    const value = typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, any>)[name];
+    return Array.isArray(value) ? value[0] : value || undefined;
+  };
+
+  return {
+    ipAddress: get('x-forwarded-for')?.split(',')[0].trim() || get('x-real-ip'),
+    userAgent: get('user-agent'),
+  };
+}
+
+/**
+ * Service for password sign-in, account lockout and the sessions users can see and end
+ *
+ * Sessions are JWTs, so each sign-in also records a Session row whose ID goes
+ * in the token. The jwt callback checks the row on every session lookup;
+ * deleting it signs that browser out the next time it asks for its session.
+ */
+export class AuthenticationService {
+  /**
+   * Check a password sign-in; call from the credentials provider's authorize
+   * Repeated wrong passwords or codes lock the account for a while. Users
+   * with MFA on are asked for a code once their password is right.
+   * @param credentials - The email, password and, when asked for, MFA code
+   * @param info - The client's address and browser
+   * @returns The user to sign in
+   * @throws SignInError when the sign-in is refused
+   */
+  async authorize(credentials: SignInCredentials, info: RequestInfo = {}) {
+    const email = (credentials.email || '').trim().toLowerCase();
+
+    const user = email ? await prisma.user.findUnique({
+      where: { email },
+      include: { organization: { select: { name: true, mfaRequired: true, mfaRequiredRoles: true } } },
+    }) : null;
+
+    if (!user || !user.password) {
+      await bcrypt.compare(credentials.password || '', DUMMY_HASH);
+      throw await this.refuse(new SignInError('InvalidCredentials', 'Unknown email address'), 'unknown', info, { email });
+    }
+
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      throw await this.refuse(new SignInError('AccountLocked', 'Account locked'), user.id, info, { lockedUntil: user.lockedUntil });
+    }
+
+    if (!(await bcrypt.compare(credentials.password || '', user.password))) {
+      throw await this.recordFailure(user, new SignInError('InvalidCredentials', 'Wrong password'), info);
+    }
+
+    if (!user.isActive) {
+      throw await this.refuse(new SignInError('AccountDeactivated', 'Account deactivated'), user.id, info);
+    }
+
+    let mfa: MfaMethod | null = null;
+    if (user.mfaEnabledAt) {
+      // Not a failure: the form asks for the code after the password is right
+      if (!credentials.code) {
+        throw new SignInError('MfaRequired', 'MFA code needed');
+      }
+
+      mfa = await MfaService.verify(user, credentials.code);
+      if (!mfa) {
+        throw await this.recordFailure(user, new SignInError('InvalidMfaCode', 'Wrong MFA code'), info);
+      }
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedSignIns: 0, lockedUntil: null, lastLogin: new Date() },
+    });
+
+    await AuditService.logAuthenticationAction('SIGN_IN', user.id, { provider: 'credentials', mfa }, info.ipAddress, info.userAgent);
+
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      image: user.image,
+      role: user.role,
+      organizationId: user.organizationId,
+      organizationName: user.organization?.name || null,
+      // Users who must have MFA but haven't set it up are sent to set it up before anything else
+      mfaEnrollmentRequired: !user.mfaEnabledAt && isMfaRequired(user),
+      ...info,
+    };
+  }
+
+  /**
+   * Record and check the sign-in's session; call from the jwt callback after
+   * any provider's own handling
+   * @param token - The JWT
+   * @param params - The jwt callback's user, account, trigger and session
+   * @returns The token
+   * @throws Error when the session has been signed out, which makes NextAuth clear the cookie
+   */
+  async jwt(
+    token: JWT,
+    params: { user?: any; account?: { provider: string } | null; trigger?: string; session?: any }
+  ): Promise<JWT> {
+    if (params.account) {
+      const userId = token.id || params.user?.id;
+      const session = await this.startSession(userId, params.account.provider, {
+        ipAddress: params.user?.ipAddress,
+        userAgent: params.user?.userAgent,
+      });
+
+      token.sessionId = session.id;
+      token.mfaEnrollmentRequired = params.account.provider === 'credentials' && Boolean(params.user?.mfaEnrollmentRequired);
+
+      return token;
+    }
+
+    // Tokens issued before sessions were recorded have no ID and expire on their own
+    if (!token.sessionId) {
+      return token;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: token.sessionId },
+      select: { id: true, userId: true, expires: true, lastActiveAt: true },
+    });
+
+    if (!session || session.userId !== token.id || session.expires <= new Date()) {
+      throw new Error('This session has been signed out');
+    }
+
+    if (Date.now() - session.lastActiveAt.getTime() > ACTIVITY_INTERVAL_MS) {
+      await prisma.session.update({ where: { id: session.id }, data: { lastActiveAt: new Date() } });
+    }
+
+    // The MFA set-up page asks for the flag to be cleared once the user has enrolled
+    if (params.trigger === 'update' && token.mfaEnrollmentRequired && params.session?.mfaEnrolled) {
+      const user = await prisma.user.findUnique({ where: { id: token.id }, select: { mfaEnabledAt: true } });
+      token.mfaEnrollmentRequired = !user?.mfaEnabledAt;
+    }
+
+    return token;
+  }
+
+  /**
+   * Where the user is signed in
+   * @param userId - The user
+   * @param currentSessionId - The session asking, which is marked
+   * @returns The sessions, most recently active first
+   */
+  async listSessions(userId: string, currentSessionId?: string | null) {
+    const sessions = await prisma.session.findMany({
+      where: { userId, expires: { gt: new Date() } },
+      select: { id: true, provider: true, ipAddress: true, userAgent: true, createdAt: true, lastActiveAt: true, expires: true },
+      orderBy: { lastActiveAt: 'desc' },
+    });
+
+    return sessions.map((session: any) => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Sign one of the user's sessions out
+   * @param userId - The user
+   * @param sessionId - The session
+   */
+  async revokeSession(userId: string, sessionId: string) {
+    const { count } = await prisma.session.deleteMany({ where: { id: sessionId, userId } });
+
+    if (count === 0) {
+      throw new Error('Session not found');
+    }
+
+    await AuditService.logAuthenticationAction('SESSION_REVOKED', userId, { sessionId });
+  }
+
+  /**
+   * Sign the user out everywhere except here
+   * @param userId - The user
+   * @param currentSessionId - The session to keep
+   * @returns How many sessions were ended
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string | null) {
+    const { count } = await prisma.session.deleteMany({
+      where: { userId, ...(currentSessionId ? { id: { not: currentSessionId } } : {}) },
+    });
+
+    await AuditService.logAuthenticationAction('SESSION_REVOKED', userId, { allOtherSessions: true, count });
+
+    return count;
+  }
+
+  private async startSession(userId: string, provider: string, info: RequestInfo) {
+    // Clear out the user's expired sessions while we're here
+    await prisma.session.deleteMany({ where: { userId, expires: { lte: new Date() } } });
+
+    return prisma.session.create({
+      data: {
+        userId,
+        sessionToken: crypto.randomBytes(32).toString('hex'),
+        expires: new Date(Date.now() + SESSION_MAX_AGE_HOURS * 60 * 60 * 1000),
+        provider,
+        ipAddress: info.ipAddress || null,
+        userAgent: info.userAgent || null,
+      },
+    });
+  }
+
+  /**
+   * Count a wrong password or code, locking the account at the limit
+   * @returns The error to throw
+   */
+  private async recordFailure(user: { id: string; failedSignIns: number }, error: SignInError, info: RequestInfo): Promise<SignInError> {
+    const failedSignIns = user.failedSignIns + 1;
+
+    if (failedSignIns < MAX_FAILED_SIGN_INS) {
+      await prisma.user.update({ where: { id: user.id }, data: { failedSignIns } });
+      return this.refuse(error, user.id, info, { failedSignIns });
+    }
+
+    // The count starts again after the lockout, so each lockout allows another few tries
+    const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    await prisma.user.update({ where: { id: user.id }, data: { failedSignIns: 0, lockedUntil } });
+
+    await AuditService.logAuthenticationAction('ACCOUNT_LOCKED', user.id, { failedSignIns, lockedUntil }, info.ipAddress, info.userAgent);
+
+    return this.refuse(new SignInError('AccountLocked', error.reason), user.id, info, { failedSignIns });
+  }
+
+  /**
+   * Audit a refused sign-in
+   * @returns The error to throw
+   */
+  private async refuse(error: SignInError, userId: string, info: RequestInfo, details: any = {}): Promise<SignInError> {
+    await AuditService.logAuthenticationAction(
+      'SIGN_IN_FAILED',
+      userId,
+      { code: error.code, reason: error.reason, ...details },
+      info.ipAddress,
+      info.userAgent
+    );
+
+    return error;
+  }
+}
+
+export default new AuthenticationService();
@@ -7,7 +7,7 @@ import AuditService from './AuditService';
  * NHS Business Services Authority (BSA) Service
  *
  * This service provides access to NHS BSA APIs for eligibility checking,
- * prescription exemption verification, and other BSA services.
+ * prescription exemption verification, prescription claims, and other BSA services.
  */
 
 // Types for BSA Service
@@ -32,15 +32,55 @@ export interface ExemptionCheckResponse {
   certificateNumber?: string;
 }
 
+export interface ClaimSubmissionItem {
+  medicationCode?: string;
+  medicationName: string;
+  quantity: number;
+  unit?: string;
+  endorsements: string[];
+}
+
+export interface ClaimSubmission {
+  claimReference: string; // Our claim ID, echoed back in status updates
+  prescriptionId: string;
+  nhsNumber?: string;
+  dispensedDate: string; // YYYY-MM-DD
+  exemptionCategory?: string;
+  chargesCollected: number;
+  items: ClaimSubmissionItem[];
+}
+
+export interface ClaimBatchRequest {
+  nhsContractNumber?: string; // Pharmacy's NHS (F) code
+  claimPeriod: string; // YYYY-MM
+  claims: ClaimSubmission[];
+}
+
+export interface ClaimStatusUpdate {
+  claimReference: string;
+  status: 'SUBMITTED' | 'ACCEPTED' | 'REJECTED' | 'PAID';
+  rejectionCode?: string;
+  rejectionReason?: string;
+  paidAmount?: number;
+  paymentDate?: string;
+}
+
+export interface ClaimBatchResponse {
+  submissionReference: string;
+  claims: ClaimStatusUpdate[];
+}
+
 export class BSAService {
   private apiKey: string;
   private baseUrl: string;
+  private claimsBaseUrl: string;
   private headers: Record<string, string>;
   private cache: NodeCache;
 
   constructor() {
     this.apiKey = process.env.NHS_API_KEY || '';
     this.baseUrl = 'https://sandbox.api.service.nhs.uk/bsa-eligibility/';
+    this.claimsBaseUrl = process.env.BSA_CLAIMS_API_URL || 'https://sandbox.api.service.nhs.uk/bsa-prescription-claims/';
     this.headers = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
@@ -242,6 +282,101 @@ export class BSAService {
       throw error;
     }
   }
+
+  /**
+   * Submit a batch of prescription claims
+   * @param batch - Claims for one pharmacy and claim period
+   * @returns Submission reference and the initial status of each claim
+   */
+  async submitClaimBatch(batch: ClaimBatchRequest): Promise<ClaimBatchResponse> {
+    try {
+      const requestId = this.generateRequestId();
+      const headers = {
+        ...this.headers,
+        'X-Request-ID': requestId,
+        'X-Correlation-ID': requestId,
+      };
+
+      const response = await axios.post(
+        `${this.claimsBaseUrl}claim-batches`,
+        batch,
+        { headers }
+      );
+
+      // Log successful API call
+      await AuditService.logAction({
+        action: 'SUBMIT_CLAIMS',
+        category: 'NHS_API',
+        userId: 'system',
+        details: {
+          requestId,
+          claimPeriod: batch.claimPeriod,
+          claimCount: batch.claims.length,
+          submissionReference: response.data.submissionReference,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error('Error submitting claim batch:', error);
+
+      // Log error
+      await AuditService.logAction({
+        action: 'API_ERROR' as any,
+        category: 'NHS_API' as any,
+        userId: 'system',
+        details: {
+          error: error.message,
+          endpoint: 'claim-batches',
+          claimCount: batch.claims.length,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current status of the claims in a submitted batch
+   * @param submissionReference - Reference returned by submitClaimBatch
+   * @returns Status of each claim in the batch
+   */
+  async getClaimBatchStatus(submissionReference: string): Promise<ClaimBatchResponse> {
+    try {
+      const requestId = this.generateRequestId();
+      const headers = {
+        ...this.headers,
+        'X-Request-ID': requestId,
+        'X-Correlation-ID': requestId,
+      };
+
+      const response = await axios.get(
+        `${this.claimsBaseUrl}claim-batches/${submissionReference}`,
+        { headers }
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching claim batch status:', error);
+
+      // Log error
+      await AuditService.logAction({
+        action: 'API_ERROR' as any,
+        category: 'NHS_API' as any,
+        userId: 'system',
+        details: {
+          submissionReference,
+          error: error.message,
+          endpoint: 'claim-batches',
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      throw error;
+    }
+  }
 }
 
 export default new BSAService();
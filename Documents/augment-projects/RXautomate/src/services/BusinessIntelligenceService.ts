@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { PatientAdherenceService } from './PatientAdherenceService';
+import { calculateIssueMetrics } from './ValidationRunService';
 
 export interface PharmacyMetrics {
   pharmacyId: string;
@@ -43,6 +44,9 @@ export interface PharmacyMetrics {
     timeSavedByAI: number; // in hours
     flaggedPrescriptions: number;
     falsePositives: number;
+    precision: number; // % of reviewed AI issues confirmed as real
+    recall: number; // % of confirmed issues the AI found
+    reviewedIssues: number;
   };
 }
 
@@ -349,31 +353,39 @@ export class BusinessIntelligenceService {
     startDate: Date,
     endDate: Date
   ) {
-    const validations = await this.prisma.validationResult.findMany({
+    const runs = await this.prisma.validationRun.findMany({
       where: {
-        prescription: {
-          pharmacyId
-        },
+        pharmacyId,
         createdAt: {
           gte: startDate,
           lte: endDate
         }
+      },
+      include: {
+        issues: {
+          include: { feedback: true }
+        }
       }
     });
 
-    const totalAIValidations = validations.length;
-    const accurateValidations = validations.filter(v => v.isAccurate === true).length;
-    const aiAccuracy = totalAIValidations > 0 
-      ? (accurateValidations / totalAIValidations) * 100 
-      : 0;
-
-    const flaggedPrescriptions = validations.filter(v => 
-      v.issues && v.issues.length > 0
-    ).length;
-
-    const falsePositives = validations.filter(v => 
-      v.isAccurate === false
-    ).length;
+    const aiRuns = runs.filter(run => run.aiEnhanced);
+    const totalAIValidations = aiRuns.length;
+
+    const flaggedPrescriptions = new Set(
+      aiRuns.filter(run => run.issues.length > 0).map(run => run.prescriptionId)
+    ).size;
+
+    // Precision and recall come from reviewers' verdicts on individual issues
+    const issueMetrics = calculateIssueMetrics(
+      runs.flatMap(run => run.issues.map(issue => ({
+        validationRunId: run.id,
+        type: issue.type,
+        medications: issue.medications,
+        aiGenerated: issue.aiGenerated,
+        aiEnhancedRun: run.aiEnhanced,
+        feedback: issue.feedback
+      })))
+    );
 
     // Calculate time saved by AI (mock calculation)
     const averageTimePerValidation = 3; // 3 minutes saved per validation
@@ -381,10 +393,13 @@ export class BusinessIntelligenceService {
 
     return {
       totalAIValidations,
-      aiAccuracy,
+      aiAccuracy: issueMetrics.precision,
       timeSavedByAI,
       flaggedPrescriptions,
-      falsePositives
+      falsePositives: issueMetrics.falsePositives,
+      precision: issueMetrics.precision,
+      recall: issueMetrics.recall,
+      reviewedIssues: issueMetrics.reviewedAIIssues
     };
   }
 
@@ -0,0 +1,316 @@
+import type { JWT } from 'next-auth/jwt';
+import { prisma } from '@/lib/db/prisma';
+import { CIS2_PROVIDER_ID, Cis2Profile, Cis2Role, cis2Roles } from '@/lib/cis2';
+import AuditService from './AuditService';
+
+// assignedBy on the pharmacy roles CIS2 keeps in step; roles an admin assigned are left alone
+export const CIS2_ASSIGNER = 'cis2';
+
+export type Cis2SignInErrorCode = 'Cis2NoPharmacy' | 'Cis2Deactivated' | 'Cis2OtherOrganization';
+
+/**
+ * Why a CIS2 user can't sign in; the code goes back to the login page
+ */
+export class Cis2SignInError extends Error {
+  constructor(public code: Cis2SignInErrorCode, message: string) {
+    super(message);
+    this.name = 'Cis2SignInError';
+  }
+}
+
+/**
+ * A CIS2 role held at one of our pharmacies
+ */
+export interface Cis2PharmacyRole extends Cis2Role {
+  pharmacyId: string;
+  pharmacyName: string;
+  organizationId: string;
+}
+
+/**
+ * The role to act in straight away: the one picked at CIS2, or the only one
+ * @param profile - The CIS2 claims
+ * @param roles - The user's roles at our pharmacies
+ * @returns The role, or null if the user has to choose
+ */
+export function pickRole<T extends { roleId: string }>(profile: Cis2Profile, roles: T[]): T | null {
+  const selected = profile.selected_roleid && roles.find(role => role.roleId === profile.selected_roleid);
+  if (selected) {
+    return selected;
+  }
+
+  return roles.length === 1 ? roles[0] : null;
+}
+
+/**
+ * The roles as kept in the JWT
+ */
+function toTokenRoles(roles: Cis2PharmacyRole[]): NonNullable<JWT['cis2Roles']> {
+  return roles.map(role => ({
+    roleId: role.roleId,
+    roleName: role.roleName,
+    odsCode: role.odsCode,
+    pharmacyId: role.pharmacyId,
+    pharmacyName: role.pharmacyName,
+    pharmacyRole: role.pharmacyRole,
+  }));
+}
+
+export class Cis2Service {
+  /**
+   * Sign a CIS2 user in; call from the signIn callback
+   * Links the CIS2 identity to an existing user with the same email address in
+   * the same organization, or creates one, and keeps the pharmacy roles CIS2
+   * manages in step with the user's national RBAC roles
+   * @param profile - The CIS2 claims
+   * @returns true, or the login page URL with the reason the user was turned away
+   */
+  async signIn(profile: Cis2Profile): Promise<true | string> {
+    try {
+      const { user, roles } = await this.resolveUser(profile);
+
+      await this.syncPharmacies(user.id, roles);
+
+      const selected = pickRole(profile, roles);
+      if (selected) {
+        await this.applyRole(user.id, selected);
+      }
+
+      await prisma.user.update({ where: { id: user.id }, data: { lastLogin: new Date() } });
+
+      await AuditService.logAuthenticationAction('CIS2_SIGN_IN', user.id, {
+        cis2Uid: profile.uid || profile.sub,
+        roles: roles.map(role => ({ roleId: role.roleId, roleCode: role.roleCode, odsCode: role.odsCode })),
+        selectedRoleId: selected?.roleId || null,
+      });
+
+      return true;
+    } catch (error) {
+      if (!(error instanceof Cis2SignInError)) {
+        console.error('Error signing in with CIS2:', error);
+        throw error;
+      }
+
+      await AuditService.logAuthenticationAction('CIS2_SIGN_IN_DENIED', 'unknown', {
+        cis2Uid: profile.uid || profile.sub,
+        reason: error.message,
+      });
+
+      return `/auth/login?error=${error.code}`;
+    }
+  }
+
+  /**
+   * Keep the user and their CIS2 role in the JWT; call from the jwt callback
+   * On CIS2 sign-in it records the roles the user can act in, and the role
+   * when there's only one or it was picked at CIS2. A session
+   * update({ cis2RoleId }) switches to another of those roles.
+   * @param token - The JWT
+   * @param params - The jwt callback's account, profile, trigger and session
+   * @returns The token
+   */
+  async jwt(
+    token: JWT,
+    params: { account?: { provider: string } | null; profile?: any; trigger?: string; session?: any }
+  ): Promise<JWT> {
+    if (params.account?.provider === CIS2_PROVIDER_ID && params.profile) {
+      const profile = params.profile as Cis2Profile;
+      const account = await prisma.account.findUnique({
+        where: { provider_providerAccountId: { provider: CIS2_PROVIDER_ID, providerAccountId: profile.sub } },
+        select: { user: { select: { id: true, role: true, organizationId: true, organization: { select: { name: true } } } } },
+      });
+
+      if (!account) {
+        throw new Error('CIS2 account not linked; is Cis2Service.signIn wired into the signIn callback?');
+      }
+
+      const roles = await this.pharmacyRoles(profile, account.user.organizationId);
+
+      token.id = account.user.id;
+      token.role = account.user.role;
+      token.organizationId = account.user.organizationId;
+      token.organizationName = account.user.organization?.name || null;
+      token.isCis2User = true;
+      token.cis2Roles = toTokenRoles(roles);
+      token.cis2RoleId = null;
+
+      return this.selectRole(await this.withPharmacies(token), pickRole(profile, token.cis2Roles));
+    }
+
+    if (params.trigger === 'update' && token.isCis2User && params.session?.cis2RoleId) {
+      const role = (token.cis2Roles || []).find(r => r.roleId === params.session.cis2RoleId);
+      if (!role) {
+        return token;
+      }
+
+      await this.applyRole(token.id, role);
+
+      await AuditService.logAuthenticationAction('CIS2_ROLE_SELECTED', token.id, {
+        roleId: role.roleId,
+        odsCode: role.odsCode,
+        pharmacyRole: role.pharmacyRole,
+      });
+
+      return this.selectRole(await this.withPharmacies(token), role);
+    }
+
+    return token;
+  }
+
+  /**
+   * The user's CIS2 roles held at our pharmacies
+   * @param profile - The CIS2 claims
+   * @param organizationId - Only roles at this organization's pharmacies; leave out for any
+   * @returns The roles
+   */
+  async pharmacyRoles(profile: Cis2Profile, organizationId?: string | null): Promise<Cis2PharmacyRole[]> {
+    const roles = cis2Roles(profile);
+    if (roles.length === 0) {
+      return [];
+    }
+
+    const pharmacies = await prisma.pharmacy.findMany({
+      where: {
+        odsCode: { in: Array.from(new Set(roles.map(role => role.odsCode))) },
+        isActive: true,
+        ...(organizationId ? { organizationId } : {}),
+      },
+      select: { id: true, name: true, odsCode: true, organizationId: true },
+    });
+
+    return roles.flatMap(role => {
+      const pharmacy = pharmacies.find((p: any) => p.odsCode === role.odsCode);
+      return pharmacy
+        ? [{ ...role, pharmacyId: pharmacy.id, pharmacyName: pharmacy.name, organizationId: pharmacy.organizationId }]
+        : [];
+    });
+  }
+
+  /**
+   * Find the user for a CIS2 identity, linking or creating them if needed
+   */
+  private async resolveUser(profile: Cis2Profile) {
+    const allRoles = await this.pharmacyRoles(profile);
+    if (allRoles.length === 0) {
+      throw new Cis2SignInError('Cis2NoPharmacy', 'None of the user\'s CIS2 roles are at a pharmacy using RXautomate');
+    }
+
+    const account = await prisma.account.findUnique({
+      where: { provider_providerAccountId: { provider: CIS2_PROVIDER_ID, providerAccountId: profile.sub } },
+      select: { user: true },
+    });
+
+    let user = account?.user;
+
+    if (!user) {
+      // Without an email address CIS2 users get a placeholder that can't receive mail
+      const email = (profile.email || `${profile.sub}@cis2.invalid`).toLowerCase();
+      const existing = await prisma.user.findUnique({ where: { email } });
+      const organizationId = (pickRole(profile, allRoles) || allRoles[0]).organizationId;
+
+      if (existing && !allRoles.some(role => role.organizationId === existing.organizationId)) {
+        throw new Cis2SignInError('Cis2OtherOrganization', 'The email address belongs to a user in another organization');
+      }
+
+      user = existing || await prisma.user.create({
+        data: {
+          email,
+          name: profile.name || [profile.given_name, profile.family_name].filter(Boolean).join(' ') || profile.sub,
+          role: 'PHARMACY_STAFF',
+          organizationId,
+          isActive: true,
+          emailVerified: new Date(),
+        },
+      });
+
+      await prisma.account.create({
+        data: {
+          userId: user.id,
+          type: 'oauth',
+          provider: CIS2_PROVIDER_ID,
+          providerAccountId: profile.sub,
+        },
+      });
+    }
+
+    if (!user.isActive) {
+      throw new Cis2SignInError('Cis2Deactivated', 'The user has been deactivated');
+    }
+
+    const roles = allRoles.filter(role => role.organizationId === user!.organizationId);
+    if (roles.length === 0) {
+      throw new Cis2SignInError('Cis2NoPharmacy', 'None of the user\'s CIS2 roles are at their organization\'s pharmacies');
+    }
+
+    return { user, roles };
+  }
+
+  /**
+   * Give the user the pharmacies their CIS2 roles are at, and take away
+   * CIS2-managed ones they no longer hold a role at
+   */
+  private async syncPharmacies(userId: string, roles: Cis2PharmacyRole[]) {
+    const current = await prisma.userPharmacy.findMany({
+      where: { userId },
+      select: { pharmacyId: true, assignedBy: true },
+    });
+
+    const held = new Set(roles.map(role => role.pharmacyId));
+    const removed = current
+      .filter((assignment: any) => assignment.assignedBy === CIS2_ASSIGNER && !held.has(assignment.pharmacyId))
+      .map((assignment: any) => assignment.pharmacyId);
+
+    const added = roles.filter((role, index) =>
+      !current.some((assignment: any) => assignment.pharmacyId === role.pharmacyId) &&
+      roles.findIndex(r => r.pharmacyId === role.pharmacyId) === index
+    );
+
+    await prisma.$transaction([
+      prisma.userPharmacy.deleteMany({ where: { userId, pharmacyId: { in: removed } } }),
+      ...added.map(role => prisma.userPharmacy.create({
+        data: { userId, pharmacyId: role.pharmacyId, role: role.pharmacyRole, assignedBy: CIS2_ASSIGNER },
+      })),
+    ]);
+  }
+
+  /**
+   * Act in a CIS2 role: the user's role at its pharmacy becomes the role's,
+   * unless an admin assigned them a role there
+   */
+  private async applyRole(userId: string, role: { pharmacyId: string; pharmacyRole: string }) {
+    await prisma.userPharmacy.updateMany({
+      where: { userId, pharmacyId: role.pharmacyId, assignedBy: CIS2_ASSIGNER },
+      data: { role: role.pharmacyRole },
+    });
+  }
+
+  private async withPharmacies(token: JWT): Promise<JWT> {
+    const assignments = await prisma.userPharmacy.findMany({
+      where: { userId: token.id },
+      select: { pharmacyId: true, role: true, pharmacy: { select: { name: true } } },
+    });
+
+    token.pharmacies = assignments.map((assignment: any) => ({
+      id: assignment.pharmacyId,
+      name: assignment.pharmacy.name,
+      role: assignment.role,
+    }));
+
+    return token;
+  }
+
+  private selectRole(token: JWT, role: { roleId: string; pharmacyId: string; pharmacyName: string } | null): JWT {
+    if (role) {
+      token.cis2RoleId = role.roleId;
+      token.selectedPharmacyId = role.pharmacyId;
+      token.selectedPharmacyName = role.pharmacyName;
+    } else {
+      token.selectedPharmacyId = null;
+      token.selectedPharmacyName = null;
+    }
+
+    return token;
+  }
+}
+
+export default new Cis2Service();
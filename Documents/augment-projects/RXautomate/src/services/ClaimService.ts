@@ -0,0 +1,575 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService from './AuditService';
+import BSAService, { ClaimStatusUpdate } from './BSAService';
+import type { Prescription } from './EPSService';
+
+export type ClaimStatus = 'PENDING' | 'SUBMITTED' | 'ACCEPTED' | 'REJECTED' | 'PAID';
+
+export const CLAIM_STATUSES: ClaimStatus[] = ['PENDING', 'SUBMITTED', 'ACCEPTED', 'REJECTED', 'PAID'];
+
+// NHSBSA prescription charge exemption categories
+export const EXEMPTION_CATEGORIES: Record<string, string> = {
+  A: 'Aged 60 or over',
+  B: 'Under 16',
+  C: 'Aged 16, 17 or 18 and in full-time education',
+  D: 'Maternity exemption certificate',
+  E: 'Medical exemption certificate',
+  F: 'Prescription prepayment certificate',
+  G: 'Ministry of Defence prescription exemption certificate',
+  H: 'Income Support or income-related Employment and Support Allowance',
+  K: 'Income-based Jobseeker\'s Allowance',
+  L: 'HC2 charges certificate',
+  M: 'Tax Credit exemption certificate',
+  S: 'Pension Credit guarantee credit',
+  U: 'Universal Credit',
+};
+
+// Drug Tariff endorsements we send with a claim item
+export const ENDORSEMENT_CODES: Record<string, string> = {
+  BB: 'Broken bulk',
+  ED: 'Extemporaneously dispensed',
+  IP: 'Invoice price',
+  MF: 'Measured and fitted',
+  NCSO: 'Price concession',
+  PC: 'Prescriber contacted',
+  PNC: 'Prescriber not contacted',
+  SC: 'Special container',
+  SSP: 'Supplied under a Serious Shortage Protocol',
+  XP: 'Out of pocket expenses',
+};
+
+// Charge and fee rates change each April, so they can be set without a release
+export const PRESCRIPTION_CHARGE = Number(process.env.NHS_PRESCRIPTION_CHARGE || 9.90);
+export const DISPENSING_FEE = Number(process.env.NHSBSA_DISPENSING_FEE || 1.46);
+
+// Largest number of claims sent in one submission
+export const MAX_CLAIMS_PER_BATCH = 500;
+
+// Differences smaller than this are rounding, not underpayment
+const PAYMENT_TOLERANCE = 0.01;
+
+// Statuses a claim can move to from each status; REJECTED -> PENDING is a resubmission
+const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  PENDING: ['SUBMITTED'],
+  SUBMITTED: ['ACCEPTED', 'REJECTED', 'PAID'],
+  ACCEPTED: ['REJECTED', 'PAID'],
+  REJECTED: ['PENDING'],
+  PAID: [],
+};
+
+export interface CreateClaimInput {
+  exemptionCategory?: string | null; // null or omitted when the patient paid the charge
+  chargesCollected?: number; // Defaults to the charge per item when not exempt
+  endorsements?: string[];
+  dispensedAt?: Date;
+  userId?: string;
+}
+
+export interface ClaimItemInput {
+  medicationCode?: string;
+  medicationName: string;
+  quantity: number;
+  unit?: string;
+  endorsements: string[];
+  reimbursementAmount: number;
+  feeAmount: number;
+}
+
+export interface ReconciliationClaim {
+  id: string;
+  prescriptionId: string;
+  status: ClaimStatus;
+  expectedAmount: number;
+  paidAmount: number | null;
+  rejectionReason?: string | null;
+}
+
+export interface ReconciliationSummary {
+  claimPeriod: string;
+  expectedTotal: number;
+  paidTotal: number;
+  variance: number; // Paid less expected for the claims that have been paid
+  outstandingTotal: number; // Expected for claims not yet paid or rejected
+  unclaimedCount: number; // Dispensed but not yet submitted
+  byStatus: Record<ClaimStatus, { count: number; expected: number; paid: number }>;
+  rejected: ReconciliationClaim[];
+  underpaid: ReconciliationClaim[];
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Check whether a claim can move between two statuses
+ * @param from - Current status
+ * @param to - New status
+ * @returns True if the transition is allowed
+ */
+export function canTransition(from: ClaimStatus, to: ClaimStatus): boolean {
+  return CLAIM_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * The month a claim belongs to
+ * @param date - Date dispensed
+ * @returns Claim period as YYYY-MM
+ */
+export function getClaimPeriod(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Check the exemption category and endorsements on a claim
+ * @param input - Claim details from the dispenser
+ * @returns List of problems; empty when the claim is valid
+ */
+export function validateClaimInput(input: CreateClaimInput): string[] {
+  const problems: string[] = [];
+
+  if (input.exemptionCategory && !EXEMPTION_CATEGORIES[input.exemptionCategory]) {
+    problems.push(`Unknown exemption category "${input.exemptionCategory}"`);
+  }
+
+  if (input.exemptionCategory && input.chargesCollected) {
+    problems.push('No charge can be collected on an exempt prescription');
+  }
+
+  if (input.chargesCollected !== undefined && (!Number.isFinite(input.chargesCollected) || input.chargesCollected < 0)) {
+    problems.push('Charges collected must be zero or more');
+  }
+
+  (input.endorsements || []).forEach(code => {
+    if (!ENDORSEMENT_CODES[code]) {
+      problems.push(`Unknown endorsement "${code}"`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Build the claim item for a dispensed EPS prescription
+ * @param prescription - The dispensed MedicationRequest
+ * @param endorsements - Endorsement codes for the item
+ * @param unitPrice - Reimbursement price per unit, if known
+ * @returns The claim item
+ */
+export function buildClaimItem(prescription: Prescription, endorsements: string[] = [], unitPrice = 0): ClaimItemInput {
+  const coding = prescription.medicationCodeableConcept?.coding?.[0];
+  const quantity = prescription.dispenseRequest?.quantity;
+
+  return {
+    medicationCode: coding?.code,
+    medicationName: coding?.display || prescription.medicationReference?.display || 'Unknown medication',
+    quantity: quantity?.value || 1,
+    unit: quantity?.unit,
+    endorsements,
+    reimbursementAmount: roundMoney(unitPrice * (quantity?.value || 1)),
+    feeAmount: DISPENSING_FEE,
+  };
+}
+
+/**
+ * What NHSBSA should pay for a claim
+ * @param items - The claim items
+ * @param chargesCollected - Prescription charges collected from the patient, which NHSBSA deducts
+ * @returns Expected payment
+ */
+export function calculateExpectedAmount(items: ClaimItemInput[], chargesCollected: number): number {
+  const total = items.reduce((sum, item) => sum + item.reimbursementAmount + item.feeAmount, 0);
+  return roundMoney(total - chargesCollected);
+}
+
+/**
+ * Compare expected against paid amounts for a month of claims
+ * @param claimPeriod - The month, YYYY-MM
+ * @param claims - Claims in the month
+ * @returns Totals by status, variance, and the claims that need attention
+ */
+export function summariseReconciliation(claimPeriod: string, claims: ReconciliationClaim[]): ReconciliationSummary {
+  const byStatus = Object.fromEntries(
+    CLAIM_STATUSES.map(status => [status, { count: 0, expected: 0, paid: 0 }])
+  ) as ReconciliationSummary['byStatus'];
+
+  let expectedTotal = 0;
+  let paidTotal = 0;
+  let paidExpected = 0;
+  let outstandingTotal = 0;
+
+  for (const claim of claims) {
+    const paid = claim.paidAmount || 0;
+    byStatus[claim.status].count++;
+    byStatus[claim.status].expected += claim.expectedAmount;
+    byStatus[claim.status].paid += paid;
+
+    expectedTotal += claim.expectedAmount;
+    paidTotal += paid;
+
+    if (claim.status === 'PAID') {
+      paidExpected += claim.expectedAmount;
+    } else if (claim.status !== 'REJECTED') {
+      outstandingTotal += claim.expectedAmount;
+    }
+  }
+
+  CLAIM_STATUSES.forEach(status => {
+    byStatus[status].expected = roundMoney(byStatus[status].expected);
+    byStatus[status].paid = roundMoney(byStatus[status].paid);
+  });
+
+  return {
+    claimPeriod,
+    expectedTotal: roundMoney(expectedTotal),
+    paidTotal: roundMoney(paidTotal),
+    variance: roundMoney(paidTotal - paidExpected),
+    outstandingTotal: roundMoney(outstandingTotal),
+    unclaimedCount: byStatus.PENDING.count,
+    byStatus,
+    rejected: claims.filter(claim => claim.status === 'REJECTED'),
+    underpaid: claims.filter(claim =>
+      claim.status === 'PAID' && (claim.paidAmount || 0) < claim.expectedAmount - PAYMENT_TOLERANCE
+    ),
+  };
+}
+
+/**
+ * Service for claiming dispensed prescriptions from NHSBSA
+ *
+ * A claim is created for each dispensed EPS prescription. Pending claims are
+ * submitted in monthly batches, and the status NHSBSA reports for each claim
+ * (accepted, rejected with a reason, paid) is tracked against what we
+ * expected to be paid.
+ */
+export class ClaimService {
+  /**
+   * Record a claim for a dispensed prescription
+   * A pending or rejected claim for the same prescription is replaced, so a
+   * rejected claim can be corrected and claimed again
+   * @param pharmacyId - The dispensing pharmacy
+   * @param prescription - The dispensed EPS prescription
+   * @param input - Exemption, charges and endorsements
+   * @returns The claim with its items
+   */
+  async createClaim(pharmacyId: string, prescription: Prescription, input: CreateClaimInput = {}) {
+    try {
+      const problems = validateClaimInput(input);
+      if (problems.length > 0) {
+        throw new Error(`Invalid claim: ${problems.join('; ')}`);
+      }
+
+      const existing = await tenantPrisma.prescriptionClaim.findUnique({
+        where: { pharmacyId_prescriptionId: { pharmacyId, prescriptionId: prescription.id } },
+      });
+
+      if (existing && !['PENDING', 'REJECTED'].includes(existing.status)) {
+        throw new Error(`Prescription ${prescription.id} has already been claimed (${existing.status})`);
+      }
+
+      const item = buildClaimItem(prescription, input.endorsements, await this.getUnitPrice(pharmacyId, prescription));
+      const exemptionCategory = input.exemptionCategory || null;
+      const chargesCollected = input.chargesCollected ?? (exemptionCategory ? 0 : PRESCRIPTION_CHARGE);
+      const dispensedAt = input.dispensedAt || new Date();
+
+      const data = {
+        nhsNumber: prescription.subject?.reference?.split('/').pop(),
+        claimPeriod: getClaimPeriod(dispensedAt),
+        dispensedAt,
+        exemptionCategory,
+        chargesCollected,
+        expectedAmount: calculateExpectedAmount([item], chargesCollected),
+        status: 'PENDING' as const,
+        rejectionCode: null,
+        rejectionReason: null,
+        batchId: null,
+        createdById: input.userId,
+      };
+
+      const claim = await tenantPrisma.$transaction(async (tx) => {
+        if (existing) {
+          await tx.prescriptionClaimItem.deleteMany({ where: { claimId: existing.id } });
+          return tx.prescriptionClaim.update({
+            where: { id: existing.id },
+            data: { ...data, items: { create: [item] } },
+            include: { items: true },
+          });
+        }
+
+        return tx.prescriptionClaim.create({
+          data: { ...data, pharmacyId, prescriptionId: prescription.id, items: { create: [item] } },
+          include: { items: true },
+        });
+      });
+
+      await AuditService.logPrescriptionAction('CLAIM_STATUS_UPDATE', prescription.id, input.userId || 'SYSTEM', {
+        claimId: claim.id,
+        status: 'PENDING',
+        previousStatus: existing?.status,
+        expectedAmount: claim.expectedAmount,
+      });
+
+      return claim;
+    } catch (error) {
+      console.error('Error creating prescription claim:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a pharmacy's pending claims, one batch per claim period
+   * @param pharmacyId - The pharmacy ID
+   * @param userId - The user submitting
+   * @returns The batches submitted and any submissions that failed
+   */
+  async submitPendingClaims(pharmacyId: string, userId?: string) {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({ where: { id: pharmacyId } });
+    if (!pharmacy) {
+      throw new Error(`Pharmacy ${pharmacyId} not found`);
+    }
+
+    const pending = await tenantPrisma.prescriptionClaim.findMany({
+      where: { pharmacyId, status: 'PENDING' },
+      include: { items: true },
+      orderBy: { dispensedAt: 'asc' },
+    });
+
+    // NHSBSA pays by month, so a batch never mixes claim periods
+    const chunks: typeof pending[] = [];
+    const periods = Array.from(new Set(pending.map(claim => claim.claimPeriod)));
+    for (const period of periods) {
+      const claims = pending.filter(claim => claim.claimPeriod === period);
+      for (let i = 0; i < claims.length; i += MAX_CLAIMS_PER_BATCH) {
+        chunks.push(claims.slice(i, i + MAX_CLAIMS_PER_BATCH));
+      }
+    }
+
+    const batches = [];
+    const errors: { claimPeriod: string; claimCount: number; error: string }[] = [];
+
+    for (const claims of chunks) {
+      const claimPeriod = claims[0].claimPeriod;
+
+      try {
+        const response = await BSAService.submitClaimBatch({
+          nhsContractNumber: pharmacy.nhsContractNumber || undefined,
+          claimPeriod,
+          claims: claims.map(claim => ({
+            claimReference: claim.id,
+            prescriptionId: claim.prescriptionId,
+            nhsNumber: claim.nhsNumber || undefined,
+            dispensedDate: claim.dispensedAt.toISOString().slice(0, 10),
+            exemptionCategory: claim.exemptionCategory || undefined,
+            chargesCollected: claim.chargesCollected,
+            items: claim.items.map(item => ({
+              medicationCode: item.medicationCode || undefined,
+              medicationName: item.medicationName,
+              quantity: item.quantity,
+              unit: item.unit || undefined,
+              endorsements: item.endorsements,
+            })),
+          })),
+        });
+
+        const submittedAt = new Date();
+        const batch = await tenantPrisma.$transaction(async (tx) => {
+          const created = await tx.claimBatch.create({
+            data: {
+              pharmacyId,
+              submissionReference: response.submissionReference,
+              claimCount: claims.length,
+              submittedById: userId,
+              submittedAt,
+            },
+          });
+
+          await tx.prescriptionClaim.updateMany({
+            where: { id: { in: claims.map(claim => claim.id) } },
+            data: { status: 'SUBMITTED', batchId: created.id, submittedAt },
+          });
+
+          return created;
+        });
+
+        // Claims can be rejected at submission, e.g. for a missing exemption category
+        await this.applyStatusUpdates(response.claims || [], userId);
+
+        batches.push(batch);
+      } catch (error: any) {
+        errors.push({ claimPeriod, claimCount: claims.length, error: error.message });
+      }
+    }
+
+    return { batches, errors };
+  }
+
+  /**
+   * Fetch the latest claim statuses for batches still awaiting payment
+   * @param pharmacyId - The pharmacy ID
+   * @returns Number of claims whose status changed
+   */
+  async refreshClaimStatuses(pharmacyId: string): Promise<number> {
+    const batches = await tenantPrisma.claimBatch.findMany({
+      where: {
+        pharmacyId,
+        submissionReference: { not: null },
+        claims: { some: { status: { in: ['SUBMITTED', 'ACCEPTED'] } } },
+      },
+    });
+
+    let updated = 0;
+
+    for (const batch of batches) {
+      const response = await BSAService.getClaimBatchStatus(batch.submissionReference!);
+      updated += await this.applyStatusUpdates(response.claims || []);
+
+      await tenantPrisma.claimBatch.update({
+        where: { id: batch.id },
+        data: { lastCheckedAt: new Date() },
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Put a rejected claim back in the queue for the next submission
+   * @param claimId - The claim ID
+   * @param userId - The user resubmitting
+   * @returns The updated claim
+   */
+  async resubmitClaim(claimId: string, userId?: string) {
+    const claim = await tenantPrisma.prescriptionClaim.findUnique({ where: { id: claimId } });
+    if (!claim) {
+      throw new Error(`Claim ${claimId} not found`);
+    }
+
+    if (!canTransition(claim.status, 'PENDING')) {
+      throw new Error(`Only rejected claims can be resubmitted; claim ${claimId} is ${claim.status}`);
+    }
+
+    const updated = await tenantPrisma.prescriptionClaim.update({
+      where: { id: claimId },
+      data: { status: 'PENDING', batchId: null, rejectionCode: null, rejectionReason: null },
+    });
+
+    await AuditService.logPrescriptionAction('CLAIM_STATUS_UPDATE', claim.prescriptionId, userId || 'SYSTEM', {
+      claimId,
+      status: 'PENDING',
+      previousStatus: claim.status,
+    });
+
+    return updated;
+  }
+
+  /**
+   * List a pharmacy's claims
+   * @param pharmacyId - The pharmacy ID
+   * @param filters - Optional claim period and status
+   * @returns Claims with their items, newest first
+   */
+  async getClaims(pharmacyId: string, filters: { claimPeriod?: string; status?: ClaimStatus } = {}) {
+    return tenantPrisma.prescriptionClaim.findMany({
+      where: {
+        pharmacyId,
+        ...(filters.claimPeriod ? { claimPeriod: filters.claimPeriod } : {}),
+        ...(filters.status ? { status: filters.status } : {}),
+      },
+      include: { items: true },
+      orderBy: { dispensedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Compare expected against paid amounts for a month
+   * @param pharmacyId - The pharmacy ID
+   * @param claimPeriod - The month, YYYY-MM
+   * @returns Reconciliation summary
+   */
+  async getMonthlyReconciliation(pharmacyId: string, claimPeriod: string): Promise<ReconciliationSummary> {
+    const claims = await tenantPrisma.prescriptionClaim.findMany({
+      where: { pharmacyId, claimPeriod },
+      select: {
+        id: true,
+        prescriptionId: true,
+        status: true,
+        expectedAmount: true,
+        paidAmount: true,
+        rejectionReason: true,
+      },
+    });
+
+    return summariseReconciliation(claimPeriod, claims);
+  }
+
+  /**
+   * Apply the claim statuses reported by NHSBSA
+   * @param updates - Status of each claim, keyed by our claim ID
+   * @param userId - The user who triggered the update
+   * @returns Number of claims whose status changed
+   */
+  private async applyStatusUpdates(updates: ClaimStatusUpdate[], userId?: string): Promise<number> {
+    let changed = 0;
+
+    for (const update of updates) {
+      const claim = await tenantPrisma.prescriptionClaim.findUnique({ where: { id: update.claimReference } });
+      if (!claim || claim.status === update.status) {
+        continue;
+      }
+
+      if (!canTransition(claim.status, update.status)) {
+        console.warn(`Ignoring claim ${claim.id} status change from ${claim.status} to ${update.status}`);
+        continue;
+      }
+
+      const now = new Date();
+      await tenantPrisma.prescriptionClaim.update({
+        where: { id: claim.id },
+        data: {
+          status: update.status,
+          ...(update.status === 'ACCEPTED' ? { acceptedAt: now } : {}),
+          ...(update.status === 'REJECTED' ? {
+            rejectedAt: now,
+            rejectionCode: update.rejectionCode,
+            rejectionReason: update.rejectionReason,
+          } : {}),
+          ...(update.status === 'PAID' ? {
+            paidAt: update.paymentDate ? new Date(update.paymentDate) : now,
+            paidAmount: update.paidAmount,
+          } : {}),
+        },
+      });
+
+      await AuditService.logPrescriptionAction('CLAIM_STATUS_UPDATE', claim.prescriptionId, userId || 'SYSTEM', {
+        claimId: claim.id,
+        status: update.status,
+        previousStatus: claim.status,
+        rejectionReason: update.rejectionReason,
+        paidAmount: update.paidAmount,
+      });
+
+      changed++;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Reimbursement price per unit, taken from the matching inventory item
+   */
+  private async getUnitPrice(pharmacyId: string, prescription: Prescription): Promise<number> {
+    const medicationName = prescription.medicationCodeableConcept?.coding?.[0]?.display ||
+                           prescription.medicationReference?.display;
+    if (!medicationName) {
+      return 0;
+    }
+
+    const item = await tenantPrisma.inventoryItem.findFirst({
+      where: {
+        pharmacyId,
+        name: { contains: medicationName, mode: 'insensitive' },
+      },
+    });
+
+    return item?.unitPrice || 0;
+  }
+}
+
+export default new ClaimService();
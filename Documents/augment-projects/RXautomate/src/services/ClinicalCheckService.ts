@@ -0,0 +1,257 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService from './AuditService';
+import type { ValidationIssue, ValidationResult, ValidationSeverity } from './PrescriptionValidationService';
+
+export type ClinicalDecision = 'ACKNOWLEDGED' | 'OVERRIDDEN' | 'REJECTED';
+
+export type OverrideReasonCode =
+  | 'PRESCRIBER_CONFIRMED'
+  | 'PATIENT_STABILISED'
+  | 'MONITORING_IN_PLACE'
+  | 'SPECIALIST_RECOMMENDATION'
+  | 'INFORMATION_OUT_OF_DATE'
+  | 'OTHER';
+
+export const OVERRIDE_REASON_CODES: OverrideReasonCode[] = [
+  'PRESCRIBER_CONFIRMED',
+  'PATIENT_STABILISED',
+  'MONITORING_IN_PLACE',
+  'SPECIALIST_RECOMMENDATION',
+  'INFORMATION_OUT_OF_DATE',
+  'OTHER',
+];
+
+export interface IssueDecisionInput {
+  issueIndex: number;
+  decision: ClinicalDecision;
+  overrideReason?: OverrideReasonCode;
+  notes?: string;
+}
+
+export interface DispenseCheck {
+  allowed: boolean;
+  reason?: string;
+  clinicalCheckId?: string;
+}
+
+// Issues at these severities must be signed off before dispensing
+const SIGN_OFF_SEVERITIES: ValidationSeverity[] = ['HIGH', 'CRITICAL'];
+
+/**
+ * Check a set of decisions covers every issue and is internally consistent
+ * @param issues - The issues from the validation result
+ * @param decisions - The pharmacist's decisions
+ * @returns List of problems; empty when the decisions are complete
+ */
+export function validateDecisions(issues: ValidationIssue[], decisions: IssueDecisionInput[]): string[] {
+  const problems: string[] = [];
+
+  issues.forEach((issue, index) => {
+    const matching = decisions.filter(d => d.issueIndex === index);
+    if (matching.length === 0) {
+      problems.push(`Issue ${index + 1} (${issue.type}) has no decision`);
+    } else if (matching.length > 1) {
+      problems.push(`Issue ${index + 1} (${issue.type}) has more than one decision`);
+    }
+  });
+
+  decisions.forEach(decision => {
+    if (decision.issueIndex < 0 || decision.issueIndex >= issues.length) {
+      problems.push(`Decision refers to unknown issue ${decision.issueIndex + 1}`);
+    }
+    if (!['ACKNOWLEDGED', 'OVERRIDDEN', 'REJECTED'].includes(decision.decision)) {
+      problems.push(`Issue ${decision.issueIndex + 1}: invalid decision "${decision.decision}"`);
+    }
+    if (decision.decision === 'OVERRIDDEN') {
+      if (!decision.overrideReason || !OVERRIDE_REASON_CODES.includes(decision.overrideReason)) {
+        problems.push(`Issue ${decision.issueIndex + 1}: an override needs a reason code`);
+      } else if (decision.overrideReason === 'OTHER' && !decision.notes?.trim()) {
+        problems.push(`Issue ${decision.issueIndex + 1}: notes are required when the override reason is OTHER`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Service for recording the pharmacist's clinical check of a prescription
+ *
+ * Each validation run creates a pending check. A pharmacist then records a
+ * decision against every issue; dispensing is blocked while HIGH or CRITICAL
+ * issues are awaiting sign-off or the check was rejected.
+ */
+export class ClinicalCheckService {
+  /**
+   * Record a validation result as a pending clinical check
+   * @param pharmacyId - The pharmacy doing the check
+   * @param result - The validation result
+   * @param requestedById - The user who ran the validation
+   * @returns The clinical check record
+   */
+  async createCheck(pharmacyId: string, result: ValidationResult, requestedById?: string) {
+    try {
+      return await tenantPrisma.clinicalCheck.create({
+        data: {
+          prescriptionId: result.prescriptionId,
+          pharmacyId,
+          overallSeverity: result.severity,
+          issues: result.issues as any,
+          // Nothing to decide when the validator found no issues
+          status: result.issues.length === 0 ? 'SIGNED_OFF' : 'PENDING',
+          requestedById,
+        },
+      });
+    } catch (error) {
+      console.error('Error creating clinical check:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a user is a pharmacist at a pharmacy
+   * @param userId - The user ID
+   * @param pharmacyId - The pharmacy ID
+   * @returns True if the user holds the PHARMACIST role there
+   */
+  async isPharmacist(userId: string, pharmacyId: string): Promise<boolean> {
+    const membership = await tenantPrisma.userPharmacy.findUnique({
+      where: {
+        userId_pharmacyId: { userId, pharmacyId },
+      },
+    });
+
+    return membership?.role === 'PHARMACIST';
+  }
+
+  /**
+   * Sign off a clinical check with a decision for every issue
+   * @param clinicalCheckId - The clinical check ID
+   * @param pharmacistId - The pharmacist signing off
+   * @param decisions - One decision per issue
+   * @returns The updated clinical check with its decisions
+   */
+  async signOff(clinicalCheckId: string, pharmacistId: string, decisions: IssueDecisionInput[]) {
+    try {
+      const check = await tenantPrisma.clinicalCheck.findUnique({
+        where: { id: clinicalCheckId },
+      });
+
+      if (!check) {
+        throw new Error(`Clinical check ${clinicalCheckId} not found`);
+      }
+
+      if (check.status !== 'PENDING') {
+        throw new Error(`Clinical check ${clinicalCheckId} has already been ${check.status === 'REJECTED' ? 'rejected' : 'signed off'}`);
+      }
+
+      if (!(await this.isPharmacist(pharmacistId, check.pharmacyId))) {
+        throw new Error('Only a pharmacist can sign off a clinical check');
+      }
+
+      const issues = check.issues as unknown as ValidationIssue[];
+      const problems = validateDecisions(issues, decisions);
+      if (problems.length > 0) {
+        throw new Error(`Invalid clinical check decisions: ${problems.join('; ')}`);
+      }
+
+      const status = decisions.some(d => d.decision === 'REJECTED') ? 'REJECTED' : 'SIGNED_OFF';
+      const signedOffAt = new Date();
+
+      const updated = await tenantPrisma.$transaction(async (tx) => {
+        await tx.clinicalCheckDecision.createMany({
+          data: decisions.map(decision => ({
+            clinicalCheckId,
+            issueIndex: decision.issueIndex,
+            issueType: issues[decision.issueIndex].type,
+            issueSeverity: issues[decision.issueIndex].severity,
+            decision: decision.decision,
+            overrideReason: decision.decision === 'OVERRIDDEN' ? decision.overrideReason : null,
+            notes: decision.notes,
+            decidedById: pharmacistId,
+            decidedAt: signedOffAt,
+          })),
+        });
+
+        return tx.clinicalCheck.update({
+          where: { id: clinicalCheckId },
+          data: {
+            status,
+            signedOffById: pharmacistId,
+            signedOffAt,
+          },
+          include: { decisions: true },
+        });
+      });
+
+      await AuditService.logPrescriptionAction('CLINICAL_CHECK_SIGN_OFF', check.prescriptionId, pharmacistId, {
+        clinicalCheckId,
+        status,
+        decisions: decisions.map(d => ({
+          issueIndex: d.issueIndex,
+          decision: d.decision,
+          overrideReason: d.overrideReason,
+        })),
+      });
+
+      return updated;
+    } catch (error) {
+      console.error('Error signing off clinical check:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent clinical check for a prescription
+   * @param prescriptionId - The prescription ID
+   * @returns The clinical check with its decisions, or null if it was never validated
+   */
+  async getLatestCheck(prescriptionId: string) {
+    return tenantPrisma.clinicalCheck.findFirst({
+      where: { prescriptionId },
+      orderBy: { createdAt: 'desc' },
+      include: { decisions: true },
+    });
+  }
+
+  /**
+   * Decide whether a prescription may be dispensed
+   * Blocked when it was never validated, when the latest check was rejected,
+   * or when it has HIGH/CRITICAL issues that no pharmacist has signed off yet
+   * @param prescriptionId - The local prescription ID
+   * @returns Whether dispensing is allowed, and why not
+   */
+  async checkReadyToDispense(prescriptionId: string): Promise<DispenseCheck> {
+    const check = await this.getLatestCheck(prescriptionId);
+
+    if (!check) {
+      return {
+        allowed: false,
+        reason: 'The prescription has not been validated and clinically checked',
+      };
+    }
+
+    if (check.status === 'REJECTED') {
+      return {
+        allowed: false,
+        reason: 'The clinical check rejected this prescription',
+        clinicalCheckId: check.id,
+      };
+    }
+
+    const issues = check.issues as unknown as ValidationIssue[];
+    const needsSignOff = issues.some(issue => SIGN_OFF_SEVERITIES.includes(issue.severity));
+
+    if (needsSignOff && check.status !== 'SIGNED_OFF') {
+      return {
+        allowed: false,
+        reason: 'HIGH or CRITICAL validation issues need a pharmacist sign-off before dispensing',
+        clinicalCheckId: check.id,
+      };
+    }
+
+    return { allowed: true, clinicalCheckId: check.id };
+  }
+}
+
+export default new ClinicalCheckService();
@@ -0,0 +1,636 @@
+import crypto from 'crypto';
+import { addDays, addYears } from 'date-fns';
+import { runAsSystem, runWithTenant, tenantPrisma } from '@/lib/db/tenant';
+import {
+  CONSENT_LINK_EXPIRY_DAYS,
+  consentLinkUrl,
+  createConsentLinkToken,
+  verifyConsentLinkToken,
+} from '@/lib/consent-link';
+import AuditService from './AuditService';
+import MessagingService, { isDispatched, MessageChannel } from './MessagingService';
+import type { ConsentType } from './OutboundPolicyService';
+
+export type ConsentCaptureMethod = 'IN_PERSON' | 'WEB' | 'SMS_LINK';
+
+export type ConsentStatus =
+  | 'NONE'              // Never asked
+  | 'GIVEN'
+  | 'WITHDRAWN'
+  | 'EXPIRED'
+  | 'RECONSENT_NEEDED'; // Given, but to wording that has since changed
+
+export const CONSENT_TYPES: ConsentType[] = ['MARKETING', 'REMINDER', 'DATA_SHARING', 'VACCINATION'];
+
+// How long consent lasts when no expiry date is given
+export const DEFAULT_CONSENT_YEARS = 2;
+
+export const PATIENT_SEARCH_LIMIT = 25;
+
+export interface NoticeContent {
+  title: string;
+  text: string;
+}
+
+// The wording each organisation starts with, published as version 1 the first time it's needed
+export const DEFAULT_CONSENT_NOTICES: Record<ConsentType, NoticeContent> = {
+  MARKETING: {
+    title: 'Marketing Communications',
+    text: 'I consent to receive marketing communications about products, services, and health information from the pharmacy.',
+  },
+  REMINDER: {
+    title: 'Prescription & Appointment Reminders',
+    text: 'I consent to receive SMS and email reminders about my prescriptions and appointments.',
+  },
+  DATA_SHARING: {
+    title: 'Data Sharing with NHS & Healthcare Providers',
+    text: 'I consent to my data being shared with NHS services and other healthcare providers for the purpose of my care.',
+  },
+  VACCINATION: {
+    title: 'Vaccination Campaigns',
+    text: 'I consent to being contacted about vaccination campaigns that I may be eligible for.',
+  },
+};
+
+/**
+ * A patient's answer for one type of consent
+ */
+export interface ConsentChoice {
+  consentType: ConsentType;
+  given: boolean;
+  noticeId: string; // The notice version the patient was shown
+  expiryDate?: Date | string | null;
+}
+
+/**
+ * Where a patient stands on one type of consent
+ * Consent given to wording that has since changed still counts, but the
+ * patient should be asked again.
+ * @param latest - The patient's latest consent of the type
+ * @param notice - The current notice for the type
+ * @param now - The time to check expiry against
+ * @returns The status
+ */
+export function consentStatus(
+  latest: { consentGiven: boolean; expiryDate?: Date | string | null; noticeId?: string | null } | null | undefined,
+  notice: { id: string } | null | undefined,
+  now: Date = new Date()
+): ConsentStatus {
+  if (!latest) {
+    return 'NONE';
+  }
+  if (!latest.consentGiven) {
+    return 'WITHDRAWN';
+  }
+  if (latest.expiryDate && new Date(latest.expiryDate) <= now) {
+    return 'EXPIRED';
+  }
+  if (!notice || latest.noticeId !== notice.id) {
+    return 'RECONSENT_NEEDED';
+  }
+  return 'GIVEN';
+}
+
+/**
+ * How consent given through a link was captured
+ * @param channel - The channel the link was sent on; null if it was handed over
+ * @returns SMS_LINK for links sent by SMS, otherwise WEB
+ */
+export function captureMethodFor(channel?: MessageChannel | null): ConsentCaptureMethod {
+  return channel === 'SMS' ? 'SMS_LINK' : 'WEB';
+}
+
+// A consent link is answered without a session, in the tenant of the pharmacy that sent it
+function linkTenant(link: { pharmacyId: string; pharmacy: { organizationId: string } }) {
+  return { pharmacyId: link.pharmacyId, organizationId: link.pharmacy.organizationId };
+}
+
+/**
+ * Service for patients' consent and the notices they consent to
+ *
+ * Each organisation publishes a notice per consent type; every consent
+ * records the notice version the patient answered and how it was captured.
+ * Patients answer in person, or themselves through a signed one-time link.
+ * Publishing new wording leaves existing consents in force but marks them
+ * for re-consent, and re-consent links can be sent to those patients.
+ */
+export class ConsentService {
+  /**
+   * The notice in force for each consent type, publishing the defaults where there is none
+   * @param organizationId - The organisation
+   * @returns One notice per type, in CONSENT_TYPES order
+   */
+  async getCurrentNotices(organizationId: string) {
+    let notices = await this.latestNotices(organizationId);
+
+    const missing = CONSENT_TYPES.filter(type => !notices.some((notice: any) => notice.consentType === type));
+    if (missing.length > 0) {
+      // Another request may publish the defaults at the same time; the unique version makes that harmless
+      await tenantPrisma.consentNotice.createMany({
+        data: missing.map(consentType => ({ organizationId, consentType, version: 1, ...DEFAULT_CONSENT_NOTICES[consentType] })),
+        skipDuplicates: true,
+      });
+      notices = await this.latestNotices(organizationId);
+    }
+
+    return CONSENT_TYPES.map(type => notices.find((notice: any) => notice.consentType === type)!);
+  }
+
+  /**
+   * Every published version, newest first within each type
+   * @param organizationId - The organisation
+   * @returns The notices
+   */
+  async getNoticeHistory(organizationId: string) {
+    await this.getCurrentNotices(organizationId);
+
+    return tenantPrisma.consentNotice.findMany({
+      where: { organizationId },
+      orderBy: [{ consentType: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  /**
+   * Publish new wording for a consent type as its next version
+   * @param organizationId - The organisation
+   * @param consentType - The consent type
+   * @param content - The title and text
+   * @param userId - Who published it
+   * @returns The new notice
+   */
+  async publishNotice(organizationId: string, consentType: ConsentType, content: NoticeContent, userId: string) {
+    if (!CONSENT_TYPES.includes(consentType)) {
+      throw new Error(`Unknown consent type: ${consentType}`);
+    }
+
+    const title = content.title?.trim();
+    const text = content.text?.trim();
+    if (!title || !text) {
+      throw new Error('A notice needs a title and text');
+    }
+
+    const current = (await this.getCurrentNotices(organizationId)).find((notice: any) => notice.consentType === consentType);
+    if (current.title === title && current.text === text) {
+      throw new Error('The wording hasn\'t changed');
+    }
+
+    const notice = await tenantPrisma.consentNotice.create({
+      data: { organizationId, consentType, version: current.version + 1, title, text, publishedById: userId },
+    });
+
+    await AuditService.logAction({
+      action: 'CONSENT_NOTICE_PUBLISHED',
+      category: 'SYSTEM',
+      userId,
+      details: { organizationId, consentType, version: notice.version },
+    });
+
+    return notice;
+  }
+
+  /**
+   * Find the pharmacy's patients by NHS number or name
+   * @param pharmacyId - The pharmacy
+   * @param search - An NHS number, or words from the patient's name
+   * @returns Up to PATIENT_SEARCH_LIMIT patients
+   */
+  async searchPatients(pharmacyId: string, search: string) {
+    const term = (search || '').trim();
+    if (term.length < 2) {
+      return [];
+    }
+
+    const words = term.split(/\s+/);
+
+    return tenantPrisma.patient.findMany({
+      where: {
+        pharmacyId,
+        erasedAt: null,
+        OR: [
+          { nhsNumber: term.replace(/\s/g, '') },
+          {
+            AND: words.map(word => ({
+              OR: [
+                { firstName: { contains: word, mode: 'insensitive' } },
+                { lastName: { contains: word, mode: 'insensitive' } },
+              ],
+            })),
+          },
+        ],
+      },
+      select: { id: true, firstName: true, lastName: true, nhsNumber: true, dateOfBirth: true },
+      orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+      take: PATIENT_SEARCH_LIMIT,
+    });
+  }
+
+  /**
+   * A patient's consents against the current notices
+   * @param patientId - The patient
+   * @param pharmacyId - The pharmacy they belong to
+   * @returns Per consent type the current notice, the latest consent and its status; and every consent recorded
+   */
+  async getPatientConsents(patientId: string, pharmacyId: string) {
+    const patient = await this.findPatient(patientId, pharmacyId);
+    const notices = await this.getCurrentNotices(patient.pharmacy.organizationId);
+
+    const history = await tenantPrisma.consent.findMany({
+      where: { patientId },
+      include: { notice: { select: { version: true, title: true } } },
+      orderBy: { consentDate: 'desc' },
+    });
+
+    const now = new Date();
+
+    return {
+      patient: { id: patient.id, firstName: patient.firstName, lastName: patient.lastName, nhsNumber: patient.nhsNumber },
+      consents: notices.map((notice: any) => {
+        const latest = history.find((consent: any) => consent.consentType === notice.consentType) || null;
+        return { consentType: notice.consentType, notice, latest, status: consentStatus(latest, notice, now) };
+      }),
+      history,
+    };
+  }
+
+  /**
+   * Record the answers a patient gave in person
+   * @param patientId - The patient
+   * @param pharmacyId - The pharmacy they belong to
+   * @param choices - Their answers, each against the notice they were shown
+   * @param userId - The staff member recording them
+   * @returns The consents recorded
+   */
+  async recordInPerson(patientId: string, pharmacyId: string, choices: ConsentChoice[], userId: string) {
+    const patient = await this.findPatient(patientId, pharmacyId);
+    const notices = await this.getCurrentNotices(patient.pharmacy.organizationId);
+    const rows = this.consentRows(patient.id, pharmacyId, choices, notices, CONSENT_TYPES, new Date());
+
+    const consents = await tenantPrisma.$transaction(async (tx: any) => {
+      const created = [];
+      for (const row of rows) {
+        created.push(await tx.consent.create({ data: { ...row, captureMethod: 'IN_PERSON', recordedById: userId } }));
+      }
+      return created;
+    });
+
+    await this.auditRecorded(patient.id, rows, notices, 'IN_PERSON', { userId });
+
+    return consents;
+  }
+
+  /**
+   * Create a one-time link for the patient to answer themselves, and optionally message it to them
+   * @param patientId - The patient
+   * @param pharmacyId - The pharmacy they belong to
+   * @param userId - The staff member creating it
+   * @param options - The consent types to ask about (all by default), and whether to send it
+   * @returns The link, its address, and the message if one was sent
+   */
+  async createLink(
+    patientId: string,
+    pharmacyId: string,
+    userId: string,
+    options: { consentTypes?: ConsentType[]; send?: boolean } = {}
+  ) {
+    const patient = await this.findPatient(patientId, pharmacyId);
+
+    const consentTypes = options.consentTypes?.length ? Array.from(new Set(options.consentTypes)) : CONSENT_TYPES;
+    const unknown = consentTypes.filter(type => !CONSENT_TYPES.includes(type));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown consent type: ${unknown.join(', ')}`);
+    }
+
+    // Signed before it's saved, so a missing secret doesn't leave an unusable link behind
+    const id = crypto.randomUUID();
+    const expiresAt = addDays(new Date(), CONSENT_LINK_EXPIRY_DAYS);
+    const url = consentLinkUrl(createConsentLinkToken({ linkId: id, expiresAt }));
+
+    let link = await tenantPrisma.consentLink.create({
+      data: { id, patientId: patient.id, pharmacyId, consentTypes, expiresAt, createdById: userId },
+    });
+
+    let message = null;
+    if (options.send) {
+      message = await MessagingService.sendConsentRequest(patient, patient.pharmacy, { url, expiresAt }, userId);
+
+      if (isDispatched(message)) {
+        link = await tenantPrisma.consentLink.update({
+          where: { id },
+          data: { channel: message.channel, messageId: message.id },
+        });
+      }
+    }
+
+    await AuditService.logPatientAction('CONSENT_LINK_CREATED', patient.id, userId, {
+      linkId: id,
+      consentTypes,
+      channel: link.channel || null,
+    });
+
+    return { link, url, message };
+  }
+
+  /**
+   * How many patients to ask again for each consent type, because its wording has changed
+   * @param pharmacyId - The pharmacy
+   * @returns Per consent type the current notice and the number of patients
+   */
+  async getReconsentSummary(pharmacyId: string) {
+    const notices = await this.getCurrentNotices(await this.organizationOf(pharmacyId));
+
+    return Promise.all(notices.map(async (notice: any) => ({
+      consentType: notice.consentType,
+      notice,
+      patients: (await this.patientsToAskAgain(pharmacyId, notice)).length,
+    })));
+  }
+
+  /**
+   * Send a consent link to each patient whose consent is to wording that has since changed
+   * Patients already sent a link for the current wording that they haven't used are skipped.
+   * @param pharmacyId - The pharmacy
+   * @param consentType - The consent type
+   * @param userId - The staff member sending them
+   * @returns How many were sent, couldn't be sent and were skipped
+   */
+  async sendReconsentLinks(pharmacyId: string, consentType: ConsentType, userId: string) {
+    if (!CONSENT_TYPES.includes(consentType)) {
+      throw new Error(`Unknown consent type: ${consentType}`);
+    }
+
+    const notices = await this.getCurrentNotices(await this.organizationOf(pharmacyId));
+    const notice = notices.find((current: any) => current.consentType === consentType);
+    const patientIds = await this.patientsToAskAgain(pharmacyId, notice);
+
+    const pending = await tenantPrisma.consentLink.findMany({
+      where: {
+        pharmacyId,
+        patientId: { in: patientIds },
+        consentTypes: { has: consentType },
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+        createdAt: { gte: notice.publishedAt },
+      },
+      select: { patientId: true },
+    });
+    const alreadyAsked = new Set(pending.map((link: any) => link.patientId));
+
+    let sent = 0;
+    let notSent = 0;
+
+    for (const patientId of patientIds.filter(id => !alreadyAsked.has(id))) {
+      const { message } = await this.createLink(patientId, pharmacyId, userId, { consentTypes: [consentType], send: true });
+      if (isDispatched(message)) {
+        sent++;
+      } else {
+        notSent++;
+      }
+    }
+
+    return { sent, notSent, alreadyAsked: alreadyAsked.size };
+  }
+
+  /**
+   * What a consent link asks, for the patient consent page
+   * Only the patient's first name is shown, in case the link reaches someone else.
+   * @param token - The token from the link
+   * @returns The pharmacy, the notices and the patient's current answers; null if the link can't be used
+   */
+  async getLink(token: string) {
+    const link = await this.findUsableLink(token);
+    if (!link) {
+      return null;
+    }
+
+    return runWithTenant(linkTenant(link), async () => {
+      const notices = (await this.getCurrentNotices(link.pharmacy.organizationId))
+        .filter((notice: any) => link.consentTypes.includes(notice.consentType));
+
+      const latest = await tenantPrisma.consent.findMany({
+        where: { patientId: link.patientId, consentType: { in: link.consentTypes } },
+        orderBy: { consentDate: 'desc' },
+        distinct: ['consentType'],
+      });
+
+      const now = new Date();
+
+      return {
+        pharmacyName: link.pharmacy.name,
+        firstName: link.patient.firstName,
+        expiresAt: link.expiresAt,
+        notices: notices.map((notice: any) => {
+          const consent = latest.find((current: any) => current.consentType === notice.consentType);
+          const status = consentStatus(consent, notice, now);
+
+          return {
+            consentType: notice.consentType,
+            noticeId: notice.id,
+            version: notice.version,
+            title: notice.title,
+            text: notice.text,
+            given: status === 'NONE' || status === 'EXPIRED' ? null : consent.consentGiven,
+            wordingChanged: status === 'RECONSENT_NEEDED',
+          };
+        }),
+      };
+    });
+  }
+
+  /**
+   * Record the patient's answers through a consent link, which then stops working
+   * @param token - The token from the link
+   * @param choices - Their answers, each against the notice they were shown
+   * @returns How many answers were recorded
+   */
+  async submitLink(token: string, choices: ConsentChoice[]) {
+    const link = await this.findUsableLink(token);
+    if (!link) {
+      throw new Error('This link is invalid, has expired or has already been used');
+    }
+
+    return runWithTenant(linkTenant(link), async () => {
+      const notices = await this.getCurrentNotices(link.pharmacy.organizationId);
+      const now = new Date();
+
+      // Patients answering for themselves get the standard expiry
+      const rows = this.consentRows(
+        link.patientId,
+        link.pharmacyId,
+        (choices || []).map(({ consentType, given, noticeId }) => ({ consentType, given, noticeId })),
+        notices,
+        link.consentTypes,
+        now
+      );
+      const captureMethod = captureMethodFor(link.channel);
+
+      await tenantPrisma.$transaction(async (tx: any) => {
+        // Claimed first, so the same link submitted twice at once only records once
+        const claimed = await tx.consentLink.updateMany({ where: { id: link.id, usedAt: null }, data: { usedAt: now } });
+        if (claimed.count === 0) {
+          throw new Error('This link has already been used');
+        }
+
+        for (const row of rows) {
+          await tx.consent.create({ data: { ...row, captureMethod, consentLinkId: link.id } });
+        }
+      });
+
+      await this.auditRecorded(link.patientId, rows, notices, captureMethod, {
+        organizationId: link.pharmacy.organizationId,
+        consentLinkId: link.id,
+      });
+
+      return { recorded: rows.length };
+    });
+  }
+
+  /**
+   * The highest version of each consent type the organisation has published
+   */
+  private async latestNotices(organizationId: string) {
+    return tenantPrisma.consentNotice.findMany({
+      where: { organizationId },
+      orderBy: [{ consentType: 'asc' }, { version: 'desc' }],
+      distinct: ['consentType'],
+    });
+  }
+
+  /**
+   * Check answers against the current notices and turn them into Consent rows
+   */
+  private consentRows(
+    patientId: string,
+    pharmacyId: string,
+    choices: ConsentChoice[],
+    notices: any[],
+    allowedTypes: ConsentType[],
+    now: Date
+  ) {
+    if (!Array.isArray(choices) || choices.length === 0) {
+      throw new Error('No answers given');
+    }
+
+    const seen = new Set<ConsentType>();
+
+    return choices.map(choice => {
+      if (!allowedTypes.includes(choice.consentType)) {
+        throw new Error(`Not asked about ${choice.consentType}`);
+      }
+      if (seen.has(choice.consentType)) {
+        throw new Error(`More than one answer for ${choice.consentType}`);
+      }
+      seen.add(choice.consentType);
+
+      const notice = notices.find(current => current.consentType === choice.consentType);
+      if (!notice || choice.noticeId !== notice.id) {
+        throw new Error(`The wording of "${notice?.title || choice.consentType}" has changed; show the new wording and ask again`);
+      }
+
+      let expiryDate: Date | null = null;
+      if (choice.given) {
+        expiryDate = choice.expiryDate ? new Date(choice.expiryDate) : addYears(now, DEFAULT_CONSENT_YEARS);
+        if (isNaN(expiryDate.getTime()) || expiryDate <= now) {
+          throw new Error('Consent must be valid until a date in the future');
+        }
+      }
+
+      return {
+        consentType: choice.consentType,
+        consentGiven: Boolean(choice.given),
+        consentDate: now,
+        expiryDate,
+        patientId,
+        pharmacyId,
+        noticeId: notice.id,
+      };
+    });
+  }
+
+  private async auditRecorded(
+    patientId: string,
+    rows: { consentType: ConsentType; consentGiven: boolean; noticeId: string }[],
+    notices: any[],
+    captureMethod: ConsentCaptureMethod,
+    context: { userId?: string; organizationId?: string; consentLinkId?: string }
+  ) {
+    await AuditService.logAction({
+      action: 'CONSENT_RECORDED',
+      category: 'PATIENT',
+      patientId,
+      userId: context.userId,
+      // Link answers have no user to find the organisation from
+      ...(context.organizationId ? { organizationId: context.organizationId } : {}),
+      details: {
+        captureMethod,
+        consentLinkId: context.consentLinkId,
+        answers: rows.map(row => ({
+          consentType: row.consentType,
+          given: row.consentGiven,
+          noticeVersion: notices.find(notice => notice.id === row.noticeId)?.version,
+        })),
+      },
+    });
+  }
+
+  /**
+   * Patients whose latest consent of the notice's type was given to earlier wording
+   */
+  private async patientsToAskAgain(pharmacyId: string, notice: any): Promise<string[]> {
+    const latest = await tenantPrisma.consent.findMany({
+      where: { pharmacyId, consentType: notice.consentType, patient: { erasedAt: null } },
+      orderBy: { consentDate: 'desc' },
+      distinct: ['patientId'],
+      select: { patientId: true, consentGiven: true, expiryDate: true, noticeId: true },
+    });
+
+    const now = new Date();
+    return latest
+      .filter((consent: any) => consentStatus(consent, notice, now) === 'RECONSENT_NEEDED')
+      .map((consent: any) => consent.patientId);
+  }
+
+  private async findPatient(patientId: string, pharmacyId: string) {
+    const patient = await tenantPrisma.patient.findUnique({
+      where: { id: patientId },
+      include: { pharmacy: { select: { id: true, name: true, phoneNumber: true, organizationId: true } } },
+    });
+
+    if (!patient || patient.pharmacyId !== pharmacyId || patient.erasedAt) {
+      throw new Error('Patient not found');
+    }
+
+    return patient;
+  }
+
+  private async findUsableLink(token: string) {
+    const claims = verifyConsentLinkToken(token);
+    if (!claims) {
+      return null;
+    }
+
+    // The patient has no session; the signed token says which pharmacy's link it is
+    const link = await runAsSystem(() => tenantPrisma.consentLink.findUnique({
+      where: { id: claims.linkId },
+      include: {
+        patient: { select: { firstName: true, erasedAt: true } },
+        pharmacy: { select: { name: true, organizationId: true } },
+      },
+    }));
+
+    if (!link || link.usedAt || link.expiresAt <= new Date() || link.patient.erasedAt) {
+      return null;
+    }
+
+    return link;
+  }
+
+  private async organizationOf(pharmacyId: string): Promise<string> {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({ where: { id: pharmacyId }, select: { organizationId: true } });
+    if (!pharmacy) {
+      throw new Error('Pharmacy not found');
+    }
+    return pharmacy.organizationId;
+  }
+}
+
+export default new ConsentService();
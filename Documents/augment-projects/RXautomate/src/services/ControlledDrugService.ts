@@ -0,0 +1,452 @@
+import { Prisma } from '@prisma/client';
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService from './AuditService';
+
+export type ControlledDrugSchedule = 'SCHEDULE_2' | 'SCHEDULE_3';
+
+export type ControlledDrugEntryType =
+  | 'OPENING_BALANCE'
+  | 'RECEIPT'
+  | 'SUPPLY'
+  | 'DESTRUCTION'
+  | 'DISCREPANCY'
+  | 'CORRECTION';
+
+export interface ControlledDrugProduct {
+  drugName: string;
+  strength: string;
+  form: string;
+  schedule: ControlledDrugSchedule;
+  inventoryItemId?: string;
+}
+
+export interface SupplyEntryInput {
+  quantity: number;
+  patientId?: string;
+  patientReference?: string;
+  patientName: string;
+  prescriberName: string;
+  prescriberAddress?: string;
+  prescriptionId?: string;
+  collectedBy?: string;
+  recordedById: string;
+}
+
+export interface ReceiptEntryInput {
+  quantity: number;
+  supplierName: string;
+  invoiceNumber: string;
+  wholesalerOrderId?: string;
+  recordedById: string;
+}
+
+export interface DestructionEntryInput {
+  quantity: number;
+  witnessName: string;
+  witnessRole: string;
+  reason: string;
+  recordedById: string;
+}
+
+export interface ReconciliationInput {
+  countedBalance: number;
+  reason?: string;
+  recordedById: string;
+}
+
+export interface CorrectionEntryInput {
+  correctsEntryId: string;
+  quantity: number;
+  reason: string;
+  recordedById: string;
+}
+
+// Balance and sequence are always derived by the service, never passed in
+interface EntryDetails {
+  patientId?: string;
+  patientReference?: string;
+  patientName?: string;
+  prescriberName?: string;
+  prescriberAddress?: string;
+  prescriptionId?: string;
+  collectedBy?: string;
+  supplierName?: string;
+  invoiceNumber?: string;
+  wholesalerOrderId?: string;
+  witnessName?: string;
+  witnessRole?: string;
+  reason?: string;
+  countedBalance?: number;
+  correctsEntryId?: string;
+}
+
+/**
+ * Calculate the running balance after applying a signed quantity
+ * @param previousBalance - Balance before the entry
+ * @param quantity - Signed change to the balance
+ * @returns The new balance
+ * @throws If the entry would take the balance below zero
+ */
+export function calculateRunningBalance(previousBalance: number, quantity: number): number {
+  if (!Number.isInteger(quantity)) {
+    throw new Error('Controlled drug quantities must be whole units');
+  }
+
+  const balance = previousBalance + quantity;
+  if (balance < 0) {
+    throw new Error(`Entry of ${quantity} would leave a negative balance (current balance ${previousBalance})`);
+  }
+
+  return balance;
+}
+
+/**
+ * A register that doesn't exist, or isn't the current pharmacy's
+ */
+export class ControlledDrugRegisterNotFoundError extends Error {
+  constructor(registerId: string) {
+    super(`Controlled drug register ${registerId} not found`);
+    this.name = 'ControlledDrugRegisterNotFoundError';
+  }
+}
+
+/**
+ * Service for maintaining the electronic Controlled Drugs register
+ *
+ * Register entries are append-only: the service exposes no way to update or
+ * delete an entry. Mistakes are annotated with a CORRECTION entry that refers
+ * back to the original, mirroring how a paper register is kept.
+ */
+export class ControlledDrugService {
+  /**
+   * Open a new register for a product
+   * @param pharmacyId - The pharmacy that owns the register
+   * @param product - The drug, strength and form the register covers
+   * @param openingBalance - Stock held when the register is opened
+   * @param recordedById - The user opening the register
+   * @returns The register record
+   */
+  async openRegister(
+    pharmacyId: string,
+    product: ControlledDrugProduct,
+    openingBalance: number,
+    recordedById: string
+  ) {
+    const existing = await tenantPrisma.controlledDrugRegister.findUnique({
+      where: {
+        pharmacyId_drugName_strength_form: {
+          pharmacyId,
+          drugName: product.drugName,
+          strength: product.strength,
+          form: product.form,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new Error(`A register for ${product.drugName} ${product.strength} ${product.form} already exists`);
+    }
+
+    const register = await tenantPrisma.controlledDrugRegister.create({
+      data: {
+        pharmacyId,
+        drugName: product.drugName,
+        strength: product.strength,
+        form: product.form,
+        schedule: product.schedule,
+        inventoryItemId: product.inventoryItemId,
+      },
+    });
+
+    await this.appendEntry(register.id, 'OPENING_BALANCE', openingBalance, recordedById, {});
+
+    return this.getRegister(register.id);
+  }
+
+  /**
+   * Get the register linked to an inventory item
+   * @param inventoryItemId - The inventory item ID
+   * @returns The register record, or null if the item has no register
+   */
+  async findRegisterForInventoryItem(inventoryItemId: string) {
+    return tenantPrisma.controlledDrugRegister.findUnique({
+      where: { inventoryItemId },
+    });
+  }
+
+  /**
+   * Record a supply against a prescription
+   * @param registerId - The register ID
+   * @param input - Supply details
+   * @param tx - A transaction to write the entry in, so it commits with the stock change
+   * @returns The created register entry
+   */
+  async recordSupply(registerId: string, input: SupplyEntryInput, tx?: Prisma.TransactionClient) {
+    this.assertPositiveQuantity(input.quantity);
+
+    return this.appendEntry(registerId, 'SUPPLY', -input.quantity, input.recordedById, {
+      patientId: input.patientId,
+      patientReference: input.patientReference,
+      patientName: input.patientName,
+      prescriberName: input.prescriberName,
+      prescriberAddress: input.prescriberAddress,
+      prescriptionId: input.prescriptionId,
+      collectedBy: input.collectedBy,
+    }, tx);
+  }
+
+  /**
+   * Record stock received from a wholesaler
+   * @param registerId - The register ID
+   * @param input - Receipt details
+   * @param tx - A transaction to write the entry in, so it commits with the stock change
+   * @returns The created register entry
+   */
+  async recordReceipt(registerId: string, input: ReceiptEntryInput, tx?: Prisma.TransactionClient) {
+    this.assertPositiveQuantity(input.quantity);
+
+    if (!input.supplierName || !input.invoiceNumber) {
+      throw new Error('Supplier name and invoice number are required for a receipt');
+    }
+
+    return this.appendEntry(registerId, 'RECEIPT', input.quantity, input.recordedById, {
+      supplierName: input.supplierName,
+      invoiceNumber: input.invoiceNumber,
+      wholesalerOrderId: input.wholesalerOrderId,
+    }, tx);
+  }
+
+  /**
+   * Record the witnessed destruction of stock
+   * @param registerId - The register ID
+   * @param input - Destruction details, including the authorised witness
+   * @returns The created register entry
+   */
+  async recordDestruction(registerId: string, input: DestructionEntryInput) {
+    this.assertPositiveQuantity(input.quantity);
+
+    if (!input.witnessName || !input.witnessRole) {
+      throw new Error('Destruction must be witnessed by an authorised person');
+    }
+
+    return this.appendEntry(registerId, 'DESTRUCTION', -input.quantity, input.recordedById, {
+      witnessName: input.witnessName,
+      witnessRole: input.witnessRole,
+      reason: input.reason,
+    });
+  }
+
+  /**
+   * Reconcile the register balance against a physical stock count
+   * A DISCREPANCY entry is only written when the count differs from the balance
+   * @param registerId - The register ID
+   * @param input - The physical count and an explanation for any difference
+   * @returns The reconciliation outcome and the entry written, if any
+   */
+  async reconcile(registerId: string, input: ReconciliationInput) {
+    if (!Number.isInteger(input.countedBalance) || input.countedBalance < 0) {
+      throw new Error('Counted balance must be a whole number of units');
+    }
+
+    // The balance is read and the entry written in one transaction, and the entry
+    // must bring the balance to the count, so a supply made meanwhile can't be
+    // folded into the discrepancy
+    const outcome = await tenantPrisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const register = await tx.controlledDrugRegister.findUnique({ where: { id: registerId } });
+      if (!register) {
+        throw new ControlledDrugRegisterNotFoundError(registerId);
+      }
+
+      const difference = input.countedBalance - register.currentBalance;
+      if (difference === 0) {
+        return { balance: register.currentBalance, difference, entry: null };
+      }
+
+      if (!input.reason) {
+        throw new Error('A reason is required to reconcile a discrepancy');
+      }
+
+      const entry = await this.appendEntry(registerId, 'DISCREPANCY', difference, input.recordedById, {
+        reason: input.reason,
+        countedBalance: input.countedBalance,
+      }, tx);
+
+      if (entry.balanceAfter !== input.countedBalance) {
+        throw new Error('The register balance changed during the count; count again');
+      }
+
+      return { balance: register.currentBalance, difference, entry };
+    });
+
+    if (!outcome.entry) {
+      await AuditService.logSystemEvent('CONTROLLED_DRUG_BALANCE_CHECK', {
+        registerId,
+        balance: outcome.balance,
+        recordedById: input.recordedById,
+      });
+    }
+
+    return { balanced: !outcome.entry, difference: outcome.difference, entry: outcome.entry };
+  }
+
+  /**
+   * Annotate an earlier entry that was made in error
+   * @param registerId - The register ID
+   * @param input - The entry being corrected and the balancing quantity
+   * @returns The created correction entry
+   */
+  async recordCorrection(registerId: string, input: CorrectionEntryInput) {
+    if (!input.reason) {
+      throw new Error('A reason is required for a correction');
+    }
+
+    const original = await tenantPrisma.controlledDrugEntry.findFirst({
+      where: { id: input.correctsEntryId, registerId },
+    });
+
+    if (!original) {
+      throw new Error(`Entry ${input.correctsEntryId} not found in register ${registerId}`);
+    }
+
+    return this.appendEntry(registerId, 'CORRECTION', input.quantity, input.recordedById, {
+      correctsEntryId: input.correctsEntryId,
+      reason: input.reason,
+    });
+  }
+
+  /**
+   * Get a register by ID
+   * @param registerId - The register ID
+   * @returns The register record
+   */
+  async getRegister(registerId: string) {
+    const register = await tenantPrisma.controlledDrugRegister.findUnique({
+      where: { id: registerId },
+    });
+
+    if (!register) {
+      throw new ControlledDrugRegisterNotFoundError(registerId);
+    }
+
+    return register;
+  }
+
+  /**
+   * Get all registers for a pharmacy
+   * @param pharmacyId - The pharmacy ID
+   * @returns Registers ordered by drug name
+   */
+  async getRegisters(pharmacyId: string) {
+    return tenantPrisma.controlledDrugRegister.findMany({
+      where: { pharmacyId },
+      orderBy: [{ drugName: 'asc' }, { strength: 'asc' }],
+    });
+  }
+
+  /**
+   * Get the entries in a register
+   * @param registerId - The register ID
+   * @param from - Optional start date
+   * @param to - Optional end date
+   * @returns Entries in the order they were made
+   */
+  async getEntries(registerId: string, from?: Date, to?: Date) {
+    const recordedAt: Record<string, Date> = {};
+    if (from) recordedAt.gte = from;
+    if (to) recordedAt.lte = to;
+
+    return tenantPrisma.controlledDrugEntry.findMany({
+      where: {
+        registerId,
+        ...(from || to ? { recordedAt } : {}),
+      },
+      orderBy: { sequence: 'asc' },
+    });
+  }
+
+  /**
+   * Append an entry to a register and move its running balance
+   * The read of the previous balance and the write happen in one transaction
+   * so concurrent entries can't produce the same sequence number. The caller's
+   * transaction is used when given.
+   */
+  private async appendEntry(
+    registerId: string,
+    entryType: ControlledDrugEntryType,
+    quantity: number,
+    recordedById: string,
+    details: EntryDetails,
+    tx?: Prisma.TransactionClient
+  ) {
+    const entry = tx
+      ? await this.writeEntry(tx, registerId, entryType, quantity, recordedById, details)
+      : await tenantPrisma.$transaction((tx: Prisma.TransactionClient) =>
+          this.writeEntry(tx, registerId, entryType, quantity, recordedById, details)
+        );
+
+    await AuditService.logSystemEvent('CONTROLLED_DRUG_ENTRY', {
+      registerId,
+      entryId: entry.id,
+      entryType,
+      quantity,
+      balanceAfter: entry.balanceAfter,
+      recordedById,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Write the entry and the register's new balance with the given transaction
+   */
+  private async writeEntry(
+    tx: Prisma.TransactionClient,
+    registerId: string,
+    entryType: ControlledDrugEntryType,
+    quantity: number,
+    recordedById: string,
+    details: EntryDetails
+  ) {
+    const register = await tx.controlledDrugRegister.findUnique({
+      where: { id: registerId },
+    });
+
+    if (!register) {
+      throw new ControlledDrugRegisterNotFoundError(registerId);
+    }
+
+    const lastEntry = await tx.controlledDrugEntry.findFirst({
+      where: { registerId },
+      orderBy: { sequence: 'desc' },
+    });
+
+    const balanceAfter = calculateRunningBalance(register.currentBalance, quantity);
+
+    const created = await tx.controlledDrugEntry.create({
+      data: {
+        registerId,
+        sequence: (lastEntry?.sequence ?? 0) + 1,
+        entryType,
+        quantity,
+        balanceAfter,
+        recordedById,
+        ...details,
+      },
+    });
+
+    await tx.controlledDrugRegister.update({
+      where: { id: registerId },
+      data: { currentBalance: balanceAfter },
+    });
+
+    return created;
+  }
+
+  private assertPositiveQuantity(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Quantity must be a positive whole number');
+    }
+  }
+}
+
+export default new ControlledDrugService();
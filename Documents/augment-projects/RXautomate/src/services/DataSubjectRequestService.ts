@@ -0,0 +1,743 @@
+import { addMonths } from 'date-fns';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { PdfLine, textPdf } from '@/lib/pdf';
+import AuditService from './AuditService';
+
+export type DataSubjectRequestType = 'ACCESS' | 'ERASURE' | 'RECTIFICATION';
+export type DataSubjectRequestStatus = 'RECEIVED' | 'IN_PROGRESS' | 'COMPLETED' | 'REFUSED';
+
+export const DATA_SUBJECT_REQUEST_TYPES: DataSubjectRequestType[] = ['ACCESS', 'ERASURE', 'RECTIFICATION'];
+export const DATA_SUBJECT_REQUEST_STATUSES: DataSubjectRequestStatus[] = ['RECEIVED', 'IN_PROGRESS', 'COMPLETED', 'REFUSED'];
+export const OPEN_STATUSES: DataSubjectRequestStatus[] = ['RECEIVED', 'IN_PROGRESS'];
+
+// UK GDPR Article 12(3): one month, extendable by two more for complex or numerous requests
+export const RESPONSE_MONTHS = 1;
+export const EXTENDED_RESPONSE_MONTHS = 3;
+
+export interface CreateDataSubjectRequestInput {
+  type: DataSubjectRequestType;
+  patientId?: string;
+  nhsNumber?: string; // Finds the patient when patientId isn't known
+  requesterName?: string;
+  details?: string;
+  receivedAt?: Date | string;
+}
+
+// Patient details a rectification request can correct
+export const RECTIFIABLE_FIELDS = [
+  'title',
+  'firstName',
+  'lastName',
+  'dateOfBirth',
+  'address',
+  'postcode',
+  'phoneNumber',
+  'email',
+] as const;
+
+export type PatientCorrections = Partial<Record<(typeof RECTIFIABLE_FIELDS)[number], string | null>>;
+
+export type ErasureAction = 'delete' | 'anonymise' | 'retain';
+
+export type ErasureCategory =
+  | 'consents'
+  | 'appointments'
+  | 'adherence'
+  | 'notifications'
+  | 'messages'
+  | 'prescriptions'
+  | 'controlledDrugEntries'
+  | 'auditLog';
+
+export interface ErasureRule {
+  action: ErasureAction;
+  reason: string;
+}
+
+/**
+ * What an erasure request does to each kind of patient data
+ * The right to erasure doesn't reach records the pharmacy is required by law
+ * to keep, so those are retained and the patient record they refer to is
+ * anonymised instead of deleted. The reasons are given to the patient.
+ */
+export const ERASURE_POLICY: Record<ErasureCategory, ErasureRule> = {
+  consents: { action: 'delete', reason: 'Only needed while the pharmacy is in contact with the patient' },
+  appointments: { action: 'delete', reason: 'Vaccinations given are recorded with the patient\'s GP' },
+  adherence: { action: 'delete', reason: 'Worked out from dispensing records; not a record in its own right' },
+  notifications: { action: 'delete', reason: 'Reminders already sent; not a clinical record' },
+  messages: { action: 'anonymise', reason: 'Kept as a record that a message was sent; the recipient and wording are removed' },
+  prescriptions: { action: 'retain', reason: 'Dispensing records must be kept for the NHS records retention period' },
+  controlledDrugEntries: { action: 'retain', reason: 'Controlled drug registers must be kept for two years from the last entry (Misuse of Drugs Regulations 2001)' },
+  auditLog: { action: 'retain', reason: 'The record of who accessed the patient\'s data is kept to show it was handled lawfully' },
+};
+
+/**
+ * The patient fields an erasure clears
+ * The date of birth is cut back to the year separately, so retained
+ * dispensing records still show an age.
+ */
+export const ERASED_PATIENT = {
+  nhsNumber: null,
+  title: null,
+  firstName: 'Erased',
+  lastName: 'Patient',
+  address: '',
+  postcode: '',
+  phoneNumber: null,
+  email: null,
+  exemptionStatus: null,
+  exemptionEndDate: null,
+  weightKg: null,
+  weightRecordedAt: null,
+  egfr: null,
+  egfrRecordedAt: null,
+  preferredChannel: null,
+  isActive: false,
+};
+
+/**
+ * When a request must be answered by
+ * A month runs to the same date in the next month, or the month's last day
+ * if it has no such date. A deadline on a weekend moves to the Monday; bank
+ * holidays aren't known here, so check those by hand.
+ * @param receivedAt - When the request was received
+ * @param extended - Whether the deadline has been extended
+ * @returns The due date
+ */
+export function statutoryDueDate(receivedAt: Date, extended = false): Date {
+  const due = addMonths(receivedAt, extended ? EXTENDED_RESPONSE_MONTHS : RESPONSE_MONTHS);
+
+  while (due.getDay() === 0 || due.getDay() === 6) {
+    due.setDate(due.getDate() + 1);
+  }
+
+  return due;
+}
+
+/**
+ * Whether an open request has gone past its due date
+ * @param request - The request's status and due date
+ * @param now - The time to compare with
+ * @returns True if it's overdue
+ */
+export function isOverdue(request: { status: string; dueAt: Date }, now: Date = new Date()): boolean {
+  return OPEN_STATUSES.includes(request.status as DataSubjectRequestStatus) && request.dueAt < now;
+}
+
+const SECTION_TITLES: Record<string, string> = {
+  patient: 'Your details',
+  prescriptions: 'Prescriptions',
+  consents: 'Consents',
+  appointments: 'Appointments',
+  adherence: 'How you take your medicines',
+  notifications: 'Reminders',
+  messages: 'Messages sent to you',
+  accessLog: 'Who has accessed your record',
+};
+
+function fieldLabel(key: string): string {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === '') {
+    return '-';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return String(value);
+}
+
+function valueLines(value: any, indent = ''): string[] {
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? [`${indent}None`]
+      : value.flatMap((item, i) => [...(i > 0 ? [''] : []), ...valueLines(item, indent)]);
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.entries(value).flatMap(([key, field]) =>
+      field && typeof field === 'object' && !(field instanceof Date)
+        ? [`${indent}${fieldLabel(key)}:`, ...valueLines(field, `${indent}    `)]
+        : [`${indent}${fieldLabel(key)}: ${formatValue(field)}`]
+    );
+  }
+
+  return [`${indent}${formatValue(value)}`];
+}
+
+/**
+ * Lay a subject access bundle out as lines for the PDF copy
+ * @param bundle - The bundle from buildExport
+ * @returns The lines, with a heading for each section
+ */
+export function exportToPdfLines(bundle: Record<string, any>): PdfLine[] {
+  const lines: PdfLine[] = [
+    { text: `Your data held by ${bundle.pharmacy?.name || 'the pharmacy'}`, heading: true },
+    `Produced ${formatValue(bundle.generatedAt)} for request ${bundle.request?.id}, received ${formatValue(bundle.request?.receivedAt)}`,
+    '',
+  ];
+
+  for (const [section, title] of Object.entries(SECTION_TITLES)) {
+    if (bundle[section] !== undefined) {
+      lines.push({ text: title, heading: true }, ...valueLines(bundle[section]), '');
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Service for patients' UK GDPR requests: subject access, erasure and rectification
+ *
+ * Requests are logged with their statutory due date. Nothing is released,
+ * erased or changed until someone has checked the requester's identity.
+ */
+export class DataSubjectRequestService {
+  /**
+   * List the pharmacy's requests, soonest due first
+   * @param pharmacyId - The pharmacy
+   * @param status - Only requests with this status; 'OPEN' for those not yet answered
+   * @returns The requests, with the patient and whether each is overdue
+   */
+  async getRequests(pharmacyId: string, status?: DataSubjectRequestStatus | 'OPEN') {
+    const requests = await tenantPrisma.dataSubjectRequest.findMany({
+      where: {
+        pharmacyId,
+        ...(status === 'OPEN' ? { status: { in: OPEN_STATUSES } } : status ? { status } : {}),
+      },
+      include: { patient: { select: { id: true, firstName: true, lastName: true, nhsNumber: true, erasedAt: true } } },
+      orderBy: { dueAt: 'asc' },
+    });
+
+    const now = new Date();
+    return requests.map((request: any) => ({ ...request, overdue: isOverdue(request, now) }));
+  }
+
+  /**
+   * Log a request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param input - The request
+   * @param userId - The user logging it
+   * @returns The request
+   */
+  async createRequest(pharmacyId: string, input: CreateDataSubjectRequestInput, userId: string) {
+    if (!DATA_SUBJECT_REQUEST_TYPES.includes(input.type)) {
+      throw new Error(`Unknown request type: ${input.type}`);
+    }
+
+    const receivedAt = input.receivedAt ? new Date(input.receivedAt) : new Date();
+    if (isNaN(receivedAt.getTime()) || receivedAt > new Date()) {
+      throw new Error('The date received must be a date that has passed');
+    }
+
+    const nhsNumber = (input.nhsNumber || '').replace(/\s/g, '');
+    const patient = input.patientId
+      ? await tenantPrisma.patient.findUnique({ where: { id: input.patientId } })
+      : nhsNumber
+        ? await tenantPrisma.patient.findUnique({ where: { pharmacyId_nhsNumber: { pharmacyId, nhsNumber } } })
+        : null;
+
+    if (!patient || patient.pharmacyId !== pharmacyId) {
+      throw new Error('Patient not found');
+    }
+    if (patient.erasedAt) {
+      throw new Error('This patient\'s data has already been erased');
+    }
+
+    const request = await tenantPrisma.dataSubjectRequest.create({
+      data: {
+        type: input.type,
+        patientId: patient.id,
+        pharmacyId,
+        requesterName: input.requesterName?.trim() || null,
+        details: input.details?.trim() || null,
+        receivedAt,
+        dueAt: statutoryDueDate(receivedAt),
+        createdById: userId,
+      },
+    });
+
+    await AuditService.logPatientAction('DATA_SUBJECT_REQUEST_LOGGED', patient.id, userId, {
+      requestId: request.id,
+      type: request.type,
+      dueAt: request.dueAt,
+    });
+
+    return request;
+  }
+
+  /**
+   * Record that the requester has shown who they are, and start work on the request
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param userId - The user who checked
+   * @returns The request
+   */
+  async verifyIdentity(requestId: string, pharmacyId: string, userId: string) {
+    const request = await this.findOpenRequest(requestId, pharmacyId);
+
+    if (request.identityVerifiedAt) {
+      throw new Error('The requester\'s identity has already been checked');
+    }
+
+    const updated = await tenantPrisma.dataSubjectRequest.update({
+      where: { id: request.id },
+      data: { status: 'IN_PROGRESS', identityVerifiedAt: new Date(), identityVerifiedById: userId },
+    });
+
+    await AuditService.logPatientAction('DATA_SUBJECT_IDENTITY_VERIFIED', request.patientId, userId, { requestId: request.id });
+
+    return updated;
+  }
+
+  /**
+   * Extend the deadline by two months for a complex request
+   * The patient must be told why within the first month.
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param reason - Why more time is needed
+   * @param userId - The user extending it
+   * @returns The request
+   */
+  async extendRequest(requestId: string, pharmacyId: string, reason: string, userId: string) {
+    const request = await this.findOpenRequest(requestId, pharmacyId);
+
+    if (request.extendedAt) {
+      throw new Error('This request has already been extended');
+    }
+    if (!reason?.trim()) {
+      throw new Error('Give the reason the request needs more time');
+    }
+    if (request.dueAt < new Date()) {
+      throw new Error('The deadline has passed; it can only be extended before it is due');
+    }
+
+    const updated = await tenantPrisma.dataSubjectRequest.update({
+      where: { id: request.id },
+      data: {
+        extendedAt: new Date(),
+        extensionReason: reason.trim(),
+        dueAt: statutoryDueDate(request.receivedAt, true),
+      },
+    });
+
+    await AuditService.logPatientAction('DATA_SUBJECT_REQUEST_EXTENDED', request.patientId, userId, {
+      requestId: request.id,
+      dueAt: updated.dueAt,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Refuse a request, e.g. one that is manifestly unfounded or whose requester can't be identified
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param reason - Why, as told to the patient
+   * @param userId - The user refusing it
+   * @returns The request
+   */
+  async refuseRequest(requestId: string, pharmacyId: string, reason: string, userId: string) {
+    const request = await this.findOpenRequest(requestId, pharmacyId);
+
+    if (!reason?.trim()) {
+      throw new Error('Give the reason the request is refused');
+    }
+
+    return this.close(request, 'REFUSED', reason.trim(), userId, 'DATA_SUBJECT_REQUEST_REFUSED');
+  }
+
+  /**
+   * Gather everything held about the patient for a subject access request
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param userId - The user producing it
+   * @returns The bundle, ready to send as JSON or lay out with exportToPdfLines
+   */
+  async buildExport(requestId: string, pharmacyId: string, userId: string) {
+    const request = await this.findRequest(requestId, pharmacyId);
+
+    if (request.type !== 'ACCESS') {
+      throw new Error('Only subject access requests have a data export');
+    }
+    if (request.status === 'REFUSED') {
+      throw new Error('This request was refused');
+    }
+    if (!request.identityVerifiedAt) {
+      throw new Error('Check the requester\'s identity before releasing their data');
+    }
+    if (!request.patientId) {
+      throw new Error('The patient\'s record no longer exists');
+    }
+
+    const patientId = request.patientId;
+
+    const [patient, prescriptions, consents, appointments, adherence, notifications, messages] = await Promise.all([
+      tenantPrisma.patient.findUnique({
+        where: { id: patientId },
+        select: {
+          id: true,
+          nhsNumber: true,
+          title: true,
+          firstName: true,
+          lastName: true,
+          dateOfBirth: true,
+          address: true,
+          postcode: true,
+          phoneNumber: true,
+          email: true,
+          exemptionStatus: true,
+          exemptionEndDate: true,
+          weightKg: true,
+          weightRecordedAt: true,
+          egfr: true,
+          egfrRecordedAt: true,
+          preferredChannel: true,
+          createdAt: true,
+          updatedAt: true,
+          pharmacy: { select: { name: true, address: true, postcode: true, email: true } },
+        },
+      }),
+      tenantPrisma.prescription.findMany({
+        where: { patientId },
+        select: {
+          id: true,
+          prescriptionType: true,
+          prescriptionNumber: true,
+          issuedDate: true,
+          expiryDate: true,
+          status: true,
+          items: { select: { medicationName: true, dosage: true, quantity: true, instructions: true } },
+        },
+        orderBy: { issuedDate: 'asc' },
+      }),
+      tenantPrisma.consent.findMany({
+        where: { patientId },
+        select: {
+          consentType: true,
+          consentGiven: true,
+          consentDate: true,
+          expiryDate: true,
+          captureMethod: true,
+          notice: { select: { version: true, title: true, text: true } },
+        },
+        orderBy: { consentDate: 'asc' },
+      }),
+      tenantPrisma.appointment.findMany({
+        where: { patientId },
+        select: { appointmentType: true, date: true, status: true, notes: true },
+        orderBy: { date: 'asc' },
+      }),
+      tenantPrisma.patientAdherence.findUnique({
+        where: { patientId },
+        select: {
+          adherenceScore: true,
+          status: true,
+          trend: true,
+          lastCalculated: true,
+          medicationAdherence: { select: { medicationName: true, adherenceScore: true, status: true, lastFilled: true, nextDue: true } },
+          interventions: { select: { type: true, notes: true, date: true } },
+        },
+      }),
+      tenantPrisma.patientNotification.findMany({
+        where: { patientId },
+        select: { type: true, details: true, sentAt: true },
+        orderBy: { sentAt: 'asc' },
+      }),
+      tenantPrisma.patientMessage.findMany({
+        where: { patientId },
+        select: { purpose: true, channel: true, status: true, recipient: true, subject: true, body: true, sentAt: true, deliveredAt: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    if (!patient) {
+      throw new Error('The patient\'s record no longer exists');
+    }
+
+    const prescriptionIds = prescriptions.map((prescription: any) => prescription.id);
+    const accessLog = await tenantPrisma.auditLog.findMany({
+      where: {
+        OR: [
+          { patientId },
+          ...(prescriptionIds.length > 0 ? [{ prescriptionId: { in: prescriptionIds } }] : []),
+        ],
+      },
+      select: { timestamp: true, action: true, category: true, userId: true },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    // Patients are told who looked at their record by name and role, not by internal ID
+    const userIds = Array.from(new Set(accessLog.map((entry: any) => entry.userId).filter(Boolean))) as string[];
+    const users = userIds.length > 0
+      ? await tenantPrisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true, role: true } })
+      : [];
+    const userNames = new Map(users.map((user: any) => [user.id, `${user.name || 'Unnamed user'} (${user.role})`]));
+
+    const { pharmacy, ...patientDetails } = patient;
+
+    const bundle = {
+      generatedAt: new Date(),
+      request: { id: request.id, receivedAt: request.receivedAt },
+      pharmacy,
+      patient: patientDetails,
+      prescriptions,
+      consents,
+      appointments,
+      adherence,
+      notifications,
+      messages,
+      accessLog: accessLog.map((entry: any) => ({
+        timestamp: entry.timestamp,
+        action: entry.action,
+        category: entry.category,
+        by: entry.userId ? userNames.get(entry.userId) || 'System' : 'System',
+      })),
+    };
+
+    await tenantPrisma.dataSubjectRequest.update({ where: { id: request.id }, data: { exportedAt: bundle.generatedAt } });
+
+    await AuditService.logPatientAction('DATA_SUBJECT_EXPORT_GENERATED', patientId, userId, { requestId: request.id });
+
+    return bundle;
+  }
+
+  /**
+   * The subject access bundle as a PDF
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param userId - The user producing it
+   * @returns The PDF file
+   */
+  async buildExportPdf(requestId: string, pharmacyId: string, userId: string): Promise<Buffer> {
+    return textPdf(exportToPdfLines(await this.buildExport(requestId, pharmacyId, userId)));
+  }
+
+  /**
+   * Close a subject access request once the patient has been sent their data
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param outcome - How and when it was sent
+   * @param userId - The user closing it
+   * @returns The request
+   */
+  async completeAccessRequest(requestId: string, pharmacyId: string, outcome: string, userId: string) {
+    const request = await this.findOpenRequest(requestId, pharmacyId, 'ACCESS');
+
+    if (!request.exportedAt) {
+      throw new Error('Produce the patient\'s data before closing the request');
+    }
+
+    return this.close(request, 'COMPLETED', outcome?.trim() || 'Data sent to the patient', userId, 'DATA_SUBJECT_REQUEST_COMPLETED');
+  }
+
+  /**
+   * Correct the patient's details and close a rectification request
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param corrections - The corrected details
+   * @param outcome - What was done, as told to the patient
+   * @param userId - The user making the corrections
+   * @returns The request
+   */
+  async rectify(requestId: string, pharmacyId: string, corrections: PatientCorrections, outcome: string, userId: string) {
+    const request = await this.findOpenRequest(requestId, pharmacyId, 'RECTIFICATION');
+
+    const data: Record<string, any> = {};
+    for (const [field, value] of Object.entries(corrections || {})) {
+      if (!RECTIFIABLE_FIELDS.includes(field as any)) {
+        throw new Error(`${field} can't be corrected here`);
+      }
+      data[field] = typeof value === 'string' ? value.trim() : value;
+    }
+
+    if (data.dateOfBirth !== undefined) {
+      data.dateOfBirth = new Date(data.dateOfBirth);
+      if (isNaN(data.dateOfBirth.getTime())) {
+        throw new Error('Invalid date of birth');
+      }
+    }
+    for (const required of ['firstName', 'lastName', 'address', 'postcode']) {
+      if (required in data && !data[required]) {
+        throw new Error(`${fieldLabel(required)} can't be blank`);
+      }
+    }
+
+    if (Object.keys(data).length > 0) {
+      await tenantPrisma.patient.update({ where: { id: request.patientId }, data });
+
+      // Which fields changed, not what to: the audit log mustn't hold the patient's details
+      await AuditService.logPatientAction('PATIENT_RECORD_RECTIFIED', request.patientId, userId, {
+        requestId: request.id,
+        fields: Object.keys(data),
+      });
+    }
+
+    const summary = Object.keys(data).length > 0
+      ? `Corrected: ${Object.keys(data).map(fieldLabel).join(', ')}`
+      : 'No changes were needed';
+
+    return this.close(request, 'COMPLETED', outcome?.trim() || summary, userId, 'DATA_SUBJECT_REQUEST_COMPLETED');
+  }
+
+  /**
+   * Erase the patient's data as ERASURE_POLICY says, and close the request
+   * The patient record itself is deleted only if no retained record still
+   * refers to it; otherwise its identifying details are removed.
+   * @param requestId - The request
+   * @param pharmacyId - The pharmacy it was made to
+   * @param outcome - Anything to add for the patient
+   * @param userId - The user carrying out the erasure
+   * @returns The request, with its erasure summary
+   */
+  async erase(requestId: string, pharmacyId: string, outcome: string | undefined, userId: string) {
+    const request = await this.findOpenRequest(requestId, pharmacyId, 'ERASURE');
+    const patientId = request.patientId;
+
+    const patient = await tenantPrisma.patient.findUnique({ where: { id: patientId } });
+    if (!patient) {
+      throw new Error('The patient\'s record no longer exists');
+    }
+
+    const [prescriptions, controlledDrugEntries, auditLog] = await Promise.all([
+      tenantPrisma.prescription.count({ where: { patientId } }),
+      tenantPrisma.controlledDrugEntry.count({ where: { patientId } }),
+      tenantPrisma.auditLog.count({ where: { patientId } }),
+    ]);
+
+    const erasedAt = new Date();
+
+    const result = await tenantPrisma.$transaction(async (tx: any) => {
+      const counts: Record<ErasureCategory, number> = {
+        // Links are deleted with the consents given through them
+        consents: (await tx.consent.deleteMany({ where: { patientId } })).count
+          + (await tx.consentLink.deleteMany({ where: { patientId } })).count,
+        appointments: (await tx.appointment.deleteMany({ where: { patientId } })).count,
+        adherence: (await tx.medicationAdherence.deleteMany({ where: { patientId } })).count
+          + (await tx.adherenceIntervention.deleteMany({ where: { patientId } })).count
+          + (await tx.patientAdherence.deleteMany({ where: { patientId } })).count,
+        notifications: (await tx.patientNotification.deleteMany({ where: { patientId } })).count,
+        messages: (await tx.patientMessage.updateMany({
+          where: { patientId },
+          data: { recipient: null, subject: null, body: null, personalisation: '{}' },
+        })).count,
+        prescriptions,
+        controlledDrugEntries,
+        auditLog,
+      };
+
+      // Anonymised messages still point at the patient, as retained records do
+      const keepPatient = prescriptions > 0 || controlledDrugEntries > 0 || counts.messages > 0;
+
+      if (keepPatient) {
+        await tx.patient.update({
+          where: { id: patientId },
+          data: {
+            ...ERASED_PATIENT,
+            dateOfBirth: new Date(Date.UTC(patient.dateOfBirth.getUTCFullYear(), 0, 1)),
+            erasedAt,
+          },
+        });
+      } else {
+        await tx.patient.delete({ where: { id: patientId } });
+      }
+
+      const summary = {
+        erasedAt,
+        patient: keepPatient
+          ? { action: 'anonymise', reason: 'Identifying details removed; the record is kept because retained records refer to it' }
+          : { action: 'delete', reason: 'Nothing that must be kept refers to it' },
+        categories: (Object.keys(ERASURE_POLICY) as ErasureCategory[]).map(category => ({
+          category,
+          ...ERASURE_POLICY[category],
+          count: counts[category],
+        })),
+      };
+
+      const closed = await tx.dataSubjectRequest.update({
+        where: { id: request.id },
+        data: {
+          status: 'COMPLETED',
+          erasureSummary: JSON.stringify(summary),
+          outcome: outcome?.trim() || (keepPatient ? 'Data erased; records the law requires us to keep were retained' : 'Data erased'),
+          closedAt: erasedAt,
+          closedById: userId,
+        },
+      });
+
+      return { request: closed, summary };
+    });
+
+    await AuditService.logPatientAction('PATIENT_DATA_ERASED', patientId, userId, {
+      requestId: request.id,
+      patient: result.summary.patient.action,
+      counts: Object.fromEntries(result.summary.categories.map(({ category, count }) => [category, count])),
+    });
+
+    return result;
+  }
+
+  private async findRequest(requestId: string, pharmacyId: string) {
+    const request = await tenantPrisma.dataSubjectRequest.findUnique({ where: { id: requestId } });
+
+    if (!request || request.pharmacyId !== pharmacyId) {
+      throw new Error('Request not found');
+    }
+
+    return request;
+  }
+
+  /**
+   * A request that hasn't been answered yet
+   * Requests that change or release data also need the requester's identity checked.
+   */
+  private async findOpenRequest(requestId: string, pharmacyId: string, type?: DataSubjectRequestType) {
+    const request = await this.findRequest(requestId, pharmacyId);
+
+    if (!OPEN_STATUSES.includes(request.status)) {
+      throw new Error('This request has already been closed');
+    }
+    if (type && request.type !== type) {
+      throw new Error(`This is ${request.type === 'ACCESS' ? 'an' : 'a'} ${request.type.toLowerCase()} request`);
+    }
+    if (type && !request.identityVerifiedAt) {
+      throw new Error('Check the requester\'s identity first');
+    }
+    if (type && !request.patientId) {
+      throw new Error('The patient\'s record no longer exists');
+    }
+
+    return request;
+  }
+
+  private async close(
+    request: { id: string; patientId: string | null },
+    status: DataSubjectRequestStatus,
+    outcome: string,
+    userId: string,
+    action: 'DATA_SUBJECT_REQUEST_COMPLETED' | 'DATA_SUBJECT_REQUEST_REFUSED'
+  ) {
+    const updated = await tenantPrisma.dataSubjectRequest.update({
+      where: { id: request.id },
+      data: { status, outcome, closedAt: new Date(), closedById: userId },
+    });
+
+    await AuditService.logAction({
+      action,
+      category: 'PATIENT',
+      patientId: request.patientId || undefined,
+      userId,
+      details: { requestId: request.id, status },
+    });
+
+    return updated;
+  }
+}
+
+export default new DataSubjectRequestService();
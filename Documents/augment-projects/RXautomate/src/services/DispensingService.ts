@@ -0,0 +1,249 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import ClaimService, { CreateClaimInput } from './ClaimService';
+import ClinicalCheckService from './ClinicalCheckService';
+import EPSService, { Prescription } from './EPSService';
+import InventoryPrescriptionService from './InventoryPrescriptionService';
+import OwingService from './OwingService';
+import PrescriptionEventService from './PrescriptionEventService';
+import RepeatDispensingService from './RepeatDispensingService';
+
+/**
+ * A dispense refused before anything was sent to EPS
+ */
+export class DispenseBlockedError extends Error {
+  statusCode: number;
+  details: Record<string, any>;
+
+  constructor(message: string, statusCode = 400, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'DispenseBlockedError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+export interface DispenseInput {
+  pharmacyId?: string | null;
+  pharmacyOdsCode?: string | null; // What the client thinks it is; must match the selected pharmacy's
+  userId: string;
+  claim?: CreateClaimInput;
+  allowPartial?: boolean; // Supply what's in stock and owe the balance
+  promisedDate?: Date; // For the owing, when partially dispensed
+  now?: Date;
+}
+
+/**
+ * Dispensing service
+ *
+ * The one pipeline every dispense goes through, whether a single prescription,
+ * a batch or an eRD issue: clinical check sign-off, the repeat schedule, stock,
+ * the CD register, the Dispense Notification, stock deduction, the repeat
+ * issue, terminal updates and the NHSBSA claim.
+ */
+export class DispensingService {
+  /**
+   * Dispense a prescription in EPS
+   * @param prescriptionId - The prescription's EPS ID
+   * @param input - Pharmacy, user and claim details
+   * @returns The dispensed prescription, what changed locally and the claim outcome
+   * @throws DispenseBlockedError if a check refuses the dispense; nothing has been sent to EPS
+   */
+  async dispense(prescriptionId: string, input: DispenseInput) {
+    const now = input.now || new Date();
+
+    // EPS records the dispense against this ODS code
+    const pharmacyOdsCode = await this.resolvePharmacyOdsCode(input.pharmacyId, input.pharmacyOdsCode);
+
+    // Clinical checks are kept against the local prescription the sync created
+    const localPrescription = await tenantPrisma.prescription.findUnique({
+      where: { epsPrescriptionId: prescriptionId },
+      select: { id: true },
+    });
+
+    if (!localPrescription) {
+      throw new DispenseBlockedError(
+        `Prescription ${prescriptionId} has not been synced to this pharmacy, so it has no clinical check`,
+        409
+      );
+    }
+
+    // HIGH/CRITICAL validation issues must be signed off by a pharmacist first
+    const dispenseCheck = await ClinicalCheckService.checkReadyToDispense(localPrescription.id);
+    if (!dispenseCheck.allowed) {
+      throw new DispenseBlockedError(dispenseCheck.reason || 'The clinical check is not complete', 409, {
+        clinicalCheckId: dispenseCheck.clinicalCheckId,
+      });
+    }
+
+    // An eRD prescription can only supply its next issue, once that issue is due
+    let repeatIssue;
+    try {
+      repeatIssue = await RepeatDispensingService.getDispensableIssue(prescriptionId, input.pharmacyId, now);
+    } catch (error: any) {
+      throw new DispenseBlockedError(error.message, 409);
+    }
+
+    const prescription = await EPSService.getPrescription(prescriptionId);
+
+    const stockCheckResult = await InventoryPrescriptionService.checkPrescriptionStock(prescription);
+    const shortItems = stockCheckResult.items.filter(item => !item.inStock);
+
+    // Every short item needs a stock line to owe the balance against
+    if (input.allowPartial && shortItems.length > 0 && shortItems.every(item => item.inventoryItemId) && input.pharmacyId) {
+      let partialPrescription = prescription;
+      const inventoryUpdates = [];
+      const owings = [];
+
+      // Supply what's in stock of each short item and owe the rest; the claim waits until the owings are fulfilled
+      for (const item of shortItems) {
+        const partial = await OwingService.dispensePartially(prescription, {
+          pharmacyId: input.pharmacyId,
+          pharmacyOdsCode,
+          inventoryItemId: item.inventoryItemId!,
+          currentStock: item.currentStock,
+          promisedDate: input.promisedDate,
+          userId: input.userId,
+        });
+
+        partialPrescription = partial.prescription;
+        owings.push(partial.owing);
+        if (partial.inventoryUpdate) {
+          inventoryUpdates.push(partial.inventoryUpdate);
+        }
+      }
+
+      const repeat = await this.recordRepeatIssue(repeatIssue, input.userId, now);
+
+      // Update every open terminal
+      await PrescriptionEventService.publishStatusChange(input.pharmacyId, partialPrescription, prescription.status);
+
+      return {
+        prescription: partialPrescription,
+        inventoryUpdates,
+        owings,
+        ...repeat,
+      };
+    }
+
+    if (input.allowPartial ? !stockCheckResult.allInStock : stockCheckResult.anyOutOfStock) {
+      throw new DispenseBlockedError('Some items are out of stock', 400, { stockCheckResult });
+    }
+
+    // A controlled drug's register must be able to take the supply before EPS records it
+    try {
+      await InventoryPrescriptionService.checkControlledDrugSupply(prescription);
+    } catch (error: any) {
+      throw new DispenseBlockedError(error.message, 400);
+    }
+
+    // Release the prescription and send the Dispense Notification
+    const updatedPrescription = await EPSService.dispensePrescription(prescriptionId, pharmacyOdsCode);
+
+    const inventoryUpdate = await InventoryPrescriptionService.updateInventoryAfterDispensing(updatedPrescription, input.userId);
+
+    const repeat = await this.recordRepeatIssue(repeatIssue, input.userId, now);
+
+    // Update every open terminal
+    await PrescriptionEventService.publishStatusChange(input.pharmacyId, updatedPrescription, prescription.status);
+
+    return {
+      prescription: updatedPrescription,
+      inventoryUpdate,
+      ...repeat,
+      ...(await this.recordClaim(prescription, input)),
+    };
+  }
+
+  /**
+   * The ODS code to act as in EPS: the selected pharmacy's, never one the client picked
+   * @param pharmacyId - The user's selected pharmacy
+   * @param requested - The ODS code the client sent, if any
+   * @returns The selected pharmacy's ODS code
+   * @throws DispenseBlockedError if no pharmacy is selected, it has no ODS code or the client sent another
+   */
+  async resolvePharmacyOdsCode(pharmacyId?: string | null, requested?: string | null): Promise<string> {
+    if (!pharmacyId) {
+      throw new DispenseBlockedError('No pharmacy selected', 400);
+    }
+
+    const pharmacyOdsCode = await PrescriptionEventService.getPharmacyOdsCode(pharmacyId);
+    if (!pharmacyOdsCode) {
+      throw new DispenseBlockedError('The selected pharmacy has no ODS code', 400);
+    }
+
+    if (requested && requested.toUpperCase() !== pharmacyOdsCode.toUpperCase()) {
+      throw new DispenseBlockedError(`Prescriptions can only be dispensed as the selected pharmacy (${pharmacyOdsCode})`, 403);
+    }
+
+    return pharmacyOdsCode;
+  }
+
+  /**
+   * Dispense an eRD issue from the repeat dispensing queue
+   * @param issueId - The repeat issue ID
+   * @param input - Pharmacy, user and claim details
+   * @returns As dispense
+   * @throws DispenseBlockedError if the issue can't be dispensed yet
+   */
+  async dispenseRepeatIssue(issueId: string, input: DispenseInput) {
+    let issue;
+    try {
+      issue = await RepeatDispensingService.getOpenIssue(issueId, input.pharmacyId);
+    } catch (error: any) {
+      throw new DispenseBlockedError(error.message, 409);
+    }
+
+    const { epsPrescriptionId } = issue.schedule.prescription;
+    if (!epsPrescriptionId) {
+      throw new DispenseBlockedError('This repeat prescription is not in EPS, so it cannot be dispensed here', 409);
+    }
+
+    return this.dispense(epsPrescriptionId, input);
+  }
+
+  /**
+   * Mark the eRD issue dispensed and schedule the next one
+   * The prescription is already dispensed in EPS, so a failure is returned
+   * alongside the result instead of failing the dispense
+   */
+  private async recordRepeatIssue(
+    issue: Awaited<ReturnType<typeof RepeatDispensingService.getDispensableIssue>>,
+    userId: string,
+    now: Date
+  ) {
+    if (!issue) {
+      return {};
+    }
+
+    try {
+      return { repeatIssue: await RepeatDispensingService.recordIssueDispensed(issue, userId, now) };
+    } catch (error: any) {
+      console.error(`Error recording repeat issue ${issue.id} dispensed:`, error);
+      return { repeatIssueError: error.message };
+    }
+  }
+
+  /**
+   * Record the NHSBSA claim for a dispensed prescription
+   * A failure is returned alongside the result, as for the repeat issue
+   */
+  private async recordClaim(prescription: Prescription, input: DispenseInput) {
+    try {
+      if (!input.pharmacyId) {
+        throw new Error('No pharmacy selected');
+      }
+
+      const claim = await ClaimService.createClaim(input.pharmacyId, prescription, {
+        ...input.claim,
+        userId: input.userId,
+      });
+
+      return { claimId: claim.id };
+    } catch (error: any) {
+      console.error(`Error recording claim for prescription ${prescription.id}:`, error);
+      return { claimError: error.message };
+    }
+  }
+}
+
+export default new DispensingService();
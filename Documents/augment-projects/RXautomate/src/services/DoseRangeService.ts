@@ -0,0 +1,378 @@
+import { Prescription } from './EPSService';
+import { DrugKnowledgeBaseService, DoseRuleInput } from './DrugKnowledgeBaseService';
+import type { ValidationSeverity } from './PrescriptionValidationService';
+
+export type DosageInstruction = NonNullable<Prescription['dosageInstruction']>[number];
+
+export interface DailyDose {
+  dailyDoseMg: number;
+  maxSingleDoseMg: number;
+  dosesPerDay: number;
+}
+
+export interface DosePatientContext {
+  ageYears?: number;
+  weightKg?: number;
+  egfr?: number;
+}
+
+export interface DoseCheckResult {
+  isAppropriate: boolean;
+  severity: ValidationSeverity;
+  description: string;
+  calculatedDailyDoseMg?: number;
+}
+
+// Number of days covered by one FHIR timing period unit
+const PERIOD_UNIT_DAYS: Record<string, number> = {
+  min: 1 / 1440,
+  h: 1 / 24,
+  d: 1,
+  wk: 7,
+  mo: 30,
+  a: 365,
+};
+
+// Conversion of mass units to mg
+const MASS_UNIT_MG: Record<string, number> = {
+  g: 1000,
+  mg: 1,
+  mcg: 0.001,
+  microgram: 0.001,
+  micrograms: 0.001,
+  ug: 0.001,
+};
+
+// Free-text frequencies used on prescription labels
+// Ordered so that "twice daily" is matched before "daily"
+const TEXT_FREQUENCIES: Array<{ pattern: RegExp; frequency: number; period: number; periodUnit: string }> = [
+  { pattern: /\b(four times (a|per) day|four times daily|qds|qid)\b/, frequency: 4, period: 1, periodUnit: 'd' },
+  { pattern: /\b(three times (a|per) day|three times daily|tds|tid)\b/, frequency: 3, period: 1, periodUnit: 'd' },
+  { pattern: /\b(twice (a|per) day|twice daily|bd|bid)\b/, frequency: 2, period: 1, periodUnit: 'd' },
+  { pattern: /\bevery (\d+) hours?\b/, frequency: 1, period: 0, periodUnit: 'h' },
+  { pattern: /\b(once (a|per) week|weekly)\b/, frequency: 1, period: 1, periodUnit: 'wk' },
+  { pattern: /\b(once (a|per) day|once daily|daily|od|at night|in the morning|nocte|mane)\b/, frequency: 1, period: 1, periodUnit: 'd' },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  half: 0.5, one: 1, two: 2, three: 3, four: 4,
+};
+
+/**
+ * Parse the strength of a medication from its name
+ * e.g. "Amoxicillin 250mg/5ml oral suspension" -> 250mg per 5ml
+ * @param medicationName - The medication name as prescribed
+ * @returns mg per unit dose (or per volume in ml), or null if no strength is given
+ */
+export function parseStrength(medicationName: string): { mg: number; perMl?: number } | null {
+  const match = medicationName
+    .toLowerCase()
+    .match(/(\d+(?:\.\d+)?)\s*(g|mg|mcg|micrograms?|ug)\b(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*ml\b)?/);
+
+  if (!match) {
+    return null;
+  }
+
+  const mg = parseFloat(match[1]) * MASS_UNIT_MG[match[2]];
+  const hasVolume = /\/\s*(\d+(?:\.\d+)?)?\s*ml/.test(match[0]);
+
+  return hasVolume ? { mg, perMl: match[3] ? parseFloat(match[3]) : 1 } : { mg };
+}
+
+/**
+ * Convert a single dose quantity to mg
+ * Mass units convert directly; unit doses (tablets, capsules) and volumes use
+ * the strength in the medication name
+ */
+function doseToMg(value: number, unit: string, medicationName: string): number | null {
+  const normalisedUnit = unit.toLowerCase().trim();
+
+  if (MASS_UNIT_MG[normalisedUnit] !== undefined) {
+    return value * MASS_UNIT_MG[normalisedUnit];
+  }
+
+  const strength = parseStrength(medicationName);
+  if (!strength) {
+    return null;
+  }
+
+  if (normalisedUnit === 'ml') {
+    return strength.perMl ? value * strength.mg / strength.perMl : null;
+  }
+
+  // Tablets, capsules, sachets etc. - one unit contains the stated strength
+  return strength.perMl ? null : value * strength.mg;
+}
+
+/**
+ * Calculate the total daily dose from FHIR dosage instructions
+ * Each instruction line is converted to mg per day and the lines are summed
+ * @param dosageInstruction - dosageInstruction from the prescription
+ * @param medicationName - The medication name, used for the strength of unit doses
+ * @returns The daily dose, or null if any line can't be interpreted
+ */
+export function calculateDailyDose(
+  dosageInstruction: DosageInstruction[] | undefined,
+  medicationName: string
+): DailyDose | null {
+  if (!dosageInstruction || dosageInstruction.length === 0) {
+    return null;
+  }
+
+  let dailyDoseMg = 0;
+  let maxSingleDoseMg = 0;
+  let dosesPerDay = 0;
+
+  for (const instruction of dosageInstruction) {
+    const doseQuantity = instruction.doseAndRate?.[0]?.doseQuantity;
+    const repeat = instruction.timing?.repeat;
+
+    if (!doseQuantity || !repeat || !repeat.frequency || !repeat.period) {
+      return null;
+    }
+
+    const periodDays = PERIOD_UNIT_DAYS[repeat.periodUnit];
+    const singleDoseMg = doseToMg(doseQuantity.value, doseQuantity.unit, medicationName);
+
+    if (!periodDays || singleDoseMg === null) {
+      return null;
+    }
+
+    const instructionDosesPerDay = repeat.frequency / (repeat.period * periodDays);
+
+    dailyDoseMg += singleDoseMg * instructionDosesPerDay;
+    maxSingleDoseMg = Math.max(maxSingleDoseMg, singleDoseMg);
+    dosesPerDay += instructionDosesPerDay;
+  }
+
+  return {
+    dailyDoseMg: roundDose(dailyDoseMg),
+    maxSingleDoseMg: roundDose(maxSingleDoseMg),
+    dosesPerDay: roundDose(dosesPerDay),
+  };
+}
+
+/**
+ * Build a FHIR-style dosage instruction from the dosage and label text held on
+ * a prescription item, e.g. "500mg" + "take one three times a day"
+ * @param dosage - Dose per administration, e.g. "500mg" or "2 tablets"
+ * @param instructions - Label instructions
+ * @returns A dosage instruction, or null if the frequency isn't recognised
+ */
+export function dosageInstructionFromText(dosage: string, instructions: string): DosageInstruction | null {
+  const text = `${dosage || ''} ${instructions || ''}`.toLowerCase();
+
+  const doseMatch = (dosage || '').toLowerCase().match(/(\d+(?:\.\d+)?)\s*([a-z]+)/)
+    || text.match(/\b(?:take|give|apply|inhale)\s+(\d+(?:\.\d+)?|half|one|two|three|four)\b\s*([a-z]*)/);
+
+  if (!doseMatch) {
+    return null;
+  }
+
+  const value = NUMBER_WORDS[doseMatch[1]] ?? parseFloat(doseMatch[1]);
+  const unit = (MASS_UNIT_MG[doseMatch[2]] !== undefined || doseMatch[2] === 'ml')
+    ? doseMatch[2]
+    : 'dose';
+
+  for (const { pattern, frequency, period, periodUnit } of TEXT_FREQUENCIES) {
+    const match = text.match(pattern);
+    if (match) {
+      return {
+        text: instructions,
+        timing: {
+          repeat: {
+            frequency,
+            // "every N hours" carries its period in the text
+            period: period || parseInt(match[1], 10),
+            periodUnit,
+          },
+        },
+        doseAndRate: [{
+          doseQuantity: { value, unit, system: 'http://unitsofmeasure.org', code: unit },
+        }],
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a dose rule applies to a patient
+ * Rules with eGFR bounds only apply when the patient has a recorded eGFR
+ */
+export function doseRuleApplies(rule: DoseRuleInput, patient: DosePatientContext): boolean {
+  const hasAgeBounds = rule.minAgeYears != null || rule.maxAgeYears != null;
+  if (hasAgeBounds) {
+    if (patient.ageYears === undefined) return false;
+    if (rule.minAgeYears != null && patient.ageYears < rule.minAgeYears) return false;
+    if (rule.maxAgeYears != null && patient.ageYears >= rule.maxAgeYears) return false;
+  }
+
+  const hasEgfrBounds = rule.minEgfr != null || rule.maxEgfr != null;
+  if (hasEgfrBounds) {
+    if (patient.egfr === undefined) return false;
+    if (rule.minEgfr != null && patient.egfr < rule.minEgfr) return false;
+    if (rule.maxEgfr != null && patient.egfr >= rule.maxEgfr) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Compare a calculated dose with the dose rules for a drug
+ * Every applicable rule must be met; the most severe breach is reported
+ * @param medicationName - The medication name, used in descriptions
+ * @param dose - The calculated dose
+ * @param rules - Dose rules for the drug
+ * @param patient - Age, weight and renal function of the patient
+ * @returns The check result
+ */
+export function evaluateDose(
+  medicationName: string,
+  dose: DailyDose,
+  rules: DoseRuleInput[],
+  patient: DosePatientContext
+): DoseCheckResult {
+  const breaches: Array<{ severity: ValidationSeverity; description: string }> = [];
+
+  for (const rule of rules.filter(r => doseRuleApplies(r, patient))) {
+    const population = describePopulation(rule, patient);
+
+    if (rule.perKg && patient.weightKg === undefined) {
+      breaches.push({
+        severity: 'MEDIUM',
+        description: `${medicationName}: a weight is needed to check the mg/kg dose ${population}`,
+      });
+      continue;
+    }
+
+    const scale = rule.perKg ? patient.weightKg! : 1;
+    const minDaily = rule.minDailyDose != null ? roundDose(rule.minDailyDose * scale) : undefined;
+    let maxDaily = rule.maxDailyDose != null ? roundDose(rule.maxDailyDose * scale) : undefined;
+    if (maxDaily !== undefined && rule.maxDailyDoseCap != null) {
+      maxDaily = Math.min(maxDaily, rule.maxDailyDoseCap);
+    }
+    const maxSingle = rule.maxSingleDose != null ? roundDose(rule.maxSingleDose * scale) : undefined;
+    const range = describeRange(minDaily, maxDaily);
+
+    if (maxDaily !== undefined && dose.dailyDoseMg > maxDaily) {
+      breaches.push({
+        severity: rule.severity,
+        description: `${medicationName}: calculated daily dose of ${dose.dailyDoseMg}mg is above the allowed range of ${range} ${population}`,
+      });
+    } else if (minDaily !== undefined && dose.dailyDoseMg < minDaily) {
+      breaches.push({
+        severity: 'MEDIUM',
+        description: `${medicationName}: calculated daily dose of ${dose.dailyDoseMg}mg is below the allowed range of ${range} ${population}`,
+      });
+    }
+
+    if (maxSingle !== undefined && dose.maxSingleDoseMg > maxSingle) {
+      breaches.push({
+        severity: rule.severity,
+        description: `${medicationName}: single dose of ${dose.maxSingleDoseMg}mg is above the maximum of ${maxSingle}mg ${population}`,
+      });
+    }
+  }
+
+  if (breaches.length === 0) {
+    return { isAppropriate: true, severity: 'NONE', description: '', calculatedDailyDoseMg: dose.dailyDoseMg };
+  }
+
+  const severityRank: Record<ValidationSeverity, number> = { CRITICAL: 4, HIGH: 3, MEDIUM: 2, LOW: 1, NONE: 0 };
+  const severity = breaches.reduce<ValidationSeverity>(
+    (max, breach) => severityRank[breach.severity] > severityRank[max] ? breach.severity : max,
+    'NONE'
+  );
+
+  return {
+    isAppropriate: false,
+    severity,
+    description: breaches.map(b => b.description).join('; '),
+    calculatedDailyDoseMg: dose.dailyDoseMg,
+  };
+}
+
+function describeRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return `${min}-${max}mg/day`;
+  if (max !== undefined) return `up to ${max}mg/day`;
+  return `at least ${min}mg/day`;
+}
+
+function describePopulation(rule: DoseRuleInput, patient: DosePatientContext): string {
+  const parts: string[] = [];
+
+  if (rule.perKg) {
+    const perKg = rule.maxDailyDose != null ? `${rule.maxDailyDose}mg/kg/day` : 'mg/kg dosing';
+    parts.push(patient.weightKg !== undefined ? `${perKg} at ${patient.weightKg}kg` : perKg);
+  }
+  if (rule.minAgeYears != null || rule.maxAgeYears != null) {
+    parts.push(rule.maxAgeYears == null
+      ? `age ${rule.minAgeYears}+`
+      : `age ${rule.minAgeYears ?? 0}-${rule.maxAgeYears}`);
+  }
+  if (rule.minEgfr != null || rule.maxEgfr != null) {
+    parts.push(rule.maxEgfr == null
+      ? `eGFR ${rule.minEgfr}+`
+      : `eGFR ${rule.minEgfr ?? 0}-${rule.maxEgfr} (patient ${patient.egfr})`);
+  }
+
+  return parts.length > 0 ? `(${parts.join(', ')})` : '(adult)';
+}
+
+function roundDose(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Service for checking prescribed doses against age, weight and renal
+ * function-specific dose ranges held in the drug knowledge base
+ */
+export class DoseRangeService {
+  private knowledgeBase: DrugKnowledgeBaseService;
+
+  constructor(knowledgeBase: DrugKnowledgeBaseService) {
+    this.knowledgeBase = knowledgeBase;
+  }
+
+  /**
+   * Check a prescribed dose
+   * @param medicationName - The medication name as prescribed
+   * @param dosageInstruction - FHIR dosage instructions
+   * @param patient - Age, weight and renal function of the patient
+   * @param organizationId - Organisation whose local rules also apply
+   * @returns The check result; doses that can't be calculated are reported
+   */
+  async checkDose(
+    medicationName: string,
+    dosageInstruction: DosageInstruction[] | undefined,
+    patient: DosePatientContext,
+    organizationId?: string
+  ): Promise<DoseCheckResult> {
+    const rules = await this.knowledgeBase.findDoseRules(medicationName, organizationId);
+
+    if (rules.length === 0) {
+      return { isAppropriate: true, severity: 'NONE', description: '' };
+    }
+
+    const dose = calculateDailyDose(dosageInstruction, medicationName);
+    if (!dose) {
+      return {
+        isAppropriate: false,
+        severity: 'LOW',
+        description: `${medicationName}: the daily dose could not be calculated from the dosage instructions, check the dose manually`,
+      };
+    }
+
+    return evaluateDose(medicationName, dose, rules.map(toDoseRuleInput), patient);
+  }
+}
+
+// Prisma returns nulls for unset bounds; the rule helpers treat null and undefined alike
+function toDoseRuleInput(rule: any): DoseRuleInput {
+  return {
+    ...rule,
+    severity: rule.severity as ValidationSeverity,
+  };
+}
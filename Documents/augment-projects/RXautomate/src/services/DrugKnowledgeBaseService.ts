@@ -0,0 +1,708 @@
+import { PrismaClient } from '@prisma/client';
+import type { ValidationSeverity } from './PrescriptionValidationService';
+
+// Shape of a versioned knowledge dataset file (JSON), or of the CSVs once parsed
+export interface DrugKnowledgeDatasetFile {
+  version: string;
+  source: string;
+  interactions: InteractionRuleInput[];
+  contraindications: ContraindicationRuleInput[];
+  allergens: AllergenRuleInput[];
+  doseRanges?: DoseRuleInput[];
+  therapeuticClasses?: TherapeuticClassRuleInput[];
+}
+
+export interface InteractionRuleInput {
+  drugCode?: string;
+  drugName: string;
+  interactingDrugCode?: string;
+  interactingDrugName: string;
+  severity: ValidationSeverity;
+  description: string;
+}
+
+export interface ContraindicationRuleInput {
+  drugCode?: string;
+  drugName: string;
+  conditionCode?: string;
+  conditionName: string;
+  severity: ValidationSeverity;
+  description?: string;
+}
+
+export interface AllergenRuleInput {
+  drugCode?: string;
+  drugName: string;
+  allergenClass: string;
+}
+
+export interface DoseRuleInput {
+  drugCode?: string;
+  drugName: string;
+  minAgeYears?: number;
+  maxAgeYears?: number;
+  minEgfr?: number;
+  maxEgfr?: number;
+  perKg?: boolean;
+  minDailyDose?: number;
+  maxDailyDose?: number;
+  maxDailyDoseCap?: number;
+  maxSingleDose?: number;
+  severity: ValidationSeverity;
+  description?: string;
+}
+
+export interface TherapeuticClassRuleInput {
+  drugCode?: string;
+  drugName: string;
+  therapeuticClass: string;
+  classCode?: string;
+}
+
+export type KnowledgeRuleKind = 'interaction' | 'contraindication' | 'allergen' | 'therapeuticClass';
+
+export interface InteractionMatch {
+  medication: string;
+  severity: ValidationSeverity;
+  description: string;
+}
+
+export interface ContraindicationMatch {
+  condition: string;
+  severity: ValidationSeverity;
+  description?: string;
+}
+
+const RULE_SEVERITIES: ValidationSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * Reduce a prescribed medication description to the drug name used as the
+ * knowledge base key, e.g. "Amoxicillin 500mg capsules" -> "amoxicillin"
+ * @param medicationName - The medication name as prescribed
+ * @returns The normalised drug name
+ */
+export function normaliseDrugName(medicationName: string): string {
+  const tokens = medicationName.trim().toLowerCase().split(/\s+/);
+  const strengthIndex = tokens.findIndex(token => /\d/.test(token));
+  const nameTokens = strengthIndex > 0 ? tokens.slice(0, strengthIndex) : tokens;
+
+  return nameTokens.join(' ');
+}
+
+/**
+ * Parse a CSV document with a header row into records
+ * Supports quoted fields containing commas, newlines and escaped quotes
+ * @param csv - The CSV text
+ * @returns One record per data row, keyed by header
+ */
+export function parseKnowledgeCsv(csv: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...data] = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map(key => key.trim());
+  return data.map(values =>
+    keys.reduce((record, key, index) => {
+      record[key] = (values[index] || '').trim();
+      return record;
+    }, {} as Record<string, string>)
+  );
+}
+
+/**
+ * Build a dataset from the per-kind CSV files of a dataset release
+ * @param version - Dataset version
+ * @param source - Dataset publisher
+ * @param csv - CSV text for each rule kind
+ * @returns The dataset
+ */
+export function buildDatasetFromCsv(
+  version: string,
+  source: string,
+  csv: {
+    interactions?: string;
+    contraindications?: string;
+    allergens?: string;
+    doseRanges?: string;
+    therapeuticClasses?: string;
+  }
+): DrugKnowledgeDatasetFile {
+  const optional = (value?: string) => value ? value : undefined;
+  const optionalNumber = (value?: string) => value ? Number(value) : undefined;
+
+  return {
+    version,
+    source,
+    interactions: parseKnowledgeCsv(csv.interactions || '').map(r => ({
+      drugCode: optional(r.drugCode),
+      drugName: r.drugName,
+      interactingDrugCode: optional(r.interactingDrugCode),
+      interactingDrugName: r.interactingDrugName,
+      severity: r.severity as ValidationSeverity,
+      description: r.description,
+    })),
+    contraindications: parseKnowledgeCsv(csv.contraindications || '').map(r => ({
+      drugCode: optional(r.drugCode),
+      drugName: r.drugName,
+      conditionCode: optional(r.conditionCode),
+      conditionName: r.conditionName,
+      severity: r.severity as ValidationSeverity,
+      description: optional(r.description),
+    })),
+    allergens: parseKnowledgeCsv(csv.allergens || '').map(r => ({
+      drugCode: optional(r.drugCode),
+      drugName: r.drugName,
+      allergenClass: r.allergenClass,
+    })),
+    doseRanges: parseKnowledgeCsv(csv.doseRanges || '').map(r => ({
+      drugCode: optional(r.drugCode),
+      drugName: r.drugName,
+      minAgeYears: optionalNumber(r.minAgeYears),
+      maxAgeYears: optionalNumber(r.maxAgeYears),
+      minEgfr: optionalNumber(r.minEgfr),
+      maxEgfr: optionalNumber(r.maxEgfr),
+      perKg: ['true', 'yes', '1'].includes((r.perKg || '').toLowerCase()),
+      minDailyDose: optionalNumber(r.minDailyDose),
+      maxDailyDose: optionalNumber(r.maxDailyDose),
+      maxDailyDoseCap: optionalNumber(r.maxDailyDoseCap),
+      maxSingleDose: optionalNumber(r.maxSingleDose),
+      severity: r.severity as ValidationSeverity,
+      description: optional(r.description),
+    })),
+    therapeuticClasses: parseKnowledgeCsv(csv.therapeuticClasses || '').map(r => ({
+      drugCode: optional(r.drugCode),
+      drugName: r.drugName,
+      therapeuticClass: r.therapeuticClass,
+      classCode: optional(r.classCode),
+    })),
+  };
+}
+
+/**
+ * Check a dataset for missing fields and unknown severities
+ * @param dataset - The dataset to check
+ * @returns List of problems; empty when the dataset is valid
+ */
+export function validateDataset(dataset: DrugKnowledgeDatasetFile): string[] {
+  const problems: string[] = [];
+
+  if (!dataset.version) problems.push('Dataset version is required');
+  if (!dataset.source) problems.push('Dataset source is required');
+
+  (dataset.interactions || []).forEach((rule, index) => {
+    if (!rule.drugName || !rule.interactingDrugName) {
+      problems.push(`Interaction ${index + 1}: drugName and interactingDrugName are required`);
+    }
+    if (!RULE_SEVERITIES.includes(rule.severity)) {
+      problems.push(`Interaction ${index + 1}: invalid severity "${rule.severity}"`);
+    }
+    if (!rule.description) {
+      problems.push(`Interaction ${index + 1}: description is required`);
+    }
+  });
+
+  (dataset.contraindications || []).forEach((rule, index) => {
+    if (!rule.drugName || !rule.conditionName) {
+      problems.push(`Contraindication ${index + 1}: drugName and conditionName are required`);
+    }
+    if (!RULE_SEVERITIES.includes(rule.severity)) {
+      problems.push(`Contraindication ${index + 1}: invalid severity "${rule.severity}"`);
+    }
+  });
+
+  (dataset.allergens || []).forEach((rule, index) => {
+    if (!rule.drugName || !rule.allergenClass) {
+      problems.push(`Allergen ${index + 1}: drugName and allergenClass are required`);
+    }
+  });
+
+  (dataset.doseRanges || []).forEach((rule, index) => {
+    if (!rule.drugName) {
+      problems.push(`Dose range ${index + 1}: drugName is required`);
+    }
+    if (!RULE_SEVERITIES.includes(rule.severity)) {
+      problems.push(`Dose range ${index + 1}: invalid severity "${rule.severity}"`);
+    }
+    const numbers = [
+      rule.minAgeYears, rule.maxAgeYears, rule.minEgfr, rule.maxEgfr,
+      rule.minDailyDose, rule.maxDailyDose, rule.maxDailyDoseCap, rule.maxSingleDose,
+    ];
+    if (numbers.some(value => value !== undefined && (typeof value !== 'number' || isNaN(value) || value < 0))) {
+      problems.push(`Dose range ${index + 1}: bounds and doses must be non-negative numbers`);
+    }
+    if (rule.minDailyDose === undefined && rule.maxDailyDose === undefined && rule.maxSingleDose === undefined) {
+      problems.push(`Dose range ${index + 1}: at least one dose limit is required`);
+    }
+  });
+
+  (dataset.therapeuticClasses || []).forEach((rule, index) => {
+    if (!rule.drugName || !rule.therapeuticClass) {
+      problems.push(`Therapeutic class ${index + 1}: drugName and therapeuticClass are required`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Drug knowledge base backed by Postgres
+ *
+ * Holds drug interactions, contraindications and allergen classes from the
+ * active imported dataset, plus local rules added by each organisation.
+ */
+export class DrugKnowledgeBaseService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Import a dataset version
+   * @param dataset - The dataset to import
+   * @param importedById - The user importing the dataset
+   * @param activate - Whether to make this the active dataset (default: true)
+   * @returns The dataset record with rule counts
+   */
+  async importDataset(dataset: DrugKnowledgeDatasetFile, importedById?: string, activate = true) {
+    const problems = validateDataset(dataset);
+    if (problems.length > 0) {
+      throw new Error(`Invalid knowledge dataset: ${problems.join('; ')}`);
+    }
+
+    const existing = await this.prisma.drugKnowledgeDataset.findUnique({
+      where: { version: dataset.version },
+    });
+    if (existing) {
+      throw new Error(`Knowledge dataset version ${dataset.version} has already been imported`);
+    }
+
+    const record = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.drugKnowledgeDataset.create({
+        data: {
+          version: dataset.version,
+          source: dataset.source,
+          importedById,
+        },
+      });
+
+      await tx.drugInteractionRule.createMany({
+        data: dataset.interactions.map(rule => ({
+          ...rule,
+          drugName: normaliseDrugName(rule.drugName),
+          interactingDrugName: normaliseDrugName(rule.interactingDrugName),
+          datasetId: created.id,
+        })),
+      });
+
+      await tx.drugContraindicationRule.createMany({
+        data: dataset.contraindications.map(rule => ({
+          ...rule,
+          drugName: normaliseDrugName(rule.drugName),
+          conditionName: rule.conditionName.toLowerCase(),
+          datasetId: created.id,
+        })),
+      });
+
+      await tx.drugAllergenRule.createMany({
+        data: dataset.allergens.map(rule => ({
+          ...rule,
+          drugName: normaliseDrugName(rule.drugName),
+          allergenClass: rule.allergenClass.toLowerCase(),
+          datasetId: created.id,
+        })),
+      });
+
+      if (dataset.doseRanges && dataset.doseRanges.length > 0) {
+        await tx.drugDoseRule.createMany({
+          data: dataset.doseRanges.map(rule => ({
+            ...rule,
+            drugName: normaliseDrugName(rule.drugName),
+            datasetId: created.id,
+          })),
+        });
+      }
+
+      if (dataset.therapeuticClasses && dataset.therapeuticClasses.length > 0) {
+        await tx.drugTherapeuticClassRule.createMany({
+          data: dataset.therapeuticClasses.map(rule => ({
+            ...rule,
+            drugName: normaliseDrugName(rule.drugName),
+            therapeuticClass: rule.therapeuticClass.toLowerCase(),
+            datasetId: created.id,
+          })),
+        });
+      }
+
+      return created;
+    });
+
+    if (activate) {
+      await this.activateDataset(dataset.version);
+    }
+
+    return {
+      ...record,
+      isActive: activate,
+      interactionCount: dataset.interactions.length,
+      contraindicationCount: dataset.contraindications.length,
+      allergenCount: dataset.allergens.length,
+      doseRangeCount: dataset.doseRanges?.length || 0,
+      therapeuticClassCount: dataset.therapeuticClasses?.length || 0,
+    };
+  }
+
+  /**
+   * Make a dataset version the one used for validation
+   * @param version - The dataset version
+   */
+  async activateDataset(version: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.drugKnowledgeDataset.updateMany({
+        where: { version: { not: version } },
+        data: { isActive: false },
+      }),
+      this.prisma.drugKnowledgeDataset.update({
+        where: { version },
+        data: { isActive: true },
+      }),
+    ]);
+  }
+
+  /**
+   * List imported dataset versions, newest first
+   */
+  async listDatasets() {
+    return this.prisma.drugKnowledgeDataset.findMany({
+      orderBy: { importedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Find interactions between a drug and a list of other drugs
+   * Rules apply in either direction
+   * @param medicationName - The drug being prescribed
+   * @param otherMedications - Drugs the patient is already taking
+   * @param organizationId - Organisation whose local rules also apply
+   * @returns Matching interactions
+   */
+  async findInteractions(
+    medicationName: string,
+    otherMedications: string[],
+    organizationId?: string
+  ): Promise<InteractionMatch[]> {
+    const drug = normaliseDrugName(medicationName);
+    const others = otherMedications.map(normaliseDrugName);
+
+    if (others.length === 0) {
+      return [];
+    }
+
+    const rules = await this.prisma.drugInteractionRule.findMany({
+      where: {
+        AND: [
+          this.activeRuleFilter(organizationId),
+          {
+            OR: [
+              { drugName: drug, interactingDrugName: { in: others } },
+              { interactingDrugName: drug, drugName: { in: others } },
+            ],
+          },
+        ],
+      },
+    });
+
+    return rules.map(rule => ({
+      medication: rule.drugName === drug ? rule.interactingDrugName : rule.drugName,
+      severity: rule.severity as ValidationSeverity,
+      description: rule.description,
+    }));
+  }
+
+  /**
+   * Find the allergen classes a drug belongs to
+   * @param medicationName - The drug
+   * @param organizationId - Organisation whose local rules also apply
+   * @returns Allergen class names, lower case
+   */
+  async findAllergenClasses(medicationName: string, organizationId?: string): Promise<string[]> {
+    const rules = await this.prisma.drugAllergenRule.findMany({
+      where: {
+        AND: [
+          this.activeRuleFilter(organizationId),
+          { drugName: normaliseDrugName(medicationName) },
+        ],
+      },
+    });
+
+    return Array.from(new Set(rules.map(rule => rule.allergenClass)));
+  }
+
+  /**
+   * Find contraindications between a drug and a patient's conditions
+   * A condition matches when it contains the rule's condition name
+   * @param medicationName - The drug
+   * @param conditions - The patient's conditions
+   * @param organizationId - Organisation whose local rules also apply
+   * @returns Matching contraindications
+   */
+  async findContraindications(
+    medicationName: string,
+    conditions: string[],
+    organizationId?: string
+  ): Promise<ContraindicationMatch[]> {
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    const rules = await this.prisma.drugContraindicationRule.findMany({
+      where: {
+        AND: [
+          this.activeRuleFilter(organizationId),
+          { drugName: normaliseDrugName(medicationName) },
+        ],
+      },
+    });
+
+    const patientConditions = conditions.map(c => c.toLowerCase());
+    return rules
+      .filter(rule => patientConditions.some(condition => condition.includes(rule.conditionName)))
+      .map(rule => ({
+        condition: rule.conditionName,
+        severity: rule.severity as ValidationSeverity,
+        description: rule.description || undefined,
+      }));
+  }
+
+  /**
+   * Find the dose range rules for a drug
+   * Callers decide which rules apply to a patient
+   * @param medicationName - The drug
+   * @param organizationId - Organisation whose local rules also apply
+   * @returns Dose range rules
+   */
+  async findDoseRules(medicationName: string, organizationId?: string) {
+    return this.prisma.drugDoseRule.findMany({
+      where: {
+        AND: [
+          this.activeRuleFilter(organizationId),
+          { drugName: normaliseDrugName(medicationName) },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Find the therapeutic classes of a set of drugs
+   * @param medicationNames - The drugs
+   * @param organizationId - Organisation whose local rules also apply
+   * @returns Therapeutic class names, lower case, keyed by normalised drug name
+   */
+  async findTherapeuticClasses(
+    medicationNames: string[],
+    organizationId?: string
+  ): Promise<Record<string, string[]>> {
+    const drugNames = Array.from(new Set(medicationNames.map(normaliseDrugName)));
+
+    if (drugNames.length === 0) {
+      return {};
+    }
+
+    const rules = await this.prisma.drugTherapeuticClassRule.findMany({
+      where: {
+        AND: [
+          this.activeRuleFilter(organizationId),
+          { drugName: { in: drugNames } },
+        ],
+      },
+    });
+
+    return rules.reduce((classes, rule) => {
+      const drugClasses = classes[rule.drugName] || [];
+      if (!drugClasses.includes(rule.therapeuticClass)) {
+        drugClasses.push(rule.therapeuticClass);
+      }
+      classes[rule.drugName] = drugClasses;
+      return classes;
+    }, {} as Record<string, string[]>);
+  }
+
+  /**
+   * Add a local rule for an organisation
+   * @param kind - The kind of rule
+   * @param rule - The rule details
+   * @param organizationId - The organisation the rule belongs to
+   * @param createdById - The user adding the rule
+   * @returns The created rule
+   */
+  async addLocalRule(
+    kind: KnowledgeRuleKind,
+    rule: InteractionRuleInput | ContraindicationRuleInput | AllergenRuleInput | TherapeuticClassRuleInput,
+    organizationId: string,
+    createdById: string
+  ) {
+    const dataset: DrugKnowledgeDatasetFile = {
+      version: 'local',
+      source: 'local',
+      interactions: kind === 'interaction' ? [rule as InteractionRuleInput] : [],
+      contraindications: kind === 'contraindication' ? [rule as ContraindicationRuleInput] : [],
+      allergens: kind === 'allergen' ? [rule as AllergenRuleInput] : [],
+      therapeuticClasses: kind === 'therapeuticClass' ? [rule as TherapeuticClassRuleInput] : [],
+    };
+
+    const problems = validateDataset(dataset);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    const common = { source: 'LOCAL' as const, organizationId, createdById };
+
+    switch (kind) {
+      case 'interaction': {
+        const input = rule as InteractionRuleInput;
+        return this.prisma.drugInteractionRule.create({
+          data: {
+            ...input,
+            ...common,
+            drugName: normaliseDrugName(input.drugName),
+            interactingDrugName: normaliseDrugName(input.interactingDrugName),
+          },
+        });
+      }
+      case 'contraindication': {
+        const input = rule as ContraindicationRuleInput;
+        return this.prisma.drugContraindicationRule.create({
+          data: {
+            ...input,
+            ...common,
+            drugName: normaliseDrugName(input.drugName),
+            conditionName: input.conditionName.toLowerCase(),
+          },
+        });
+      }
+      case 'allergen': {
+        const input = rule as AllergenRuleInput;
+        return this.prisma.drugAllergenRule.create({
+          data: {
+            ...input,
+            ...common,
+            drugName: normaliseDrugName(input.drugName),
+            allergenClass: input.allergenClass.toLowerCase(),
+          },
+        });
+      }
+      case 'therapeuticClass': {
+        const input = rule as TherapeuticClassRuleInput;
+        return this.prisma.drugTherapeuticClassRule.create({
+          data: {
+            ...input,
+            ...common,
+            drugName: normaliseDrugName(input.drugName),
+            therapeuticClass: input.therapeuticClass.toLowerCase(),
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * List an organisation's local rules
+   * @param organizationId - The organisation ID
+   * @returns Local rules grouped by kind
+   */
+  async listLocalRules(organizationId: string) {
+    const where = { source: 'LOCAL' as const, organizationId, isActive: true };
+
+    const [interactions, contraindications, allergens, therapeuticClasses] = await Promise.all([
+      this.prisma.drugInteractionRule.findMany({ where, orderBy: { drugName: 'asc' } }),
+      this.prisma.drugContraindicationRule.findMany({ where, orderBy: { drugName: 'asc' } }),
+      this.prisma.drugAllergenRule.findMany({ where, orderBy: { drugName: 'asc' } }),
+      this.prisma.drugTherapeuticClassRule.findMany({ where, orderBy: { drugName: 'asc' } }),
+    ]);
+
+    return { interactions, contraindications, allergens, therapeuticClasses };
+  }
+
+  /**
+   * Deactivate a local rule
+   * Rules are kept so past validation results can still be explained
+   * @param kind - The kind of rule
+   * @param ruleId - The rule ID
+   * @param organizationId - The organisation the rule must belong to
+   * @returns Whether a rule was deactivated
+   */
+  async deactivateLocalRule(kind: KnowledgeRuleKind, ruleId: string, organizationId: string): Promise<boolean> {
+    const where = { id: ruleId, source: 'LOCAL' as const, organizationId };
+    const data = { isActive: false };
+
+    let result: { count: number };
+    switch (kind) {
+      case 'interaction':
+        result = await this.prisma.drugInteractionRule.updateMany({ where, data });
+        break;
+      case 'contraindication':
+        result = await this.prisma.drugContraindicationRule.updateMany({ where, data });
+        break;
+      case 'allergen':
+        result = await this.prisma.drugAllergenRule.updateMany({ where, data });
+        break;
+      case 'therapeuticClass':
+        result = await this.prisma.drugTherapeuticClassRule.updateMany({ where, data });
+        break;
+    }
+
+    return result.count > 0;
+  }
+
+  /**
+   * Filter selecting rules from the active dataset plus the organisation's local rules
+   */
+  private activeRuleFilter(organizationId?: string) {
+    const sources: any[] = [{ source: 'DATASET', dataset: { isActive: true } }];
+
+    if (organizationId) {
+      sources.push({ source: 'LOCAL', organizationId });
+    }
+
+    return { isActive: true, OR: sources };
+  }
+}
@@ -0,0 +1,372 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Prescription } from './EPSService';
+
+// FHIR code and identifier systems used by EPS dispensing messages
+export const ODS_CODE_SYSTEM = 'https://fhir.nhs.uk/Id/ods-organization-code';
+export const NHS_NUMBER_SYSTEM = 'https://fhir.nhs.uk/Id/nhs-number';
+export const PRESCRIPTION_ORDER_NUMBER_SYSTEM = 'https://fhir.nhs.uk/Id/prescription-order-number';
+export const MESSAGE_EVENT_SYSTEM = 'https://fhir.nhs.uk/CodeSystem/message-event';
+export const DISPENSE_TYPE_SYSTEM = 'https://fhir.nhs.uk/CodeSystem/medicationdispense-type';
+export const RETURN_REASON_SYSTEM = 'https://fhir.nhs.uk/CodeSystem/EPS-task-dispense-return-status-reason';
+export const WITHDRAW_REASON_SYSTEM = 'https://fhir.nhs.uk/CodeSystem/EPS-task-dispense-withdraw-reason';
+
+export const DISPENSE_NOTIFICATION_EVENT = 'dispense-notification';
+
+export type DispenseItemStatus = 'dispensed' | 'partial' | 'not-dispensed';
+
+// Dispense type code and MedicationDispense status for each item outcome
+const DISPENSE_TYPES: Record<DispenseItemStatus, { code: string; display: string; status: string }> = {
+  'dispensed': { code: '0001', display: 'Item fully dispensed', status: 'completed' },
+  'not-dispensed': { code: '0002', display: 'Item not dispensed', status: 'declined' },
+  'partial': { code: '0003', display: 'Item dispensed - partial', status: 'in-progress' },
+};
+
+export interface CodedReason {
+  code: string;
+  display: string;
+  text?: string;
+}
+
+export const RETURN_REASONS: CodedReason[] = [
+  { code: '0002', display: 'Unable to dispense medication on prescriptions' },
+  { code: '0003', display: 'Patient requested release' },
+  { code: '0004', display: 'Another dispenser requested release on behalf of the patient' },
+];
+
+export const WITHDRAW_REASONS: CodedReason[] = [
+  { code: 'QA', display: 'Quantity maladjusted' },
+  { code: 'MU', display: 'Medication Update' },
+  { code: 'DA', display: 'Dosage Amendments' },
+  { code: 'PA', display: 'Patient-requested Amendment' },
+  { code: 'OC', display: 'Other Clinical' },
+  { code: 'ONC', display: 'Other Non-Clinical' },
+];
+
+export interface ReleaseRequestInput {
+  pharmacyOdsCode: string;
+  prescriptionId?: string; // Release a single prescription instead of everything nominated to the pharmacy
+}
+
+export interface DispenseItemInput {
+  medicationRequest: Prescription;
+  status?: DispenseItemStatus; // Default 'dispensed'
+  quantity?: number; // Default the prescribed quantity; required for partial dispensing
+}
+
+export interface DispenseNotificationInput {
+  pharmacyOdsCode: string;
+  items: DispenseItemInput[];
+  whenHandedOver?: string;
+}
+
+export interface DispenseTaskInput {
+  prescriptionId: string;
+  pharmacyOdsCode: string;
+  reason: CodedReason;
+  dispenseNotificationId?: string; // Withdraw only: the Dispense Notification being withdrawn
+}
+
+/**
+ * Error thrown when an EPS message fails validation before it is sent
+ */
+export class EPSMessageValidationError extends Error {
+  statusCode = 400;
+  validationErrors: string[];
+
+  constructor(messageType: string, validationErrors: string[]) {
+    super(`Invalid ${messageType}: ${validationErrors.join('; ')}`);
+    this.name = 'EPSMessageValidationError';
+    this.validationErrors = validationErrors;
+  }
+}
+
+const isOdsCode = (code: string | undefined) => Boolean(code && /^[A-Z0-9]{3,10}$/.test(code));
+
+const odsIdentifier = (code: string) => ({ system: ODS_CODE_SYSTEM, value: code });
+
+/**
+ * Build the Parameters resource for Task/$release
+ * @param input - Pharmacy releasing and, optionally, the prescription to release
+ * @returns FHIR Parameters resource
+ */
+export function buildReleaseRequest(input: ReleaseRequestInput) {
+  const parameter: any[] = [
+    { name: 'owner', valueIdentifier: odsIdentifier(input.pharmacyOdsCode) },
+    { name: 'status', valueCode: 'accepted' },
+  ];
+
+  if (input.prescriptionId) {
+    parameter.push({
+      name: 'group-identifier',
+      valueIdentifier: { system: PRESCRIPTION_ORDER_NUMBER_SYSTEM, value: input.prescriptionId },
+    });
+  }
+
+  return {
+    resourceType: 'Parameters',
+    parameter,
+  };
+}
+
+/**
+ * Validate a release request
+ * @param parameters - Parameters resource from buildReleaseRequest
+ * @returns Problems found; empty when the request is valid
+ */
+export function validateReleaseRequest(parameters: any): string[] {
+  const errors: string[] = [];
+  const find = (name: string) => parameters?.parameter?.find((p: any) => p.name === name);
+
+  if (parameters?.resourceType !== 'Parameters') {
+    errors.push('resourceType must be Parameters');
+  }
+
+  if (!isOdsCode(find('owner')?.valueIdentifier?.value)) {
+    errors.push('owner must be a valid pharmacy ODS code');
+  }
+
+  if (find('status')?.valueCode !== 'accepted') {
+    errors.push('status must be accepted');
+  }
+
+  const groupIdentifier = find('group-identifier');
+  if (groupIdentifier && !groupIdentifier.valueIdentifier?.value) {
+    errors.push('group-identifier must have a value');
+  }
+
+  return errors;
+}
+
+/**
+ * Build a Dispense Notification message bundle with a MedicationDispense per item
+ * @param input - Dispensing pharmacy and the items dispensed
+ * @returns FHIR message Bundle for $process-message
+ */
+export function buildDispenseNotification(input: DispenseNotificationInput) {
+  const whenHandedOver = input.whenHandedOver || new Date().toISOString();
+
+  const dispenses = input.items.map(item => {
+    const request = item.medicationRequest;
+    const type = DISPENSE_TYPES[item.status || 'dispensed'];
+    const prescribed = request.dispenseRequest?.quantity;
+    const quantity = item.status === 'not-dispensed' ? 0 : item.quantity ?? prescribed?.value;
+
+    return {
+      fullUrl: `urn:uuid:${uuidv4()}`,
+      resource: {
+        resourceType: 'MedicationDispense',
+        id: uuidv4(),
+        status: type.status,
+        type: {
+          coding: [{ system: DISPENSE_TYPE_SYSTEM, code: type.code, display: type.display }],
+        },
+        medicationCodeableConcept: request.medicationCodeableConcept,
+        subject: request.subject,
+        performer: [{
+          actor: {
+            reference: `Organization/${input.pharmacyOdsCode}`,
+            identifier: odsIdentifier(input.pharmacyOdsCode),
+          },
+        }],
+        authorizingPrescription: [{ reference: `MedicationRequest/${request.id}` }],
+        quantity: {
+          value: quantity,
+          unit: prescribed?.unit,
+          system: prescribed?.system,
+          code: prescribed?.code,
+        },
+        dosageInstruction: request.dosageInstruction,
+        whenHandedOver,
+      },
+    };
+  });
+
+  const messageId = uuidv4();
+
+  return {
+    resourceType: 'Bundle',
+    id: messageId,
+    identifier: { system: 'https://tools.ietf.org/html/rfc4122', value: messageId },
+    type: 'message',
+    timestamp: new Date().toISOString(),
+    entry: [
+      {
+        fullUrl: `urn:uuid:${uuidv4()}`,
+        resource: {
+          resourceType: 'MessageHeader',
+          eventCoding: {
+            system: MESSAGE_EVENT_SYSTEM,
+            code: DISPENSE_NOTIFICATION_EVENT,
+            display: 'Dispense Notification',
+          },
+          sender: { identifier: odsIdentifier(input.pharmacyOdsCode) },
+          source: { endpoint: `https://directory.spineservices.nhs.uk/STU3/Organization/${input.pharmacyOdsCode}` },
+          focus: dispenses.map(entry => ({ reference: entry.fullUrl })),
+        },
+      },
+      ...dispenses,
+    ],
+  };
+}
+
+/**
+ * Validate a Dispense Notification before it is sent
+ * @param bundle - Message bundle from buildDispenseNotification
+ * @returns Problems found; empty when the message is valid
+ */
+export function validateDispenseNotification(bundle: any): string[] {
+  const errors: string[] = [];
+
+  if (bundle?.resourceType !== 'Bundle' || bundle.type !== 'message') {
+    errors.push('Dispense Notification must be a message Bundle');
+    return errors;
+  }
+
+  const entries: any[] = bundle.entry || [];
+  const header = entries[0]?.resource;
+  if (header?.resourceType !== 'MessageHeader') {
+    errors.push('The first entry must be a MessageHeader');
+  } else {
+    if (header.eventCoding?.system !== MESSAGE_EVENT_SYSTEM || header.eventCoding?.code !== DISPENSE_NOTIFICATION_EVENT) {
+      errors.push(`MessageHeader event must be ${DISPENSE_NOTIFICATION_EVENT}`);
+    }
+    if (!isOdsCode(header.sender?.identifier?.value)) {
+      errors.push('MessageHeader sender must be a valid pharmacy ODS code');
+    }
+  }
+
+  const dispenses = entries.filter(entry => entry.resource?.resourceType === 'MedicationDispense');
+  if (dispenses.length === 0) {
+    errors.push('At least one MedicationDispense is required');
+  }
+
+  const focus = new Set((header?.focus || []).map((ref: any) => ref.reference));
+  const patients = new Set<string>();
+
+  dispenses.forEach((entry, index) => {
+    const dispense = entry.resource;
+    const label = `MedicationDispense ${index + 1}`;
+    const dispenseType = dispense.type?.coding?.find((c: any) => c.system === DISPENSE_TYPE_SYSTEM)?.code;
+    const quantity = dispense.quantity?.value;
+
+    if (!focus.has(entry.fullUrl)) {
+      errors.push(`${label} is not referenced by the MessageHeader focus`);
+    }
+    if (!/^MedicationRequest\/.+/.test(dispense.authorizingPrescription?.[0]?.reference || '')) {
+      errors.push(`${label} must reference the MedicationRequest it dispenses`);
+    }
+    if (!dispense.medicationCodeableConcept?.coding?.length) {
+      errors.push(`${label} must have a medication`);
+    }
+    if (!dispense.subject?.reference) {
+      errors.push(`${label} must have a patient`);
+    } else {
+      patients.add(dispense.subject.reference);
+    }
+    if (!Object.values(DISPENSE_TYPES).some(type => type.code === dispenseType)) {
+      errors.push(`${label} has an unknown dispense type`);
+    }
+    if (dispenseType !== DISPENSE_TYPES['not-dispensed'].code && !(typeof quantity === 'number' && quantity > 0)) {
+      errors.push(`${label} must have a quantity greater than zero`);
+    }
+    if (!dispense.whenHandedOver) {
+      errors.push(`${label} must have whenHandedOver`);
+    }
+  });
+
+  if (patients.size > 1) {
+    errors.push('All items in a Dispense Notification must be for the same patient');
+  }
+
+  return errors;
+}
+
+/**
+ * Build a Task for the dispense Return or Withdraw message
+ */
+function buildDispenseTask(input: DispenseTaskInput, status: string, reasonSystem: string) {
+  return {
+    resourceType: 'Task',
+    id: uuidv4(),
+    identifier: [{ system: 'https://tools.ietf.org/html/rfc4122', value: uuidv4() }],
+    status,
+    intent: 'order',
+    groupIdentifier: { system: PRESCRIPTION_ORDER_NUMBER_SYSTEM, value: input.prescriptionId },
+    focus: input.dispenseNotificationId
+      ? { identifier: { system: 'https://tools.ietf.org/html/rfc4122', value: input.dispenseNotificationId } }
+      : { reference: `MedicationRequest/${input.prescriptionId}` },
+    owner: { identifier: odsIdentifier(input.pharmacyOdsCode) },
+    statusReason: {
+      coding: [{ system: reasonSystem, code: input.reason.code, display: input.reason.display }],
+      text: input.reason.text || input.reason.display,
+    },
+    authoredOn: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build a Return Task, handing an undispensed prescription back to the Spine
+ * @param input - Prescription, pharmacy and return reason
+ * @returns FHIR Task resource
+ */
+export function buildReturnTask(input: DispenseTaskInput) {
+  return buildDispenseTask(input, 'rejected', RETURN_REASON_SYSTEM);
+}
+
+/**
+ * Build a Withdraw Task, withdrawing the last Dispense Notification sent for a prescription
+ * @param input - Prescription, pharmacy and withdraw reason
+ * @returns FHIR Task resource
+ */
+export function buildWithdrawTask(input: DispenseTaskInput) {
+  return buildDispenseTask(input, 'in-progress', WITHDRAW_REASON_SYSTEM);
+}
+
+/**
+ * Validate a Return or Withdraw Task
+ * @param task - Task from buildReturnTask or buildWithdrawTask
+ * @returns Problems found; empty when the task is valid
+ */
+export function validateDispenseTask(task: any): string[] {
+  const errors: string[] = [];
+
+  if (task?.resourceType !== 'Task') {
+    errors.push('resourceType must be Task');
+    return errors;
+  }
+
+  const reasonSystem = task.status === 'rejected'
+    ? RETURN_REASON_SYSTEM
+    : task.status === 'in-progress' ? WITHDRAW_REASON_SYSTEM : null;
+  const reasons = task.status === 'rejected' ? RETURN_REASONS : WITHDRAW_REASONS;
+  const reason = task.statusReason?.coding?.[0];
+
+  if (!reasonSystem) {
+    errors.push('status must be rejected (return) or in-progress (withdraw)');
+  } else if (reason?.system !== reasonSystem || !reasons.some(r => r.code === reason?.code)) {
+    errors.push(`statusReason must be a code from ${reasonSystem}`);
+  }
+
+  if (task.intent !== 'order') {
+    errors.push('intent must be order');
+  }
+  if (!task.groupIdentifier?.value) {
+    errors.push('groupIdentifier must identify the prescription');
+  }
+  if (!isOdsCode(task.owner?.identifier?.value)) {
+    errors.push('owner must be a valid pharmacy ODS code');
+  }
+
+  return errors;
+}
+
+/**
+ * Throw an EPSMessageValidationError if validation found any problems
+ * @param messageType - Message name for the error
+ * @param errors - Problems from one of the validate functions
+ */
+export function assertValidMessage(messageType: string, errors: string[]): void {
+  if (errors.length > 0) {
+    throw new EPSMessageValidationError(messageType, errors);
+  }
+}
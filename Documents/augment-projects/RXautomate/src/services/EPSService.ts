@@ -2,6 +2,19 @@ import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import NodeCache from 'node-cache';
 import AuditService from './AuditService';
+import {
+  CodedReason,
+  DispenseItemStatus,
+  DispenseNotificationInput,
+  assertValidMessage,
+  buildDispenseNotification,
+  buildReleaseRequest,
+  buildReturnTask,
+  buildWithdrawTask,
+  validateDispenseNotification,
+  validateDispenseTask,
+  validateReleaseRequest,
+} from './EPSMessageBuilder';
 
 // Types for EPS Service
 export interface Prescription {
@@ -141,6 +154,19 @@ export interface PrescriptionSearchParams {
   includeHistory?: boolean;
 }
 
+export interface DispenseNotificationResult {
+  dispenseNotificationId: string;
+  prescriptionIds: string[];
+  outcome: any; // OperationOutcome returned by EPS
+}
+
+export interface EPSServiceOptions {
+  apiBaseUrl?: string; // API host, e.g. http://localhost:9000 for the mock EPS server
+  tokenUrl?: string;
+  requestTimeoutMs?: number;
+  retryBaseDelayMs?: number; // Backoff doubles from this on each retry
+}
+
 // Electronic Prescription Service (EPS) API service
 export class EPSService {
   private clientId: string;
@@ -152,15 +178,21 @@ export class EPSService {
   private tokenExpiry: Date | null;
   private headers: Record<string, string>;
   private cache: NodeCache;
+  private requestTimeoutMs: number;
+  private retryBaseDelayMs: number;
+
+  constructor(options: EPSServiceOptions = {}) {
+    const apiBaseUrl = options.apiBaseUrl || process.env.NHS_API_BASE_URL;
 
-  constructor() {
     this.clientId = process.env.NHS_CLIENT_ID || '';
     this.clientSecret = process.env.NHS_CLIENT_SECRET || '';
     this.apiKey = process.env.NHS_API_KEY || '';
-    this.baseUrl = process.env.NHS_API_BASE_URL
-      ? `${process.env.NHS_API_BASE_URL}/electronic-prescriptions/FHIR/R4/`
+    this.baseUrl = apiBaseUrl
+      ? `${apiBaseUrl}/electronic-prescriptions/FHIR/R4/`
       : 'https://sandbox.api.service.nhs.uk/electronic-prescriptions/FHIR/R4/';
-    this.tokenUrl = process.env.NHS_AUTH_URL || 'https://api.service.nhs.uk/oauth2/token';
+    this.tokenUrl = options.tokenUrl || process.env.NHS_AUTH_URL || 'https://api.service.nhs.uk/oauth2/token';
+    this.requestTimeoutMs = options.requestTimeoutMs ?? Number(process.env.EPS_REQUEST_TIMEOUT_MS || 30000);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
     this.token = null;
     this.tokenExpiry = null;
     this.headers = {
@@ -199,7 +231,8 @@ export class EPSService {
         {
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded'
-          }
+          },
+          timeout: this.requestTimeoutMs
         }
       );
 
@@ -244,13 +277,14 @@ export class EPSService {
       retryCount,
     });
 
-    // Determine if error is retryable
-    const isRetryable = [429, 503, 504].includes(error.response?.status);
+    // Determine if error is retryable; requests that timed out never got a response
+    const isTimeout = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    const isRetryable = isTimeout || [429, 503, 504].includes(error.response?.status);
 
     // Implement retry logic for retryable errors
     if (isRetryable && retryCount < maxRetries && retryOperation) {
-      // Calculate exponential backoff delay: 2^retryCount * 1000ms + random jitter
-      const backoffDelay = Math.pow(2, retryCount) * 1000 + Math.random() * 1000;
+      // Calculate exponential backoff delay: 2^retryCount * base delay + random jitter
+      const backoffDelay = Math.pow(2, retryCount) * this.retryBaseDelayMs + Math.random() * this.retryBaseDelayMs;
 
       console.log(`Retrying ${context} operation in ${Math.round(backoffDelay)}ms (attempt ${retryCount + 1}/${maxRetries})`);
 
@@ -268,7 +302,7 @@ export class EPSService {
 
     // If not retryable or max retries reached, create standardized error
     const enhancedError = new Error(
-      `EPS API Error (${context}): ${error.response?.data?.message || error.message}`
+      `EPS API Error (${context}): ${error.response?.data?.message || error.response?.data?.issue?.[0]?.diagnostics || error.message}`
     );
 
     // Add additional properties to the error
@@ -322,7 +356,7 @@ export class EPSService {
 
       const response = await axios.get(
         `${this.baseUrl}MedicationRequest/${prescriptionId}`,
-        { headers }
+        { headers, timeout: this.requestTimeoutMs }
       );
 
       // Cache the result
@@ -405,7 +439,8 @@ export class EPSService {
         `${this.baseUrl}MedicationRequest`,
         {
           headers,
-          params: queryParams
+          params: queryParams,
+          timeout: this.requestTimeoutMs
         }
       );
 
@@ -490,7 +525,8 @@ export class EPSService {
         `${this.baseUrl}MedicationRequest`,
         {
           headers,
-          params: queryParams
+          params: queryParams,
+          timeout: this.requestTimeoutMs
         }
       );
 
@@ -563,7 +599,7 @@ export class EPSService {
       const response = await axios.put(
         `${this.baseUrl}MedicationRequest/${prescriptionId}`,
         updatePayload,
-        { headers }
+        { headers, timeout: this.requestTimeoutMs }
       );
 
       // Clear cache for this prescription
@@ -603,6 +639,8 @@ export class EPSService {
 
   /**
    * Mark a prescription as completed (dispensed)
+   * @deprecated Only flips the status; use dispensePrescription to release the
+   * prescription and send a Dispense Notification
    * @param prescriptionId - The prescription ID
    * @returns Completed prescription
    */
@@ -613,6 +651,211 @@ export class EPSService {
     });
   }
 
+  /**
+   * Release prescriptions to a pharmacy so they can be dispensed
+   * @param pharmacyOdsCode - The pharmacy ODS code
+   * @param prescriptionId - Optional prescription to release; omit to release everything nominated to the pharmacy
+   * @returns Released prescriptions
+   */
+  async releasePrescriptions(pharmacyOdsCode: string, prescriptionId?: string): Promise<Prescription[]> {
+    const releaseRequest = buildReleaseRequest({ pharmacyOdsCode, prescriptionId });
+    assertValidMessage('release request', validateReleaseRequest(releaseRequest));
+
+    // Define the operation as a function that can be retried
+    const releaseOperation = async (): Promise<Prescription[]> => {
+      const { data, requestId } = await this.postMessage('Task/$release', releaseRequest);
+
+      // EPS returns a Bundle of prescription Bundles; pull out their MedicationRequests
+      const released: Prescription[] = (data.entry || []).flatMap((entry: any) =>
+        entry.resource?.resourceType === 'Bundle'
+          ? (entry.resource.entry || []).map((inner: any) => inner.resource)
+          : [entry.resource]
+      ).filter((resource: any) => resource?.resourceType === 'MedicationRequest');
+
+      // Released prescriptions have a new dispenser
+      released.forEach(prescription => this.clearPrescriptionCache(prescription.id));
+      this.clearPharmacyCache(pharmacyOdsCode);
+
+      // Log successful API call
+      this.logActivity('RELEASE_PRESCRIPTIONS', prescriptionId || pharmacyOdsCode, {
+        requestId,
+        pharmacyOdsCode,
+        count: released.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return released;
+    };
+
+    try {
+      return await releaseOperation();
+    } catch (error) {
+      return this.handleEpsApiError(error, 'releasePrescriptions', 0, 3, releaseOperation);
+    }
+  }
+
+  /**
+   * Send a Dispense Notification with a MedicationDispense per item
+   * @param input - Dispensing pharmacy and the items dispensed
+   * @returns Dispense Notification ID and the EPS outcome
+   */
+  async sendDispenseNotification(input: DispenseNotificationInput): Promise<DispenseNotificationResult> {
+    // Build once so retries resend the same message identifier and EPS can de-duplicate them
+    const message = buildDispenseNotification(input);
+    assertValidMessage('Dispense Notification', validateDispenseNotification(message));
+
+    const prescriptionIds = input.items.map(item => item.medicationRequest.id);
+
+    // Define the operation as a function that can be retried
+    const dispenseNotificationOperation = async (): Promise<DispenseNotificationResult> => {
+      const { data, requestId } = await this.postMessage('$process-message', message);
+
+      prescriptionIds.forEach(id => this.clearPrescriptionCache(id));
+      this.clearPharmacyCache(input.pharmacyOdsCode);
+
+      // Log successful API call
+      for (const prescriptionId of prescriptionIds) {
+        this.logActivity('DISPENSE_NOTIFICATION_PRESCRIPTION', prescriptionId, {
+          requestId,
+          dispenseNotificationId: message.id,
+          pharmacyOdsCode: input.pharmacyOdsCode,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return {
+        dispenseNotificationId: message.id,
+        prescriptionIds,
+        outcome: data,
+      };
+    };
+
+    try {
+      return await dispenseNotificationOperation();
+    } catch (error) {
+      return this.handleEpsApiError(error, 'sendDispenseNotification', 0, 3, dispenseNotificationOperation);
+    }
+  }
+
+  /**
+   * Release a prescription to the pharmacy and send its Dispense Notification
+   * @param prescriptionId - The prescription ID
+   * @param pharmacyOdsCode - The dispensing pharmacy ODS code
+   * @param options - Item outcome and quantity; defaults to fully dispensed
+   * @returns Prescription after dispensing
+   */
+  async dispensePrescription(
+    prescriptionId: string,
+    pharmacyOdsCode: string,
+    options: { status?: DispenseItemStatus; quantity?: number } = {}
+  ): Promise<Prescription> {
+    const released = await this.releasePrescriptions(pharmacyOdsCode, prescriptionId);
+    const medicationRequest = released.find(prescription => prescription.id === prescriptionId)
+      || await this.getPrescription(prescriptionId);
+
+    await this.sendDispenseNotification({
+      pharmacyOdsCode,
+      items: [{ medicationRequest, ...options }],
+    });
+
+    return this.getPrescription(prescriptionId);
+  }
+
+  /**
+   * Return an undispensed prescription to the Spine so another pharmacy can release it
+   * @param prescriptionId - The prescription ID
+   * @param pharmacyOdsCode - The pharmacy returning the prescription
+   * @param reason - Return reason from RETURN_REASONS
+   * @returns EPS outcome
+   */
+  async returnPrescription(prescriptionId: string, pharmacyOdsCode: string, reason: CodedReason): Promise<any> {
+    const task = buildReturnTask({ prescriptionId, pharmacyOdsCode, reason });
+    assertValidMessage('Return', validateDispenseTask(task));
+
+    return this.sendDispenseTask(task, 'RETURN_PRESCRIPTION', 'returnPrescription', prescriptionId, pharmacyOdsCode);
+  }
+
+  /**
+   * Withdraw the last Dispense Notification sent for a prescription
+   * @param prescriptionId - The prescription ID
+   * @param pharmacyOdsCode - The pharmacy that sent the Dispense Notification
+   * @param reason - Withdraw reason from WITHDRAW_REASONS
+   * @param dispenseNotificationId - Optional Dispense Notification to withdraw
+   * @returns EPS outcome
+   */
+  async withdrawDispenseNotification(
+    prescriptionId: string,
+    pharmacyOdsCode: string,
+    reason: CodedReason,
+    dispenseNotificationId?: string
+  ): Promise<any> {
+    const task = buildWithdrawTask({ prescriptionId, pharmacyOdsCode, reason, dispenseNotificationId });
+    assertValidMessage('Withdraw', validateDispenseTask(task));
+
+    return this.sendDispenseTask(task, 'WITHDRAW_DISPENSE_PRESCRIPTION', 'withdrawDispenseNotification', prescriptionId, pharmacyOdsCode);
+  }
+
+  /**
+   * POST a Return or Withdraw Task
+   */
+  private async sendDispenseTask(
+    task: any,
+    action: string,
+    context: string,
+    prescriptionId: string,
+    pharmacyOdsCode: string
+  ): Promise<any> {
+    // Define the operation as a function that can be retried
+    const sendTaskOperation = async (): Promise<any> => {
+      const { data, requestId } = await this.postMessage('Task', task);
+
+      this.clearPrescriptionCache(prescriptionId);
+      this.clearPharmacyCache(pharmacyOdsCode);
+
+      // Log successful API call
+      this.logActivity(action, prescriptionId, {
+        requestId,
+        pharmacyOdsCode,
+        reason: task.statusReason.coding[0].display,
+        timestamp: new Date().toISOString(),
+      });
+
+      return data;
+    };
+
+    try {
+      return await sendTaskOperation();
+    } catch (error) {
+      return this.handleEpsApiError(error, context, 0, 3, sendTaskOperation);
+    }
+  }
+
+  /**
+   * POST a FHIR message to EPS
+   * @param path - Path relative to the FHIR base URL
+   * @param body - FHIR resource to send
+   * @returns Response body and the request ID used
+   */
+  private async postMessage(path: string, body: any): Promise<{ data: any; requestId: string }> {
+    // Ensure we have a valid token
+    await this.getToken();
+
+    const requestId = this.generateRequestId();
+    const headers = {
+      ...this.headers,
+      'X-Request-ID': requestId,
+      'X-Correlation-ID': requestId,
+    };
+
+    const response = await axios.post(
+      `${this.baseUrl}${path}`,
+      body,
+      { headers, timeout: this.requestTimeoutMs }
+    );
+
+    return { data: response.data, requestId };
+  }
+
   /**
    * Search for prescriptions with advanced filtering
    * @param params - Search parameters
@@ -708,7 +951,8 @@ export class EPSService {
         `${this.baseUrl}MedicationRequest`,
         {
           headers,
-          params: queryParams
+          params: queryParams,
+          timeout: this.requestTimeoutMs
         }
       );
 
@@ -746,7 +990,8 @@ export class EPSService {
    * @param pharmacyOdsCode - The pharmacy ODS code
    */
   clearPharmacyCache(pharmacyOdsCode: string): void {
-    this.cache.del(new RegExp(`^pharmacy_prescriptions_${pharmacyOdsCode}_.*`));
+    // node-cache has no pattern delete, so match the keys ourselves
+    this.cache.del(this.cache.keys().filter(key => key.startsWith(`pharmacy_prescriptions_${pharmacyOdsCode}_`)));
   }
 
   /**
@@ -754,7 +999,8 @@ export class EPSService {
    * @param nhsNumber - The patient's NHS number
    */
   clearPatientPrescriptionCache(nhsNumber: string): void {
-    this.cache.del(new RegExp(`^patient_prescriptions_${nhsNumber}_.*`));
+    // node-cache has no pattern delete, so match the keys ourselves
+    this.cache.del(this.cache.keys().filter(key => key.startsWith(`patient_prescriptions_${nhsNumber}_`)));
   }
 
   /**
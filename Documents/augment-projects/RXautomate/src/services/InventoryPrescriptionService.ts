@@ -1,6 +1,8 @@
-import { prisma } from '@/lib/db/prisma';
+import { Prisma } from '@prisma/client';
+import { tenantPrisma } from '@/lib/db/tenant';
 import { Prescription } from './EPSService';
 import AuditService from './AuditService';
+import ControlledDrugService from './ControlledDrugService';
 
 export interface InventoryItem {
   id: string;
@@ -52,8 +54,8 @@ class InventoryPrescriptionService {
       // Get quantity from prescription
       const quantity = prescription.dispenseRequest?.quantity?.value || 1;
 
-      // Query the inventory database for matching medication
-      const inventoryItems = await prisma.inventoryItem.findMany({
+      // Query the current pharmacy's inventory for matching medication
+      const inventoryItems = await tenantPrisma.inventoryItem.findMany({
         where: {
           name: {
             contains: medicationName,
@@ -109,12 +111,50 @@ class InventoryPrescriptionService {
     }
   }
 
+  /**
+   * Check a controlled drug can be recorded in the CD register before it is dispensed in EPS
+   * Once EPS has the supply, the register entry can't be refused, so a missing
+   * register or too low a balance has to stop the dispense here.
+   * @param prescription - The prescription about to be dispensed
+   * @param quantitySupplied - Quantity to supply, when less than prescribed (partial dispensing)
+   * @throws If the item is a controlled drug with no open register or too low a balance
+   */
+  async checkControlledDrugSupply(prescription: Prescription, quantitySupplied?: number): Promise<void> {
+    const medicationName = prescription.medicationReference?.display ||
+                          prescription.medicationCodeableConcept?.coding?.[0]?.display ||
+                          '';
+    const quantity = quantitySupplied ?? (prescription.dispenseRequest?.quantity?.value || 1);
+
+    const [matchingItem] = await tenantPrisma.inventoryItem.findMany({
+      where: {
+        name: {
+          contains: medicationName,
+          mode: 'insensitive',
+        },
+      },
+    });
+
+    // Unmatched items are reported by the stock check
+    if (matchingItem) {
+      await this.findControlledDrugRegister(matchingItem, medicationName, quantity);
+    }
+  }
+
   /**
    * Update inventory after dispensing a prescription
+   * Schedule 2/3 controlled drugs also get a supply entry in the CD register
    * @param prescription - The dispensed prescription
+   * @param userId - The user who dispensed the prescription, recorded in the CD register
+   * @param quantitySupplied - Quantity actually supplied, when less than prescribed (partial dispensing)
+   * @param tx - A transaction to move the stock in, so it commits with the caller's writes
    * @returns Updated inventory items
    */
-  async updateInventoryAfterDispensing(prescription: Prescription): Promise<any> {
+  async updateInventoryAfterDispensing(
+    prescription: Prescription,
+    userId: string,
+    quantitySupplied?: number,
+    tx?: Prisma.TransactionClient
+  ): Promise<any> {
     try {
       // Extract medication information from prescription
       const medicationName = prescription.medicationReference?.display ||
@@ -122,10 +162,10 @@ class InventoryPrescriptionService {
                             '';
 
       // Get quantity from prescription
-      const quantity = prescription.dispenseRequest?.quantity?.value || 1;
+      const quantity = quantitySupplied ?? (prescription.dispenseRequest?.quantity?.value || 1);
 
-      // Query the inventory database for matching medication
-      const inventoryItems = await prisma.inventoryItem.findMany({
+      // Query the current pharmacy's inventory for matching medication
+      const inventoryItems = await tenantPrisma.inventoryItem.findMany({
         where: {
           name: {
             contains: medicationName,
@@ -146,18 +186,46 @@ class InventoryPrescriptionService {
         throw new Error(`Insufficient stock for ${medicationName}`);
       }
 
+      // Controlled drugs can't be supplied without a register to record the supply in
+      const controlledDrugRegister = await this.findControlledDrugRegister(matchingItem, medicationName, quantity);
+
+      // The register entry is kept against the local patient, so their data requests find it
+      const patientId = controlledDrugRegister ? await this.findPatientId(prescription) : undefined;
+
       // Update inventory
       const previousStock = matchingItem.currentStock;
       const newStock = previousStock - quantity;
 
-      const updatedItem = await prisma.inventoryItem.update({
-        where: {
-          id: matchingItem.id,
-        },
-        data: {
-          currentStock: newStock,
-        },
-      });
+      // Stock only moves with its CD register entry, so neither is written without the other
+      const writeStock = async (tx: Prisma.TransactionClient) => {
+        await tx.inventoryItem.update({
+          where: {
+            id: matchingItem.id,
+          },
+          data: {
+            currentStock: newStock,
+          },
+        });
+
+        if (!controlledDrugRegister) {
+          return undefined;
+        }
+
+        // Write the CD register entry with the patient and prescriber details
+        const entry = await ControlledDrugService.recordSupply(controlledDrugRegister.id, {
+          quantity,
+          patientId,
+          patientReference: prescription.subject?.reference,
+          patientName: prescription.subject?.display || prescription.subject?.reference,
+          prescriberName: prescription.requester?.display || prescription.requester?.reference,
+          prescriptionId: prescription.id,
+          recordedById: userId,
+        }, tx);
+
+        return entry.id as string;
+      };
+
+      const controlledDrugEntryId = tx ? await writeStock(tx) : await tenantPrisma.$transaction(writeStock);
 
       const inventoryUpdate = {
         medicationName,
@@ -165,6 +233,7 @@ class InventoryPrescriptionService {
         newStock,
         quantityDispensed: quantity,
         inventoryItemId: matchingItem.id,
+        controlledDrugEntryId,
       };
 
       // Log the inventory update
@@ -192,7 +261,7 @@ class InventoryPrescriptionService {
   async getItemsNeedingReorder(pharmacyId: string): Promise<InventoryItem[]> {
     try {
       // Query the database for items that need reordering
-      const items = await prisma.inventoryItem.findMany({
+      const items = await tenantPrisma.inventoryItem.findMany({
         where: {
           pharmacyId,
           currentStock: {
@@ -236,7 +305,7 @@ class InventoryPrescriptionService {
   async findInventoryItemsByMedicationName(medicationName: string, pharmacyId: string): Promise<InventoryItem[]> {
     try {
       // Query the database for matching items
-      const items = await prisma.inventoryItem.findMany({
+      const items = await tenantPrisma.inventoryItem.findMany({
         where: {
           pharmacyId,
           name: {
@@ -271,6 +340,46 @@ class InventoryPrescriptionService {
       throw error;
     }
   }
+
+  /**
+   * The pharmacy's patient a prescription is for, by the NHS number or patient ID in its subject
+   * @returns The local patient ID, or undefined if they aren't registered at the pharmacy
+   */
+  private async findPatientId(prescription: Prescription): Promise<string | undefined> {
+    const subject = prescription.subject?.reference?.split('/').pop();
+    if (!subject) {
+      return undefined;
+    }
+
+    const patient = await tenantPrisma.patient.findFirst({
+      where: { OR: [{ nhsNumber: subject }, { id: subject }] },
+      select: { id: true },
+    });
+
+    return patient?.id;
+  }
+
+  /**
+   * The open CD register to record a supply in, for Schedule 2/3 items
+   * @returns The register, or null if the item isn't a controlled drug
+   */
+  private async findControlledDrugRegister(item: { id: string; cdSchedule?: string | null }, medicationName: string, quantity: number) {
+    if (!item.cdSchedule) {
+      return null;
+    }
+
+    const register = await ControlledDrugService.findRegisterForInventoryItem(item.id);
+
+    if (!register) {
+      throw new Error(`No controlled drug register is open for ${medicationName}`);
+    }
+
+    if (register.currentBalance < quantity) {
+      throw new Error(`Controlled drug register balance for ${medicationName} is lower than the quantity to supply`);
+    }
+
+    return register;
+  }
 }
 
 export default new InventoryPrescriptionService();
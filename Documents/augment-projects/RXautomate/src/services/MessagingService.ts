@@ -0,0 +1,859 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService, { AuditAction } from './AuditService';
+import NotificationService from './NotificationService';
+import OutboundPolicyService, { PolicyDecision } from './OutboundPolicyService';
+
+export type MessagePurpose =
+  | 'PRESCRIPTION_READY'
+  | 'PRESCRIPTION_REMINDER'
+  | 'OWING_READY'
+  | 'APPOINTMENT_REMINDER'
+  | 'ADHERENCE_REMINDER'
+  | 'CONSENT_REQUEST';
+export type MessageChannel = 'SMS' | 'EMAIL' | 'LETTER';
+export type MessageStatus = 'PENDING' | 'SENDING' | 'DELIVERED' | 'FAILED' | 'QUEUED' | 'PRINTED' | 'DEFERRED' | 'SUPPRESSED';
+
+export const MESSAGE_PURPOSES: MessagePurpose[] = [
+  'PRESCRIPTION_READY',
+  'PRESCRIPTION_REMINDER',
+  'OWING_READY',
+  'APPOINTMENT_REMINDER',
+  'ADHERENCE_REMINDER',
+  'CONSENT_REQUEST',
+];
+
+export const MESSAGE_STATUSES: MessageStatus[] = [
+  'PENDING',
+  'SENDING',
+  'DELIVERED',
+  'FAILED',
+  'QUEUED',
+  'PRINTED',
+  'DEFERRED',
+  'SUPPRESSED',
+];
+
+// Statuses of a message that is on its way to the patient, or will be
+const DISPATCHED_STATUSES: MessageStatus[] = ['SENDING', 'DELIVERED', 'QUEUED', 'PRINTED', 'DEFERRED'];
+
+// Also the fallback order after the patient's preferred channel
+export const MESSAGE_CHANNELS: MessageChannel[] = ['SMS', 'EMAIL', 'LETTER'];
+
+export const DEFAULT_MESSAGE_LIMIT = 100;
+
+// Notify holds one pass-through template per channel: "((body))", with "((subject))"
+// as the email subject. The wording lives in MessageTemplate so each organisation can edit it.
+const NOTIFY_TEMPLATE_IDS: Record<'SMS' | 'EMAIL', string> = {
+  SMS: process.env.NOTIFY_SMS_TEMPLATE_ID || 'sms-template-id',
+  EMAIL: process.env.NOTIFY_EMAIL_TEMPLATE_ID || 'email-template-id',
+};
+
+// Notify statuses that won't become a delivery; the next channel is tried
+const FAILURE_STATUSES = ['permanent-failure', 'temporary-failure', 'technical-failure'];
+
+// Notify statuses that are as delivered as the message will get ("sent" is for international SMS)
+const DELIVERED_STATUSES = ['delivered', 'sent'];
+
+export interface TemplateContent {
+  subject?: string | null;
+  body: string;
+}
+
+// Delivery receipt as POSTed by GOV.UK Notify to the callback URL
+export interface DeliveryReceipt {
+  id: string;
+  reference?: string | null;
+  to?: string;
+  status: string;
+  created_at?: string;
+  completed_at?: string | null;
+  sent_at?: string | null;
+  notification_type?: string;
+}
+
+export interface SendContext {
+  pharmacyId: string;
+  userId?: string;
+}
+
+const COMMON_PLACEHOLDERS = ['firstName', 'lastName', 'pharmacyName', 'pharmacyPhone'];
+
+// What each purpose can fill in, so a template can't ask for something that is never sent
+export const TEMPLATE_PLACEHOLDERS: Record<MessagePurpose, string[]> = {
+  PRESCRIPTION_READY: [...COMMON_PLACEHOLDERS, 'prescriptionNumber', 'expiryDate'],
+  PRESCRIPTION_REMINDER: [...COMMON_PLACEHOLDERS, 'prescriptionNumber', 'expiryDate'],
+  OWING_READY: [...COMMON_PLACEHOLDERS, 'medicationName', 'quantityOwed'],
+  APPOINTMENT_REMINDER: [...COMMON_PLACEHOLDERS, 'appointmentType', 'appointmentDate', 'appointmentTime'],
+  ADHERENCE_REMINDER: [...COMMON_PLACEHOLDERS, 'medicationList'],
+  CONSENT_REQUEST: [...COMMON_PLACEHOLDERS, 'consentLink', 'linkExpiryDate'],
+};
+
+const SIGN_OFF = '((pharmacyName)), ((pharmacyPhone))';
+
+export const DEFAULT_TEMPLATES: Record<MessagePurpose, Record<MessageChannel, TemplateContent>> = {
+  PRESCRIPTION_READY: {
+    SMS: {
+      body: `Hello ((firstName)), your prescription ((prescriptionNumber)) is ready to collect. ${SIGN_OFF}`,
+    },
+    EMAIL: {
+      subject: 'Your prescription is ready to collect',
+      body: `Dear ((firstName)) ((lastName)),\n\nYour prescription ((prescriptionNumber)) is ready to collect. Please collect it before ((expiryDate)).\n\n${SIGN_OFF}`,
+    },
+    LETTER: {
+      subject: 'Your prescription is ready to collect',
+      body: `Dear ((firstName)) ((lastName)),\n\nYour prescription ((prescriptionNumber)) is ready to collect. Please collect it before ((expiryDate)).\n\nYours sincerely,\n${SIGN_OFF}`,
+    },
+  },
+  PRESCRIPTION_REMINDER: {
+    SMS: {
+      body: `Hello ((firstName)), your next repeat prescription ((prescriptionNumber)) is available. ${SIGN_OFF}`,
+    },
+    EMAIL: {
+      subject: 'Your repeat prescription is available',
+      body: `Dear ((firstName)) ((lastName)),\n\nYour next repeat prescription ((prescriptionNumber)) is available to collect. The prescription expires on ((expiryDate)).\n\n${SIGN_OFF}`,
+    },
+    LETTER: {
+      subject: 'Your repeat prescription is available',
+      body: `Dear ((firstName)) ((lastName)),\n\nYour next repeat prescription ((prescriptionNumber)) is available to collect. The prescription expires on ((expiryDate)).\n\nYours sincerely,\n${SIGN_OFF}`,
+    },
+  },
+  OWING_READY: {
+    SMS: {
+      body: `Hello ((firstName)), the ((quantityOwed)) of ((medicationName)) we owed you is ready to collect. ${SIGN_OFF}`,
+    },
+    EMAIL: {
+      subject: 'The rest of your medicine is ready to collect',
+      body: `Dear ((firstName)) ((lastName)),\n\nThe ((quantityOwed)) of ((medicationName)) we owed you is ready to collect.\n\n${SIGN_OFF}`,
+    },
+    LETTER: {
+      subject: 'The rest of your medicine is ready to collect',
+      body: `Dear ((firstName)) ((lastName)),\n\nThe ((quantityOwed)) of ((medicationName)) we owed you is ready to collect.\n\nYours sincerely,\n${SIGN_OFF}`,
+    },
+  },
+  APPOINTMENT_REMINDER: {
+    SMS: {
+      body: `Hello ((firstName)), a reminder of your ((appointmentType)) appointment on ((appointmentDate)) at ((appointmentTime)). ${SIGN_OFF}`,
+    },
+    EMAIL: {
+      subject: 'Your pharmacy appointment',
+      body: `Dear ((firstName)) ((lastName)),\n\nThis is a reminder of your ((appointmentType)) appointment on ((appointmentDate)) at ((appointmentTime)).\n\n${SIGN_OFF}`,
+    },
+    LETTER: {
+      subject: 'Your pharmacy appointment',
+      body: `Dear ((firstName)) ((lastName)),\n\nThis is a reminder of your ((appointmentType)) appointment on ((appointmentDate)) at ((appointmentTime)).\n\nYours sincerely,\n${SIGN_OFF}`,
+    },
+  },
+  ADHERENCE_REMINDER: {
+    SMS: {
+      body: `Hello ((firstName)), you're due to refill ((medicationList)). Please contact us to arrange it. ${SIGN_OFF}`,
+    },
+    EMAIL: {
+      subject: 'Your medicine is due for a refill',
+      body: `Dear ((firstName)) ((lastName)),\n\nYou're due to refill ((medicationList)). Please contact us to arrange your refill.\n\n${SIGN_OFF}`,
+    },
+    LETTER: {
+      subject: 'Your medicine is due for a refill',
+      body: `Dear ((firstName)) ((lastName)),\n\nYou're due to refill ((medicationList)). Please contact us to arrange your refill.\n\nYours sincerely,\n${SIGN_OFF}`,
+    },
+  },
+  CONSENT_REQUEST: {
+    SMS: {
+      body: `Hello ((firstName)), please tell us how we may contact you and use your data: ((consentLink)) The link works once, until ((linkExpiryDate)). ${SIGN_OFF}`,
+    },
+    EMAIL: {
+      subject: 'Please review your consent choices',
+      body: `Dear ((firstName)) ((lastName)),\n\nPlease tell us how we may contact you and use your data by following this link:\n\n((consentLink))\n\nThe link works once, until ((linkExpiryDate)).\n\n${SIGN_OFF}`,
+    },
+    LETTER: {
+      subject: 'Please review your consent choices',
+      body: `Dear ((firstName)) ((lastName)),\n\nPlease tell us how we may contact you and use your data, by visiting the address below or by speaking to us in the pharmacy.\n\n((consentLink))\n\nThe address works once, until ((linkExpiryDate)).\n\nYours sincerely,\n${SIGN_OFF}`,
+    },
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\(\(([A-Za-z0-9_]+)\)\)/g;
+
+/**
+ * List the placeholders a template uses
+ * @param text - Template text with ((name)) placeholders
+ * @returns Placeholder names, each once
+ */
+export function findPlaceholders(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+}
+
+/**
+ * Fill in a template's placeholders
+ * @param text - Template text with ((name)) placeholders
+ * @param personalisation - Values for the placeholders
+ * @returns The rendered text
+ */
+export function renderTemplate(text: string, personalisation: Record<string, string>): string {
+  const missing = findPlaceholders(text).filter(name => personalisation[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing personalisation: ${missing.join(', ')}`);
+  }
+
+  return text.replace(PLACEHOLDER_PATTERN, (_, name) => personalisation[name]);
+}
+
+/**
+ * Check a template before saving it
+ * @param purpose - What the message is for
+ * @param channel - The channel it is sent on
+ * @param content - The subject and body
+ * @returns Problems with the template; empty if it can be saved
+ */
+export function validateTemplate(purpose: MessagePurpose, channel: MessageChannel, content: TemplateContent): string[] {
+  const errors: string[] = [];
+
+  if (!content.body?.trim()) {
+    errors.push('Body is required');
+  }
+  if (channel !== 'SMS' && !content.subject?.trim()) {
+    errors.push('Subject is required for email and letters');
+  }
+
+  const allowed = TEMPLATE_PLACEHOLDERS[purpose];
+  const unknown = findPlaceholders(`${content.subject || ''} ${content.body || ''}`)
+    .filter(name => !allowed.includes(name));
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholders: ${unknown.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Channels to try for a patient, in order
+ * The preferred channel goes first, then SMS, email and letter, skipping any
+ * the patient has no contact details for.
+ * @param patient - The patient
+ * @returns The channels to try
+ */
+export function getChannelOrder(patient: {
+  phoneNumber?: string | null;
+  email?: string | null;
+  address?: string | null;
+  postcode?: string | null;
+  preferredChannel?: MessageChannel | null;
+}): MessageChannel[] {
+  const reachable: Record<MessageChannel, boolean> = {
+    SMS: Boolean(patient.phoneNumber),
+    EMAIL: Boolean(patient.email),
+    LETTER: Boolean(patient.address && patient.postcode),
+  };
+
+  const order = patient.preferredChannel
+    ? [patient.preferredChannel, ...MESSAGE_CHANNELS.filter(channel => channel !== patient.preferredChannel)]
+    : MESSAGE_CHANNELS;
+
+  return order.filter(channel => reachable[channel]);
+}
+
+/**
+ * Whether a message reached, or will reach, the patient
+ * @param message - The message sendToPatient returned
+ * @returns False if it failed on every channel or was suppressed
+ */
+export function isDispatched(message: { status: string } | null | undefined): boolean {
+  return Boolean(message && DISPATCHED_STATUSES.includes(message.status as MessageStatus));
+}
+
+const formatDate = (date?: Date | string | null) =>
+  date ? new Date(date).toLocaleDateString('en-GB') : 'N/A';
+
+const recipientFor = (patient: any, channel: MessageChannel): string => {
+  switch (channel) {
+    case 'SMS':
+      return patient.phoneNumber;
+    case 'EMAIL':
+      return patient.email;
+    case 'LETTER':
+      return [
+        [patient.title, patient.firstName, patient.lastName].filter(Boolean).join(' '),
+        patient.address,
+        patient.postcode,
+      ].join('\n');
+  }
+};
+
+/**
+ * Service for messaging patients
+ *
+ * Each attempt on a channel is a PatientMessage. When Notify rejects a message,
+ * or its delivery receipt reports a failure, the next channel is tried; letters
+ * are queued for the pharmacy to print and post. Every message passes the
+ * outbound policy first, and is held or suppressed when it says so.
+ */
+export class MessagingService {
+  /**
+   * Message a patient on the first channel that takes it
+   * @param patient - The patient, with contact details
+   * @param purpose - What the message is for
+   * @param personalisation - Values for the template placeholders
+   * @param context - The sending pharmacy and user
+   * @returns The last message recorded; see isDispatched for whether it got through
+   */
+  async sendToPatient(
+    patient: any,
+    purpose: MessagePurpose,
+    personalisation: Record<string, string>,
+    context: SendContext
+  ) {
+    try {
+      return await this.dispatch(patient, purpose, personalisation, getChannelOrder(patient), context);
+    } catch (error) {
+      console.error(`Error messaging patient ${patient.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a Notify delivery receipt against its message
+   * A failure moves on to the patient's next channel.
+   * @param receipt - The receipt Notify sent
+   * @param now - When it arrived
+   * @returns The updated message
+   */
+  async handleDeliveryReceipt(receipt: DeliveryReceipt, now: Date = new Date()) {
+    try {
+      const message = await tenantPrisma.patientMessage.findFirst({
+        where: {
+          OR: [
+            { notifyId: receipt.id },
+            ...(receipt.reference ? [{ id: receipt.reference }] : []),
+          ],
+        },
+        include: { patient: true, fallbackTo: { select: { id: true } } },
+      });
+
+      if (!message) {
+        throw new Error(`Message for notification ${receipt.id} not found`);
+      }
+
+      // Notify retries callbacks, so a message only settles once
+      if (['DELIVERED', 'FAILED'].includes(message.status)) {
+        return message;
+      }
+
+      const completedAt = receipt.completed_at ? new Date(receipt.completed_at) : now;
+
+      if (DELIVERED_STATUSES.includes(receipt.status)) {
+        const delivered = await tenantPrisma.patientMessage.update({
+          where: { id: message.id },
+          data: { status: 'DELIVERED', notifyId: receipt.id, deliveredAt: completedAt },
+        });
+        await this.audit('PATIENT_MESSAGE_DELIVERED', message);
+        return delivered;
+      }
+
+      if (!FAILURE_STATUSES.includes(receipt.status)) {
+        return tenantPrisma.patientMessage.update({
+          where: { id: message.id },
+          data: { status: 'SENDING', notifyId: receipt.id },
+        });
+      }
+
+      const failed = await tenantPrisma.patientMessage.update({
+        where: { id: message.id },
+        data: { status: 'FAILED', notifyId: receipt.id, failureReason: receipt.status, failedAt: completedAt },
+      });
+      await this.audit('PATIENT_MESSAGE_FAILED', message, { failureReason: receipt.status });
+
+      const channels = getChannelOrder(message.patient);
+      const remaining = channels.slice(channels.indexOf(message.channel) + 1);
+      if (remaining.length === 0 || message.fallbackTo) {
+        return failed;
+      }
+
+      await this.dispatch(
+        message.patient,
+        message.purpose as MessagePurpose,
+        JSON.parse(message.personalisation),
+        remaining,
+        { pharmacyId: message.pharmacyId, userId: message.sentById || undefined },
+        { fallbackFromId: message.id, now }
+      );
+
+      return failed;
+    } catch (error) {
+      console.error('Error handling delivery receipt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send the messages held for quiet hours that are now due
+   * Each is checked against the policy again, so a STOP reply or withdrawn
+   * consent in the meantime still stops it.
+   * @param now - The time to release up to
+   * @returns How many were released and what happened to them
+   */
+  async releaseDeferred(now: Date = new Date()) {
+    try {
+      const due = await tenantPrisma.patientMessage.findMany({
+        where: { status: 'DEFERRED', scheduledFor: { lte: now } },
+        include: { patient: true },
+        orderBy: { scheduledFor: 'asc' },
+      });
+
+      const results = { released: due.length, sent: 0, deferred: 0, suppressed: 0, failed: 0 };
+
+      for (const deferred of due) {
+        const message = await this.dispatch(
+          deferred.patient,
+          deferred.purpose as MessagePurpose,
+          JSON.parse(deferred.personalisation),
+          getChannelOrder(deferred.patient),
+          { pharmacyId: deferred.pharmacyId, userId: deferred.sentById || undefined },
+          { fallbackFromId: deferred.fallbackFromId || undefined, existingId: deferred.id, now }
+        );
+
+        if (message.status === 'DEFERRED') {
+          results.deferred++;
+        } else if (message.status === 'SUPPRESSED') {
+          results.suppressed++;
+        } else if (message.status === 'FAILED') {
+          results.failed++;
+        } else {
+          results.sent++;
+        }
+      }
+
+      return results;
+    } catch (error) {
+      console.error('Error releasing deferred messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every template an organisation sends, its own or the default
+   * @param organizationId - The organisation ID
+   * @returns One template per purpose and channel
+   */
+  async getTemplates(organizationId: string) {
+    const saved = await tenantPrisma.messageTemplate.findMany({ where: { organizationId } });
+
+    return MESSAGE_PURPOSES.flatMap(purpose => MESSAGE_CHANNELS.map(channel => {
+      const template = saved.find((t: any) => t.purpose === purpose && t.channel === channel);
+      const content = template || DEFAULT_TEMPLATES[purpose][channel];
+
+      return {
+        purpose,
+        channel,
+        subject: content.subject || null,
+        body: content.body,
+        placeholders: TEMPLATE_PLACEHOLDERS[purpose],
+        isDefault: !template,
+        updatedAt: template?.updatedAt || null,
+      };
+    }));
+  }
+
+  /**
+   * Save an organisation's wording for one purpose and channel
+   * @param organizationId - The organisation ID
+   * @param purpose - What the message is for
+   * @param channel - The channel it is sent on
+   * @param content - The subject and body
+   * @param userId - Who changed it
+   * @returns The saved template
+   */
+  async saveTemplate(
+    organizationId: string,
+    purpose: MessagePurpose,
+    channel: MessageChannel,
+    content: TemplateContent,
+    userId?: string
+  ) {
+    if (!MESSAGE_PURPOSES.includes(purpose) || !MESSAGE_CHANNELS.includes(channel)) {
+      throw new Error(`Unknown template ${purpose} ${channel}`);
+    }
+
+    const errors = validateTemplate(purpose, channel, content);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const data = {
+      subject: channel === 'SMS' ? null : content.subject,
+      body: content.body,
+      updatedById: userId || null,
+    };
+
+    const template = await tenantPrisma.messageTemplate.upsert({
+      where: { organizationId_purpose_channel: { organizationId, purpose, channel } },
+      create: { organizationId, purpose, channel, ...data },
+      update: data,
+    });
+
+    await AuditService.logAction({
+      action: 'MESSAGE_TEMPLATE_UPDATED',
+      category: 'SYSTEM',
+      userId,
+      details: { organizationId, purpose, channel },
+    });
+
+    return template;
+  }
+
+  /**
+   * Go back to the default wording for one purpose and channel
+   * @param organizationId - The organisation ID
+   * @param purpose - What the message is for
+   * @param channel - The channel it is sent on
+   * @param userId - Who reset it
+   */
+  async resetTemplate(organizationId: string, purpose: MessagePurpose, channel: MessageChannel, userId?: string) {
+    await tenantPrisma.messageTemplate.deleteMany({ where: { organizationId, purpose, channel } });
+
+    await AuditService.logAction({
+      action: 'MESSAGE_TEMPLATE_UPDATED',
+      category: 'SYSTEM',
+      userId,
+      details: { organizationId, purpose, channel, reset: true },
+    });
+  }
+
+  /**
+   * Get a pharmacy's messages, newest first
+   * @param pharmacyId - The pharmacy ID
+   * @param filters - Narrow to a patient, status or channel
+   * @returns The messages with their patients
+   */
+  async getMessages(
+    pharmacyId: string,
+    filters: { patientId?: string; status?: MessageStatus; channel?: MessageChannel; limit?: number } = {}
+  ) {
+    return tenantPrisma.patientMessage.findMany({
+      where: {
+        pharmacyId,
+        ...(filters.patientId ? { patientId: filters.patientId } : {}),
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.channel ? { channel: filters.channel } : {}),
+      },
+      include: { patient: { select: { id: true, firstName: true, lastName: true, nhsNumber: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || DEFAULT_MESSAGE_LIMIT,
+    });
+  }
+
+  /**
+   * Get the letters waiting to be printed, oldest first
+   * @param pharmacyId - The pharmacy ID
+   * @returns The queued letters
+   */
+  async getLetterQueue(pharmacyId: string) {
+    return tenantPrisma.patientMessage.findMany({
+      where: { pharmacyId, channel: 'LETTER', status: 'QUEUED' },
+      include: { patient: { select: { id: true, firstName: true, lastName: true, nhsNumber: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Take a letter off the queue once it has been printed
+   * @param messageId - The letter's message ID
+   * @param pharmacyId - The pharmacy ID
+   * @param userId - Who printed it
+   * @param now - When it was printed
+   * @returns The updated message
+   */
+  async markLetterPrinted(messageId: string, pharmacyId: string, userId: string, now: Date = new Date()) {
+    const letter = await tenantPrisma.patientMessage.findUnique({ where: { id: messageId } });
+    if (!letter || letter.pharmacyId !== pharmacyId || letter.channel !== 'LETTER') {
+      throw new Error(`Letter ${messageId} not found`);
+    }
+    if (letter.status !== 'QUEUED') {
+      throw new Error(`Letter ${messageId} is already ${letter.status.toLowerCase()}`);
+    }
+
+    const printed = await tenantPrisma.patientMessage.update({
+      where: { id: messageId },
+      data: { status: 'PRINTED', printedAt: now, deliveredAt: now },
+    });
+
+    await this.audit('LETTER_PRINTED', letter, {}, userId);
+
+    return printed;
+  }
+
+  /**
+   * Set the channel a patient is messaged on first
+   * @param patientId - The patient ID
+   * @param pharmacyId - The pharmacy ID
+   * @param channel - The preferred channel, or null for the default order
+   * @param userId - Who changed it
+   * @returns The updated patient
+   */
+  async setPreferredChannel(patientId: string, pharmacyId: string, channel: MessageChannel | null, userId: string) {
+    if (channel && !MESSAGE_CHANNELS.includes(channel)) {
+      throw new Error(`Unknown channel ${channel}`);
+    }
+
+    const patient = await tenantPrisma.patient.findUnique({ where: { id: patientId } });
+    if (!patient || patient.pharmacyId !== pharmacyId) {
+      throw new Error(`Patient ${patientId} not found`);
+    }
+
+    const updated = await tenantPrisma.patient.update({
+      where: { id: patientId },
+      data: { preferredChannel: channel },
+    });
+
+    await AuditService.logPatientAction('UPDATE_MESSAGE_PREFERENCE', patientId, userId, { preferredChannel: channel });
+
+    return updated;
+  }
+
+  /**
+   * Tell a patient their prescription is ready to collect
+   * @param patient - The patient
+   * @param prescription - The prescription, with its pharmacy
+   * @returns The message; see isDispatched
+   */
+  async sendPrescriptionReadyNotification(patient: any, prescription: any) {
+    return this.sendToPatient(patient, 'PRESCRIPTION_READY', {
+      ...this.commonPersonalisation(patient, prescription.pharmacy),
+      prescriptionNumber: prescription.prescriptionNumber || 'N/A',
+      expiryDate: formatDate(prescription.expiryDate),
+    }, { pharmacyId: prescription.pharmacyId || prescription.pharmacy.id });
+  }
+
+  /**
+   * Remind a patient their repeat prescription is available
+   * @param patient - The patient
+   * @param prescription - The prescription, with its pharmacy
+   * @returns The message; see isDispatched
+   */
+  async sendPrescriptionReminder(patient: any, prescription: any) {
+    return this.sendToPatient(patient, 'PRESCRIPTION_REMINDER', {
+      ...this.commonPersonalisation(patient, prescription.pharmacy),
+      prescriptionNumber: prescription.prescriptionNumber || 'N/A',
+      expiryDate: formatDate(prescription.expiryDate),
+    }, { pharmacyId: prescription.pharmacyId || prescription.pharmacy.id });
+  }
+
+  /**
+   * Tell a patient the balance of a partially dispensed prescription is ready
+   * @param patient - The patient
+   * @param owing - The owing, with its pharmacy
+   * @returns The message; see isDispatched
+   */
+  async sendOwingReadyNotification(patient: any, owing: any) {
+    return this.sendToPatient(patient, 'OWING_READY', {
+      ...this.commonPersonalisation(patient, owing.pharmacy),
+      medicationName: owing.medicationName,
+      quantityOwed: `${owing.quantityOwed}${owing.unit ? ` ${owing.unit}` : ''}`,
+    }, { pharmacyId: owing.pharmacyId || owing.pharmacy.id });
+  }
+
+  /**
+   * Remind a patient of an upcoming appointment
+   * @param patient - The patient
+   * @param appointment - The appointment, with its pharmacy
+   * @returns The message; see isDispatched
+   */
+  async sendAppointmentReminder(patient: any, appointment: any) {
+    const date = new Date(appointment.date);
+
+    return this.sendToPatient(patient, 'APPOINTMENT_REMINDER', {
+      ...this.commonPersonalisation(patient, appointment.pharmacy),
+      appointmentType: String(appointment.appointmentType).replace(/_/g, ' ').toLowerCase(),
+      appointmentDate: formatDate(date),
+      appointmentTime: date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }),
+    }, { pharmacyId: appointment.pharmacyId || appointment.pharmacy.id });
+  }
+
+  /**
+   * Send a patient a link to give or withdraw consent themselves
+   * @param patient - The patient
+   * @param pharmacy - The pharmacy asking
+   * @param link - The link's address and expiry
+   * @param userId - The user sending it
+   * @returns The message; see isDispatched
+   */
+  async sendConsentRequest(patient: any, pharmacy: any, link: { url: string; expiresAt: Date }, userId?: string) {
+    return this.sendToPatient(patient, 'CONSENT_REQUEST', {
+      ...this.commonPersonalisation(patient, pharmacy),
+      consentLink: link.url,
+      linkExpiryDate: formatDate(link.expiresAt),
+    }, { pharmacyId: pharmacy.id, userId });
+  }
+
+  /**
+   * Check the outbound policy, then send, hold or suppress the message
+   * @param existingId - A deferred message being released, updated rather than recreated
+   */
+  private async dispatch(
+    patient: any,
+    purpose: MessagePurpose,
+    personalisation: Record<string, string>,
+    channels: MessageChannel[],
+    context: SendContext,
+    options: { fallbackFromId?: string; existingId?: string; now?: Date } = {}
+  ): Promise<any> {
+    const decision = await OutboundPolicyService.evaluate(patient, purpose, channels, context.pharmacyId, {
+      now: options.now,
+      skipCap: Boolean(options.fallbackFromId),
+      excludeMessageId: options.existingId,
+    });
+
+    if (decision.action === 'send') {
+      return this.attempt(patient, purpose, personalisation, decision.channels, context, options.fallbackFromId, options.existingId);
+    }
+
+    return this.hold(patient, purpose, personalisation, context, decision, options.fallbackFromId, options.existingId);
+  }
+
+  /**
+   * Record a message the policy held for quiet hours or suppressed
+   */
+  private async hold(
+    patient: any,
+    purpose: MessagePurpose,
+    personalisation: Record<string, string>,
+    context: SendContext,
+    decision: PolicyDecision,
+    fallbackFromId?: string,
+    existingId?: string
+  ) {
+    const deferred = decision.action === 'defer';
+    const channel = deferred ? decision.channels[0] : null;
+
+    const data = {
+      patientId: patient.id,
+      pharmacyId: context.pharmacyId,
+      purpose,
+      channel,
+      status: deferred ? 'DEFERRED' : 'SUPPRESSED',
+      recipient: channel ? recipientFor(patient, channel) : null,
+      personalisation: JSON.stringify(personalisation),
+      suppressionReason: decision.reason || null,
+      scheduledFor: decision.until || null,
+      fallbackFromId: fallbackFromId || null,
+      sentById: context.userId || null,
+    };
+
+    const message = existingId
+      ? await tenantPrisma.patientMessage.update({ where: { id: existingId }, data })
+      : await tenantPrisma.patientMessage.create({ data });
+
+    if (deferred) {
+      await this.audit('PATIENT_MESSAGE_DEFERRED', message, { scheduledFor: decision.until });
+    } else {
+      console.warn(`Message to patient ${patient.id} suppressed: ${decision.reason}`);
+      await this.audit('PATIENT_MESSAGE_SUPPRESSED', message, { suppressionReason: decision.reason });
+    }
+
+    return message;
+  }
+
+  /**
+   * Try the first channel, falling back through the rest while Notify rejects the message
+   */
+  private async attempt(
+    patient: any,
+    purpose: MessagePurpose,
+    personalisation: Record<string, string>,
+    channels: MessageChannel[],
+    context: SendContext,
+    fallbackFromId?: string,
+    existingId?: string
+  ): Promise<any> {
+    const [channel, ...remaining] = channels;
+    const content = await this.getTemplateContent(context.pharmacyId, purpose, channel);
+    const subject = content.subject ? renderTemplate(content.subject, personalisation) : null;
+    const body = renderTemplate(content.body, personalisation);
+
+    const data = {
+      patientId: patient.id,
+      pharmacyId: context.pharmacyId,
+      purpose,
+      channel,
+      status: channel === 'LETTER' ? 'QUEUED' : 'PENDING',
+      recipient: recipientFor(patient, channel),
+      subject,
+      body,
+      personalisation: JSON.stringify(personalisation),
+      scheduledFor: null,
+      fallbackFromId: fallbackFromId || null,
+      sentById: context.userId || null,
+    };
+
+    const message = existingId
+      ? await tenantPrisma.patientMessage.update({ where: { id: existingId }, data })
+      : await tenantPrisma.patientMessage.create({ data });
+
+    if (channel === 'LETTER') {
+      await this.audit('PATIENT_MESSAGE_SENT', message);
+      return message;
+    }
+
+    try {
+      const notifyPersonalisation = { subject: subject || '', body };
+      const response = channel === 'SMS'
+        ? await NotificationService.sendSMS(message.recipient, NOTIFY_TEMPLATE_IDS.SMS, notifyPersonalisation, message.id)
+        : await NotificationService.sendEmail(message.recipient, NOTIFY_TEMPLATE_IDS.EMAIL, notifyPersonalisation, message.id);
+
+      const sent = await tenantPrisma.patientMessage.update({
+        where: { id: message.id },
+        data: { status: 'SENDING', notifyId: response.id, sentAt: new Date() },
+      });
+      await this.audit('PATIENT_MESSAGE_SENT', sent);
+
+      return sent;
+    } catch (error: any) {
+      const failed = await tenantPrisma.patientMessage.update({
+        where: { id: message.id },
+        data: { status: 'FAILED', failureReason: error.message, failedAt: new Date() },
+      });
+      await this.audit('PATIENT_MESSAGE_FAILED', failed, { failureReason: error.message });
+
+      return remaining.length > 0
+        ? this.attempt(patient, purpose, personalisation, remaining, context, message.id)
+        : failed;
+    }
+  }
+
+  /**
+   * The organisation's wording for a purpose and channel, or the default
+   */
+  private async getTemplateContent(pharmacyId: string, purpose: MessagePurpose, channel: MessageChannel): Promise<TemplateContent> {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({
+      where: { id: pharmacyId },
+      select: { organizationId: true },
+    });
+
+    const template = pharmacy
+      ? await tenantPrisma.messageTemplate.findUnique({
+          where: { organizationId_purpose_channel: { organizationId: pharmacy.organizationId, purpose, channel } },
+        })
+      : null;
+
+    return template || DEFAULT_TEMPLATES[purpose][channel];
+  }
+
+  private commonPersonalisation(patient: any, pharmacy: any): Record<string, string> {
+    return {
+      firstName: patient.firstName,
+      lastName: patient.lastName,
+      pharmacyName: pharmacy?.name || '',
+      pharmacyPhone: pharmacy?.phoneNumber || '',
+    };
+  }
+
+  private async audit(action: AuditAction, message: any, details: any = {}, userId?: string) {
+    await AuditService.logAction({
+      action,
+      category: 'PATIENT',
+      patientId: message.patientId,
+      userId: userId || message.sentById || undefined,
+      details: { messageId: message.id, purpose: message.purpose, channel: message.channel, ...details },
+    });
+  }
+}
+
+export default new MessagingService();
@@ -0,0 +1,371 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/db/prisma';
+import { USER_ROLES, UserRole } from '@/lib/permissions';
+import { generateTotpSecret, otpauthUri, verifyTotp } from '@/lib/totp';
+import AuditService from './AuditService';
+import { hashToken } from './UserManagementService';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export type MfaMethod = 'totp' | 'recovery_code';
+
+/**
+ * Who needs two-factor authentication across the platform; organizations can require it of more
+ */
+export const MFA_REQUIRED_ROLES = parseRoles(process.env.MFA_REQUIRED_ROLES ?? 'SUPER_ADMIN,ORG_ADMIN');
+
+/**
+ * The user's MFA settings, as selected from the database
+ */
+export interface MfaUser {
+  id: string;
+  email?: string;
+  role: string;
+  mfaSecret?: string | null;
+  mfaEnabledAt?: Date | null;
+  mfaRecoveryCodes?: string[];
+  mfaLastUsedStep?: number | null;
+  organization?: { mfaRequired: boolean; mfaRequiredRoles: string[] } | null;
+}
+
+export interface MfaPolicy {
+  mfaRequired: boolean;
+  mfaRequiredRoles: UserRole[];
+}
+
+// The user fields that turn MFA off
+export const MFA_OFF = {
+  mfaSecret: null,
+  mfaEnabledAt: null,
+  mfaRecoveryCodes: [],
+  mfaLastUsedStep: null,
+};
+
+const MFA_USER_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  mfaSecret: true,
+  mfaEnabledAt: true,
+  mfaRecoveryCodes: true,
+  mfaLastUsedStep: true,
+  organization: { select: { mfaRequired: true, mfaRequiredRoles: true } },
+};
+
+function parseRoles(value: string): UserRole[] {
+  const roles = value.split(',').map(role => role.trim()).filter(Boolean);
+  const unknown = roles.find(role => !USER_ROLES.includes(role as UserRole));
+
+  if (unknown) {
+    throw new Error(`Unknown role in MFA_REQUIRED_ROLES: ${unknown}`);
+  }
+
+  return roles as UserRole[];
+}
+
+/**
+ * Whether a password user has to use two-factor authentication
+ * CIS2 users aren't asked: their smartcard is already a second factor.
+ * @param user - The user's role and organization policy
+ * @param requiredRoles - Roles that need it whatever the organization says
+ * @returns True if the user must enrol
+ */
+export function isMfaRequired(user: Pick<MfaUser, 'role' | 'organization'>, requiredRoles: UserRole[] = MFA_REQUIRED_ROLES): boolean {
+  return requiredRoles.includes(user.role as UserRole) ||
+    Boolean(user.organization?.mfaRequired) ||
+    Boolean(user.organization?.mfaRequiredRoles.includes(user.role));
+}
+
+/**
+ * Recovery codes are compared ignoring case, spaces and dashes
+ * @param code - The code as entered
+ * @returns The normalised code
+ */
+export function normaliseRecoveryCode(code: string): string {
+  return (code || '').toLowerCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * TOTP secrets are encrypted at rest with AES-256-GCM, so a database copy alone can't mint codes
+ */
+function encryptionKey(): Buffer {
+  const configured = process.env.MFA_ENCRYPTION_KEY;
+  if (configured) {
+    const key = Buffer.from(configured, 'base64');
+    if (key.length !== 32) {
+      throw new Error('MFA_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+    }
+    return key;
+  }
+
+  if (!process.env.NEXTAUTH_SECRET) {
+    throw new Error('MFA_ENCRYPTION_KEY or NEXTAUTH_SECRET must be set to store MFA secrets');
+  }
+
+  return crypto.createHash('sha256').update(`mfa:${process.env.NEXTAUTH_SECRET}`).digest();
+}
+
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Service for TOTP two-factor authentication for password users
+ *
+ * Enrolment stores the secret first and only turns MFA on once the user has
+ * entered a code from their app. They then get single-use recovery codes for
+ * when they don't have their phone; only hashes of those are kept.
+ */
+export class MfaService {
+  /**
+   * The user's two-factor authentication status
+   * @param userId - The user
+   * @returns Whether it's on, whether it's required and how many recovery codes are left
+   */
+  async getStatus(userId: string) {
+    const user = await this.findUser(userId);
+
+    return {
+      enabled: Boolean(user.mfaEnabledAt),
+      enabledAt: user.mfaEnabledAt || null,
+      required: isMfaRequired(user),
+      recoveryCodesRemaining: user.mfaEnabledAt ? (user.mfaRecoveryCodes || []).length : 0,
+    };
+  }
+
+  /**
+   * Start enrolment with a new secret; starting again replaces it
+   * @param userId - The user
+   * @returns The secret to type in and the URI to show as a QR code
+   */
+  async startEnrolment(userId: string) {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabledAt) {
+      throw new Error('Two-factor authentication is already set up');
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaSecret: encryptSecret(secret), mfaRecoveryCodes: [], mfaLastUsedStep: null },
+    });
+
+    return { secret, otpauthUri: otpauthUri(secret, user.email || user.id) };
+  }
+
+  /**
+   * Turn MFA on once the user has entered a code from their app
+   * @param userId - The user
+   * @param code - A code from the app
+   * @returns The recovery codes, which are only shown this once
+   */
+  async confirmEnrolment(userId: string, code: string) {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabledAt) {
+      throw new Error('Two-factor authentication is already set up');
+    }
+    if (!user.mfaSecret) {
+      throw new Error('Start setting up two-factor authentication first');
+    }
+
+    const step = verifyTotp(decryptSecret(user.mfaSecret), code);
+    if (step === null) {
+      throw new Error('That code isn\'t right; check the time on your phone and try again');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        mfaEnabledAt: new Date(),
+        mfaLastUsedStep: step,
+        mfaRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(normaliseRecoveryCode(recoveryCode))),
+      },
+    });
+
+    await AuditService.logAuthenticationAction('MFA_ENROLLED', user.id);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a code from the user's app or one of their recovery codes
+   * A TOTP code is accepted once; a recovery code is used up.
+   * @param user - The user, with their MFA settings
+   * @param code - What they entered
+   * @returns How they verified, or null if the code is wrong
+   */
+  async verify(user: MfaUser, code: string): Promise<MfaMethod | null> {
+    if (!user.mfaEnabledAt || !user.mfaSecret) {
+      return null;
+    }
+
+    const step = verifyTotp(decryptSecret(user.mfaSecret), code);
+    if (step !== null) {
+      // Only one sign-in can move the last used step past this one
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+        },
+        data: { mfaLastUsedStep: step },
+      });
+
+      return count === 0 ? null : 'totp';
+    }
+
+    const hash = hashToken(normaliseRecoveryCode(code));
+    const remaining = user.mfaRecoveryCodes || [];
+
+    if (!normaliseRecoveryCode(code) || !remaining.includes(hash)) {
+      return null;
+    }
+
+    // Only while the codes are as read, so the code can't be used twice and
+    // another code used meanwhile isn't put back
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, mfaRecoveryCodes: { equals: remaining } },
+      data: { mfaRecoveryCodes: remaining.filter(stored => stored !== hash) },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    await AuditService.logAuthenticationAction('MFA_RECOVERY_CODE_USED', user.id, {
+      recoveryCodesRemaining: remaining.length - 1,
+    });
+
+    return 'recovery_code';
+  }
+
+  /**
+   * Replace the user's recovery codes; the old ones stop working
+   * @param userId - The user
+   * @param code - A current code, to show it's them
+   * @returns The new recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+
+    if (!(await this.verify(user, code))) {
+      throw new Error('That code isn\'t right');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(normaliseRecoveryCode(recoveryCode))) },
+    });
+
+    await AuditService.logAuthenticationAction('MFA_RECOVERY_CODES_REGENERATED', user.id);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn MFA off, unless the user's role or organization requires it
+   * @param userId - The user
+   * @param code - A current code, to show it's them
+   */
+  async disable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+
+    if (!user.mfaEnabledAt) {
+      throw new Error('Two-factor authentication isn\'t set up');
+    }
+    if (isMfaRequired(user)) {
+      throw new Error('Your organization requires two-factor authentication');
+    }
+    if (!(await this.verify(user, code))) {
+      throw new Error('That code isn\'t right');
+    }
+
+    await prisma.user.update({ where: { id: user.id }, data: MFA_OFF });
+
+    await AuditService.logAuthenticationAction('MFA_DISABLED', user.id);
+  }
+
+  /**
+   * The organization's MFA policy
+   * @param organizationId - The organization
+   * @returns Who has to use MFA, including roles required platform-wide
+   */
+  async getPolicy(organizationId: string) {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { mfaRequired: true, mfaRequiredRoles: true },
+    });
+
+    if (!organization) {
+      throw new Error('Organization not found');
+    }
+
+    return { ...organization, platformRequiredRoles: MFA_REQUIRED_ROLES };
+  }
+
+  /**
+   * Require MFA of everyone in an organization or of some roles
+   * @param organizationId - The organization
+   * @param policy - The new policy
+   * @param actorId - The admin changing it
+   * @returns The policy
+   */
+  async setPolicy(organizationId: string, policy: MfaPolicy, actorId: string) {
+    const roles = Array.from(new Set(policy.mfaRequiredRoles || []));
+    const unknown = roles.find(role => !USER_ROLES.includes(role));
+
+    if (unknown) {
+      throw new Error(`Unknown role: ${unknown}`);
+    }
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: { mfaRequired: Boolean(policy.mfaRequired), mfaRequiredRoles: roles },
+    });
+
+    await AuditService.logAuthenticationAction('MFA_POLICY_UPDATED', actorId, {
+      organizationId,
+      mfaRequired: Boolean(policy.mfaRequired),
+      mfaRequiredRoles: roles,
+    });
+
+    return this.getPolicy(organizationId);
+  }
+
+  async findUser(userId: string): Promise<MfaUser> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: MFA_USER_SELECT });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+}
+
+export default new MfaService();
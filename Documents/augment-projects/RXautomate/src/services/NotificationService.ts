@@ -1,13 +1,13 @@
 import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import AuditService from './AuditService';
-import { Prescription } from './EPSService';
 
 /**
  * Unified Notification Service
  * 
  * This service handles both external notifications (SMS, email) via NHS Notify API
- * and in-app notifications for the RXautomate system.
+ * and in-app notifications for the RXautomate system. In-app notifications are
+ * stored by StaffNotificationService; this pushes them to listeners as they arrive.
  */
 
 // Types for External Notifications
@@ -49,32 +49,22 @@ class NotificationService {
   private apiKey: string;
   private baseUrl: string;
   private headers: Record<string, string>;
-  private templateIds: Record<string, string>;
   
   // In-app notification properties
   private listeners: Array<(notification: InAppNotification) => void> = [];
-  private notifications: InAppNotification[] = [];
-  private pollingInterval: NodeJS.Timeout | null = null;
-  private lastCheckTime: Date = new Date();
+  private eventSource: EventSource | null = null;
+  private eventSourceOdsCode: string | null = null;
+  private eventSourceUsers = 0;
 
   private constructor() {
     // External notification setup
+    // NOTIFY_API_BASE_URL points at the local stub (npm run mock:notify) in development and tests
     this.apiKey = process.env.SMS_API_KEY || '';
-    this.baseUrl = 'https://api.notifications.service.gov.uk/v2/';
+    this.baseUrl = process.env.NOTIFY_API_BASE_URL || 'https://api.notifications.service.gov.uk/v2/';
     this.headers = {
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${this.apiKey}`,
     };
-
-    // Template IDs for different notification types
-    this.templateIds = {
-      prescriptionReady: process.env.TEMPLATE_PRESCRIPTION_READY || 'prescription-ready-template-id',
-      prescriptionReminder: process.env.TEMPLATE_PRESCRIPTION_REMINDER || 'prescription-reminder-template-id',
-      prescriptionExpiring: process.env.TEMPLATE_PRESCRIPTION_EXPIRING || 'prescription-expiring-template-id',
-      appointmentReminder: process.env.TEMPLATE_APPOINTMENT_REMINDER || 'appointment-reminder-template-id',
-      appointmentConfirmation: process.env.TEMPLATE_APPOINTMENT_CONFIRMATION || 'appointment-confirmation-template-id',
-      exemptionExpiring: process.env.TEMPLATE_EXEMPTION_EXPIRING || 'exemption-expiring-template-id',
-    };
   }
 
   public static getInstance(): NotificationService {
@@ -117,252 +107,59 @@ class NotificationService {
   }
 
   /**
-   * Start polling for new prescriptions
-   * @param intervalMs - Polling interval in milliseconds (default: 30000)
+   * Receive live notifications for a pharmacy
+   * Components share one connection; each connect needs a matching disconnect.
+   * The browser reconnects on its own after a dropped connection, and anything
+   * raised in the meantime is waiting in the inbox.
+   * @param pharmacyOdsCode - The signed-in user's pharmacy ODS code
    */
-  public startPolling(intervalMs: number = 30000): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
+  public connect(pharmacyOdsCode: string): void {
+    if (this.eventSource && this.eventSourceOdsCode === pharmacyOdsCode) {
+      this.eventSourceUsers++;
+      return;
     }
 
-    this.lastCheckTime = new Date();
-    this.pollingInterval = setInterval(() => this.checkForNewPrescriptions(), intervalMs);
-    console.log(`Started polling for new prescriptions every ${intervalMs / 1000} seconds`);
-  }
-
-  /**
-   * Stop polling for new prescriptions
-   */
-  public stopPolling(): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
-      console.log('Stopped polling for new prescriptions');
-    }
-  }
-
-  /**
-   * Check for new prescriptions
-   */
-  private async checkForNewPrescriptions(): Promise<void> {
-    try {
-      // Get pharmacy ODS code from local storage or session
-      const pharmacyOdsCode = localStorage.getItem('pharmacyOdsCode') || 'F1234'; // Default for testing
-
-      // Get current time for comparison
-      const currentTime = new Date();
-
-      // Call the API to check for new prescriptions
-      const response = await fetch(`/api/prescriptions/pharmacy/${pharmacyOdsCode}/check-new?since=${this.lastCheckTime.toISOString()}`);
-
-      if (!response.ok) {
-        throw new Error(`Error checking for new prescriptions: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
-      // Update last check time
-      this.lastCheckTime = currentTime;
-
-      // Process new prescriptions
-      if (data.newPrescriptions && data.newPrescriptions.length > 0) {
-        this.notifyNewPrescriptions(data.newPrescriptions);
+    this.closeEventSource();
+    this.eventSourceOdsCode = pharmacyOdsCode;
+    this.eventSourceUsers = 1;
+    this.eventSource = new EventSource(`/api/prescriptions/pharmacy/${encodeURIComponent(pharmacyOdsCode)}/events`);
+
+    // Inbox notifications are fetched rather than sent, so each user only sees their own
+    this.eventSource.addEventListener('notification', async (event) => {
+      const { id } = JSON.parse((event as MessageEvent).data);
+
+      try {
+        const response = await fetch(`/api/notifications/${id}`);
+        if (response.ok) {
+          this.notifyListeners(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching notification:', error);
       }
-
-      // Check for expiring prescriptions
-      if (data.expiringPrescriptions && data.expiringPrescriptions.length > 0) {
-        this.notifyExpiringPrescriptions(data.expiringPrescriptions);
-      }
-    } catch (error) {
-      console.error('Error checking for new prescriptions:', error);
-    }
-  }
-
-  /**
-   * Notify about new prescriptions (in-app)
-   * @param prescriptions - New prescriptions
-   */
-  private notifyNewPrescriptions(prescriptions: Prescription[]): void {
-    const count = prescriptions.length;
-
-    // Create a notification
-    const notification: InAppNotification = {
-      id: uuidv4(),
-      type: 'new',
-      title: 'New Prescriptions Available',
-      message: `${count} new prescription${count > 1 ? 's' : ''} received.`,
-      timestamp: new Date(),
-      read: false,
-      priority: 'medium',
-      action: {
-        label: 'View Prescriptions',
-        url: '/prescriptions?tab=eps&status=active',
-      },
-    };
-
-    // Add to notifications list
-    this.notifications.push(notification);
-
-    // Notify listeners
-    this.notifyListeners(notification);
-
-    // Log the event
-    AuditService.logSystemEvent('NEW_PRESCRIPTIONS_NOTIFICATION', {
-      count,
-      prescriptionIds: prescriptions.map(p => p.id),
     });
-  }
-
-  /**
-   * Notify about expiring prescriptions (in-app)
-   * @param prescriptions - Expiring prescriptions
-   */
-  private notifyExpiringPrescriptions(prescriptions: Prescription[]): void {
-    const count = prescriptions.length;
 
-    // Create a notification
-    const notification: InAppNotification = {
-      id: uuidv4(),
-      type: 'expiring',
-      title: 'Expiring Prescriptions',
-      message: `${count} prescription${count > 1 ? 's' : ''} will expire soon.`,
-      timestamp: new Date(),
-      read: false,
-      priority: 'high',
-      action: {
-        label: 'View Expiring',
-        url: '/prescriptions?tab=eps&expiring=true',
-      },
+    this.eventSource.onerror = () => {
+      console.error('Notification stream interrupted, reconnecting');
     };
-
-    // Add to notifications list
-    this.notifications.push(notification);
-
-    // Notify listeners
-    this.notifyListeners(notification);
-
-    // Log the event
-    AuditService.logSystemEvent('EXPIRING_PRESCRIPTIONS_NOTIFICATION', {
-      count,
-      prescriptionIds: prescriptions.map(p => p.id),
-    });
-  }
-
-  /**
-   * Create a notification for a prescription status update (in-app)
-   * @param prescription - The updated prescription
-   * @param oldStatus - The previous status
-   * @param newStatus - The new status
-   */
-  public notifyPrescriptionStatusUpdate(
-    prescription: Prescription,
-    oldStatus: string,
-    newStatus: string
-  ): void {
-    // Create a notification
-    const notification: InAppNotification = {
-      id: uuidv4(),
-      type: 'update',
-      title: 'Prescription Status Updated',
-      message: `Prescription for ${prescription.medicationReference?.display ||
-                prescription.medicationCodeableConcept?.coding?.[0]?.display ||
-                'medication'} changed from ${oldStatus} to ${newStatus}.`,
-      prescriptionId: prescription.id,
-      timestamp: new Date(),
-      read: false,
-      priority: 'low',
-      action: {
-        label: 'View Prescription',
-        url: `/prescriptions/details/${prescription.id}`,
-      },
-    };
-
-    // Add to notifications list
-    this.notifications.push(notification);
-
-    // Notify listeners
-    this.notifyListeners(notification);
-
-    // Log the event
-    AuditService.logSystemEvent('PRESCRIPTION_STATUS_UPDATE_NOTIFICATION', {
-      prescriptionId: prescription.id,
-      oldStatus,
-      newStatus,
-    });
   }
 
   /**
-   * Create a notification for a prescription error (in-app)
-   * @param prescriptionId - The prescription ID
-   * @param error - The error message
+   * Stop receiving live notifications once no component needs them
    */
-  public notifyPrescriptionError(prescriptionId: string, error: string): void {
-    // Create a notification
-    const notification: InAppNotification = {
-      id: uuidv4(),
-      type: 'error',
-      title: 'Prescription Error',
-      message: `Error processing prescription: ${error}`,
-      prescriptionId,
-      timestamp: new Date(),
-      read: false,
-      priority: 'high',
-      action: {
-        label: 'View Prescription',
-        url: `/prescriptions/details/${prescriptionId}`,
-      },
-      category: 'prescription',
-      icon: 'alert-circle',
-    };
+  public disconnect(): void {
+    this.eventSourceUsers = Math.max(0, this.eventSourceUsers - 1);
 
-    // Add to notifications list
-    this.notifications.push(notification);
-
-    // Notify listeners
-    this.notifyListeners(notification);
-
-    // Log the event
-    AuditService.logSystemEvent('PRESCRIPTION_ERROR_NOTIFICATION', {
-      prescriptionId,
-      error,
-    });
-  }
-
-  /**
-   * Get all in-app notifications
-   * @param limit - Maximum number of notifications to return
-   * @returns List of notifications
-   */
-  public getNotifications(limit?: number): InAppNotification[] {
-    // Sort notifications by timestamp (newest first)
-    const sorted = [...this.notifications].sort((a, b) =>
-      b.timestamp.getTime() - a.timestamp.getTime()
-    );
-
-    // Apply limit if specified
-    return limit ? sorted.slice(0, limit) : sorted;
-  }
-
-  /**
-   * Mark a notification as read
-   * @param notificationId - The notification ID
-   */
-  public markAsRead(notificationId: string): void {
-    this.notifications = this.notifications.map(notification =>
-      notification.id === notificationId
-        ? { ...notification, read: true }
-        : notification
-    );
+    if (this.eventSourceUsers === 0) {
+      this.closeEventSource();
+    }
   }
 
-  /**
-   * Mark all notifications as read
-   */
-  public markAllAsRead(): void {
-    this.notifications = this.notifications.map(notification => ({
-      ...notification,
-      read: true,
-    }));
+  private closeEventSource(): void {
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+      this.eventSourceOdsCode = null;
+    }
   }
 
   /**
@@ -370,12 +167,16 @@ class NotificationService {
    * @param phoneNumber - The recipient's phone number
    * @param templateId - The template ID to use
    * @param personalisation - Template personalisation data
+   * @param reference - Our reference, returned in delivery receipts
    * @returns Notification response
    */
-  async sendSMS(phoneNumber: string, templateId: string, personalisation: Record<string, string>): Promise<ExternalNotificationResponse> {
+  async sendSMS(
+    phoneNumber: string,
+    templateId: string,
+    personalisation: Record<string, string>,
+    reference: string = this.generateReference()
+  ): Promise<ExternalNotificationResponse> {
     try {
-      const reference = this.generateReference();
-
       const response = await axios.post(
         `${this.baseUrl}notifications/sms`,
         {
@@ -388,34 +189,22 @@ class NotificationService {
       );
 
       // Log successful notification
-      AuditService.logActivity({
-        action: 'SEND_SMS',
-        category: 'NOTIFICATION',
-        details: JSON.stringify({
+      AuditService.logAction({
+        action: 'SEND_NOTIFICATION',
+        category: 'PATIENT',
+        details: {
+          channel: 'sms',
           templateId,
           reference,
           phoneNumber: phoneNumber.substring(0, 4) + '****' + phoneNumber.substring(phoneNumber.length - 4), // Mask phone number
           status: response.data.status,
-          timestamp: new Date().toISOString(),
-        }),
+        },
       });
 
       return response.data;
     } catch (error) {
       console.error('Error sending SMS:', error);
-
-      // Log error
-      AuditService.logActivity({
-        action: 'NOTIFICATION_ERROR',
-        category: 'NOTIFICATION',
-        details: JSON.stringify({
-          error: error.message,
-          templateId,
-          timestamp: new Date().toISOString(),
-        }),
-      });
-
-      throw error;
+      throw this.toNotifyError(error);
     }
   }
 
@@ -424,12 +213,16 @@ class NotificationService {
    * @param email - The recipient's email address
    * @param templateId - The template ID to use
    * @param personalisation - Template personalisation data
+   * @param reference - Our reference, returned in delivery receipts
    * @returns Notification response
    */
-  async sendEmail(email: string, templateId: string, personalisation: Record<string, string>): Promise<ExternalNotificationResponse> {
+  async sendEmail(
+    email: string,
+    templateId: string,
+    personalisation: Record<string, string>,
+    reference: string = this.generateReference()
+  ): Promise<ExternalNotificationResponse> {
     try {
-      const reference = this.generateReference();
-
       const response = await axios.post(
         `${this.baseUrl}notifications/email`,
         {
@@ -442,115 +235,34 @@ class NotificationService {
       );
 
       // Log successful notification
-      AuditService.logActivity({
-        action: 'SEND_EMAIL',
-        category: 'NOTIFICATION',
-        details: JSON.stringify({
+      AuditService.logAction({
+        action: 'SEND_NOTIFICATION',
+        category: 'PATIENT',
+        details: {
+          channel: 'email',
           templateId,
           reference,
           email: email.substring(0, 2) + '****' + email.substring(email.indexOf('@')), // Mask email
           status: response.data.status,
-          timestamp: new Date().toISOString(),
-        }),
+        },
       });
 
       return response.data;
     } catch (error) {
       console.error('Error sending email:', error);
-
-      // Log error
-      AuditService.logActivity({
-        action: 'NOTIFICATION_ERROR',
-        category: 'NOTIFICATION',
-        details: JSON.stringify({
-          error: error.message,
-          templateId,
-          timestamp: new Date().toISOString(),
-        }),
-      });
-
-      throw error;
-    }
-  }
-
-  /**
-   * Send prescription ready notification (external)
-   * @param patient - The patient object
-   * @param prescription - The prescription object
-   * @returns Notification response
-   */
-  async sendPrescriptionReadyNotification(patient: any, prescription: any): Promise<ExternalNotificationResponse | null> {
-    // Check if patient has contact details
-    if (!patient.phoneNumber && !patient.email) {
-      console.warn(`Cannot send notification to patient ${patient.id}: No contact details available`);
-      return null;
-    }
-
-    const personalisation = {
-      firstName: patient.firstName,
-      lastName: patient.lastName,
-      prescriptionNumber: prescription.prescriptionNumber || 'N/A',
-      pharmacyName: prescription.pharmacy.name,
-      pharmacyPhone: prescription.pharmacy.phoneNumber,
-      expiryDate: prescription.expiryDate ? new Date(prescription.expiryDate).toLocaleDateString('en-GB') : 'N/A',
-    };
-
-    // Prefer SMS if available
-    if (patient.phoneNumber) {
-      return this.sendSMS(
-        patient.phoneNumber,
-        this.templateIds.prescriptionReady,
-        personalisation
-      );
-    } else if (patient.email) {
-      return this.sendEmail(
-        patient.email,
-        this.templateIds.prescriptionReady,
-        personalisation
-      );
+      throw this.toNotifyError(error);
     }
-
-    return null;
   }
 
   /**
-   * Send prescription reminder (external)
-   * @param patient - The patient object
-   * @param prescription - The prescription object
-   * @returns Notification response
+   * Turn a failed Notify request into an error carrying Notify's message
+   * Notify replies { errors: [{ error, message }] }
    */
-  async sendPrescriptionReminder(patient: any, prescription: any): Promise<ExternalNotificationResponse | null> {
-    // Check if patient has contact details
-    if (!patient.phoneNumber && !patient.email) {
-      console.warn(`Cannot send reminder to patient ${patient.id}: No contact details available`);
-      return null;
-    }
-
-    const personalisation = {
-      firstName: patient.firstName,
-      lastName: patient.lastName,
-      prescriptionNumber: prescription.prescriptionNumber || 'N/A',
-      expiryDate: prescription.expiryDate ? new Date(prescription.expiryDate).toLocaleDateString('en-GB') : 'N/A',
-      pharmacyName: prescription.pharmacy.name,
-      pharmacyPhone: prescription.pharmacy.phoneNumber,
-    };
-
-    // Prefer SMS if available
-    if (patient.phoneNumber) {
-      return this.sendSMS(
-        patient.phoneNumber,
-        this.templateIds.prescriptionReminder,
-        personalisation
-      );
-    } else if (patient.email) {
-      return this.sendEmail(
-        patient.email,
-        this.templateIds.prescriptionReminder,
-        personalisation
-      );
-    }
+  private toNotifyError(error: any): Error {
+    const data = error?.response?.data;
+    const message = data?.errors?.[0]?.message || data?.message || error?.message || 'Notify request failed';
 
-    return null;
+    return new Error(message);
   }
 }
 
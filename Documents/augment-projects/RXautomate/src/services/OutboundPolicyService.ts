@@ -0,0 +1,357 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService from './AuditService';
+import type { MessageChannel, MessagePurpose } from './MessagingService';
+
+export type ConsentType = 'MARKETING' | 'REMINDER' | 'DATA_SHARING' | 'VACCINATION';
+
+export type SuppressionReason =
+  | 'NO_CONSENT'
+  | 'CONSENT_WITHDRAWN'
+  | 'CONSENT_EXPIRED'
+  | 'OPTED_OUT'
+  | 'NO_CONTACT_DETAILS'
+  | 'FREQUENCY_CAP';
+
+export const SUPPRESSION_REASONS: Record<SuppressionReason, string> = {
+  NO_CONSENT: 'Patient has not given consent for these messages',
+  CONSENT_WITHDRAWN: 'Patient has withdrawn consent for these messages',
+  CONSENT_EXPIRED: 'Patient\'s consent for these messages has expired',
+  OPTED_OUT: 'Patient replied STOP',
+  NO_CONTACT_DETAILS: 'No contact details available',
+  FREQUENCY_CAP: 'Patient has had the maximum number of messages this week',
+};
+
+// Consent each purpose needs; asking for consent can't need it, but STOP, the cap and quiet hours still apply
+export const PURPOSE_CONSENT: Record<MessagePurpose, ConsentType | null> = {
+  PRESCRIPTION_READY: 'REMINDER',
+  PRESCRIPTION_REMINDER: 'REMINDER',
+  OWING_READY: 'REMINDER',
+  APPOINTMENT_REMINDER: 'REMINDER',
+  ADHERENCE_REMINDER: 'REMINDER',
+  CONSENT_REQUEST: null,
+};
+
+// Keywords Notify forwards from SMS replies, as the first word of the message
+export const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+export const OPT_IN_KEYWORDS = ['START', 'UNSTOP'];
+
+// Quiet hours are pharmacy local time
+export const TIME_ZONE = 'Europe/London';
+
+export const DEFAULT_QUIET_HOURS = {
+  start: process.env.OUTBOUND_QUIET_HOURS_START || '21:00',
+  end: process.env.OUTBOUND_QUIET_HOURS_END || '08:00',
+};
+
+export const DEFAULT_MAX_MESSAGES_PER_WEEK = parseInt(process.env.OUTBOUND_MAX_MESSAGES_PER_WEEK || '3', 10);
+
+// Statuses that count towards the weekly cap; failed and suppressed messages never reached the patient
+const CAPPED_STATUSES = ['PENDING', 'SENDING', 'DELIVERED', 'QUEUED', 'PRINTED', 'DEFERRED'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface OutboundPolicy {
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  maxMessagesPerWeek: number;
+}
+
+export interface PolicyDecision {
+  action: 'send' | 'defer' | 'suppress';
+  channels: MessageChannel[]; // Channels left to try, in order
+  until?: Date; // When a deferred message can go
+  reason?: SuppressionReason;
+}
+
+export interface EvaluateOptions {
+  now?: Date;
+  skipCap?: boolean; // Fallbacks are the same message, so don't count again
+  excludeMessageId?: string; // A deferred message being released
+}
+
+/**
+ * Normalise a phone number or email address for opt-out matching
+ * @param channel - SMS or EMAIL
+ * @param recipient - As entered or as sent by Notify
+ * @returns e.g. 447700900001 or jane@example.com
+ */
+export function normaliseRecipient(channel: MessageChannel, recipient: string): string {
+  if (channel === 'EMAIL') {
+    return recipient.trim().toLowerCase();
+  }
+
+  const digits = recipient.replace(/\D/g, '');
+  if (digits.startsWith('00')) {
+    return digits.slice(2);
+  }
+  return digits.startsWith('0') ? `44${digits.slice(1)}` : digits;
+}
+
+/**
+ * Read an opt-out or opt-in keyword from an SMS reply
+ * @param message - The reply text
+ * @returns OPT_OUT, OPT_IN, or null for anything else
+ */
+export function parseKeyword(message: string): 'OPT_OUT' | 'OPT_IN' | null {
+  const keyword = (message || '').trim().split(/\s+/)[0].replace(/[^A-Za-z]/g, '').toUpperCase();
+
+  if (OPT_OUT_KEYWORDS.includes(keyword)) {
+    return 'OPT_OUT';
+  }
+  return OPT_IN_KEYWORDS.includes(keyword) ? 'OPT_IN' : null;
+}
+
+/**
+ * Check a pharmacy's policy before saving it
+ * @param policy - Quiet hours as HH:mm and the weekly cap; null clears a value
+ * @returns Problems with the policy; empty if it can be saved
+ */
+export function validatePolicy(policy: {
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  maxMessagesPerWeek?: number | null;
+}): string[] {
+  const errors: string[] = [];
+
+  for (const field of ['quietHoursStart', 'quietHoursEnd'] as const) {
+    const value = policy[field];
+    if (value && !TIME_PATTERN.test(value)) {
+      errors.push(`${field} must be a time such as 21:00`);
+    }
+  }
+  if (Boolean(policy.quietHoursStart) !== Boolean(policy.quietHoursEnd)) {
+    errors.push('Quiet hours need both a start and an end');
+  }
+
+  const cap = policy.maxMessagesPerWeek;
+  if (cap !== undefined && cap !== null && (!Number.isInteger(cap) || cap < 1)) {
+    errors.push('maxMessagesPerWeek must be a whole number of at least 1');
+  }
+
+  return errors;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes past midnight in the UK
+const localMinutes = (date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  return part('hour') * 60 + part('minute');
+};
+
+/**
+ * When quiet hours end, if they have started
+ * Quiet hours may run past midnight, e.g. 21:00 to 08:00.
+ * @param now - The time to check
+ * @param start - Start of quiet hours, HH:mm UK time
+ * @param end - End of quiet hours, HH:mm UK time
+ * @returns When messages can go again, or null outside quiet hours
+ */
+export function quietHoursEndAfter(now: Date, start: string, end: string): Date | null {
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  const current = localMinutes(now);
+
+  const quiet = startMinutes <= endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+
+  if (!quiet) {
+    return null;
+  }
+
+  const minutesLeft = (endMinutes - current + 24 * 60) % (24 * 60);
+  const until = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  until.setUTCSeconds(0, 0);
+
+  return until;
+}
+
+/**
+ * Service for the rules every outbound patient message must pass
+ *
+ * Checks consent, STOP replies, each pharmacy's weekly cap and quiet hours
+ * before a message is sent. MessagingService records what it decides.
+ */
+export class OutboundPolicyService {
+  /**
+   * Decide whether a message can go now
+   * @param patient - The patient, with contact details
+   * @param purpose - What the message is for
+   * @param channels - The channels to try, in order
+   * @param pharmacyId - The sending pharmacy
+   * @param options - The time, and how to count the weekly cap
+   * @returns Send on the remaining channels, defer until quiet hours end, or suppress with a reason
+   */
+  async evaluate(
+    patient: any,
+    purpose: MessagePurpose,
+    channels: MessageChannel[],
+    pharmacyId: string,
+    options: EvaluateOptions = {}
+  ): Promise<PolicyDecision> {
+    const now = options.now || new Date();
+
+    try {
+      const consentType = PURPOSE_CONSENT[purpose];
+      const consentReason = consentType ? await this.checkConsent(patient.id, consentType, now) : null;
+      if (consentReason) {
+        return { action: 'suppress', channels: [], reason: consentReason };
+      }
+
+      const optedOut = await this.getOptedOutChannels(patient, channels);
+      const allowed = channels.filter(channel => !optedOut.includes(channel));
+      if (allowed.length === 0) {
+        return {
+          action: 'suppress',
+          channels: [],
+          reason: optedOut.length > 0 ? 'OPTED_OUT' : 'NO_CONTACT_DETAILS',
+        };
+      }
+
+      const policy = await this.getPharmacyPolicy(pharmacyId);
+
+      if (!options.skipCap) {
+        const sentThisWeek = await tenantPrisma.patientMessage.count({
+          where: {
+            patientId: patient.id,
+            status: { in: CAPPED_STATUSES },
+            fallbackFromId: null,
+            createdAt: { gte: new Date(now.getTime() - WEEK_MS) },
+            ...(options.excludeMessageId ? { id: { not: options.excludeMessageId } } : {}),
+          },
+        });
+
+        if (sentThisWeek >= policy.maxMessagesPerWeek) {
+          return { action: 'suppress', channels: [], reason: 'FREQUENCY_CAP' };
+        }
+      }
+
+      // Letters are printed and posted in working hours anyway
+      if (allowed[0] !== 'LETTER') {
+        const until = quietHoursEndAfter(now, policy.quietHoursStart, policy.quietHoursEnd);
+        if (until) {
+          return { action: 'defer', channels: allowed, until };
+        }
+      }
+
+      return { action: 'send', channels: allowed };
+    } catch (error) {
+      console.error(`Error checking outbound policy for patient ${patient.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record an SMS reply, opting the number out or back in
+   * @param sourceNumber - The number the reply came from
+   * @param message - The reply text
+   * @returns What the reply did, or null if it wasn't a keyword
+   */
+  async recordReply(sourceNumber: string, message: string): Promise<'OPT_OUT' | 'OPT_IN' | null> {
+    const keyword = parseKeyword(message);
+    if (!keyword) {
+      return null;
+    }
+
+    const recipient = normaliseRecipient('SMS', sourceNumber);
+
+    try {
+      if (keyword === 'OPT_OUT') {
+        await tenantPrisma.messageOptOut.upsert({
+          where: { channel_recipient: { channel: 'SMS', recipient } },
+          create: { channel: 'SMS', recipient, keyword: message.trim().slice(0, 50) },
+          update: {},
+        });
+      } else {
+        await tenantPrisma.messageOptOut.deleteMany({ where: { channel: 'SMS', recipient } });
+      }
+
+      await AuditService.logAction({
+        action: keyword === 'OPT_OUT' ? 'MESSAGE_OPT_OUT' : 'MESSAGE_OPT_IN',
+        category: 'PATIENT',
+        details: { channel: 'SMS', recipient },
+      });
+
+      return keyword;
+    } catch (error) {
+      console.error('Error recording SMS reply:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a pharmacy's quiet hours and weekly cap, with defaults filled in
+   * @param pharmacyId - The pharmacy ID
+   * @returns The policy in force
+   */
+  async getPharmacyPolicy(pharmacyId: string): Promise<OutboundPolicy> {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({
+      where: { id: pharmacyId },
+      select: { quietHoursStart: true, quietHoursEnd: true, maxMessagesPerWeek: true },
+    });
+
+    const hasQuietHours = Boolean(pharmacy?.quietHoursStart && pharmacy?.quietHoursEnd);
+
+    return {
+      quietHoursStart: hasQuietHours ? pharmacy!.quietHoursStart! : DEFAULT_QUIET_HOURS.start,
+      quietHoursEnd: hasQuietHours ? pharmacy!.quietHoursEnd! : DEFAULT_QUIET_HOURS.end,
+      maxMessagesPerWeek: pharmacy?.maxMessagesPerWeek || DEFAULT_MAX_MESSAGES_PER_WEEK,
+    };
+  }
+
+  /**
+   * The latest consent of the type decides; a refusal or expiry after an earlier yes wins
+   */
+  private async checkConsent(patientId: string, consentType: ConsentType, now: Date): Promise<SuppressionReason | null> {
+    const consent = await tenantPrisma.consent.findFirst({
+      where: { patientId, consentType },
+      orderBy: { consentDate: 'desc' },
+    });
+
+    if (!consent) {
+      return 'NO_CONSENT';
+    }
+    if (!consent.consentGiven) {
+      return 'CONSENT_WITHDRAWN';
+    }
+    if (consent.expiryDate && new Date(consent.expiryDate) <= now) {
+      return 'CONSENT_EXPIRED';
+    }
+
+    return null;
+  }
+
+  private async getOptedOutChannels(patient: any, channels: MessageChannel[]): Promise<MessageChannel[]> {
+    const recipients = channels
+      .filter(channel => channel !== 'LETTER')
+      .map(channel => ({
+        channel,
+        recipient: normaliseRecipient(channel, channel === 'SMS' ? patient.phoneNumber : patient.email),
+      }));
+
+    if (recipients.length === 0) {
+      return [];
+    }
+
+    const optOuts = await tenantPrisma.messageOptOut.findMany({ where: { OR: recipients } });
+
+    return recipients
+      .filter(r => optOuts.some((o: any) => o.channel === r.channel && o.recipient === r.recipient))
+      .map(r => r.channel);
+  }
+}
+
+export default new OutboundPolicyService();
@@ -0,0 +1,512 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService from './AuditService';
+import ClaimService, { CreateClaimInput } from './ClaimService';
+import ControlledDrugService from './ControlledDrugService';
+import EPSService, { Prescription } from './EPSService';
+import InventoryPrescriptionService from './InventoryPrescriptionService';
+import MessagingService, { isDispatched } from './MessagingService';
+
+export type OwingStatus = 'OUTSTANDING' | 'READY' | 'FULFILLED' | 'CANCELLED';
+
+export const OWING_STATUSES: OwingStatus[] = ['OUTSTANDING', 'READY', 'FULFILLED', 'CANCELLED'];
+
+// Working days to promise the balance in when the order has no delivery date
+export const DEFAULT_OWING_WORKING_DAYS = 2;
+
+export interface PartialDispensePlan {
+  quantityPrescribed: number;
+  quantitySupplied: number;
+  quantityOwed: number;
+}
+
+export interface PartialDispenseInput {
+  pharmacyId: string;
+  pharmacyOdsCode: string;
+  inventoryItemId: string;
+  currentStock: number;
+  promisedDate?: Date;
+  userId: string;
+}
+
+/**
+ * Split a prescribed quantity into what can be supplied now and what is owed
+ * @param quantityPrescribed - Quantity on the prescription
+ * @param currentStock - Quantity in stock
+ * @returns Quantities to supply and to owe
+ */
+export function planPartialDispense(quantityPrescribed: number, currentStock: number): PartialDispensePlan {
+  const quantitySupplied = Math.max(0, Math.min(quantityPrescribed, currentStock));
+
+  return {
+    quantityPrescribed,
+    quantitySupplied,
+    quantityOwed: quantityPrescribed - quantitySupplied,
+  };
+}
+
+/**
+ * Add working days (Monday to Friday) to a date
+ * @param date - Start date
+ * @param days - Working days to add
+ * @returns The resulting date
+ */
+export function addWorkingDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  let remaining = days;
+
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1);
+    if (result.getDay() !== 0 && result.getDay() !== 6) {
+      remaining--;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Choose which owings the stock on hand can cover, oldest promise first
+ * An owing too large for what's left is skipped so smaller ones behind it
+ * aren't held up
+ * @param owings - Outstanding owings, in the order they were promised
+ * @param available - Stock not already set aside for ready owings
+ * @returns IDs of the owings that can be made ready
+ */
+export function allocateStock(owings: { id: string; quantityOwed: number }[], available: number): string[] {
+  const allocated: string[] = [];
+  let remaining = available;
+
+  for (const owing of owings) {
+    if (owing.quantityOwed <= remaining) {
+      allocated.push(owing.id);
+      remaining -= owing.quantityOwed;
+    }
+  }
+
+  return allocated;
+}
+
+/**
+ * Service for owings: the balance of a partially dispensed prescription
+ *
+ * When an item is short, what's in stock is supplied and the balance is
+ * recorded as an owing against a pending wholesaler order. When the order
+ * is received the owings it covers are marked ready and the patient is told
+ * to collect; fulfilling the owing sends the final Dispense Notification and
+ * records the NHSBSA claim.
+ */
+export class OwingService {
+  /**
+   * Supply what's in stock and record an owing for the balance
+   * The owing is recorded before anything is sent to EPS, so the balance is
+   * never lost; it is cancelled again if EPS doesn't take the dispense.
+   * @param prescription - The prescription being dispensed
+   * @param input - Pharmacy, matched inventory item and its stock
+   * @returns The prescription, the inventory update and the owing
+   */
+  async dispensePartially(prescription: Prescription, input: PartialDispenseInput) {
+    const plan = planPartialDispense(prescription.dispenseRequest?.quantity?.value || 1, input.currentStock);
+
+    if (plan.quantitySupplied > 0) {
+      // A controlled drug's register must be able to take the supply before EPS records it
+      await InventoryPrescriptionService.checkControlledDrugSupply(prescription, plan.quantitySupplied);
+    }
+
+    const owing = await this.createOwing(prescription, plan, input);
+
+    let updatedPrescription: Prescription;
+    try {
+      if (plan.quantitySupplied > 0) {
+        updatedPrescription = await EPSService.dispensePrescription(prescription.id, input.pharmacyOdsCode, {
+          status: 'partial',
+          quantity: plan.quantitySupplied,
+        });
+      } else {
+        // Nothing to hand over yet, but release it so no other pharmacy can take it
+        await EPSService.releasePrescriptions(input.pharmacyOdsCode, prescription.id);
+        updatedPrescription = await EPSService.getPrescription(prescription.id);
+      }
+    } catch (error) {
+      await this.cancelOwing(owing.id, input.pharmacyId, input.userId);
+      throw error;
+    }
+
+    // EPS has the supply by now, so the owing stands even if this fails
+    const inventoryUpdate = plan.quantitySupplied > 0
+      ? await InventoryPrescriptionService.updateInventoryAfterDispensing(prescription, input.userId, plan.quantitySupplied)
+      : null;
+
+    return { prescription: updatedPrescription, inventoryUpdate, owing };
+  }
+
+  /**
+   * Record an owing and tie it to a pending wholesaler order for the item
+   * @param prescription - The partially dispensed prescription
+   * @param plan - Quantities supplied and owed
+   * @param input - Pharmacy and matched inventory item
+   * @returns The owing with its wholesaler order
+   */
+  async createOwing(prescription: Prescription, plan: PartialDispensePlan, input: PartialDispenseInput) {
+    try {
+      if (plan.quantityOwed <= 0) {
+        throw new Error('Nothing is owed on this prescription');
+      }
+
+      const inventoryItem = await tenantPrisma.inventoryItem.findUnique({ where: { id: input.inventoryItemId } });
+      if (!inventoryItem || inventoryItem.pharmacyId !== input.pharmacyId) {
+        throw new Error(`Inventory item ${input.inventoryItemId} not found`);
+      }
+
+      const owing = await tenantPrisma.$transaction(async (tx) => {
+        // Add the balance to an order that hasn't been delivered, or start a new one
+        let order = await tx.wholesalerOrder.findFirst({
+          where: { inventoryItemId: inventoryItem.id, status: { in: ['PENDING', 'PLACED'] } },
+          orderBy: { createdAt: 'asc' },
+        });
+
+        if (!order) {
+          order = await tx.wholesalerOrder.create({
+            data: {
+              pharmacyId: input.pharmacyId,
+              inventoryItemId: inventoryItem.id,
+              wholesaler: inventoryItem.supplier,
+              quantity: Math.max(inventoryItem.reorderQuantity, plan.quantityOwed),
+              createdById: input.userId,
+            },
+          });
+        } else if (order.status === 'PENDING') {
+          const owed = await tx.owing.aggregate({
+            where: { wholesalerOrderId: order.id, status: 'OUTSTANDING' },
+            _sum: { quantityOwed: true },
+          });
+          const required = (owed._sum.quantityOwed || 0) + plan.quantityOwed;
+
+          if (order.quantity < required) {
+            order = await tx.wholesalerOrder.update({
+              where: { id: order.id },
+              data: { quantity: required },
+            });
+          }
+        }
+
+        return tx.owing.create({
+          data: {
+            pharmacyId: input.pharmacyId,
+            prescriptionId: prescription.id,
+            pharmacyOdsCode: input.pharmacyOdsCode,
+            nhsNumber: prescription.subject?.reference?.split('/').pop(),
+            patientName: prescription.subject?.display,
+            medicationName: inventoryItem.name,
+            inventoryItemId: inventoryItem.id,
+            quantityPrescribed: plan.quantityPrescribed,
+            quantitySupplied: plan.quantitySupplied,
+            quantityOwed: plan.quantityOwed,
+            unit: prescription.dispenseRequest?.quantity?.unit,
+            promisedDate: input.promisedDate
+              || order.expectedDeliveryDate
+              || addWorkingDays(new Date(), DEFAULT_OWING_WORKING_DAYS),
+            wholesalerOrderId: order.id,
+            createdById: input.userId,
+          },
+          include: { wholesalerOrder: true },
+        });
+      });
+
+      await AuditService.logPrescriptionAction('OWING_CREATED', prescription.id, input.userId, {
+        owingId: owing.id,
+        quantitySupplied: plan.quantitySupplied,
+        quantityOwed: plan.quantityOwed,
+        wholesalerOrderId: owing.wholesalerOrderId,
+      });
+
+      return owing;
+    } catch (error) {
+      console.error('Error creating owing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Book in a wholesaler delivery and mark the owings it covers as ready
+   * A Schedule 2/3 controlled drug's delivery is also entered in its CD register.
+   * @param orderId - The wholesaler order ID
+   * @param pharmacyId - The pharmacy the order belongs to
+   * @param receivedQuantity - Quantity delivered
+   * @param userId - The user receiving the order
+   * @param invoiceNumber - The delivery's invoice number, for the CD register (defaults to the order reference)
+   * @returns The order and the owings now ready to collect
+   */
+  async receiveWholesalerOrder(
+    orderId: string,
+    pharmacyId: string,
+    receivedQuantity: number,
+    userId?: string,
+    invoiceNumber?: string
+  ) {
+    try {
+      if (!Number.isInteger(receivedQuantity) || receivedQuantity <= 0) {
+        throw new Error('Received quantity must be a whole number greater than zero');
+      }
+
+      const order = await tenantPrisma.wholesalerOrder.findUnique({ where: { id: orderId } });
+      if (!order || order.pharmacyId !== pharmacyId) {
+        throw new Error(`Wholesaler order ${orderId} not found`);
+      }
+
+      if (!['PENDING', 'PLACED'].includes(order.status)) {
+        throw new Error(`Wholesaler order ${orderId} is already ${order.status.toLowerCase()}`);
+      }
+
+      // Controlled drug stock can't come in without its register receipt
+      const inventoryItem = await tenantPrisma.inventoryItem.findUnique({ where: { id: order.inventoryItemId } });
+      const controlledDrugRegister = inventoryItem?.cdSchedule
+        ? await ControlledDrugService.findRegisterForInventoryItem(inventoryItem.id)
+        : null;
+
+      if (inventoryItem?.cdSchedule && !controlledDrugRegister) {
+        throw new Error(`No controlled drug register is open for ${inventoryItem.name}`);
+      }
+
+      const updatedOrder = await tenantPrisma.$transaction(async (tx) => {
+        await tx.inventoryItem.update({
+          where: { id: order.inventoryItemId },
+          data: { currentStock: { increment: receivedQuantity } },
+        });
+
+        if (controlledDrugRegister) {
+          await ControlledDrugService.recordReceipt(controlledDrugRegister.id, {
+            quantity: receivedQuantity,
+            supplierName: order.wholesaler || inventoryItem?.supplier || '',
+            invoiceNumber: invoiceNumber || order.orderReference || '',
+            wholesalerOrderId: orderId,
+            recordedById: userId || 'SYSTEM',
+          }, tx);
+        }
+
+        return tx.wholesalerOrder.update({
+          where: { id: orderId },
+          data: { status: 'DELIVERED', receivedQuantity, receivedAt: new Date() },
+        });
+      });
+
+      const readyOwings = await this.markReadyOwings(order.inventoryItemId, userId);
+
+      return { order: updatedOrder, readyOwings };
+    } catch (error) {
+      console.error('Error receiving wholesaler order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark outstanding owings ready where stock now covers them, and tell the patients
+   * @param inventoryItemId - The inventory item that has stock
+   * @param userId - The user who triggered the check
+   * @returns The owings made ready
+   */
+  async markReadyOwings(inventoryItemId: string, userId?: string) {
+    const inventoryItem = await tenantPrisma.inventoryItem.findUnique({ where: { id: inventoryItemId } });
+    if (!inventoryItem) {
+      return [];
+    }
+
+    const [ready, outstanding] = await Promise.all([
+      tenantPrisma.owing.findMany({ where: { inventoryItemId, status: 'READY' } }),
+      tenantPrisma.owing.findMany({
+        where: { inventoryItemId, status: 'OUTSTANDING' },
+        orderBy: [{ promisedDate: 'asc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    // Stock already set aside for owings waiting to be collected isn't available
+    const setAside = ready.reduce((sum, owing) => sum + owing.quantityOwed, 0);
+    const allocated = allocateStock(outstanding, inventoryItem.currentStock - setAside);
+
+    const readyOwings = [];
+
+    for (const owingId of allocated) {
+      const owing = await tenantPrisma.owing.update({
+        where: { id: owingId },
+        data: { status: 'READY' },
+        include: { pharmacy: true },
+      });
+
+      await AuditService.logPrescriptionAction('OWING_READY', owing.prescriptionId, userId || 'SYSTEM', {
+        owingId,
+        quantityOwed: owing.quantityOwed,
+      });
+
+      readyOwings.push(await this.notifyPatient(owing));
+    }
+
+    return readyOwings;
+  }
+
+  /**
+   * Hand over the balance: send the final Dispense Notification, update stock and record the claim
+   * EPS is told first, as for the partial dispense. The stock and the owing then
+   * move together, and only while the owing is still open, so a retry after an
+   * EPS failure (or a second click) never deducts the balance twice.
+   * @param owingId - The owing ID
+   * @param pharmacyId - The pharmacy the owing belongs to
+   * @param userId - The user handing over the balance
+   * @param claim - Exemption, charges and endorsements for the claim
+   * @returns The fulfilled owing, the inventory update and the claim ID (or why it wasn't recorded)
+   */
+  async fulfilOwing(owingId: string, pharmacyId: string, userId: string, claim?: CreateClaimInput) {
+    try {
+      const owing = await this.getOpenOwing(owingId, pharmacyId);
+
+      const prescription = await EPSService.getPrescription(owing.prescriptionId);
+
+      // A controlled drug's register must be able to take the supply before EPS records it
+      await InventoryPrescriptionService.checkControlledDrugSupply(prescription, owing.quantityOwed);
+
+      await EPSService.sendDispenseNotification({
+        pharmacyOdsCode: owing.pharmacyOdsCode,
+        items: [{ medicationRequest: prescription, status: 'dispensed', quantity: owing.quantityOwed }],
+      });
+
+      const { fulfilled, inventoryUpdate } = await tenantPrisma.$transaction(async (tx) => {
+        const { count } = await tx.owing.updateMany({
+          where: { id: owingId, status: { in: ['OUTSTANDING', 'READY'] } },
+          data: { status: 'FULFILLED', fulfilledAt: new Date(), fulfilledById: userId },
+        });
+
+        if (count === 0) {
+          throw new Error(`Owing ${owingId} is no longer open`);
+        }
+
+        return {
+          fulfilled: await tx.owing.findUniqueOrThrow({ where: { id: owingId } }),
+          inventoryUpdate: await InventoryPrescriptionService.updateInventoryAfterDispensing(
+            prescription,
+            userId,
+            owing.quantityOwed,
+            tx
+          ),
+        };
+      });
+
+      await AuditService.logPrescriptionAction('OWING_FULFILLED', owing.prescriptionId, userId, {
+        owingId,
+        quantityOwed: owing.quantityOwed,
+      });
+
+      // The prescription is complete in EPS now, so it can be claimed
+      let claimResult: { claimId?: string; claimError?: string };
+      try {
+        const recorded = await ClaimService.createClaim(owing.pharmacyId, prescription, { ...claim, userId });
+        claimResult = { claimId: recorded.id };
+      } catch (error: any) {
+        console.error(`Error recording claim for prescription ${owing.prescriptionId}:`, error);
+        claimResult = { claimError: error.message };
+      }
+
+      return { owing: fulfilled, inventoryUpdate, ...claimResult };
+    } catch (error) {
+      console.error('Error fulfilling owing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an owing the patient no longer needs
+   * @param owingId - The owing ID
+   * @param pharmacyId - The pharmacy the owing belongs to
+   * @param userId - The user cancelling
+   * @returns The cancelled owing
+   */
+  async cancelOwing(owingId: string, pharmacyId: string, userId?: string) {
+    const owing = await this.getOpenOwing(owingId, pharmacyId);
+
+    const cancelled = await tenantPrisma.owing.update({
+      where: { id: owingId },
+      data: { status: 'CANCELLED' },
+    });
+
+    await AuditService.logPrescriptionAction('OWING_CANCELLED', owing.prescriptionId, userId || 'SYSTEM', {
+      owingId,
+      previousStatus: owing.status,
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * List a pharmacy's owings
+   * @param pharmacyId - The pharmacy ID
+   * @param status - Optional status filter
+   * @returns Owings with their wholesaler orders, soonest promise first
+   */
+  async getOwings(pharmacyId: string, status?: OwingStatus) {
+    return tenantPrisma.owing.findMany({
+      where: { pharmacyId, ...(status ? { status } : {}) },
+      include: { wholesalerOrder: true },
+      orderBy: { promisedDate: 'asc' },
+    });
+  }
+
+  /**
+   * List a pharmacy's wholesaler orders that haven't been delivered
+   * @param pharmacyId - The pharmacy ID
+   * @returns Pending and placed orders with the owings waiting on them
+   */
+  async getOpenWholesalerOrders(pharmacyId: string) {
+    return tenantPrisma.wholesalerOrder.findMany({
+      where: { pharmacyId, status: { in: ['PENDING', 'PLACED'] } },
+      include: {
+        inventoryItem: { select: { name: true, productCode: true } },
+        owings: { where: { status: 'OUTSTANDING' } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find an owing that can still be fulfilled or cancelled
+   */
+  private async getOpenOwing(owingId: string, pharmacyId: string) {
+    const owing = await tenantPrisma.owing.findUnique({ where: { id: owingId } });
+    if (!owing || owing.pharmacyId !== pharmacyId) {
+      throw new Error(`Owing ${owingId} not found`);
+    }
+
+    if (!['OUTSTANDING', 'READY'].includes(owing.status)) {
+      throw new Error(`Owing ${owingId} is already ${owing.status.toLowerCase()}`);
+    }
+
+    return owing;
+  }
+
+  /**
+   * Tell the patient their balance is ready; a failed message doesn't undo the owing
+   */
+  private async notifyPatient(owing: any) {
+    try {
+      const patient = owing.nhsNumber
+        ? await tenantPrisma.patient.findFirst({ where: { pharmacyId: owing.pharmacyId, nhsNumber: owing.nhsNumber } })
+        : null;
+
+      if (!patient) {
+        console.warn(`Cannot notify patient for owing ${owing.id}: patient not registered at the pharmacy`);
+        return owing;
+      }
+
+      const sent = await MessagingService.sendOwingReadyNotification(patient, owing);
+      if (!isDispatched(sent)) {
+        return owing;
+      }
+
+      return await tenantPrisma.owing.update({
+        where: { id: owing.id },
+        data: { notifiedAt: new Date() },
+      });
+    } catch (error) {
+      console.error(`Error notifying patient for owing ${owing.id}:`, error);
+      return owing;
+    }
+  }
+}
+
+export default new OwingService();
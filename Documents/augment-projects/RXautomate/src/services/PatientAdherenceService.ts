@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { NotificationService } from './NotificationService';
 import { EPSService, Prescription } from './EPSService';
+import MessagingService, { isDispatched } from './MessagingService';
+import { runAsSystem } from '@/lib/db/tenant';
 
 export enum AdherenceStatus {
   OPTIMAL = 'OPTIMAL',
@@ -40,7 +42,6 @@ export interface PatientAdherenceData {
 export interface AdherenceReminderConfig {
   reminderEnabled: boolean;
   daysBeforeRefill: number;
-  reminderMethod: 'SMS' | 'EMAIL' | 'BOTH';
   secondaryReminderEnabled: boolean;
   secondaryReminderDays: number;
 }
@@ -318,7 +319,11 @@ export class PatientAdherenceService {
           }
         },
         include: {
-          patient: true
+          patient: {
+            include: {
+              pharmacy: true
+            }
+          }
         }
       });
       
@@ -357,39 +362,18 @@ export class PatientAdherenceService {
         // Send reminder
         const { patient, medications } = data;
         
-        if (!patient.phoneNumber && !patient.email) {
-          continue; // No contact method available
-        }
-        
-        // Create notification content
-        const medicationList = medications.join(", ");
-        const message = `Hello ${patient.firstName}, this is a reminder that you're due to refill ${medications.length > 1 ? 'these medications' : 'this medication'}: ${medicationList}. Please contact your pharmacy to arrange a refill.`;
+        // Sent on the patient's preferred channel, subject to consent, STOP replies and quiet hours.
+        // The job covers every pharmacy's patients, so it runs outside any one tenant.
+        const sent = await runAsSystem(() => MessagingService.sendToPatient(patient, 'ADHERENCE_REMINDER', {
+          firstName: patient.firstName,
+          lastName: patient.lastName,
+          pharmacyName: patient.pharmacy?.name || '',
+          pharmacyPhone: patient.pharmacy?.phoneNumber || '',
+          medicationList: medications.join(', ')
+        }, { pharmacyId: patient.pharmacyId }));
         
-        // Send notification based on preferred method
-        if (config.reminderMethod === 'SMS' || config.reminderMethod === 'BOTH') {
-          if (patient.phoneNumber) {
-            await this.notificationService.sendNotification({
-              type: 'SMS',
-              title: 'Medication Refill Reminder',
-              message,
-              recipientId: patient.id,
-              recipientName: `${patient.firstName} ${patient.lastName}`,
-              recipientPhone: patient.phoneNumber
-            });
-          }
-        }
-        
-        if (config.reminderMethod === 'EMAIL' || config.reminderMethod === 'BOTH') {
-          if (patient.email) {
-            await this.notificationService.sendNotification({
-              type: 'EMAIL',
-              title: 'Medication Refill Reminder',
-              message,
-              recipientId: patient.id,
-              recipientName: `${patient.firstName} ${patient.lastName}`,
-              recipientEmail: patient.email
-            });
-          }
+        if (!isDispatched(sent)) {
+          continue;
         }
         
         // Log the notification
@@ -501,7 +485,6 @@ export class PatientAdherenceService {
     return {
       reminderEnabled: true,
       daysBeforeRefill: 7,
-      reminderMethod: 'SMS',
       secondaryReminderEnabled: true,
       secondaryReminderDays: 2
     };
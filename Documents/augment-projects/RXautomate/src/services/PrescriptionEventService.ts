@@ -0,0 +1,312 @@
+import { EventEmitter } from 'events';
+import { runAsSystem, tenantPrisma } from '@/lib/db/tenant';
+import EPSService, { Prescription } from './EPSService';
+import AuditService from './AuditService';
+import StaffNotificationService, {
+  CreateStaffNotificationInput,
+  StaffNotificationContent,
+  buildExpiringPrescriptionsNotification,
+  buildNewPrescriptionsNotification,
+  buildStatusUpdateNotification,
+} from './StaffNotificationService';
+
+// Days before the end of the validity period to warn that a prescription is expiring
+export const EXPIRY_WARNING_DAYS = Number(process.env.PRESCRIPTION_EXPIRY_WARNING_DAYS || 7);
+
+// How often a pharmacy with open streams is checked for new prescriptions
+export const WATCH_INTERVAL_MS = Number(process.env.PRESCRIPTION_WATCH_INTERVAL_MS || 15000);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PrescriptionCheckResult {
+  newPrescriptions: Prescription[];
+  expiringPrescriptions: Prescription[];
+  cursor: string; // Pass back as `since` (or Last-Event-ID) to continue from here
+}
+
+export type PrescriptionEvent =
+  | { type: 'prescriptions'; data: PrescriptionCheckResult }
+  | { type: 'status'; data: { prescription: Prescription; oldStatus: string; newStatus: string } }
+  | { type: 'notification'; data: { id: string } }; // Fetch it to see whether it's for you
+
+/**
+ * Pick out prescriptions written since a cursor and those that entered the expiry warning window since it
+ * @param prescriptions - The pharmacy's active prescriptions
+ * @param since - The cursor
+ * @param now - The current date
+ * @param warningDays - Days before expiry to warn
+ * @returns New and expiring prescriptions
+ */
+export function findNewAndExpiring(
+  prescriptions: Prescription[],
+  since: Date,
+  now: Date,
+  warningDays: number = EXPIRY_WARNING_DAYS
+) {
+  const newPrescriptions = prescriptions.filter(prescription => {
+    const authoredOn = new Date(prescription.authoredOn);
+    return authoredOn > since && authoredOn <= now;
+  });
+
+  // Only report each prescription once, when it crosses into the warning window
+  const expiringPrescriptions = prescriptions.filter(prescription => {
+    const end = prescription.dispenseRequest?.validityPeriod?.end;
+    if (!end) {
+      return false;
+    }
+
+    const warnFrom = new Date(new Date(end).getTime() - warningDays * DAY_MS);
+    return warnFrom > since && warnFrom <= now;
+  });
+
+  return { newPrescriptions, expiringPrescriptions };
+}
+
+/**
+ * Service for live prescription updates to dispensary terminals
+ *
+ * Streams subscribe by pharmacy ODS code. While a pharmacy has at least one
+ * open stream, a single watcher checks EPS for it and fans new and expiring
+ * prescriptions out to every stream; status changes made in this app are
+ * published as they happen. Each is also stored as a team notification.
+ * Subscriptions are held in memory, so each server instance watches for its
+ * own streams.
+ */
+export class PrescriptionEventService {
+  private emitter = new EventEmitter();
+  private watchers = new Map<string, { timer: NodeJS.Timeout; knownIds: Set<string> | null; cursor: Date }>();
+
+  constructor() {
+    // One listener per open terminal
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Find prescriptions new since a cursor and those about to expire
+   * @param pharmacyOdsCode - The pharmacy ODS code
+   * @param since - The cursor
+   * @param now - The current date
+   * @returns New and expiring prescriptions with the next cursor
+   */
+  async checkNew(pharmacyOdsCode: string, since: Date, now: Date = new Date()): Promise<PrescriptionCheckResult> {
+    const prescriptions = await this.getActivePrescriptions(pharmacyOdsCode);
+
+    return {
+      ...findNewAndExpiring(prescriptions, since, now),
+      cursor: now.toISOString(),
+    };
+  }
+
+  /**
+   * Get the ODS code of a pharmacy
+   * @param pharmacyId - The pharmacy ID
+   * @returns The ODS code, or null if it hasn't been set
+   */
+  async getPharmacyOdsCode(pharmacyId: string): Promise<string | null> {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({
+      where: { id: pharmacyId },
+      select: { odsCode: true },
+    });
+
+    return pharmacy?.odsCode || null;
+  }
+
+  /**
+   * Receive a pharmacy's prescription events
+   * @param pharmacyOdsCode - The pharmacy ODS code
+   * @param listener - Called for each event
+   * @returns A function that unsubscribes
+   */
+  subscribe(pharmacyOdsCode: string, listener: (event: PrescriptionEvent) => void): () => void {
+    this.emitter.on(pharmacyOdsCode, listener);
+    this.startWatcher(pharmacyOdsCode);
+
+    return () => {
+      this.emitter.off(pharmacyOdsCode, listener);
+
+      if (this.emitter.listenerCount(pharmacyOdsCode) === 0) {
+        this.stopWatcher(pharmacyOdsCode);
+      }
+    };
+  }
+
+  /**
+   * Send an event to every open stream for a pharmacy
+   * @param pharmacyOdsCode - The pharmacy ODS code
+   * @param event - The event
+   */
+  publish(pharmacyOdsCode: string, event: PrescriptionEvent): void {
+    this.emitter.emit(pharmacyOdsCode, event);
+  }
+
+  /**
+   * Tell a pharmacy's terminals a prescription's status changed
+   * The change has already been made in EPS, so a failure here is only logged
+   * @param pharmacyId - The pharmacy that made the change
+   * @param prescription - The prescription after the change
+   * @param oldStatus - Its status before the change
+   */
+  async publishStatusChange(
+    pharmacyId: string | null | undefined,
+    prescription: Prescription,
+    oldStatus: string
+  ): Promise<void> {
+    if (!pharmacyId) {
+      return;
+    }
+
+    try {
+      const pharmacy = await tenantPrisma.pharmacy.findUnique({
+        where: { id: pharmacyId },
+        select: { id: true, odsCode: true },
+      });
+      if (!pharmacy?.odsCode) {
+        return;
+      }
+
+      this.publish(pharmacy.odsCode, {
+        type: 'status',
+        data: { prescription, oldStatus, newStatus: prescription.status },
+      });
+
+      await this.notifyTeam(pharmacy.id, pharmacy.odsCode, buildStatusUpdateNotification(prescription, oldStatus, prescription.status));
+
+      AuditService.logSystemEvent('PRESCRIPTION_STATUS_UPDATE_NOTIFICATION', {
+        prescriptionId: prescription.id,
+        oldStatus,
+        newStatus: prescription.status,
+      });
+    } catch (error) {
+      console.error('Error publishing prescription status change:', error);
+    }
+  }
+
+  /**
+   * Store a notification for a pharmacy's team and tell its open terminals
+   * @param pharmacyId - The pharmacy ID
+   * @param pharmacyOdsCode - The pharmacy ODS code
+   * @param content - The notification
+   * @param target - Limit it to one user or pharmacy role
+   * @returns The stored notification
+   */
+  async notifyTeam(
+    pharmacyId: string,
+    pharmacyOdsCode: string | null,
+    content: StaffNotificationContent,
+    target: Pick<CreateStaffNotificationInput, 'userId' | 'pharmacyRole' | 'createdById'> = {}
+  ) {
+    const notification = await StaffNotificationService.createNotification({ pharmacyId, ...content, ...target });
+
+    if (pharmacyOdsCode) {
+      this.publish(pharmacyOdsCode, { type: 'notification', data: { id: notification.id } });
+    }
+
+    return notification;
+  }
+
+  /**
+   * Start checking a pharmacy for new prescriptions, unless already checking
+   * New prescriptions are found by ID rather than date written, so one that
+   * reaches the pharmacy some time after it was written still counts as new
+   */
+  private startWatcher(pharmacyOdsCode: string): void {
+    if (this.watchers.has(pharmacyOdsCode)) {
+      return;
+    }
+
+    // The watcher outlives the request that started it and notifies every subscribed pharmacy
+    const check = () => runAsSystem(() => this.checkWatched(pharmacyOdsCode));
+    const watcher = {
+      knownIds: null as Set<string> | null,
+      cursor: new Date(),
+      timer: setInterval(check, WATCH_INTERVAL_MS),
+    };
+
+    // Don't keep the process alive just to watch
+    watcher.timer.unref?.();
+
+    this.watchers.set(pharmacyOdsCode, watcher);
+    check();
+  }
+
+  private stopWatcher(pharmacyOdsCode: string): void {
+    const watcher = this.watchers.get(pharmacyOdsCode);
+    if (watcher) {
+      clearInterval(watcher.timer);
+      this.watchers.delete(pharmacyOdsCode);
+    }
+  }
+
+  private async checkWatched(pharmacyOdsCode: string): Promise<void> {
+    const watcher = this.watchers.get(pharmacyOdsCode);
+    if (!watcher) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      const prescriptions = await this.getActivePrescriptions(pharmacyOdsCode);
+
+      // The first check only learns what's already there
+      const newPrescriptions = watcher.knownIds
+        ? prescriptions.filter(prescription => !watcher.knownIds!.has(prescription.id))
+        : [];
+      const { expiringPrescriptions } = findNewAndExpiring(prescriptions, watcher.cursor, now);
+
+      watcher.knownIds = new Set(prescriptions.map(prescription => prescription.id));
+      watcher.cursor = now;
+
+      if (newPrescriptions.length > 0 || expiringPrescriptions.length > 0) {
+        this.publish(pharmacyOdsCode, {
+          type: 'prescriptions',
+          data: { newPrescriptions, expiringPrescriptions, cursor: now.toISOString() },
+        });
+        await this.notifyTeamOfPrescriptions(pharmacyOdsCode, newPrescriptions, expiringPrescriptions);
+      }
+    } catch (error) {
+      // Try again on the next tick
+      console.error(`Error checking for new prescriptions for pharmacy ${pharmacyOdsCode}:`, error);
+    }
+  }
+
+  private async notifyTeamOfPrescriptions(
+    pharmacyOdsCode: string,
+    newPrescriptions: Prescription[],
+    expiringPrescriptions: Prescription[]
+  ): Promise<void> {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({
+      where: { odsCode: pharmacyOdsCode },
+      select: { id: true },
+    });
+    if (!pharmacy) {
+      return;
+    }
+
+    if (newPrescriptions.length > 0) {
+      await this.notifyTeam(pharmacy.id, pharmacyOdsCode, buildNewPrescriptionsNotification(newPrescriptions));
+      AuditService.logSystemEvent('NEW_PRESCRIPTIONS_NOTIFICATION', {
+        count: newPrescriptions.length,
+        prescriptionIds: newPrescriptions.map(p => p.id),
+      });
+    }
+
+    if (expiringPrescriptions.length > 0) {
+      await this.notifyTeam(pharmacy.id, pharmacyOdsCode, buildExpiringPrescriptionsNotification(expiringPrescriptions));
+      AuditService.logSystemEvent('EXPIRING_PRESCRIPTIONS_NOTIFICATION', {
+        count: expiringPrescriptions.length,
+        prescriptionIds: expiringPrescriptions.map(p => p.id),
+      });
+    }
+  }
+
+  private async getActivePrescriptions(pharmacyOdsCode: string): Promise<Prescription[]> {
+    // Always read EPS, not a cached search
+    EPSService.clearPharmacyCache(pharmacyOdsCode);
+
+    const bundle = await EPSService.getPharmacyPrescriptions(pharmacyOdsCode, { status: 'active' });
+
+    return (bundle.entry || []).map(entry => entry.resource);
+  }
+}
+
+export default new PrescriptionEventService();
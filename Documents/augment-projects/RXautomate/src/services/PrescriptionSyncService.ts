@@ -0,0 +1,487 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService from './AuditService';
+import EPSService, { Prescription, PrescriptionStatus as EpsStatus } from './EPSService';
+import NHSSpineService, { PatientDetails } from './NHSSpineService';
+
+export type LocalPrescriptionStatus = 'PENDING' | 'PROCESSING' | 'DISPENSED' | 'COLLECTED' | 'CANCELLED' | 'EXPIRED';
+
+// MedicationRequests fetched per page
+export const SYNC_PAGE_SIZE = Number(process.env.EPS_SYNC_PAGE_SIZE || 100);
+
+// Open local prescriptions re-checked against EPS per run, oldest checked first
+export const SYNC_RECHECK_LIMIT = Number(process.env.EPS_SYNC_RECHECK_LIMIT || 50);
+
+// Attempts before a prescription that won't sync is dead-lettered and left for someone to look at
+export const SYNC_MAX_ATTEMPTS = Number(process.env.EPS_SYNC_MAX_ATTEMPTS || 5);
+
+// Local statuses EPS can still change
+const OPEN_STATUSES: LocalPrescriptionStatus[] = ['PENDING', 'PROCESSING'];
+
+export interface SyncResult {
+  pharmacyOdsCode: string;
+  created: number;
+  updated: number;
+  rechecked: number;
+  retried: number; // Earlier failures stored this run
+  deadLettered: number;
+  errors: { prescriptionId: string; error: string }[];
+  cursor: Date | null;
+}
+
+/**
+ * Map an EPS (FHIR) status onto the local prescription status
+ * @param epsStatus - MedicationRequest status
+ * @param expiryDate - End of the validity period, if known
+ * @param now - The current date
+ * @returns The local status
+ */
+export function mapEpsStatus(epsStatus: EpsStatus, expiryDate?: Date | null, now: Date = new Date()): LocalPrescriptionStatus {
+  switch (epsStatus) {
+    case 'completed':
+      return 'DISPENSED';
+    case 'cancelled':
+    case 'stopped':
+    case 'entered-in-error':
+      return 'CANCELLED';
+    case 'on-hold':
+      return 'PROCESSING';
+    default:
+      return expiryDate && expiryDate < now ? 'EXPIRED' : 'PENDING';
+  }
+}
+
+/**
+ * Decide the local status after an upstream change
+ * Local-only progress (processing, collected) is kept unless EPS has moved on
+ * @param localStatus - The current local status
+ * @param upstream - The status mapped from EPS
+ * @returns The status to store
+ */
+export function resolveStatus(localStatus: LocalPrescriptionStatus, upstream: LocalPrescriptionStatus): LocalPrescriptionStatus {
+  // Collected is a local step after EPS has it as completed
+  if (localStatus === 'COLLECTED' && upstream === 'DISPENSED') {
+    return localStatus;
+  }
+
+  // Being worked on locally while EPS still has it as active
+  if (localStatus === 'PROCESSING' && upstream === 'PENDING') {
+    return localStatus;
+  }
+
+  return upstream;
+}
+
+/**
+ * Build the local prescription item from a MedicationRequest
+ * @param prescription - The MedicationRequest
+ * @returns The item fields
+ */
+export function buildPrescriptionItem(prescription: Prescription) {
+  const coding = prescription.medicationCodeableConcept?.coding?.[0];
+  const dosage = prescription.dosageInstruction?.[0];
+  const dose = dosage?.doseAndRate?.[0]?.doseQuantity;
+
+  return {
+    medicationName: prescription.medicationReference?.display || coding?.display || 'Unknown medication',
+    medicationCode: coding?.code,
+    dosage: dose ? `${dose.value} ${dose.unit}` : dosage?.text || '',
+    quantity: prescription.dispenseRequest?.quantity?.value || 1,
+    instructions: dosage?.text || '',
+  };
+}
+
+/**
+ * Build a local patient from their PDS record
+ * @param details - The PDS Patient resource
+ * @param nhsNumber - The NHS number
+ * @returns The patient fields
+ */
+export function buildPatientFromPds(details: PatientDetails, nhsNumber: string) {
+  const name = details.name?.find(n => n.use === 'usual') || details.name?.[0];
+  const address = details.address?.find(a => a.use === 'home') || details.address?.[0];
+  const phone = details.telecom?.find(t => t.system === 'phone');
+  const email = details.telecom?.find(t => t.system === 'email');
+
+  return {
+    nhsNumber,
+    firstName: name?.given?.[0] || '',
+    lastName: name?.family || '',
+    dateOfBirth: new Date(details.birthDate),
+    address: address?.line?.join(', ') || '',
+    postcode: address?.postalCode || '',
+    phoneNumber: phone?.value,
+    email: email?.value,
+  };
+}
+
+/**
+ * Service to keep a local copy of each pharmacy's nominated EPS prescriptions
+ *
+ * Each run pulls MedicationRequests written since the pharmacy's cursor
+ * (dateWritten:ge), upserts them into Prescription/PrescriptionItem/Patient
+ * and moves the cursor on. Prescriptions written earlier don't come back in
+ * that search, so open local prescriptions are also re-read from EPS to pick
+ * up status changes made upstream. One that fails to store is recorded in
+ * PrescriptionSyncFailure and retried on its own each run, so it can't hold
+ * the cursor back, until SYNC_MAX_ATTEMPTS dead-letters it.
+ */
+export class PrescriptionSyncService {
+  /**
+   * Sync every active pharmacy that has an ODS code
+   * Reads across tenants, so the scheduler runs it with runAsSystem.
+   * @returns One result per pharmacy; a failing pharmacy doesn't stop the rest
+   */
+  async syncAllPharmacies() {
+    const pharmacies = await tenantPrisma.pharmacy.findMany({
+      where: { isActive: true, odsCode: { not: null } },
+      select: { id: true },
+    });
+
+    const results: (SyncResult | { pharmacyId: string; error: string })[] = [];
+
+    for (const pharmacy of pharmacies) {
+      try {
+        results.push(await this.syncPharmacy(pharmacy.id));
+      } catch (error: any) {
+        results.push({ pharmacyId: pharmacy.id, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Pull a pharmacy's new and changed nominated prescriptions into the local tables
+   * @param pharmacyId - The pharmacy ID
+   * @param now - The current date
+   * @returns Counts of what changed, per-prescription errors and the new cursor
+   */
+  async syncPharmacy(pharmacyId: string, now: Date = new Date()): Promise<SyncResult> {
+    const pharmacy = await tenantPrisma.pharmacy.findUnique({ where: { id: pharmacyId } });
+    if (!pharmacy) {
+      throw new Error(`Pharmacy ${pharmacyId} not found`);
+    }
+
+    if (!pharmacy.odsCode) {
+      throw new Error(`Pharmacy ${pharmacy.name} has no ODS code`);
+    }
+
+    const pharmacyOdsCode = pharmacy.odsCode;
+
+    const existingCursor = await tenantPrisma.prescriptionSyncCursor.findUnique({ where: { pharmacyId } });
+    const result: SyncResult = {
+      pharmacyOdsCode,
+      created: 0,
+      updated: 0,
+      rechecked: 0,
+      retried: 0,
+      deadLettered: 0,
+      errors: [],
+      cursor: existingCursor?.lastDateWritten || null,
+    };
+
+    try {
+      const seen = new Set<string>();
+
+      await this.retryFailures(pharmacyId, result, seen, now);
+
+      // Page forward through dateWritten until a short page or no progress
+      while (true) {
+        // Always read EPS, not a cached search
+        EPSService.clearPharmacyCache(pharmacyOdsCode);
+
+        const bundle = await EPSService.getPharmacyPrescriptions(pharmacyOdsCode, {
+          ...(result.cursor ? { dateWrittenFrom: result.cursor.toISOString() } : {}),
+          _sort: 'dateWritten',
+          _count: SYNC_PAGE_SIZE,
+        });
+
+        const prescriptions = (bundle.entry || []).map(entry => entry.resource);
+        let latest = result.cursor;
+
+        for (const prescription of prescriptions) {
+          const authoredOn = new Date(prescription.authoredOn);
+
+          // A failure is retried from its own record, so the cursor moves past it
+          if (!latest || authoredOn > latest) {
+            latest = authoredOn;
+          }
+
+          if (seen.has(prescription.id)) {
+            continue;
+          }
+          seen.add(prescription.id);
+
+          try {
+            const outcome = await this.upsertPrescription(pharmacyId, prescription, now);
+            if (outcome === 'created') result.created++;
+            if (outcome === 'updated') result.updated++;
+          } catch (error: any) {
+            console.error(`Error syncing prescription ${prescription.id}:`, error);
+            await this.recordFailure(pharmacyId, prescription.id, authoredOn, error.message, result, now);
+          }
+        }
+
+        const advanced = Boolean(latest) && latest!.getTime() !== result.cursor?.getTime();
+        result.cursor = latest;
+
+        if (prescriptions.length < SYNC_PAGE_SIZE || !advanced) {
+          break;
+        }
+      }
+
+      result.rechecked = await this.recheckOpenPrescriptions(pharmacyId, seen, now);
+
+      // Only a run that stored everything counts as a success
+      const succeeded = result.errors.length === 0;
+
+      await tenantPrisma.prescriptionSyncCursor.upsert({
+        where: { pharmacyId },
+        create: {
+          pharmacyId,
+          pharmacyOdsCode,
+          lastDateWritten: result.cursor,
+          lastRunAt: now,
+          lastSuccessAt: succeeded ? now : null,
+          lastError: result.errors[0]?.error || null,
+          syncedCount: result.created + result.updated,
+        },
+        update: {
+          pharmacyOdsCode,
+          lastDateWritten: result.cursor,
+          lastRunAt: now,
+          ...(succeeded ? { lastSuccessAt: now } : {}),
+          lastError: result.errors[0]?.error || null,
+          syncedCount: result.created + result.updated,
+        },
+      });
+
+      await AuditService.logSystemEvent('PRESCRIPTION_SYNC', {
+        pharmacyId,
+        pharmacyOdsCode,
+        created: result.created,
+        updated: result.updated,
+        rechecked: result.rechecked,
+        retried: result.retried,
+        deadLettered: result.deadLettered,
+        errorCount: result.errors.length,
+        cursor: result.cursor?.toISOString(),
+      });
+
+      return result;
+    } catch (error: any) {
+      console.error(`Error syncing prescriptions for pharmacy ${pharmacyOdsCode}:`, error);
+
+      // Keep the cursor where it was so nothing is skipped
+      await tenantPrisma.prescriptionSyncCursor.upsert({
+        where: { pharmacyId },
+        create: { pharmacyId, pharmacyOdsCode, lastRunAt: now, lastError: error.message },
+        update: { lastRunAt: now, lastError: error.message },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get a pharmacy's sync cursor
+   * @param pharmacyId - The pharmacy ID
+   * @returns The cursor, or null if it has never synced
+   */
+  async getCursor(pharmacyId: string) {
+    return tenantPrisma.prescriptionSyncCursor.findUnique({ where: { pharmacyId } });
+  }
+
+  /**
+   * Get the prescriptions a pharmacy's sync has given up on
+   * @param pharmacyId - The pharmacy ID
+   * @returns The dead-lettered failures, oldest first
+   */
+  async getDeadLetters(pharmacyId: string) {
+    return tenantPrisma.prescriptionSyncFailure.findMany({
+      where: { pharmacyId, deadLetteredAt: { not: null } },
+      orderBy: { dateWritten: 'asc' },
+    });
+  }
+
+  /**
+   * Retry prescriptions that failed on earlier runs, straight from EPS
+   * Each is marked seen so the search and re-check don't try it again this run
+   */
+  private async retryFailures(pharmacyId: string, result: SyncResult, seen: Set<string>, now: Date): Promise<void> {
+    const failures = await tenantPrisma.prescriptionSyncFailure.findMany({
+      where: { pharmacyId, deadLetteredAt: null },
+      orderBy: { dateWritten: 'asc' },
+    });
+
+    for (const failure of failures) {
+      seen.add(failure.epsPrescriptionId);
+
+      try {
+        EPSService.clearPrescriptionCache(failure.epsPrescriptionId);
+        const prescription = await EPSService.getPrescription(failure.epsPrescriptionId);
+
+        const outcome = await this.upsertPrescription(pharmacyId, prescription, now);
+        if (outcome === 'created') result.created++;
+        if (outcome === 'updated') result.updated++;
+
+        await tenantPrisma.prescriptionSyncFailure.delete({ where: { id: failure.id } });
+        result.retried++;
+      } catch (error: any) {
+        console.error(`Error retrying prescription ${failure.epsPrescriptionId}:`, error);
+        await this.recordFailure(pharmacyId, failure.epsPrescriptionId, failure.dateWritten, error.message, result, now);
+      }
+    }
+  }
+
+  /**
+   * Record a prescription that couldn't be stored, dead-lettering it after SYNC_MAX_ATTEMPTS
+   */
+  private async recordFailure(
+    pharmacyId: string,
+    epsPrescriptionId: string,
+    dateWritten: Date,
+    message: string,
+    result: SyncResult,
+    now: Date
+  ): Promise<void> {
+    result.errors.push({ prescriptionId: epsPrescriptionId, error: message });
+
+    const failure = await tenantPrisma.prescriptionSyncFailure.upsert({
+      where: { pharmacyId_epsPrescriptionId: { pharmacyId, epsPrescriptionId } },
+      create: { pharmacyId, epsPrescriptionId, dateWritten, lastError: message, lastAttemptAt: now },
+      update: { attempts: { increment: 1 }, lastError: message, lastAttemptAt: now },
+    });
+
+    if (failure.attempts >= SYNC_MAX_ATTEMPTS && !failure.deadLetteredAt) {
+      await tenantPrisma.prescriptionSyncFailure.update({
+        where: { id: failure.id },
+        data: { deadLetteredAt: now },
+      });
+      result.deadLettered++;
+
+      await AuditService.logSystemEvent('PRESCRIPTION_SYNC_DEAD_LETTERED', {
+        pharmacyId,
+        epsPrescriptionId,
+        attempts: failure.attempts,
+        error: message,
+      });
+    }
+  }
+
+  /**
+   * Create or update the local copy of a MedicationRequest
+   * @returns Whether the prescription was created, updated or unchanged
+   */
+  private async upsertPrescription(
+    pharmacyId: string,
+    prescription: Prescription,
+    now: Date
+  ): Promise<'created' | 'updated' | 'unchanged'> {
+    const expiryDate = prescription.dispenseRequest?.validityPeriod?.end
+      ? new Date(prescription.dispenseRequest.validityPeriod.end)
+      : null;
+    const upstream = mapEpsStatus(prescription.status, expiryDate, now);
+
+    const existing = await tenantPrisma.prescription.findUnique({
+      where: { epsPrescriptionId: prescription.id },
+    });
+
+    if (existing) {
+      const status = resolveStatus(existing.status, upstream);
+      const changed = status !== existing.status || prescription.status !== existing.epsStatus;
+
+      await tenantPrisma.prescription.update({
+        where: { id: existing.id },
+        data: { status, epsStatus: prescription.status, lastSyncedAt: now },
+      });
+
+      return changed ? 'updated' : 'unchanged';
+    }
+
+    const patientId = await this.resolvePatient(pharmacyId, prescription);
+
+    await tenantPrisma.prescription.create({
+      data: {
+        prescriptionType: 'NHS',
+        issuedDate: new Date(prescription.authoredOn),
+        expiryDate,
+        status: upstream,
+        epsPrescriptionId: prescription.id,
+        epsStatus: prescription.status,
+        lastSyncedAt: now,
+        patientId,
+        pharmacyId,
+        items: {
+          create: [buildPrescriptionItem(prescription)],
+        },
+      },
+    });
+
+    return 'created';
+  }
+
+  /**
+   * Find the pharmacy's patient for a prescription, registering them from PDS if new
+   * @returns The patient ID
+   */
+  private async resolvePatient(pharmacyId: string, prescription: Prescription): Promise<string> {
+    const nhsNumber = prescription.subject?.reference?.split('/').pop();
+    if (!nhsNumber) {
+      throw new Error('Prescription has no patient NHS number');
+    }
+
+    const patient = await tenantPrisma.patient.findUnique({
+      where: { pharmacyId_nhsNumber: { pharmacyId, nhsNumber } },
+    });
+
+    if (patient) {
+      return patient.id;
+    }
+
+    const details = await NHSSpineService.getPatientByNhsNumber(nhsNumber);
+
+    const created = await tenantPrisma.patient.create({
+      data: {
+        ...buildPatientFromPds(details, nhsNumber),
+        pharmacyId,
+      },
+    });
+
+    return created.id;
+  }
+
+  /**
+   * Re-read open prescriptions this run didn't see, to catch upstream status changes
+   * @returns The number re-checked
+   */
+  private async recheckOpenPrescriptions(pharmacyId: string, seen: Set<string>, now: Date): Promise<number> {
+    const open = await tenantPrisma.prescription.findMany({
+      where: {
+        pharmacyId,
+        epsPrescriptionId: { not: null, notIn: Array.from(seen) },
+        status: { in: OPEN_STATUSES },
+      },
+      orderBy: { lastSyncedAt: 'asc' },
+      take: SYNC_RECHECK_LIMIT,
+    });
+
+    let rechecked = 0;
+
+    for (const local of open) {
+      try {
+        EPSService.clearPrescriptionCache(local.epsPrescriptionId!);
+        const prescription = await EPSService.getPrescription(local.epsPrescriptionId!);
+        await this.upsertPrescription(pharmacyId, prescription, now);
+        rechecked++;
+      } catch (error) {
+        // Picked up again on the next run
+        console.error(`Error re-checking prescription ${local.epsPrescriptionId}:`, error);
+      }
+    }
+
+    return rechecked;
+  }
+}
+
+export default new PrescriptionSyncService();
@@ -1,6 +1,12 @@
 import { PrismaClient } from '@prisma/client';
 import { EPSService } from './EPSService';
 import { NotificationService } from './NotificationService';
+import AuditService from './AuditService';
+import defaultSCRService, { SCRService } from './SCRService';
+import { DrugKnowledgeBaseService, normaliseDrugName } from './DrugKnowledgeBaseService';
+import { DoseRangeService, DosePatientContext, dosageInstructionFromText } from './DoseRangeService';
+import { BUILT_IN_VALIDATION_RULES, ValidationRule, ValidationRuleRegistry } from './ValidationRuleRegistry';
+import { ValidationRuleConfigService, ValidationSettings, applyRuleSetting } from './ValidationRuleConfigService';
 
 /**
  * Service for validating prescriptions using AI-based analysis
@@ -10,15 +16,67 @@ export class PrescriptionValidationService {
   private prisma: PrismaClient;
   private epsService: EPSService;
   private notificationService: NotificationService;
+  private scrService: SCRService;
+  private knowledgeBase: DrugKnowledgeBaseService;
+  private doseRangeService: DoseRangeService;
+  protected ruleRegistry: ValidationRuleRegistry;
+  protected ruleConfigService: ValidationRuleConfigService;
 
   constructor(
     prisma: PrismaClient, 
     epsService: EPSService, 
-    notificationService: NotificationService
+    notificationService: NotificationService,
+    scrService: SCRService = defaultSCRService
   ) {
     this.prisma = prisma;
     this.epsService = epsService;
     this.notificationService = notificationService;
+    this.scrService = scrService;
+    this.knowledgeBase = new DrugKnowledgeBaseService(prisma);
+    this.doseRangeService = new DoseRangeService(this.knowledgeBase);
+    this.ruleConfigService = new ValidationRuleConfigService(prisma);
+    this.ruleRegistry = new ValidationRuleRegistry();
+    this.registerBuiltInRules();
+  }
+
+  /**
+   * Add a rule to the validation pipeline
+   * It runs after the built-in rules and can be switched off per organization or pharmacy
+   * @param rule - The rule to add
+   */
+  registerRule(rule: ValidationRule): void {
+    this.ruleRegistry.register(rule);
+  }
+
+  /**
+   * Register the built-in checks against their rule definitions
+   */
+  private registerBuiltInRules(): void {
+    const checks: Record<string, (prescription: any, issues: ValidationIssue[], severity: ValidationSeverity) => Promise<void>> = {
+      'drug-interactions': (prescription, issues) => this.checkDrugInteractions(prescription, issues),
+      'dose-range': (prescription, issues) => this.checkDosage(prescription, issues),
+      'allergies': (prescription, issues, severity) => this.checkAllergies(prescription, issues, severity),
+      'contraindications': (prescription, issues) => this.checkContraindications(prescription, issues),
+      'duplicate-therapy': (prescription, issues, severity) => this.checkDuplicateTherapy(prescription, issues, severity),
+    };
+
+    for (const definition of BUILT_IN_VALIDATION_RULES) {
+      this.ruleRegistry.register({
+        ...definition,
+        check: (prescription, issues) => checks[definition.id](prescription, issues, definition.defaultSeverity),
+      });
+    }
+  }
+
+  /**
+   * Rule settings for the prescription's pharmacy and organization
+   */
+  protected async getValidationSettings(prescription: any): Promise<ValidationSettings> {
+    return this.ruleConfigService.resolveSettings(
+      prescription.pharmacyId,
+      prescription.pharmacy?.organizationId,
+      this.ruleRegistry.list()
+    );
   }
 
   /**
@@ -38,6 +96,9 @@ export class PrescriptionValidationService {
               medications: true, // Current medications
               conditions: true,  // Medical conditions
             }
+          },
+          pharmacy: {
+            select: { organizationId: true } // Local knowledge base rules
           }
         }
       });
@@ -46,29 +107,25 @@ export class PrescriptionValidationService {
         throw new Error(`Prescription with ID ${prescriptionId} not found`);
       }
 
-      // Analyze for potential issues
-      const validationResults: ValidationIssue[] = [];
-      
-      // Check for various validation issues
-      await Promise.all([
-        this.checkDrugInteractions(prescription, validationResults),
-        this.checkDosage(prescription, validationResults),
-        this.checkAllergies(prescription, validationResults),
-        this.checkContraindications(prescription, validationResults)
-      ]);
+      // Run the rules enabled for this pharmacy, applying any severity overrides
+      const settings = await this.getValidationSettings(prescription);
+      const enabledRules = this.ruleRegistry.list().filter(rule => settings.rules[rule.id]?.enabled);
+
+      const issuesByRule = await Promise.all(enabledRules.map(async rule => {
+        const issues: ValidationIssue[] = [];
+        await rule.check(prescription, issues);
+        return applyRuleSetting(issues, settings.rules[rule.id]);
+      }));
+      const validationResults: ValidationIssue[] = issuesByRule.flat();
 
       // Create an audit log for the validation
-      await this.prisma.auditLog.create({
-        data: {
-          action: 'PRESCRIPTION_VALIDATION',
-          entityType: 'Prescription',
-          entityId: prescriptionId,
-          userId: 'SYSTEM', // Or pass in the actual user ID
-          details: JSON.stringify({
-            validationResults,
-            timestamp: new Date().toISOString()
-          })
-        }
+      await AuditService.logAction({
+        action: 'PRESCRIPTION_VALIDATION',
+        category: 'PRESCRIPTION',
+        prescriptionId,
+        userId: 'SYSTEM',
+        organizationId: prescription.pharmacy?.organizationId ?? null,
+        details: { validationResults },
       });
 
       // If critical issues were found, send notification to pharmacist
@@ -103,18 +160,17 @@ export class PrescriptionValidationService {
     prescription: any, 
     validationResults: ValidationIssue[]
   ): Promise<void> {
-    const { patient, medications } = prescription;
+    const { patient, medications, pharmacy } = prescription;
     
     // Get all medications the patient is currently taking
     const currentMedications = patient.medications.map(m => m.name);
     
     // For each medication in the prescription
     for (const medication of medications) {
-      // This would call an external drug interaction API in production
-      // Using a simplified example here
-      const interactionResult = await this.simulateDrugInteractionCheck(
+      const interactionResult = await this.lookupDrugInteractions(
         medication.name,
-        currentMedications
+        currentMedications,
+        pharmacy?.organizationId
       );
       
       if (interactionResult.hasInteractions) {
@@ -138,18 +194,15 @@ export class PrescriptionValidationService {
     prescription: any, 
     validationResults: ValidationIssue[]
   ): Promise<void> {
-    const { patient, medications } = prescription;
+    const { patient, medications, pharmacy } = prescription;
+    const patientContext = this.getDosePatientContext(patient);
     
     // For each medication in the prescription
     for (const medication of medications) {
-      // In production this would check against a medication database
-      // Simplified example here
-      const dosageResult = await this.simulateDosageCheck(
-        medication.name,
-        medication.dosage,
-        patient.age,
-        patient.weight,
-        patient.conditions.map(c => c.name)
+      const dosageResult = await this.lookupDoseRange(
+        medication,
+        patientContext,
+        pharmacy?.organizationId
       );
       
       if (!dosageResult.isAppropriate) {
@@ -168,24 +221,24 @@ export class PrescriptionValidationService {
    */
   private async checkAllergies(
     prescription: any, 
-    validationResults: ValidationIssue[]
+    validationResults: ValidationIssue[],
+    severity: ValidationSeverity = 'CRITICAL'
   ): Promise<void> {
-    const { patient, medications } = prescription;
+    const { patient, medications, pharmacy } = prescription;
     const patientAllergies = patient.allergies.map(a => a.substance.toLowerCase());
     
     // For each medication in the prescription
     for (const medication of medications) {
-      // In production this would check against a comprehensive allergen database
-      // Simplified example here
-      const allergyResult = await this.simulateAllergyCheck(
+      const allergyResult = await this.lookupAllergens(
         medication.name,
-        patientAllergies
+        patientAllergies,
+        pharmacy?.organizationId
       );
       
       if (allergyResult.hasAllergy) {
         validationResults.push({
           type: 'ALLERGY',
-          severity: 'CRITICAL',
+          severity,
           description: `Patient is allergic to ${allergyResult.allergen} which is found in ${medication.name}`,
           medications: [medication.name]
         });
@@ -200,16 +253,15 @@ export class PrescriptionValidationService {
     prescription: any, 
     validationResults: ValidationIssue[]
   ): Promise<void> {
-    const { patient, medications } = prescription;
+    const { patient, medications, pharmacy } = prescription;
     const patientConditions = patient.conditions.map(c => c.name.toLowerCase());
     
     // For each medication in the prescription
     for (const medication of medications) {
-      // In production this would check against a medical database
-      // Simplified example
-      const contraindicationResult = await this.simulateContraindicationCheck(
+      const contraindicationResult = await this.lookupContraindications(
         medication.name,
-        patientConditions
+        patientConditions,
+        pharmacy?.organizationId
       );
       
       if (contraindicationResult.hasContraindication) {
@@ -223,6 +275,99 @@ export class PrescriptionValidationService {
     }
   }
 
+  /**
+   * Check for two drugs from the same therapeutic class
+   * Compares the prescription's items with each other, with the patient's other
+   * active prescriptions and with the medications on their Summary Care Record
+   */
+  private async checkDuplicateTherapy(
+    prescription: any, 
+    validationResults: ValidationIssue[],
+    severity: ValidationSeverity = 'MEDIUM'
+  ): Promise<void> {
+    const { patient, medications, pharmacy } = prescription;
+
+    const activePrescriptions = await this.prisma.prescription.findMany({
+      where: {
+        patientId: prescription.patientId,
+        id: { not: prescription.id },
+        status: { in: ['PENDING', 'PROCESSING', 'DISPENSED'] }
+      },
+      include: { medications: true }
+    });
+
+    const existingMedications: TherapyItem[] = [
+      ...(activePrescriptions || []).flatMap(p => (p.medications || []).map(m => ({
+        name: m.name,
+        source: 'ACTIVE_PRESCRIPTION' as const
+      }))),
+      ...(await this.getSCRMedications(patient)).map(name => ({
+        name,
+        source: 'SCR' as const
+      }))
+    ];
+    const newMedications: TherapyItem[] = medications.map(m => ({
+      name: m.name,
+      source: 'PRESCRIPTION' as const
+    }));
+
+    const therapeuticClasses = await this.knowledgeBase.findTherapeuticClasses(
+      [...newMedications, ...existingMedications].map(m => m.name),
+      pharmacy?.organizationId
+    );
+
+    for (const duplicate of findTherapeuticDuplicates(newMedications, existingMedications, therapeuticClasses)) {
+      validationResults.push({
+        type: 'DUPLICATE_THERAPY',
+        severity,
+        description: duplicate.description,
+        medications: duplicate.medications
+      });
+    }
+  }
+
+  /**
+   * Active medications on the patient's Summary Care Record
+   * SCR is best-effort: if it can't be reached the check uses local records only
+   */
+  private async getSCRMedications(patient: any): Promise<string[]> {
+    if (!patient.nhsNumber) {
+      return [];
+    }
+
+    try {
+      const medications = await this.scrService.getPatientMedications(patient.nhsNumber, {
+        permissionType: 'implied',
+        reason: 'Clinical check of prescription'
+      });
+
+      return (medications || [])
+        .filter(m => m.status === 'active' && (!m.endDate || new Date(m.endDate) > new Date()))
+        .map(m => m.display);
+    } catch (error) {
+      console.error('Error fetching SCR medications for duplicate therapy check:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Age, weight and renal function used to choose dose ranges
+   */
+  private getDosePatientContext(patient: any): DosePatientContext {
+    let ageYears: number | undefined = patient.age ?? undefined;
+
+    if (patient.dateOfBirth) {
+      const ageMs = Date.now() - new Date(patient.dateOfBirth).getTime();
+      ageYears = Math.floor((ageMs / (365.25 * 24 * 60 * 60 * 1000)) * 10) / 10;
+    }
+
+    return {
+      ageYears,
+      weightKg: patient.weightKg ?? patient.weight ?? undefined,
+      egfr: patient.egfr ?? undefined,
+    };
+  }
+
   /**
    * Determine the overall severity of validation issues
    */
@@ -234,35 +379,19 @@ export class PrescriptionValidationService {
     return 'NONE';
   }
 
-  // Simulation methods for testing/development purposes
-  // In production, these would be replaced with actual API calls to medication databases
-  
-  private async simulateDrugInteractionCheck(
+  // Knowledge base lookups
+  // Rules come from the active imported dataset plus the organisation's local rules
+
+  private async lookupDrugInteractions(
     medicationName: string, 
-    currentMedications: string[]
+    currentMedications: string[],
+    organizationId?: string
   ): Promise<any> {
-    // Simplified simulation of drug interaction check
-    const knownInteractions: Record<string, { with: string, severity: ValidationSeverity, description: string }[]> = {
-      'warfarin': [
-        { 
-          with: 'aspirin', 
-          severity: 'HIGH',
-          description: 'Increased risk of bleeding when warfarin is combined with aspirin'
-        }
-      ],
-      'fluoxetine': [
-        {
-          with: 'tramadol',
-          severity: 'CRITICAL',
-          description: 'Risk of serotonin syndrome when fluoxetine is combined with tramadol'
-        }
-      ]
-    };
-    
-    const interactions = knownInteractions[medicationName.toLowerCase()] || [];
-    const interactingWith = interactions
-      .filter(i => currentMedications.some(med => med.toLowerCase() === i.with))
-      .map(i => ({ medication: i.with, severity: i.severity, description: i.description }));
+    const interactingWith = await this.knowledgeBase.findInteractions(
+      medicationName,
+      currentMedications,
+      organizationId
+    );
     
     return {
       hasInteractions: interactingWith.length > 0,
@@ -274,46 +403,33 @@ export class PrescriptionValidationService {
     };
   }
 
-  private async simulateDosageCheck(
-    medicationName: string,
-    dosage: string,
-    patientAge: number,
-    patientWeight: number,
-    conditions: string[]
+  private async lookupDoseRange(
+    medication: any,
+    patient: DosePatientContext,
+    organizationId?: string
   ): Promise<any> {
-    // Simplified example - in production this would be a complex calculation
-    // based on medication databases, patient parameters, and clinical guidelines
-    
-    // For demonstration purposes, let's assume we found an issue with certain medications
-    const dosageIssues: Record<string, { isAppropriate: boolean, severity: ValidationSeverity, description: string }> = {
-      'metformin 1000mg': { 
-        isAppropriate: false, 
-        severity: 'MEDIUM', 
-        description: 'Dosage of metformin may be too high for patient weight'
-      }
-    };
-    
-    const dosageKey = `${medicationName.toLowerCase()} ${dosage.toLowerCase()}`;
-    const issue = dosageIssues[dosageKey];
-    
-    return issue || { isAppropriate: true, severity: 'NONE', description: '' };
+    // Prefer structured FHIR dosage; fall back to the dosage and label text
+    const textInstruction = dosageInstructionFromText(medication.dosage, medication.instructions);
+    const dosageInstruction = medication.dosageInstruction
+      || (textInstruction ? [textInstruction] : undefined);
+
+    return this.doseRangeService.checkDose(
+      medication.name,
+      dosageInstruction,
+      patient,
+      organizationId
+    );
   }
 
-  private async simulateAllergyCheck(
+  private async lookupAllergens(
     medicationName: string,
-    patientAllergies: string[]
+    patientAllergies: string[],
+    organizationId?: string
   ): Promise<any> {
-    // Map of medications to their components that may cause allergies
-    const medicationComponents: Record<string, string[]> = {
-      'amoxicillin': ['penicillin'],
-      'augmentin': ['penicillin', 'clavulanic acid'],
-      'aspirin': ['salicylates'],
-      'ibuprofen': ['nsaids']
-    };
-    
-    const components = medicationComponents[medicationName.toLowerCase()] || [];
+    // Allergen classes the medication belongs to, e.g. amoxicillin -> penicillins
+    const components = await this.knowledgeBase.findAllergenClasses(medicationName, organizationId);
     const matchingAllergy = components.find(c => 
-      patientAllergies.some(allergy => allergy.includes(c)));
+      patientAllergies.some(allergy => allergy.includes(c) || c.includes(allergy)));
     
     return {
       hasAllergy: Boolean(matchingAllergy),
@@ -321,28 +437,20 @@ export class PrescriptionValidationService {
     };
   }
 
-  private async simulateContraindicationCheck(
+  private async lookupContraindications(
     medicationName: string,
-    patientConditions: string[]
+    patientConditions: string[],
+    organizationId?: string
   ): Promise<any> {
-    // Map of medications to conditions they are contraindicated for
-    const contraindications: Record<string, { condition: string, severity: ValidationSeverity }[]> = {
-      'ibuprofen': [
-        { condition: 'peptic ulcer', severity: 'HIGH' },
-        { condition: 'kidney disease', severity: 'MEDIUM' }
-      ],
-      'metformin': [
-        { condition: 'kidney failure', severity: 'CRITICAL' }
-      ],
-      'propranolol': [
-        { condition: 'asthma', severity: 'CRITICAL' },
-        { condition: 'heart block', severity: 'HIGH' }
-      ]
-    };
-    
-    const medicationContraindications = contraindications[medicationName.toLowerCase()] || [];
-    const matchingContraindication = medicationContraindications.find(c => 
-      patientConditions.some(condition => condition.includes(c.condition)));
+    const contraindications = await this.knowledgeBase.findContraindications(
+      medicationName,
+      patientConditions,
+      organizationId
+    );
+    const matchingContraindication = contraindications.reduce<typeof contraindications[number] | undefined>(
+      (worst, c) => !worst || this.compareSeverity(worst.severity, c.severity) === c.severity ? c : worst,
+      undefined
+    );
     
     return {
       hasContraindication: Boolean(matchingContraindication),
@@ -364,14 +472,71 @@ export class PrescriptionValidationService {
   }
 }
 
+/**
+ * Find pairs of different drugs that share a therapeutic class
+ * Each new item is compared with the other new items and with the existing medications.
+ * The same drug appearing twice (e.g. a repeat) is not duplicate therapy.
+ * @param newMedications - Items on the prescription being validated
+ * @param existingMedications - Medications the patient is already taking
+ * @param therapeuticClasses - Classes keyed by normalised drug name
+ * @returns One entry per duplicated pair and class
+ */
+export function findTherapeuticDuplicates(
+  newMedications: TherapyItem[],
+  existingMedications: TherapyItem[],
+  therapeuticClasses: Record<string, string[]>
+): Array<{ therapeuticClass: string; medications: string[]; description: string }> {
+  const sourceLabels: Record<TherapyItem['source'], string> = {
+    PRESCRIPTION: 'this prescription',
+    ACTIVE_PRESCRIPTION: 'an active prescription',
+    SCR: 'the Summary Care Record'
+  };
+  const duplicates: Array<{ therapeuticClass: string; medications: string[]; description: string }> = [];
+  const seen = new Set<string>();
+
+  newMedications.forEach((item, index) => {
+    const drug = normaliseDrugName(item.name);
+    const candidates = [...newMedications.slice(index + 1), ...existingMedications];
+
+    for (const other of candidates) {
+      const otherDrug = normaliseDrugName(other.name);
+      if (otherDrug === drug) continue;
+
+      const sharedClasses = (therapeuticClasses[drug] || [])
+        .filter(c => (therapeuticClasses[otherDrug] || []).includes(c));
+
+      for (const therapeuticClass of sharedClasses) {
+        const key = [therapeuticClass, ...[drug, otherDrug].sort()].join('|');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        duplicates.push({
+          therapeuticClass,
+          medications: [item.name, other.name],
+          description: `${item.name} and ${other.name} (on ${sourceLabels[other.source]}) are both ${therapeuticClass}`
+        });
+      }
+    }
+  });
+
+  return duplicates;
+}
+
 // Types used by the service
 export type ValidationSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE';
 
+export interface TherapyItem {
+  name: string;
+  source: 'PRESCRIPTION' | 'ACTIVE_PRESCRIPTION' | 'SCR';
+}
+
 export interface ValidationIssue {
-  type: 'DRUG_INTERACTION' | 'INAPPROPRIATE_DOSAGE' | 'ALLERGY' | 'CONTRAINDICATION';
+  type: 'DRUG_INTERACTION' | 'INAPPROPRIATE_DOSAGE' | 'ALLERGY' | 'CONTRAINDICATION' | 'DUPLICATE_THERAPY';
   severity: ValidationSeverity;
   description: string;
   medications: string[];
+  aiGenerated?: boolean;
+  confidence?: number; // AI confidence score (0-1)
 }
 
 export interface ValidationResult {
@@ -381,4 +546,5 @@ export interface ValidationResult {
   severity: ValidationSeverity;
   issues: ValidationIssue[];
   timestamp: Date;
+  aiEnhanced?: boolean;
 }
@@ -0,0 +1,444 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import AuditService from './AuditService';
+import MessagingService, { isDispatched } from './MessagingService';
+
+export type RepeatScheduleStatus = 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'EXPIRED';
+export type RepeatIssueStatus = 'SCHEDULED' | 'AVAILABLE' | 'DISPENSED' | 'CANCELLED';
+
+// eRD prescriptions are limited to a year of issues
+export const MAX_AUTHORISED_ISSUES = 26;
+export const MIN_ISSUE_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RepeatScheduleInput {
+  authorisedIssues: number;
+  issueIntervalDays: number;
+  firstReleaseDate?: Date; // Defaults to the prescription's issued date
+  userId?: string;
+}
+
+/**
+ * Validate the issue count and interval for an eRD schedule
+ * @param input - The schedule input
+ * @returns Validation errors, empty when valid
+ */
+export function validateScheduleInput(input: RepeatScheduleInput): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(input.authorisedIssues) || input.authorisedIssues < 2 || input.authorisedIssues > MAX_AUTHORISED_ISSUES) {
+    errors.push(`Authorised issues must be a whole number from 2 to ${MAX_AUTHORISED_ISSUES}`);
+  }
+
+  if (!Number.isInteger(input.issueIntervalDays) || input.issueIntervalDays < MIN_ISSUE_INTERVAL_DAYS) {
+    errors.push(`Issue interval must be at least ${MIN_ISSUE_INTERVAL_DAYS} days`);
+  }
+
+  if ((input.authorisedIssues - 1) * input.issueIntervalDays > 365) {
+    errors.push('The authorised issues must fit within 12 months');
+  }
+
+  return errors;
+}
+
+/**
+ * Work out when the next issue can be released
+ * The interval counts from when the previous issue was dispensed, so a late
+ * collection pushes the rest of the schedule back rather than letting issues bunch up
+ * @param previousDispensedAt - When the previous issue was dispensed
+ * @param issueIntervalDays - Days between issues
+ * @returns The earliest release date for the next issue
+ */
+export function getNextReleaseDate(previousDispensedAt: Date, issueIntervalDays: number): Date {
+  const next = new Date(previousDispensedAt.getTime() + issueIntervalDays * DAY_MS);
+  next.setHours(0, 0, 0, 0);
+  return next;
+}
+
+/**
+ * Get the end of the current week (Sunday 23:59:59.999)
+ * @param now - The current date
+ * @returns The end of the week
+ */
+export function getEndOfWeek(now: Date): Date {
+  const end = new Date(now);
+  end.setDate(end.getDate() + ((7 - end.getDay()) % 7));
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Service for electronic repeat dispensing (eRD)
+ *
+ * A REPEAT prescription is authorised for a number of issues at a set
+ * interval. Only the next issue is scheduled at a time; it's released to
+ * the pharmacy on its earliest release date, the patient is reminded, and
+ * dispensing it (through DispensingService, like any other dispense)
+ * schedules the one after.
+ */
+export class RepeatDispensingService {
+  /**
+   * Set up the eRD schedule for a REPEAT prescription and schedule the first issue
+   * @param prescriptionId - The prescription ID
+   * @param pharmacyId - The pharmacy the prescription belongs to
+   * @param input - Authorised issues and interval
+   * @returns The schedule with its first issue
+   */
+  async createSchedule(prescriptionId: string, pharmacyId: string, input: RepeatScheduleInput) {
+    try {
+      const errors = validateScheduleInput(input);
+      if (errors.length > 0) {
+        throw new Error(errors.join('; '));
+      }
+
+      const prescription = await tenantPrisma.prescription.findUnique({
+        where: { id: prescriptionId },
+        include: { repeatSchedule: true },
+      });
+
+      if (!prescription || prescription.pharmacyId !== pharmacyId) {
+        throw new Error(`Prescription ${prescriptionId} not found`);
+      }
+
+      if (prescription.prescriptionType !== 'REPEAT') {
+        throw new Error('Only REPEAT prescriptions can be set up for repeat dispensing');
+      }
+
+      if (prescription.repeatSchedule) {
+        throw new Error(`Prescription ${prescriptionId} already has a repeat dispensing schedule`);
+      }
+
+      const firstReleaseDate = input.firstReleaseDate || prescription.issuedDate;
+
+      const schedule = await tenantPrisma.repeatSchedule.create({
+        data: {
+          prescriptionId,
+          pharmacyId,
+          authorisedIssues: input.authorisedIssues,
+          issueIntervalDays: input.issueIntervalDays,
+          createdById: input.userId,
+          issues: {
+            create: { issueNumber: 1, earliestReleaseDate: firstReleaseDate },
+          },
+        },
+        include: { issues: true },
+      });
+
+      await AuditService.logPrescriptionAction('REPEAT_SCHEDULE_CREATED', prescriptionId, input.userId || 'SYSTEM', {
+        scheduleId: schedule.id,
+        authorisedIssues: input.authorisedIssues,
+        issueIntervalDays: input.issueIntervalDays,
+      });
+
+      return schedule;
+    } catch (error) {
+      console.error('Error creating repeat dispensing schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release issues that have reached their earliest release date and remind the patients
+   * Run on a schedule (see docs) so issues become available without anyone having to look
+   * @param now - The current date
+   * @param pharmacyId - Only this pharmacy's issues; leave out for every pharmacy
+   * @returns The number of issues released and reminders sent
+   */
+  async releaseDueIssues(now: Date = new Date(), pharmacyId?: string) {
+    try {
+      const dueIssues = await tenantPrisma.repeatIssue.findMany({
+        where: {
+          status: 'SCHEDULED',
+          earliestReleaseDate: { lte: now },
+          schedule: { status: 'ACTIVE', ...(pharmacyId ? { pharmacyId } : {}) },
+        },
+        include: {
+          schedule: {
+            include: {
+              prescription: { include: { patient: true, pharmacy: true } },
+            },
+          },
+        },
+      });
+
+      let released = 0;
+      let reminded = 0;
+
+      for (const issue of dueIssues) {
+        // Only one process should release (and remind about) an issue
+        const { count } = await tenantPrisma.repeatIssue.updateMany({
+          where: { id: issue.id, status: 'SCHEDULED' },
+          data: { status: 'AVAILABLE', releasedAt: now },
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        released++;
+        const { prescription } = issue.schedule;
+
+        await AuditService.logPrescriptionAction('REPEAT_ISSUE_AVAILABLE', prescription.id, 'SYSTEM', {
+          scheduleId: issue.scheduleId,
+          issueNumber: issue.issueNumber,
+          authorisedIssues: issue.schedule.authorisedIssues,
+        });
+
+        if (await this.remindPatient(issue.id, prescription, now)) {
+          reminded++;
+        }
+      }
+
+      return { released, reminded };
+    } catch (error) {
+      console.error('Error releasing repeat dispensing issues:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issues due this week, including any released earlier and not yet dispensed
+   * @param pharmacyId - The pharmacy ID
+   * @param now - The current date
+   * @returns Issues with their schedule, prescription and patient, earliest first
+   */
+  async getDueThisWeek(pharmacyId: string, now: Date = new Date()) {
+    return tenantPrisma.repeatIssue.findMany({
+      where: {
+        status: { in: ['SCHEDULED', 'AVAILABLE'] },
+        earliestReleaseDate: { lte: getEndOfWeek(now) },
+        schedule: { pharmacyId, status: 'ACTIVE' },
+      },
+      include: {
+        schedule: {
+          include: {
+            prescription: { include: { patient: true, items: true } },
+          },
+        },
+      },
+      orderBy: { earliestReleaseDate: 'asc' },
+    });
+  }
+
+  /**
+   * The repeat issue a dispense of this prescription would supply
+   * Every dispense path checks this first, so an eRD issue can't be supplied
+   * before its earliest release date whichever route it goes through.
+   * @param epsPrescriptionId - The prescription's EPS ID
+   * @param pharmacyId - The pharmacy dispensing
+   * @param now - The current date
+   * @returns The issue with its schedule, or null if the prescription isn't on repeat dispensing
+   * @throws If the schedule isn't active or belongs to another pharmacy, or the issue isn't due yet
+   */
+  async getDispensableIssue(epsPrescriptionId: string, pharmacyId: string | null | undefined, now: Date = new Date()) {
+    const schedule = await tenantPrisma.repeatSchedule.findFirst({
+      where: { prescription: { epsPrescriptionId } },
+      include: {
+        prescription: true,
+        issues: {
+          where: { status: { in: ['SCHEDULED', 'AVAILABLE'] } },
+          orderBy: { issueNumber: 'asc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!schedule) {
+      return null;
+    }
+
+    if (schedule.pharmacyId !== pharmacyId) {
+      throw new Error('The repeat dispensing schedule for this prescription is held by another pharmacy');
+    }
+
+    if (schedule.status !== 'ACTIVE') {
+      throw new Error(`The repeat dispensing schedule is ${schedule.status.toLowerCase()}`);
+    }
+
+    const { issues, ...scheduleWithPrescription } = schedule;
+    const [issue] = issues;
+
+    if (!issue) {
+      throw new Error('The repeat dispensing schedule has no issue left to dispense');
+    }
+
+    if (issue.earliestReleaseDate > now) {
+      throw new Error(
+        `Issue ${issue.issueNumber} cannot be dispensed before ${issue.earliestReleaseDate.toLocaleDateString('en-GB')}`
+      );
+    }
+
+    return { ...issue, schedule: scheduleWithPrescription };
+  }
+
+  /**
+   * Get an issue the pharmacy can still dispense, with its schedule and prescription
+   * @param issueId - The issue ID
+   * @param pharmacyId - The pharmacy dispensing
+   * @returns The issue
+   */
+  async getOpenIssue(issueId: string, pharmacyId: string | null | undefined) {
+    const issue = await tenantPrisma.repeatIssue.findUnique({
+      where: { id: issueId },
+      include: { schedule: { include: { prescription: true } } },
+    });
+
+    if (!issue || issue.schedule.pharmacyId !== pharmacyId) {
+      throw new Error(`Repeat issue ${issueId} not found`);
+    }
+
+    if (!['SCHEDULED', 'AVAILABLE'].includes(issue.status)) {
+      throw new Error(`Issue ${issue.issueNumber} is already ${issue.status.toLowerCase()}`);
+    }
+
+    return issue;
+  }
+
+  /**
+   * Mark an issue dispensed and schedule the next one
+   * Called by the dispense pipeline once the issue is dispensed in EPS.
+   * @param issue - The issue from getDispensableIssue
+   * @param userId - The user dispensing
+   * @param now - The current date
+   * @returns The dispensed issue and the next issue, if any
+   */
+  async recordIssueDispensed(
+    issue: NonNullable<Awaited<ReturnType<RepeatDispensingService['getDispensableIssue']>>>,
+    userId: string,
+    now: Date = new Date()
+  ) {
+    try {
+      const { schedule } = issue;
+
+      const result = await tenantPrisma.$transaction(async (tx) => {
+        // Only one dispense can take the issue, so the next one is scheduled once
+        const { count } = await tx.repeatIssue.updateMany({
+          where: { id: issue.id, status: { in: ['SCHEDULED', 'AVAILABLE'] } },
+          data: {
+            status: 'DISPENSED',
+            releasedAt: issue.releasedAt || now,
+            dispensedAt: now,
+            dispensedById: userId,
+          },
+        });
+
+        if (count === 0) {
+          throw new Error(`Issue ${issue.issueNumber} has already been dispensed or cancelled`);
+        }
+
+        const dispensed = await tx.repeatIssue.findUniqueOrThrow({ where: { id: issue.id } });
+
+        if (issue.issueNumber >= schedule.authorisedIssues) {
+          await tx.repeatSchedule.update({ where: { id: schedule.id }, data: { status: 'COMPLETED' } });
+          await tx.prescription.update({ where: { id: schedule.prescriptionId }, data: { status: 'DISPENSED' } });
+          return { issue: dispensed, nextIssue: null, scheduleStatus: 'COMPLETED' as RepeatScheduleStatus };
+        }
+
+        const earliestReleaseDate = getNextReleaseDate(now, schedule.issueIntervalDays);
+        const { expiryDate } = schedule.prescription;
+
+        // The prescription runs out before the next issue is due
+        if (expiryDate && earliestReleaseDate > expiryDate) {
+          await tx.repeatSchedule.update({ where: { id: schedule.id }, data: { status: 'EXPIRED' } });
+          return { issue: dispensed, nextIssue: null, scheduleStatus: 'EXPIRED' as RepeatScheduleStatus };
+        }
+
+        const nextIssue = await tx.repeatIssue.create({
+          data: {
+            scheduleId: schedule.id,
+            issueNumber: issue.issueNumber + 1,
+            earliestReleaseDate,
+          },
+        });
+
+        return { issue: dispensed, nextIssue, scheduleStatus: 'ACTIVE' as RepeatScheduleStatus };
+      });
+
+      await AuditService.logPrescriptionAction('REPEAT_ISSUE_DISPENSED', schedule.prescriptionId, userId, {
+        scheduleId: schedule.id,
+        issueNumber: issue.issueNumber,
+        authorisedIssues: schedule.authorisedIssues,
+        nextReleaseDate: result.nextIssue?.earliestReleaseDate,
+        scheduleStatus: result.scheduleStatus,
+      });
+
+      return result;
+    } catch (error) {
+      console.error('Error recording repeat issue dispensed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel the remaining issues of a schedule
+   * @param scheduleId - The schedule ID
+   * @param pharmacyId - The pharmacy the schedule belongs to
+   * @param userId - The user cancelling
+   * @returns The cancelled schedule
+   */
+  async cancelSchedule(scheduleId: string, pharmacyId: string, userId?: string) {
+    const schedule = await tenantPrisma.repeatSchedule.findUnique({ where: { id: scheduleId } });
+    if (!schedule || schedule.pharmacyId !== pharmacyId) {
+      throw new Error(`Repeat dispensing schedule ${scheduleId} not found`);
+    }
+
+    if (schedule.status !== 'ACTIVE') {
+      throw new Error(`The repeat dispensing schedule is already ${schedule.status.toLowerCase()}`);
+    }
+
+    const cancelled = await tenantPrisma.$transaction(async (tx) => {
+      await tx.repeatIssue.updateMany({
+        where: { scheduleId, status: { in: ['SCHEDULED', 'AVAILABLE'] } },
+        data: { status: 'CANCELLED' },
+      });
+
+      return tx.repeatSchedule.update({
+        where: { id: scheduleId },
+        data: { status: 'CANCELLED' },
+      });
+    });
+
+    await AuditService.logPrescriptionAction('REPEAT_SCHEDULE_CANCELLED', schedule.prescriptionId, userId || 'SYSTEM', {
+      scheduleId,
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * Get a prescription's schedule with all its issues
+   * @param prescriptionId - The prescription ID
+   * @returns The schedule, or null if it isn't on repeat dispensing
+   */
+  async getSchedule(prescriptionId: string) {
+    return tenantPrisma.repeatSchedule.findUnique({
+      where: { prescriptionId },
+      include: { issues: { orderBy: { issueNumber: 'asc' } } },
+    });
+  }
+
+  /**
+   * Remind the patient an issue is available; the outbound policy checks their consent
+   * A failed reminder doesn't hold up the release
+   */
+  private async remindPatient(issueId: string, prescription: any, now: Date): Promise<boolean> {
+    try {
+      const sent = await MessagingService.sendPrescriptionReminder(prescription.patient, prescription);
+      if (!isDispatched(sent)) {
+        return false;
+      }
+
+      await tenantPrisma.repeatIssue.update({
+        where: { id: issueId },
+        data: { notifiedAt: now },
+      });
+
+      return true;
+    } catch (error) {
+      console.error(`Error sending repeat dispensing reminder for issue ${issueId}:`, error);
+      return false;
+    }
+  }
+}
+
+export default new RepeatDispensingService();
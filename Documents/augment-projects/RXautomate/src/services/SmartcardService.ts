@@ -1,256 +0,0 @@
-import { v4 as uuidv4 } from 'uuid';
-import AuditService from './AuditService';
-
-export interface SmartcardSession {
-  id: string;
-  userId: string;
-  roleId: string;
-  organizationId: string;
-  expiresAt: Date;
-  rights: string[];
-}
-
-export interface SmartcardUser {
-  id: string;
-  name: string;
-  professionalCode: string;
-  roles: SmartcardRole[];
-}
-
-export interface SmartcardRole {
-  id: string;
-  name: string;
-  organizationId: string;
-  organizationName: string;
-  rights: string[];
-}
-
-class SmartcardService {
-  private static instance: SmartcardService;
-  private currentSession: SmartcardSession | null = null;
-  private sessionTimeout: NodeJS.Timeout | null = null;
-  private smartcardReaders: string[] = [];
-  private isInitialized: boolean = false;
-
-  private constructor() {
-    // Private constructor to enforce singleton pattern
-  }
-
-  public static getInstance(): SmartcardService {
-    if (!SmartcardService.instance) {
-      SmartcardService.instance = new SmartcardService();
-    }
-    return SmartcardService.instance;
-  }
-
-  /**
-   * Initialize the smartcard service
-   * @returns Promise that resolves when initialization is complete
-   */
-  public async initialize(): Promise<boolean> {
-    try {
-      // In a real implementation, this would initialize the smartcard reader
-      // For now, we'll simulate it
-      
-      // Simulate detecting smartcard readers
-      this.smartcardReaders = ['NHS Smartcard Reader'];
-      this.isInitialized = true;
-      
-      // Log the initialization
-      await AuditService.logSystemEvent('SMARTCARD_SERVICE_INITIALIZED', {
-        readers: this.smartcardReaders,
-      });
-      
-      return true;
-    } catch (error) {
-      console.error('Error initializing smartcard service:', error);
-      this.isInitialized = false;
-      return false;
-    }
-  }
-
-  /**
-   * Check if the smartcard service is initialized
-   * @returns True if initialized, false otherwise
-   */
-  public isServiceInitialized(): boolean {
-    return this.isInitialized;
-  }
-
-  /**
-   * Get available smartcard readers
-   * @returns List of available smartcard readers
-   */
-  public getReaders(): string[] {
-    return this.smartcardReaders;
-  }
-
-  /**
-   * Check if a smartcard is present in the reader
-   * @param readerIndex - Index of the reader to check
-   * @returns Promise that resolves to true if a smartcard is present
-   */
-  public async isSmartcardPresent(readerIndex: number = 0): Promise<boolean> {
-    try {
-      // In a real implementation, this would check if a smartcard is present
-      // For now, we'll simulate it
-      
-      // Simulate smartcard presence check
-      const isPresent = true;
-      
-      return isPresent;
-    } catch (error) {
-      console.error('Error checking smartcard presence:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Authenticate with a smartcard
-   * @param pin - The smartcard PIN
-   * @param readerIndex - Index of the reader to use
-   * @returns Promise that resolves to a smartcard session if authentication is successful
-   */
-  public async authenticate(pin: string, readerIndex: number = 0): Promise<SmartcardSession | null> {
-    try {
-      // In a real implementation, this would authenticate with the smartcard
-      // For now, we'll simulate it
-      
-      // Check if the service is initialized
-      if (!this.isInitialized) {
-        throw new Error('Smartcard service not initialized');
-      }
-      
-      // Check if a smartcard is present
-      const isPresent = await this.isSmartcardPresent(readerIndex);
-      if (!isPresent) {
-        throw new Error('No smartcard detected');
-      }
-      
-      // Validate PIN (in a real implementation, this would be done by the smartcard)
-      if (pin.length < 4) {
-        throw new Error('Invalid PIN');
-      }
-      
-      // Simulate authentication
-      // In a real implementation, this would read the user's details from the smartcard
-      const user: SmartcardUser = {
-        id: 'SC' + uuidv4().substring(0, 8),
-        name: 'John Smith',
-        professionalCode: 'P12345',
-        roles: [
-          {
-            id: 'R' + uuidv4().substring(0, 8),
-            name: 'Pharmacist',
-            organizationId: 'O' + uuidv4().substring(0, 8),
-            organizationName: 'Central Pharmacy',
-            rights: ['B0572', 'B0008', 'B0085'],
-          },
-        ],
-      };
-      
-      // Create a session
-      const session: SmartcardSession = {
-        id: 'S' + uuidv4().substring(0, 8),
-        userId: user.id,
-        roleId: user.roles[0].id,
-        organizationId: user.roles[0].organizationId,
-        expiresAt: new Date(Date.now() + 4 * 60 * 60 * 1000), // 4 hours
-        rights: user.roles[0].rights,
-      };
-      
-      // Store the session
-      this.currentSession = session;
-      
-      // Set up session timeout
-      this.setupSessionTimeout();
-      
-      // Log the authentication
-      await AuditService.logAuthenticationAction('SMARTCARD_AUTHENTICATION', user.id, {
-        name: user.name,
-        professionalCode: user.professionalCode,
-        role: user.roles[0].name,
-        organization: user.roles[0].organizationName,
-      });
-      
-      return session;
-    } catch (error) {
-      console.error('Error authenticating with smartcard:', error);
-      
-      // Log the authentication failure
-      await AuditService.logAuthenticationAction('SMARTCARD_AUTHENTICATION_FAILURE', 'unknown', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-      
-      return null;
-    }
-  }
-
-  /**
-   * Get the current smartcard session
-   * @returns The current smartcard session, or null if not authenticated
-   */
-  public getCurrentSession(): SmartcardSession | null {
-    return this.currentSession;
-  }
-
-  /**
-   * Check if the user has a specific right
-   * @param right - The right to check
-   * @returns True if the user has the right, false otherwise
-   */
-  public hasRight(right: string): boolean {
-    if (!this.currentSession) {
-      return false;
-    }
-    
-    return this.currentSession.rights.includes(right);
-  }
-
-  /**
-   * End the current smartcard session
-   */
-  public endSession(): void {
-    if (this.sessionTimeout) {
-      clearTimeout(this.sessionTimeout);
-      this.sessionTimeout = null;
-    }
-    
-    if (this.currentSession) {
-      // Log the session end
-      AuditService.logAuthenticationAction('SMARTCARD_SESSION_END', this.currentSession.userId);
-      
-      this.currentSession = null;
-    }
-  }
-
-  /**
-   * Set up session timeout
-   */
-  private setupSessionTimeout(): void {
-    if (this.sessionTimeout) {
-      clearTimeout(this.sessionTimeout);
-    }
-    
-    if (this.currentSession) {
-      const timeUntilExpiry = this.currentSession.expiresAt.getTime() - Date.now();
-      
-      if (timeUntilExpiry > 0) {
-        this.sessionTimeout = setTimeout(() => {
-          // Log the session expiry
-          if (this.currentSession) {
-            AuditService.logAuthenticationAction('SMARTCARD_SESSION_EXPIRED', this.currentSession.userId);
-          }
-          
-          this.currentSession = null;
-          this.sessionTimeout = null;
-        }, timeUntilExpiry);
-      } else {
-        // Session already expired
-        this.currentSession = null;
-      }
-    }
-  }
-}
-
-export default SmartcardService.getInstance();
@@ -0,0 +1,349 @@
+import { PharmacyRole } from '@prisma/client';
+import { tenantPrisma } from '@/lib/db/tenant';
+import type { InAppNotification } from './NotificationService';
+import { Prescription } from './EPSService';
+
+// Notifications older than this are removed by retention cleanup
+export const NOTIFICATION_RETENTION_DAYS = Number(process.env.NOTIFICATION_RETENTION_DAYS || 30);
+
+export const DEFAULT_NOTIFICATION_LIMIT = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StaffNotificationContent = Pick<
+  InAppNotification,
+  'type' | 'title' | 'message' | 'prescriptionId' | 'action' | 'category'
+> & { priority?: InAppNotification['priority'] };
+
+export interface CreateStaffNotificationInput extends StaffNotificationContent {
+  pharmacyId: string;
+  userId?: string | null;       // Only this user sees it
+  pharmacyRole?: PharmacyRole | null; // Only staff with this role see it
+  createdById?: string | null;
+  expiresAt?: Date | null;
+}
+
+const medicationName = (prescription: Prescription) =>
+  prescription.medicationReference?.display ||
+  prescription.medicationCodeableConcept?.coding?.[0]?.display ||
+  'medication';
+
+/**
+ * Build the notification for prescriptions newly nominated to the pharmacy
+ * @param prescriptions - New prescriptions
+ * @returns Notification content
+ */
+export function buildNewPrescriptionsNotification(prescriptions: Prescription[]): StaffNotificationContent {
+  const count = prescriptions.length;
+
+  return {
+    type: 'new',
+    category: 'prescription',
+    title: 'New Prescriptions Available',
+    message: `${count} new prescription${count > 1 ? 's' : ''} received.`,
+    priority: 'medium',
+    action: {
+      label: 'View Prescriptions',
+      url: '/prescriptions?tab=eps&status=active',
+    },
+  };
+}
+
+/**
+ * Build the notification for prescriptions about to expire
+ * @param prescriptions - Expiring prescriptions
+ * @returns Notification content
+ */
+export function buildExpiringPrescriptionsNotification(prescriptions: Prescription[]): StaffNotificationContent {
+  const count = prescriptions.length;
+
+  return {
+    type: 'expiring',
+    category: 'prescription',
+    title: 'Expiring Prescriptions',
+    message: `${count} prescription${count > 1 ? 's' : ''} will expire soon.`,
+    priority: 'high',
+    action: {
+      label: 'View Expiring',
+      url: '/prescriptions?tab=eps&expiring=true',
+    },
+  };
+}
+
+/**
+ * Build the notification for a prescription status change
+ * @param prescription - The updated prescription
+ * @param oldStatus - The previous status
+ * @param newStatus - The new status
+ * @returns Notification content
+ */
+export function buildStatusUpdateNotification(
+  prescription: Prescription,
+  oldStatus: string,
+  newStatus: string
+): StaffNotificationContent {
+  return {
+    type: 'update',
+    category: 'prescription',
+    title: 'Prescription Status Updated',
+    message: `Prescription for ${medicationName(prescription)} changed from ${oldStatus} to ${newStatus}.`,
+    prescriptionId: prescription.id,
+    priority: 'low',
+    action: {
+      label: 'View Prescription',
+      url: `/prescriptions/details/${prescription.id}`,
+    },
+  };
+}
+
+/**
+ * Shape a stored notification for the client
+ * @param notification - The notification with the user's receipt, if any
+ * @returns The in-app notification
+ */
+export function toInAppNotification(notification: any): InAppNotification {
+  const receipt = notification.receipts?.[0];
+
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    prescriptionId: notification.prescriptionId || undefined,
+    timestamp: notification.createdAt,
+    read: Boolean(receipt?.readAt),
+    priority: notification.priority,
+    action: notification.actionUrl
+      ? { label: notification.actionLabel || 'View', url: notification.actionUrl }
+      : undefined,
+    category: notification.category || undefined,
+  };
+}
+
+/**
+ * Service for the staff notification inbox
+ *
+ * Notifications are stored once per pharmacy (or role, or user) and each
+ * user's read and dismissed state is kept in a receipt, so a notification
+ * raised on one terminal reaches the whole team.
+ */
+export class StaffNotificationService {
+  /**
+   * Store a notification
+   * @param input - The notification and who it is for
+   * @returns The stored notification
+   */
+  async createNotification(input: CreateStaffNotificationInput) {
+    try {
+      return await tenantPrisma.staffNotification.create({
+        data: {
+          pharmacyId: input.pharmacyId,
+          userId: input.userId || null,
+          pharmacyRole: input.pharmacyRole || null,
+          type: input.type,
+          category: input.category || null,
+          priority: input.priority || 'medium',
+          title: input.title,
+          message: input.message,
+          prescriptionId: input.prescriptionId || null,
+          actionLabel: input.action?.label || null,
+          actionUrl: input.action?.url || null,
+          createdById: input.createdById || null,
+          expiresAt: input.expiresAt || null,
+        },
+      });
+    } catch (error) {
+      console.error('Error creating staff notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's notifications at a pharmacy, newest first
+   * @param userId - The user ID
+   * @param pharmacyId - The pharmacy ID
+   * @param options - Only unread, and how many
+   * @returns The notifications and the user's unread count
+   */
+  async getNotifications(
+    userId: string,
+    pharmacyId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ) {
+    try {
+      const visible = await this.visibleTo(userId, pharmacyId);
+      const unread = { ...visible, AND: [...visible.AND, this.unreadBy(userId)] };
+
+      const [notifications, unreadCount] = await Promise.all([
+        tenantPrisma.staffNotification.findMany({
+          where: options.unreadOnly ? unread : visible,
+          include: { receipts: { where: { userId } } },
+          orderBy: { createdAt: 'desc' },
+          take: options.limit || DEFAULT_NOTIFICATION_LIMIT,
+        }),
+        tenantPrisma.staffNotification.count({ where: unread }),
+      ]);
+
+      return {
+        notifications: notifications.map(toInAppNotification),
+        unreadCount,
+      };
+    } catch (error) {
+      console.error('Error fetching staff notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one notification, if the user can see it
+   * @param notificationId - The notification ID
+   * @param userId - The user ID
+   * @param pharmacyId - The pharmacy ID
+   * @returns The notification, or null
+   */
+  async getNotification(notificationId: string, userId: string, pharmacyId: string): Promise<InAppNotification | null> {
+    const notification = await tenantPrisma.staffNotification.findFirst({
+      where: { id: notificationId, ...(await this.visibleTo(userId, pharmacyId)) },
+      include: { receipts: { where: { userId } } },
+    });
+
+    return notification ? toInAppNotification(notification) : null;
+  }
+
+  /**
+   * Mark a notification read for a user
+   * @param notificationId - The notification ID
+   * @param userId - The user ID
+   * @param pharmacyId - The pharmacy ID
+   * @param now - When it was read
+   */
+  async markAsRead(notificationId: string, userId: string, pharmacyId: string, now: Date = new Date()) {
+    await this.getVisibleOrThrow(notificationId, userId, pharmacyId);
+
+    return tenantPrisma.staffNotificationReceipt.upsert({
+      where: { notificationId_userId: { notificationId, userId } },
+      create: { notificationId, userId, readAt: now },
+      update: { readAt: now },
+    });
+  }
+
+  /**
+   * Mark all of a user's notifications at a pharmacy read
+   * @param userId - The user ID
+   * @param pharmacyId - The pharmacy ID
+   * @param now - When they were read
+   * @returns How many were marked read
+   */
+  async markAllAsRead(userId: string, pharmacyId: string, now: Date = new Date()): Promise<number> {
+    try {
+      const visible = await this.visibleTo(userId, pharmacyId);
+      const unread = await tenantPrisma.staffNotification.findMany({
+        where: { ...visible, AND: [...visible.AND, this.unreadBy(userId)] },
+        select: { id: true },
+      });
+
+      await tenantPrisma.$transaction(async (tx: any) => {
+        for (const { id } of unread) {
+          await tx.staffNotificationReceipt.upsert({
+            where: { notificationId_userId: { notificationId: id, userId } },
+            create: { notificationId: id, userId, readAt: now },
+            update: { readAt: now },
+          });
+        }
+      });
+
+      return unread.length;
+    } catch (error) {
+      console.error('Error marking staff notifications read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hide a notification from a user's inbox
+   * @param notificationId - The notification ID
+   * @param userId - The user ID
+   * @param pharmacyId - The pharmacy ID
+   * @param now - When it was dismissed
+   */
+  async dismiss(notificationId: string, userId: string, pharmacyId: string, now: Date = new Date()) {
+    await this.getVisibleOrThrow(notificationId, userId, pharmacyId);
+
+    return tenantPrisma.staffNotificationReceipt.upsert({
+      where: { notificationId_userId: { notificationId, userId } },
+      create: { notificationId, userId, readAt: now, dismissedAt: now },
+      update: { dismissedAt: now },
+    });
+  }
+
+  /**
+   * Delete notifications past retention or their expiry date, with their receipts
+   * @param now - The current date
+   * @returns How many were deleted
+   */
+  async cleanup(now: Date = new Date()): Promise<{ deleted: number }> {
+    try {
+      const retainFrom = new Date(now.getTime() - NOTIFICATION_RETENTION_DAYS * DAY_MS);
+
+      const { count } = await tenantPrisma.staffNotification.deleteMany({
+        where: {
+          OR: [
+            { createdAt: { lt: retainFrom } },
+            { expiresAt: { lt: now } },
+          ],
+        },
+      });
+
+      return { deleted: count };
+    } catch (error) {
+      console.error('Error cleaning up staff notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notifications for the user, their role at the pharmacy or the whole team,
+   * less any they have dismissed
+   */
+  private async visibleTo(userId: string, pharmacyId: string) {
+    const membership = await tenantPrisma.userPharmacy.findUnique({
+      where: { userId_pharmacyId: { userId, pharmacyId } },
+      select: { role: true },
+    });
+
+    const audiences: any[] = [
+      { userId },
+      { userId: null, pharmacyRole: null },
+    ];
+    if (membership) {
+      audiences.push({ userId: null, pharmacyRole: membership.role });
+    }
+
+    return {
+      pharmacyId,
+      AND: [
+        { OR: audiences },
+        { receipts: { none: { userId, dismissedAt: { not: null } } } },
+      ] as any[],
+    };
+  }
+
+  private unreadBy(userId: string) {
+    return { receipts: { none: { userId, readAt: { not: null } } } };
+  }
+
+  private async getVisibleOrThrow(notificationId: string, userId: string, pharmacyId: string) {
+    const notification = await tenantPrisma.staffNotification.findFirst({
+      where: { id: notificationId, ...(await this.visibleTo(userId, pharmacyId)) },
+      select: { id: true },
+    });
+
+    if (!notification) {
+      throw new Error(`Notification ${notificationId} not found`);
+    }
+
+    return notification;
+  }
+}
+
+export default new StaffNotificationService();
@@ -0,0 +1,691 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { prisma } from '@/lib/db/prisma';
+import { PHARMACY_ROLES, PharmacyRole, USER_ROLES, UserRole } from '@/lib/permissions';
+import AuditService from './AuditService';
+import NotificationService from './NotificationService';
+
+export type UserStatus = 'INVITED' | 'ACTIVE' | 'DEACTIVATED';
+type TokenPurpose = 'invite' | 'reset';
+
+export const INVITATION_EXPIRY_HOURS = Number(process.env.INVITATION_EXPIRY_HOURS || 72);
+export const PASSWORD_RESET_EXPIRY_MINUTES = Number(process.env.PASSWORD_RESET_EXPIRY_MINUTES || 60);
+export const MIN_PASSWORD_LENGTH = 12;
+export const MAX_PASSWORD_LENGTH = 128;
+
+const BCRYPT_ROUNDS = 12;
+const EMAIL_TEMPLATE_ID = process.env.NOTIFY_EMAIL_TEMPLATE_ID || 'email-template-id';
+
+export interface PharmacyAssignment {
+  pharmacyId: string;
+  role: PharmacyRole;
+}
+
+export interface InviteUserInput {
+  email: string;
+  name: string;
+  role: UserRole;
+  organizationId?: string | null; // Super admins only; others invite into their own organization
+  pharmacies?: PharmacyAssignment[];
+}
+
+/**
+ * The admin making a change, from their session
+ */
+export interface ActingUser {
+  id: string;
+  role: string;
+  organizationId?: string | null;
+}
+
+const USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  isActive: true,
+  emailVerified: true,
+  lastLogin: true,
+  mfaEnabledAt: true,
+  lockedUntil: true,
+  organizationId: true,
+  createdAt: true,
+  pharmacies: {
+    select: {
+      pharmacyId: true,
+      role: true,
+      assignedAt: true,
+      assignedBy: true,
+      pharmacy: { select: { name: true } },
+    },
+  },
+};
+
+/**
+ * Where a user is in onboarding: invited users haven't set a password yet
+ * @param user - The user
+ * @returns The status
+ */
+export function getUserStatus(user: { isActive: boolean; emailVerified?: Date | null }): UserStatus {
+  if (!user.isActive) {
+    return 'DEACTIVATED';
+  }
+
+  return user.emailVerified ? 'ACTIVE' : 'INVITED';
+}
+
+/**
+ * Check a new password
+ * Length matters more than character classes, so only length and the
+ * obvious choice of the email address are checked
+ * @param password - The password
+ * @param email - The user's email address
+ * @returns Validation errors, empty when valid
+ */
+export function validatePassword(password: string, email?: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  } else if (password.length > MAX_PASSWORD_LENGTH) {
+    errors.push(`Password must be at most ${MAX_PASSWORD_LENGTH} characters`);
+  }
+
+  const localPart = (email || '').toLowerCase().split('@')[0];
+  if (localPart.length >= 3 && typeof password === 'string' && password.toLowerCase().includes(localPart)) {
+    errors.push('Password must not contain your email address');
+  }
+
+  return errors;
+}
+
+/**
+ * The user roles an admin can give out; nobody can grant more than they have
+ * @param actor - The admin
+ * @returns The roles
+ */
+export function assignableRoles(actor: ActingUser): UserRole[] {
+  if (actor.role === 'SUPER_ADMIN') {
+    return USER_ROLES;
+  }
+
+  return actor.role === 'ORG_ADMIN' ? ['ORG_ADMIN', 'PHARMACY_ADMIN', 'PHARMACY_STAFF'] : [];
+}
+
+/**
+ * Tokens are stored hashed, so a database leak doesn't hand out working links
+ * @param token - The token from the link
+ * @returns The SHA-256 hash
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Service for inviting staff, onboarding them and managing their accounts
+ *
+ * Invited users are created straight away, with their pharmacy roles, but
+ * can't sign in until they follow the emailed link and set a password.
+ * Links are single-use VerificationTokens identified by purpose and email.
+ */
+export class UserManagementService {
+  /**
+   * List the users an admin can manage
+   * @param actor - The admin
+   * @param organizationId - Super admins can pick an organization; others see their own
+   * @returns The users, newest first
+   */
+  async listUsers(actor: ActingUser, organizationId?: string | null) {
+    try {
+      const where = actor.role === 'SUPER_ADMIN'
+        ? (organizationId ? { organizationId } : {})
+        : { organizationId: actor.organizationId, role: { not: 'SUPER_ADMIN' as const } };
+
+      const users = await prisma.user.findMany({
+        where,
+        select: USER_SELECT,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return users.map((user: any) => ({ ...user, status: getUserStatus(user) }));
+    } catch (error) {
+      console.error('Error listing users:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user the admin can manage
+   * @param actor - The admin
+   * @param userId - The user
+   * @returns The user
+   */
+  async getUser(actor: ActingUser, userId: string) {
+    const user = await this.findManageable(actor, userId);
+    return { ...user, status: getUserStatus(user) };
+  }
+
+  /**
+   * Invite someone by email, creating their account and pharmacy roles
+   * @param input - Who to invite and what they can do
+   * @param actor - The admin sending the invitation
+   * @returns The new user, and whether the invitation email went
+   */
+  async inviteUser(input: InviteUserInput, actor: ActingUser) {
+    try {
+      const email = (input.email || '').trim().toLowerCase();
+      const name = (input.name || '').trim();
+
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        throw new Error('A valid email address is required');
+      }
+      if (!name) {
+        throw new Error('Name is required');
+      }
+      if (!assignableRoles(actor).includes(input.role)) {
+        throw new Error(`You can't give users the ${input.role} role`);
+      }
+
+      const organizationId = actor.role === 'SUPER_ADMIN'
+        ? input.organizationId || actor.organizationId || null
+        : actor.organizationId;
+
+      if (!organizationId && input.role !== 'SUPER_ADMIN') {
+        throw new Error('organizationId is required');
+      }
+
+      const assignments = await this.checkAssignments(input.pharmacies || [], organizationId);
+
+      const existing = await prisma.user.findUnique({ where: { email } });
+      if (existing) {
+        throw new Error('A user with this email address already exists');
+      }
+
+      const user = await prisma.user.create({
+        data: {
+          email,
+          name,
+          role: input.role,
+          organizationId,
+          isActive: true,
+          pharmacies: {
+            create: assignments.map(assignment => ({
+              pharmacyId: assignment.pharmacyId,
+              role: assignment.role,
+              assignedBy: actor.id,
+            })),
+          },
+        },
+        select: USER_SELECT,
+      });
+
+      // The account exists either way, so a failed email can be resent rather than failing the invite
+      let invitationSent = true;
+      try {
+        await this.sendInvitation(user);
+      } catch (error) {
+        console.error('Error sending invitation email:', error);
+        invitationSent = false;
+      }
+
+      await AuditService.logAction({
+        action: 'USER_INVITED',
+        category: 'AUTHENTICATION',
+        userId: actor.id,
+        details: {
+          invitedUserId: user.id,
+          role: user.role,
+          organizationId,
+          pharmacies: assignments,
+          invitationSent,
+        },
+      });
+
+      return { ...user, status: getUserStatus(user), invitationSent };
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a new invitation link; the old one stops working
+   * @param userId - The invited user
+   * @param actor - The admin
+   */
+  async resendInvitation(userId: string, actor: ActingUser) {
+    const user = await this.findManageable(actor, userId);
+
+    if (getUserStatus(user) !== 'INVITED') {
+      throw new Error('Only users who haven\'t accepted their invitation can be sent a new one');
+    }
+
+    await this.sendInvitation(user);
+
+    await AuditService.logAction({
+      action: 'USER_INVITED',
+      category: 'AUTHENTICATION',
+      userId: actor.id,
+      details: { invitedUserId: user.id, resent: true },
+    });
+  }
+
+  /**
+   * Look up an invitation from its link, for the accept page
+   * @param token - The token from the link
+   * @returns Who the invitation is for, or null if it's unknown, used or expired
+   */
+  async getInvitation(token: string) {
+    const email = await this.findTokenEmail(token, 'invite');
+    if (!email) {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { name: true, email: true, organization: { select: { name: true } } },
+    });
+
+    return user ? { name: user.name, email: user.email, organizationName: user.organization?.name || null } : null;
+  }
+
+  /**
+   * Accept an invitation by setting a password
+   * @param token - The token from the link
+   * @param password - The new password
+   * @returns The user's email address, to sign in with
+   */
+  async acceptInvitation(token: string, password: string) {
+    try {
+      const user = await this.setPasswordFromToken(token, 'invite', password);
+
+      await AuditService.logAction({
+        action: 'USER_INVITATION_ACCEPTED',
+        category: 'AUTHENTICATION',
+        userId: user.id,
+      });
+
+      return { email: user.email };
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Email a user a link to choose a new password
+   * @param userId - The user
+   * @param actor - The admin
+   */
+  async sendPasswordReset(userId: string, actor: ActingUser) {
+    const user = await this.findManageable(actor, userId);
+
+    if (getUserStatus(user) !== 'ACTIVE') {
+      throw new Error('Only active users can reset their password; resend the invitation instead');
+    }
+
+    const token = await this.issueToken(user.email, 'reset', PASSWORD_RESET_EXPIRY_MINUTES * 60 * 1000);
+
+    await NotificationService.sendEmail(user.email, EMAIL_TEMPLATE_ID, {
+      subject: 'Reset your RXautomate password',
+      body: [
+        `Hello ${user.name},`,
+        'An administrator has started a password reset for your RXautomate account.',
+        `Choose a new password here: ${this.link('/auth/reset-password', token)}`,
+        `The link works once and expires in ${PASSWORD_RESET_EXPIRY_MINUTES} minutes.`,
+      ].join('\n\n'),
+    });
+
+    await AuditService.logAction({
+      action: 'PASSWORD_RESET_REQUESTED',
+      category: 'AUTHENTICATION',
+      userId: actor.id,
+      details: { targetUserId: user.id },
+    });
+  }
+
+  /**
+   * Set a new password from a reset link and sign the user out everywhere
+   * @param token - The token from the link
+   * @param password - The new password
+   * @returns The user's email address, to sign in with
+   */
+  async resetPassword(token: string, password: string) {
+    try {
+      const user = await this.setPasswordFromToken(token, 'reset', password);
+      await prisma.session.deleteMany({ where: { userId: user.id } });
+
+      await AuditService.logAction({
+        action: 'PASSWORD_RESET',
+        category: 'AUTHENTICATION',
+        userId: user.id,
+      });
+
+      return { email: user.email };
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a user's name or user role
+   * @param userId - The user
+   * @param changes - The new name and/or role
+   * @param actor - The admin
+   * @returns The updated user
+   */
+  async updateUser(userId: string, changes: { name?: string; role?: UserRole }, actor: ActingUser) {
+    const user = await this.findManageable(actor, userId);
+    const data: { name?: string; role?: UserRole } = {};
+
+    if (changes.name !== undefined) {
+      if (!changes.name.trim()) {
+        throw new Error('Name is required');
+      }
+      data.name = changes.name.trim();
+    }
+
+    if (changes.role !== undefined && changes.role !== user.role) {
+      if (user.id === actor.id) {
+        throw new Error('You can\'t change your own role');
+      }
+      if (!assignableRoles(actor).includes(changes.role)) {
+        throw new Error(`You can't give users the ${changes.role} role`);
+      }
+      data.role = changes.role;
+    }
+
+    const updated = await prisma.user.update({ where: { id: user.id }, data, select: USER_SELECT });
+
+    await AuditService.logAction({
+      action: 'USER_UPDATED',
+      category: 'AUTHENTICATION',
+      userId: actor.id,
+      details: { targetUserId: user.id, ...data, previousRole: data.role ? user.role : undefined },
+    });
+
+    return { ...updated, status: getUserStatus(updated) };
+  }
+
+  /**
+   * Replace the pharmacies a user works at and their role at each
+   * Unchanged assignments keep who assigned them and when
+   * @param userId - The user
+   * @param assignments - Every pharmacy the user should work at
+   * @param actor - The admin
+   * @returns The updated user
+   */
+  async setPharmacies(userId: string, assignments: PharmacyAssignment[], actor: ActingUser) {
+    try {
+      const user = await this.findManageable(actor, userId);
+      const wanted = await this.checkAssignments(assignments, user.organizationId);
+      const current = new Map<string, string>(user.pharmacies.map((p: any) => [p.pharmacyId, p.role]));
+
+      const removed = Array.from(current.keys()).filter(pharmacyId => !wanted.some(a => a.pharmacyId === pharmacyId));
+      const changed = wanted.filter(a => current.get(a.pharmacyId) !== a.role);
+
+      await prisma.$transaction([
+        prisma.userPharmacy.deleteMany({ where: { userId: user.id, pharmacyId: { in: removed } } }),
+        ...changed.map(assignment => prisma.userPharmacy.upsert({
+          where: { userId_pharmacyId: { userId: user.id, pharmacyId: assignment.pharmacyId } },
+          create: { userId: user.id, pharmacyId: assignment.pharmacyId, role: assignment.role, assignedBy: actor.id },
+          update: { role: assignment.role, assignedBy: actor.id, assignedAt: new Date() },
+        })),
+      ]);
+
+      await AuditService.logAction({
+        action: 'USER_PHARMACIES_UPDATED',
+        category: 'AUTHENTICATION',
+        userId: actor.id,
+        details: { targetUserId: user.id, removed, changed },
+      });
+
+      return this.getUser(actor, user.id);
+    } catch (error) {
+      console.error('Error updating user pharmacies:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a user: they're signed out everywhere and their links stop working
+   * @param userId - The user
+   * @param actor - The admin
+   * @returns The updated user and how many sessions were ended
+   */
+  async deactivateUser(userId: string, actor: ActingUser) {
+    try {
+      const user = await this.findManageable(actor, userId);
+
+      if (user.id === actor.id) {
+        throw new Error('You can\'t deactivate your own account');
+      }
+
+      const [updated, sessions] = await prisma.$transaction([
+        prisma.user.update({ where: { id: user.id }, data: { isActive: false }, select: USER_SELECT }),
+        prisma.session.deleteMany({ where: { userId: user.id } }),
+        prisma.verificationToken.deleteMany({
+          where: { identifier: { in: [`invite:${user.email}`, `reset:${user.email}`] } },
+        }),
+      ]);
+
+      await AuditService.logAction({
+        action: 'USER_DEACTIVATED',
+        category: 'AUTHENTICATION',
+        userId: actor.id,
+        details: { targetUserId: user.id, sessionsRevoked: sessions.count },
+      });
+
+      return { user: { ...updated, status: getUserStatus(updated) }, sessionsRevoked: sessions.count };
+    } catch (error) {
+      console.error('Error deactivating user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Let a deactivated user sign in again
+   * @param userId - The user
+   * @param actor - The admin
+   * @returns The updated user
+   */
+  async reactivateUser(userId: string, actor: ActingUser) {
+    const user = await this.findManageable(actor, userId);
+
+    const updated = await prisma.user.update({ where: { id: user.id }, data: { isActive: true }, select: USER_SELECT });
+
+    await AuditService.logAction({
+      action: 'USER_REACTIVATED',
+      category: 'AUTHENTICATION',
+      userId: actor.id,
+      details: { targetUserId: user.id },
+    });
+
+    return { ...updated, status: getUserStatus(updated) };
+  }
+
+  /**
+   * Let a user locked out by failed sign-ins try again straight away
+   * @param userId - The user
+   * @param actor - The admin
+   * @returns The updated user
+   */
+  async unlockUser(userId: string, actor: ActingUser) {
+    const user = await this.findManageable(actor, userId);
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedSignIns: 0, lockedUntil: null },
+      select: USER_SELECT,
+    });
+
+    await AuditService.logAuthenticationAction('ACCOUNT_UNLOCKED', actor.id, { targetUserId: user.id });
+
+    return { ...updated, status: getUserStatus(updated) };
+  }
+
+  /**
+   * Turn off a user's two-factor authentication when they've lost their
+   * phone and recovery codes; they're signed out and set it up again next
+   * time if it's required
+   * @param userId - The user
+   * @param actor - The admin
+   * @returns The updated user
+   */
+  async resetMfa(userId: string, actor: ActingUser) {
+    try {
+      const user = await this.findManageable(actor, userId);
+
+      if (user.id === actor.id) {
+        throw new Error('You can\'t reset your own two-factor authentication');
+      }
+
+      const [updated] = await prisma.$transaction([
+        prisma.user.update({
+          where: { id: user.id },
+          data: { mfaSecret: null, mfaEnabledAt: null, mfaRecoveryCodes: [], mfaLastUsedStep: null },
+          select: USER_SELECT,
+        }),
+        prisma.session.deleteMany({ where: { userId: user.id } }),
+      ]);
+
+      await AuditService.logAuthenticationAction('MFA_RESET', actor.id, { targetUserId: user.id });
+
+      return { ...updated, status: getUserStatus(updated) };
+    } catch (error) {
+      console.error('Error resetting MFA:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a user, checking the admin may manage them
+   * Org admins manage their own organization's users, but not super admins
+   */
+  private async findManageable(actor: ActingUser, userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: USER_SELECT });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (actor.role !== 'SUPER_ADMIN' && (user.organizationId !== actor.organizationId || user.role === 'SUPER_ADMIN')) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Check pharmacy assignments are valid and in the user's organization
+   */
+  private async checkAssignments(assignments: PharmacyAssignment[], organizationId: string | null) {
+    const unique = new Map<string, PharmacyAssignment>();
+
+    for (const assignment of assignments) {
+      if (!PHARMACY_ROLES.includes(assignment.role)) {
+        throw new Error(`Unknown pharmacy role: ${assignment.role}`);
+      }
+      unique.set(assignment.pharmacyId, { pharmacyId: assignment.pharmacyId, role: assignment.role });
+    }
+
+    if (unique.size === 0) {
+      return [];
+    }
+
+    const pharmacies = await prisma.pharmacy.findMany({
+      where: { id: { in: Array.from(unique.keys()) }, organizationId: organizationId || undefined },
+      select: { id: true },
+    });
+
+    if (pharmacies.length !== unique.size) {
+      throw new Error('Users can only be assigned to their own organization\'s pharmacies');
+    }
+
+    return Array.from(unique.values());
+  }
+
+  /**
+   * Replace any outstanding token for this purpose with a new one
+   * @returns The token to put in the link; only its hash is stored
+   */
+  private async issueToken(email: string, purpose: TokenPurpose, expiresInMs: number): Promise<string> {
+    const identifier = `${purpose}:${email}`;
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await prisma.verificationToken.deleteMany({ where: { identifier } });
+    await prisma.verificationToken.create({
+      data: { identifier, token: hashToken(token), expires: new Date(Date.now() + expiresInMs) },
+    });
+
+    return token;
+  }
+
+  /**
+   * The email address a token was issued to, if it's for this purpose and hasn't expired
+   */
+  private async findTokenEmail(token: string, purpose: TokenPurpose): Promise<string | null> {
+    if (!token) {
+      return null;
+    }
+
+    const record = await prisma.verificationToken.findUnique({ where: { token: hashToken(token) } });
+
+    if (!record || !record.identifier.startsWith(`${purpose}:`) || record.expires <= new Date()) {
+      return null;
+    }
+
+    return record.identifier.slice(purpose.length + 1);
+  }
+
+  private async setPasswordFromToken(token: string, purpose: TokenPurpose, password: string) {
+    const email = await this.findTokenEmail(token, purpose);
+    if (!email) {
+      throw new Error('This link is invalid or has expired');
+    }
+
+    const errors = validatePassword(password, email);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user || !user.isActive) {
+      throw new Error('This account has been deactivated');
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await bcrypt.hash(password, BCRYPT_ROUNDS),
+        emailVerified: user.emailVerified || new Date(),
+      },
+    });
+
+    await prisma.verificationToken.deleteMany({ where: { identifier: `${purpose}:${email}` } });
+
+    return updated;
+  }
+
+  private async sendInvitation(user: { name: string; email: string }) {
+    const token = await this.issueToken(user.email, 'invite', INVITATION_EXPIRY_HOURS * 60 * 60 * 1000);
+
+    await NotificationService.sendEmail(user.email, EMAIL_TEMPLATE_ID, {
+      subject: 'You\'ve been invited to RXautomate',
+      body: [
+        `Hello ${user.name},`,
+        'You\'ve been given an RXautomate account.',
+        `Set your password to get started: ${this.link('/auth/accept-invite', token)}`,
+        `The link works once and expires in ${INVITATION_EXPIRY_HOURS} hours.`,
+      ].join('\n\n'),
+    });
+  }
+
+  private link(path: string, token: string): string {
+    const baseUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+    return `${baseUrl}${path}?token=${token}`;
+  }
+}
+
+export default new UserManagementService();
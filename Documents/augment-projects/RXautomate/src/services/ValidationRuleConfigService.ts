@@ -0,0 +1,337 @@
+import { PrismaClient } from '@prisma/client';
+import type { ValidationIssue, ValidationSeverity } from './PrescriptionValidationService';
+import {
+  BUILT_IN_VALIDATION_RULES,
+  DEFAULT_AI_CONFIDENCE_THRESHOLD,
+  ValidationRuleDefinition,
+} from './ValidationRuleRegistry';
+
+export interface RuleConfigScope {
+  type: 'organization' | 'pharmacy';
+  id: string;
+}
+
+export interface RuleOverride {
+  ruleId: string;
+  enabled: boolean | null;
+  severity: string | null;
+}
+
+export interface RuleSetting {
+  enabled: boolean;
+  severity?: ValidationSeverity; // Only set when an override replaces the rule's own grading
+}
+
+export interface ValidationSettings {
+  rules: Record<string, RuleSetting>;
+  aiConfidenceThreshold: number;
+}
+
+export const CONFIGURABLE_SEVERITIES: ValidationSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+/**
+ * Work out the effective settings for each rule
+ * Rule defaults are overridden by the organization, which is overridden by the pharmacy.
+ * A null field in an override inherits from the level above.
+ * @param rules - The rules to resolve
+ * @param organizationOverrides - The organization's overrides
+ * @param pharmacyOverrides - The pharmacy's overrides
+ * @param thresholds - AI confidence thresholds set on the organization and pharmacy
+ * @returns Settings keyed by rule ID plus the AI confidence threshold
+ */
+export function resolveValidationSettings(
+  rules: ValidationRuleDefinition[],
+  organizationOverrides: RuleOverride[],
+  pharmacyOverrides: RuleOverride[],
+  thresholds: { organization?: number | null; pharmacy?: number | null } = {}
+): ValidationSettings {
+  const settings: Record<string, RuleSetting> = {};
+
+  for (const rule of rules) {
+    const setting: RuleSetting = { enabled: rule.enabledByDefault };
+
+    for (const override of [
+      organizationOverrides.find(o => o.ruleId === rule.id),
+      pharmacyOverrides.find(o => o.ruleId === rule.id),
+    ]) {
+      if (!override) continue;
+      if (override.enabled !== null) {
+        setting.enabled = override.enabled;
+      }
+      if (override.severity !== null) {
+        setting.severity = override.severity as ValidationSeverity;
+      }
+    }
+
+    settings[rule.id] = setting;
+  }
+
+  return {
+    rules: settings,
+    aiConfidenceThreshold: thresholds.pharmacy ?? thresholds.organization ?? DEFAULT_AI_CONFIDENCE_THRESHOLD,
+  };
+}
+
+/**
+ * Apply a rule's severity override to the issues it raised
+ */
+export function applyRuleSetting(issues: ValidationIssue[], setting: RuleSetting): ValidationIssue[] {
+  return setting.severity
+    ? issues.map(issue => ({ ...issue, severity: setting.severity! }))
+    : issues;
+}
+
+/**
+ * Apply the pharmacy's policy to issues raised by the AI model
+ * Drops issues below the confidence threshold and issues of a type whose
+ * rules are all disabled, and applies the matching rule's severity override.
+ * @param issues - Issues from the AI model
+ * @param rules - The registered rules
+ * @param settings - The resolved settings
+ * @returns The issues to report
+ */
+export function applySettingsToAIIssues(
+  issues: ValidationIssue[],
+  rules: ValidationRuleDefinition[],
+  settings: ValidationSettings
+): ValidationIssue[] {
+  return issues
+    .filter(issue => (issue.confidence ?? 1) >= settings.aiConfidenceThreshold)
+    .flatMap(issue => {
+      const rulesForType = rules.filter(rule => rule.type === issue.type);
+      if (rulesForType.length === 0) {
+        return [issue];
+      }
+
+      const enabledRule = rulesForType.find(rule => settings.rules[rule.id]?.enabled);
+      if (!enabledRule) {
+        return [];
+      }
+
+      return applyRuleSetting([issue], settings.rules[enabledRule.id]);
+    });
+}
+
+/**
+ * Service for organization and pharmacy overrides of the validation rules
+ */
+export class ValidationRuleConfigService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Get the effective validation settings for a pharmacy
+   * @param pharmacyId - The pharmacy ID
+   * @param organizationId - The pharmacy's organization ID
+   * @param rules - The rules to resolve
+   * @returns The resolved settings
+   */
+  async resolveSettings(
+    pharmacyId: string,
+    organizationId?: string,
+    rules: ValidationRuleDefinition[] = BUILT_IN_VALIDATION_RULES
+  ): Promise<ValidationSettings> {
+    try {
+      const [overrides, pharmacy, organization] = await Promise.all([
+        this.prisma.validationRuleConfig.findMany({
+          where: {
+            OR: [
+              { pharmacyId },
+              ...(organizationId ? [{ organizationId }] : []),
+            ],
+          },
+        }),
+        this.prisma.pharmacy.findUnique({
+          where: { id: pharmacyId },
+          select: { aiConfidenceThreshold: true },
+        }),
+        organizationId
+          ? this.prisma.organization.findUnique({
+              where: { id: organizationId },
+              select: { aiConfidenceThreshold: true },
+            })
+          : null,
+      ]);
+
+      return resolveValidationSettings(
+        rules,
+        overrides.filter(o => o.organizationId),
+        overrides.filter(o => o.pharmacyId),
+        {
+          organization: organization?.aiConfidenceThreshold,
+          pharmacy: pharmacy?.aiConfidenceThreshold,
+        }
+      );
+    } catch (error) {
+      console.error('Error resolving validation rule settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the rules with the overrides set at a scope and the settings they produce
+   * @param scope - The organization or pharmacy
+   * @returns Each rule with its organization and pharmacy overrides, plus the AI threshold
+   */
+  async getRuleConfig(scope: RuleConfigScope) {
+    const { organizationId, pharmacyId } = await this.resolveScope(scope);
+
+    const [overrides, pharmacy, organization] = await Promise.all([
+      this.prisma.validationRuleConfig.findMany({
+        where: {
+          OR: [
+            { organizationId },
+            ...(pharmacyId ? [{ pharmacyId }] : []),
+          ],
+        },
+      }),
+      pharmacyId
+        ? this.prisma.pharmacy.findUnique({ where: { id: pharmacyId }, select: { aiConfidenceThreshold: true } })
+        : null,
+      this.prisma.organization.findUnique({ where: { id: organizationId }, select: { aiConfidenceThreshold: true } }),
+    ]);
+
+    const organizationOverrides = overrides.filter(o => o.organizationId);
+    const pharmacyOverrides = overrides.filter(o => o.pharmacyId);
+    const thresholds = {
+      organization: organization?.aiConfidenceThreshold ?? null,
+      pharmacy: pharmacy?.aiConfidenceThreshold ?? null,
+    };
+    const settings = resolveValidationSettings(
+      BUILT_IN_VALIDATION_RULES,
+      organizationOverrides,
+      pharmacyOverrides,
+      thresholds
+    );
+
+    return {
+      rules: BUILT_IN_VALIDATION_RULES.map(rule => ({
+        ...rule,
+        organization: organizationOverrides.find(o => o.ruleId === rule.id) || null,
+        pharmacy: pharmacyOverrides.find(o => o.ruleId === rule.id) || null,
+        effective: settings.rules[rule.id],
+      })),
+      aiConfidenceThreshold: {
+        ...thresholds,
+        default: DEFAULT_AI_CONFIDENCE_THRESHOLD,
+        effective: settings.aiConfidenceThreshold,
+      },
+    };
+  }
+
+  /**
+   * Override a rule for an organization or pharmacy
+   * Passing null for both fields removes the override so the rule inherits again
+   * @param scope - The organization or pharmacy
+   * @param ruleId - The rule ID
+   * @param override - Whether the rule runs and the severity of its issues
+   * @param userId - The user making the change
+   * @returns The override, or null if it was removed
+   */
+  async setRuleConfig(
+    scope: RuleConfigScope,
+    ruleId: string,
+    override: { enabled?: boolean | null; severity?: string | null },
+    userId?: string
+  ) {
+    if (!BUILT_IN_VALIDATION_RULES.some(rule => rule.id === ruleId)) {
+      throw new Error(`Unknown validation rule ${ruleId}`);
+    }
+
+    const enabled = override.enabled ?? null;
+    const severity = override.severity ?? null;
+
+    if (enabled !== null && typeof enabled !== 'boolean') {
+      throw new Error('enabled must be true, false or null');
+    }
+
+    if (severity !== null && !CONFIGURABLE_SEVERITIES.includes(severity as ValidationSeverity)) {
+      throw new Error(`severity must be one of ${CONFIGURABLE_SEVERITIES.join(', ')}`);
+    }
+
+    try {
+      const where = scope.type === 'pharmacy'
+        ? { pharmacyId_ruleId: { pharmacyId: scope.id, ruleId } }
+        : { organizationId_ruleId: { organizationId: scope.id, ruleId } };
+
+      if (enabled === null && severity === null) {
+        await this.prisma.validationRuleConfig.deleteMany({
+          where: scope.type === 'pharmacy'
+            ? { pharmacyId: scope.id, ruleId }
+            : { organizationId: scope.id, ruleId },
+        });
+        return null;
+      }
+
+      return await this.prisma.validationRuleConfig.upsert({
+        where,
+        create: {
+          ruleId,
+          enabled,
+          severity,
+          updatedById: userId,
+          ...(scope.type === 'pharmacy' ? { pharmacyId: scope.id } : { organizationId: scope.id }),
+        },
+        update: {
+          enabled,
+          severity,
+          updatedById: userId,
+        },
+      });
+    } catch (error) {
+      console.error('Error updating validation rule config:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the minimum confidence for AI-raised issues
+   * @param scope - The organization or pharmacy
+   * @param threshold - A value from 0 to 1, or null to inherit
+   */
+  async setAIConfidenceThreshold(scope: RuleConfigScope, threshold: number | null) {
+    if (threshold !== null && (typeof threshold !== 'number' || threshold < 0 || threshold > 1)) {
+      throw new Error('aiConfidenceThreshold must be between 0 and 1');
+    }
+
+    try {
+      if (scope.type === 'pharmacy') {
+        await this.prisma.pharmacy.update({
+          where: { id: scope.id },
+          data: { aiConfidenceThreshold: threshold },
+        });
+      } else {
+        await this.prisma.organization.update({
+          where: { id: scope.id },
+          data: { aiConfidenceThreshold: threshold },
+        });
+      }
+    } catch (error) {
+      console.error('Error updating AI confidence threshold:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Organization and pharmacy IDs for a scope
+   */
+  private async resolveScope(scope: RuleConfigScope): Promise<{ organizationId: string; pharmacyId?: string }> {
+    if (scope.type === 'organization') {
+      return { organizationId: scope.id };
+    }
+
+    const pharmacy = await this.prisma.pharmacy.findUnique({
+      where: { id: scope.id },
+      select: { organizationId: true },
+    });
+
+    if (!pharmacy) {
+      throw new Error(`Pharmacy ${scope.id} not found`);
+    }
+
+    return { organizationId: pharmacy.organizationId, pharmacyId: scope.id };
+  }
+}
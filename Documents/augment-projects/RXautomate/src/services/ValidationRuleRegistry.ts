@@ -0,0 +1,105 @@
+import type { ValidationIssue, ValidationSeverity } from './PrescriptionValidationService';
+
+export type ValidationIssueType = ValidationIssue['type'];
+
+/**
+ * What a validation rule is, independent of how it runs
+ */
+export interface ValidationRuleDefinition {
+  id: string;
+  type: ValidationIssueType;
+  name: string;
+  description: string;
+  // Severity for issues the check does not grade itself
+  defaultSeverity: ValidationSeverity;
+  enabledByDefault: boolean;
+}
+
+/**
+ * A validation rule the pipeline can run against a prescription
+ */
+export interface ValidationRule extends ValidationRuleDefinition {
+  check(prescription: any, issues: ValidationIssue[]): Promise<void>;
+}
+
+// Rules shipped with the validator; their checks live in PrescriptionValidationService
+export const BUILT_IN_VALIDATION_RULES: ValidationRuleDefinition[] = [
+  {
+    id: 'drug-interactions',
+    type: 'DRUG_INTERACTION',
+    name: 'Drug interactions',
+    description: 'Prescribed items that interact with the patient\'s current medications',
+    defaultSeverity: 'HIGH',
+    enabledByDefault: true,
+  },
+  {
+    id: 'dose-range',
+    type: 'INAPPROPRIATE_DOSAGE',
+    name: 'Dose range',
+    description: 'Doses outside the age, weight and renal function banded range',
+    defaultSeverity: 'HIGH',
+    enabledByDefault: true,
+  },
+  {
+    id: 'allergies',
+    type: 'ALLERGY',
+    name: 'Allergies',
+    description: 'Prescribed items in an allergen class the patient is allergic to',
+    defaultSeverity: 'CRITICAL',
+    enabledByDefault: true,
+  },
+  {
+    id: 'contraindications',
+    type: 'CONTRAINDICATION',
+    name: 'Contraindications',
+    description: 'Prescribed items contraindicated by the patient\'s conditions',
+    defaultSeverity: 'HIGH',
+    enabledByDefault: true,
+  },
+  {
+    id: 'duplicate-therapy',
+    type: 'DUPLICATE_THERAPY',
+    name: 'Duplicate therapy',
+    description: 'Two drugs from the same therapeutic class across the prescription, active prescriptions and SCR',
+    defaultSeverity: 'MEDIUM',
+    enabledByDefault: true,
+  },
+];
+
+export const DEFAULT_AI_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Registry of the rules the validation pipeline runs, in registration order
+ */
+export class ValidationRuleRegistry {
+  private rules = new Map<string, ValidationRule>();
+
+  /**
+   * Add a rule to the pipeline
+   * @param rule - The rule; its id must be unique
+   */
+  register(rule: ValidationRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Validation rule ${rule.id} is already registered`);
+    }
+
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Remove a rule from the pipeline
+   * @param ruleId - The rule ID
+   * @returns True if the rule was registered
+   */
+  unregister(ruleId: string): boolean {
+    return this.rules.delete(ruleId);
+  }
+
+  get(ruleId: string): ValidationRule | undefined {
+    return this.rules.get(ruleId);
+  }
+
+  list(): ValidationRule[] {
+    return Array.from(this.rules.values());
+  }
+}
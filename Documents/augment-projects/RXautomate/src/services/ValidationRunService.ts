@@ -0,0 +1,213 @@
+import { tenantPrisma } from '@/lib/db/tenant';
+import type { ValidationResult } from './PrescriptionValidationService';
+
+export interface FeedbackInput {
+  prescriptionId: string;
+  issueId: string;
+  reviewerId: string;
+  isTruePositive: boolean;
+  comment?: string;
+}
+
+// Shape of a persisted issue with its run and feedback, as used for metrics
+export interface ReviewedIssue {
+  validationRunId: string;
+  type: string;
+  medications: string[];
+  aiGenerated: boolean;
+  aiEnhancedRun: boolean;
+  feedback: { isTruePositive: boolean; updatedAt: Date }[];
+}
+
+export interface IssueMetrics {
+  reviewedAIIssues: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number; // percentage
+  recall: number; // percentage
+}
+
+/**
+ * Latest reviewer verdict on an issue
+ * @param issue - The issue with its feedback
+ * @returns True/false positive, or null if nobody has reviewed it
+ */
+function latestVerdict(issue: ReviewedIssue): boolean | null {
+  if (issue.feedback.length === 0) {
+    return null;
+  }
+
+  const latest = [...issue.feedback].sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  )[0];
+
+  return latest.isTruePositive;
+}
+
+/**
+ * Calculate AI precision and recall from reviewer feedback
+ *
+ * An AI issue confirmed by a reviewer is a true positive and a rejected one a
+ * false positive. A confirmed rule-based issue from an AI-enhanced run counts
+ * as a false negative when no AI issue of the same type in that run names any
+ * of the same medications.
+ * @param issues - Issues with their feedback
+ * @returns Counts plus precision and recall as percentages
+ */
+export function calculateIssueMetrics(issues: ReviewedIssue[]): IssueMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  for (const issue of issues) {
+    const verdict = latestVerdict(issue);
+    if (verdict === null) {
+      continue;
+    }
+
+    if (issue.aiGenerated) {
+      if (verdict) {
+        truePositives++;
+      } else {
+        falsePositives++;
+      }
+      continue;
+    }
+
+    if (!verdict || !issue.aiEnhancedRun) {
+      continue;
+    }
+
+    const medications = issue.medications.map(med => med.toLowerCase());
+    const foundByAI = issues.some(other =>
+      other.aiGenerated &&
+      other.validationRunId === issue.validationRunId &&
+      other.type === issue.type &&
+      other.medications.some(med => medications.includes(med.toLowerCase()))
+    );
+
+    if (!foundByAI) {
+      falseNegatives++;
+    }
+  }
+
+  const reviewedAIIssues = truePositives + falsePositives;
+
+  return {
+    reviewedAIIssues,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: reviewedAIIssues > 0 ? (truePositives / reviewedAIIssues) * 100 : 0,
+    recall: truePositives + falseNegatives > 0
+      ? (truePositives / (truePositives + falseNegatives)) * 100
+      : 0,
+  };
+}
+
+/**
+ * Service for persisting validation runs and reviewer feedback on their issues
+ */
+export class ValidationRunService {
+  /**
+   * Store a validation result with its issues
+   * @param pharmacyId - The pharmacy the prescription belongs to
+   * @param result - The validation result
+   * @param createdById - The user who ran the validation
+   * @returns The validation run with its issues in result order
+   */
+  async recordRun(pharmacyId: string, result: ValidationResult, createdById?: string) {
+    try {
+      return await tenantPrisma.validationRun.create({
+        data: {
+          prescriptionId: result.prescriptionId,
+          pharmacyId,
+          isValid: result.isValid,
+          severity: result.severity,
+          aiEnhanced: result.aiEnhanced === true,
+          createdById,
+          issues: {
+            create: result.issues.map((issue, index) => ({
+              issueIndex: index,
+              type: issue.type,
+              severity: issue.severity,
+              description: issue.description,
+              medications: issue.medications,
+              aiGenerated: issue.aiGenerated === true,
+              confidence: issue.confidence ?? null,
+            })),
+          },
+        },
+        include: {
+          issues: { orderBy: { issueIndex: 'asc' } },
+        },
+      });
+    } catch (error) {
+      console.error('Error recording validation run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the validation history for a prescription
+   * @param prescriptionId - The prescription ID
+   * @returns Validation runs, newest first, with issues and feedback
+   */
+  async getHistory(prescriptionId: string) {
+    return tenantPrisma.validationRun.findMany({
+      where: { prescriptionId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        issues: {
+          orderBy: { issueIndex: 'asc' },
+          include: { feedback: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Record a reviewer's verdict on an issue
+   * A reviewer has one verdict per issue; submitting again replaces it
+   * @param input - The issue, reviewer and verdict
+   * @returns The feedback record
+   */
+  async recordFeedback(input: FeedbackInput) {
+    try {
+      // Issues belong to the tenant through their run
+      const run = await tenantPrisma.validationRun.findFirst({
+        where: {
+          prescriptionId: input.prescriptionId,
+          issues: { some: { id: input.issueId } },
+        },
+        select: { id: true },
+      });
+
+      if (!run) {
+        throw new Error(`Validation issue ${input.issueId} not found for prescription ${input.prescriptionId}`);
+      }
+
+      return await tenantPrisma.issueFeedback.upsert({
+        where: {
+          issueId_reviewerId: { issueId: input.issueId, reviewerId: input.reviewerId },
+        },
+        create: {
+          issueId: input.issueId,
+          reviewerId: input.reviewerId,
+          isTruePositive: input.isTruePositive,
+          comment: input.comment,
+        },
+        update: {
+          isTruePositive: input.isTruePositive,
+          comment: input.comment,
+        },
+      });
+    } catch (error) {
+      console.error('Error recording issue feedback:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ValidationRunService();
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/admin/audit-logs/route';
+import { requirePermission } from '@/middleware/require-permission';
+import { prisma } from '../../lib/db/prisma';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => ({
+  prisma: {
+    auditLog: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}), { virtual: true });
+
+jest.mock('@/middleware/require-permission', () => ({
+  requirePermission: jest.fn(),
+}));
+
+const mockPrisma = prisma as any;
+
+describe('Audit logs API', () => {
+  const get = (query = '') => GET(new NextRequest(`http://localhost/api/admin/audit-logs${query}`));
+  const signInAs = (user: any) => (requirePermission as jest.Mock).mockResolvedValue({ session: { user } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.auditLog.count.mockResolvedValue(0);
+    mockPrisma.auditLog.findMany.mockResolvedValue([]);
+  });
+
+  it('should only show other roles their own organization\'s logs', async () => {
+    signInAs({ id: 'user-1', role: 'PHARMACY_ADMIN', organizationId: 'org-1' });
+
+    const response = await get('?organizationId=org-2');
+
+    expect(response.status).toBe(200);
+    expect(mockPrisma.auditLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 'org-1' },
+    }));
+  });
+
+  it('should turn away users with no organization', async () => {
+    signInAs({ id: 'user-1', role: 'ORG_ADMIN', organizationId: null });
+
+    const response = await get();
+
+    expect(response.status).toBe(403);
+    expect(mockPrisma.auditLog.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should let super admins see every organization\'s logs, or pick one', async () => {
+    signInAs({ id: 'admin-1', role: 'SUPER_ADMIN', organizationId: 'org-1' });
+
+    await get();
+    expect(mockPrisma.auditLog.findMany.mock.calls[0][0].where).toEqual({});
+
+    await get('?organizationId=org-2');
+    expect(mockPrisma.auditLog.findMany.mock.calls[1][0].where).toEqual({ organizationId: 'org-2' });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/consent-links/[token]/route';
+import ConsentService from '@/services/ConsentService';
+// The patient consent page's own API calls, run against these routes' real responses
+import { initialAnswers, loadConsentLink, submitConsentAnswers } from '../../../../../../frontend/src/consentLink';
+
+// Mock dependencies
+jest.mock('@/services/ConsentService', () => ({
+  __esModule: true,
+  default: {
+    getLink: jest.fn(),
+    submitLink: jest.fn(),
+  },
+}));
+
+const mockConsentService = ConsentService as jest.Mocked<typeof ConsentService>;
+
+describe('Consent link API and the patient consent page', () => {
+  const link = {
+    pharmacyName: 'High Street Pharmacy',
+    firstName: 'Jane',
+    expiresAt: new Date('2099-01-01T00:00:00Z'),
+    notices: [
+      { consentType: 'REMINDER', noticeId: 'notice-2', version: 2, title: 'Reminders', text: 'New wording', given: true, wordingChanged: true },
+      { consentType: 'MARKETING', noticeId: 'notice-1', version: 1, title: 'Marketing', text: 'Wording', given: false, wordingChanged: false },
+    ],
+  };
+
+  // Hands the page's requests to the route handlers
+  const routeFetch = (input: string, init?: RequestInit): Promise<Response> => {
+    const token = decodeURIComponent(input.split('/api/consent-links/')[1]);
+    const request = new NextRequest(`http://localhost${input}`, init as any);
+
+    return init?.method === 'POST'
+      ? POST(request, { params: { token } })
+      : GET(request, { params: { token } });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load a usable link into the page', async () => {
+    mockConsentService.getLink.mockResolvedValue(link as any);
+
+    const loaded = await loadConsentLink('', 'abc.def', routeFetch);
+
+    expect(mockConsentService.getLink).toHaveBeenCalledWith('abc.def');
+    expect(loaded).toEqual({ ...link, expiresAt: '2099-01-01T00:00:00.000Z' });
+    // Answers to changed wording aren't pre-filled
+    expect(initialAnswers(loaded!)).toEqual({ MARKETING: false });
+  });
+
+  it('should show an unusable link as invalid', async () => {
+    mockConsentService.getLink.mockResolvedValue(null);
+
+    await expect(loadConsentLink('', 'abc.def', routeFetch)).resolves.toBeNull();
+  });
+
+  it('should send the answers, and show why they were refused', async () => {
+    mockConsentService.submitLink.mockResolvedValueOnce({ recorded: 1 });
+    const answers = [{ consentType: 'REMINDER', given: true, noticeId: 'notice-2' }];
+
+    await submitConsentAnswers('', 'abc.def', answers, routeFetch);
+    expect(mockConsentService.submitLink).toHaveBeenCalledWith('abc.def', answers);
+
+    mockConsentService.submitLink.mockRejectedValueOnce(new Error('This link has already been used'));
+    await expect(submitConsentAnswers('', 'abc.def', answers, routeFetch)).rejects.toThrow('This link has already been used');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST, PUT } from '@/app/api/prescriptions/[id]/route';
+import { POST as batchPOST } from '@/app/api/prescriptions/route';
+import EPSService from '@/services/EPSService';
+import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import ClinicalCheckService from '@/services/ClinicalCheckService';
+import PrescriptionEventService from '@/services/PrescriptionEventService';
+import RepeatDispensingService from '@/services/RepeatDispensingService';
+import { requirePermission } from '@/middleware/require-permission';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => ({
+  tenantPrisma: {
+    prescription: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/middleware/tenant-context', () => ({
+  withTenant: (handler: any) => handler,
+}));
+
+jest.mock('@/middleware/require-permission', () => ({
+  requirePermission: jest.fn(),
+}));
+
+jest.mock('@/services/EPSService', () => ({
+  getPrescription: jest.fn(),
+  dispensePrescription: jest.fn(),
+  updatePrescriptionStatus: jest.fn(),
+}));
+
+jest.mock('@/services/InventoryPrescriptionService', () => ({
+  checkPrescriptionStock: jest.fn(),
+  checkControlledDrugSupply: jest.fn(),
+  updateInventoryAfterDispensing: jest.fn(),
+}));
+
+jest.mock('@/services/ClinicalCheckService', () => ({
+  checkReadyToDispense: jest.fn(),
+}));
+
+jest.mock('@/services/ClaimService', () => ({
+  createClaim: jest.fn().mockResolvedValue({ id: 'claim-1' }),
+}));
+
+jest.mock('@/services/PrescriptionEventService', () => ({
+  getPharmacyOdsCode: jest.fn(),
+  publishStatusChange: jest.fn(),
+}));
+
+jest.mock('@/services/RepeatDispensingService', () => ({
+  getDispensableIssue: jest.fn(),
+  recordIssueDispensed: jest.fn(),
+}));
+
+jest.mock('@/services/OwingService', () => ({
+  dispensePartially: jest.fn(),
+}));
+
+describe('Prescription actions API', () => {
+  const session = { user: { id: 'user-1', selectedPharmacyId: 'pharmacy-1' } };
+  const prescription = { id: 'rx-1', status: 'active' };
+  const earlyIssue = new Error('Issue 2 cannot be dispensed before 16/10/2026');
+  const params = { params: { id: 'rx-1' } };
+
+  const request = (method: string, body: any) => new NextRequest('http://localhost/api/prescriptions/rx-1', {
+    method,
+    body: JSON.stringify(body),
+  });
+
+  // PUT { action } and POST { action } both complete a prescription
+  const completePaths: [string, (body: any) => Promise<Response>][] = [
+    ['PUT', (body) => PUT(request('PUT', body), params)],
+    ['POST', (body) => POST(request('POST', body), params)],
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (requirePermission as jest.Mock).mockResolvedValue({ session });
+    (tenantPrisma.prescription.findUnique as jest.Mock).mockResolvedValue({ id: 'local-rx-1' });
+    (EPSService.getPrescription as jest.Mock).mockResolvedValue(prescription);
+    (EPSService.dispensePrescription as jest.Mock).mockResolvedValue({ ...prescription, status: 'completed' });
+    (InventoryPrescriptionService.checkPrescriptionStock as jest.Mock).mockResolvedValue({ items: [], allInStock: true, anyOutOfStock: false });
+    (InventoryPrescriptionService.checkControlledDrugSupply as jest.Mock).mockResolvedValue(undefined);
+    (InventoryPrescriptionService.updateInventoryAfterDispensing as jest.Mock).mockResolvedValue({ newStock: 10 });
+    (RepeatDispensingService.getDispensableIssue as jest.Mock).mockResolvedValue(null);
+    (PrescriptionEventService.getPharmacyOdsCode as jest.Mock).mockResolvedValue('FA123');
+  });
+
+  describe.each(completePaths)('%s complete', (_method, complete) => {
+    it('should refuse to dispense until the clinical check is signed off', async () => {
+      (ClinicalCheckService.checkReadyToDispense as jest.Mock).mockResolvedValue({
+        allowed: false,
+        reason: 'HIGH or CRITICAL validation issues need a pharmacist sign-off before dispensing',
+        clinicalCheckId: 'check-1',
+      });
+
+      const response = await complete({ action: 'complete', pharmacyOdsCode: 'FA123' });
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({
+        error: 'Cannot dispense prescription',
+        message: 'HIGH or CRITICAL validation issues need a pharmacist sign-off before dispensing',
+        clinicalCheckId: 'check-1',
+      });
+      expect(ClinicalCheckService.checkReadyToDispense).toHaveBeenCalledWith('local-rx-1');
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).not.toHaveBeenCalled();
+    });
+
+    it('should dispense once the clinical check allows it', async () => {
+      (ClinicalCheckService.checkReadyToDispense as jest.Mock).mockResolvedValue({ allowed: true, clinicalCheckId: 'check-1' });
+
+      const response = await complete({ action: 'complete', pharmacyOdsCode: 'FA123' });
+
+      expect(response.status).toBe(200);
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith('rx-1', 'FA123');
+      // The CD register records who dispensed
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).toHaveBeenCalledWith(
+        { ...prescription, status: 'completed' },
+        'user-1'
+      );
+    });
+
+    it('should refuse to dispense as another pharmacy', async () => {
+      (ClinicalCheckService.checkReadyToDispense as jest.Mock).mockResolvedValue({ allowed: true });
+
+      const response = await complete({ action: 'complete', pharmacyOdsCode: 'FB999' });
+
+      expect(response.status).toBe(403);
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+    });
+
+    it('should not dispense in EPS when the controlled drug register can\'t take the supply', async () => {
+      (ClinicalCheckService.checkReadyToDispense as jest.Mock).mockResolvedValue({ allowed: true });
+      (InventoryPrescriptionService.checkControlledDrugSupply as jest.Mock)
+        .mockRejectedValue(new Error('Controlled drug register balance for Morphine is lower than the quantity to supply'));
+
+      const response = await complete({ action: 'complete', pharmacyOdsCode: 'FA123' });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).message).toBe('Controlled drug register balance for Morphine is lower than the quantity to supply');
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an eRD issue before its earliest release date', async () => {
+      (ClinicalCheckService.checkReadyToDispense as jest.Mock).mockResolvedValue({ allowed: true });
+      (RepeatDispensingService.getDispensableIssue as jest.Mock).mockRejectedValue(earlyIssue);
+
+      const response = await complete({ action: 'complete', pharmacyOdsCode: 'FA123' });
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).message).toBe('Issue 2 cannot be dispensed before 16/10/2026');
+      expect(RepeatDispensingService.getDispensableIssue).toHaveBeenCalledWith('rx-1', 'pharmacy-1', expect.any(Date));
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT status update', () => {
+    it('should not mark a prescription dispensed outside the dispense pipeline', async () => {
+      const response = await PUT(request('PUT', { status: 'completed' }), params);
+
+      expect(response.status).toBe(400);
+      expect(EPSService.updatePrescriptionStatus).not.toHaveBeenCalled();
+      expect(ClinicalCheckService.checkReadyToDispense).not.toHaveBeenCalled();
+    });
+
+    it('should still update other statuses', async () => {
+      (EPSService.updatePrescriptionStatus as jest.Mock).mockResolvedValue({ ...prescription, status: 'on-hold' });
+
+      const response = await PUT(request('PUT', { status: 'on-hold' }), params);
+
+      expect(response.status).toBe(200);
+      expect(EPSService.updatePrescriptionStatus).toHaveBeenCalledWith('rx-1', 'on-hold', undefined);
+    });
+  });
+
+  describe('batch dispense', () => {
+    const batch = (prescriptionIds: string[]) => batchPOST(new NextRequest('http://localhost/api/prescriptions/batch', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'dispense', prescriptionIds, pharmacyOdsCode: 'FA123' }),
+    }));
+
+    it('should skip an eRD issue that isn\'t due and dispense the rest', async () => {
+      (ClinicalCheckService.checkReadyToDispense as jest.Mock).mockResolvedValue({ allowed: true });
+      (RepeatDispensingService.getDispensableIssue as jest.Mock)
+        .mockRejectedValueOnce(earlyIssue)
+        .mockResolvedValueOnce(null);
+      (EPSService.getPrescription as jest.Mock).mockResolvedValue({ id: 'rx-2', status: 'active' });
+
+      const response = await batch(['rx-1', 'rx-2']);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.errors).toEqual([{ id: 'rx-1', success: false, error: 'Issue 2 cannot be dispensed before 16/10/2026' }]);
+      expect(data.results).toEqual([{ id: 'rx-2', success: true, status: 'completed' }]);
+      expect(EPSService.dispensePrescription).toHaveBeenCalledTimes(1);
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith('rx-2', 'FA123');
+    });
+  });
+});
@@ -3,23 +3,37 @@ import { getServerSession } from 'next-auth/next';
 import { GET, POST } from '@/app/api/prescriptions/route';
 import EPSService from '@/services/EPSService';
 import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import { prisma } from '../../lib/db/prisma';
 
 // Mock dependencies
 jest.mock('next-auth/next', () => ({
   getServerSession: jest.fn(),
 }));
 
+jest.mock('../../lib/db/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+  },
+}), { virtual: true });
+
 jest.mock('@/services/EPSService', () => ({
   getPharmacyPrescriptions: jest.fn(),
   getPatientPrescriptions: jest.fn(),
   searchPrescriptions: jest.fn(),
   getPrescription: jest.fn(),
-  completePrescription: jest.fn(),
+  dispensePrescription: jest.fn(),
   cancelPrescription: jest.fn(),
 }));
 
+jest.mock('@/services/ClaimService', () => ({
+  createClaim: jest.fn(),
+}));
+
 jest.mock('@/services/InventoryPrescriptionService', () => ({
   checkPrescriptionStock: jest.fn(),
+  checkControlledDrugSupply: jest.fn(),
   updateInventoryAfterDispensing: jest.fn(),
 }));
 
@@ -27,7 +41,18 @@ describe('Prescriptions API', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (getServerSession as jest.Mock).mockResolvedValue({
-      user: { id: 'test-user-id', name: 'Test User' },
+      user: {
+        id: 'test-user-id',
+        name: 'Test User',
+        role: 'PHARMACY_STAFF',
+        pharmacies: [{ id: 'test-pharmacy-id', name: 'Test Pharmacy', role: 'PHARMACIST' }],
+        selectedPharmacyId: 'test-pharmacy-id',
+      },
+    });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      isActive: true,
+      role: 'PHARMACY_STAFF',
+      pharmacies: [{ pharmacyId: 'test-pharmacy-id', role: 'PHARMACIST' }],
     });
   });
 
@@ -177,7 +202,7 @@ describe('Prescriptions API', () => {
         anyOutOfStock: false,
         items: [],
       });
-      (EPSService.completePrescription as jest.Mock).mockResolvedValue({
+      (EPSService.dispensePrescription as jest.Mock).mockResolvedValue({
         ...mockPrescription,
         status: 'completed',
       });
@@ -190,6 +215,7 @@ describe('Prescriptions API', () => {
       const batchRequest = {
         action: 'dispense',
         prescriptionIds: ['prescription-1', 'prescription-2'],
+        pharmacyOdsCode: 'F1234',
       };
 
       // Create mock request
@@ -204,12 +230,35 @@ describe('Prescriptions API', () => {
 
       // Assertions
       expect(EPSService.getPrescription).toHaveBeenCalledTimes(2);
-      expect(EPSService.completePrescription).toHaveBeenCalledTimes(2);
+      expect(EPSService.dispensePrescription).toHaveBeenCalledTimes(2);
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith('prescription-1', 'F1234');
       expect(InventoryPrescriptionService.updateInventoryAfterDispensing).toHaveBeenCalledTimes(2);
       expect(data.action).toBe('dispense');
       expect(data.results.length).toBe(2);
       expect(data.results[0].success).toBe(true);
     });
+
+    it('should return 403 if the user\'s pharmacy role can\'t dispense', async () => {
+      // Mock a member of staff who isn't a pharmacist or technician
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        isActive: true,
+        role: 'PHARMACY_STAFF',
+        pharmacies: [{ pharmacyId: 'test-pharmacy-id', role: 'STAFF' }],
+      });
+
+      // Create mock request
+      const request = {
+        url: 'http://localhost:3000/api/prescriptions/batch',
+        json: jest.fn().mockResolvedValue({ action: 'dispense', prescriptionIds: ['prescription-1'] }),
+      } as unknown as NextRequest;
+
+      // Call the handler
+      const response = await POST(request);
+
+      // Assertions
+      expect(response.status).toBe(403);
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import {
+  chainFor,
+  checkpointSigningKey,
+  checkpointVerifyKey,
+  hashAuditEntry,
+  keyId,
+  signCheckpoint,
+  verifyCheckpointSignature,
+} from '../../lib/audit-chain';
+
+describe('audit-chain', () => {
+  const entry = {
+    chain: 'org-1',
+    sequence: 2,
+    previousHash: 'a'.repeat(64),
+    timestamp: new Date('2024-05-01T09:00:00.000Z'),
+    action: 'GET_PATIENT',
+    category: 'NHS_API',
+    organizationId: 'org-1',
+    userId: 'user-1',
+    nhsNumber: '******7890',
+    details: '{"reason":"lookup"}',
+  };
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+  afterEach(() => {
+    delete process.env.AUDIT_SIGNING_KEY;
+    delete process.env.AUDIT_VERIFY_KEY;
+  });
+
+  it('should put entries without an organization in the platform chain', () => {
+    expect(chainFor('org-1')).toBe('org-1');
+    expect(chainFor(null)).toBe('platform');
+  });
+
+  it('should hash the same entry the same way, treating missing fields as null', () => {
+    expect(hashAuditEntry(entry)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashAuditEntry({ ...entry, patientId: null, ipAddress: undefined })).toBe(hashAuditEntry(entry));
+  });
+
+  it('should change the hash when any content or the previous hash changes', () => {
+    const hash = hashAuditEntry(entry);
+
+    expect(hashAuditEntry({ ...entry, userId: 'user-2' })).not.toBe(hash);
+    expect(hashAuditEntry({ ...entry, details: '{"reason":"other"}' })).not.toBe(hash);
+    expect(hashAuditEntry({ ...entry, timestamp: new Date('2024-05-01T09:00:00.001Z') })).not.toBe(hash);
+    expect(hashAuditEntry({ ...entry, previousHash: 'b'.repeat(64) })).not.toBe(hash);
+    expect(hashAuditEntry({ ...entry, sequence: 3 })).not.toBe(hash);
+  });
+
+  it('should sign checkpoints that only verify unchanged', () => {
+    const checkpoint = { chain: 'org-1', sequence: 10, hash: 'c'.repeat(64), createdAt: new Date('2024-05-02T00:00:00.000Z') };
+    const signature = signCheckpoint(checkpoint, privateKey);
+
+    expect(verifyCheckpointSignature(checkpoint, signature, publicKey)).toBe(true);
+    expect(verifyCheckpointSignature({ ...checkpoint, sequence: 9 }, signature, publicKey)).toBe(false);
+    expect(verifyCheckpointSignature({ ...checkpoint, hash: 'd'.repeat(64) }, signature, publicKey)).toBe(false);
+    expect(verifyCheckpointSignature(checkpoint, 'not a signature', publicKey)).toBe(false);
+
+    const other = crypto.generateKeyPairSync('ed25519');
+    expect(verifyCheckpointSignature(checkpoint, signature, other.publicKey)).toBe(false);
+  });
+
+  it('should read keys from the environment with escaped newlines', () => {
+    expect(checkpointSigningKey()).toBeNull();
+    expect(checkpointVerifyKey()).toBeNull();
+
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    process.env.AUDIT_SIGNING_KEY = pem.replace(/\n/g, '\\n');
+
+    expect(keyId(checkpointSigningKey()!)).toBe(keyId(publicKey));
+    expect(keyId(checkpointVerifyKey()!)).toBe(keyId(publicKey));
+
+    const other = crypto.generateKeyPairSync('ed25519');
+    process.env.AUDIT_VERIFY_KEY = other.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+    expect(keyId(checkpointVerifyKey()!)).toBe(keyId(other.publicKey));
+    expect(keyId(checkpointVerifyKey()!)).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
@@ -0,0 +1,221 @@
+import { authOptions } from '../../lib/auth/auth-options';
+import { defaultIdentities, userinfoClaims } from '../../mocks/cis2/identities';
+import { prisma } from '../../lib/db/prisma';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => {
+  const client: any = {
+    account: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    pharmacy: {
+      findMany: jest.fn(),
+    },
+    userPharmacy: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    session: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((operations: any[]) => Promise.all(operations));
+  return { prisma: client };
+}, { virtual: true });
+
+jest.mock('bcrypt', () => ({
+  compare: jest.fn(async (password: string, hash: string) => hash === `hashed:${password}`),
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logAuthenticationAction: jest.fn(),
+}));
+
+jest.mock('@/services/MfaService', () => ({
+  __esModule: true,
+  default: { verify: jest.fn(async (user: any, code: string) => (code === '123456' ? 'totp' : null)) },
+  isMfaRequired: (user: any) => user.role === 'ORG_ADMIN',
+}));
+
+const mockPrisma = prisma as any;
+const callbacks = authOptions.callbacks as any;
+
+describe('authOptions', () => {
+  const [sam, alex, , chris] = defaultIdentities();
+  const cis2Account = { provider: 'cis2', type: 'oauth', providerAccountId: sam.uid };
+
+  // What NextAuth does with a sign-in: ask signIn, then build the token and the session from it
+  const signInWith = async (profile: any, account: any = cis2Account) => {
+    const allowed = await callbacks.signIn({ user: { id: profile.sub }, account, profile });
+    if (allowed !== true) {
+      return { allowed };
+    }
+
+    const token = await callbacks.jwt({ token: {}, user: { id: profile.sub }, account, profile, trigger: 'signIn' });
+    const session = await callbacks.session({ session: { user: {}, expires: '' }, token });
+
+    return { allowed, token, session };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.pharmacy.findMany.mockImplementation(async ({ where }: any) =>
+      where.odsCode.in.includes('FA565')
+        ? [{ id: 'pharmacy-1', name: 'Main Pharmacy', odsCode: 'FA565', organizationId: 'org-1' }]
+        : []
+    );
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.user.create.mockImplementation(async ({ data }: any) => ({ id: 'user-1', isActive: true, ...data }));
+    // The account is linked once signIn has created it
+    let linked = false;
+    mockPrisma.account.create.mockImplementation(async () => {
+      linked = true;
+    });
+    mockPrisma.account.findUnique.mockImplementation(async () => linked
+      ? { user: { id: 'user-1', role: 'PHARMACY_STAFF', organizationId: 'org-1', organization: { name: 'Test Org' } } }
+      : null);
+    mockPrisma.userPharmacy.findMany.mockResolvedValue([
+      { pharmacyId: 'pharmacy-1', role: 'PHARMACIST', pharmacy: { name: 'Main Pharmacy' } },
+    ]);
+    mockPrisma.session.create.mockResolvedValue({ id: 'session-1' });
+    mockPrisma.session.findUnique.mockResolvedValue({
+      id: 'session-1',
+      userId: 'user-1',
+      expires: new Date(Date.now() + 60 * 60 * 1000),
+      lastActiveAt: new Date(),
+    });
+  });
+
+  it('should register the password and CIS2 providers', () => {
+    expect(authOptions.providers.map(provider => provider.id)).toEqual(['credentials', 'cis2']);
+  });
+
+  it('should sign a smartcard holder in to the pharmacy they hold their role at', async () => {
+    const { allowed, session } = await signInWith(userinfoClaims(sam));
+
+    expect(allowed).toBe(true);
+    expect(mockPrisma.account.create).toHaveBeenCalled();
+    expect(session.user).toMatchObject({
+      id: 'user-1',
+      role: 'PHARMACY_STAFF',
+      organizationId: 'org-1',
+      isCis2User: true,
+      cis2RoleId: '555000000101',
+      selectedPharmacyId: 'pharmacy-1',
+      selectedPharmacyName: 'Main Pharmacy',
+      sessionId: 'session-1',
+      mfaEnrollmentRequired: false,
+    });
+  });
+
+  it('should switch a smartcard holder with several roles to the one they pick', async () => {
+    const { token, session } = await signInWith(userinfoClaims(alex));
+    expect(session.user).toMatchObject({ cis2RoleId: null, selectedPharmacyId: null });
+    expect(session.user.cis2Roles).toHaveLength(2);
+
+    const updated = await callbacks.jwt({ token, trigger: 'update', session: { cis2RoleId: '555000000202' } });
+
+    expect(updated).toMatchObject({ cis2RoleId: '555000000202', selectedPharmacyId: 'pharmacy-1' });
+  });
+
+  it('should send smartcard holders with no role at our pharmacies back to the login page', async () => {
+    const { allowed } = await signInWith(userinfoClaims(chris));
+
+    expect(allowed).toBe('/auth/login?error=Cis2NoPharmacy');
+  });
+
+  it('should only let other users select one of their own pharmacies', async () => {
+    const token: any = {
+      id: 'user-2',
+      pharmacies: [{ id: 'pharmacy-1', name: 'Main Pharmacy', role: 'PHARMACIST' }],
+      selectedPharmacyId: null,
+    };
+
+    await callbacks.jwt({ token, trigger: 'update', session: { selectedPharmacyId: 'pharmacy-2' } });
+    expect(token.selectedPharmacyId).toBeNull();
+
+    await callbacks.jwt({ token, trigger: 'update', session: { selectedPharmacyId: 'pharmacy-1' } });
+    expect(token).toMatchObject({ selectedPharmacyId: 'pharmacy-1', selectedPharmacyName: 'Main Pharmacy' });
+  });
+
+  describe('password sign-in', () => {
+    const credentials = authOptions.providers.find(provider => provider.id === 'credentials') as any;
+    const passwordAccount = { provider: 'credentials', type: 'credentials', providerAccountId: 'user-3' };
+    const request = { headers: { 'x-forwarded-for': '203.0.113.7', 'user-agent': 'Firefox' } };
+
+    const storedUser = (overrides: any = {}) => ({
+      id: 'user-3',
+      name: 'Priya Shah',
+      email: 'priya@example.com',
+      password: 'hashed:correct horse battery',
+      role: 'PHARMACY_STAFF',
+      isActive: true,
+      organizationId: 'org-1',
+      organization: { name: 'Test Org', mfaRequired: false, mfaRequiredRoles: [] },
+      mfaEnabledAt: null,
+      failedSignIns: 0,
+      lockedUntil: null,
+      ...overrides,
+    });
+
+    const authorize = (input: any = {}) => credentials.options.authorize(
+      { email: 'priya@example.com', password: 'correct horse battery', ...input },
+      request
+    );
+
+    it('should ask users with two-factor authentication on for a code, and check it', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ mfaEnabledAt: new Date('2026-01-01') }));
+
+      await expect(authorize()).rejects.toThrow('MfaRequired');
+      await expect(authorize({ code: '000000' })).rejects.toThrow('InvalidMfaCode');
+      await expect(authorize({ code: '123456' })).resolves.toMatchObject({ id: 'user-3', ipAddress: '203.0.113.7' });
+    });
+
+    it('should turn away a locked account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ lockedUntil: new Date(Date.now() + 60 * 1000) }));
+
+      await expect(authorize()).rejects.toThrow('AccountLocked');
+    });
+
+    it('should record the session and send users who must set up two-factor authentication to do so', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ role: 'ORG_ADMIN' }));
+
+      const user = await authorize();
+      const token = await callbacks.jwt({ token: {}, user, account: passwordAccount, trigger: 'signIn' });
+      const session = await callbacks.session({ session: { user: {}, expires: '' }, token });
+
+      expect(mockPrisma.session.create.mock.calls[0][0].data).toMatchObject({
+        userId: 'user-3',
+        provider: 'credentials',
+        ipAddress: '203.0.113.7',
+        userAgent: 'Firefox',
+      });
+      expect(session.user).toMatchObject({
+        id: 'user-3',
+        role: 'ORG_ADMIN',
+        organizationName: 'Test Org',
+        selectedPharmacyId: 'pharmacy-1',
+        sessionId: 'session-1',
+        mfaEnrollmentRequired: true,
+      });
+    });
+
+    it('should sign a session out once it has been ended', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue(null);
+
+      await expect(callbacks.jwt({ token: { id: 'user-3', sessionId: 'session-1' } }))
+        .rejects.toThrow('This session has been signed out');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  Cis2Provider,
+  DEFAULT_CIS2_ROLE_MAP,
+  buildCis2RoleMap,
+  cis2Roles,
+  jobRoleCode,
+} from '../../lib/cis2';
+import { defaultIdentities, userinfoClaims } from '../../mocks/cis2/identities';
+
+describe('cis2', () => {
+  const profile = () => userinfoClaims(defaultIdentities()[1]);
+
+  it('should take the job role from a full role code', () => {
+    expect(jobRoleCode('S8000:G8000:R8003')).toBe('R8003');
+    expect(jobRoleCode('R8008')).toBe('R8008');
+  });
+
+  it('should map RBAC roles to pharmacy roles', () => {
+    expect(cis2Roles(profile())).toEqual([
+      expect.objectContaining({
+        roleId: '555000000201',
+        odsCode: 'FA565',
+        roleName: 'Health Professional Access Role',
+        pharmacyRole: 'PHARMACIST',
+        activityCodes: ['B0572'],
+      }),
+      expect.objectContaining({ roleId: '555000000202', pharmacyRole: 'STAFF' }),
+    ]);
+  });
+
+  it('should drop roles whose job role isn\'t mapped', () => {
+    const roleMap = buildCis2RoleMap({ R8008: null });
+
+    expect(cis2Roles(profile(), roleMap).map(role => role.roleId)).toEqual(['555000000201']);
+    expect(cis2Roles({ sub: '1', nhsid_nrbac_roles: [{ person_roleid: '2', org_code: 'FA565', role_code: 'S0:G0:R9999' }] })).toEqual([]);
+    expect(cis2Roles({ sub: '1' })).toEqual([]);
+  });
+
+  it('should apply role map overrides and reject unknown pharmacy roles', () => {
+    expect(buildCis2RoleMap('{"R8008":"TECHNICIAN"}')).toEqual({ ...DEFAULT_CIS2_ROLE_MAP, R8008: 'TECHNICIAN' });
+    expect(buildCis2RoleMap(null)).toBe(DEFAULT_CIS2_ROLE_MAP);
+    expect(() => buildCis2RoleMap({ R8008: 'SUPERUSER' })).toThrow('Unknown pharmacy role');
+    expect(() => buildCis2RoleMap('[]')).toThrow('must be an object');
+  });
+
+  it('should ask CIS2 for RBAC roles at smartcard assurance', () => {
+    const provider = Cis2Provider({ issuer: 'https://cis2.example/realms/Healthcare/', clientId: 'client', clientSecret: 'secret' });
+
+    expect(provider).toMatchObject({
+      id: 'cis2',
+      wellKnown: 'https://cis2.example/realms/Healthcare/.well-known/openid-configuration',
+      idToken: true,
+      checks: ['pkce', 'state', 'nonce'],
+      authorization: { params: { acr_values: 'AAL3_ANY' } },
+    });
+    expect((provider.authorization as any).params.scope.split(' ')).toEqual(
+      expect.arrayContaining(['openid', 'nationalrbacaccess', 'selectedrole'])
+    );
+    expect(provider.profile({ sub: '555000000001', given_name: 'Sam', family_name: 'Patel' }, {} as any))
+      .toEqual({ id: '555000000001', name: 'Sam Patel', email: null });
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  consentLinkUrl,
+  createConsentLinkToken,
+  verifyConsentLinkToken,
+} from '../../lib/consent-link';
+
+describe('consent-link', () => {
+  const secret = 'test-secret';
+  const now = new Date('2026-10-14T09:00:00Z');
+  const expiresAt = new Date('2026-10-28T09:00:00Z');
+
+  const restoreEnv = (name: string, value: string | undefined) => {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  };
+
+  it('should round-trip the link ID and expiry', () => {
+    const token = createConsentLinkToken({ linkId: 'link-1', expiresAt }, secret);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(verifyConsentLinkToken(token, now, secret)).toEqual({ linkId: 'link-1', expiresAt });
+  });
+
+  it('should reject altered, forged and malformed tokens', () => {
+    const token = createConsentLinkToken({ linkId: 'link-1', expiresAt }, secret);
+    const [, signature] = token.split('.');
+    const altered = Buffer.from(JSON.stringify(['link-2', expiresAt.getTime() / 1000])).toString('base64url');
+
+    expect(verifyConsentLinkToken(`${altered}.${signature}`, now, secret)).toBeNull();
+    expect(verifyConsentLinkToken(token, now, 'another-secret')).toBeNull();
+    expect(verifyConsentLinkToken(`${token}.extra`, now, secret)).toBeNull();
+    expect(verifyConsentLinkToken('', now, secret)).toBeNull();
+  });
+
+  it('should reject an expired token', () => {
+    const token = createConsentLinkToken({ linkId: 'link-1', expiresAt }, secret);
+
+    expect(verifyConsentLinkToken(token, new Date('2026-10-28T09:00:01Z'), secret)).toBeNull();
+  });
+
+  it('should refuse to sign without a secret', () => {
+    const original = process.env.CONSENT_LINK_SECRET;
+    delete process.env.CONSENT_LINK_SECRET;
+
+    try {
+      expect(() => createConsentLinkToken({ linkId: 'link-1', expiresAt })).toThrow('CONSENT_LINK_SECRET must be set');
+    } finally {
+      restoreEnv('CONSENT_LINK_SECRET', original);
+    }
+  });
+
+  it('should build the link on the consent page', () => {
+    const original = process.env.CONSENT_PORTAL_URL;
+    process.env.CONSENT_PORTAL_URL = 'https://consent.example.nhs.uk/';
+
+    try {
+      expect(consentLinkUrl('abc.def')).toBe('https://consent.example.nhs.uk/?token=abc.def');
+    } finally {
+      restoreEnv('CONSENT_PORTAL_URL', original);
+    }
+  });
+});
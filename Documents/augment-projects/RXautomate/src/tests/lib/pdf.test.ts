@@ -0,0 +1,41 @@
+import { textPdf, wrapLine } from '../../lib/pdf';
+
+describe('pdf', () => {
+  describe('wrapLine', () => {
+    it('should break at spaces and keep the indent', () => {
+      expect(wrapLine('short', 10)).toEqual(['short']);
+      expect(wrapLine('  one two three four', 10)).toEqual(['  one two', '  three', '  four']);
+    });
+
+    it('should cut words longer than the line', () => {
+      expect(wrapLine('abcdefghijkl', 5)).toEqual(['abcde', 'fghij', 'kl']);
+    });
+  });
+
+  describe('textPdf', () => {
+    it('should write a PDF with an object for each page and a valid cross-reference table', () => {
+      const pdf = textPdf([{ text: 'Title', heading: true }, ...Array.from({ length: 60 }, (_, i) => `Line ${i}`)]).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf).toContain('/F2 12 Tf (Title) Tj');
+      expect(pdf).toContain('(Page 2 of 2)');
+
+      // Every offset in the table points at its object
+      const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      const offsets = pdf.slice(xref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+      offsets.forEach((offset, i) => expect(pdf.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj`)));
+    });
+
+    it('should escape brackets and backslashes and replace characters the fonts lack', () => {
+      const pdf = textPdf(['(a) \\ b 💊']).toString('latin1');
+
+      expect(pdf).toContain('(\\(a\\) \\\\ b ?) Tj');
+    });
+
+    it('should write one page for no lines', () => {
+      expect(textPdf([]).toString('latin1')).toContain('/Count 1');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  buildPermissionMatrix,
+  DEFAULT_PERMISSION_MATRIX,
+  hasPermission,
+  pagePermission,
+  permissionsFor,
+} from '../../lib/permissions';
+
+describe('permissions', () => {
+  const atPharmacy = (pharmacyRole: string, role = 'PHARMACY_STAFF') => ({
+    role,
+    pharmacies: [
+      { id: 'pharmacy-a', role: pharmacyRole },
+      { id: 'pharmacy-b', role: 'STAFF' },
+    ],
+    selectedPharmacyId: 'pharmacy-a',
+  });
+
+  it('should let pharmacists clinically check and dispense, but not technicians check', () => {
+    expect(hasPermission(atPharmacy('PHARMACIST'), 'prescription.clinical_check')).toBe(true);
+    expect(hasPermission(atPharmacy('PHARMACIST'), 'prescription.dispense')).toBe(true);
+    expect(hasPermission(atPharmacy('TECHNICIAN'), 'prescription.dispense')).toBe(true);
+    expect(hasPermission(atPharmacy('TECHNICIAN'), 'prescription.clinical_check')).toBe(false);
+    expect(hasPermission(atPharmacy('STAFF'), 'inventory.adjust')).toBe(false);
+    expect(hasPermission(atPharmacy('STAFF'), 'inventory.read')).toBe(true);
+  });
+
+  it('should use the role at the selected pharmacy only', () => {
+    const user = { ...atPharmacy('PHARMACIST'), selectedPharmacyId: 'pharmacy-b' };
+
+    expect(hasPermission(user, 'prescription.dispense')).toBe(false);
+    expect(hasPermission({ ...user, selectedPharmacyId: null }, 'prescription.read')).toBe(false);
+    expect(hasPermission({ ...user, selectedPharmacyId: 'pharmacy-c' }, 'prescription.read')).toBe(false);
+  });
+
+  it('should grant admin permissions by user role without a pharmacy', () => {
+    const orgAdmin = { role: 'ORG_ADMIN', pharmacies: [] };
+
+    expect(hasPermission(orgAdmin, 'audit.read')).toBe(true);
+    expect(hasPermission(orgAdmin, 'pharmacy.manage')).toBe(true);
+    expect(hasPermission(orgAdmin, 'organization.manage')).toBe(false);
+    expect(hasPermission(orgAdmin, 'prescription.dispense')).toBe(false);
+    expect(hasPermission({ role: 'SUPER_ADMIN' }, 'organization.manage')).toBe(true);
+    expect(hasPermission(null, 'prescription.read')).toBe(false);
+  });
+
+  it('should list everything a user can do', () => {
+    const permissions = permissionsFor(atPharmacy('STAFF'));
+
+    expect(permissions).toContain('message.send');
+    expect(permissions).not.toContain('patient.export');
+    expect(permissions).not.toContain('admin.access');
+  });
+
+  describe('buildPermissionMatrix', () => {
+    it('should replace only the overridden permissions', () => {
+      const matrix = buildPermissionMatrix(JSON.stringify({
+        'inventory.adjust': [{ pharmacyRoles: ['PHARMACIST'] }],
+        'patient.export': [{ roles: ['PHARMACY_ADMIN'], pharmacyRoles: ['ADMIN'] }],
+      }));
+
+      expect(hasPermission(atPharmacy('TECHNICIAN'), 'inventory.adjust', matrix)).toBe(false);
+      expect(hasPermission(atPharmacy('PHARMACIST'), 'inventory.adjust', matrix)).toBe(true);
+      expect(hasPermission(atPharmacy('ADMIN'), 'patient.export', matrix)).toBe(false);
+      expect(hasPermission(atPharmacy('ADMIN', 'PHARMACY_ADMIN'), 'patient.export', matrix)).toBe(true);
+      expect(matrix['prescription.dispense']).toBe(DEFAULT_PERMISSION_MATRIX['prescription.dispense']);
+    });
+
+    it('should reject unknown permissions and roles', () => {
+      expect(() => buildPermissionMatrix({ 'inventory.delete': [] })).toThrow('Unknown permission in overrides: inventory.delete');
+      expect(() => buildPermissionMatrix({ 'audit.read': [{ pharmacyRoles: ['DISPENSER'] }] }))
+        .toThrow('Unknown role in grants for audit.read: DISPENSER');
+      expect(() => buildPermissionMatrix({ 'audit.read': { roles: ['ORG_ADMIN'] } })).toThrow('Grants for audit.read must be an array');
+      expect(buildPermissionMatrix(undefined)).toBe(DEFAULT_PERMISSION_MATRIX);
+    });
+  });
+
+  it('should find the permission for a page, most specific path first', () => {
+    expect(pagePermission('/prescriptions/analytics')).toBe('analytics.read');
+    expect(pagePermission('/prescriptions/repeat')).toBe('prescription.read');
+    expect(pagePermission('/admin/organizations')).toBe('organization.manage');
+    expect(pagePermission('/admin/organization')).toBe('organization.settings');
+    expect(pagePermission('/admin')).toBe('admin.access');
+    expect(pagePermission('/inventory-reports')).toBeNull();
+    expect(pagePermission('/dashboard')).toBeNull();
+  });
+});
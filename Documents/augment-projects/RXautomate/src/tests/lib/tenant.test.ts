@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import {
+  runAsAdmin,
+  runAsSystem,
+  runWithTenant,
+  scopeQuery,
+  tenantFromSession,
+  tenantIsolation,
+  TenantIsolationError,
+} from '../../lib/db/tenant';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => ({
+  prisma: {
+    $extends: jest.fn(() => ({})),
+  },
+}), { virtual: true });
+
+// Rows for two pharmacies in two organisations
+const rows: Record<string, any[]> = {
+  InventoryItem: [
+    { id: 'item-a', pharmacyId: 'pharmacy-a', name: 'Amoxicillin 500mg capsules', currentStock: 40 },
+    { id: 'item-b', pharmacyId: 'pharmacy-b', name: 'Amoxicillin 500mg capsules', currentStock: 0 },
+  ],
+  Pharmacy: [
+    { id: 'pharmacy-a', organizationId: 'org-a', name: 'High Street Pharmacy' },
+    { id: 'pharmacy-b', organizationId: 'org-b', name: 'Market Square Pharmacy' },
+  ],
+  User: [{ id: 'user-1', email: 'pharmacist@example.com' }],
+};
+
+// Enough of Prisma's where filtering to run the queries below
+const matches = (row: any, where: any = {}): boolean => Object.entries(where).every(([key, condition]: [string, any]) => {
+  if (key === 'AND') {
+    return (condition as any[]).every(part => matches(row, part));
+  }
+  if (condition && typeof condition === 'object' && 'contains' in condition) {
+    return String(row[key]).toLowerCase().includes(condition.contains.toLowerCase());
+  }
+  return row[key] === condition;
+});
+
+// Stands in for the database behind the extended client
+const database = jest.fn(async (model: string, operation: string, args: any) => {
+  const found = rows[model].filter(row => matches(row, args.where));
+
+  switch (operation) {
+    case 'findMany':
+      return found;
+    case 'findUnique':
+    case 'findFirst':
+      return found[0] || null;
+    case 'count':
+      return found.length;
+    default:
+      return args;
+  }
+});
+
+// The handler the extension installs on every model
+const { $allOperations } = (tenantIsolation as any)({ $extends: (extension: any) => extension }).query.$allModels;
+
+const run = (model: string, operation: string, args: any) => $allOperations({
+  model,
+  operation,
+  args,
+  query: (scoped: any) => database(model, operation, scoped),
+});
+
+describe('tenant isolation', () => {
+  const pharmacyA = { organizationId: 'org-a', pharmacyId: 'pharmacy-a', userId: 'user-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only find the selected pharmacy\'s rows', async () => {
+    const items = await runWithTenant(pharmacyA, () => run('InventoryItem', 'findMany', {
+      where: { name: { contains: 'amoxicillin', mode: 'insensitive' } },
+    }));
+
+    expect(items.map((item: any) => item.id)).toEqual(['item-a']);
+  });
+
+  it('should never return another pharmacy\'s row, even when asked for it directly', async () => {
+    await runWithTenant(pharmacyA, async () => {
+      await expect(run('InventoryItem', 'findUnique', { where: { id: 'item-b' } })).resolves.toBeNull();
+      await expect(run('InventoryItem', 'findMany', { where: { pharmacyId: 'pharmacy-b' } })).resolves.toEqual([]);
+      await expect(run('InventoryItem', 'count', { where: { AND: { pharmacyId: 'pharmacy-b' } } })).resolves.toBe(0);
+      await expect(run('Pharmacy', 'findMany', {})).resolves.toEqual([rows.Pharmacy[0]]);
+    });
+  });
+
+  it('should fail loudly when a tenant-scoped model is queried without a tenant', async () => {
+    await expect(run('InventoryItem', 'findMany', {})).rejects.toThrow(TenantIsolationError);
+    await expect(runWithTenant({ organizationId: 'org-a' }, () => run('InventoryItem', 'findMany', {})))
+      .rejects.toThrow('InventoryItem.findMany needs a selected pharmacy');
+    expect(database).not.toHaveBeenCalled();
+
+    // Models that aren't tenant data are left alone
+    await expect(run('User', 'findUnique', { where: { id: 'user-1' } })).resolves.toEqual(rows.User[0]);
+  });
+
+  it('should keep concurrent requests apart', async () => {
+    const pharmacyB = { organizationId: 'org-b', pharmacyId: 'pharmacy-b' };
+    const stockFor = (context: any) => runWithTenant(context, async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return run('InventoryItem', 'findMany', {});
+    });
+
+    const [a, b] = await Promise.all([stockFor(pharmacyA), stockFor(pharmacyB)]);
+
+    expect(a.map((item: any) => item.id)).toEqual(['item-a']);
+    expect(b.map((item: any) => item.id)).toEqual(['item-b']);
+  });
+
+  it('should let scheduled jobs work across tenants', async () => {
+    const items = await runAsSystem(() => run('InventoryItem', 'findMany', {}));
+
+    expect(items).toHaveLength(2);
+  });
+
+  describe('scopeQuery', () => {
+    it('should file new rows under the current pharmacy and refuse another\'s', () => {
+      expect(scopeQuery('InventoryItem', 'create', { data: { name: 'Paracetamol' } }, pharmacyA))
+        .toEqual({ data: { name: 'Paracetamol', pharmacyId: 'pharmacy-a' } });
+      expect(() => scopeQuery('InventoryItem', 'create', { data: { name: 'Paracetamol', pharmacyId: 'pharmacy-b' } }, pharmacyA))
+        .toThrow(TenantIsolationError);
+      expect(() => scopeQuery('Owing', 'createMany', { data: [{ pharmacy: { connect: { id: 'pharmacy-b' } } }] }, pharmacyA))
+        .toThrow('Owing.createMany can\'t write to another tenant\'s pharmacy');
+    });
+
+    it('should scope updates and stop a row being moved to another pharmacy', () => {
+      expect(scopeQuery('InventoryItem', 'update', { where: { id: 'item-a' }, data: { currentStock: 30 } }, pharmacyA)).toEqual({
+        where: { id: 'item-a', AND: [{ pharmacyId: 'pharmacy-a' }] },
+        data: { currentStock: 30 },
+      });
+      expect(() => scopeQuery('InventoryItem', 'updateMany', { where: {}, data: { pharmacyId: 'pharmacy-b' } }, pharmacyA))
+        .toThrow(TenantIsolationError);
+    });
+  });
+
+  it('should take the tenant from the session\'s organisation and selected pharmacy', () => {
+    expect(tenantFromSession({ user: { id: 'user-1', organizationId: 'org-a', selectedPharmacyId: 'pharmacy-a' } }))
+      .toEqual(pharmacyA);
+  });
+
+  it('should only let super admins work across organisations', async () => {
+    const admin = { user: { id: 'user-1', role: 'ADMIN', organizationId: 'org-a', selectedPharmacyId: 'pharmacy-a' } };
+    const superAdmin = { user: { id: 'user-2', role: 'SUPER_ADMIN', organizationId: null } };
+
+    await expect(runAsAdmin(admin, () => run('Pharmacy', 'findMany', {}))).resolves.toEqual([rows.Pharmacy[0]]);
+    await expect(runAsAdmin(superAdmin, () => run('Pharmacy', 'findMany', {}))).resolves.toHaveLength(2);
+  });
+});
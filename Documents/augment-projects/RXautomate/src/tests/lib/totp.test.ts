@@ -0,0 +1,46 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  otpauthUri,
+  totpCode,
+  totpStep,
+  verifyTotp,
+} from '../../lib/totp';
+
+describe('totp', () => {
+  // The RFC 6238 test secret, "12345678901234567890"
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('should round-trip base32', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(secret);
+    expect(base32Decode(secret.toLowerCase()).toString()).toBe('12345678901234567890');
+    expect(() => base32Decode('not base32!')).toThrow('Invalid base32 character');
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(totpCode(secret, totpStep(59 * 1000))).toBe('287082');
+    expect(totpCode(secret, totpStep(1111111109 * 1000))).toBe('081804');
+    expect(totpCode(secret, totpStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('should accept a code a step either side and report its step', () => {
+    const now = 1111111109 * 1000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(secret, '081804', now)).toBe(step);
+    expect(verifyTotp(secret, totpCode(secret, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(secret, totpCode(secret, step + 2), now)).toBeNull();
+    expect(verifyTotp(secret, '081 804', now)).toBe(step);
+    expect(verifyTotp(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('should generate secrets and otpauth URIs authenticator apps accept', () => {
+    const generated = generateTotpSecret();
+
+    expect(generated).toMatch(/^[A-Z2-7]{32}$/);
+    expect(otpauthUri(generated, 'sam.patel@nhs.net')).toBe(
+      `otpauth://totp/RXautomate%3Asam.patel%40nhs.net?secret=${generated}&issuer=RXautomate&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { middleware } from '../../middleware';
+
+// Mock dependencies
+jest.mock('next-auth/jwt', () => ({
+  getToken: jest.fn(),
+}));
+
+jest.mock('../../middleware/nhs-api-rate-limiter', () => ({
+  nhsApiRateLimiter: jest.fn(),
+}));
+
+describe('middleware', () => {
+  const post = (path: string, headers: Record<string, string> = {}) =>
+    middleware(new NextRequest(`http://localhost${path}`, { method: 'POST', headers }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getToken as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should send requests without a session to the login page', async () => {
+    const response = await post('/api/messages');
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toContain('/auth/login');
+  });
+
+  it('should let Notify delivery receipts through to the route\'s own token check', async () => {
+    const response = await post('/api/notify/callback', { authorization: 'Bearer callback-token' });
+
+    expect(response.headers.get('location')).toBeNull();
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+    expect(getToken).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['STOP replies from Notify', '/api/notify/inbound', 'Bearer callback-token'],
+    ['the deferred message release cron', '/api/messages/deferred/release', 'Bearer cron-secret'],
+    ['the eRD issue release cron', '/api/prescriptions/repeat/release', 'Bearer cron-secret'],
+    ['the nominated prescription sync cron', '/api/prescriptions/sync', 'Bearer cron-secret'],
+    ['the notification retention cron', '/api/notifications/cleanup', 'Bearer cron-secret'],
+  ])('should let %s through to the route\'s own secret check', async (_caller, path, authorization) => {
+    const response = await post(path, { authorization });
+
+    expect(response.headers.get('location')).toBeNull();
+    expect(getToken).not.toHaveBeenCalled();
+  });
+});
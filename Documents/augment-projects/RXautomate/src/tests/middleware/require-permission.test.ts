@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import { getServerSession } from 'next-auth/next';
+import { requirePermission } from '../../middleware/require-permission';
+import { prisma } from '../../lib/db/prisma';
+
+// Mock dependencies
+jest.mock('next-auth/next', () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock('../../lib/auth', () => ({
+  authOptions: {},
+}), { virtual: true });
+
+jest.mock('../../lib/db/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+  },
+}), { virtual: true });
+
+const mockPrisma = prisma as any;
+
+describe('requirePermission', () => {
+  const session = {
+    user: {
+      id: 'user-1',
+      role: 'PHARMACY_STAFF',
+      pharmacies: [{ id: 'pharmacy-a', name: 'High Street Pharmacy', role: 'TECHNICIAN' }],
+      selectedPharmacyId: 'pharmacy-a',
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockPrisma.user.findUnique.mockResolvedValue({
+      isActive: true,
+      role: 'PHARMACY_STAFF',
+      pharmacies: [{ pharmacyId: 'pharmacy-a', role: 'TECHNICIAN' }],
+    });
+  });
+
+  it('should return the session when the user holds the permission', async () => {
+    (getServerSession as jest.Mock).mockResolvedValue(session);
+
+    const result = await requirePermission('prescription.dispense');
+
+    expect(result).toEqual({ session });
+  });
+
+  it('should answer 403 when the user\'s roles don\'t grant it', async () => {
+    (getServerSession as jest.Mock).mockResolvedValue(session);
+
+    const { session: found, error } = await requirePermission('prescription.clinical_check');
+
+    expect(found).toBeUndefined();
+    expect(error?.status).toBe(403);
+    await expect(error?.json()).resolves.toEqual({
+      error: 'Forbidden',
+      message: 'You need the prescription.clinical_check permission to do this',
+    });
+  });
+
+  it('should answer 401 without a session', async () => {
+    (getServerSession as jest.Mock).mockResolvedValue(null);
+
+    const { error } = await requirePermission('prescription.read');
+
+    expect(error?.status).toBe(401);
+    expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should use the user\'s current roles rather than the ones in the session', async () => {
+    (getServerSession as jest.Mock).mockResolvedValue(session);
+    mockPrisma.user.findUnique.mockResolvedValue({
+      isActive: true,
+      role: 'PHARMACY_STAFF',
+      pharmacies: [{ pharmacyId: 'pharmacy-a', role: 'STAFF' }],
+    });
+
+    const { error } = await requirePermission('prescription.dispense');
+
+    expect(error?.status).toBe(403);
+    expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'user-1' } }));
+  });
+
+  it('should answer 401 once the user is deactivated, even with a valid session', async () => {
+    (getServerSession as jest.Mock).mockResolvedValue(session);
+    mockPrisma.user.findUnique.mockResolvedValue({ isActive: false, role: 'PHARMACY_STAFF', pharmacies: [] });
+
+    const { error } = await requirePermission('prescription.read');
+
+    expect(error?.status).toBe(401);
+    await expect(error?.json()).resolves.toEqual({ error: 'Unauthorized', message: 'This account has been deactivated' });
+  });
+
+  it('should answer 403 until a user who has to use MFA has set it up', async () => {
+    (getServerSession as jest.Mock).mockResolvedValue(session);
+    mockPrisma.user.findUnique.mockResolvedValue({
+      isActive: true,
+      role: 'PHARMACY_STAFF',
+      mfaEnabledAt: null,
+      organization: { mfaRequired: true, mfaRequiredRoles: [] },
+      pharmacies: [{ pharmacyId: 'pharmacy-a', role: 'TECHNICIAN' }],
+    });
+
+    const { error } = await requirePermission('prescription.read');
+
+    expect(error?.status).toBe(403);
+    await expect(error?.json()).resolves.toEqual({ error: 'Forbidden', message: 'Set up two-factor authentication to continue' });
+
+    // CIS2 smartcard users have already used a second factor
+    (getServerSession as jest.Mock).mockResolvedValue({ user: { ...session.user, isCis2User: true } });
+    await expect(requirePermission('prescription.read')).resolves.toEqual({ session: expect.anything() });
+  });
+});
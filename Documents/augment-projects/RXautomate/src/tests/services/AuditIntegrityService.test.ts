@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { AuditIntegrityService, ChainedAuditEntry, verifyEntries } from '@/services/AuditIntegrityService';
+import { hashAuditEntry, keyId, signCheckpoint } from '../../lib/audit-chain';
+
+/**
+ * A chain of entries hashed the way AuditService writes them
+ */
+function buildChain(length: number, chain = 'org-1'): ChainedAuditEntry[] {
+  const entries: ChainedAuditEntry[] = [];
+
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const fields = {
+      chain,
+      sequence,
+      previousHash: entries[sequence - 2]?.hash ?? null,
+      timestamp: new Date(Date.UTC(2024, 4, 1, 9, sequence)),
+      action: 'GET_PATIENT',
+      category: 'NHS_API',
+      organizationId: chain === 'platform' ? null : chain,
+      userId: 'user-1',
+      details: JSON.stringify({ lookup: sequence }),
+    };
+    entries.push({ id: `entry-${sequence}`, ...fields, hash: hashAuditEntry(fields) });
+  }
+
+  return entries;
+}
+
+/**
+ * Just enough of the Prisma client for the service, over in-memory rows
+ */
+function fakePrisma(entries: ChainedAuditEntry[], checkpoints: any[] = []) {
+  return {
+    auditLog: {
+      findMany: jest.fn(({ where, take }: any) => {
+        if (where.chain?.not === null) {
+          return Promise.resolve(entries.map(({ chain, organizationId }) => ({ chain, organizationId })));
+        }
+        const after = where.sequence?.gt ?? 0;
+        return Promise.resolve(
+          entries
+            .filter(entry => entry.chain === where.chain && entry.sequence > after)
+            .sort((a, b) => a.sequence - b.sequence)
+            .slice(0, take)
+        );
+      }),
+      count: jest.fn().mockResolvedValue(0),
+    },
+    auditCheckpoint: {
+      findMany: jest.fn(({ where }: any = {}) =>
+        Promise.resolve(checkpoints.filter(checkpoint => !where?.chain || checkpoint.chain === where.chain))
+      ),
+      findFirst: jest.fn(() => Promise.resolve(checkpoints[checkpoints.length - 1] || null)),
+      create: jest.fn(({ data }: any) => Promise.resolve({ id: 'checkpoint-new', ...data })),
+    },
+  } as any;
+}
+
+describe('AuditIntegrityService', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+  function checkpointAt(entry: ChainedAuditEntry, key = privateKey) {
+    const fields = { chain: entry.chain, sequence: entry.sequence, hash: entry.hash, createdAt: new Date('2024-05-02T00:00:00.000Z') };
+    return { id: `checkpoint-${entry.sequence}`, organizationId: entry.organizationId, ...fields, signature: signCheckpoint(fields, key), keyId: keyId(key) };
+  }
+
+  describe('verifyEntries', () => {
+    it('should pass an untouched chain and report where it ended', () => {
+      const entries = buildChain(5);
+      const { breaks, position } = verifyEntries(entries);
+
+      expect(breaks).toEqual([]);
+      expect(position).toEqual({ sequence: 5, hash: entries[4].hash });
+    });
+
+    it('should carry on from where the previous batch ended', () => {
+      const entries = buildChain(5);
+      const first = verifyEntries(entries.slice(0, 2));
+
+      expect(verifyEntries(entries.slice(2), first.position).breaks).toEqual([]);
+      expect(verifyEntries(entries.slice(2)).breaks[0].type).toBe('entries_missing');
+    });
+
+    it('should find an edited entry once', () => {
+      const entries = buildChain(5);
+      entries[2] = { ...entries[2], userId: 'someone-else' };
+
+      const { breaks } = verifyEntries(entries);
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0]).toMatchObject({ type: 'entry_changed', sequence: 3, entryId: 'entry-3' });
+    });
+
+    it('should find deleted entries', () => {
+      const entries = buildChain(6);
+      const { breaks } = verifyEntries([...entries.slice(0, 2), ...entries.slice(4)]);
+
+      expect(breaks).toHaveLength(1);
+      expect(breaks[0]).toMatchObject({ type: 'entries_missing', sequence: 3, message: 'Entries 3 to 4 are missing' });
+    });
+
+    it('should find an entry replaced with a freshly hashed one', () => {
+      const entries = buildChain(4);
+      const forged = { ...entries[1], userId: 'someone-else', previousHash: 'f'.repeat(64) };
+      entries[1] = { ...forged, hash: hashAuditEntry(forged) };
+
+      const types = verifyEntries(entries).breaks.map(chainBreak => chainBreak.type);
+
+      expect(types).toEqual(['link_broken', 'link_broken']);
+    });
+  });
+
+  describe('verifyChain', () => {
+    it('should check the chain against signed checkpoints', async () => {
+      const entries = buildChain(5);
+      const service = new AuditIntegrityService(fakePrisma(entries, [checkpointAt(entries[2])]));
+
+      const report = await service.verifyChain('org-1', publicKey);
+
+      expect(report).toMatchObject({
+        chain: 'org-1',
+        organizationId: 'org-1',
+        entries: 5,
+        lastSequence: 5,
+        lastHash: entries[4].hash,
+        checkpoints: 1,
+        breaks: [],
+        warnings: [],
+      });
+    });
+
+    it('should find entries deleted from the end of a checkpointed chain', async () => {
+      const entries = buildChain(5);
+      const service = new AuditIntegrityService(fakePrisma(entries.slice(0, 3), [checkpointAt(entries[4])]));
+
+      const report = await service.verifyChain('org-1', publicKey);
+
+      expect(report.breaks).toEqual([
+        expect.objectContaining({ type: 'chain_truncated', message: 'The chain ends at entry 3 but was checkpointed at entry 5' }),
+      ]);
+    });
+
+    it('should find a chain rebuilt since it was checkpointed', async () => {
+      const original = buildChain(3);
+      const rebuilt = buildChain(3).map(entry => ({ ...entry }));
+      rebuilt[0] = { ...rebuilt[0], userId: 'someone-else' };
+      rebuilt[0].hash = hashAuditEntry(rebuilt[0]);
+      for (let i = 1; i < rebuilt.length; i++) {
+        rebuilt[i] = { ...rebuilt[i], previousHash: rebuilt[i - 1].hash };
+        rebuilt[i].hash = hashAuditEntry(rebuilt[i]);
+      }
+
+      const service = new AuditIntegrityService(fakePrisma(rebuilt, [checkpointAt(original[2])]));
+      const report = await service.verifyChain('org-1', publicKey);
+
+      expect(report.breaks.map(chainBreak => chainBreak.type)).toEqual(['checkpoint_mismatch']);
+    });
+
+    it('should reject forged checkpoints and warn about ones from other keys', async () => {
+      const entries = buildChain(3);
+      const forged = { ...checkpointAt(entries[2]), sequence: 7 };
+      const otherKey = crypto.generateKeyPairSync('ed25519').privateKey;
+      const service = new AuditIntegrityService(fakePrisma(entries, [checkpointAt(entries[1], otherKey), forged]));
+
+      const report = await service.verifyChain('org-1', publicKey);
+
+      expect(report.breaks.map(chainBreak => chainBreak.type)).toEqual(['checkpoint_invalid']);
+      expect(report.warnings[0]).toContain(`was signed with key ${keyId(otherKey)}`);
+    });
+  });
+
+  describe('createCheckpoint', () => {
+    it('should sign the end of a clean chain', async () => {
+      const entries = buildChain(4);
+      const prisma = fakePrisma(entries);
+      const service = new AuditIntegrityService(prisma);
+
+      const report = await service.verifyChain('org-1', publicKey);
+      const checkpoint = await service.createCheckpoint(report, privateKey);
+
+      expect(checkpoint).toMatchObject({ chain: 'org-1', organizationId: 'org-1', sequence: 4, hash: entries[3].hash, keyId: keyId(publicKey) });
+
+      // The new checkpoint verifies
+      prisma.auditCheckpoint.findMany.mockResolvedValue([checkpoint]);
+      expect((await service.verifyChain('org-1', publicKey)).breaks).toEqual([]);
+    });
+
+    it('should not checkpoint a broken or unchanged chain, or without a key', async () => {
+      const entries = buildChain(4);
+      const service = new AuditIntegrityService(fakePrisma(entries, [checkpointAt(entries[3])]));
+      const report = await service.verifyChain('org-1', publicKey);
+
+      await expect(service.createCheckpoint(report, privateKey)).resolves.toBeNull();
+      await expect(service.createCheckpoint({ ...report, breaks: [{ type: 'entry_changed', sequence: 2, message: '' }] }, privateKey))
+        .rejects.toThrow('has breaks');
+      await expect(service.createCheckpoint(report, null)).rejects.toThrow('AUDIT_SIGNING_KEY must be set');
+    });
+  });
+});
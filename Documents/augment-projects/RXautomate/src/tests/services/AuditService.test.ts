@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import { Prisma } from '@prisma/client';
+import AuditService from '@/services/AuditService';
+import { prisma } from '../../lib/db/prisma';
+import { hashAuditEntry } from '../../lib/audit-chain';
+import { verifyEntries } from '@/services/AuditIntegrityService';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => {
+  const client: any = {
+    auditLog: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { prisma: client };
+}, { virtual: true });
+
+const mockPrisma = prisma as any;
+
+describe('AuditService', () => {
+  let written: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    written = [];
+
+    mockPrisma.user.findUnique.mockResolvedValue({ organizationId: 'org-1' });
+    mockPrisma.auditLog.findFirst.mockImplementation(({ where }: any) => {
+      const chain = written.filter(entry => entry.chain === where.chain);
+      return Promise.resolve(chain[chain.length - 1] || null);
+    });
+    mockPrisma.auditLog.create.mockImplementation(({ data }: any) => {
+      const entry = { id: `entry-${written.length + 1}`, ...data };
+      written.push(entry);
+      return Promise.resolve(entry);
+    });
+  });
+
+  describe('logAction', () => {
+    it('should chain entries in the user\'s organization', async () => {
+      const first = await AuditService.logPatientAction('PATIENT_MESSAGE_SENT', 'patient-1', 'user-1', { channel: 'SMS' });
+      const second = await AuditService.logNhsApiAction('GET_PATIENT', '9434765919', {}, 'user-1');
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({ where: { id: 'user-1' }, select: { organizationId: true } });
+      expect(first).toMatchObject({ chain: 'org-1', organizationId: 'org-1', sequence: 1, previousHash: null });
+      expect(second).toMatchObject({ chain: 'org-1', sequence: 2, previousHash: first.hash, nhsNumber: '******5919' });
+      expect(second.hash).toBe(hashAuditEntry(second));
+      expect(verifyEntries(written).breaks).toEqual([]);
+    });
+
+    it('should put entries without a user or organization in the platform chain', async () => {
+      const entry = await AuditService.logSystemEvent('SYSTEM_EVENT', { job: 'sync' });
+
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+      expect(entry).toMatchObject({ chain: 'platform', organizationId: null, sequence: 1 });
+    });
+
+    it('should use the organization it is given', async () => {
+      const entry = await AuditService.logAction({ action: 'SYSTEM_EVENT', category: 'SYSTEM', userId: 'user-1', organizationId: 'org-2' });
+
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+      expect(entry).toMatchObject({ chain: 'org-2', organizationId: 'org-2' });
+    });
+
+    it('should go again when another entry takes the same place in the chain', async () => {
+      const conflict = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.8.1' });
+      mockPrisma.auditLog.create.mockRejectedValueOnce(conflict);
+
+      const entry = await AuditService.logSystemEvent('SYSTEM_EVENT');
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(entry).toMatchObject({ chain: 'platform', sequence: 1 });
+    });
+
+    it('should not throw when the entry can\'t be written', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockPrisma.auditLog.create.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(AuditService.logSystemEvent('SYSTEM_EVENT')).resolves.toBeNull();
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+
+      consoleError.mockRestore();
+    });
+  });
+});
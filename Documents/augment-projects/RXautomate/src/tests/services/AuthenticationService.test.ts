@@ -0,0 +1,205 @@
+import bcrypt from 'bcrypt';
+import AuthenticationService, { MAX_FAILED_SIGN_INS, requestInfo } from '@/services/AuthenticationService';
+import AuditService from '@/services/AuditService';
+import MfaService from '@/services/MfaService';
+import { prisma } from '../../lib/db/prisma';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    session: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}), { virtual: true });
+
+jest.mock('bcrypt', () => ({
+  compare: jest.fn(async (password: string, hash: string) => hash === `hashed:${password}`),
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logAuthenticationAction: jest.fn(),
+}));
+
+jest.mock('@/services/MfaService', () => ({
+  __esModule: true,
+  default: { verify: jest.fn() },
+  isMfaRequired: (user: any) => user.role === 'ORG_ADMIN' || Boolean(user.organization?.mfaRequired),
+}));
+
+const mockPrisma = prisma as any;
+
+describe('AuthenticationService', () => {
+  const info = { ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0' };
+
+  const storedUser = (overrides: any = {}) => ({
+    id: 'user-1',
+    name: 'Priya Shah',
+    email: 'priya@example.com',
+    password: 'hashed:correct horse battery',
+    role: 'PHARMACY_STAFF',
+    isActive: true,
+    organizationId: 'org-1',
+    organization: { mfaRequired: false, mfaRequiredRoles: [] },
+    mfaEnabledAt: null,
+    failedSignIns: 0,
+    lockedUntil: null,
+    ...overrides,
+  });
+
+  const signIn = (credentials: any = {}) => AuthenticationService.authorize(
+    { email: 'Priya@Example.com', password: 'correct horse battery', ...credentials },
+    info
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser());
+    mockPrisma.session.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('should read the client address and browser from the request headers', () => {
+    expect(requestInfo({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Firefox' }))
+      .toEqual({ ipAddress: '203.0.113.7', userAgent: 'Firefox' });
+    expect(requestInfo(new Headers({ 'x-real-ip': '198.51.100.2' }))).toEqual({ ipAddress: '198.51.100.2', userAgent: undefined });
+  });
+
+  describe('authorize', () => {
+    it('should sign in with the right password and clear earlier failures', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ failedSignIns: 3 }));
+
+      const user = await signIn();
+
+      expect(user).toMatchObject({ id: 'user-1', mfaEnrollmentRequired: false, ...info });
+      expect(mockPrisma.user.findUnique.mock.calls[0][0].where).toEqual({ email: 'priya@example.com' });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { failedSignIns: 0, lockedUntil: null, lastLogin: expect.any(Date) },
+      });
+      expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith(
+        'SIGN_IN', 'user-1', { provider: 'credentials', mfa: null }, info.ipAddress, info.userAgent
+      );
+    });
+
+    it('should give the same answer for an unknown email as a wrong password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(signIn()).rejects.toThrow('InvalidCredentials');
+      expect(bcrypt.compare).toHaveBeenCalled();
+      expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith(
+        'SIGN_IN_FAILED', 'unknown', expect.objectContaining({ email: 'priya@example.com' }), info.ipAddress, info.userAgent
+      );
+    });
+
+    it('should count wrong passwords and lock the account at the limit', async () => {
+      await expect(signIn({ password: 'wrong' })).rejects.toThrow('InvalidCredentials');
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { failedSignIns: 1 } });
+
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ failedSignIns: MAX_FAILED_SIGN_INS - 1 }));
+      await expect(signIn({ password: 'wrong' })).rejects.toThrow('AccountLocked');
+
+      expect(mockPrisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: 'user-1' },
+        data: { failedSignIns: 0, lockedUntil: expect.any(Date) },
+      });
+      expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith(
+        'ACCOUNT_LOCKED', 'user-1', expect.objectContaining({ failedSignIns: MAX_FAILED_SIGN_INS }), info.ipAddress, info.userAgent
+      );
+    });
+
+    it('should refuse a locked account without checking the password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ lockedUntil: new Date(Date.now() + 60000) }));
+
+      await expect(signIn()).rejects.toThrow('AccountLocked');
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should ask for a code once the password is right, and count wrong codes', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ mfaEnabledAt: new Date() }));
+
+      await expect(signIn()).rejects.toThrow('MfaRequired');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+
+      (MfaService.verify as jest.Mock).mockResolvedValueOnce(null);
+      await expect(signIn({ code: '000000' })).rejects.toThrow('InvalidMfaCode');
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { failedSignIns: 1 } });
+
+      (MfaService.verify as jest.Mock).mockResolvedValueOnce('totp');
+      await expect(signIn({ code: '123456' })).resolves.toMatchObject({ id: 'user-1' });
+      expect(AuditService.logAuthenticationAction).toHaveBeenLastCalledWith(
+        'SIGN_IN', 'user-1', { provider: 'credentials', mfa: 'totp' }, info.ipAddress, info.userAgent
+      );
+    });
+
+    it('should flag users who have to set up MFA', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ role: 'ORG_ADMIN' }));
+
+      await expect(signIn()).resolves.toMatchObject({ mfaEnrollmentRequired: true });
+    });
+  });
+
+  describe('jwt', () => {
+    it('should record a session for each sign-in', async () => {
+      mockPrisma.session.create.mockResolvedValue({ id: 'session-1' });
+
+      const token = await AuthenticationService.jwt({ id: 'user-1' } as any, {
+        account: { provider: 'credentials' },
+        user: { id: 'user-1', mfaEnrollmentRequired: true, ...info },
+      });
+
+      expect(token).toMatchObject({ sessionId: 'session-1', mfaEnrollmentRequired: true });
+      expect(mockPrisma.session.create.mock.calls[0][0].data).toMatchObject({
+        userId: 'user-1',
+        provider: 'credentials',
+        ipAddress: info.ipAddress,
+        userAgent: info.userAgent,
+        expires: expect.any(Date),
+      });
+    });
+
+    it('should sign out a session that has been revoked', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue(null);
+
+      await expect(AuthenticationService.jwt({ id: 'user-1', sessionId: 'session-1' } as any, {}))
+        .rejects.toThrow('signed out');
+    });
+
+    it('should note activity now and then, and clear the enrolment flag once enrolled', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({
+        id: 'session-1',
+        userId: 'user-1',
+        expires: new Date(Date.now() + 60000),
+        lastActiveAt: new Date(Date.now() - 10 * 60 * 1000),
+      });
+      mockPrisma.user.findUnique.mockResolvedValue({ mfaEnabledAt: new Date() });
+
+      const token = await AuthenticationService.jwt(
+        { id: 'user-1', sessionId: 'session-1', mfaEnrollmentRequired: true } as any,
+        { trigger: 'update', session: { mfaEnrolled: true } }
+      );
+
+      expect(token.mfaEnrollmentRequired).toBe(false);
+      expect(mockPrisma.session.update).toHaveBeenCalledWith({ where: { id: 'session-1' }, data: { lastActiveAt: expect.any(Date) } });
+    });
+  });
+
+  it('should only revoke the user\'s own sessions', async () => {
+    mockPrisma.session.deleteMany.mockResolvedValue({ count: 0 });
+
+    await expect(AuthenticationService.revokeSession('user-1', 'someone-elses')).rejects.toThrow('Session not found');
+    expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { id: 'someone-elses', userId: 'user-1' } });
+
+    mockPrisma.session.deleteMany.mockResolvedValue({ count: 2 });
+    await expect(AuthenticationService.revokeOtherSessions('user-1', 'session-1')).resolves.toBe(2);
+    expect(mockPrisma.session.deleteMany).toHaveBeenLastCalledWith({ where: { userId: 'user-1', id: { not: 'session-1' } } });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { Issuer, generators } from 'openid-client';
+import { Cis2Provider, cis2Roles } from '../../lib/cis2';
+import { pickRole } from '../../services/Cis2Service';
+import { MockCis2Server } from '../../mocks/cis2/MockCis2Server';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => ({ prisma: {} }), { virtual: true });
+
+describe('CIS2 sign-in against the mock CIS2 server', () => {
+  const server = new MockCis2Server();
+  const redirectUri = 'http://localhost:3000/api/auth/callback/cis2';
+  let provider: ReturnType<typeof Cis2Provider>;
+
+  beforeAll(async () => {
+    const issuer = await server.start();
+    provider = Cis2Provider({ issuer, clientId: 'rxautomate', clientSecret: 'rxautomate-secret' });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  // Follow the authorization step the way the browser would, returning where CIS2 redirects to
+  const authorize = (url: string) => new Promise<string>((resolve, reject) => {
+    http.get(url, res => {
+      res.resume();
+      res.headers.location ? resolve(res.headers.location) : reject(new Error(`No redirect (${res.statusCode})`));
+    }).on('error', reject);
+  });
+
+  // Run the authorization code flow with the provider's settings, as NextAuth does
+  const signIn = async (extra: Record<string, string>, codeVerifier?: string) => {
+    const issuer = await Issuer.discover(provider.wellKnown!);
+    const client = new issuer.Client({
+      client_id: provider.clientId!,
+      client_secret: provider.clientSecret,
+      redirect_uris: [redirectUri],
+      ...provider.client,
+    });
+
+    const verifier = generators.codeVerifier();
+    const checks = { code_verifier: codeVerifier || verifier, state: generators.state(), nonce: generators.nonce() };
+
+    const location = await authorize(client.authorizationUrl({
+      ...(provider.authorization as any).params,
+      redirect_uri: redirectUri,
+      code_challenge: generators.codeChallenge(verifier),
+      code_challenge_method: 'S256',
+      state: checks.state,
+      nonce: checks.nonce,
+      ...extra,
+    }));
+
+    const tokens = await client.callback(redirectUri, client.callbackParams(location), checks);
+    return (provider.userinfo as any).request({ client, tokens, provider });
+  };
+
+  it('should sign in with a validated ID token and return the RBAC roles', async () => {
+    const profile = await signIn({ login_hint: '555000000001' });
+
+    expect(profile).toMatchObject({ sub: '555000000001', name: 'Sam Patel', acr: 'AAL3_ANY' });
+    expect(cis2Roles(profile)).toEqual([
+      expect.objectContaining({ roleId: '555000000101', odsCode: 'FA565', pharmacyRole: 'PHARMACIST' }),
+    ]);
+  });
+
+  it('should pass on a role picked at CIS2', async () => {
+    const profile = await signIn({ identity: '555000000002', role: '555000000202' });
+
+    expect(profile.selected_roleid).toBe('555000000202');
+    expect(pickRole(profile, cis2Roles(profile))).toMatchObject({ roleId: '555000000202', pharmacyRole: 'STAFF' });
+  });
+
+  it('should leave the choice to the app when no role was picked', async () => {
+    const profile = await signIn({ login_hint: '555000000002' });
+
+    expect(profile.selected_roleid).toBeUndefined();
+    expect(pickRole(profile, cis2Roles(profile))).toBeNull();
+  });
+
+  it('should reject a code exchanged without the right PKCE verifier', async () => {
+    await expect(signIn({ login_hint: '555000000001' }, generators.codeVerifier())).rejects.toThrow('invalid_grant');
+  });
+});
@@ -0,0 +1,189 @@
+import Cis2Service, { CIS2_ASSIGNER, pickRole } from '@/services/Cis2Service';
+import AuditService from '@/services/AuditService';
+import { defaultIdentities, userinfoClaims } from '../../mocks/cis2/identities';
+import { prisma } from '../../lib/db/prisma';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => {
+  const client: any = {
+    account: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    pharmacy: {
+      findMany: jest.fn(),
+    },
+    userPharmacy: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((operations: any[]) => Promise.all(operations));
+  return { prisma: client };
+}, { virtual: true });
+
+jest.mock('@/services/AuditService', () => ({
+  logAuthenticationAction: jest.fn(),
+}));
+
+const mockPrisma = prisma as any;
+
+describe('Cis2Service', () => {
+  const [sam, alex, , chris] = defaultIdentities();
+
+  const mainPharmacy = { id: 'pharmacy-1', name: 'Main Pharmacy', odsCode: 'FA565', organizationId: 'org-1' };
+
+  const storedUser = (overrides: any = {}) => ({
+    id: 'user-1',
+    email: 'sam.patel@nhs.net',
+    role: 'PHARMACY_STAFF',
+    isActive: true,
+    organizationId: 'org-1',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.pharmacy.findMany.mockImplementation(async ({ where }: any) =>
+      where.odsCode.in.includes('FA565') ? [mainPharmacy] : []
+    );
+    mockPrisma.account.findUnique.mockResolvedValue(null);
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.user.create.mockImplementation(async ({ data }: any) => storedUser({ ...data, id: 'user-new' }));
+    mockPrisma.userPharmacy.findMany.mockResolvedValue([]);
+  });
+
+  it('should pick the role chosen at CIS2, or the only role', () => {
+    const roles = [{ roleId: 'a' }, { roleId: 'b' }] as any[];
+
+    expect(pickRole({ sub: '1', selected_roleid: 'b' }, roles)).toBe(roles[1]);
+    expect(pickRole({ sub: '1' }, roles)).toBeNull();
+    expect(pickRole({ sub: '1' }, [roles[0]])).toBe(roles[0]);
+  });
+
+  describe('signIn', () => {
+    it('should create a user for a new smartcard holder and give them their pharmacy role', async () => {
+      await expect(Cis2Service.signIn(userinfoClaims(sam))).resolves.toBe(true);
+
+      expect(mockPrisma.user.create.mock.calls[0][0].data).toMatchObject({
+        email: 'sam.patel@nhs.net',
+        name: 'Sam Patel',
+        role: 'PHARMACY_STAFF',
+        organizationId: 'org-1',
+      });
+      expect(mockPrisma.account.create).toHaveBeenCalledWith({
+        data: { userId: 'user-new', type: 'oauth', provider: 'cis2', providerAccountId: '555000000001' },
+      });
+      expect(mockPrisma.userPharmacy.create).toHaveBeenCalledWith({
+        data: { userId: 'user-new', pharmacyId: 'pharmacy-1', role: 'PHARMACIST', assignedBy: CIS2_ASSIGNER },
+      });
+      expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith('CIS2_SIGN_IN', 'user-new', expect.objectContaining({
+        selectedRoleId: '555000000101',
+      }));
+    });
+
+    it('should link an existing user in the same organization by email', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser());
+
+      await Cis2Service.signIn(userinfoClaims(sam));
+
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+      expect(mockPrisma.account.create.mock.calls[0][0].data.userId).toBe('user-1');
+    });
+
+    it('should turn away users with no role at one of our pharmacies', async () => {
+      await expect(Cis2Service.signIn(userinfoClaims(chris))).resolves.toBe('/auth/login?error=Cis2NoPharmacy');
+
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+      expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith('CIS2_SIGN_IN_DENIED', 'unknown', expect.anything());
+    });
+
+    it('should turn away deactivated users and users from another organization', async () => {
+      mockPrisma.account.findUnique.mockResolvedValueOnce({ user: storedUser({ isActive: false }) });
+      await expect(Cis2Service.signIn(userinfoClaims(sam))).resolves.toBe('/auth/login?error=Cis2Deactivated');
+
+      mockPrisma.user.findUnique.mockResolvedValueOnce(storedUser({ organizationId: 'org-2' }));
+      await expect(Cis2Service.signIn(userinfoClaims(sam))).resolves.toBe('/auth/login?error=Cis2OtherOrganization');
+
+      expect(mockPrisma.account.create).not.toHaveBeenCalled();
+    });
+
+    it('should remove CIS2 pharmacy roles the user no longer holds but keep ones an admin assigned', async () => {
+      mockPrisma.account.findUnique.mockResolvedValue({ user: storedUser() });
+      mockPrisma.userPharmacy.findMany.mockResolvedValue([
+        { pharmacyId: 'pharmacy-1', assignedBy: CIS2_ASSIGNER },
+        { pharmacyId: 'pharmacy-2', assignedBy: CIS2_ASSIGNER },
+        { pharmacyId: 'pharmacy-3', assignedBy: 'admin-1' },
+      ]);
+
+      await Cis2Service.signIn(userinfoClaims(sam));
+
+      expect(mockPrisma.userPharmacy.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', pharmacyId: { in: ['pharmacy-2'] } },
+      });
+      expect(mockPrisma.userPharmacy.create).not.toHaveBeenCalled();
+      expect(mockPrisma.userPharmacy.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', pharmacyId: 'pharmacy-1', assignedBy: CIS2_ASSIGNER },
+        data: { role: 'PHARMACIST' },
+      });
+    });
+  });
+
+  describe('jwt', () => {
+    const account = { provider: 'cis2' };
+
+    beforeEach(() => {
+      mockPrisma.account.findUnique.mockResolvedValue({ user: { id: 'user-1', role: 'PHARMACY_STAFF', organizationId: 'org-1', organization: { name: 'Test Org' } } });
+      mockPrisma.userPharmacy.findMany.mockResolvedValue([
+        { pharmacyId: 'pharmacy-1', role: 'PHARMACIST', pharmacy: { name: 'Main Pharmacy' } },
+      ]);
+    });
+
+    it('should make users with several roles choose one', async () => {
+      const token = await Cis2Service.jwt({} as any, { account, profile: userinfoClaims(alex) });
+
+      expect(token).toMatchObject({ id: 'user-1', isCis2User: true, cis2RoleId: null, selectedPharmacyId: null });
+      expect(token.cis2Roles!.map(role => [role.roleId, role.pharmacyRole])).toEqual([
+        ['555000000201', 'PHARMACIST'],
+        ['555000000202', 'STAFF'],
+      ]);
+      expect(token.pharmacies).toEqual([{ id: 'pharmacy-1', name: 'Main Pharmacy', role: 'PHARMACIST' }]);
+    });
+
+    it('should act in the role chosen at CIS2', async () => {
+      const token = await Cis2Service.jwt({} as any, { account, profile: userinfoClaims(alex, '555000000202') });
+
+      expect(token).toMatchObject({ cis2RoleId: '555000000202', selectedPharmacyId: 'pharmacy-1', selectedPharmacyName: 'Main Pharmacy' });
+    });
+
+    it('should switch role on a session update, but only to one the user holds', async () => {
+      const token = await Cis2Service.jwt({} as any, { account, profile: userinfoClaims(alex) });
+
+      await Cis2Service.jwt(token, { trigger: 'update', session: { cis2RoleId: 'someone-elses-role' } });
+      expect(token.cis2RoleId).toBeNull();
+      expect(mockPrisma.userPharmacy.updateMany).not.toHaveBeenCalled();
+
+      await Cis2Service.jwt(token, { trigger: 'update', session: { cis2RoleId: '555000000202' } });
+      expect(token).toMatchObject({ cis2RoleId: '555000000202', selectedPharmacyId: 'pharmacy-1' });
+      expect(mockPrisma.userPharmacy.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', pharmacyId: 'pharmacy-1', assignedBy: CIS2_ASSIGNER },
+        data: { role: 'STAFF' },
+      });
+      expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith('CIS2_ROLE_SELECTED', 'user-1', expect.anything());
+    });
+
+    it('should leave other sign-ins alone', async () => {
+      const token = { id: 'user-2' } as any;
+
+      await expect(Cis2Service.jwt(token, { account: { provider: 'credentials' }, profile: {} })).resolves.toBe(token);
+      expect(mockPrisma.account.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import ClaimService, {
+  DISPENSING_FEE,
+  PRESCRIPTION_CHARGE,
+  canTransition,
+  summariseReconciliation,
+  validateClaimInput,
+} from '@/services/ClaimService';
+import BSAService from '@/services/BSAService';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { defaultMedicationRequests } from '../../mocks/eps/fixtures';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    prescriptionClaim: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    prescriptionClaimItem: {
+      deleteMany: jest.fn(),
+    },
+    claimBatch: {
+      create: jest.fn(),
+    },
+    pharmacy: {
+      findUnique: jest.fn(),
+    },
+    inventoryItem: {
+      findFirst: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logPrescriptionAction: jest.fn(),
+}));
+
+jest.mock('@/services/BSAService', () => ({
+  submitClaimBatch: jest.fn(),
+  getClaimBatchStatus: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('ClaimService', () => {
+  const [amoxicillin] = defaultMedicationRequests();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.prescriptionClaim.findUnique.mockResolvedValue(null);
+    mockPrisma.prescriptionClaim.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: 'claim-1', ...data, items: data.items.create }));
+    mockPrisma.inventoryItem.findFirst.mockResolvedValue({ unitPrice: 0.1 });
+  });
+
+  describe('validateClaimInput', () => {
+    it('should reject unknown exemption categories and endorsements', () => {
+      expect(validateClaimInput({ exemptionCategory: 'Z', endorsements: ['BB', 'XX'] })).toEqual([
+        'Unknown exemption category "Z"',
+        'Unknown endorsement "XX"',
+      ]);
+    });
+
+    it('should not allow a charge on an exempt prescription', () => {
+      expect(validateClaimInput({ exemptionCategory: 'A', chargesCollected: 9.9 }))
+        .toEqual(['No charge can be collected on an exempt prescription']);
+    });
+  });
+
+  describe('canTransition', () => {
+    it('should follow the claim lifecycle', () => {
+      expect(canTransition('PENDING', 'SUBMITTED')).toBe(true);
+      expect(canTransition('SUBMITTED', 'PAID')).toBe(true);
+      expect(canTransition('REJECTED', 'PENDING')).toBe(true);
+      expect(canTransition('PAID', 'REJECTED')).toBe(false);
+      expect(canTransition('PENDING', 'PAID')).toBe(false);
+    });
+  });
+
+  describe('createClaim', () => {
+    it('should price the item and deduct the charge collected', async () => {
+      const claim = await ClaimService.createClaim('pharmacy-1', amoxicillin, {
+        endorsements: ['BB'],
+        dispensedAt: new Date('2026-09-10T10:00:00Z'),
+      });
+
+      // 21 capsules at 0.10 plus the dispensing fee, less one item charge
+      expect(claim.expectedAmount).toBeCloseTo(2.1 + DISPENSING_FEE - PRESCRIPTION_CHARGE, 2);
+      expect(claim).toMatchObject({
+        prescriptionId: amoxicillin.id,
+        claimPeriod: '2026-09',
+        nhsNumber: '9449304130',
+        exemptionCategory: null,
+        chargesCollected: PRESCRIPTION_CHARGE,
+        status: 'PENDING',
+      });
+      expect(claim.items[0]).toMatchObject({ medicationCode: '39732311000001104', quantity: 21, endorsements: ['BB'] });
+    });
+
+    it('should not collect a charge for an exempt patient', async () => {
+      const claim = await ClaimService.createClaim('pharmacy-1', amoxicillin, { exemptionCategory: 'A' });
+
+      expect(claim.chargesCollected).toBe(0);
+    });
+
+    it('should replace a rejected claim and refuse to replace a submitted one', async () => {
+      mockPrisma.prescriptionClaim.findUnique.mockResolvedValueOnce({ id: 'claim-1', status: 'REJECTED' });
+      mockPrisma.prescriptionClaim.update.mockImplementation(({ data }: any) => Promise.resolve({ id: 'claim-1', ...data }));
+
+      const claim = await ClaimService.createClaim('pharmacy-1', amoxicillin, { exemptionCategory: 'F' });
+
+      expect(mockPrisma.prescriptionClaimItem.deleteMany).toHaveBeenCalledWith({ where: { claimId: 'claim-1' } });
+      expect(claim).toMatchObject({ status: 'PENDING', rejectionReason: null, exemptionCategory: 'F' });
+
+      mockPrisma.prescriptionClaim.findUnique.mockResolvedValueOnce({ id: 'claim-1', status: 'SUBMITTED' });
+      await expect(ClaimService.createClaim('pharmacy-1', amoxicillin)).rejects.toThrow('already been claimed');
+    });
+  });
+
+  describe('submitPendingClaims', () => {
+    const pendingClaim = (id: string, claimPeriod: string) => ({
+      id,
+      prescriptionId: `prescription-${id}`,
+      nhsNumber: '9449304130',
+      claimPeriod,
+      dispensedAt: new Date(`${claimPeriod}-10T10:00:00Z`),
+      exemptionCategory: null,
+      chargesCollected: PRESCRIPTION_CHARGE,
+      items: [{ medicationCode: '1', medicationName: 'Drug', quantity: 28, unit: 'tablet', endorsements: [] }],
+    });
+
+    it('should submit one batch per claim period and apply rejections made at submission', async () => {
+      mockPrisma.pharmacy.findUnique.mockResolvedValue({ id: 'pharmacy-1', nhsContractNumber: 'FA565' });
+      mockPrisma.prescriptionClaim.findMany.mockResolvedValue([
+        pendingClaim('a', '2026-08'),
+        pendingClaim('b', '2026-09'),
+        pendingClaim('c', '2026-09'),
+      ]);
+      mockPrisma.claimBatch.create.mockImplementation(({ data }: any) => Promise.resolve({ id: `batch-${data.claimCount}`, ...data }));
+      (BSAService.submitClaimBatch as jest.Mock)
+        .mockResolvedValueOnce({ submissionReference: 'BSA-1', claims: [] })
+        .mockResolvedValueOnce({
+          submissionReference: 'BSA-2',
+          claims: [{ claimReference: 'c', status: 'REJECTED', rejectionCode: 'R12', rejectionReason: 'Exemption not declared' }],
+        });
+      mockPrisma.prescriptionClaim.findUnique.mockResolvedValue({ id: 'c', prescriptionId: 'prescription-c', status: 'SUBMITTED' });
+
+      const result = await ClaimService.submitPendingClaims('pharmacy-1', 'user-1');
+
+      expect(result.errors).toEqual([]);
+      expect(result.batches.map(batch => batch.submissionReference)).toEqual(['BSA-1', 'BSA-2']);
+      expect((BSAService.submitClaimBatch as jest.Mock).mock.calls[1][0]).toMatchObject({
+        nhsContractNumber: 'FA565',
+        claimPeriod: '2026-09',
+        claims: [{ claimReference: 'b' }, { claimReference: 'c' }],
+      });
+      expect(mockPrisma.prescriptionClaim.update).toHaveBeenCalledWith({
+        where: { id: 'c' },
+        data: expect.objectContaining({ status: 'REJECTED', rejectionReason: 'Exemption not declared' }),
+      });
+    });
+
+    it('should leave claims pending when a submission fails', async () => {
+      mockPrisma.pharmacy.findUnique.mockResolvedValue({ id: 'pharmacy-1', nhsContractNumber: null });
+      mockPrisma.prescriptionClaim.findMany.mockResolvedValue([pendingClaim('a', '2026-09')]);
+      (BSAService.submitClaimBatch as jest.Mock).mockRejectedValue(new Error('Service unavailable'));
+
+      const result = await ClaimService.submitPendingClaims('pharmacy-1');
+
+      expect(result.errors).toEqual([{ claimPeriod: '2026-09', claimCount: 1, error: 'Service unavailable' }]);
+      expect(mockPrisma.prescriptionClaim.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('summariseReconciliation', () => {
+    it('should compare expected against paid amounts', () => {
+      const summary = summariseReconciliation('2026-09', [
+        { id: '1', prescriptionId: 'p1', status: 'PAID', expectedAmount: 10, paidAmount: 10 },
+        { id: '2', prescriptionId: 'p2', status: 'PAID', expectedAmount: 8, paidAmount: 6.5 },
+        { id: '3', prescriptionId: 'p3', status: 'SUBMITTED', expectedAmount: 5, paidAmount: null },
+        { id: '4', prescriptionId: 'p4', status: 'PENDING', expectedAmount: 4, paidAmount: null },
+        { id: '5', prescriptionId: 'p5', status: 'REJECTED', expectedAmount: 3, paidAmount: null, rejectionReason: 'Duplicate' },
+      ]);
+
+      expect(summary).toMatchObject({
+        expectedTotal: 30,
+        paidTotal: 16.5,
+        variance: -1.5,
+        outstandingTotal: 9,
+        unclaimedCount: 1,
+      });
+      expect(summary.byStatus.PAID).toEqual({ count: 2, expected: 18, paid: 16.5 });
+      expect(summary.underpaid.map(claim => claim.id)).toEqual(['2']);
+      expect(summary.rejected.map(claim => claim.id)).toEqual(['5']);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import ClinicalCheckService, { validateDecisions } from '@/services/ClinicalCheckService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    clinicalCheck: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    clinicalCheckDecision: {
+      createMany: jest.fn(),
+    },
+    userPharmacy: {
+      findUnique: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logPrescriptionAction: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('ClinicalCheckService', () => {
+  const issues = [
+    { type: 'DRUG_INTERACTION', severity: 'HIGH', description: 'Bleeding risk', medications: ['Warfarin', 'Aspirin'] },
+    { type: 'INAPPROPRIATE_DOSAGE', severity: 'LOW', description: 'Dose could not be calculated', medications: ['Warfarin'] },
+  ];
+
+  const pendingCheck = {
+    id: 'check-1',
+    prescriptionId: 'prescription-1',
+    pharmacyId: 'pharmacy-1',
+    status: 'PENDING',
+    issues,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.clinicalCheck.findUnique.mockResolvedValue(pendingCheck);
+    mockPrisma.clinicalCheck.update.mockImplementation(({ data }: any) => Promise.resolve({ ...pendingCheck, ...data }));
+    mockPrisma.userPharmacy.findUnique.mockResolvedValue({ role: 'PHARMACIST' });
+  });
+
+  describe('validateDecisions', () => {
+    it('should require a decision for every issue', () => {
+      const problems = validateDecisions(issues as any, [{ issueIndex: 0, decision: 'ACKNOWLEDGED' }]);
+
+      expect(problems).toEqual(['Issue 2 (INAPPROPRIATE_DOSAGE) has no decision']);
+    });
+
+    it('should require a reason code for an override and notes for OTHER', () => {
+      expect(validateDecisions(issues as any, [
+        { issueIndex: 0, decision: 'OVERRIDDEN' },
+        { issueIndex: 1, decision: 'OVERRIDDEN', overrideReason: 'OTHER' },
+      ])).toEqual([
+        'Issue 1: an override needs a reason code',
+        'Issue 2: notes are required when the override reason is OTHER',
+      ]);
+    });
+  });
+
+  describe('signOff', () => {
+    it('should record the decisions and sign the check off', async () => {
+      const result = await ClinicalCheckService.signOff('check-1', 'pharmacist-1', [
+        { issueIndex: 0, decision: 'OVERRIDDEN', overrideReason: 'PATIENT_STABILISED', notes: 'On this combination for 2 years' },
+        { issueIndex: 1, decision: 'ACKNOWLEDGED' },
+      ]);
+
+      expect(result.status).toBe('SIGNED_OFF');
+      expect(mockPrisma.clinicalCheckDecision.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ issueIndex: 0, issueType: 'DRUG_INTERACTION', overrideReason: 'PATIENT_STABILISED' }),
+          expect.objectContaining({ issueIndex: 1, decision: 'ACKNOWLEDGED', overrideReason: null }),
+        ],
+      });
+    });
+
+    it('should mark the check rejected when any issue is rejected', async () => {
+      const result = await ClinicalCheckService.signOff('check-1', 'pharmacist-1', [
+        { issueIndex: 0, decision: 'REJECTED', notes: 'Prescriber to review' },
+        { issueIndex: 1, decision: 'ACKNOWLEDGED' },
+      ]);
+
+      expect(result.status).toBe('REJECTED');
+    });
+
+    it('should only allow pharmacists to sign off', async () => {
+      mockPrisma.userPharmacy.findUnique.mockResolvedValue({ role: 'TECHNICIAN' });
+
+      await expect(ClinicalCheckService.signOff('check-1', 'technician-1', [
+        { issueIndex: 0, decision: 'ACKNOWLEDGED' },
+        { issueIndex: 1, decision: 'ACKNOWLEDGED' },
+      ])).rejects.toThrow('Only a pharmacist');
+
+      expect(mockPrisma.clinicalCheckDecision.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkReadyToDispense', () => {
+    it('should block dispensing while a HIGH issue is awaiting sign-off', async () => {
+      mockPrisma.clinicalCheck.findFirst.mockResolvedValue(pendingCheck);
+
+      const result = await ClinicalCheckService.checkReadyToDispense('prescription-1');
+
+      expect(result.allowed).toBe(false);
+      expect(result.clinicalCheckId).toBe('check-1');
+    });
+
+    it('should allow dispensing when only LOW issues are pending', async () => {
+      mockPrisma.clinicalCheck.findFirst.mockResolvedValue({ ...pendingCheck, issues: [issues[1]] });
+
+      const result = await ClinicalCheckService.checkReadyToDispense('prescription-1');
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should block dispensing a prescription that was never validated', async () => {
+      mockPrisma.clinicalCheck.findFirst.mockResolvedValue(null);
+
+      const result = await ClinicalCheckService.checkReadyToDispense('prescription-1');
+
+      expect(result).toEqual({
+        allowed: false,
+        reason: 'The prescription has not been validated and clinically checked',
+      });
+    });
+
+    it('should block dispensing after a rejection', async () => {
+      mockPrisma.clinicalCheck.findFirst.mockResolvedValue({ ...pendingCheck, status: 'REJECTED' });
+
+      const result = await ClinicalCheckService.checkReadyToDispense('prescription-1');
+
+      expect(result.allowed).toBe(false);
+    });
+  });
+});
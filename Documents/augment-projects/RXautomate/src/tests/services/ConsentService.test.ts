@@ -0,0 +1,270 @@
+import ConsentService, {
+  captureMethodFor,
+  consentStatus,
+  DEFAULT_CONSENT_NOTICES,
+} from '@/services/ConsentService';
+import MessagingService from '@/services/MessagingService';
+import AuditService from '@/services/AuditService';
+import { createConsentLinkToken } from '../../lib/consent-link';
+import { runWithTenant, tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    consentNotice: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      create: jest.fn(),
+    },
+    consent: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    consentLink: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    patient: { findUnique: jest.fn() },
+    pharmacy: { findUnique: jest.fn() },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return {
+    tenantPrisma: client,
+    runAsSystem: (fn: any) => fn(),
+    runWithTenant: jest.fn((_context: any, fn: any) => fn()),
+  };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logPatientAction: jest.fn(),
+  logAction: jest.fn(),
+}));
+
+jest.mock('@/services/MessagingService', () => ({
+  ...jest.requireActual('@/services/MessagingService'),
+  __esModule: true,
+  default: {
+    sendConsentRequest: jest.fn(),
+  },
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('ConsentService', () => {
+  const notices = (['MARKETING', 'REMINDER', 'DATA_SHARING', 'VACCINATION'] as const).map(consentType => ({
+    id: `notice-${consentType}-1`,
+    organizationId: 'org-1',
+    consentType,
+    version: 1,
+    publishedAt: new Date('2026-01-01T00:00:00Z'),
+    ...DEFAULT_CONSENT_NOTICES[consentType],
+  }));
+  const reminderV2 = {
+    ...notices[1],
+    id: 'notice-REMINDER-2',
+    version: 2,
+    text: 'I consent to receive reminders about my prescriptions, appointments and services.',
+    publishedAt: new Date('2026-10-01T00:00:00Z'),
+  };
+  const patient = {
+    id: 'patient-1',
+    pharmacyId: 'pharmacy-1',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    erasedAt: null,
+    pharmacy: { id: 'pharmacy-1', name: 'High Street Pharmacy', phoneNumber: '0113 000 0000', organizationId: 'org-1' },
+  };
+  const link = {
+    id: 'link-1',
+    patientId: 'patient-1',
+    pharmacyId: 'pharmacy-1',
+    consentTypes: ['REMINDER'],
+    channel: 'SMS',
+    usedAt: null,
+    expiresAt: new Date('2099-01-01T00:00:00Z'),
+    patient: { firstName: 'Jane', erasedAt: null },
+    pharmacy: { name: 'High Street Pharmacy', organizationId: 'org-1' },
+  };
+
+  beforeAll(() => {
+    process.env.CONSENT_LINK_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.consentNotice.findMany.mockResolvedValue(notices);
+    mockPrisma.consentNotice.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'notice-new', ...data }));
+    mockPrisma.consent.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'consent-1', ...data }));
+    mockPrisma.consentLink.create.mockImplementation(({ data }: any) => Promise.resolve({ channel: null, ...data }));
+    mockPrisma.consentLink.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+    mockPrisma.consentLink.findUnique.mockResolvedValue(link);
+    mockPrisma.consentLink.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.patient.findUnique.mockResolvedValue(patient);
+    mockPrisma.pharmacy.findUnique.mockResolvedValue({ organizationId: 'org-1' });
+  });
+
+  describe('helpers', () => {
+    it('should ask again when consent was given to earlier wording', () => {
+      const now = new Date('2026-10-14T09:00:00Z');
+      const notice = { id: 'notice-2' };
+
+      expect(consentStatus(null, notice, now)).toBe('NONE');
+      expect(consentStatus({ consentGiven: false, noticeId: 'notice-2' }, notice, now)).toBe('WITHDRAWN');
+      expect(consentStatus({ consentGiven: true, noticeId: 'notice-2', expiryDate: new Date('2026-10-01') }, notice, now)).toBe('EXPIRED');
+      expect(consentStatus({ consentGiven: true, noticeId: 'notice-1', expiryDate: null }, notice, now)).toBe('RECONSENT_NEEDED');
+      expect(consentStatus({ consentGiven: true, noticeId: null, expiryDate: null }, notice, now)).toBe('RECONSENT_NEEDED');
+      expect(consentStatus({ consentGiven: true, noticeId: 'notice-2', expiryDate: null }, notice, now)).toBe('GIVEN');
+    });
+
+    it('should record SMS links as SMS_LINK and other links as WEB', () => {
+      expect(captureMethodFor('SMS')).toBe('SMS_LINK');
+      expect(captureMethodFor('EMAIL')).toBe('WEB');
+      expect(captureMethodFor(null)).toBe('WEB');
+    });
+  });
+
+  describe('notices', () => {
+    it('should publish the default wording as version 1 the first time', async () => {
+      mockPrisma.consentNotice.findMany.mockResolvedValueOnce([]);
+
+      const current = await ConsentService.getCurrentNotices('org-1');
+
+      expect(mockPrisma.consentNotice.createMany).toHaveBeenCalledWith({
+        data: notices.map(({ consentType, title, text }) => ({ organizationId: 'org-1', consentType, version: 1, title, text })),
+        skipDuplicates: true,
+      });
+      expect(current.map((notice: any) => notice.consentType)).toEqual(['MARKETING', 'REMINDER', 'DATA_SHARING', 'VACCINATION']);
+    });
+
+    it('should publish changed wording as the next version', async () => {
+      const notice = await ConsentService.publishNotice('org-1', 'REMINDER', { title: reminderV2.title, text: ` ${reminderV2.text} ` }, 'user-1');
+
+      expect(notice).toEqual(expect.objectContaining({ consentType: 'REMINDER', version: 2, text: reminderV2.text, publishedById: 'user-1' }));
+      expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'CONSENT_NOTICE_PUBLISHED',
+        details: { organizationId: 'org-1', consentType: 'REMINDER', version: 2 },
+      }));
+    });
+
+    it('should reject unchanged or empty wording', async () => {
+      await expect(ConsentService.publishNotice('org-1', 'REMINDER', DEFAULT_CONSENT_NOTICES.REMINDER, 'user-1'))
+        .rejects.toThrow('The wording hasn\'t changed');
+      await expect(ConsentService.publishNotice('org-1', 'REMINDER', { title: 'Reminders', text: ' ' }, 'user-1'))
+        .rejects.toThrow('A notice needs a title and text');
+      expect(mockPrisma.consentNotice.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordInPerson', () => {
+    it('should record answers against the notice shown, expiring in two years by default', async () => {
+      await ConsentService.recordInPerson('patient-1', 'pharmacy-1', [
+        { consentType: 'REMINDER', given: true, noticeId: 'notice-REMINDER-1' },
+        { consentType: 'MARKETING', given: false, noticeId: 'notice-MARKETING-1' },
+      ], 'user-1');
+
+      const [given, declined] = mockPrisma.consent.create.mock.calls.map(([args]: any) => args.data);
+      expect(given).toEqual(expect.objectContaining({
+        consentType: 'REMINDER',
+        consentGiven: true,
+        noticeId: 'notice-REMINDER-1',
+        captureMethod: 'IN_PERSON',
+        recordedById: 'user-1',
+      }));
+      expect(given.expiryDate.getFullYear()).toBe(given.consentDate.getFullYear() + 2);
+      expect(declined).toEqual(expect.objectContaining({ consentGiven: false, expiryDate: null }));
+    });
+
+    it('should reject answers to wording that has since changed', async () => {
+      mockPrisma.consentNotice.findMany.mockResolvedValue([notices[0], reminderV2, notices[2], notices[3]]);
+
+      await expect(ConsentService.recordInPerson('patient-1', 'pharmacy-1', [
+        { consentType: 'REMINDER', given: true, noticeId: 'notice-REMINDER-1' },
+      ], 'user-1')).rejects.toThrow('has changed');
+      expect(mockPrisma.consent.create).not.toHaveBeenCalled();
+    });
+
+    it('should not record for another pharmacy\'s patient', async () => {
+      await expect(ConsentService.recordInPerson('patient-1', 'pharmacy-2', [
+        { consentType: 'REMINDER', given: true, noticeId: 'notice-REMINDER-1' },
+      ], 'user-1')).rejects.toThrow('Patient not found');
+    });
+  });
+
+  describe('submitLink', () => {
+    const token = () => createConsentLinkToken({ linkId: 'link-1', expiresAt: link.expiresAt });
+
+    it('should record the answers as given by SMS link and use the link up', async () => {
+      const result = await ConsentService.submitLink(token(), [
+        { consentType: 'REMINDER', given: true, noticeId: 'notice-REMINDER-1' },
+      ]);
+
+      expect(result).toEqual({ recorded: 1 });
+      // The patient has no session, so it's recorded in the tenant of the pharmacy that sent the link
+      expect(runWithTenant).toHaveBeenCalledWith({ pharmacyId: 'pharmacy-1', organizationId: 'org-1' }, expect.any(Function));
+      expect(mockPrisma.consentLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.consent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ consentType: 'REMINDER', captureMethod: 'SMS_LINK', consentLinkId: 'link-1' }),
+      });
+      expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'CONSENT_RECORDED',
+        organizationId: 'org-1',
+      }));
+    });
+
+    it('should only work once', async () => {
+      mockPrisma.consentLink.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(ConsentService.submitLink(token(), [
+        { consentType: 'REMINDER', given: true, noticeId: 'notice-REMINDER-1' },
+      ])).rejects.toThrow('already been used');
+      expect(mockPrisma.consent.create).not.toHaveBeenCalled();
+
+      mockPrisma.consentLink.findUnique.mockResolvedValue({ ...link, usedAt: new Date() });
+      await expect(ConsentService.getLink(token())).resolves.toBeNull();
+    });
+
+    it('should only accept answers the link asked about, from a genuine token', async () => {
+      await expect(ConsentService.submitLink(token(), [
+        { consentType: 'MARKETING', given: true, noticeId: 'notice-MARKETING-1' },
+      ])).rejects.toThrow('Not asked about MARKETING');
+      await expect(ConsentService.submitLink(`${token()}x`, [
+        { consentType: 'REMINDER', given: true, noticeId: 'notice-REMINDER-1' },
+      ])).rejects.toThrow('invalid');
+    });
+  });
+
+  describe('sendReconsentLinks', () => {
+    it('should send links to patients who consented to earlier wording and haven\'t been asked yet', async () => {
+      mockPrisma.consentNotice.findMany.mockResolvedValue([notices[0], reminderV2, notices[2], notices[3]]);
+      mockPrisma.consent.findMany.mockResolvedValue([
+        { patientId: 'patient-1', consentGiven: true, expiryDate: null, noticeId: 'notice-REMINDER-1' },
+        { patientId: 'patient-2', consentGiven: true, expiryDate: null, noticeId: 'notice-REMINDER-1' },
+        { patientId: 'patient-3', consentGiven: true, expiryDate: null, noticeId: 'notice-REMINDER-2' },
+        { patientId: 'patient-4', consentGiven: false, expiryDate: null, noticeId: 'notice-REMINDER-1' },
+      ]);
+      mockPrisma.consentLink.findMany.mockResolvedValue([{ patientId: 'patient-2' }]);
+      (MessagingService.sendConsentRequest as jest.Mock).mockResolvedValue({ id: 'message-1', status: 'SENDING', channel: 'SMS' });
+
+      const result = await ConsentService.sendReconsentLinks('pharmacy-1', 'REMINDER', 'user-1');
+
+      expect(result).toEqual({ sent: 1, notSent: 0, alreadyAsked: 1 });
+      expect(mockPrisma.consentLink.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ patientId: { in: ['patient-1', 'patient-2'] }, createdAt: { gte: reminderV2.publishedAt } }),
+      }));
+      expect(mockPrisma.consentLink.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.consentLink.create.mock.calls[0][0].data).toEqual(expect.objectContaining({
+        patientId: 'patient-1',
+        consentTypes: ['REMINDER'],
+      }));
+      expect(mockPrisma.consentLink.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { channel: 'SMS', messageId: 'message-1' },
+      }));
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import ControlledDrugService, { calculateRunningBalance, ControlledDrugRegisterNotFoundError } from '@/services/ControlledDrugService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    controlledDrugRegister: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    controlledDrugEntry: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logSystemEvent: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('ControlledDrugService', () => {
+  const register = {
+    id: 'register-1',
+    pharmacyId: 'pharmacy-1',
+    drugName: 'Morphine sulfate',
+    strength: '10mg/5ml',
+    form: 'oral solution',
+    schedule: 'SCHEDULE_2',
+    currentBalance: 100,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.controlledDrugRegister.findUnique.mockResolvedValue(register);
+    mockPrisma.controlledDrugEntry.findFirst.mockResolvedValue({ id: 'entry-4', sequence: 4 });
+    mockPrisma.controlledDrugEntry.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'entry-5', ...data }));
+  });
+
+  describe('calculateRunningBalance', () => {
+    it('should apply a signed quantity to the balance', () => {
+      expect(calculateRunningBalance(100, 50)).toBe(150);
+      expect(calculateRunningBalance(100, -30)).toBe(70);
+    });
+
+    it('should reject entries that take the balance below zero', () => {
+      expect(() => calculateRunningBalance(10, -11)).toThrow('negative balance');
+    });
+
+    it('should reject part units', () => {
+      expect(() => calculateRunningBalance(10, 0.5)).toThrow('whole units');
+    });
+  });
+
+  describe('recordSupply', () => {
+    it('should append a supply entry and move the running balance', async () => {
+      const entry = await ControlledDrugService.recordSupply('register-1', {
+        quantity: 30,
+        patientName: 'John Smith',
+        prescriberName: 'Dr Jones',
+        prescriptionId: 'prescription-1',
+        recordedById: 'user-1',
+      });
+
+      expect(entry).toEqual(expect.objectContaining({
+        entryType: 'SUPPLY',
+        quantity: -30,
+        balanceAfter: 70,
+        sequence: 5,
+        patientName: 'John Smith',
+        prescriberName: 'Dr Jones',
+      }));
+      expect(mockPrisma.controlledDrugRegister.update).toHaveBeenCalledWith({
+        where: { id: 'register-1' },
+        data: { currentBalance: 70 },
+      });
+    });
+
+    it('should write the entry in the caller\'s transaction when given one', async () => {
+      const tx = {
+        controlledDrugRegister: { findUnique: mockPrisma.controlledDrugRegister.findUnique, update: jest.fn() },
+        controlledDrugEntry: { findFirst: mockPrisma.controlledDrugEntry.findFirst, create: mockPrisma.controlledDrugEntry.create },
+      };
+
+      await ControlledDrugService.recordSupply('register-1', {
+        quantity: 30,
+        patientName: 'John Smith',
+        prescriberName: 'Dr Jones',
+        recordedById: 'user-1',
+      }, tx as any);
+
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(tx.controlledDrugRegister.update).toHaveBeenCalledWith({
+        where: { id: 'register-1' },
+        data: { currentBalance: 70 },
+      });
+    });
+
+    it('should not supply more than the register balance', async () => {
+      await expect(ControlledDrugService.recordSupply('register-1', {
+        quantity: 101,
+        patientName: 'John Smith',
+        prescriberName: 'Dr Jones',
+        recordedById: 'user-1',
+      })).rejects.toThrow('negative balance');
+
+      expect(mockPrisma.controlledDrugEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordDestruction', () => {
+    it('should require an authorised witness', async () => {
+      await expect(ControlledDrugService.recordDestruction('register-1', {
+        quantity: 5,
+        witnessName: '',
+        witnessRole: '',
+        reason: 'Expired stock',
+        recordedById: 'user-1',
+      })).rejects.toThrow('witnessed');
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should not write an entry when the count matches', async () => {
+      const result = await ControlledDrugService.reconcile('register-1', {
+        countedBalance: 100,
+        recordedById: 'user-1',
+      });
+
+      expect(result.balanced).toBe(true);
+      expect(mockPrisma.controlledDrugEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('should write a discrepancy entry for the difference', async () => {
+      const result = await ControlledDrugService.reconcile('register-1', {
+        countedBalance: 98,
+        reason: 'Spillage during measurement',
+        recordedById: 'user-1',
+      });
+
+      expect(result.balanced).toBe(false);
+      expect(result.difference).toBe(-2);
+      expect(result.entry).toEqual(expect.objectContaining({
+        entryType: 'DISCREPANCY',
+        quantity: -2,
+        balanceAfter: 98,
+        countedBalance: 98,
+      }));
+    });
+
+    it('should require a reason for a discrepancy', async () => {
+      await expect(ControlledDrugService.reconcile('register-1', {
+        countedBalance: 98,
+        recordedById: 'user-1',
+      })).rejects.toThrow('reason');
+    });
+
+    it('should read the balance in the transaction that writes the discrepancy', async () => {
+      await ControlledDrugService.reconcile('register-1', {
+        countedBalance: 98,
+        reason: 'Spillage during measurement',
+        recordedById: 'user-1',
+      });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.controlledDrugRegister.findUnique).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not write a discrepancy if a supply moved the balance during the count', async () => {
+      mockPrisma.controlledDrugRegister.findUnique
+        .mockResolvedValueOnce(register)
+        .mockResolvedValueOnce({ ...register, currentBalance: 90 });
+
+      await expect(ControlledDrugService.reconcile('register-1', {
+        countedBalance: 98,
+        reason: 'Spillage during measurement',
+        recordedById: 'user-1',
+      })).rejects.toThrow('count again');
+    });
+  });
+
+  describe('getRegister', () => {
+    it('should say when a register doesn\'t exist', async () => {
+      mockPrisma.controlledDrugRegister.findUnique.mockResolvedValue(null);
+
+      await expect(ControlledDrugService.getRegister('register-2')).rejects.toThrow(ControlledDrugRegisterNotFoundError);
+    });
+  });
+});
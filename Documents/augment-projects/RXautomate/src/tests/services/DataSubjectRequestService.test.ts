@@ -0,0 +1,231 @@
+import DataSubjectRequestService, {
+  ERASURE_POLICY,
+  exportToPdfLines,
+  isOverdue,
+  statutoryDueDate,
+} from '@/services/DataSubjectRequestService';
+import AuditService from '@/services/AuditService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    dataSubjectRequest: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    patient: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    prescription: { count: jest.fn() },
+    controlledDrugEntry: { count: jest.fn() },
+    auditLog: { count: jest.fn() },
+    consent: { deleteMany: jest.fn() },
+    consentLink: { deleteMany: jest.fn() },
+    appointment: { deleteMany: jest.fn() },
+    medicationAdherence: { deleteMany: jest.fn() },
+    adherenceIntervention: { deleteMany: jest.fn() },
+    patientAdherence: { deleteMany: jest.fn() },
+    patientNotification: { deleteMany: jest.fn() },
+    patientMessage: { updateMany: jest.fn() },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logPatientAction: jest.fn(),
+  logAction: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('DataSubjectRequestService', () => {
+  const patient = {
+    id: 'patient-1',
+    pharmacyId: 'pharmacy-1',
+    nhsNumber: '9449304130',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    dateOfBirth: new Date('1980-06-15T00:00:00Z'),
+    erasedAt: null,
+  };
+  const erasureRequest = {
+    id: 'request-1',
+    type: 'ERASURE',
+    status: 'IN_PROGRESS',
+    patientId: 'patient-1',
+    pharmacyId: 'pharmacy-1',
+    identityVerifiedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.dataSubjectRequest.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'request-1', ...data }));
+    mockPrisma.dataSubjectRequest.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+    for (const model of ['consent', 'consentLink', 'appointment', 'medicationAdherence', 'adherenceIntervention', 'patientAdherence', 'patientNotification']) {
+      mockPrisma[model].deleteMany.mockResolvedValue({ count: 1 });
+    }
+    mockPrisma.patientMessage.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.prescription.count.mockResolvedValue(0);
+    mockPrisma.controlledDrugEntry.count.mockResolvedValue(0);
+    mockPrisma.auditLog.count.mockResolvedValue(4);
+  });
+
+  describe('statutoryDueDate', () => {
+    it('should give a month to the same date, moving weekends to the Monday', () => {
+      expect(statutoryDueDate(new Date(2026, 2, 10))).toEqual(new Date(2026, 3, 10));
+      // 31 January runs to 28 February, a Saturday
+      expect(statutoryDueDate(new Date(2026, 0, 31))).toEqual(new Date(2026, 2, 2));
+    });
+
+    it('should give three months once extended', () => {
+      expect(statutoryDueDate(new Date(2026, 2, 10), true)).toEqual(new Date(2026, 5, 10));
+    });
+  });
+
+  describe('isOverdue', () => {
+    it('should only flag open requests past their due date', () => {
+      const now = new Date('2026-05-01T00:00:00Z');
+      const dueAt = new Date('2026-04-30T00:00:00Z');
+
+      expect(isOverdue({ status: 'IN_PROGRESS', dueAt }, now)).toBe(true);
+      expect(isOverdue({ status: 'COMPLETED', dueAt }, now)).toBe(false);
+      expect(isOverdue({ status: 'RECEIVED', dueAt: new Date('2026-05-02T00:00:00Z') }, now)).toBe(false);
+    });
+  });
+
+  describe('exportToPdfLines', () => {
+    it('should give each section a heading and flatten nested records', () => {
+      const lines = exportToPdfLines({
+        generatedAt: new Date('2026-05-01T09:00:00Z'),
+        request: { id: 'request-1', receivedAt: new Date('2026-04-20T09:00:00Z') },
+        pharmacy: { name: 'High Street Pharmacy' },
+        patient: { firstName: 'Jane', email: null },
+        prescriptions: [{ prescriptionNumber: 'RX1', items: [{ medicationName: 'Amoxicillin' }] }],
+        consents: [],
+      });
+
+      expect(lines[0]).toEqual({ text: 'Your data held by High Street Pharmacy', heading: true });
+      expect(lines).toContainEqual({ text: 'Your details', heading: true });
+      expect(lines).toContain('First name: Jane');
+      expect(lines).toContain('Email: -');
+      expect(lines).toContain('    Medication name: Amoxicillin');
+      expect(lines).toContain('None');
+      expect(lines).not.toContainEqual({ text: 'Appointments', heading: true });
+    });
+  });
+
+  describe('createRequest', () => {
+    it('should find the patient by NHS number and set the statutory due date', async () => {
+      mockPrisma.patient.findUnique.mockResolvedValue(patient);
+
+      const request = await DataSubjectRequestService.createRequest('pharmacy-1', {
+        type: 'ACCESS',
+        nhsNumber: '944 930 4130',
+        receivedAt: '2026-03-10T12:00:00',
+      }, 'user-1');
+
+      expect(mockPrisma.patient.findUnique).toHaveBeenCalledWith({
+        where: { pharmacyId_nhsNumber: { pharmacyId: 'pharmacy-1', nhsNumber: '9449304130' } },
+      });
+      expect(request).toMatchObject({ type: 'ACCESS', patientId: 'patient-1', createdById: 'user-1' });
+      expect(request.dueAt).toEqual(statutoryDueDate(new Date('2026-03-10T12:00:00')));
+      expect(AuditService.logPatientAction).toHaveBeenCalledWith('DATA_SUBJECT_REQUEST_LOGGED', 'patient-1', 'user-1', expect.any(Object));
+    });
+
+    it('should reject patients of another pharmacy and patients already erased', async () => {
+      mockPrisma.patient.findUnique.mockResolvedValueOnce({ ...patient, pharmacyId: 'pharmacy-2' });
+      await expect(DataSubjectRequestService.createRequest('pharmacy-1', { type: 'ERASURE', patientId: 'patient-1' }, 'user-1'))
+        .rejects.toThrow('Patient not found');
+
+      mockPrisma.patient.findUnique.mockResolvedValueOnce({ ...patient, erasedAt: new Date() });
+      await expect(DataSubjectRequestService.createRequest('pharmacy-1', { type: 'ERASURE', patientId: 'patient-1' }, 'user-1'))
+        .rejects.toThrow('already been erased');
+
+      expect(mockPrisma.dataSubjectRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildExport', () => {
+    it('should not release data before the requester\'s identity is checked', async () => {
+      mockPrisma.dataSubjectRequest.findUnique.mockResolvedValue({ ...erasureRequest, type: 'ACCESS', identityVerifiedAt: null });
+
+      await expect(DataSubjectRequestService.buildExport('request-1', 'pharmacy-1', 'user-1'))
+        .rejects.toThrow('Check the requester\'s identity');
+      expect(mockPrisma.patient.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rectify', () => {
+    it('should only correct the patient details it allows', async () => {
+      mockPrisma.dataSubjectRequest.findUnique.mockResolvedValue({ ...erasureRequest, type: 'RECTIFICATION' });
+
+      await expect(DataSubjectRequestService.rectify('request-1', 'pharmacy-1', { nhsNumber: '1' } as any, '', 'user-1'))
+        .rejects.toThrow('nhsNumber can\'t be corrected here');
+
+      const closed = await DataSubjectRequestService.rectify('request-1', 'pharmacy-1', { lastName: ' Jones ' }, '', 'user-1');
+
+      expect(mockPrisma.patient.update).toHaveBeenCalledWith({ where: { id: 'patient-1' }, data: { lastName: 'Jones' } });
+      expect(AuditService.logPatientAction).toHaveBeenCalledWith('PATIENT_RECORD_RECTIFIED', 'patient-1', 'user-1', {
+        requestId: 'request-1',
+        fields: ['lastName'],
+      });
+      expect(closed).toMatchObject({ status: 'COMPLETED', outcome: 'Corrected: Last name' });
+    });
+  });
+
+  describe('erase', () => {
+    beforeEach(() => {
+      mockPrisma.dataSubjectRequest.findUnique.mockResolvedValue(erasureRequest);
+      mockPrisma.patient.findUnique.mockResolvedValue(patient);
+    });
+
+    it('should need the requester\'s identity checked first', async () => {
+      mockPrisma.dataSubjectRequest.findUnique.mockResolvedValue({ ...erasureRequest, identityVerifiedAt: null });
+
+      await expect(DataSubjectRequestService.erase('request-1', 'pharmacy-1', undefined, 'user-1'))
+        .rejects.toThrow('identity first');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should delete the patient when nothing retained refers to them', async () => {
+      const { request, summary } = await DataSubjectRequestService.erase('request-1', 'pharmacy-1', undefined, 'user-1');
+
+      expect(mockPrisma.patient.delete).toHaveBeenCalledWith({ where: { id: 'patient-1' } });
+      expect(mockPrisma.patient.update).not.toHaveBeenCalled();
+      expect(summary.patient.action).toBe('delete');
+      expect(summary.categories).toContainEqual({ category: 'adherence', ...ERASURE_POLICY.adherence, count: 3 });
+      expect(summary.categories).toContainEqual({ category: 'auditLog', ...ERASURE_POLICY.auditLog, count: 4 });
+      expect(request).toMatchObject({ status: 'COMPLETED', outcome: 'Data erased', closedById: 'user-1' });
+      expect(JSON.parse(request.erasureSummary).patient.action).toBe('delete');
+    });
+
+    it('should anonymise the patient when dispensing records must be kept', async () => {
+      mockPrisma.prescription.count.mockResolvedValue(2);
+
+      const { summary } = await DataSubjectRequestService.erase('request-1', 'pharmacy-1', undefined, 'user-1');
+
+      expect(mockPrisma.patient.delete).not.toHaveBeenCalled();
+      expect(mockPrisma.patient.update).toHaveBeenCalledWith({
+        where: { id: 'patient-1' },
+        data: expect.objectContaining({
+          nhsNumber: null,
+          firstName: 'Erased',
+          email: null,
+          dateOfBirth: new Date('1980-01-01T00:00:00Z'),
+          erasedAt: expect.any(Date),
+        }),
+      });
+      expect(summary.patient.action).toBe('anonymise');
+      expect(summary.categories).toContainEqual({ category: 'prescriptions', ...ERASURE_POLICY.prescriptions, count: 2 });
+      expect(AuditService.logPatientAction).toHaveBeenCalledWith('PATIENT_DATA_ERASED', 'patient-1', 'user-1', expect.objectContaining({
+        patient: 'anonymise',
+      }));
+    });
+  });
+});
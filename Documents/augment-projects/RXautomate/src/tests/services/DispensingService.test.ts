@@ -0,0 +1,282 @@
+import DispensingService, { DispenseBlockedError } from '@/services/DispensingService';
+import ClaimService from '@/services/ClaimService';
+import EPSService from '@/services/EPSService';
+import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import OwingService from '@/services/OwingService';
+import PrescriptionEventService from '@/services/PrescriptionEventService';
+import RepeatDispensingService from '@/services/RepeatDispensingService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => ({
+  tenantPrisma: {
+    prescription: {
+      findUnique: jest.fn(),
+    },
+    clinicalCheck: {
+      findFirst: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logPrescriptionAction: jest.fn(),
+}));
+
+jest.mock('@/services/ClaimService', () => ({
+  createClaim: jest.fn(),
+}));
+
+jest.mock('@/services/EPSService', () => ({
+  getPrescription: jest.fn(),
+  dispensePrescription: jest.fn(),
+}));
+
+jest.mock('@/services/InventoryPrescriptionService', () => ({
+  checkPrescriptionStock: jest.fn(),
+  checkControlledDrugSupply: jest.fn(),
+  updateInventoryAfterDispensing: jest.fn(),
+}));
+
+jest.mock('@/services/OwingService', () => ({
+  dispensePartially: jest.fn(),
+}));
+
+jest.mock('@/services/PrescriptionEventService', () => ({
+  getPharmacyOdsCode: jest.fn(),
+  publishStatusChange: jest.fn(),
+}));
+
+jest.mock('@/services/RepeatDispensingService', () => ({
+  getDispensableIssue: jest.fn(),
+  getOpenIssue: jest.fn(),
+  recordIssueDispensed: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('DispensingService', () => {
+  const now = new Date('2026-10-14T10:00:00');
+  const input = { pharmacyId: 'pharmacy-1', pharmacyOdsCode: 'FA123', userId: 'user-1', now };
+  const prescription = { id: 'eps-1', status: 'active', dispenseRequest: { quantity: { value: 28 } } };
+  const dispensed = { ...prescription, status: 'completed' };
+  const repeatIssue = { id: 'issue-2', issueNumber: 2, schedule: { id: 'schedule-1' } };
+  const stockItem = { medicationName: 'Amlodipine 5mg tablets', inventoryItemId: 'item-1', currentStock: 10, requiredQuantity: 28 };
+  // The local prescription the sync created for eps-1; the clinical check is kept against it
+  const synced = { id: '5f0c1a52-8d2e-4c1b-9a7e-3b6d2f4e1c90' };
+  const highIssue = { type: 'DRUG_INTERACTION', severity: 'HIGH', description: 'Bleeding risk', medications: ['Warfarin', 'Aspirin'] };
+  const signedOffCheck = { id: 'check-1', prescriptionId: synced.id, status: 'SIGNED_OFF', issues: [highIssue], decisions: [] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.prescription.findUnique.mockResolvedValue(synced);
+    mockPrisma.clinicalCheck.findFirst.mockResolvedValue(signedOffCheck);
+    (RepeatDispensingService.getDispensableIssue as jest.Mock).mockResolvedValue(null);
+    (RepeatDispensingService.recordIssueDispensed as jest.Mock).mockResolvedValue({ nextIssue: { issueNumber: 3 }, scheduleStatus: 'ACTIVE' });
+    (EPSService.getPrescription as jest.Mock).mockResolvedValue(prescription);
+    (EPSService.dispensePrescription as jest.Mock).mockResolvedValue(dispensed);
+    (InventoryPrescriptionService.checkPrescriptionStock as jest.Mock).mockResolvedValue({
+      items: [{ ...stockItem, currentStock: 100 }],
+      allInStock: true,
+      anyOutOfStock: false,
+    });
+    (InventoryPrescriptionService.checkControlledDrugSupply as jest.Mock).mockResolvedValue(undefined);
+    (InventoryPrescriptionService.updateInventoryAfterDispensing as jest.Mock).mockResolvedValue({ newStock: 72 });
+    (ClaimService.createClaim as jest.Mock).mockResolvedValue({ id: 'claim-1' });
+    (PrescriptionEventService.getPharmacyOdsCode as jest.Mock).mockResolvedValue('FA123');
+  });
+
+  describe('dispense', () => {
+    it('should dispense in EPS, deduct stock, update terminals and claim', async () => {
+      const result = await DispensingService.dispense('eps-1', { ...input, claim: { exemptionCategory: 'A' } });
+
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith('eps-1', 'FA123');
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).toHaveBeenCalledWith(dispensed, 'user-1');
+      expect(PrescriptionEventService.publishStatusChange).toHaveBeenCalledWith('pharmacy-1', dispensed, 'active');
+      expect(ClaimService.createClaim).toHaveBeenCalledWith('pharmacy-1', prescription, { exemptionCategory: 'A', userId: 'user-1' });
+      expect(RepeatDispensingService.recordIssueDispensed).not.toHaveBeenCalled();
+      expect(result).toEqual({ prescription: dispensed, inventoryUpdate: { newStock: 72 }, claimId: 'claim-1' });
+    });
+
+    it('should look the clinical check up under the synced prescription\'s local ID', async () => {
+      await DispensingService.dispense('eps-1', input);
+
+      expect(mockPrisma.prescription.findUnique).toHaveBeenCalledWith({
+        where: { epsPrescriptionId: 'eps-1' },
+        select: { id: true },
+      });
+      expect(mockPrisma.clinicalCheck.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { prescriptionId: synced.id },
+      }));
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith('eps-1', 'FA123');
+    });
+
+    it('should dispense as the selected pharmacy, not the ODS code the client sent', async () => {
+      const dispense = DispensingService.dispense('eps-1', { ...input, pharmacyOdsCode: 'FB999' });
+
+      await expect(dispense).rejects.toMatchObject({ statusCode: 403 });
+      expect(PrescriptionEventService.getPharmacyOdsCode).toHaveBeenCalledWith('pharmacy-1');
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+
+      await DispensingService.dispense('eps-1', { ...input, pharmacyOdsCode: undefined });
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith('eps-1', 'FA123');
+    });
+
+    it('should record the eRD issue it supplied', async () => {
+      (RepeatDispensingService.getDispensableIssue as jest.Mock).mockResolvedValue(repeatIssue);
+
+      const result = await DispensingService.dispense('eps-1', input);
+
+      expect(RepeatDispensingService.getDispensableIssue).toHaveBeenCalledWith('eps-1', 'pharmacy-1', now);
+      expect(RepeatDispensingService.recordIssueDispensed).toHaveBeenCalledWith(repeatIssue, 'user-1', now);
+      expect(result.repeatIssue).toEqual({ nextIssue: { issueNumber: 3 }, scheduleStatus: 'ACTIVE' });
+    });
+
+    it('should not send anything to EPS before the eRD issue is due', async () => {
+      (RepeatDispensingService.getDispensableIssue as jest.Mock)
+        .mockRejectedValue(new Error('Issue 2 cannot be dispensed before 16/10/2026'));
+
+      const dispense = DispensingService.dispense('eps-1', input);
+
+      await expect(dispense).rejects.toThrow(DispenseBlockedError);
+      await expect(dispense).rejects.toMatchObject({ statusCode: 409, message: 'Issue 2 cannot be dispensed before 16/10/2026' });
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).not.toHaveBeenCalled();
+    });
+
+    it('should refuse until the clinical check is signed off', async () => {
+      mockPrisma.clinicalCheck.findFirst.mockResolvedValue({ ...signedOffCheck, status: 'PENDING' });
+
+      await expect(DispensingService.dispense('eps-1', input)).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'HIGH or CRITICAL validation issues need a pharmacist sign-off before dispensing',
+        details: { clinicalCheckId: 'check-1' },
+      });
+      expect(EPSService.getPrescription).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a prescription that was never validated', async () => {
+      mockPrisma.clinicalCheck.findFirst.mockResolvedValue(null);
+
+      await expect(DispensingService.dispense('eps-1', input)).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'The prescription has not been validated and clinically checked',
+      });
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a prescription that hasn\'t been synced', async () => {
+      mockPrisma.prescription.findUnique.mockResolvedValue(null);
+
+      await expect(DispensingService.dispense('eps-1', input)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockPrisma.clinicalCheck.findFirst).not.toHaveBeenCalled();
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a controlled drug the register can\'t take', async () => {
+      (InventoryPrescriptionService.checkControlledDrugSupply as jest.Mock)
+        .mockRejectedValue(new Error('No controlled drug register is open for Morphine'));
+
+      await expect(DispensingService.dispense('eps-1', input)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'No controlled drug register is open for Morphine',
+      });
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+    });
+
+    it('should owe the balance when allowed, and otherwise refuse a short supply', async () => {
+      const stockCheckResult = { items: [stockItem], allInStock: false, anyOutOfStock: false };
+      (InventoryPrescriptionService.checkPrescriptionStock as jest.Mock).mockResolvedValue(stockCheckResult);
+      (RepeatDispensingService.getDispensableIssue as jest.Mock).mockResolvedValue(repeatIssue);
+      (OwingService.dispensePartially as jest.Mock).mockResolvedValue({
+        prescription: dispensed,
+        inventoryUpdate: { newStock: 0 },
+        owing: { id: 'owing-1', quantityOwed: 18 },
+      });
+
+      const result = await DispensingService.dispense('eps-1', { ...input, allowPartial: true });
+
+      expect(OwingService.dispensePartially).toHaveBeenCalledWith(prescription, expect.objectContaining({
+        pharmacyId: 'pharmacy-1',
+        inventoryItemId: 'item-1',
+        currentStock: 10,
+        userId: 'user-1',
+      }));
+      expect(PrescriptionEventService.publishStatusChange).toHaveBeenCalledWith('pharmacy-1', dispensed, 'active');
+      expect(result).toMatchObject({
+        inventoryUpdates: [{ newStock: 0 }],
+        owings: [{ id: 'owing-1' }],
+        repeatIssue: { scheduleStatus: 'ACTIVE' },
+      });
+      // The claim waits until the owing is fulfilled
+      expect(ClaimService.createClaim).not.toHaveBeenCalled();
+
+      (InventoryPrescriptionService.checkPrescriptionStock as jest.Mock).mockResolvedValue({ ...stockCheckResult, items: [{ ...stockItem, currentStock: 0 }], anyOutOfStock: true });
+      await expect(DispensingService.dispense('eps-1', input)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Some items are out of stock',
+      });
+    });
+
+    it('should owe the balance of every short item', async () => {
+      const otherItem = { ...stockItem, medicationName: 'Amlodipine 10mg tablets', inventoryItemId: 'item-2', currentStock: 0 };
+      (InventoryPrescriptionService.checkPrescriptionStock as jest.Mock).mockResolvedValue({
+        items: [stockItem, otherItem],
+        allInStock: false,
+        anyOutOfStock: true,
+      });
+      (OwingService.dispensePartially as jest.Mock)
+        .mockResolvedValueOnce({ prescription: dispensed, inventoryUpdate: { newStock: 0 }, owing: { id: 'owing-1' } })
+        .mockResolvedValueOnce({ prescription: dispensed, inventoryUpdate: null, owing: { id: 'owing-2' } });
+
+      const result = await DispensingService.dispense('eps-1', { ...input, allowPartial: true });
+
+      expect(OwingService.dispensePartially).toHaveBeenCalledTimes(2);
+      expect(OwingService.dispensePartially).toHaveBeenLastCalledWith(prescription, expect.objectContaining({
+        inventoryItemId: 'item-2',
+        currentStock: 0,
+      }));
+      expect(result).toMatchObject({ inventoryUpdates: [{ newStock: 0 }], owings: [{ id: 'owing-1' }, { id: 'owing-2' }] });
+      expect(PrescriptionEventService.publishStatusChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a failure after EPS has the dispense instead of throwing', async () => {
+      (RepeatDispensingService.getDispensableIssue as jest.Mock).mockResolvedValue(repeatIssue);
+      (RepeatDispensingService.recordIssueDispensed as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+      (ClaimService.createClaim as jest.Mock).mockRejectedValueOnce(new Error('Invalid exemption category'));
+
+      const result = await DispensingService.dispense('eps-1', input);
+
+      expect(result).toMatchObject({ repeatIssueError: 'Database unavailable', claimError: 'Invalid exemption category' });
+    });
+  });
+
+  describe('dispenseRepeatIssue', () => {
+    it('should dispense the issue\'s prescription through the same checks', async () => {
+      (RepeatDispensingService.getOpenIssue as jest.Mock).mockResolvedValue({
+        ...repeatIssue,
+        schedule: { prescription: { id: 'prescription-1', epsPrescriptionId: 'eps-1' } },
+      });
+      (RepeatDispensingService.getDispensableIssue as jest.Mock).mockResolvedValue(repeatIssue);
+
+      const result = await DispensingService.dispenseRepeatIssue('issue-2', input);
+
+      expect(RepeatDispensingService.getOpenIssue).toHaveBeenCalledWith('issue-2', 'pharmacy-1');
+      expect(mockPrisma.prescription.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { epsPrescriptionId: 'eps-1' },
+      }));
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith('eps-1', 'FA123');
+      expect(result).toMatchObject({ claimId: 'claim-1', repeatIssue: { scheduleStatus: 'ACTIVE' } });
+    });
+
+    it('should refuse a repeat prescription that isn\'t in EPS', async () => {
+      (RepeatDispensingService.getOpenIssue as jest.Mock).mockResolvedValue({
+        ...repeatIssue,
+        schedule: { prescription: { id: 'prescription-1', epsPrescriptionId: null } },
+      });
+
+      await expect(DispensingService.dispenseRepeatIssue('issue-2', input)).rejects.toMatchObject({ statusCode: 409 });
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateDailyDose,
+  dosageInstructionFromText,
+  evaluateDose,
+  parseStrength,
+} from '../../services/DoseRangeService';
+import { DoseRuleInput } from '../../services/DrugKnowledgeBaseService';
+
+const instruction = (value: number, unit: string, frequency: number, period = 1, periodUnit = 'd') => ({
+  text: '',
+  timing: { repeat: { frequency, period, periodUnit } },
+  doseAndRate: [{ doseQuantity: { value, unit, system: 'http://unitsofmeasure.org', code: unit } }],
+});
+
+describe('DoseRangeService', () => {
+  describe('parseStrength', () => {
+    it('should read solid and liquid strengths', () => {
+      expect(parseStrength('Metformin 500mg tablets')).toEqual({ mg: 500 });
+      expect(parseStrength('Amoxicillin 250mg/5ml oral suspension')).toEqual({ mg: 250, perMl: 5 });
+      expect(parseStrength('Levothyroxine 50micrograms tablets')).toEqual({ mg: 0.05 });
+    });
+  });
+
+  describe('calculateDailyDose', () => {
+    it('should convert tablets to mg using the strength', () => {
+      const dose = calculateDailyDose([instruction(2, 'tablet', 3)], 'Metformin 500mg tablets');
+
+      expect(dose).toEqual({ dailyDoseMg: 3000, maxSingleDoseMg: 1000, dosesPerDay: 3 });
+    });
+
+    it('should convert hourly timing and liquid volumes', () => {
+      const dose = calculateDailyDose([instruction(5, 'ml', 1, 8, 'h')], 'Amoxicillin 250mg/5ml oral suspension');
+
+      expect(dose?.dailyDoseMg).toBe(750);
+    });
+
+    it('should return null when the dose cannot be interpreted', () => {
+      expect(calculateDailyDose([instruction(1, 'tablet', 2)], 'Metformin tablets')).toBeNull();
+      expect(calculateDailyDose(undefined, 'Metformin 500mg tablets')).toBeNull();
+    });
+  });
+
+  describe('dosageInstructionFromText', () => {
+    it('should read the dose and frequency from label text', () => {
+      const parsed = dosageInstructionFromText('500mg', 'Take one twice daily');
+
+      expect(parsed?.timing?.repeat).toEqual({ frequency: 2, period: 1, periodUnit: 'd' });
+      expect(parsed?.doseAndRate?.[0].doseQuantity?.value).toBe(500);
+    });
+  });
+
+  describe('evaluateDose', () => {
+    const metforminRules: DoseRuleInput[] = [
+      { drugName: 'metformin', maxDailyDose: 3000, severity: 'HIGH' },
+      { drugName: 'metformin', minEgfr: 30, maxEgfr: 45, maxDailyDose: 1000, severity: 'HIGH' },
+      { drugName: 'metformin', maxEgfr: 30, maxDailyDose: 0, severity: 'CRITICAL' },
+    ];
+
+    it('should accept a dose within range for normal renal function', () => {
+      const result = evaluateDose('Metformin', { dailyDoseMg: 2000, maxSingleDoseMg: 1000, dosesPerDay: 2 }, metforminRules, { ageYears: 60, egfr: 75 });
+
+      expect(result.isAppropriate).toBe(true);
+    });
+
+    it('should apply the eGFR-banded maximum', () => {
+      const result = evaluateDose('Metformin', { dailyDoseMg: 2000, maxSingleDoseMg: 1000, dosesPerDay: 2 }, metforminRules, { ageYears: 60, egfr: 38 });
+
+      expect(result.isAppropriate).toBe(false);
+      expect(result.severity).toBe('HIGH');
+      expect(result.description).toContain('2000mg is above the allowed range of up to 1000mg/day');
+      expect(result.description).toContain('eGFR 30-45');
+    });
+
+    it('should scale paediatric mg/kg ranges by weight and apply the cap', () => {
+      const paracetamol: DoseRuleInput[] = [
+        { drugName: 'paracetamol', maxAgeYears: 18, perKg: true, maxDailyDose: 60, maxDailyDoseCap: 4000, severity: 'HIGH' },
+      ];
+
+      const overdose = evaluateDose('Paracetamol', { dailyDoseMg: 960, maxSingleDoseMg: 240, dosesPerDay: 4 }, paracetamol, { ageYears: 4, weightKg: 15 });
+      expect(overdose.isAppropriate).toBe(false);
+      expect(overdose.description).toContain('up to 900mg/day');
+
+      const withinRange = evaluateDose('Paracetamol', { dailyDoseMg: 3000, maxSingleDoseMg: 750, dosesPerDay: 4 }, paracetamol, { ageYears: 16, weightKg: 80 });
+      expect(withinRange.isAppropriate).toBe(true);
+    });
+
+    it('should flag mg/kg rules when the weight is unknown', () => {
+      const result = evaluateDose('Paracetamol', { dailyDoseMg: 960, maxSingleDoseMg: 240, dosesPerDay: 4 }, [
+        { drugName: 'paracetamol', maxAgeYears: 18, perKg: true, maxDailyDose: 60, severity: 'HIGH' },
+      ], { ageYears: 4 });
+
+      expect(result.isAppropriate).toBe(false);
+      expect(result.severity).toBe('MEDIUM');
+      expect(result.description).toContain('weight is needed');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  DrugKnowledgeBaseService,
+  buildDatasetFromCsv,
+  normaliseDrugName,
+  parseKnowledgeCsv,
+  validateDataset,
+} from '../../services/DrugKnowledgeBaseService';
+
+// Mock dependencies
+const mockPrisma: any = {
+  drugKnowledgeDataset: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  drugInteractionRule: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+  },
+  drugContraindicationRule: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+  },
+  drugAllergenRule: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+  },
+};
+mockPrisma.$transaction = jest.fn((arg: any) => typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg));
+
+describe('DrugKnowledgeBaseService', () => {
+  let knowledgeBase: DrugKnowledgeBaseService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    knowledgeBase = new DrugKnowledgeBaseService(mockPrisma);
+  });
+
+  describe('normaliseDrugName', () => {
+    it('should strip strength and form from a prescribed medication', () => {
+      expect(normaliseDrugName('Amoxicillin 500mg capsules')).toBe('amoxicillin');
+      expect(normaliseDrugName('Co-amoxiclav 500mg/125mg tablets')).toBe('co-amoxiclav');
+      expect(normaliseDrugName('Warfarin')).toBe('warfarin');
+    });
+  });
+
+  describe('parseKnowledgeCsv', () => {
+    it('should parse quoted fields containing commas', () => {
+      const records = parseKnowledgeCsv(
+        'drugName,interactingDrugName,severity,description\n' +
+        'warfarin,aspirin,HIGH,"Bleeding risk, monitor INR"\n'
+      );
+
+      expect(records).toEqual([{
+        drugName: 'warfarin',
+        interactingDrugName: 'aspirin',
+        severity: 'HIGH',
+        description: 'Bleeding risk, monitor INR',
+      }]);
+    });
+  });
+
+  describe('buildDatasetFromCsv', () => {
+    it('should build a valid dataset from per-kind CSV files', () => {
+      const dataset = buildDatasetFromCsv('2024.06', 'dm+d', {
+        interactions: 'drugCode,drugName,interactingDrugName,severity,description\n319740004,warfarin,aspirin,HIGH,Bleeding risk',
+        allergens: 'drugName,allergenClass\namoxicillin,penicillins',
+      });
+
+      expect(dataset.interactions[0].drugCode).toBe('319740004');
+      expect(dataset.contraindications).toHaveLength(0);
+      expect(dataset.allergens[0].allergenClass).toBe('penicillins');
+      expect(validateDataset(dataset)).toHaveLength(0);
+    });
+
+    it('should report rules with an unknown severity', () => {
+      const dataset = buildDatasetFromCsv('2024.06', 'dm+d', {
+        interactions: 'drugName,interactingDrugName,severity,description\nwarfarin,aspirin,SEVERE,Bleeding risk',
+      });
+
+      expect(validateDataset(dataset)).toEqual(['Interaction 1: invalid severity "SEVERE"']);
+    });
+  });
+
+  describe('importDataset', () => {
+    it('should store the rules and activate the new version', async () => {
+      mockPrisma.drugKnowledgeDataset.findUnique.mockResolvedValue(null);
+      mockPrisma.drugKnowledgeDataset.create.mockResolvedValue({ id: 'dataset-1', version: '2024.06' });
+
+      const result = await knowledgeBase.importDataset({
+        version: '2024.06',
+        source: 'dm+d',
+        interactions: [{ drugName: 'Warfarin 5mg tablets', interactingDrugName: 'Aspirin', severity: 'HIGH', description: 'Bleeding risk' }],
+        contraindications: [],
+        allergens: [],
+      });
+
+      expect(result.interactionCount).toBe(1);
+      expect(mockPrisma.drugInteractionRule.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ drugName: 'warfarin', interactingDrugName: 'aspirin', datasetId: 'dataset-1' })],
+      });
+      expect(mockPrisma.drugKnowledgeDataset.updateMany).toHaveBeenCalledWith({
+        where: { version: { not: '2024.06' } },
+        data: { isActive: false },
+      });
+    });
+
+    it('should not import the same version twice', async () => {
+      mockPrisma.drugKnowledgeDataset.findUnique.mockResolvedValue({ id: 'dataset-1', version: '2024.06' });
+
+      await expect(knowledgeBase.importDataset({
+        version: '2024.06',
+        source: 'dm+d',
+        interactions: [],
+        contraindications: [],
+        allergens: [],
+      })).rejects.toThrow('already been imported');
+    });
+  });
+
+  describe('findInteractions', () => {
+    it('should match rules recorded in either direction', async () => {
+      mockPrisma.drugInteractionRule.findMany.mockResolvedValue([
+        { drugName: 'aspirin', interactingDrugName: 'warfarin', severity: 'HIGH', description: 'Bleeding risk' },
+      ]);
+
+      const interactions = await knowledgeBase.findInteractions('Warfarin 5mg tablets', ['Aspirin 75mg'], 'org-1');
+
+      expect(interactions).toEqual([{ medication: 'aspirin', severity: 'HIGH', description: 'Bleeding risk' }]);
+    });
+
+    it('should only include local rules for the given organization', async () => {
+      mockPrisma.drugInteractionRule.findMany.mockResolvedValue([]);
+
+      await knowledgeBase.findInteractions('Warfarin', ['Aspirin']);
+
+      const where = (mockPrisma.drugInteractionRule.findMany.mock.calls[0][0] as any).where;
+      expect(where.AND[0].OR).toEqual([{ source: 'DATASET', dataset: { isActive: true } }]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  DISPENSE_TYPE_SYSTEM,
+  EPSMessageValidationError,
+  RETURN_REASONS,
+  WITHDRAW_REASONS,
+  assertValidMessage,
+  buildDispenseNotification,
+  buildReleaseRequest,
+  buildReturnTask,
+  buildWithdrawTask,
+  validateDispenseNotification,
+  validateDispenseTask,
+  validateReleaseRequest,
+} from '../../services/EPSMessageBuilder';
+import { MOCK_PHARMACY_ODS_CODE, defaultMedicationRequests } from '../../mocks/eps/fixtures';
+
+describe('EPSMessageBuilder', () => {
+  const [amoxicillin, omeprazole, otherPatientItem] = defaultMedicationRequests();
+
+  describe('release request', () => {
+    it('should build a valid nominated release', () => {
+      const request = buildReleaseRequest({ pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE });
+
+      expect(validateReleaseRequest(request)).toEqual([]);
+      expect(request.parameter.map(p => p.name)).toEqual(['owner', 'status']);
+    });
+
+    it('should release a single prescription by group identifier', () => {
+      const request = buildReleaseRequest({ pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE, prescriptionId: amoxicillin.id });
+
+      expect(request.parameter.find(p => p.name === 'group-identifier')?.valueIdentifier.value).toBe(amoxicillin.id);
+    });
+
+    it('should reject an invalid ODS code', () => {
+      expect(validateReleaseRequest(buildReleaseRequest({ pharmacyOdsCode: 'not an ods code' })))
+        .toEqual(['owner must be a valid pharmacy ODS code']);
+    });
+  });
+
+  describe('Dispense Notification', () => {
+    it('should build one MedicationDispense per item, referenced from the header', () => {
+      const bundle = buildDispenseNotification({
+        pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE,
+        items: [
+          { medicationRequest: amoxicillin },
+          { medicationRequest: omeprazole, status: 'partial', quantity: 14 },
+        ],
+      });
+
+      const [header, ...dispenses] = bundle.entry.map(entry => entry.resource as any);
+
+      expect(validateDispenseNotification(bundle)).toEqual([]);
+      expect(header.eventCoding.code).toBe('dispense-notification');
+      expect(header.focus).toHaveLength(2);
+      expect(dispenses.map(d => d.authorizingPrescription[0].reference)).toEqual([
+        `MedicationRequest/${amoxicillin.id}`,
+        `MedicationRequest/${omeprazole.id}`,
+      ]);
+      expect(dispenses[0]).toMatchObject({ status: 'completed', quantity: { value: 21 } });
+      expect(dispenses[1]).toMatchObject({
+        status: 'in-progress',
+        quantity: { value: 14 },
+        type: { coding: [{ system: DISPENSE_TYPE_SYSTEM, code: '0003' }] },
+      });
+    });
+
+    it('should allow a not-dispensed item without a quantity', () => {
+      const bundle = buildDispenseNotification({
+        pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE,
+        items: [{ medicationRequest: amoxicillin, status: 'not-dispensed' }],
+      });
+
+      expect(validateDispenseNotification(bundle)).toEqual([]);
+    });
+
+    it('should report items for different patients and missing quantities', () => {
+      const bundle = buildDispenseNotification({
+        pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE,
+        items: [
+          { medicationRequest: amoxicillin, quantity: 0 },
+          { medicationRequest: otherPatientItem },
+        ],
+      });
+
+      expect(validateDispenseNotification(bundle)).toEqual([
+        'MedicationDispense 1 must have a quantity greater than zero',
+        'All items in a Dispense Notification must be for the same patient',
+      ]);
+    });
+
+    it('should require at least one item', () => {
+      const bundle = buildDispenseNotification({ pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE, items: [] });
+
+      expect(validateDispenseNotification(bundle)).toContain('At least one MedicationDispense is required');
+    });
+  });
+
+  describe('Return and Withdraw tasks', () => {
+    it('should build valid Return and Withdraw tasks', () => {
+      const returnTask = buildReturnTask({
+        prescriptionId: amoxicillin.id,
+        pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE,
+        reason: RETURN_REASONS[1],
+      });
+      const withdrawTask = buildWithdrawTask({
+        prescriptionId: amoxicillin.id,
+        pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE,
+        reason: WITHDRAW_REASONS[0],
+      });
+
+      expect(returnTask.status).toBe('rejected');
+      expect(validateDispenseTask(returnTask)).toEqual([]);
+      expect(withdrawTask.status).toBe('in-progress');
+      expect(validateDispenseTask(withdrawTask)).toEqual([]);
+    });
+
+    it('should reject a reason from the wrong code system', () => {
+      const task = buildReturnTask({
+        prescriptionId: amoxicillin.id,
+        pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE,
+        reason: WITHDRAW_REASONS[0],
+      });
+
+      expect(validateDispenseTask(task)).toHaveLength(1);
+      expect(() => assertValidMessage('Return', validateDispenseTask(task)))
+        .toThrow(EPSMessageValidationError);
+    });
+  });
+});
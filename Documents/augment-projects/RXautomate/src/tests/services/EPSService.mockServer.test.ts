@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import axios from 'axios';
+import { EPSService } from '../../services/EPSService';
+import { MockEpsServer, FHIR_BASE_PATH } from '../../mocks/eps/MockEpsServer';
+import { MOCK_OTHER_PHARMACY_ODS_CODE, MOCK_PHARMACY_ODS_CODE, defaultMedicationRequests } from '../../mocks/eps/fixtures';
+import { RETURN_REASONS, WITHDRAW_REASONS } from '../../services/EPSMessageBuilder';
+
+// Mock dependencies
+jest.mock('../../services/AuditService', () => ({
+  __esModule: true,
+  default: {
+    logPrescriptionAction: jest.fn(),
+    logNhsApiAction: jest.fn(),
+  },
+}));
+
+describe('EPSService against the mock EPS server', () => {
+  const server = new MockEpsServer();
+  const activePrescriptionId = defaultMedicationRequests()[0].id;
+  let baseUrl: string;
+  let epsService: EPSService;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    epsService = new EPSService({
+      apiBaseUrl: baseUrl,
+      tokenUrl: server.tokenUrl!,
+      requestTimeoutMs: 200,
+      retryBaseDelayMs: 1,
+    });
+  });
+
+  const requestsTo = (path: string) => server.getRequests().filter(r => r.path.includes(path));
+
+  it('should search a pharmacy\'s prescriptions by status', async () => {
+    const bundle = await epsService.getPharmacyPrescriptions(MOCK_PHARMACY_ODS_CODE, { status: 'active' });
+
+    expect(bundle.total).toBe(2);
+    expect(bundle.entry.every(entry => entry.resource.status === 'active')).toBe(true);
+  });
+
+  it('should complete a prescription and refuse to cancel it afterwards', async () => {
+    const completed = await epsService.completePrescription(activePrescriptionId);
+
+    expect(completed.status).toBe('completed');
+    expect(server.getPrescription(activePrescriptionId)?.status).toBe('completed');
+
+    await expect(epsService.cancelPrescription(activePrescriptionId, { code: '0001', display: 'Prescribing error' }))
+      .rejects.toMatchObject({ statusCode: 409, retryable: false });
+  });
+
+  it('should retry 503 responses until the request succeeds', async () => {
+    server.injectFault({ status: 503, times: 2, path: 'MedicationRequest' });
+
+    const prescription = await epsService.getPrescription(activePrescriptionId);
+
+    expect(prescription.id).toBe(activePrescriptionId);
+    expect(requestsTo('MedicationRequest').map(r => r.faultStatus)).toEqual([503, 503, undefined]);
+  });
+
+  it('should give up after the maximum retries when rate limited', async () => {
+    server.injectFault({ status: 429, persistent: true, path: 'MedicationRequest', retryAfter: 1 });
+
+    await expect(epsService.getPrescription(activePrescriptionId))
+      .rejects.toMatchObject({ statusCode: 429, retryable: true, retryCount: 3 });
+    expect(requestsTo('MedicationRequest')).toHaveLength(4);
+  });
+
+  it('should not retry a 500 response', async () => {
+    server.injectFault({ status: 500, path: 'MedicationRequest' });
+
+    await expect(epsService.getPrescription(activePrescriptionId))
+      .rejects.toMatchObject({ statusCode: 500, retryable: false });
+    expect(requestsTo('MedicationRequest')).toHaveLength(1);
+  });
+
+  it('should retry a request that timed out', async () => {
+    server.injectFault({ delayMs: 1000, path: 'MedicationRequest' });
+
+    const prescription = await epsService.getPrescription(activePrescriptionId);
+
+    expect(prescription.id).toBe(activePrescriptionId);
+    expect(requestsTo('MedicationRequest')[0].delayedMs).toBe(1000);
+  });
+
+  it('should accept faults and fixtures over the control endpoints', async () => {
+    await axios.post(`${baseUrl}/_mock/seed`, [{ ...defaultMedicationRequests()[0], id: 'seeded-1' }]);
+    await axios.post(`${baseUrl}/_mock/faults`, { status: 504, path: 'seeded-1' });
+
+    const prescription = await epsService.getPrescription('seeded-1');
+
+    expect(prescription.id).toBe('seeded-1');
+    expect(requestsTo('seeded-1')).toHaveLength(2);
+  });
+
+  it('should release nominated prescriptions once', async () => {
+    const released = await epsService.releasePrescriptions(MOCK_PHARMACY_ODS_CODE);
+
+    expect(released.map(p => p.id)).toEqual(defaultMedicationRequests()
+      .filter(p => p.status === 'active' && p.performer?.[0].actor.reference.endsWith(MOCK_PHARMACY_ODS_CODE))
+      .map(p => p.id));
+    expect(server.getDispenseState(activePrescriptionId)?.owner).toBe(MOCK_PHARMACY_ODS_CODE);
+    await expect(epsService.releasePrescriptions(MOCK_PHARMACY_ODS_CODE)).resolves.toEqual([]);
+  });
+
+  it('should complete a prescription with a Dispense Notification', async () => {
+    const dispensed = await epsService.dispensePrescription(activePrescriptionId, MOCK_PHARMACY_ODS_CODE);
+
+    expect(dispensed.status).toBe('completed');
+    expect(server.getDispenseState(activePrescriptionId)?.dispenseNotifications).toHaveLength(1);
+    expect(requestsTo('$process-message')).toHaveLength(1);
+  });
+
+  it('should keep a partially dispensed prescription active', async () => {
+    const dispensed = await epsService.dispensePrescription(activePrescriptionId, MOCK_PHARMACY_ODS_CODE, {
+      status: 'partial',
+      quantity: 7,
+    });
+
+    expect(dispensed.status).toBe('active');
+  });
+
+  it('should not send a Dispense Notification for a prescription with another dispenser', async () => {
+    await epsService.releasePrescriptions(MOCK_OTHER_PHARMACY_ODS_CODE, activePrescriptionId);
+
+    await expect(epsService.dispensePrescription(activePrescriptionId, MOCK_PHARMACY_ODS_CODE))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(requestsTo('$process-message')).toHaveLength(0);
+  });
+
+  it('should apply a retried Dispense Notification once', async () => {
+    const [prescription] = await epsService.releasePrescriptions(MOCK_PHARMACY_ODS_CODE, activePrescriptionId);
+    server.injectFault({ delayMs: 1000, path: '$process-message' });
+
+    await epsService.sendDispenseNotification({
+      pharmacyOdsCode: MOCK_PHARMACY_ODS_CODE,
+      items: [{ medicationRequest: prescription }],
+    });
+
+    expect(requestsTo('$process-message')).toHaveLength(2);
+    expect(server.getDispenseState(activePrescriptionId)?.dispenseNotifications).toHaveLength(1);
+  });
+
+  it('should withdraw a Dispense Notification and then return the prescription', async () => {
+    await epsService.dispensePrescription(activePrescriptionId, MOCK_PHARMACY_ODS_CODE);
+
+    await expect(epsService.returnPrescription(activePrescriptionId, MOCK_PHARMACY_ODS_CODE, RETURN_REASONS[0]))
+      .rejects.toMatchObject({ statusCode: 409 });
+
+    await epsService.withdrawDispenseNotification(activePrescriptionId, MOCK_PHARMACY_ODS_CODE, WITHDRAW_REASONS[0]);
+    expect(server.getPrescription(activePrescriptionId)?.status).toBe('active');
+
+    await epsService.returnPrescription(activePrescriptionId, MOCK_PHARMACY_ODS_CODE, RETURN_REASONS[0]);
+    expect(server.getDispenseState(activePrescriptionId)).toBeUndefined();
+  });
+
+  it('should not send an invalid message', async () => {
+    await expect(epsService.returnPrescription(activePrescriptionId, MOCK_PHARMACY_ODS_CODE, { code: 'XX', display: 'Unknown' }))
+      .rejects.toMatchObject({ statusCode: 400, validationErrors: [expect.any(String)] });
+    expect(requestsTo('Task')).toHaveLength(0);
+  });
+
+  it('should reject requests without a token from the token endpoint', async () => {
+    await expect(axios.get(`${baseUrl}${FHIR_BASE_PATH}/MedicationRequest/${activePrescriptionId}`))
+      .rejects.toMatchObject({ response: { status: 401 } });
+  });
+});
@@ -0,0 +1,139 @@
+import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import ControlledDrugService from '@/services/ControlledDrugService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    inventoryItem: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    patient: {
+      findFirst: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/ControlledDrugService', () => ({
+  findRegisterForInventoryItem: jest.fn(),
+  recordSupply: jest.fn(),
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logSystemEvent: jest.fn(),
+}));
+
+const mockTenantPrisma = tenantPrisma as any;
+
+describe('InventoryPrescriptionService', () => {
+  const morphine = {
+    id: 'rx-1',
+    medicationCodeableConcept: { coding: [{ display: 'Morphine sulfate 10mg/5ml oral solution' }] },
+    dispenseRequest: { quantity: { value: 100 } },
+    subject: { reference: 'Patient/9449304130', display: 'Jane Smith' },
+    requester: { display: 'Dr A Jones' },
+  } as any;
+  const morphineItem = { id: 'item-1', name: 'Morphine sulfate 10mg/5ml oral solution', currentStock: 300, cdSchedule: 'SCHEDULE_2' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTenantPrisma.inventoryItem.findMany.mockResolvedValue([morphineItem]);
+    mockTenantPrisma.inventoryItem.update.mockImplementation(({ data }: any) => Promise.resolve({ ...morphineItem, ...data }));
+    (ControlledDrugService.findRegisterForInventoryItem as jest.Mock).mockResolvedValue({ id: 'register-1', currentBalance: 250 });
+    (ControlledDrugService.recordSupply as jest.Mock).mockResolvedValue({ id: 'entry-1' });
+    mockTenantPrisma.patient.findFirst.mockResolvedValue({ id: 'patient-1' });
+  });
+
+  describe('checkControlledDrugSupply', () => {
+    it('should pass when the register can take the supply', async () => {
+      await expect(InventoryPrescriptionService.checkControlledDrugSupply(morphine)).resolves.toBeUndefined();
+      expect(ControlledDrugService.findRegisterForInventoryItem).toHaveBeenCalledWith('item-1');
+    });
+
+    it('should refuse without an open register or enough balance', async () => {
+      (ControlledDrugService.findRegisterForInventoryItem as jest.Mock).mockResolvedValueOnce(null);
+      await expect(InventoryPrescriptionService.checkControlledDrugSupply(morphine))
+        .rejects.toThrow('No controlled drug register is open');
+
+      (ControlledDrugService.findRegisterForInventoryItem as jest.Mock).mockResolvedValueOnce({ id: 'register-1', currentBalance: 99 });
+      await expect(InventoryPrescriptionService.checkControlledDrugSupply(morphine))
+        .rejects.toThrow('balance for Morphine sulfate 10mg/5ml oral solution is lower than the quantity to supply');
+
+      // A partial supply only needs the balance it takes
+      (ControlledDrugService.findRegisterForInventoryItem as jest.Mock).mockResolvedValueOnce({ id: 'register-1', currentBalance: 99 });
+      await expect(InventoryPrescriptionService.checkControlledDrugSupply(morphine, 50)).resolves.toBeUndefined();
+    });
+
+    it('should not look for a register for other items', async () => {
+      mockTenantPrisma.inventoryItem.findMany.mockResolvedValue([{ ...morphineItem, cdSchedule: null }]);
+
+      await InventoryPrescriptionService.checkControlledDrugSupply(morphine);
+
+      expect(ControlledDrugService.findRegisterForInventoryItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateInventoryAfterDispensing', () => {
+    it('should record the supply in the CD register against the dispensing user', async () => {
+      const update = await InventoryPrescriptionService.updateInventoryAfterDispensing(morphine, 'user-1');
+
+      expect(mockTenantPrisma.inventoryItem.update).toHaveBeenCalledWith({ where: { id: 'item-1' }, data: { currentStock: 200 } });
+      expect(ControlledDrugService.recordSupply).toHaveBeenCalledWith('register-1', expect.objectContaining({
+        quantity: 100,
+        prescriptionId: 'rx-1',
+        recordedById: 'user-1',
+      }), mockTenantPrisma);
+      expect(update).toMatchObject({ previousStock: 300, newStock: 200, controlledDrugEntryId: 'entry-1' });
+    });
+
+    it('should record the supply against the pharmacy\'s own patient record', async () => {
+      await InventoryPrescriptionService.updateInventoryAfterDispensing(morphine, 'user-1');
+
+      expect(mockTenantPrisma.patient.findFirst).toHaveBeenCalledWith({
+        where: { OR: [{ nhsNumber: '9449304130' }, { id: '9449304130' }] },
+        select: { id: true },
+      });
+      expect(ControlledDrugService.recordSupply).toHaveBeenCalledWith('register-1', expect.objectContaining({
+        patientId: 'patient-1',
+        patientReference: 'Patient/9449304130',
+      }), mockTenantPrisma);
+
+      // A patient who isn't registered still gets the supply recorded, by reference only
+      mockTenantPrisma.patient.findFirst.mockResolvedValue(null);
+      await InventoryPrescriptionService.updateInventoryAfterDispensing(morphine, 'user-1');
+
+      expect((ControlledDrugService.recordSupply as jest.Mock).mock.calls[1][1]).toMatchObject({
+        patientId: undefined,
+        patientReference: 'Patient/9449304130',
+      });
+    });
+
+    it('should move the stock and write the register entry in one transaction', async () => {
+      (ControlledDrugService.recordSupply as jest.Mock).mockRejectedValue(new Error('Database unavailable'));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(InventoryPrescriptionService.updateInventoryAfterDispensing(morphine, 'user-1'))
+        .rejects.toThrow('Database unavailable');
+
+      // The failed entry rolls the stock change back with it
+      expect(mockTenantPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockTenantPrisma.inventoryItem.update).toHaveBeenCalledTimes(1);
+      expect(ControlledDrugService.recordSupply).toHaveBeenCalledWith('register-1', expect.anything(), mockTenantPrisma);
+
+      consoleError.mockRestore();
+    });
+
+    it('should move the stock in the caller\'s transaction when given one', async () => {
+      const tx = { inventoryItem: { update: jest.fn() } };
+
+      await InventoryPrescriptionService.updateInventoryAfterDispensing(morphine, 'user-1', 16, tx as any);
+
+      expect(mockTenantPrisma.$transaction).not.toHaveBeenCalled();
+      expect(tx.inventoryItem.update).toHaveBeenCalledWith({ where: { id: 'item-1' }, data: { currentStock: 284 } });
+      expect(ControlledDrugService.recordSupply).toHaveBeenCalledWith('register-1', expect.objectContaining({ quantity: 16 }), tx);
+    });
+  });
+});
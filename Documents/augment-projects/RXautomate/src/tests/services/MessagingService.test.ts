@@ -0,0 +1,316 @@
+import MessagingService, {
+  getChannelOrder,
+  isDispatched,
+  renderTemplate,
+  validateTemplate,
+} from '@/services/MessagingService';
+import NotificationService from '@/services/NotificationService';
+import OutboundPolicyService from '@/services/OutboundPolicyService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => ({
+  tenantPrisma: {
+    patientMessage: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    messageTemplate: {
+      findUnique: jest.fn(),
+    },
+    pharmacy: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/services/NotificationService', () => ({
+  sendSMS: jest.fn(),
+  sendEmail: jest.fn(),
+}));
+
+jest.mock('@/services/OutboundPolicyService', () => ({
+  evaluate: jest.fn(),
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logAction: jest.fn(),
+  logPatientAction: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('MessagingService', () => {
+  const patient = {
+    id: 'patient-1',
+    pharmacyId: 'pharmacy-1',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    phoneNumber: '07700900001',
+    email: 'jane@example.com',
+    address: '1 High Street, Leeds',
+    postcode: 'LS1 1AA',
+    preferredChannel: null,
+  };
+
+  const owing = {
+    id: 'owing-1',
+    pharmacyId: 'pharmacy-1',
+    medicationName: 'Amoxicillin 500mg capsules',
+    quantityOwed: 6,
+    unit: 'capsule',
+    pharmacy: { id: 'pharmacy-1', name: 'High Street Pharmacy', phoneNumber: '0113 496 0000' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    let created = 0;
+    mockPrisma.patientMessage.create.mockImplementation(({ data }: any) => ({ id: `message-${++created}`, ...data }));
+    mockPrisma.patientMessage.update.mockImplementation(({ where, data }: any) => ({ id: where.id, ...data }));
+    mockPrisma.pharmacy.findUnique.mockResolvedValue({ organizationId: 'org-1' });
+    mockPrisma.messageTemplate.findUnique.mockResolvedValue(null);
+    (OutboundPolicyService.evaluate as jest.Mock).mockImplementation(
+      async (_patient: any, _purpose: string, channels: string[]) => ({ action: 'send', channels })
+    );
+  });
+
+  describe('templates', () => {
+    it('should fill in placeholders and refuse to send with one missing', () => {
+      expect(renderTemplate('Hello ((firstName)), ((firstName))', { firstName: 'Jane' })).toBe('Hello Jane, Jane');
+      expect(() => renderTemplate('Hello ((firstName)) ((lastName))', { firstName: 'Jane' }))
+        .toThrow('Missing personalisation: lastName');
+    });
+
+    it('should reject placeholders the purpose never fills in, and emails without a subject', () => {
+      expect(validateTemplate('OWING_READY', 'EMAIL', { subject: '', body: 'Your ((prescriptionNumber)) is ready' })).toEqual([
+        'Subject is required for email and letters',
+        'Unknown placeholders: prescriptionNumber',
+      ]);
+      expect(validateTemplate('OWING_READY', 'SMS', { body: '((medicationName)) is ready' })).toEqual([]);
+    });
+  });
+
+  describe('getChannelOrder', () => {
+    it('should try the preferred channel first, then SMS, email and letter', () => {
+      expect(getChannelOrder(patient)).toEqual(['SMS', 'EMAIL', 'LETTER']);
+      expect(getChannelOrder({ ...patient, preferredChannel: 'LETTER' })).toEqual(['LETTER', 'SMS', 'EMAIL']);
+    });
+
+    it('should skip channels the patient has no contact details for', () => {
+      expect(getChannelOrder({ ...patient, phoneNumber: null, preferredChannel: 'SMS' })).toEqual(['EMAIL', 'LETTER']);
+      expect(getChannelOrder({ phoneNumber: null, email: null, address: '', postcode: '' })).toEqual([]);
+    });
+  });
+
+  describe('sendToPatient', () => {
+    it('should send through Notify with the organisation\'s wording and our message ID as the reference', async () => {
+      mockPrisma.messageTemplate.findUnique.mockResolvedValue({
+        body: 'Hi ((firstName)), your ((medicationName)) is in.',
+      });
+      (NotificationService.sendSMS as jest.Mock).mockResolvedValue({ id: 'notify-1' });
+
+      const message = await MessagingService.sendOwingReadyNotification(patient, owing);
+
+      expect(mockPrisma.messageTemplate.findUnique).toHaveBeenCalledWith({
+        where: { organizationId_purpose_channel: { organizationId: 'org-1', purpose: 'OWING_READY', channel: 'SMS' } },
+      });
+      expect(NotificationService.sendSMS).toHaveBeenCalledWith(
+        '07700900001',
+        expect.any(String),
+        { subject: '', body: 'Hi Jane, your Amoxicillin 500mg capsules is in.' },
+        'message-1'
+      );
+      expect(message).toMatchObject({ id: 'message-1', status: 'SENDING', notifyId: 'notify-1' });
+    });
+
+    it('should fall back to email when Notify refuses the SMS', async () => {
+      (NotificationService.sendSMS as jest.Mock).mockRejectedValue(new Error('Not a UK mobile number'));
+      (NotificationService.sendEmail as jest.Mock).mockResolvedValue({ id: 'notify-2' });
+
+      const message = await MessagingService.sendOwingReadyNotification(patient, owing);
+
+      expect(mockPrisma.patientMessage.update).toHaveBeenCalledWith({
+        where: { id: 'message-1' },
+        data: expect.objectContaining({ status: 'FAILED', failureReason: 'Not a UK mobile number' }),
+      });
+      expect(mockPrisma.patientMessage.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          channel: 'EMAIL',
+          recipient: 'jane@example.com',
+          subject: 'The rest of your medicine is ready to collect',
+          fallbackFromId: 'message-1',
+        }),
+      });
+      expect(message).toMatchObject({ id: 'message-2', status: 'SENDING' });
+    });
+
+    it('should queue a letter for a patient without a phone or email', async () => {
+      const message = await MessagingService.sendOwingReadyNotification(
+        { ...patient, title: 'Mrs', phoneNumber: null, email: null },
+        owing
+      );
+
+      expect(NotificationService.sendSMS).not.toHaveBeenCalled();
+      expect(message).toMatchObject({
+        channel: 'LETTER',
+        status: 'QUEUED',
+        recipient: 'Mrs Jane Smith\n1 High Street, Leeds\nLS1 1AA',
+      });
+    });
+
+    it('should record a suppressed message with the policy\'s reason and send nothing', async () => {
+      (OutboundPolicyService.evaluate as jest.Mock).mockResolvedValue({ action: 'suppress', channels: [], reason: 'OPTED_OUT' });
+
+      const message = await MessagingService.sendOwingReadyNotification(patient, owing);
+
+      expect(OutboundPolicyService.evaluate).toHaveBeenCalledWith(
+        patient,
+        'OWING_READY',
+        ['SMS', 'EMAIL', 'LETTER'],
+        'pharmacy-1',
+        { now: undefined, skipCap: false, excludeMessageId: undefined }
+      );
+      expect(NotificationService.sendSMS).not.toHaveBeenCalled();
+      expect(message).toMatchObject({ status: 'SUPPRESSED', suppressionReason: 'OPTED_OUT', channel: null, recipient: null });
+      expect(isDispatched(message)).toBe(false);
+    });
+
+    it('should hold a message until quiet hours end', async () => {
+      const until = new Date('2026-10-15T07:00:00Z');
+      (OutboundPolicyService.evaluate as jest.Mock).mockResolvedValue({ action: 'defer', channels: ['SMS', 'EMAIL'], until });
+
+      const message = await MessagingService.sendOwingReadyNotification(patient, owing);
+
+      expect(NotificationService.sendSMS).not.toHaveBeenCalled();
+      expect(message).toMatchObject({ status: 'DEFERRED', channel: 'SMS', scheduledFor: until });
+      expect(isDispatched(message)).toBe(true);
+    });
+  });
+
+  it('should send held messages once quiet hours are over, in place of the held row', async () => {
+    const now = new Date('2026-10-15T07:00:00Z');
+    mockPrisma.patientMessage.findMany.mockResolvedValue([{
+      id: 'message-7',
+      patientId: 'patient-1',
+      pharmacyId: 'pharmacy-1',
+      purpose: 'OWING_READY',
+      status: 'DEFERRED',
+      personalisation: JSON.stringify({
+        firstName: 'Jane',
+        lastName: 'Smith',
+        pharmacyName: 'High Street Pharmacy',
+        pharmacyPhone: '0113 496 0000',
+        medicationName: 'Amoxicillin 500mg capsules',
+        quantityOwed: '6 capsule',
+      }),
+      fallbackFromId: null,
+      sentById: null,
+      patient,
+    }]);
+    (NotificationService.sendSMS as jest.Mock).mockResolvedValue({ id: 'notify-7' });
+
+    const result = await MessagingService.releaseDeferred(now);
+
+    expect(result).toEqual({ released: 1, sent: 1, deferred: 0, suppressed: 0, failed: 0 });
+    expect(OutboundPolicyService.evaluate).toHaveBeenCalledWith(
+      patient,
+      'OWING_READY',
+      ['SMS', 'EMAIL', 'LETTER'],
+      'pharmacy-1',
+      { now, skipCap: false, excludeMessageId: 'message-7' }
+    );
+    expect(mockPrisma.patientMessage.create).not.toHaveBeenCalled();
+    expect(mockPrisma.patientMessage.update).toHaveBeenCalledWith({
+      where: { id: 'message-7' },
+      data: expect.objectContaining({ channel: 'SMS', status: 'PENDING', scheduledFor: null }),
+    });
+  });
+
+  describe('handleDeliveryReceipt', () => {
+    const sentMessage = (overrides: any = {}) => ({
+      id: 'message-1',
+      patientId: 'patient-1',
+      pharmacyId: 'pharmacy-1',
+      purpose: 'OWING_READY',
+      channel: 'EMAIL',
+      status: 'SENDING',
+      notifyId: 'notify-1',
+      personalisation: JSON.stringify({
+        firstName: 'Jane',
+        lastName: 'Smith',
+        pharmacyName: 'High Street Pharmacy',
+        pharmacyPhone: '0113 496 0000',
+        medicationName: 'Amoxicillin 500mg capsules',
+        quantityOwed: '6 capsule',
+      }),
+      sentById: null,
+      patient,
+      fallbackTo: null,
+      ...overrides,
+    });
+
+    it('should record a delivery', async () => {
+      mockPrisma.patientMessage.findFirst.mockResolvedValue(sentMessage());
+
+      const message = await MessagingService.handleDeliveryReceipt({
+        id: 'notify-1',
+        reference: 'message-1',
+        status: 'delivered',
+        completed_at: '2026-10-14T10:05:00Z',
+      });
+
+      expect(mockPrisma.patientMessage.findFirst.mock.calls[0][0].where).toEqual({
+        OR: [{ notifyId: 'notify-1' }, { id: 'message-1' }],
+      });
+      expect(message).toMatchObject({ status: 'DELIVERED', deliveredAt: new Date('2026-10-14T10:05:00Z') });
+    });
+
+    it('should queue a letter when the email bounces', async () => {
+      mockPrisma.patientMessage.findFirst.mockResolvedValue(sentMessage());
+
+      const message = await MessagingService.handleDeliveryReceipt({ id: 'notify-1', status: 'permanent-failure' });
+
+      expect(message).toMatchObject({ status: 'FAILED', failureReason: 'permanent-failure' });
+      expect(mockPrisma.patientMessage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          channel: 'LETTER',
+          status: 'QUEUED',
+          fallbackFromId: 'message-1',
+          body: expect.stringContaining('The 6 capsule of Amoxicillin 500mg capsules we owed you'),
+        }),
+      });
+    });
+
+    it('should ignore a repeated receipt for a settled message', async () => {
+      mockPrisma.patientMessage.findFirst.mockResolvedValue(sentMessage({ status: 'FAILED' }));
+
+      await MessagingService.handleDeliveryReceipt({ id: 'notify-1', status: 'permanent-failure' });
+
+      expect(mockPrisma.patientMessage.update).not.toHaveBeenCalled();
+      expect(mockPrisma.patientMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a receipt for an unknown message', async () => {
+      mockPrisma.patientMessage.findFirst.mockResolvedValue(null);
+
+      await expect(MessagingService.handleDeliveryReceipt({ id: 'notify-9', status: 'delivered' }))
+        .rejects.toThrow('Message for notification notify-9 not found');
+    });
+  });
+
+  it('should only take queued letters off the queue', async () => {
+    mockPrisma.patientMessage.findUnique.mockResolvedValue({
+      id: 'message-1',
+      pharmacyId: 'pharmacy-1',
+      channel: 'LETTER',
+      status: 'PRINTED',
+    });
+
+    await expect(MessagingService.markLetterPrinted('message-1', 'pharmacy-1', 'user-1'))
+      .rejects.toThrow('Letter message-1 is already printed');
+  });
+});
@@ -0,0 +1,148 @@
+import MfaService, {
+  decryptSecret,
+  encryptSecret,
+  isMfaRequired,
+  normaliseRecoveryCode,
+} from '@/services/MfaService';
+import AuditService from '@/services/AuditService';
+import { hashToken } from '@/services/UserManagementService';
+import { totpCode, totpStep } from '../../lib/totp';
+import { prisma } from '../../lib/db/prisma';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    organization: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}), { virtual: true });
+
+jest.mock('@/services/AuditService', () => ({
+  logAuthenticationAction: jest.fn(),
+}));
+
+jest.mock('@/services/NotificationService', () => ({
+  sendEmail: jest.fn(),
+}));
+
+const mockPrisma = prisma as any;
+
+describe('MfaService', () => {
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  const storedUser = (overrides: any = {}) => ({
+    id: 'user-1',
+    email: 'priya@example.com',
+    role: 'PHARMACY_STAFF',
+    mfaSecret: encryptSecret(secret),
+    mfaEnabledAt: new Date('2026-10-01T09:00:00Z'),
+    mfaRecoveryCodes: [hashToken('abcde12345')],
+    mfaLastUsedStep: null,
+    organization: { mfaRequired: false, mfaRequiredRoles: [] },
+    ...overrides,
+  });
+
+  beforeAll(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should require MFA by platform role, organization or organization role', () => {
+    expect(isMfaRequired({ role: 'ORG_ADMIN' }, ['ORG_ADMIN'])).toBe(true);
+    expect(isMfaRequired({ role: 'PHARMACY_STAFF' }, ['ORG_ADMIN'])).toBe(false);
+    expect(isMfaRequired({ role: 'PHARMACY_STAFF', organization: { mfaRequired: true, mfaRequiredRoles: [] } }, [])).toBe(true);
+    expect(isMfaRequired({ role: 'PHARMACY_ADMIN', organization: { mfaRequired: false, mfaRequiredRoles: ['PHARMACY_ADMIN'] } }, [])).toBe(true);
+  });
+
+  it('should encrypt secrets at rest', () => {
+    const stored = encryptSecret(secret);
+
+    expect(stored).not.toContain(secret);
+    expect(decryptSecret(stored)).toBe(secret);
+    expect(encryptSecret(secret)).not.toBe(stored);
+  });
+
+  it('should only turn MFA on once the user enters a code from their app', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser({ mfaEnabledAt: null, mfaSecret: null }));
+
+    const { secret: newSecret, otpauthUri } = await MfaService.startEnrolment('user-1');
+    expect(otpauthUri).toContain(`secret=${newSecret}`);
+
+    const saved = mockPrisma.user.update.mock.calls[0][0].data.mfaSecret;
+    expect(decryptSecret(saved)).toBe(newSecret);
+
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser({ mfaEnabledAt: null, mfaSecret: saved }));
+    await expect(MfaService.confirmEnrolment('user-1', '000000')).rejects.toThrow('isn\'t right');
+
+    const { recoveryCodes } = await MfaService.confirmEnrolment('user-1', totpCode(newSecret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(mockPrisma.user.update.mock.calls[1][0].data).toMatchObject({
+      mfaEnabledAt: expect.any(Date),
+      mfaLastUsedStep: totpStep(),
+      mfaRecoveryCodes: recoveryCodes.map(code => hashToken(normaliseRecoveryCode(code))),
+    });
+    expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith('MFA_ENROLLED', 'user-1');
+  });
+
+  it('should not accept the same code twice', async () => {
+    const code = totpCode(secret);
+
+    await expect(MfaService.verify(storedUser(), code)).resolves.toBe('totp');
+    expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: totpStep() } }] },
+      data: { mfaLastUsedStep: totpStep() },
+    });
+
+    // Another sign-in that read the user before the code was used
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+    await expect(MfaService.verify(storedUser(), code)).resolves.toBeNull();
+  });
+
+  it('should use up a recovery code', async () => {
+    await expect(MfaService.verify(storedUser(), 'ABCDE-12345')).resolves.toBe('recovery_code');
+
+    expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', mfaRecoveryCodes: { equals: [hashToken('abcde12345')] } },
+      data: { mfaRecoveryCodes: [] },
+    });
+    expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith('MFA_RECOVERY_CODE_USED', 'user-1', { recoveryCodesRemaining: 0 });
+
+    await expect(MfaService.verify(storedUser({ mfaRecoveryCodes: [] }), 'abcde-12345')).resolves.toBeNull();
+
+    // Another sign-in that read the codes before this one was used
+    mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+    await expect(MfaService.verify(storedUser(), 'ABCDE-12345')).resolves.toBeNull();
+    expect(AuditService.logAuthenticationAction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let users turn MFA off when it\'s required', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser({ role: 'ORG_ADMIN' }));
+    await expect(MfaService.disable('user-1', totpCode(secret))).rejects.toThrow('requires two-factor');
+
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser());
+    await MfaService.disable('user-1', totpCode(secret));
+
+    expect(mockPrisma.user.update).toHaveBeenLastCalledWith({
+      where: { id: 'user-1' },
+      data: { mfaSecret: null, mfaEnabledAt: null, mfaRecoveryCodes: [], mfaLastUsedStep: null },
+    });
+  });
+
+  it('should reject unknown roles in an organization\'s policy', async () => {
+    await expect(MfaService.setPolicy('org-1', { mfaRequired: false, mfaRequiredRoles: ['OWNER' as any] }, 'admin-1'))
+      .rejects.toThrow('Unknown role: OWNER');
+    expect(mockPrisma.organization.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MockNotifyServer } from '../../mocks/notify/MockNotifyServer';
+
+// Mock dependencies
+jest.mock('../../services/AuditService', () => ({
+  __esModule: true,
+  default: {
+    logAction: jest.fn(),
+  },
+}));
+
+describe('NotificationService against the mock Notify server', () => {
+  const server = new MockNotifyServer({ callbackToken: 'callback-token' });
+  const receipts: Array<{ authorization?: string; body: any }> = [];
+  let callbackServer: http.Server;
+  let NotificationService: typeof import('../../services/NotificationService').default;
+
+  beforeAll(async () => {
+    await server.start();
+
+    // Stands in for /api/notify/callback
+    callbackServer = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        receipts.push({ authorization: req.headers.authorization, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) });
+        res.writeHead(200).end();
+      });
+    });
+    await new Promise<void>(resolve => callbackServer.listen(0, '127.0.0.1', () => resolve()));
+    server.setCallback(`http://127.0.0.1:${(callbackServer.address() as AddressInfo).port}/`, 'callback-token');
+
+    // The service reads its base URL when first loaded
+    process.env.NOTIFY_API_BASE_URL = server.apiUrl!;
+    process.env.SMS_API_KEY = 'test-api-key';
+    NotificationService = require('../../services/NotificationService').default;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    callbackServer.closeAllConnections();
+    await new Promise<void>(resolve => callbackServer.close(() => resolve()));
+    delete process.env.NOTIFY_API_BASE_URL;
+    delete process.env.SMS_API_KEY;
+  });
+
+  beforeEach(() => {
+    server.reset();
+    receipts.length = 0;
+  });
+
+  it('should send an SMS with our reference', async () => {
+    const response = await NotificationService.sendSMS(
+      '07700900001',
+      'sms-template-id',
+      { subject: '', body: 'Your prescription is ready' },
+      'message-1'
+    );
+
+    expect(server.getNotifications()).toEqual([expect.objectContaining({
+      id: response.id,
+      reference: 'message-1',
+      type: 'sms',
+      to: '07700900001',
+      personalisation: { subject: '', body: 'Your prescription is ready' },
+      status: 'sending',
+    })]);
+  });
+
+  it('should raise Notify\'s error when a send is refused', async () => {
+    server.setOutcome({ recipient: 'bad@example.com', reject: 400, message: 'email_address Not a valid email address' });
+
+    await expect(NotificationService.sendEmail('bad@example.com', 'email-template-id', { subject: 'Hi', body: 'Hi' }))
+      .rejects.toThrow('email_address Not a valid email address');
+    expect(server.getNotifications()).toHaveLength(0);
+  });
+
+  it('should post a delivery receipt to the callback with the callback token', async () => {
+    server.setOutcome({ recipient: 'jane@example.com', status: 'permanent-failure' });
+    const response = await NotificationService.sendEmail(
+      'jane@example.com',
+      'email-template-id',
+      { subject: 'Ready', body: 'Your prescription is ready' },
+      'message-2'
+    );
+
+    await server.deliverAll();
+
+    expect(receipts).toEqual([{
+      authorization: 'Bearer callback-token',
+      body: expect.objectContaining({
+        id: response.id,
+        reference: 'message-2',
+        to: 'jane@example.com',
+        status: 'permanent-failure',
+        notification_type: 'email',
+      }),
+    }]);
+  });
+});
@@ -1,27 +1,14 @@
 import axios from 'axios';
-import NotificationService, { InAppNotification } from '@/services/NotificationService';
+import NotificationService from '@/services/NotificationService';
 import AuditService from '@/services/AuditService';
 
 // Mock dependencies
 jest.mock('axios');
 jest.mock('@/services/AuditService');
 
-// Mock localStorage for browser environment
-const localStorageMock = (() => {
-  let store: Record<string, string> = {};
-  return {
-    getItem: (key: string) => store[key] || null,
-    setItem: (key: string, value: string) => { store[key] = value.toString(); },
-    clear: () => { store = {}; },
-  };
-})();
-Object.defineProperty(global, 'localStorage', { value: localStorageMock });
-
 describe('NotificationService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
-    localStorageMock.clear();
-    localStorageMock.setItem('pharmacyOdsCode', 'F1234');
   });
 
   describe('External Notifications', () => {
@@ -92,164 +79,83 @@ describe('NotificationService', () => {
       expect(result).toEqual(mockResponse.data);
       expect(AuditService.logAction).toHaveBeenCalled();
     });
-
-    it('should send prescription reminders', async () => {
-      // Mock patient and prescription data
-      const patient = {
-        id: 'patient-id',
-        firstName: 'John',
-        lastName: 'Smith',
-        phoneNumber: '07700900000',
-        email: 'john@example.com',
-      };
-
-      const prescription = {
-        id: 'prescription-id',
-        prescriptionNumber: 'RX12345',
-        expiryDate: new Date('2023-12-31'),
-        pharmacy: {
-          name: 'Test Pharmacy',
-          phoneNumber: '01234567890',
-        },
-      };
-
-      // Mock sendSMS method
-      const sendSMSSpy = jest.spyOn(NotificationService, 'sendSMS').mockResolvedValue({
-        id: 'notification-id',
-        contentType: 'sms',
-        status: 'created',
-        createdAt: new Date().toISOString(),
-      });
-
-      // Call the service
-      await NotificationService.sendPrescriptionReminder(patient, prescription);
-
-      // Assertions
-      expect(sendSMSSpy).toHaveBeenCalledWith(
-        '07700900000',
-        expect.any(String),
-        expect.objectContaining({
-          firstName: 'John',
-          lastName: 'Smith',
-          prescriptionNumber: 'RX12345',
-        })
-      );
-    });
   });
 
   describe('In-App Notifications', () => {
-    it('should create and retrieve in-app notifications', () => {
-      // Create a notification
-      const prescription = {
-        id: 'prescription-id',
-        medicationReference: { display: 'Test Medication' },
-      };
-
-      // Call the service
-      NotificationService.notifyPrescriptionStatusUpdate(
-        prescription as any,
-        'active',
-        'completed'
-      );
-
-      // Get notifications
-      const notifications = NotificationService.getNotifications();
-
-      // Assertions
-      expect(notifications.length).toBe(1);
-      expect(notifications[0].type).toBe('update');
-      expect(notifications[0].prescriptionId).toBe('prescription-id');
-      expect(notifications[0].read).toBe(false);
+    // Minimal EventSource that lets the test send events
+    class MockEventSource {
+      static instances: MockEventSource[] = [];
+      listeners: Record<string, (event: any) => void> = {};
+      onerror: (() => void) | null = null;
+      close = jest.fn();
+
+      constructor(public url: string) {
+        MockEventSource.instances.push(this);
+      }
+
+      addEventListener(type: string, listener: (event: any) => void) {
+        this.listeners[type] = listener;
+      }
+    }
+
+    const notification = {
+      id: 'notification-1',
+      type: 'update',
+      title: 'Prescription Status Updated',
+      message: 'Prescription for Test Medication changed from active to completed.',
+      prescriptionId: 'prescription-id',
+      read: false,
+      priority: 'low',
+    };
+
+    beforeEach(() => {
+      MockEventSource.instances = [];
+      (global as any).EventSource = MockEventSource;
+      (global as any).fetch = jest.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(notification) });
     });
 
-    it('should mark notifications as read', () => {
-      // Create a notification
-      const prescription = {
-        id: 'prescription-id',
-        medicationReference: { display: 'Test Medication' },
-      };
-
-      NotificationService.notifyPrescriptionStatusUpdate(
-        prescription as any,
-        'active',
-        'completed'
-      );
+    it('should fetch notifications announced on the stream and notify listeners', async () => {
+      const listener = jest.fn();
+      NotificationService.addListener(listener);
+      NotificationService.connect('FA565');
 
-      // Get the notification ID
-      const notifications = NotificationService.getNotifications();
-      const notificationId = notifications[0].id;
+      const [source] = MockEventSource.instances;
+      expect(source.url).toBe('/api/prescriptions/pharmacy/FA565/events');
 
-      // Mark as read
-      NotificationService.markAsRead(notificationId);
+      await source.listeners.notification({ data: JSON.stringify({ id: 'notification-1' }) });
 
-      // Get notifications again
-      const updatedNotifications = NotificationService.getNotifications();
+      expect(global.fetch).toHaveBeenCalledWith('/api/notifications/notification-1');
+      expect(listener).toHaveBeenCalledWith(notification);
 
-      // Assertions
-      expect(updatedNotifications[0].read).toBe(true);
+      NotificationService.removeListener(listener);
+      NotificationService.disconnect();
     });
 
-    it('should mark all notifications as read', () => {
-      // Create multiple notifications
-      const prescription1 = {
-        id: 'prescription-1',
-        medicationReference: { display: 'Medication 1' },
-      };
-
-      const prescription2 = {
-        id: 'prescription-2',
-        medicationReference: { display: 'Medication 2' },
-      };
-
-      NotificationService.notifyPrescriptionStatusUpdate(
-        prescription1 as any,
-        'active',
-        'completed'
-      );
-
-      NotificationService.notifyPrescriptionStatusUpdate(
-        prescription2 as any,
-        'active',
-        'cancelled'
-      );
+    it('should not notify listeners of notifications for someone else', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+      const listener = jest.fn();
+      NotificationService.addListener(listener);
+      NotificationService.connect('FA565');
 
-      // Mark all as read
-      NotificationService.markAllAsRead();
+      await MockEventSource.instances[0].listeners.notification({ data: JSON.stringify({ id: 'notification-2' }) });
 
-      // Get notifications
-      const notifications = NotificationService.getNotifications();
+      expect(listener).not.toHaveBeenCalled();
 
-      // Assertions
-      expect(notifications.length).toBe(2);
-      expect(notifications[0].read).toBe(true);
-      expect(notifications[1].read).toBe(true);
+      NotificationService.removeListener(listener);
+      NotificationService.disconnect();
     });
 
-    it('should notify listeners when a new notification is created', () => {
-      // Create a listener
-      const listener = jest.fn();
-      NotificationService.addListener(listener);
+    it('should share one connection until every component disconnects', () => {
+      NotificationService.connect('FA565');
+      NotificationService.connect('FA565');
 
-      // Create a notification
-      const prescription = {
-        id: 'prescription-id',
-        medicationReference: { display: 'Test Medication' },
-      };
+      expect(MockEventSource.instances).toHaveLength(1);
 
-      NotificationService.notifyPrescriptionStatusUpdate(
-        prescription as any,
-        'active',
-        'completed'
-      );
+      NotificationService.disconnect();
+      expect(MockEventSource.instances[0].close).not.toHaveBeenCalled();
 
-      // Assertions
-      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
-        type: 'update',
-        prescriptionId: 'prescription-id',
-      }));
-
-      // Remove the listener
-      NotificationService.removeListener(listener);
+      NotificationService.disconnect();
+      expect(MockEventSource.instances[0].close).toHaveBeenCalled();
     });
   });
 
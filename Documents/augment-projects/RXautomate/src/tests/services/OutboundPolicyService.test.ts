@@ -0,0 +1,182 @@
+import OutboundPolicyService, {
+  normaliseRecipient,
+  parseKeyword,
+  quietHoursEndAfter,
+  validatePolicy,
+} from '@/services/OutboundPolicyService';
+import AuditService from '@/services/AuditService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => ({
+  tenantPrisma: {
+    consent: {
+      findFirst: jest.fn(),
+    },
+    messageOptOut: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    patientMessage: {
+      count: jest.fn(),
+    },
+    pharmacy: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logAction: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('OutboundPolicyService', () => {
+  const patient = {
+    id: 'patient-1',
+    phoneNumber: '07700 900001',
+    email: 'Jane@Example.com',
+    address: '1 High Street, Leeds',
+    postcode: 'LS1 1AA',
+  };
+
+  // 10:00 and 22:30 in October are 09:00 and 21:30 UTC (BST)
+  const morning = new Date('2026-10-14T09:00:00Z');
+  const evening = new Date('2026-10-14T21:30:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockPrisma.consent.findFirst.mockResolvedValue({ consentGiven: true, expiryDate: null });
+    mockPrisma.messageOptOut.findMany.mockResolvedValue([]);
+    mockPrisma.patientMessage.count.mockResolvedValue(0);
+    mockPrisma.pharmacy.findUnique.mockResolvedValue({ quietHoursStart: null, quietHoursEnd: null, maxMessagesPerWeek: null });
+  });
+
+  describe('helpers', () => {
+    it('should match phone numbers however they were written', () => {
+      expect(normaliseRecipient('SMS', '07700 900001')).toBe('447700900001');
+      expect(normaliseRecipient('SMS', '+44 7700 900001')).toBe('447700900001');
+      expect(normaliseRecipient('EMAIL', ' Jane@Example.com ')).toBe('jane@example.com');
+    });
+
+    it('should read STOP and START from the first word of a reply', () => {
+      expect(parseKeyword('stop')).toBe('OPT_OUT');
+      expect(parseKeyword('STOP please')).toBe('OPT_OUT');
+      expect(parseKeyword('Start')).toBe('OPT_IN');
+      expect(parseKeyword('Thanks, will collect tomorrow')).toBeNull();
+    });
+
+    it('should find the end of quiet hours that run past midnight', () => {
+      expect(quietHoursEndAfter(morning, '21:00', '08:00')).toBeNull();
+      expect(quietHoursEndAfter(evening, '21:00', '08:00')).toEqual(new Date('2026-10-15T07:00:00Z'));
+      expect(quietHoursEndAfter(new Date('2026-10-15T05:15:00Z'), '21:00', '08:00')).toEqual(new Date('2026-10-15T07:00:00Z'));
+      expect(quietHoursEndAfter(new Date('2026-10-14T12:30:00Z'), '13:00', '14:00')).toEqual(new Date('2026-10-14T13:00:00Z'));
+      expect(quietHoursEndAfter(new Date('2026-10-14T11:30:00Z'), '13:00', '14:00')).toBeNull();
+    });
+
+    it('should reject malformed quiet hours and caps', () => {
+      expect(validatePolicy({ quietHoursStart: '9pm', quietHoursEnd: '08:00', maxMessagesPerWeek: 0 })).toEqual([
+        'quietHoursStart must be a time such as 21:00',
+        'maxMessagesPerWeek must be a whole number of at least 1',
+      ]);
+      expect(validatePolicy({ quietHoursStart: '21:00', quietHoursEnd: null })).toEqual(['Quiet hours need both a start and an end']);
+      expect(validatePolicy({ quietHoursStart: '21:00', quietHoursEnd: '08:00', maxMessagesPerWeek: 5 })).toEqual([]);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should let a message go when everything allows it', async () => {
+      const decision = await OutboundPolicyService.evaluate(patient, 'OWING_READY', ['SMS', 'EMAIL'], 'pharmacy-1', { now: morning });
+
+      expect(decision).toEqual({ action: 'send', channels: ['SMS', 'EMAIL'] });
+      expect(mockPrisma.consent.findFirst).toHaveBeenCalledWith({
+        where: { patientId: 'patient-1', consentType: 'REMINDER' },
+        orderBy: { consentDate: 'desc' },
+      });
+    });
+
+    it('should suppress without consent, after it is withdrawn and once it expires', async () => {
+      mockPrisma.consent.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.consent.findFirst.mockResolvedValueOnce({ consentGiven: false, expiryDate: null });
+      mockPrisma.consent.findFirst.mockResolvedValueOnce({ consentGiven: true, expiryDate: new Date('2026-10-01') });
+
+      const reasons: Array<string | undefined> = [];
+      for (let i = 0; i < 3; i++) {
+        reasons.push((await OutboundPolicyService.evaluate(patient, 'PRESCRIPTION_READY', ['SMS'], 'pharmacy-1', { now: morning })).reason);
+      }
+
+      expect(reasons).toEqual(['NO_CONSENT', 'CONSENT_WITHDRAWN', 'CONSENT_EXPIRED']);
+    });
+
+    it('should not need consent to ask for consent', async () => {
+      mockPrisma.consent.findFirst.mockResolvedValue(null);
+
+      const decision = await OutboundPolicyService.evaluate(patient, 'CONSENT_REQUEST', ['SMS'], 'pharmacy-1', { now: morning });
+
+      expect(decision).toEqual({ action: 'send', channels: ['SMS'] });
+      expect(mockPrisma.consent.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should skip a number that replied STOP, and suppress when nothing is left', async () => {
+      mockPrisma.messageOptOut.findMany.mockResolvedValue([{ channel: 'SMS', recipient: '447700900001' }]);
+
+      await expect(OutboundPolicyService.evaluate(patient, 'OWING_READY', ['SMS', 'LETTER'], 'pharmacy-1', { now: morning }))
+        .resolves.toEqual({ action: 'send', channels: ['LETTER'] });
+      expect(mockPrisma.messageOptOut.findMany).toHaveBeenCalledWith({
+        where: { OR: [{ channel: 'SMS', recipient: '447700900001' }] },
+      });
+
+      await expect(OutboundPolicyService.evaluate(patient, 'OWING_READY', ['SMS'], 'pharmacy-1', { now: morning }))
+        .resolves.toEqual({ action: 'suppress', channels: [], reason: 'OPTED_OUT' });
+    });
+
+    it('should suppress once the pharmacy\'s weekly cap is reached, except for fallbacks', async () => {
+      mockPrisma.pharmacy.findUnique.mockResolvedValue({ quietHoursStart: null, quietHoursEnd: null, maxMessagesPerWeek: 2 });
+      mockPrisma.patientMessage.count.mockResolvedValue(2);
+
+      await expect(OutboundPolicyService.evaluate(patient, 'OWING_READY', ['SMS'], 'pharmacy-1', { now: morning }))
+        .resolves.toEqual({ action: 'suppress', channels: [], reason: 'FREQUENCY_CAP' });
+      expect(mockPrisma.patientMessage.count.mock.calls[0][0].where).toMatchObject({
+        patientId: 'patient-1',
+        fallbackFromId: null,
+        createdAt: { gte: new Date('2026-10-07T09:00:00Z') },
+      });
+
+      await expect(OutboundPolicyService.evaluate(patient, 'OWING_READY', ['EMAIL'], 'pharmacy-1', { now: morning, skipCap: true }))
+        .resolves.toEqual({ action: 'send', channels: ['EMAIL'] });
+    });
+
+    it('should hold SMS and email in quiet hours but not letters', async () => {
+      mockPrisma.pharmacy.findUnique.mockResolvedValue({ quietHoursStart: '22:00', quietHoursEnd: '07:30', maxMessagesPerWeek: null });
+
+      await expect(OutboundPolicyService.evaluate(patient, 'OWING_READY', ['SMS', 'EMAIL'], 'pharmacy-1', { now: evening }))
+        .resolves.toEqual({ action: 'defer', channels: ['SMS', 'EMAIL'], until: new Date('2026-10-15T06:30:00Z') });
+      await expect(OutboundPolicyService.evaluate(patient, 'OWING_READY', ['LETTER'], 'pharmacy-1', { now: evening }))
+        .resolves.toEqual({ action: 'send', channels: ['LETTER'] });
+    });
+  });
+
+  describe('recordReply', () => {
+    it('should opt a number out on STOP and back in on START', async () => {
+      await expect(OutboundPolicyService.recordReply('+447700900001', 'STOP')).resolves.toBe('OPT_OUT');
+      expect(mockPrisma.messageOptOut.upsert).toHaveBeenCalledWith({
+        where: { channel_recipient: { channel: 'SMS', recipient: '447700900001' } },
+        create: { channel: 'SMS', recipient: '447700900001', keyword: 'STOP' },
+        update: {},
+      });
+      expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'MESSAGE_OPT_OUT' }));
+
+      await expect(OutboundPolicyService.recordReply('07700900001', 'start')).resolves.toBe('OPT_IN');
+      expect(mockPrisma.messageOptOut.deleteMany).toHaveBeenCalledWith({ where: { channel: 'SMS', recipient: '447700900001' } });
+    });
+
+    it('should ignore other replies', async () => {
+      await expect(OutboundPolicyService.recordReply('07700900001', 'Thank you')).resolves.toBeNull();
+      expect(mockPrisma.messageOptOut.upsert).not.toHaveBeenCalled();
+      expect(AuditService.logAction).not.toHaveBeenCalled();
+    });
+  });
+});
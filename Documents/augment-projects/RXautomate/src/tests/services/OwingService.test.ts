@@ -0,0 +1,337 @@
+import OwingService, { allocateStock, planPartialDispense } from '@/services/OwingService';
+import EPSService from '@/services/EPSService';
+import InventoryPrescriptionService from '@/services/InventoryPrescriptionService';
+import MessagingService from '@/services/MessagingService';
+import ClaimService from '@/services/ClaimService';
+import ControlledDrugService from '@/services/ControlledDrugService';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { defaultMedicationRequests } from '../../mocks/eps/fixtures';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    owing: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    wholesalerOrder: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    inventoryItem: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    patient: {
+      findFirst: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logPrescriptionAction: jest.fn(),
+}));
+
+jest.mock('@/services/EPSService', () => ({
+  getPrescription: jest.fn(),
+  dispensePrescription: jest.fn(),
+  releasePrescriptions: jest.fn(),
+  sendDispenseNotification: jest.fn(),
+}));
+
+jest.mock('@/services/InventoryPrescriptionService', () => ({
+  checkControlledDrugSupply: jest.fn(),
+  updateInventoryAfterDispensing: jest.fn(),
+}));
+
+jest.mock('@/services/MessagingService', () => ({
+  ...jest.requireActual('@/services/MessagingService'),
+  __esModule: true,
+  default: {
+    sendOwingReadyNotification: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/ClaimService', () => ({
+  createClaim: jest.fn(),
+}));
+
+jest.mock('@/services/ControlledDrugService', () => ({
+  findRegisterForInventoryItem: jest.fn(),
+  recordReceipt: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('OwingService', () => {
+  const [amoxicillin] = defaultMedicationRequests();
+  const inventoryItem = {
+    id: 'item-1',
+    pharmacyId: 'pharmacy-1',
+    name: 'Amoxicillin 500mg capsules',
+    supplier: 'Alliance',
+    currentStock: 5,
+    reorderQuantity: 100,
+  };
+  const input = {
+    pharmacyId: 'pharmacy-1',
+    pharmacyOdsCode: 'FA565',
+    inventoryItemId: 'item-1',
+    currentStock: 5,
+    userId: 'user-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.inventoryItem.findUnique.mockResolvedValue(inventoryItem);
+    mockPrisma.owing.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'owing-1', ...data }));
+    mockPrisma.owing.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+  });
+
+  describe('planPartialDispense', () => {
+    it('should supply what is in stock and owe the balance', () => {
+      expect(planPartialDispense(21, 5)).toEqual({ quantityPrescribed: 21, quantitySupplied: 5, quantityOwed: 16 });
+      expect(planPartialDispense(21, 0)).toEqual({ quantityPrescribed: 21, quantitySupplied: 0, quantityOwed: 21 });
+      expect(planPartialDispense(21, 30).quantityOwed).toBe(0);
+    });
+  });
+
+  describe('allocateStock', () => {
+    it('should cover the oldest owings first and skip ones that do not fit', () => {
+      const owings = [
+        { id: 'a', quantityOwed: 10 },
+        { id: 'b', quantityOwed: 20 },
+        { id: 'c', quantityOwed: 5 },
+      ];
+
+      expect(allocateStock(owings, 16)).toEqual(['a', 'c']);
+      expect(allocateStock(owings, 0)).toEqual([]);
+    });
+  });
+
+  describe('dispensePartially', () => {
+    it('should send a partial Dispense Notification and owe the balance on a new wholesaler order', async () => {
+      mockPrisma.wholesalerOrder.findFirst.mockResolvedValue(null);
+      mockPrisma.wholesalerOrder.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'order-1', expectedDeliveryDate: null, ...data }));
+
+      const result = await OwingService.dispensePartially(amoxicillin, input);
+
+      expect(EPSService.dispensePrescription).toHaveBeenCalledWith(amoxicillin.id, 'FA565', { status: 'partial', quantity: 5 });
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).toHaveBeenCalledWith(amoxicillin, 'user-1', 5);
+      expect(mockPrisma.wholesalerOrder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ inventoryItemId: 'item-1', wholesaler: 'Alliance', quantity: 100 }),
+      });
+      expect(result.owing).toMatchObject({
+        prescriptionId: amoxicillin.id,
+        nhsNumber: '9449304130',
+        quantitySupplied: 5,
+        quantityOwed: 16,
+        wholesalerOrderId: 'order-1',
+      });
+      expect(result.owing.promisedDate.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not dispense in EPS when the controlled drug register can\'t take the supply', async () => {
+      (InventoryPrescriptionService.checkControlledDrugSupply as jest.Mock)
+        .mockRejectedValueOnce(new Error('No controlled drug register is open for Morphine'));
+
+      await expect(OwingService.dispensePartially(amoxicillin, input)).rejects.toThrow('No controlled drug register is open');
+
+      expect(InventoryPrescriptionService.checkControlledDrugSupply).toHaveBeenCalledWith(amoxicillin, 5);
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+      expect(mockPrisma.owing.create).not.toHaveBeenCalled();
+    });
+
+    it('should record the owing before EPS, and cancel it when EPS doesn\'t take the dispense', async () => {
+      mockPrisma.wholesalerOrder.findFirst.mockResolvedValue({ id: 'order-1', status: 'PLACED', expectedDeliveryDate: null });
+      mockPrisma.owing.findUnique.mockResolvedValue({ id: 'owing-1', pharmacyId: 'pharmacy-1', prescriptionId: amoxicillin.id, status: 'OUTSTANDING' });
+      (EPSService.dispensePrescription as jest.Mock).mockImplementationOnce(() => {
+        expect(mockPrisma.owing.create).toHaveBeenCalled();
+        return Promise.reject(new Error('EPS unavailable'));
+      });
+
+      await expect(OwingService.dispensePartially(amoxicillin, input)).rejects.toThrow('EPS unavailable');
+
+      expect(mockPrisma.owing.update).toHaveBeenCalledWith({ where: { id: 'owing-1' }, data: { status: 'CANCELLED' } });
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).not.toHaveBeenCalled();
+    });
+
+    it('should keep the owing when EPS has the dispense but the stock update fails', async () => {
+      mockPrisma.wholesalerOrder.findFirst.mockResolvedValue({ id: 'order-1', status: 'PLACED', expectedDeliveryDate: null });
+      (InventoryPrescriptionService.updateInventoryAfterDispensing as jest.Mock)
+        .mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await expect(OwingService.dispensePartially(amoxicillin, input)).rejects.toThrow('Database unavailable');
+
+      expect(mockPrisma.owing.create).toHaveBeenCalled();
+      expect(mockPrisma.owing.update).not.toHaveBeenCalled();
+    });
+
+    it('should only release the prescription when nothing is in stock, and top up a pending order', async () => {
+      mockPrisma.wholesalerOrder.findFirst.mockResolvedValue({
+        id: 'order-1',
+        status: 'PENDING',
+        quantity: 20,
+        expectedDeliveryDate: new Date('2026-10-20T00:00:00Z'),
+      });
+      mockPrisma.owing.aggregate.mockResolvedValue({ _sum: { quantityOwed: 10 } });
+      mockPrisma.wholesalerOrder.update.mockImplementation(({ where, data }: any) =>
+        Promise.resolve({ id: where.id, status: 'PENDING', expectedDeliveryDate: new Date('2026-10-20T00:00:00Z'), ...data }));
+
+      const result = await OwingService.dispensePartially(amoxicillin, { ...input, currentStock: 0 });
+
+      expect(EPSService.releasePrescriptions).toHaveBeenCalledWith('FA565', amoxicillin.id);
+      expect(EPSService.dispensePrescription).not.toHaveBeenCalled();
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).not.toHaveBeenCalled();
+      expect(mockPrisma.wholesalerOrder.update).toHaveBeenCalledWith({ where: { id: 'order-1' }, data: { quantity: 31 } });
+      expect(result.owing.promisedDate).toEqual(new Date('2026-10-20T00:00:00Z'));
+    });
+  });
+
+  describe('receiveWholesalerOrder', () => {
+    it('should add the delivery to stock and notify patients whose owings it covers', async () => {
+      const patient = { id: 'patient-1', firstName: 'Jane', phoneNumber: '07700900000' };
+      mockPrisma.wholesalerOrder.findUnique.mockResolvedValue({ id: 'order-1', pharmacyId: 'pharmacy-1', inventoryItemId: 'item-1', status: 'PLACED' });
+      mockPrisma.wholesalerOrder.update.mockResolvedValue({ id: 'order-1', status: 'DELIVERED' });
+      mockPrisma.inventoryItem.findUnique.mockResolvedValue({ ...inventoryItem, currentStock: 30 });
+      mockPrisma.owing.findMany
+        .mockResolvedValueOnce([{ id: 'ready', quantityOwed: 10 }])
+        .mockResolvedValueOnce([
+          { id: 'a', quantityOwed: 16 },
+          { id: 'b', quantityOwed: 8 },
+        ]);
+      mockPrisma.owing.update.mockImplementation(({ where, data }: any) => Promise.resolve({
+        id: where.id,
+        pharmacyId: 'pharmacy-1',
+        nhsNumber: '9449304130',
+        quantityOwed: 16,
+        pharmacy: { name: 'High Street Pharmacy' },
+        ...data,
+      }));
+      mockPrisma.patient.findFirst.mockResolvedValue(patient);
+      (MessagingService.sendOwingReadyNotification as jest.Mock).mockResolvedValue({ id: 'message-1', status: 'SENDING' });
+
+      const result = await OwingService.receiveWholesalerOrder('order-1', 'pharmacy-1', 25, 'user-1');
+
+      expect(mockPrisma.inventoryItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { currentStock: { increment: 25 } },
+      });
+      // 30 in stock less 10 set aside for a ready owing covers only the first
+      expect(result.readyOwings).toHaveLength(1);
+      expect(result.readyOwings[0]).toMatchObject({ id: 'a', notifiedAt: expect.any(Date) });
+      expect(MessagingService.sendOwingReadyNotification).toHaveBeenCalledWith(patient, expect.objectContaining({ id: 'a' }));
+    });
+
+    it('should enter a controlled drug delivery in its CD register with the stock', async () => {
+      mockPrisma.wholesalerOrder.findUnique.mockResolvedValue({
+        id: 'order-1',
+        pharmacyId: 'pharmacy-1',
+        inventoryItemId: 'item-1',
+        wholesaler: 'Alliance',
+        orderReference: 'ALL-123',
+        status: 'PLACED',
+      });
+      mockPrisma.wholesalerOrder.update.mockResolvedValue({ id: 'order-1', status: 'DELIVERED' });
+      mockPrisma.inventoryItem.findUnique.mockResolvedValue({ ...inventoryItem, cdSchedule: 'SCHEDULE_2' });
+      mockPrisma.owing.findMany.mockResolvedValue([]);
+      (ControlledDrugService.findRegisterForInventoryItem as jest.Mock).mockResolvedValue({ id: 'register-1' });
+
+      await OwingService.receiveWholesalerOrder('order-1', 'pharmacy-1', 25, 'user-1', 'INV-9');
+
+      expect(ControlledDrugService.recordReceipt).toHaveBeenCalledWith('register-1', {
+        quantity: 25,
+        supplierName: 'Alliance',
+        invoiceNumber: 'INV-9',
+        wholesalerOrderId: 'order-1',
+        recordedById: 'user-1',
+      }, mockPrisma);
+    });
+
+    it('should not take in controlled drug stock without an open register', async () => {
+      mockPrisma.wholesalerOrder.findUnique.mockResolvedValue({ id: 'order-1', pharmacyId: 'pharmacy-1', inventoryItemId: 'item-1', status: 'PLACED' });
+      mockPrisma.inventoryItem.findUnique.mockResolvedValue({ ...inventoryItem, cdSchedule: 'SCHEDULE_2' });
+      (ControlledDrugService.findRegisterForInventoryItem as jest.Mock).mockResolvedValue(null);
+
+      await expect(OwingService.receiveWholesalerOrder('order-1', 'pharmacy-1', 25))
+        .rejects.toThrow('No controlled drug register is open');
+      expect(mockPrisma.inventoryItem.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an order that has already been delivered', async () => {
+      mockPrisma.wholesalerOrder.findUnique.mockResolvedValue({ id: 'order-1', pharmacyId: 'pharmacy-1', status: 'DELIVERED' });
+
+      await expect(OwingService.receiveWholesalerOrder('order-1', 'pharmacy-1', 25))
+        .rejects.toThrow('already delivered');
+    });
+  });
+
+  describe('fulfilOwing', () => {
+    const owing = {
+      id: 'owing-1',
+      pharmacyId: 'pharmacy-1',
+      prescriptionId: amoxicillin.id,
+      pharmacyOdsCode: 'FA565',
+      quantityOwed: 16,
+      status: 'READY',
+    };
+
+    beforeEach(() => {
+      mockPrisma.owing.findUnique.mockResolvedValue(owing);
+      mockPrisma.owing.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.owing.findUniqueOrThrow.mockResolvedValue({ ...owing, status: 'FULFILLED' });
+      (EPSService.getPrescription as jest.Mock).mockResolvedValue(amoxicillin);
+      (ClaimService.createClaim as jest.Mock).mockResolvedValue({ id: 'claim-1' });
+    });
+
+    it('should send the final Dispense Notification for the balance and record the claim', async () => {
+      const result = await OwingService.fulfilOwing('owing-1', 'pharmacy-1', 'user-1', { exemptionCategory: 'A' });
+
+      expect(EPSService.sendDispenseNotification).toHaveBeenCalledWith({
+        pharmacyOdsCode: 'FA565',
+        items: [{ medicationRequest: amoxicillin, status: 'dispensed', quantity: 16 }],
+      });
+      // The stock moves with the owing, and only while it is still open
+      expect(mockPrisma.owing.updateMany).toHaveBeenCalledWith({
+        where: { id: 'owing-1', status: { in: ['OUTSTANDING', 'READY'] } },
+        data: { status: 'FULFILLED', fulfilledAt: expect.any(Date), fulfilledById: 'user-1' },
+      });
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).toHaveBeenCalledWith(amoxicillin, 'user-1', 16, mockPrisma);
+      expect(ClaimService.createClaim).toHaveBeenCalledWith('pharmacy-1', amoxicillin, { exemptionCategory: 'A', userId: 'user-1' });
+      expect(result).toMatchObject({ owing: { status: 'FULFILLED' }, claimId: 'claim-1' });
+    });
+
+    it('should not deduct stock when EPS doesn\'t take the Dispense Notification', async () => {
+      (EPSService.sendDispenseNotification as jest.Mock).mockRejectedValueOnce(new Error('EPS unavailable'));
+
+      await expect(OwingService.fulfilOwing('owing-1', 'pharmacy-1', 'user-1')).rejects.toThrow('EPS unavailable');
+      expect(mockPrisma.owing.updateMany).not.toHaveBeenCalled();
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).not.toHaveBeenCalled();
+    });
+
+    it('should not deduct stock for an owing fulfilled in the meantime', async () => {
+      mockPrisma.owing.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(OwingService.fulfilOwing('owing-1', 'pharmacy-1', 'user-1')).rejects.toThrow('no longer open');
+      expect(InventoryPrescriptionService.updateInventoryAfterDispensing).not.toHaveBeenCalled();
+      expect(ClaimService.createClaim).not.toHaveBeenCalled();
+    });
+
+    it('should not fulfil another pharmacy\'s owing', async () => {
+      mockPrisma.owing.findUnique.mockResolvedValue({ id: 'owing-1', pharmacyId: 'pharmacy-2', status: 'READY' });
+
+      await expect(OwingService.fulfilOwing('owing-1', 'pharmacy-1', 'user-1')).rejects.toThrow('not found');
+      expect(EPSService.sendDispenseNotification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import PrescriptionEventService, { findNewAndExpiring, WATCH_INTERVAL_MS } from '@/services/PrescriptionEventService';
+import EPSService from '@/services/EPSService';
+import StaffNotificationService from '@/services/StaffNotificationService';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { defaultMedicationRequests } from '../../mocks/eps/fixtures';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => ({
+  tenantPrisma: {
+    pharmacy: {
+      findUnique: jest.fn(),
+    },
+  },
+  runAsSystem: (fn: any) => fn(),
+}));
+
+jest.mock('@/services/EPSService', () => ({
+  getPharmacyPrescriptions: jest.fn(),
+  clearPharmacyCache: jest.fn(),
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logSystemEvent: jest.fn(),
+}));
+
+jest.mock('@/services/StaffNotificationService', () => ({
+  ...jest.requireActual('@/services/StaffNotificationService'),
+  __esModule: true,
+  default: { createNotification: jest.fn() },
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+const bundle = (resources: any[]) => ({ entry: resources.map(resource => ({ resource })) });
+
+// Let pending promise callbacks run
+const flush = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+describe('PrescriptionEventService', () => {
+  const [amoxicillin, other] = defaultMedicationRequests();
+  const since = new Date('2026-10-14T09:00:00Z');
+  const now = new Date('2026-10-14T10:00:00Z');
+
+  const written = (prescription: any, authoredOn: string) => ({ ...prescription, authoredOn });
+  const expiring = (prescription: any, end: string) => ({
+    ...prescription,
+    authoredOn: '2026-09-01T09:00:00+00:00',
+    dispenseRequest: { ...prescription.dispenseRequest, validityPeriod: { start: '2026-09-01', end } },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.pharmacy.findUnique.mockResolvedValue({ id: 'pharmacy-1', odsCode: 'FA565' });
+    (StaffNotificationService.createNotification as jest.Mock).mockResolvedValue({ id: 'notification-1' });
+  });
+
+  describe('findNewAndExpiring', () => {
+    it('should only report prescriptions written after the cursor', () => {
+      const result = findNewAndExpiring([
+        written(amoxicillin, '2026-10-14T09:30:00Z'),
+        written(other, '2026-10-14T08:00:00Z'),
+      ], since, now);
+
+      expect(result.newPrescriptions.map(p => p.id)).toEqual([amoxicillin.id]);
+    });
+
+    it('should report a prescription once, when it enters the warning window', () => {
+      // Warning window opens 7 days before the end
+      const entering = expiring(amoxicillin, '2026-10-21T09:30:00Z');
+      const alreadyWarned = expiring(other, '2026-10-20T09:00:00Z');
+
+      expect(findNewAndExpiring([entering, alreadyWarned], since, now, 7).expiringPrescriptions).toEqual([entering]);
+    });
+  });
+
+  describe('checkNew', () => {
+    it('should read fresh active prescriptions and return the next cursor', async () => {
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([written(amoxicillin, '2026-10-14T09:30:00Z')]));
+
+      const result = await PrescriptionEventService.checkNew('FA565', since, now);
+
+      expect(EPSService.clearPharmacyCache).toHaveBeenCalledWith('FA565');
+      expect(EPSService.getPharmacyPrescriptions).toHaveBeenCalledWith('FA565', { status: 'active' });
+      expect(result.newPrescriptions).toHaveLength(1);
+      expect(result.cursor).toBe(now.toISOString());
+    });
+  });
+
+  describe('subscribe', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should share one watcher per pharmacy and report prescriptions it has not seen', async () => {
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([amoxicillin]));
+      const first = jest.fn();
+      const second = jest.fn();
+
+      const unsubscribeFirst = PrescriptionEventService.subscribe('FA565', first);
+      const unsubscribeSecond = PrescriptionEventService.subscribe('FA565', second);
+      await flush();
+
+      // The first check only learns what is already there
+      expect(EPSService.getPharmacyPrescriptions).toHaveBeenCalledTimes(1);
+      expect(first).not.toHaveBeenCalled();
+
+      // Arrives late, with an older date written
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([amoxicillin, written(other, '2026-01-01T09:00:00Z')]));
+      jest.advanceTimersByTime(WATCH_INTERVAL_MS);
+      await flush();
+
+      expect(EPSService.getPharmacyPrescriptions).toHaveBeenCalledTimes(2);
+      for (const listener of [first, second]) {
+        expect(listener).toHaveBeenCalledWith({
+          type: 'prescriptions',
+          data: expect.objectContaining({ newPrescriptions: [expect.objectContaining({ id: other.id })] }),
+        });
+        expect(listener).toHaveBeenCalledWith({ type: 'notification', data: { id: 'notification-1' } });
+      }
+      expect(StaffNotificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        pharmacyId: 'pharmacy-1',
+        type: 'new',
+        message: '1 new prescription received.',
+      }));
+
+      unsubscribeFirst();
+      unsubscribeSecond();
+      jest.advanceTimersByTime(WATCH_INTERVAL_MS);
+      await flush();
+
+      expect(EPSService.getPharmacyPrescriptions).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('publishStatusChange', () => {
+    it('should publish to the pharmacy by its ODS code and tell the team', async () => {
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([]));
+      const listener = jest.fn();
+      const unsubscribe = PrescriptionEventService.subscribe('FA565', listener);
+
+      await PrescriptionEventService.publishStatusChange('pharmacy-1', { ...amoxicillin, status: 'completed' }, 'active');
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith({
+        type: 'status',
+        data: expect.objectContaining({ oldStatus: 'active', newStatus: 'completed' }),
+      });
+      expect(StaffNotificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        pharmacyId: 'pharmacy-1',
+        type: 'update',
+        prescriptionId: amoxicillin.id,
+      }));
+    });
+
+    it('should not publish for a pharmacy without an ODS code', async () => {
+      mockPrisma.pharmacy.findUnique.mockResolvedValue({ id: 'pharmacy-1', odsCode: null });
+      const publish = jest.spyOn(PrescriptionEventService, 'publish');
+
+      await PrescriptionEventService.publishStatusChange('pharmacy-1', amoxicillin, 'active');
+
+      expect(publish).not.toHaveBeenCalled();
+      publish.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import PrescriptionSyncService, { mapEpsStatus, resolveStatus, buildPrescriptionItem, SYNC_MAX_ATTEMPTS } from '@/services/PrescriptionSyncService';
+import EPSService from '@/services/EPSService';
+import NHSSpineService from '@/services/NHSSpineService';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { defaultMedicationRequests } from '../../mocks/eps/fixtures';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    pharmacy: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    prescriptionSyncCursor: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    prescriptionSyncFailure: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    prescription: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    patient: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logSystemEvent: jest.fn(),
+}));
+
+jest.mock('@/services/EPSService', () => ({
+  getPharmacyPrescriptions: jest.fn(),
+  getPrescription: jest.fn(),
+  clearPharmacyCache: jest.fn(),
+  clearPrescriptionCache: jest.fn(),
+}));
+
+jest.mock('@/services/NHSSpineService', () => ({
+  getPatientByNhsNumber: jest.fn(),
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+const bundle = (resources: any[]) => ({ entry: resources.map(resource => ({ resource })) });
+
+describe('PrescriptionSyncService', () => {
+  const [amoxicillin, ...others] = defaultMedicationRequests();
+  const now = new Date('2026-10-14T10:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.pharmacy.findUnique.mockResolvedValue({ id: 'pharmacy-1', name: 'High Street Pharmacy', odsCode: 'FA565' });
+    mockPrisma.prescriptionSyncCursor.findUnique.mockResolvedValue(null);
+    mockPrisma.prescription.findUnique.mockResolvedValue(null);
+    mockPrisma.prescription.findMany.mockResolvedValue([]);
+    mockPrisma.patient.findUnique.mockResolvedValue({ id: 'patient-1' });
+    mockPrisma.prescriptionSyncFailure.findMany.mockResolvedValue([]);
+    mockPrisma.prescriptionSyncFailure.upsert.mockImplementation(({ create }: any) => Promise.resolve({ id: 'failure-1', ...create, attempts: 1, deadLetteredAt: null }));
+  });
+
+  describe('status mapping', () => {
+    it('should map EPS statuses onto local ones', () => {
+      expect(mapEpsStatus('active', null, now)).toBe('PENDING');
+      expect(mapEpsStatus('active', new Date('2026-01-01'), now)).toBe('EXPIRED');
+      expect(mapEpsStatus('completed')).toBe('DISPENSED');
+      expect(mapEpsStatus('cancelled')).toBe('CANCELLED');
+    });
+
+    it('should keep local progress EPS does not know about', () => {
+      expect(resolveStatus('COLLECTED', 'DISPENSED')).toBe('COLLECTED');
+      expect(resolveStatus('PROCESSING', 'PENDING')).toBe('PROCESSING');
+      expect(resolveStatus('PROCESSING', 'CANCELLED')).toBe('CANCELLED');
+    });
+  });
+
+  it('should build the item from the MedicationRequest', () => {
+    expect(buildPrescriptionItem(amoxicillin)).toMatchObject({
+      medicationCode: '39732311000001104',
+      quantity: 21,
+    });
+  });
+
+  describe('syncPharmacy', () => {
+    it('should create new prescriptions and move the cursor to the latest dateWritten', async () => {
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([amoxicillin]));
+
+      const result = await PrescriptionSyncService.syncPharmacy('pharmacy-1', now);
+
+      expect(EPSService.getPharmacyPrescriptions).toHaveBeenCalledWith('FA565', expect.not.objectContaining({ dateWrittenFrom: expect.anything() }));
+      expect(mockPrisma.prescription.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          epsPrescriptionId: amoxicillin.id,
+          epsStatus: 'active',
+          status: 'PENDING',
+          patientId: 'patient-1',
+          pharmacyId: 'pharmacy-1',
+        }),
+      });
+      expect(result).toMatchObject({ created: 1, updated: 0, errors: [] });
+      expect(result.cursor).toEqual(new Date(amoxicillin.authoredOn));
+      expect(mockPrisma.prescriptionSyncCursor.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: expect.objectContaining({ lastDateWritten: new Date(amoxicillin.authoredOn), lastSuccessAt: now, lastError: null }),
+      }));
+    });
+
+    it('should fetch from the stored cursor and apply upstream status changes', async () => {
+      const cursor = new Date('2026-09-01T00:00:00Z');
+      mockPrisma.prescriptionSyncCursor.findUnique.mockResolvedValue({ lastDateWritten: cursor });
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([{ ...amoxicillin, status: 'cancelled' }]));
+      mockPrisma.prescription.findUnique.mockResolvedValue({ id: 'local-1', status: 'PENDING', epsStatus: 'active' });
+
+      const result = await PrescriptionSyncService.syncPharmacy('pharmacy-1', now);
+
+      expect((EPSService.getPharmacyPrescriptions as jest.Mock).mock.calls[0][1]).toMatchObject({ dateWrittenFrom: cursor.toISOString() });
+      expect(mockPrisma.prescription.update).toHaveBeenCalledWith({
+        where: { id: 'local-1' },
+        data: { status: 'CANCELLED', epsStatus: 'cancelled', lastSyncedAt: now },
+      });
+      expect(result.updated).toBe(1);
+    });
+
+    it('should register unknown patients from PDS', async () => {
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([amoxicillin]));
+      mockPrisma.patient.findUnique.mockResolvedValue(null);
+      mockPrisma.patient.create.mockResolvedValue({ id: 'patient-2' });
+      (NHSSpineService.getPatientByNhsNumber as jest.Mock).mockResolvedValue({
+        name: [{ use: 'usual', family: 'Smith', given: ['Jane'] }],
+        birthDate: '1980-05-01',
+        address: [{ use: 'home', line: ['1 High Street', 'Leeds'], postalCode: 'LS1 1AA' }],
+        telecom: [{ system: 'phone', value: '07700900000', use: 'mobile' }],
+      });
+
+      await PrescriptionSyncService.syncPharmacy('pharmacy-1', now);
+
+      expect(mockPrisma.patient.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          nhsNumber: '9449304130',
+          firstName: 'Jane',
+          lastName: 'Smith',
+          address: '1 High Street, Leeds',
+          phoneNumber: '07700900000',
+          pharmacyId: 'pharmacy-1',
+        }),
+      });
+    });
+
+    it('should record a prescription that failed and still move the cursor on', async () => {
+      const later = { ...others[0], id: 'later', authoredOn: '2026-10-10T09:00:00+00:00' };
+      const failing = { ...amoxicillin, authoredOn: '2026-10-01T09:00:00+00:00' };
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([failing, later]));
+      mockPrisma.patient.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'patient-1' });
+      (NHSSpineService.getPatientByNhsNumber as jest.Mock).mockRejectedValue(new Error('PDS unavailable'));
+
+      const result = await PrescriptionSyncService.syncPharmacy('pharmacy-1', now);
+
+      expect(result.created).toBe(1);
+      expect(result.errors).toEqual([{ prescriptionId: amoxicillin.id, error: 'PDS unavailable' }]);
+      expect(result.cursor).toEqual(new Date(later.authoredOn));
+      expect(mockPrisma.prescriptionSyncFailure.upsert).toHaveBeenCalledWith({
+        where: { pharmacyId_epsPrescriptionId: { pharmacyId: 'pharmacy-1', epsPrescriptionId: amoxicillin.id } },
+        create: {
+          pharmacyId: 'pharmacy-1',
+          epsPrescriptionId: amoxicillin.id,
+          dateWritten: new Date(failing.authoredOn),
+          lastError: 'PDS unavailable',
+          lastAttemptAt: now,
+        },
+        update: { attempts: { increment: 1 }, lastError: 'PDS unavailable', lastAttemptAt: now },
+      });
+      // A run with errors isn't a success
+      const cursorUpsert = mockPrisma.prescriptionSyncCursor.upsert.mock.calls[0][0];
+      expect(cursorUpsert.update).toMatchObject({ lastDateWritten: new Date(later.authoredOn), lastError: 'PDS unavailable' });
+      expect(cursorUpsert.update).not.toHaveProperty('lastSuccessAt');
+      expect(cursorUpsert.create.lastSuccessAt).toBeNull();
+    });
+
+    it('should retry earlier failures and clear the ones that now store', async () => {
+      mockPrisma.prescriptionSyncFailure.findMany.mockResolvedValue([
+        { id: 'failure-1', epsPrescriptionId: amoxicillin.id, dateWritten: new Date(amoxicillin.authoredOn), attempts: 2 },
+      ]);
+      (EPSService.getPrescription as jest.Mock).mockResolvedValue(amoxicillin);
+      // The search returns it again; it isn't stored twice
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([amoxicillin]));
+
+      const result = await PrescriptionSyncService.syncPharmacy('pharmacy-1', now);
+
+      expect(EPSService.clearPrescriptionCache).toHaveBeenCalledWith(amoxicillin.id);
+      expect(mockPrisma.prescription.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.prescriptionSyncFailure.delete).toHaveBeenCalledWith({ where: { id: 'failure-1' } });
+      expect(result).toMatchObject({ created: 1, retried: 1, errors: [] });
+    });
+
+    it('should dead-letter a prescription that keeps failing', async () => {
+      mockPrisma.prescriptionSyncFailure.findMany.mockResolvedValue([
+        { id: 'failure-1', epsPrescriptionId: amoxicillin.id, dateWritten: new Date(amoxicillin.authoredOn), attempts: SYNC_MAX_ATTEMPTS - 1 },
+      ]);
+      mockPrisma.prescriptionSyncFailure.upsert.mockResolvedValue({ id: 'failure-1', attempts: SYNC_MAX_ATTEMPTS, deadLetteredAt: null });
+      (EPSService.getPrescription as jest.Mock).mockRejectedValue(new Error('Prescription not found'));
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([]));
+
+      const result = await PrescriptionSyncService.syncPharmacy('pharmacy-1', now);
+
+      expect(mockPrisma.prescriptionSyncFailure.update).toHaveBeenCalledWith({
+        where: { id: 'failure-1' },
+        data: { deadLetteredAt: now },
+      });
+      expect(result).toMatchObject({ retried: 0, deadLettered: 1 });
+      expect(result.errors).toEqual([{ prescriptionId: amoxicillin.id, error: 'Prescription not found' }]);
+    });
+
+    it('should re-check open prescriptions the search did not return', async () => {
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockResolvedValue(bundle([]));
+      mockPrisma.prescription.findMany.mockResolvedValue([{ id: 'local-1', epsPrescriptionId: 'old-1', status: 'PENDING' }]);
+      (EPSService.getPrescription as jest.Mock).mockResolvedValue({ ...amoxicillin, id: 'old-1', status: 'completed' });
+      mockPrisma.prescription.findUnique.mockResolvedValue({ id: 'local-1', status: 'PENDING', epsStatus: 'active' });
+
+      const result = await PrescriptionSyncService.syncPharmacy('pharmacy-1', now);
+
+      expect(EPSService.clearPrescriptionCache).toHaveBeenCalledWith('old-1');
+      expect(mockPrisma.prescription.update).toHaveBeenCalledWith({
+        where: { id: 'local-1' },
+        data: { status: 'DISPENSED', epsStatus: 'completed', lastSyncedAt: now },
+      });
+      expect(result.rechecked).toBe(1);
+    });
+
+    it('should record the error and keep the cursor when EPS fails', async () => {
+      (EPSService.getPharmacyPrescriptions as jest.Mock).mockRejectedValue(new Error('Service unavailable'));
+
+      await expect(PrescriptionSyncService.syncPharmacy('pharmacy-1', now)).rejects.toThrow('Service unavailable');
+      expect(mockPrisma.prescriptionSyncCursor.upsert).toHaveBeenCalledWith({
+        where: { pharmacyId: 'pharmacy-1' },
+        create: { pharmacyId: 'pharmacy-1', pharmacyOdsCode: 'FA565', lastRunAt: now, lastError: 'Service unavailable' },
+        update: { lastRunAt: now, lastError: 'Service unavailable' },
+      });
+    });
+  });
+});
@@ -1,13 +1,31 @@
-import { describe, it, expect, jest, beforeEach } from '@jest/globals';
-import { PrescriptionValidationService, ValidationResult } from '../../services/PrescriptionValidationService';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrescriptionValidationService, ValidationResult, findTherapeuticDuplicates } from '../../services/PrescriptionValidationService';
+import AuditService from '../../services/AuditService';
 
 // Mock dependencies
+jest.mock('../../services/SCRService', () => ({
+  __esModule: true,
+  default: {},
+  SCRService: jest.fn(),
+}));
+
+jest.mock('../../services/AuditService', () => ({
+  logAction: jest.fn(),
+}));
+
 const mockPrisma = {
   prescription: {
     findUnique: jest.fn(),
+    findMany: jest.fn(),
   },
-  auditLog: {
-    create: jest.fn(),
+  validationRuleConfig: {
+    findMany: jest.fn(),
+  },
+  pharmacy: {
+    findUnique: jest.fn(),
+  },
+  organization: {
+    findUnique: jest.fn(),
   },
 };
 
@@ -19,6 +37,10 @@ const mockNotificationService = {
   sendNotification: jest.fn(),
 };
 
+const mockSCRService = {
+  getPatientMedications: jest.fn(),
+};
+
 describe('PrescriptionValidationService', () => {
   let validationService: PrescriptionValidationService;
   
@@ -30,14 +52,21 @@ describe('PrescriptionValidationService', () => {
     validationService = new PrescriptionValidationService(
       mockPrisma as any,
       mockEPSService as any,
-      mockNotificationService as any
+      mockNotificationService as any,
+      mockSCRService as any
     );
     
     // Mock the private methods for testing
-    (validationService as any).simulateDrugInteractionCheck = jest.fn();
-    (validationService as any).simulateDosageCheck = jest.fn();
-    (validationService as any).simulateAllergyCheck = jest.fn();
-    (validationService as any).simulateContraindicationCheck = jest.fn();
+    (validationService as any).lookupDrugInteractions = jest.fn();
+    (validationService as any).lookupDoseRange = jest.fn();
+    (validationService as any).lookupAllergens = jest.fn();
+    (validationService as any).lookupContraindications = jest.fn();
+    (validationService as any).knowledgeBase.findTherapeuticClasses = jest.fn().mockResolvedValue({});
+    mockPrisma.prescription.findMany.mockResolvedValue([]);
+    mockPrisma.validationRuleConfig.findMany.mockResolvedValue([]);
+    mockPrisma.pharmacy.findUnique.mockResolvedValue(null);
+    mockPrisma.organization.findUnique.mockResolvedValue(null);
+    mockSCRService.getPatientMedications.mockResolvedValue([]);
   });
   
   describe('validatePrescription', () => {
@@ -62,22 +91,22 @@ describe('PrescriptionValidationService', () => {
       
       // Set up the mock returns
       mockPrisma.prescription.findUnique.mockResolvedValue(mockPrescription);
-      (validationService as any).simulateDrugInteractionCheck.mockResolvedValue({
+      (validationService as any).lookupDrugInteractions.mockResolvedValue({
         hasInteractions: false,
         severity: 'NONE',
         description: '',
         interactingWith: []
       });
-      (validationService as any).simulateDosageCheck.mockResolvedValue({
+      (validationService as any).lookupDoseRange.mockResolvedValue({
         isAppropriate: true,
         severity: 'NONE',
         description: ''
       });
-      (validationService as any).simulateAllergyCheck.mockResolvedValue({
+      (validationService as any).lookupAllergens.mockResolvedValue({
         hasAllergy: false,
         allergen: null
       });
-      (validationService as any).simulateContraindicationCheck.mockResolvedValue({
+      (validationService as any).lookupContraindications.mockResolvedValue({
         hasContraindication: false,
         condition: null,
         severity: 'NONE'
@@ -91,7 +120,10 @@ describe('PrescriptionValidationService', () => {
       expect(result.isValid).toBe(true);
       expect(result.severity).toBe('NONE');
       expect(result.issues).toHaveLength(0);
-      expect(mockPrisma.auditLog.create).toHaveBeenCalled();
+      expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'PRESCRIPTION_VALIDATION',
+        prescriptionId: 'test-prescription-id',
+      }));
     });
     
     it('should detect drug interactions and return invalid result', async () => {
@@ -115,22 +147,22 @@ describe('PrescriptionValidationService', () => {
       
       // Set up the mock returns
       mockPrisma.prescription.findUnique.mockResolvedValue(mockPrescription);
-      (validationService as any).simulateDrugInteractionCheck.mockResolvedValue({
+      (validationService as any).lookupDrugInteractions.mockResolvedValue({
         hasInteractions: true,
         severity: 'HIGH',
         description: 'Increased risk of bleeding when warfarin is combined with aspirin',
         interactingWith: ['Aspirin']
       });
-      (validationService as any).simulateDosageCheck.mockResolvedValue({
+      (validationService as any).lookupDoseRange.mockResolvedValue({
         isAppropriate: true,
         severity: 'NONE',
         description: ''
       });
-      (validationService as any).simulateAllergyCheck.mockResolvedValue({
+      (validationService as any).lookupAllergens.mockResolvedValue({
         hasAllergy: false,
         allergen: null
       });
-      (validationService as any).simulateContraindicationCheck.mockResolvedValue({
+      (validationService as any).lookupContraindications.mockResolvedValue({
         hasContraindication: false,
         condition: null,
         severity: 'NONE'
@@ -145,7 +177,10 @@ describe('PrescriptionValidationService', () => {
       expect(result.severity).toBe('HIGH');
       expect(result.issues).toHaveLength(1);
       expect(result.issues[0].type).toBe('DRUG_INTERACTION');
-      expect(mockPrisma.auditLog.create).toHaveBeenCalled();
+      expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'PRESCRIPTION_VALIDATION',
+        prescriptionId: 'test-prescription-id',
+      }));
     });
     
     it('should send a notification when critical issues are found', async () => {
@@ -169,22 +204,22 @@ describe('PrescriptionValidationService', () => {
       
       // Set up the mock returns
       mockPrisma.prescription.findUnique.mockResolvedValue(mockPrescription);
-      (validationService as any).simulateDrugInteractionCheck.mockResolvedValue({
+      (validationService as any).lookupDrugInteractions.mockResolvedValue({
         hasInteractions: false,
         severity: 'NONE',
         description: '',
         interactingWith: []
       });
-      (validationService as any).simulateDosageCheck.mockResolvedValue({
+      (validationService as any).lookupDoseRange.mockResolvedValue({
         isAppropriate: true,
         severity: 'NONE',
         description: ''
       });
-      (validationService as any).simulateAllergyCheck.mockResolvedValue({
+      (validationService as any).lookupAllergens.mockResolvedValue({
         hasAllergy: true,
         allergen: 'Penicillin'
       });
-      (validationService as any).simulateContraindicationCheck.mockResolvedValue({
+      (validationService as any).lookupContraindications.mockResolvedValue({
         hasContraindication: false,
         condition: null,
         severity: 'NONE'
@@ -200,7 +235,130 @@ describe('PrescriptionValidationService', () => {
       expect(result.issues).toHaveLength(1);
       expect(result.issues[0].type).toBe('ALLERGY');
       expect(mockNotificationService.sendNotification).toHaveBeenCalled();
-      expect(mockPrisma.auditLog.create).toHaveBeenCalled();
+      expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'PRESCRIPTION_VALIDATION',
+        prescriptionId: 'test-prescription-id',
+      }));
+    });
+
+    describe('with pharmacy rule configuration', () => {
+      const mockPrescription = {
+        id: 'test-prescription-id',
+        prescriptionNumber: 'RX12345',
+        patientId: 'test-patient-id',
+        pharmacyId: 'pharmacy-1',
+        pharmacy: { organizationId: 'org-1' },
+        medications: [
+          { id: 'med1', name: 'Warfarin', dosage: '5mg' }
+        ],
+        patient: {
+          id: 'test-patient-id',
+          age: 65,
+          allergies: [{ substance: 'Penicillin' }],
+          medications: [{ name: 'Aspirin' }],
+          conditions: []
+        }
+      };
+
+      beforeEach(() => {
+        mockPrisma.prescription.findUnique.mockResolvedValue(mockPrescription);
+        (validationService as any).lookupDrugInteractions.mockResolvedValue({
+          hasInteractions: true,
+          severity: 'HIGH',
+          description: 'Increased risk of bleeding',
+          interactingWith: ['Aspirin']
+        });
+        (validationService as any).lookupDoseRange.mockResolvedValue({ isAppropriate: true });
+        (validationService as any).lookupAllergens.mockResolvedValue({ hasAllergy: true, allergen: 'Penicillin' });
+        (validationService as any).lookupContraindications.mockResolvedValue({ hasContraindication: false });
+      });
+
+      it('should skip rules the pharmacy has disabled', async () => {
+        mockPrisma.validationRuleConfig.findMany.mockResolvedValue([
+          { ruleId: 'allergies', organizationId: 'org-1', pharmacyId: null, enabled: false, severity: null }
+        ]);
+
+        const result = await validationService.validatePrescription('test-prescription-id');
+
+        expect((validationService as any).lookupAllergens).not.toHaveBeenCalled();
+        expect(result.issues.map(issue => issue.type)).toEqual(['DRUG_INTERACTION']);
+      });
+
+      it('should let the pharmacy override the organization\'s severity', async () => {
+        mockPrisma.validationRuleConfig.findMany.mockResolvedValue([
+          { ruleId: 'drug-interactions', organizationId: 'org-1', pharmacyId: null, enabled: null, severity: 'MEDIUM' },
+          { ruleId: 'drug-interactions', organizationId: null, pharmacyId: 'pharmacy-1', enabled: null, severity: 'CRITICAL' }
+        ]);
+
+        const result = await validationService.validatePrescription('test-prescription-id');
+        const interaction = result.issues.find(issue => issue.type === 'DRUG_INTERACTION');
+
+        expect(interaction?.severity).toBe('CRITICAL');
+      });
+
+      it('should run rules registered by other modules', async () => {
+        validationService.registerRule({
+          id: 'item-count',
+          type: 'INAPPROPRIATE_DOSAGE',
+          name: 'Item count',
+          description: 'Reports how many items are on the prescription',
+          defaultSeverity: 'LOW',
+          enabledByDefault: true,
+          check: async (prescription, issues) => {
+            issues.push({
+              type: 'INAPPROPRIATE_DOSAGE',
+              severity: 'LOW',
+              description: `${prescription.medications.length} items`,
+              medications: []
+            });
+          }
+        });
+
+        const result = await validationService.validatePrescription('test-prescription-id');
+
+        expect(result.issues[result.issues.length - 1].description).toBe('1 items');
+      });
+    });
+  });
+
+  describe('findTherapeuticDuplicates', () => {
+    const classes = {
+      omeprazole: ['proton pump inhibitors'],
+      lansoprazole: ['proton pump inhibitors'],
+      ibuprofen: ['nsaids'],
+      naproxen: ['nsaids'],
+    };
+
+    it('should flag two drugs from the same class on one prescription', () => {
+      const duplicates = findTherapeuticDuplicates(
+        [{ name: 'Omeprazole 20mg capsules', source: 'PRESCRIPTION' }, { name: 'Lansoprazole 30mg capsules', source: 'PRESCRIPTION' }],
+        [],
+        classes
+      );
+
+      expect(duplicates).toHaveLength(1);
+      expect(duplicates[0].therapeuticClass).toBe('proton pump inhibitors');
+    });
+
+    it('should flag a class shared with a medication on the Summary Care Record', () => {
+      const duplicates = findTherapeuticDuplicates(
+        [{ name: 'Ibuprofen 400mg tablets', source: 'PRESCRIPTION' }],
+        [{ name: 'Naproxen 500mg tablets', source: 'SCR' }],
+        classes
+      );
+
+      expect(duplicates[0].description).toContain('the Summary Care Record');
+      expect(duplicates[0].medications).toEqual(['Ibuprofen 400mg tablets', 'Naproxen 500mg tablets']);
+    });
+
+    it('should not flag the same drug already on an active prescription', () => {
+      const duplicates = findTherapeuticDuplicates(
+        [{ name: 'Omeprazole 20mg capsules', source: 'PRESCRIPTION' }],
+        [{ name: 'Omeprazole 20mg capsules', source: 'ACTIVE_PRESCRIPTION' }],
+        classes
+      );
+
+      expect(duplicates).toHaveLength(0);
     });
   });
 });
@@ -0,0 +1,270 @@
+import RepeatDispensingService, {
+  getEndOfWeek,
+  getNextReleaseDate,
+  validateScheduleInput,
+} from '@/services/RepeatDispensingService';
+import MessagingService from '@/services/MessagingService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    prescription: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    repeatSchedule: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    repeatIssue: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+jest.mock('@/services/AuditService', () => ({
+  logPrescriptionAction: jest.fn(),
+}));
+
+jest.mock('@/services/MessagingService', () => ({
+  ...jest.requireActual('@/services/MessagingService'),
+  __esModule: true,
+  default: {
+    sendPrescriptionReminder: jest.fn(),
+  },
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('RepeatDispensingService', () => {
+  const now = new Date('2026-10-14T10:00:00'); // A Wednesday
+
+  const schedule = (overrides: any = {}) => ({
+    id: 'schedule-1',
+    pharmacyId: 'pharmacy-1',
+    prescriptionId: 'prescription-1',
+    authorisedIssues: 6,
+    issueIntervalDays: 28,
+    status: 'ACTIVE',
+    prescription: { id: 'prescription-1', expiryDate: null },
+    ...overrides,
+  });
+
+  const issue = (overrides: any = {}) => ({
+    id: 'issue-2',
+    scheduleId: 'schedule-1',
+    issueNumber: 2,
+    earliestReleaseDate: new Date('2026-10-12T00:00:00'),
+    status: 'AVAILABLE',
+    releasedAt: new Date('2026-10-12T06:00:00'),
+    schedule: schedule(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.repeatIssue.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+    mockPrisma.repeatIssue.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'issue-next', ...data }));
+  });
+
+  describe('validateScheduleInput', () => {
+    it('should require at least two issues within twelve months', () => {
+      expect(validateScheduleInput({ authorisedIssues: 6, issueIntervalDays: 28 })).toEqual([]);
+      expect(validateScheduleInput({ authorisedIssues: 1, issueIntervalDays: 28 }))
+        .toEqual(['Authorised issues must be a whole number from 2 to 26']);
+      expect(validateScheduleInput({ authorisedIssues: 14, issueIntervalDays: 56 }))
+        .toEqual(['The authorised issues must fit within 12 months']);
+    });
+  });
+
+  describe('date helpers', () => {
+    it('should count the interval from the previous dispensing', () => {
+      expect(getNextReleaseDate(now, 28)).toEqual(new Date('2026-11-11T00:00:00'));
+    });
+
+    it('should end the week on Sunday night', () => {
+      expect(getEndOfWeek(now)).toEqual(new Date('2026-10-18T23:59:59.999'));
+      expect(getEndOfWeek(new Date('2026-10-18T09:00:00'))).toEqual(new Date('2026-10-18T23:59:59.999'));
+    });
+  });
+
+  describe('createSchedule', () => {
+    it('should only accept REPEAT prescriptions', async () => {
+      mockPrisma.prescription.findUnique.mockResolvedValue({ id: 'prescription-1', pharmacyId: 'pharmacy-1', prescriptionType: 'NHS' });
+
+      await expect(RepeatDispensingService.createSchedule('prescription-1', 'pharmacy-1', { authorisedIssues: 6, issueIntervalDays: 28 }))
+        .rejects.toThrow('Only REPEAT prescriptions');
+    });
+
+    it('should schedule the first issue from the issued date', async () => {
+      const issuedDate = new Date('2026-10-01T00:00:00');
+      mockPrisma.prescription.findUnique.mockResolvedValue({
+        id: 'prescription-1',
+        pharmacyId: 'pharmacy-1',
+        prescriptionType: 'REPEAT',
+        issuedDate,
+        repeatSchedule: null,
+      });
+      mockPrisma.repeatSchedule.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'schedule-1', ...data }));
+
+      await RepeatDispensingService.createSchedule('prescription-1', 'pharmacy-1', { authorisedIssues: 6, issueIntervalDays: 28 });
+
+      expect(mockPrisma.repeatSchedule.create.mock.calls[0][0].data.issues).toEqual({
+        create: { issueNumber: 1, earliestReleaseDate: issuedDate },
+      });
+    });
+  });
+
+  describe('getDispensableIssue', () => {
+    // The schedule as found by the prescription's EPS ID, with its open issue
+    const scheduleWithIssue = (issueOverrides: any = {}, overrides: any = {}) => {
+      const { schedule: _schedule, ...openIssue } = issue(issueOverrides);
+      return schedule({ issues: [openIssue], ...overrides });
+    };
+
+    it('should find the open issue of a prescription on repeat dispensing', async () => {
+      mockPrisma.repeatSchedule.findFirst.mockResolvedValue(scheduleWithIssue());
+
+      const result = await RepeatDispensingService.getDispensableIssue('eps-1', 'pharmacy-1', now);
+
+      expect(mockPrisma.repeatSchedule.findFirst.mock.calls[0][0].where).toEqual({ prescription: { epsPrescriptionId: 'eps-1' } });
+      expect(result).toMatchObject({ id: 'issue-2', issueNumber: 2, schedule: { id: 'schedule-1', prescription: { id: 'prescription-1' } } });
+    });
+
+    it('should leave prescriptions that aren\'t on repeat dispensing alone', async () => {
+      mockPrisma.repeatSchedule.findFirst.mockResolvedValue(null);
+
+      await expect(RepeatDispensingService.getDispensableIssue('eps-1', 'pharmacy-1', now)).resolves.toBeNull();
+    });
+
+    it('should refuse to dispense before the earliest release date', async () => {
+      mockPrisma.repeatSchedule.findFirst.mockResolvedValue(scheduleWithIssue({
+        status: 'SCHEDULED',
+        earliestReleaseDate: new Date('2026-10-16T00:00:00'),
+      }));
+
+      await expect(RepeatDispensingService.getDispensableIssue('eps-1', 'pharmacy-1', now))
+        .rejects.toThrow('Issue 2 cannot be dispensed before 16/10/2026');
+    });
+
+    it('should refuse another pharmacy\'s schedule and a schedule that has ended', async () => {
+      mockPrisma.repeatSchedule.findFirst.mockResolvedValueOnce(scheduleWithIssue());
+      await expect(RepeatDispensingService.getDispensableIssue('eps-1', 'pharmacy-2', now))
+        .rejects.toThrow('held by another pharmacy');
+
+      mockPrisma.repeatSchedule.findFirst.mockResolvedValueOnce(schedule({ status: 'COMPLETED', issues: [] }));
+      await expect(RepeatDispensingService.getDispensableIssue('eps-1', 'pharmacy-1', now))
+        .rejects.toThrow('The repeat dispensing schedule is completed');
+    });
+  });
+
+  describe('recordIssueDispensed', () => {
+    beforeEach(() => {
+      mockPrisma.repeatIssue.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.repeatIssue.findUniqueOrThrow.mockImplementation(({ where }: any) => Promise.resolve({
+        id: where.id,
+        ...mockPrisma.repeatIssue.updateMany.mock.calls[0][0].data,
+      }));
+    });
+
+    it('should schedule the next issue one interval after dispensing', async () => {
+      const result = await RepeatDispensingService.recordIssueDispensed(issue() as any, 'user-1', now);
+
+      expect(mockPrisma.repeatIssue.updateMany).toHaveBeenCalledWith({
+        where: { id: 'issue-2', status: { in: ['SCHEDULED', 'AVAILABLE'] } },
+        data: expect.objectContaining({ status: 'DISPENSED' }),
+      });
+      expect(result.issue).toMatchObject({ status: 'DISPENSED', dispensedAt: now, dispensedById: 'user-1' });
+      expect(result.nextIssue).toMatchObject({ issueNumber: 3, earliestReleaseDate: new Date('2026-11-11T00:00:00') });
+      expect(result.scheduleStatus).toBe('ACTIVE');
+    });
+
+    it('should complete the schedule on the last issue', async () => {
+      const result = await RepeatDispensingService.recordIssueDispensed(issue({ issueNumber: 6 }) as any, 'user-1', now);
+
+      expect(result.nextIssue).toBeNull();
+      expect(mockPrisma.repeatSchedule.update).toHaveBeenCalledWith({ where: { id: 'schedule-1' }, data: { status: 'COMPLETED' } });
+      expect(mockPrisma.prescription.update).toHaveBeenCalledWith({ where: { id: 'prescription-1' }, data: { status: 'DISPENSED' } });
+    });
+
+    it('should expire the schedule when the prescription runs out first', async () => {
+      const result = await RepeatDispensingService.recordIssueDispensed(issue({
+        schedule: schedule({ prescription: { id: 'prescription-1', expiryDate: new Date('2026-11-01T00:00:00') } }),
+      }) as any, 'user-1', now);
+
+      expect(result.scheduleStatus).toBe('EXPIRED');
+      expect(mockPrisma.repeatIssue.create).not.toHaveBeenCalled();
+    });
+
+    it('should not schedule another issue when the issue was dispensed meanwhile', async () => {
+      mockPrisma.repeatIssue.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(RepeatDispensingService.recordIssueDispensed(issue() as any, 'user-1', now))
+        .rejects.toThrow('Issue 2 has already been dispensed or cancelled');
+      expect(mockPrisma.repeatIssue.create).not.toHaveBeenCalled();
+      expect(mockPrisma.repeatSchedule.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseDueIssues', () => {
+    const patient = { id: 'patient-1', firstName: 'Jane', phoneNumber: '07700900000' };
+    const dueIssue = (id: string) => issue({
+      id,
+      status: 'SCHEDULED',
+      releasedAt: null,
+      schedule: schedule({ prescription: { id: 'prescription-1', patientId: 'patient-1', patient, pharmacy: { name: 'High Street Pharmacy' } } }),
+    });
+
+    it('should make due issues available and remind consenting patients', async () => {
+      mockPrisma.repeatIssue.findMany.mockResolvedValue([dueIssue('issue-2')]);
+      mockPrisma.repeatIssue.updateMany.mockResolvedValue({ count: 1 });
+      (MessagingService.sendPrescriptionReminder as jest.Mock).mockResolvedValue({ id: 'message-1', status: 'SENDING' });
+
+      const result = await RepeatDispensingService.releaseDueIssues(now);
+
+      expect(result).toEqual({ released: 1, reminded: 1 });
+      expect(mockPrisma.repeatIssue.updateMany).toHaveBeenCalledWith({
+        where: { id: 'issue-2', status: 'SCHEDULED' },
+        data: { status: 'AVAILABLE', releasedAt: now },
+      });
+      expect(MessagingService.sendPrescriptionReminder).toHaveBeenCalledWith(patient, expect.objectContaining({ id: 'prescription-1' }));
+      expect(mockPrisma.repeatIssue.update).toHaveBeenCalledWith({ where: { id: 'issue-2' }, data: { notifiedAt: now } });
+    });
+
+    it('should not count suppressed reminders or remind for issues already released elsewhere', async () => {
+      mockPrisma.repeatIssue.findMany.mockResolvedValue([dueIssue('issue-2'), dueIssue('issue-3')]);
+      mockPrisma.repeatIssue.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+      (MessagingService.sendPrescriptionReminder as jest.Mock).mockResolvedValue({
+        id: 'message-1',
+        status: 'SUPPRESSED',
+        suppressionReason: 'NO_CONSENT',
+      });
+
+      const result = await RepeatDispensingService.releaseDueIssues(now);
+
+      expect(result).toEqual({ released: 1, reminded: 0 });
+      expect(MessagingService.sendPrescriptionReminder).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.repeatIssue.update).not.toHaveBeenCalled();
+    });
+
+    it('should only release one pharmacy\'s issues when asked to', async () => {
+      mockPrisma.repeatIssue.findMany.mockResolvedValue([]);
+
+      await RepeatDispensingService.releaseDueIssues(now, 'pharmacy-1');
+
+      expect(mockPrisma.repeatIssue.findMany.mock.calls[0][0].where.schedule).toEqual({ status: 'ACTIVE', pharmacyId: 'pharmacy-1' });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import StaffNotificationService, {
+  buildStatusUpdateNotification,
+  toInAppNotification,
+} from '@/services/StaffNotificationService';
+import { tenantPrisma } from '@/lib/db/tenant';
+import { defaultMedicationRequests } from '../../mocks/eps/fixtures';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => {
+  const client: any = {
+    staffNotification: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    staffNotificationReceipt: {
+      upsert: jest.fn(),
+    },
+    userPharmacy: {
+      findUnique: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((callback: any) => callback(client));
+  return { tenantPrisma: client };
+});
+
+const mockPrisma = tenantPrisma as any;
+
+describe('StaffNotificationService', () => {
+  const now = new Date('2026-10-14T10:00:00Z');
+
+  const stored = (overrides: any = {}) => ({
+    id: 'notification-1',
+    pharmacyId: 'pharmacy-1',
+    type: 'update',
+    category: 'prescription',
+    priority: 'low',
+    title: 'Prescription Status Updated',
+    message: 'Prescription for Amoxicillin changed from active to completed.',
+    prescriptionId: 'prescription-1',
+    actionLabel: 'View Prescription',
+    actionUrl: '/prescriptions/details/prescription-1',
+    createdAt: now,
+    receipts: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.userPharmacy.findUnique.mockResolvedValue({ role: 'PHARMACIST' });
+  });
+
+  it('should describe a status change', () => {
+    const [amoxicillin] = defaultMedicationRequests();
+
+    expect(buildStatusUpdateNotification(amoxicillin, 'active', 'completed')).toMatchObject({
+      type: 'update',
+      prescriptionId: amoxicillin.id,
+      action: { url: `/prescriptions/details/${amoxicillin.id}` },
+    });
+  });
+
+  it('should take read state from the user\'s receipt', () => {
+    expect(toInAppNotification(stored()).read).toBe(false);
+    expect(toInAppNotification(stored({ receipts: [{ readAt: now }] }))).toMatchObject({
+      read: true,
+      timestamp: now,
+      action: { label: 'View Prescription', url: '/prescriptions/details/prescription-1' },
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('should show the team, the user\'s role and the user their notifications, less dismissed ones', async () => {
+      mockPrisma.staffNotification.findMany.mockResolvedValue([stored()]);
+      mockPrisma.staffNotification.count.mockResolvedValue(1);
+
+      const result = await StaffNotificationService.getNotifications('user-1', 'pharmacy-1');
+
+      const { where } = mockPrisma.staffNotification.findMany.mock.calls[0][0];
+      expect(where.pharmacyId).toBe('pharmacy-1');
+      expect(where.AND).toEqual([
+        {
+          OR: [
+            { userId: 'user-1' },
+            { userId: null, pharmacyRole: null },
+            { userId: null, pharmacyRole: 'PHARMACIST' },
+          ],
+        },
+        { receipts: { none: { userId: 'user-1', dismissedAt: { not: null } } } },
+      ]);
+      expect(mockPrisma.staffNotification.count.mock.calls[0][0].where.AND).toContainEqual(
+        { receipts: { none: { userId: 'user-1', readAt: { not: null } } } }
+      );
+      expect(result.unreadCount).toBe(1);
+      expect(result.notifications[0].id).toBe('notification-1');
+    });
+
+    it('should not show role notifications to a user outside the pharmacy', async () => {
+      mockPrisma.userPharmacy.findUnique.mockResolvedValue(null);
+      mockPrisma.staffNotification.findMany.mockResolvedValue([]);
+      mockPrisma.staffNotification.count.mockResolvedValue(0);
+
+      await StaffNotificationService.getNotifications('user-2', 'pharmacy-1');
+
+      expect(mockPrisma.staffNotification.findMany.mock.calls[0][0].where.AND[0].OR).toEqual([
+        { userId: 'user-2' },
+        { userId: null, pharmacyRole: null },
+      ]);
+    });
+  });
+
+  describe('read state', () => {
+    it('should refuse to mark a notification the user cannot see', async () => {
+      mockPrisma.staffNotification.findFirst.mockResolvedValue(null);
+
+      await expect(StaffNotificationService.markAsRead('notification-1', 'user-1', 'pharmacy-1', now))
+        .rejects.toThrow('Notification notification-1 not found');
+      expect(mockPrisma.staffNotificationReceipt.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should mark every unread notification read', async () => {
+      mockPrisma.staffNotification.findMany.mockResolvedValue([{ id: 'notification-1' }, { id: 'notification-2' }]);
+
+      const marked = await StaffNotificationService.markAllAsRead('user-1', 'pharmacy-1', now);
+
+      expect(marked).toBe(2);
+      expect(mockPrisma.staffNotificationReceipt.upsert).toHaveBeenCalledWith({
+        where: { notificationId_userId: { notificationId: 'notification-2', userId: 'user-1' } },
+        create: { notificationId: 'notification-2', userId: 'user-1', readAt: now },
+        update: { readAt: now },
+      });
+    });
+
+    it('should dismiss for the user only', async () => {
+      mockPrisma.staffNotification.findFirst.mockResolvedValue({ id: 'notification-1' });
+
+      await StaffNotificationService.dismiss('notification-1', 'user-1', 'pharmacy-1', now);
+
+      expect(mockPrisma.staffNotificationReceipt.upsert).toHaveBeenCalledWith({
+        where: { notificationId_userId: { notificationId: 'notification-1', userId: 'user-1' } },
+        create: { notificationId: 'notification-1', userId: 'user-1', readAt: now, dismissedAt: now },
+        update: { dismissedAt: now },
+      });
+    });
+  });
+
+  it('should delete notifications past retention or expiry', async () => {
+    mockPrisma.staffNotification.deleteMany.mockResolvedValue({ count: 3 });
+
+    const result = await StaffNotificationService.cleanup(now);
+
+    expect(result).toEqual({ deleted: 3 });
+    expect(mockPrisma.staffNotification.deleteMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { createdAt: { lt: new Date('2026-09-14T10:00:00Z') } },
+          { expiresAt: { lt: now } },
+        ],
+      },
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import UserManagementService, {
+  assignableRoles,
+  getUserStatus,
+  hashToken,
+  validatePassword,
+} from '@/services/UserManagementService';
+import NotificationService from '@/services/NotificationService';
+import AuditService from '@/services/AuditService';
+import { prisma } from '../../lib/db/prisma';
+
+// Mock dependencies
+jest.mock('../../lib/db/prisma', () => {
+  const client: any = {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    userPharmacy: {
+      deleteMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    pharmacy: {
+      findMany: jest.fn(),
+    },
+    session: {
+      deleteMany: jest.fn(),
+    },
+    verificationToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  client.$transaction = jest.fn((operations: any[]) => Promise.all(operations));
+  return { prisma: client };
+}, { virtual: true });
+
+jest.mock('bcrypt', () => ({
+  hash: jest.fn(async (password: string) => `hashed:${password}`),
+}));
+
+jest.mock('@/services/AuditService', () => ({
+  logAction: jest.fn(),
+  logAuthenticationAction: jest.fn(),
+}));
+
+jest.mock('@/services/NotificationService', () => ({
+  sendEmail: jest.fn(),
+}));
+
+const mockPrisma = prisma as any;
+
+describe('UserManagementService', () => {
+  const orgAdmin = { id: 'admin-1', role: 'ORG_ADMIN' as const, organizationId: 'org-1' };
+
+  const storedUser = (overrides: any = {}) => ({
+    id: 'user-1',
+    name: 'Priya Shah',
+    email: 'priya@example.com',
+    role: 'PHARMACY_STAFF',
+    isActive: true,
+    emailVerified: new Date('2026-10-01T09:00:00Z'),
+    lastLogin: null,
+    organizationId: 'org-1',
+    createdAt: new Date('2026-10-01T09:00:00Z'),
+    pharmacies: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.pharmacy.findMany.mockImplementation(async ({ where }: any) =>
+      where.id.in.map((id: string) => ({ id }))
+    );
+    mockPrisma.session.deleteMany.mockResolvedValue({ count: 2 });
+    mockPrisma.verificationToken.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('should work out onboarding status', () => {
+    expect(getUserStatus({ isActive: true, emailVerified: null })).toBe('INVITED');
+    expect(getUserStatus({ isActive: true, emailVerified: new Date() })).toBe('ACTIVE');
+    expect(getUserStatus({ isActive: false, emailVerified: new Date() })).toBe('DEACTIVATED');
+  });
+
+  it('should reject short passwords and ones containing the email address', () => {
+    expect(validatePassword('short', 'priya@example.com')).toHaveLength(1);
+    expect(validatePassword('priya-likes-long-walks', 'priya@example.com')).toHaveLength(1);
+    expect(validatePassword('correct horse battery', 'priya@example.com')).toEqual([]);
+  });
+
+  it('should not let org admins hand out super admin', () => {
+    expect(assignableRoles(orgAdmin)).not.toContain('SUPER_ADMIN');
+    expect(assignableRoles({ ...orgAdmin, role: 'SUPER_ADMIN' })).toContain('SUPER_ADMIN');
+    expect(assignableRoles({ ...orgAdmin, role: 'PHARMACY_ADMIN' })).toEqual([]);
+  });
+
+  describe('inviteUser', () => {
+    it('should create the user with pharmacy roles and email a hashed, expiring token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockImplementation(async ({ data }: any) => storedUser({
+        ...data,
+        emailVerified: null,
+        pharmacies: [],
+      }));
+
+      const user = await UserManagementService.inviteUser({
+        email: ' Priya@Example.com ',
+        name: 'Priya Shah',
+        role: 'PHARMACY_STAFF',
+        pharmacies: [{ pharmacyId: 'pharmacy-1', role: 'PHARMACIST' }],
+      }, orgAdmin);
+
+      expect(user).toMatchObject({ email: 'priya@example.com', status: 'INVITED', invitationSent: true });
+      expect(mockPrisma.user.create.mock.calls[0][0].data).toMatchObject({
+        organizationId: 'org-1',
+        pharmacies: { create: [{ pharmacyId: 'pharmacy-1', role: 'PHARMACIST', assignedBy: 'admin-1' }] },
+      });
+      expect(mockPrisma.user.create.mock.calls[0][0].select.password).toBeUndefined();
+
+      // Only the hash is stored; the raw token goes in the email link
+      const stored = mockPrisma.verificationToken.create.mock.calls[0][0].data;
+      const body = (NotificationService.sendEmail as jest.Mock).mock.calls[0][2].body;
+      const token = body.match(/accept-invite\?token=([0-9a-f]+)/)[1];
+
+      expect(stored.identifier).toBe('invite:priya@example.com');
+      expect(stored.token).toBe(hashToken(token));
+      expect(stored.token).not.toBe(token);
+      expect(stored.expires.getTime()).toBeGreaterThan(Date.now());
+      expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'USER_INVITED' }));
+    });
+
+    it('should refuse pharmacies from another organization', async () => {
+      mockPrisma.pharmacy.findMany.mockResolvedValue([]);
+
+      await expect(UserManagementService.inviteUser({
+        email: 'priya@example.com',
+        name: 'Priya Shah',
+        role: 'PHARMACY_STAFF',
+        pharmacies: [{ pharmacyId: 'pharmacy-9', role: 'STAFF' }],
+      }, orgAdmin)).rejects.toThrow('own organization\'s pharmacies');
+
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse roles the admin can\'t grant', async () => {
+      await expect(UserManagementService.inviteUser({
+        email: 'priya@example.com',
+        name: 'Priya Shah',
+        role: 'SUPER_ADMIN',
+      }, orgAdmin)).rejects.toThrow('SUPER_ADMIN');
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should set the password and use up the token', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValue({
+        identifier: 'invite:priya@example.com',
+        expires: new Date(Date.now() + 60_000),
+      });
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ emailVerified: null }));
+      mockPrisma.user.update.mockImplementation(async ({ data }: any) => storedUser(data));
+
+      await expect(UserManagementService.acceptInvitation('raw-token', 'correct horse battery'))
+        .resolves.toEqual({ email: 'priya@example.com' });
+
+      expect(mockPrisma.verificationToken.findUnique).toHaveBeenCalledWith({ where: { token: hashToken('raw-token') } });
+      expect(mockPrisma.user.update.mock.calls[0][0].data).toMatchObject({ password: 'hashed:correct horse battery' });
+      expect(mockPrisma.user.update.mock.calls[0][0].data.emailVerified).toBeInstanceOf(Date);
+      expect(mockPrisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: { identifier: 'invite:priya@example.com' },
+      });
+    });
+
+    it('should reject expired tokens and reset tokens', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'invite:priya@example.com',
+        expires: new Date(Date.now() - 1000),
+      });
+      await expect(UserManagementService.acceptInvitation('raw-token', 'correct horse battery'))
+        .rejects.toThrow('invalid or has expired');
+
+      mockPrisma.verificationToken.findUnique.mockResolvedValueOnce({
+        identifier: 'reset:priya@example.com',
+        expires: new Date(Date.now() + 60_000),
+      });
+      await expect(UserManagementService.acceptInvitation('raw-token', 'correct horse battery'))
+        .rejects.toThrow('invalid or has expired');
+
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject weak passwords', async () => {
+      mockPrisma.verificationToken.findUnique.mockResolvedValue({
+        identifier: 'invite:priya@example.com',
+        expires: new Date(Date.now() + 60_000),
+      });
+
+      await expect(UserManagementService.acceptInvitation('raw-token', 'short'))
+        .rejects.toThrow('at least 12 characters');
+    });
+  });
+
+  it('should sign the user out everywhere after a password reset', async () => {
+    mockPrisma.verificationToken.findUnique.mockResolvedValue({
+      identifier: 'reset:priya@example.com',
+      expires: new Date(Date.now() + 60_000),
+    });
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser());
+    mockPrisma.user.update.mockImplementation(async ({ data }: any) => storedUser(data));
+
+    await UserManagementService.resetPassword('raw-token', 'correct horse battery');
+
+    expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(AuditService.logAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'PASSWORD_RESET' }));
+  });
+
+  it('should only change the pharmacy assignments that differ', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser({
+      pharmacies: [
+        { pharmacyId: 'pharmacy-1', role: 'STAFF' },
+        { pharmacyId: 'pharmacy-2', role: 'PHARMACIST' },
+        { pharmacyId: 'pharmacy-3', role: 'TECHNICIAN' },
+      ],
+    }));
+
+    await UserManagementService.setPharmacies('user-1', [
+      { pharmacyId: 'pharmacy-1', role: 'STAFF' },
+      { pharmacyId: 'pharmacy-2', role: 'ADMIN' },
+      { pharmacyId: 'pharmacy-4', role: 'STAFF' },
+    ], orgAdmin);
+
+    expect(mockPrisma.userPharmacy.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', pharmacyId: { in: ['pharmacy-3'] } },
+    });
+    expect(mockPrisma.userPharmacy.upsert.mock.calls.map(([call]: any) => call.where.userId_pharmacyId.pharmacyId))
+      .toEqual(['pharmacy-2', 'pharmacy-4']);
+    expect(mockPrisma.userPharmacy.upsert.mock.calls[1][0].create).toMatchObject({ assignedBy: 'admin-1' });
+  });
+
+  describe('deactivateUser', () => {
+    it('should end the user\'s sessions and outstanding links', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser());
+      mockPrisma.user.update.mockResolvedValue(storedUser({ isActive: false }));
+
+      const result = await UserManagementService.deactivateUser('user-1', orgAdmin);
+
+      expect(result).toMatchObject({ user: { status: 'DEACTIVATED' }, sessionsRevoked: 2 });
+      expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(mockPrisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: { identifier: { in: ['invite:priya@example.com', 'reset:priya@example.com'] } },
+      });
+    });
+
+    it('should refuse to deactivate the admin themselves', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ id: 'admin-1', role: 'ORG_ADMIN' }));
+
+      await expect(UserManagementService.deactivateUser('admin-1', orgAdmin))
+        .rejects.toThrow('your own account');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should hide users in other organizations', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(storedUser({ organizationId: 'org-2' }));
+
+      await expect(UserManagementService.deactivateUser('user-1', orgAdmin))
+        .rejects.toThrow('User not found');
+    });
+  });
+
+  it('should let a locked-out user try again once unlocked', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser({ lockedUntil: new Date(Date.now() + 60000) }));
+    mockPrisma.user.update.mockResolvedValue(storedUser({ lockedUntil: null }));
+
+    await UserManagementService.unlockUser('user-1', orgAdmin);
+
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toEqual({ failedSignIns: 0, lockedUntil: null });
+    expect(AuditService.logAuthenticationAction).toHaveBeenCalledWith('ACCOUNT_UNLOCKED', 'admin-1', { targetUserId: 'user-1' });
+  });
+
+  it('should turn off two-factor authentication and sign the user out when an admin resets it', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser({ mfaEnabledAt: new Date() }));
+    mockPrisma.user.update.mockResolvedValue(storedUser({ mfaEnabledAt: null }));
+
+    await UserManagementService.resetMfa('user-1', orgAdmin);
+
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toEqual({
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaRecoveryCodes: [],
+      mfaLastUsedStep: null,
+    });
+    expect(mockPrisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+
+    mockPrisma.user.findUnique.mockResolvedValue(storedUser({ id: 'admin-1', role: 'ORG_ADMIN' }));
+    await expect(UserManagementService.resetMfa('admin-1', orgAdmin)).rejects.toThrow('your own');
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  ValidationRuleConfigService,
+  applySettingsToAIIssues,
+  resolveValidationSettings,
+} from '../../services/ValidationRuleConfigService';
+import { BUILT_IN_VALIDATION_RULES } from '../../services/ValidationRuleRegistry';
+
+const mockPrisma = {
+  validationRuleConfig: {
+    upsert: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  pharmacy: {
+    update: jest.fn(),
+  },
+  organization: {
+    update: jest.fn(),
+  },
+};
+
+describe('ValidationRuleConfigService', () => {
+  let service: ValidationRuleConfigService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ValidationRuleConfigService(mockPrisma as any);
+  });
+
+  describe('resolveValidationSettings', () => {
+    it('should use rule defaults and the default AI threshold when nothing is configured', () => {
+      const settings = resolveValidationSettings(BUILT_IN_VALIDATION_RULES, [], []);
+
+      expect(settings.rules['allergies']).toEqual({ enabled: true });
+      expect(settings.aiConfidenceThreshold).toBe(0.7);
+    });
+
+    it('should let the pharmacy inherit fields it does not override', () => {
+      const settings = resolveValidationSettings(
+        BUILT_IN_VALIDATION_RULES,
+        [{ ruleId: 'duplicate-therapy', enabled: false, severity: 'LOW' }],
+        [{ ruleId: 'duplicate-therapy', enabled: true, severity: null }],
+        { organization: 0.8, pharmacy: null }
+      );
+
+      expect(settings.rules['duplicate-therapy']).toEqual({ enabled: true, severity: 'LOW' });
+      expect(settings.aiConfidenceThreshold).toBe(0.8);
+    });
+  });
+
+  describe('applySettingsToAIIssues', () => {
+    const aiIssue = (type: any, confidence: number) => ({
+      type,
+      severity: 'HIGH' as const,
+      description: 'AI finding',
+      medications: ['Warfarin'],
+      aiGenerated: true,
+      confidence,
+    });
+
+    it('should apply the configured threshold and drop issues for disabled rules', () => {
+      const settings = resolveValidationSettings(
+        BUILT_IN_VALIDATION_RULES,
+        [],
+        [{ ruleId: 'contraindications', enabled: false, severity: null }],
+        { pharmacy: 0.9 }
+      );
+
+      const issues = applySettingsToAIIssues(
+        [aiIssue('DRUG_INTERACTION', 0.95), aiIssue('DRUG_INTERACTION', 0.8), aiIssue('CONTRAINDICATION', 0.99)],
+        BUILT_IN_VALIDATION_RULES,
+        settings
+      );
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].confidence).toBe(0.95);
+    });
+  });
+
+  describe('setRuleConfig', () => {
+    it('should reject unknown rules and severities', async () => {
+      await expect(service.setRuleConfig({ type: 'pharmacy', id: 'pharmacy-1' }, 'no-such-rule', { enabled: false }))
+        .rejects.toThrow('Unknown validation rule');
+      await expect(service.setRuleConfig({ type: 'pharmacy', id: 'pharmacy-1' }, 'allergies', { severity: 'NONE' }))
+        .rejects.toThrow('severity must be one of');
+    });
+
+    it('should remove the override when both fields are cleared', async () => {
+      const result = await service.setRuleConfig({ type: 'organization', id: 'org-1' }, 'allergies', { enabled: null, severity: null });
+
+      expect(result).toBeNull();
+      expect(mockPrisma.validationRuleConfig.deleteMany).toHaveBeenCalledWith({
+        where: { organizationId: 'org-1', ruleId: 'allergies' },
+      });
+      expect(mockPrisma.validationRuleConfig.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setAIConfidenceThreshold', () => {
+    it('should only accept values between 0 and 1', async () => {
+      await expect(service.setAIConfidenceThreshold({ type: 'pharmacy', id: 'pharmacy-1' }, 1.5))
+        .rejects.toThrow('between 0 and 1');
+
+      await service.setAIConfidenceThreshold({ type: 'pharmacy', id: 'pharmacy-1' }, 0.85);
+
+      expect(mockPrisma.pharmacy.update).toHaveBeenCalledWith({
+        where: { id: 'pharmacy-1' },
+        data: { aiConfidenceThreshold: 0.85 },
+      });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import ValidationRunService, { calculateIssueMetrics, ReviewedIssue } from '@/services/ValidationRunService';
+import { tenantPrisma } from '@/lib/db/tenant';
+
+// Mock dependencies
+jest.mock('@/lib/db/tenant', () => ({
+  tenantPrisma: {
+    validationRun: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    issueFeedback: {
+      upsert: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = tenantPrisma as any;
+
+describe('ValidationRunService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('calculateIssueMetrics', () => {
+    const reviewed = (isTruePositive: boolean) => [{ isTruePositive, updatedAt: new Date('2026-01-01') }];
+
+    const issue = (overrides: Partial<ReviewedIssue>): ReviewedIssue => ({
+      validationRunId: 'run-1',
+      type: 'DRUG_INTERACTION',
+      medications: ['Warfarin', 'Aspirin'],
+      aiGenerated: true,
+      aiEnhancedRun: true,
+      feedback: [],
+      ...overrides,
+    });
+
+    it('should calculate precision from reviewed AI issues only', () => {
+      const metrics = calculateIssueMetrics([
+        issue({ feedback: reviewed(true) }),
+        issue({ type: 'ALLERGY', feedback: reviewed(true) }),
+        issue({ type: 'CONTRAINDICATION', feedback: reviewed(false) }),
+        issue({ type: 'INAPPROPRIATE_DOSAGE' }),
+      ]);
+
+      expect(metrics.reviewedAIIssues).toBe(3);
+      expect(metrics.truePositives).toBe(2);
+      expect(metrics.falsePositives).toBe(1);
+      expect(metrics.precision).toBeCloseTo(66.67, 1);
+    });
+
+    it('should count confirmed rule-based issues the AI missed as false negatives', () => {
+      const metrics = calculateIssueMetrics([
+        issue({ feedback: reviewed(true) }),
+        // Also raised by the AI in the same run
+        issue({ aiGenerated: false, medications: ['aspirin'], feedback: reviewed(true) }),
+        // Missed by the AI
+        issue({ aiGenerated: false, type: 'ALLERGY', medications: ['Amoxicillin'], feedback: reviewed(true) }),
+        // The AI was not asked, so it could not have missed it
+        issue({ validationRunId: 'run-2', aiGenerated: false, aiEnhancedRun: false, type: 'ALLERGY', feedback: reviewed(true) }),
+      ]);
+
+      expect(metrics.falseNegatives).toBe(1);
+      expect(metrics.recall).toBe(50);
+    });
+
+    it('should use the most recent verdict when an issue was reviewed more than once', () => {
+      const metrics = calculateIssueMetrics([
+        issue({
+          feedback: [
+            { isTruePositive: true, updatedAt: new Date('2026-01-01') },
+            { isTruePositive: false, updatedAt: new Date('2026-02-01') },
+          ],
+        }),
+      ]);
+
+      expect(metrics.falsePositives).toBe(1);
+      expect(metrics.precision).toBe(0);
+    });
+  });
+
+  describe('recordRun', () => {
+    it('should store each issue with its position and AI details', async () => {
+      mockPrisma.validationRun.create.mockResolvedValue({ id: 'run-1', issues: [] });
+
+      await ValidationRunService.recordRun('pharmacy-1', {
+        prescriptionId: 'prescription-1',
+        patientId: 'patient-1',
+        isValid: false,
+        severity: 'HIGH',
+        timestamp: new Date(),
+        aiEnhanced: true,
+        issues: [
+          { type: 'DRUG_INTERACTION', severity: 'HIGH', description: 'Bleeding risk', medications: ['Warfarin', 'Aspirin'] },
+          { type: 'ALLERGY', severity: 'MEDIUM', description: 'Possible allergy', medications: ['Amoxicillin'], aiGenerated: true, confidence: 0.82 },
+        ],
+      }, 'user-1');
+
+      const { data } = mockPrisma.validationRun.create.mock.calls[0][0];
+      expect(data).toEqual(expect.objectContaining({ pharmacyId: 'pharmacy-1', aiEnhanced: true, createdById: 'user-1' }));
+      expect(data.issues.create).toEqual([
+        expect.objectContaining({ issueIndex: 0, aiGenerated: false, confidence: null }),
+        expect.objectContaining({ issueIndex: 1, aiGenerated: true, confidence: 0.82 }),
+      ]);
+    });
+  });
+
+  describe('recordFeedback', () => {
+    it('should replace a reviewer\'s earlier verdict on the same issue', async () => {
+      mockPrisma.validationRun.findFirst.mockResolvedValue({ id: 'run-1' });
+      mockPrisma.issueFeedback.upsert.mockResolvedValue({ id: 'feedback-1' });
+
+      await ValidationRunService.recordFeedback({
+        prescriptionId: 'prescription-1',
+        issueId: 'issue-1',
+        reviewerId: 'pharmacist-1',
+        isTruePositive: false,
+        comment: 'Interaction already managed',
+      });
+
+      expect(mockPrisma.issueFeedback.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { issueId_reviewerId: { issueId: 'issue-1', reviewerId: 'pharmacist-1' } },
+        update: { isTruePositive: false, comment: 'Interaction already managed' },
+      }));
+    });
+
+    it('should reject feedback on an issue from another prescription or pharmacy', async () => {
+      mockPrisma.validationRun.findFirst.mockResolvedValue(null);
+
+      await expect(ValidationRunService.recordFeedback({
+        prescriptionId: 'prescription-1',
+        issueId: 'issue-1',
+        reviewerId: 'pharmacist-1',
+        isTruePositive: true,
+      })).rejects.toThrow('not found');
+
+      expect(mockPrisma.validationRun.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { prescriptionId: 'prescription-1', issues: { some: { id: 'issue-1' } } },
+      }));
+      expect(mockPrisma.issueFeedback.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,16 @@
 import { UserRole } from "@prisma/client";
 import NextAuth from "next-auth";
 
+// A CIS2 role the user holds at one of our pharmacies
+interface Cis2TokenRole {
+  roleId: string;
+  roleName: string;
+  odsCode: string;
+  pharmacyId: string;
+  pharmacyName: string;
+  pharmacyRole: string;
+}
+
 declare module "next-auth" {
   interface Session {
     user: {
@@ -18,8 +28,11 @@ declare module "next-auth" {
       }>;
       selectedPharmacyId?: string | null;
       selectedPharmacyName?: string | null;
-      isSmartcardUser?: boolean;
-      smartcardRights?: string[];
+      isCis2User?: boolean;
+      cis2Roles?: Cis2TokenRole[];
+      cis2RoleId?: string | null;
+      sessionId?: string;
+      mfaEnrollmentRequired?: boolean;
     };
   }
 }
@@ -37,7 +50,10 @@ declare module "next-auth/jwt" {
     }>;
     selectedPharmacyId?: string | null;
     selectedPharmacyName?: string | null;
-    isSmartcardUser?: boolean;
-    smartcardRights?: string[];
+    isCis2User?: boolean;
+    cis2Roles?: Cis2TokenRole[];
+    cis2RoleId?: string | null; // The CIS2 role the user is acting in
+    sessionId?: string; // The Session row recording this sign-in
+    mfaEnrollmentRequired?: boolean; // Has to set up two-factor authentication before anything else
   }
 }
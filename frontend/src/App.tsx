@@ -1,34 +1,133 @@
-
 import React from 'react'
 import './App.css'
+import { ConsentLink, initialAnswers, loadConsentLink, submitConsentAnswers } from './consentLink'
+
+type PageState = 'loading' | 'invalid' | 'ready' | 'submitting' | 'done'
+
+// Same origin in development (Vite proxies /api); set VITE_API_URL when the API is hosted elsewhere
+const API_URL = import.meta.env.VITE_API_URL || ''
+
+const token = new URLSearchParams(window.location.search).get('token')
 
 const App: React.FC = () => {
-  const [consentGiven, setConsentGiven] = React.useState(false)
+  const [state, setState] = React.useState<PageState>('loading')
+  const [link, setLink] = React.useState<ConsentLink | null>(null)
+  const [answers, setAnswers] = React.useState<Record<string, boolean>>({})
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!token) {
+      setState('invalid')
+      return
+    }
+
+    loadConsentLink(API_URL, token)
+      .then((data) => {
+        if (!data) {
+          setState('invalid')
+          return
+        }
 
-  const handleConsent = () => {
-    setConsentGiven(true)
-    // TODO: Connect to backend API
+        setLink(data)
+        setAnswers(initialAnswers(data))
+        setState('ready')
+      })
+      .catch(() => setState('invalid'))
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!link || !token) {
+      return
+    }
+
+    setState('submitting')
+    try {
+      await submitConsentAnswers(API_URL, token, link.notices.map((notice) => ({
+        consentType: notice.consentType,
+        given: answers[notice.consentType],
+        noticeId: notice.noticeId,
+      })))
+
+      setState('done')
+    } catch (err) {
+      setError((err as Error).message)
+      setState('ready')
+    }
   }
 
+  const answered = link !== null && link.notices.every((notice) => notice.consentType in answers)
+
   return (
     <div className="app">
       <header>
-        <h1>GDPR Consent Management</h1>
+        <h1>{link ? link.pharmacyName : 'Your Consent Choices'}</h1>
       </header>
       <main>
-        {!consentGiven ? (
-          <div className="consent-form">
-            <h2>Data Processing Consent</h2>
+        {state === 'loading' && <p>Loading...</p>}
+
+        {state === 'invalid' && (
+          <div className="confirmation">
+            <h2>This link can&apos;t be used</h2>
             <p>
-              We need your consent to process your personal data in accordance 
-              with GDPR regulations.
+              It may have expired or already been used. Please contact your pharmacy
+              if you would like to change your consent choices.
             </p>
-            <button onClick={handleConsent}>Give Consent</button>
           </div>
-        ) : (
+        )}
+
+        {(state === 'ready' || state === 'submitting') && link && (
+          <form className="consent-form" onSubmit={handleSubmit}>
+            <p>
+              Hello {link.firstName}. Please tell us what you are happy for us to use your
+              personal data for. You can change your mind at any time.
+            </p>
+
+            {link.notices.map((notice) => (
+              <fieldset key={notice.consentType} className="notice">
+                <legend>{notice.title}</legend>
+                {notice.wordingChanged && (
+                  <p className="notice-changed">
+                    We have changed the wording of this since you last answered, so please answer again.
+                  </p>
+                )}
+                <p className="notice-text">{notice.text}</p>
+                <label>
+                  <input
+                    type="radio"
+                    name={notice.consentType}
+                    checked={answers[notice.consentType] === true}
+                    onChange={() => setAnswers((prev) => ({ ...prev, [notice.consentType]: true }))}
+                  />
+                  Yes
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name={notice.consentType}
+                    checked={answers[notice.consentType] === false}
+                    onChange={() => setAnswers((prev) => ({ ...prev, [notice.consentType]: false }))}
+                  />
+                  No
+                </label>
+              </fieldset>
+            ))}
+
+            {error && <p className="error">{error}</p>}
+
+            <button type="submit" disabled={!answered || state === 'submitting'}>
+              {state === 'submitting' ? 'Saving...' : 'Save My Choices'}
+            </button>
+            <p className="expiry">
+              This link can be used once, until {new Date(link.expiresAt).toLocaleDateString('en-GB')}.
+            </p>
+          </form>
+        )}
+
+        {state === 'done' && (
           <div className="confirmation">
             <h2>Thank you!</h2>
-            <p>Your consent has been recorded.</p>
+            <p>Your consent choices have been recorded. You can close this page.</p>
           </div>
         )}
       </main>
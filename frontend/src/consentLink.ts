@@ -0,0 +1,74 @@
+export interface LinkNotice {
+  consentType: string
+  noticeId: string
+  version: number
+  title: string
+  text: string
+  given: boolean | null
+  wordingChanged: boolean
+}
+
+export interface ConsentLink {
+  pharmacyName: string
+  firstName: string
+  expiresAt: string
+  notices: LinkNotice[]
+}
+
+export interface ConsentAnswer {
+  consentType: string
+  given: boolean
+  noticeId: string
+}
+
+type Fetch = (input: string, init?: RequestInit) => Promise<Response>
+
+const linkUrl = (apiUrl: string, token: string) => `${apiUrl}/api/consent-links/${encodeURIComponent(token)}`
+
+/**
+ * Load what a consent link asks the patient
+ * GET /api/consent-links/:token answers { link }
+ * @returns The link, or null if it is invalid, expired or already used
+ */
+export async function loadConsentLink(apiUrl: string, token: string, fetchFn: Fetch = fetch): Promise<ConsentLink | null> {
+  const response = await fetchFn(linkUrl(apiUrl, token))
+  if (!response.ok) {
+    return null
+  }
+
+  const { link } = await response.json()
+  return link && Array.isArray(link.notices) ? link : null
+}
+
+/**
+ * The patient's current answers, except where the wording has changed since they gave them
+ */
+export function initialAnswers(link: ConsentLink): Record<string, boolean> {
+  return Object.fromEntries(
+    link.notices
+      .filter((notice) => notice.given !== null && !notice.wordingChanged)
+      .map((notice) => [notice.consentType, notice.given as boolean])
+  )
+}
+
+/**
+ * Send the patient's answers; the link stops working once they are recorded
+ * @throws With the API's message if they could not be recorded
+ */
+export async function submitConsentAnswers(
+  apiUrl: string,
+  token: string,
+  answers: ConsentAnswer[],
+  fetchFn: Fetch = fetch
+): Promise<void> {
+  const response = await fetchFn(linkUrl(apiUrl, token), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ choices: answers }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.message || 'Your answers could not be saved')
+  }
+}